@@ -10,9 +10,10 @@ import { useLocation } from 'react-router-dom';
 import Header from '@components/common/Header';
 import Footer from '@components/common/Footer';
 
-// Import AuthProvider and ThemeProvider
+// Import AuthProvider, ThemeProvider and NotificationProvider
 import { AuthProvider } from '@context/AuthContext';
 import { ThemeProvider } from '@context/ThemeContext';
+import { NotificationProvider } from '@context/NotificationContext';
 
 // Import BrowserRouter for routing
 import { BrowserRouter as Router } from 'react-router-dom';
@@ -28,12 +29,14 @@ const AppContent: React.FC = () => {
   return (
     <ThemeProvider>
       <AuthProvider>
-        {/* Only show Header on non-dashboard pages */}
-        {!isDashboardPage && <Header />}
-        <main className="main-content">
-          <AppRouter />
-        </main>
-        {!isDashboardPage && <Footer />}
+        <NotificationProvider>
+          {/* Only show Header on non-dashboard pages */}
+          {!isDashboardPage && <Header />}
+          <main className="main-content">
+            <AppRouter />
+          </main>
+          {!isDashboardPage && <Footer />}
+        </NotificationProvider>
       </AuthProvider>
     </ThemeProvider>
   );
@@ -0,0 +1,412 @@
+// src/components/dashboard/BookingCalendar.tsx
+import React, { useState } from 'react';
+import Button from '@components/common/Button';
+import { Booking, BookingStatus } from '@models/booking';
+import { SLOT_INTERVAL_MINUTES, minutesToTime } from '@utils/availability';
+import { STATUS_COLORS, STATUS_LABELS } from '@utils/bookingStatus';
+import {
+  BookingMove,
+  CALENDAR_VIEW_LABELS,
+  CalendarView,
+  canMoveBooking,
+  formatCalendarTitle,
+  formatDayHeading,
+  getCalendarRange,
+  getMonthWeeks,
+  getToday,
+  getVisibleHours,
+  getWeekDates,
+  layoutDayColumn,
+  shiftCalendarDate,
+} from '@utils/calendar';
+
+/**
+ * A staff member shown as a column in the day view. Use a null ID for unassigned bookings.
+ */
+export interface CalendarStaffColumn {
+  id: string | null;
+  name: string;
+}
+
+interface BookingCalendarProps {
+  bookings: Booking[]; // Anything outside the visible dates is ignored
+  view: CalendarView;
+  date: string; // YYYY-MM-DD the calendar is on
+  onViewChange: (view: CalendarView) => void;
+  onDateChange: (date: string) => void;
+  staff?: CalendarStaffColumn[]; // One day-view column each; leave out for a single column
+  onBookingClick?: (booking: Booking) => void;
+  onBookingMove?: (booking: Booking, move: BookingMove) => void; // Turns on drag and drop
+}
+
+const HOUR_HEIGHT = 56; // Pixels per hour in the day and week grids
+const MONTH_CELL_LIMIT = 3; // Bookings listed per day before "+N more"
+const CALENDAR_STATUSES: BookingStatus[] = ['pending', 'confirmed', 'in_progress', 'completed', 'cancelled', 'no_show'];
+
+const formatClock = (minutes: number): string => {
+  const hour = Math.floor(minutes / 60);
+  const displayHour = hour % 12 || 12;
+  return `${displayHour}:${String(minutes % 60).padStart(2, '0')} ${hour >= 12 ? 'PM' : 'AM'}`;
+};
+
+// Appointments on a time grid for day and week views, and as a month overview
+const BookingCalendar: React.FC<BookingCalendarProps> = ({
+  bookings,
+  view,
+  date,
+  onViewChange,
+  onDateChange,
+  staff,
+  onBookingClick,
+  onBookingMove,
+}) => {
+  const [dragging, setDragging] = useState<Booking | null>(null);
+  const today = getToday();
+  const range = getCalendarRange(view, date);
+  const visible = bookings.filter(booking => booking.bookingDate >= range.from && booking.bookingDate <= range.to);
+  const hours = getVisibleHours(visible);
+
+  const isDraggable = (booking: Booking) => !!onBookingMove && canMoveBooking(booking);
+
+  const handleDrop = (move: BookingMove) => {
+    if (dragging && onBookingMove) onBookingMove(dragging, move);
+    setDragging(null);
+  };
+
+  const dragProps = (booking: Booking) => isDraggable(booking) ? {
+    draggable: true,
+    onDragStart: (e: React.DragEvent) => {
+      e.dataTransfer.setData('text/plain', booking.id);
+      e.dataTransfer.effectAllowed = 'move';
+      setDragging(booking);
+    },
+    onDragEnd: () => setDragging(null),
+  } : {};
+
+  const dropProps = (move: BookingMove) => onBookingMove ? {
+    onDragOver: (e: React.DragEvent) => {
+      if (!dragging) return;
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'move';
+    },
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      handleDrop(move);
+    },
+  } : {};
+
+  const renderBlockText = (booking: Booking, showStaff: boolean) => (
+    <>
+      <div style={{ fontWeight: 'bold', whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>
+        {booking.serviceName}
+      </div>
+      <div style={{ whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>{booking.customerName}</div>
+      {showStaff && (
+        <div style={{ whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis', opacity: 0.8 }}>
+          {booking.staffName || 'Unassigned'}
+        </div>
+      )}
+    </>
+  );
+
+  const describeBooking = (booking: Booking, start: number, end: number) =>
+    `${formatClock(start)} – ${formatClock(end)}\n${booking.serviceName}\n${booking.customerName}` +
+    `\n${booking.staffName || 'Unassigned'} · ${STATUS_LABELS[booking.status]}`;
+
+  // One column of the time grid: half-hour drop slots with the bookings laid over them
+  const renderTimeColumn = (key: string, columnBookings: Booking[], target: Omit<BookingMove, 'time'>, showStaff: boolean) => {
+    const slots: number[] = [];
+    for (let minute = hours.start; minute < hours.end; minute += SLOT_INTERVAL_MINUTES) slots.push(minute);
+
+    return (
+      <div
+        key={key}
+        style={{
+          position: 'relative',
+          flex: 1,
+          minWidth: '140px',
+          height: `${((hours.end - hours.start) / 60) * HOUR_HEIGHT}px`,
+          borderLeft: '1px solid #e0e0e0',
+          backgroundColor: target.date === today ? '#fffdf5' : 'white'
+        }}
+      >
+        {slots.map(minute => (
+          <div
+            key={minute}
+            {...dropProps({ ...target, time: minutesToTime(minute) })}
+            style={{
+              position: 'absolute',
+              top: `${((minute - hours.start) / 60) * HOUR_HEIGHT}px`,
+              left: 0,
+              right: 0,
+              height: `${(SLOT_INTERVAL_MINUTES / 60) * HOUR_HEIGHT}px`,
+              borderTop: minute % 60 === 0 ? '1px solid #e0e0e0' : '1px dashed #f0f0f0'
+            }}
+          />
+        ))}
+
+        {layoutDayColumn(columnBookings).map(({ booking, start, end, lane, lanes }) => (
+          <div
+            key={booking.id}
+            {...dragProps(booking)}
+            onClick={() => onBookingClick?.(booking)}
+            title={describeBooking(booking, start, end)}
+            style={{
+              position: 'absolute',
+              top: `${((start - hours.start) / 60) * HOUR_HEIGHT}px`,
+              height: `${Math.max(((end - start) / 60) * HOUR_HEIGHT - 2, 18)}px`,
+              left: `calc(${(lane / lanes) * 100}% + 2px)`,
+              width: `calc(${100 / lanes}% - 4px)`,
+              backgroundColor: STATUS_COLORS[booking.status].background,
+              color: STATUS_COLORS[booking.status].color,
+              borderLeft: `4px solid ${STATUS_COLORS[booking.status].color}`,
+              borderRadius: '4px',
+              padding: '2px 6px',
+              fontSize: '12px',
+              overflow: 'hidden',
+              boxSizing: 'border-box',
+              cursor: isDraggable(booking) ? 'grab' : onBookingClick ? 'pointer' : 'default',
+              opacity: booking.status === 'cancelled' || booking.status === 'no_show' ? 0.6 : dragging?.id === booking.id ? 0.4 : 1,
+              // Let drops through to the slots underneath while something is being dragged
+              pointerEvents: dragging ? 'none' : 'auto',
+              zIndex: 1
+            }}
+          >
+            <div style={{ fontSize: '11px' }}>{formatClock(start)}</div>
+            {renderBlockText(booking, showStaff)}
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  const renderTimeGrid = (columns: { key: string; heading: React.ReactNode; bookings: Booking[]; target: Omit<BookingMove, 'time'>; today?: boolean }[], showStaff: boolean) => {
+    const hourMarks: number[] = [];
+    for (let minute = hours.start; minute < hours.end; minute += 60) hourMarks.push(minute);
+
+    return (
+      <div style={{ overflowX: 'auto', border: '1px solid #e0e0e0', borderRadius: 'var(--border-radius)' }}>
+        <div style={{ display: 'flex', position: 'sticky', top: 0, backgroundColor: '#f7f3ea', zIndex: 2 }}>
+          <div style={{ width: '64px', flexShrink: 0 }} />
+          {columns.map(column => (
+            <div key={column.key} style={{
+              flex: 1,
+              minWidth: '140px',
+              padding: '8px',
+              textAlign: 'center',
+              fontWeight: 'bold',
+              fontSize: '14px',
+              borderLeft: '1px solid #e0e0e0',
+              color: column.today ? 'var(--color-accent)' : undefined
+            }}>
+              {column.heading}
+            </div>
+          ))}
+        </div>
+        <div style={{ display: 'flex' }}>
+          <div style={{ width: '64px', flexShrink: 0, position: 'relative' }}>
+            {hourMarks.map(minute => (
+              <div key={minute} style={{
+                height: `${HOUR_HEIGHT}px`,
+                fontSize: '11px',
+                color: '#666',
+                textAlign: 'right',
+                paddingRight: '6px',
+                boxSizing: 'border-box',
+                borderTop: '1px solid transparent'
+              }}>
+                {formatClock(minute)}
+              </div>
+            ))}
+          </div>
+          {columns.map(column => renderTimeColumn(column.key, column.bookings, column.target, showStaff))}
+        </div>
+      </div>
+    );
+  };
+
+  const renderDayView = () => {
+    const dayBookings = visible.filter(booking => booking.bookingDate === date);
+
+    if (!staff) {
+      return renderTimeGrid([{ key: date, heading: formatDayHeading(date), bookings: dayBookings, target: { date }, today: date === today }], true);
+    }
+
+    // Only show the unassigned column when it has something in it
+    const columns = staff.filter(member => member.id !== null || dayBookings.some(booking => !booking.staffId));
+    return renderTimeGrid(columns.map(member => ({
+      key: member.id || 'unassigned',
+      heading: member.name,
+      bookings: dayBookings.filter(booking => (booking.staffId || null) === member.id),
+      target: { date, staffId: member.id },
+    })), false);
+  };
+
+  const renderWeekView = () =>
+    renderTimeGrid(getWeekDates(date).map(day => ({
+      key: day,
+      heading: (
+        <button
+          type="button"
+          onClick={() => { onDateChange(day); onViewChange('day'); }}
+          style={{ background: 'none', border: 'none', font: 'inherit', color: 'inherit', cursor: 'pointer' }}
+        >
+          {formatDayHeading(day)}
+        </button>
+      ),
+      bookings: visible.filter(booking => booking.bookingDate === day),
+      target: { date: day },
+      today: day === today,
+    })), !!staff);
+
+  const renderMonthView = () => {
+    const month = date.slice(0, 7);
+    return (
+      <div style={{ border: '1px solid #e0e0e0', borderRadius: 'var(--border-radius)', overflow: 'hidden' }}>
+        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(7, 1fr)', backgroundColor: '#f7f3ea' }}>
+          {getWeekDates(date).map(day => (
+            <div key={day} style={{ padding: '8px', textAlign: 'center', fontWeight: 'bold', fontSize: '14px' }}>
+              {formatDayHeading(day).split(' ')[0]}
+            </div>
+          ))}
+        </div>
+        {getMonthWeeks(date).map(week => (
+          <div key={week[0]} style={{ display: 'grid', gridTemplateColumns: 'repeat(7, 1fr)' }}>
+            {week.map(day => {
+              const dayBookings = visible
+                .filter(booking => booking.bookingDate === day)
+                .sort((a, b) => a.bookingTime.localeCompare(b.bookingTime));
+              return (
+                <div
+                  key={day}
+                  {...(dragging ? dropProps({ date: day, time: dragging.bookingTime }) : {})}
+                  style={{
+                    minHeight: '96px',
+                    padding: '4px',
+                    borderTop: '1px solid #e0e0e0',
+                    borderLeft: '1px solid #e0e0e0',
+                    backgroundColor: day === today ? '#fffdf5' : day.slice(0, 7) === month ? 'white' : '#fafafa',
+                    color: day.slice(0, 7) === month ? undefined : '#999'
+                  }}
+                >
+                  <button
+                    type="button"
+                    onClick={() => { onDateChange(day); onViewChange('day'); }}
+                    style={{
+                      background: 'none',
+                      border: 'none',
+                      padding: 0,
+                      cursor: 'pointer',
+                      fontWeight: day === today ? 'bold' : 'normal',
+                      color: day === today ? 'var(--color-accent)' : 'inherit'
+                    }}
+                  >
+                    {parseInt(day.slice(8), 10)}
+                  </button>
+                  {dayBookings.slice(0, MONTH_CELL_LIMIT).map(booking => (
+                    <div
+                      key={booking.id}
+                      {...dragProps(booking)}
+                      onClick={() => onBookingClick?.(booking)}
+                      title={`${booking.serviceName} · ${booking.customerName} · ${STATUS_LABELS[booking.status]}`}
+                      style={{
+                        marginTop: '2px',
+                        padding: '1px 4px',
+                        borderRadius: '3px',
+                        fontSize: '11px',
+                        whiteSpace: 'nowrap',
+                        overflow: 'hidden',
+                        textOverflow: 'ellipsis',
+                        backgroundColor: STATUS_COLORS[booking.status].background,
+                        color: STATUS_COLORS[booking.status].color,
+                        cursor: isDraggable(booking) ? 'grab' : onBookingClick ? 'pointer' : 'default',
+                        pointerEvents: dragging ? 'none' : 'auto'
+                      }}
+                    >
+                      {booking.bookingTime.slice(0, 5)} {booking.serviceName}
+                    </div>
+                  ))}
+                  {dayBookings.length > MONTH_CELL_LIMIT && (
+                    <button
+                      type="button"
+                      onClick={() => { onDateChange(day); onViewChange('day'); }}
+                      style={{ background: 'none', border: 'none', padding: 0, fontSize: '11px', color: '#666', cursor: 'pointer' }}
+                    >
+                      +{dayBookings.length - MONTH_CELL_LIMIT} more
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div>
+      {/* Toolbar */}
+      <div style={{
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        flexWrap: 'wrap',
+        gap: 'var(--spacing-sm)',
+        marginBottom: 'var(--spacing-md)'
+      }}>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+          <Button variant="secondary" size="small" onClick={() => onDateChange(shiftCalendarDate(view, date, -1))} aria-label="Previous">
+            ‹
+          </Button>
+          <Button variant="secondary" size="small" onClick={() => onDateChange(today)}>
+            Today
+          </Button>
+          <Button variant="secondary" size="small" onClick={() => onDateChange(shiftCalendarDate(view, date, 1))} aria-label="Next">
+            ›
+          </Button>
+          <strong style={{ marginLeft: '8px', fontFamily: 'var(--font-family-serif)', fontSize: '1.2rem' }}>
+            {formatCalendarTitle(view, date)}
+          </strong>
+        </div>
+        <div style={{ display: 'flex', gap: '4px' }}>
+          {(Object.keys(CALENDAR_VIEW_LABELS) as CalendarView[]).map(option => (
+            <Button
+              key={option}
+              variant={option === view ? 'primary' : 'secondary'}
+              size="small"
+              onClick={() => onViewChange(option)}
+            >
+              {CALENDAR_VIEW_LABELS[option]}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {/* Legend */}
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '12px', marginBottom: 'var(--spacing-sm)', fontSize: '12px' }}>
+        {CALENDAR_STATUSES.map(status => (
+          <span key={status} style={{ display: 'inline-flex', alignItems: 'center', gap: '4px' }}>
+            <span style={{
+              width: '12px',
+              height: '12px',
+              borderRadius: '2px',
+              backgroundColor: STATUS_COLORS[status].background,
+              border: `1px solid ${STATUS_COLORS[status].color}`
+            }} />
+            {STATUS_LABELS[status]}
+          </span>
+        ))}
+        {onBookingMove && (
+          <span style={{ color: '#666', fontStyle: 'italic' }}>Drag an upcoming booking to move it.</span>
+        )}
+      </div>
+
+      {view === 'day' && renderDayView()}
+      {view === 'week' && renderWeekView()}
+      {view === 'month' && renderMonthView()}
+    </div>
+  );
+};
+
+export default BookingCalendar;
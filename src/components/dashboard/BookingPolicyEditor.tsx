@@ -0,0 +1,187 @@
+// src/components/dashboard/BookingPolicyEditor.tsx
+import React, { useEffect, useState } from 'react';
+import Button from '@components/common/Button';
+import { useAuth } from '@context/AuthContext';
+import { LateCancellationPenalty } from '@models/booking';
+import { bookingPolicyRepository } from '@repositories/bookingPolicy';
+import { PENALTY_LABELS, describeBookingPolicy, fetchBookingPolicy } from '@utils/bookingPolicy';
+
+interface BookingPolicyEditorProps {
+  onSaved?: () => void;
+}
+
+// Lets an admin set the notice windows, reschedule limit and late-cancellation penalty
+const BookingPolicyEditor: React.FC<BookingPolicyEditorProps> = ({ onSaved }) => {
+  const { user } = useAuth();
+  const [cancelNoticeHours, setCancelNoticeHours] = useState('');
+  const [rescheduleNoticeHours, setRescheduleNoticeHours] = useState('');
+  const [maxReschedules, setMaxReschedules] = useState('');
+  const [penalty, setPenalty] = useState<LateCancellationPenalty>('none');
+  const [feePercent, setFeePercent] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    const fetchPolicy = async () => {
+      try {
+        const policy = await fetchBookingPolicy();
+        setCancelNoticeHours(String(policy.cancelNoticeHours));
+        setRescheduleNoticeHours(String(policy.rescheduleNoticeHours));
+        setMaxReschedules(policy.maxReschedules != null ? String(policy.maxReschedules) : '');
+        setPenalty(policy.lateCancellationPenalty);
+        setFeePercent(String(Math.round(policy.lateCancellationFeeRate * 100)));
+      } catch (err: any) {
+        console.error('❌ Error loading booking policy:', err);
+        setError(err.message);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchPolicy();
+  }, []);
+
+  const policy = {
+    cancelNoticeHours: parseInt(cancelNoticeHours, 10),
+    rescheduleNoticeHours: parseInt(rescheduleNoticeHours, 10),
+    maxReschedules: maxReschedules.trim() === '' ? undefined : parseInt(maxReschedules, 10),
+    lateCancellationPenalty: penalty,
+    lateCancellationFeeRate: penalty === 'fee' ? (parseFloat(feePercent) || 0) / 100 : 0,
+  };
+  const valid =
+    policy.cancelNoticeHours >= 0 &&
+    policy.rescheduleNoticeHours >= 0 &&
+    (policy.maxReschedules === undefined || policy.maxReschedules >= 0) &&
+    policy.lateCancellationFeeRate >= 0 && policy.lateCancellationFeeRate <= 1;
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+    setError(null);
+    setSaved(false);
+
+    if (!valid) {
+      setError('Enter whole numbers of hours and reschedules, and a fee between 0 and 100%.');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await bookingPolicyRepository.save(policy, user.id);
+      setSaved(true);
+      onSaved?.();
+    } catch (err: any) {
+      console.error('❌ Error saving booking policy:', err);
+      setError(err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div style={{
+      border: '1px solid var(--color-border)',
+      borderRadius: 'var(--border-radius-sm)',
+      padding: 'var(--spacing-md)',
+      backgroundColor: 'white',
+      marginBottom: 'var(--spacing-lg)'
+    }}>
+      <h4 style={{ fontFamily: 'var(--font-family-serif)', fontSize: '1.3rem', margin: '0 0 var(--spacing-xs) 0' }}>
+        Cancellation & Reschedule Policy
+      </h4>
+      <p style={{ fontSize: '0.9rem', color: 'var(--color-text-light)', margin: '0 0 var(--spacing-md) 0' }}>
+        Customers see this policy before they cancel or reschedule. Admins can override it for a booking by giving a reason,
+        which is kept in the booking's history.
+      </p>
+
+      {loading ? (
+        <p style={{ color: '#666' }}>Loading policy...</p>
+      ) : (
+        <form onSubmit={handleSave} className="contact-form">
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(200px, 1fr))', gap: 'var(--spacing-md)' }}>
+            <div className="form-group">
+              <label htmlFor="cancelNoticeHours">Cancellation notice (hours)</label>
+              <input
+                type="number"
+                id="cancelNoticeHours"
+                min="0"
+                step="1"
+                value={cancelNoticeHours}
+                onChange={(e) => setCancelNoticeHours(e.target.value)}
+                required
+              />
+            </div>
+            <div className="form-group">
+              <label htmlFor="rescheduleNoticeHours">Reschedule notice (hours)</label>
+              <input
+                type="number"
+                id="rescheduleNoticeHours"
+                min="0"
+                step="1"
+                value={rescheduleNoticeHours}
+                onChange={(e) => setRescheduleNoticeHours(e.target.value)}
+                required
+              />
+            </div>
+            <div className="form-group">
+              <label htmlFor="maxReschedules">Most reschedules per booking</label>
+              <input
+                type="number"
+                id="maxReschedules"
+                min="0"
+                step="1"
+                placeholder="No limit"
+                value={maxReschedules}
+                onChange={(e) => setMaxReschedules(e.target.value)}
+              />
+            </div>
+            <div className="form-group">
+              <label htmlFor="lateCancellationPenalty">Late cancellation</label>
+              <select
+                id="lateCancellationPenalty"
+                value={penalty}
+                onChange={(e) => setPenalty(e.target.value as LateCancellationPenalty)}
+              >
+                {(Object.keys(PENALTY_LABELS) as LateCancellationPenalty[]).map(option => (
+                  <option key={option} value={option}>{PENALTY_LABELS[option]}</option>
+                ))}
+              </select>
+            </div>
+            {penalty === 'fee' && (
+              <div className="form-group">
+                <label htmlFor="lateCancellationFee">Fee (% of price)</label>
+                <input
+                  type="number"
+                  id="lateCancellationFee"
+                  min="0"
+                  max="100"
+                  step="5"
+                  value={feePercent}
+                  onChange={(e) => setFeePercent(e.target.value)}
+                  required
+                />
+              </div>
+            )}
+          </div>
+
+          {valid && (
+            <ul style={{ margin: '0 0 var(--spacing-md) 0', paddingLeft: '20px', color: '#555', fontSize: '14px' }}>
+              {describeBookingPolicy(policy).map(line => <li key={line}>{line}</li>)}
+            </ul>
+          )}
+
+          <Button type="submit" variant="secondary" disabled={saving}>
+            {saving ? 'Saving...' : 'Save Policy'}
+          </Button>
+          {saved && <span style={{ marginLeft: 'var(--spacing-sm)', color: '#2e7d32' }}>Policy saved.</span>}
+        </form>
+      )}
+
+      {error && <p className="auth-error-message" style={{ marginTop: 'var(--spacing-sm)' }}>{error}</p>}
+    </div>
+  );
+};
+
+export default BookingPolicyEditor;
@@ -0,0 +1,32 @@
+// src/components/dashboard/BookingPolicySummary.tsx
+import React from 'react';
+import { BookingPolicy } from '@models/booking';
+import { describeBookingPolicy } from '@utils/bookingPolicy';
+
+interface BookingPolicySummaryProps {
+  policy: BookingPolicy | null;
+}
+
+// The cancellation and reschedule policy, as customers see it before confirming a change
+const BookingPolicySummary: React.FC<BookingPolicySummaryProps> = ({ policy }) => {
+  if (!policy) return null;
+
+  return (
+    <div style={{
+      backgroundColor: '#f8f9fa',
+      border: '1px solid #e0e0e0',
+      borderRadius: '4px',
+      padding: '10px 12px',
+      margin: 'var(--spacing-sm) 0',
+      fontSize: '13px',
+      color: '#555'
+    }}>
+      <strong>Our cancellation & reschedule policy</strong>
+      <ul style={{ margin: '6px 0 0 0', paddingLeft: '18px' }}>
+        {describeBookingPolicy(policy).map(line => <li key={line}>{line}</li>)}
+      </ul>
+    </div>
+  );
+};
+
+export default BookingPolicySummary;
@@ -0,0 +1,147 @@
+// src/components/dashboard/ClientCard.tsx
+import React, { useEffect, useState } from 'react';
+import { Booking } from '@models/booking';
+import { ClientVisit } from '@models/treatment';
+import { ContactPreferences } from '@models/user';
+import { fetchClientHistory } from '@utils/clientHistory';
+
+interface ClientCardProps {
+  booking: Booking; // The appointment being looked at; the card is for its customer
+}
+
+// How the customer would rather hear from us, e.g. "text message or email"
+const describeContactPreference = (preferences: ContactPreferences): string => {
+  const channels = [preferences.sms && 'text message', preferences.email && 'email'].filter(Boolean);
+  return channels.length > 0 ? channels.join(' or ') : 'no reminders';
+};
+
+// A YYYY-MM-DD date, optionally without the year ("14 March" for birthdays)
+const formatDay = (date: string, withYear = true): string => {
+  const [year, month, day] = date.split('-').map(part => parseInt(part, 10));
+  return new Date(year, month - 1, day).toLocaleDateString(undefined, {
+    day: 'numeric',
+    month: withYear ? 'short' : 'long',
+    ...(withYear ? { year: 'numeric' } : {}),
+  });
+};
+
+// The customer's details, care alerts and past visits with private treatment notes, for staff only
+const ClientCard: React.FC<ClientCardProps> = ({ booking }) => {
+  const [visits, setVisits] = useState<ClientVisit[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setLoading(true);
+    setError(null);
+
+    fetchClientHistory(booking.customerId)
+      .then(setVisits)
+      .catch((err: any) => {
+        console.error('❌ Error loading client history:', err);
+        setError(err.message);
+      })
+      .finally(() => setLoading(false));
+  }, [booking.customerId]);
+
+  return (
+    <div style={{ marginBottom: 'var(--spacing-md)' }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '12px', marginBottom: '8px' }}>
+        {booking.customerAvatarUrl ? (
+          <img
+            src={booking.customerAvatarUrl}
+            alt={booking.customerName}
+            style={{ width: '48px', height: '48px', borderRadius: '50%', objectFit: 'cover' }}
+          />
+        ) : (
+          <div style={{
+            width: '48px',
+            height: '48px',
+            borderRadius: '50%',
+            backgroundColor: '#f0f0f0',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            color: '#999',
+            fontSize: '1.25rem'
+          }}>
+            {booking.customerName.charAt(0).toUpperCase()}
+          </div>
+        )}
+        <div style={{ fontSize: '14px', color: '#666' }}>
+          <div>Customer: <strong style={{ color: '#333' }}>{booking.customerName}</strong></div>
+          <div>
+            {booking.customerPhone ? `📞 ${booking.customerPhone} · ` : ''}✉️ {booking.customerEmail}
+            {' '}(prefers {describeContactPreference(booking.customerContactPreferences)})
+          </div>
+          {booking.customerBirthday && <div>🎂 {formatDay(booking.customerBirthday, false)}</div>}
+        </div>
+      </div>
+
+      {(booking.customerAllergies || booking.customerSkinNotes) && (
+        <div style={{
+          backgroundColor: '#fff3e0',
+          border: '1px solid #ffcc80',
+          borderRadius: '4px',
+          padding: '8px 12px',
+          margin: '8px 0',
+          fontSize: '14px'
+        }}>
+          {booking.customerAllergies && (
+            <p style={{ margin: '0 0 4px 0', color: '#c62828' }}>
+              ⚠️ Allergies: <strong>{booking.customerAllergies}</strong>
+            </p>
+          )}
+          {booking.customerSkinNotes && (
+            <p style={{ margin: 0, color: '#555' }}>
+              Skin notes: {booking.customerSkinNotes}
+            </p>
+          )}
+        </div>
+      )}
+
+      <details open={visits.length > 0 && visits.length <= 3} style={{ fontSize: '14px', marginTop: '8px' }}>
+        <summary style={{ cursor: 'pointer', fontWeight: 'bold' }}>
+          Visit History {loading ? '' : `(${visits.length})`}
+        </summary>
+
+        {loading ? (
+          <p style={{ color: '#666' }}>Loading history...</p>
+        ) : error ? (
+          <p className="auth-error-message">{error}</p>
+        ) : visits.length === 0 ? (
+          <p style={{ color: '#999', fontStyle: 'italic' }}>First visit; no past treatments yet.</p>
+        ) : (
+          <ul style={{ listStyle: 'none', padding: 0, margin: '8px 0 0 0', maxHeight: '240px', overflowY: 'auto' }}>
+            {visits.map(({ booking: visit, notes }) => (
+              <li key={visit.id} style={{ padding: '8px 0', borderBottom: '1px dashed var(--color-border)' }}>
+                <div style={{ display: 'flex', justifyContent: 'space-between', gap: '8px' }}>
+                  <strong>{visit.serviceName}</strong>
+                  <span style={{ color: '#666', whiteSpace: 'nowrap' }}>{formatDay(visit.bookingDate)}</span>
+                </div>
+                <div style={{ color: '#666', fontSize: '13px' }}>with {visit.staffName || 'Unassigned'}</div>
+                {notes.map(note => (
+                  <div key={note.id} style={{
+                    marginTop: '6px',
+                    padding: '6px 8px',
+                    backgroundColor: '#f9f9f9',
+                    borderLeft: '3px solid #b8860b',
+                    fontSize: '13px'
+                  }}>
+                    {note.note && <div>📝 {note.note}</div>}
+                    {note.productsUsed && <div style={{ color: '#555' }}>🧴 {note.productsUsed}</div>}
+                    {note.writtenByName && (
+                      <div style={{ color: '#999', fontSize: '12px' }}>— {note.writtenByName}</div>
+                    )}
+                  </div>
+                ))}
+              </li>
+            ))}
+          </ul>
+        )}
+      </details>
+    </div>
+  );
+};
+
+export default ClientCard;
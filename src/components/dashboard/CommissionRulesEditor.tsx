@@ -0,0 +1,184 @@
+// src/components/dashboard/CommissionRulesEditor.tsx
+import React, { useEffect, useState } from 'react';
+import Button from '@components/common/Button';
+import { ServiceCategory } from '@models/service';
+import { CommissionRule } from '@models/staff';
+import { commissionRulesRepository } from '@repositories/commissionRules';
+import { DEFAULT_COMMISSION_RATE, SERVICE_CATEGORIES } from '@utils/constants';
+import { capitalizeFirstLetter } from '@utils/helpers';
+
+interface CommissionRulesEditorProps {
+  staffOptions: { id: string; name: string }[];
+  onChange?: () => void; // Called after a rule is saved or deleted
+}
+
+// Lists the commission rules and lets an admin add, change or remove them
+const CommissionRulesEditor: React.FC<CommissionRulesEditorProps> = ({ staffOptions, onChange }) => {
+  const [rules, setRules] = useState<CommissionRule[]>([]);
+  const [staffId, setStaffId] = useState<string>('');
+  const [category, setCategory] = useState<ServiceCategory | ''>('');
+  const [ratePercent, setRatePercent] = useState<string>('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRules = async () => {
+    try {
+      setRules(await commissionRulesRepository.getAll());
+    } catch (err: any) {
+      console.error('❌ Error loading commission rules:', err);
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchRules();
+  }, []);
+
+  const staffName = (id?: string) =>
+    id ? staffOptions.find(option => option.id === id)?.name || 'Unknown Staff' : 'All staff';
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const rate = parseFloat(ratePercent) / 100;
+    if (isNaN(rate) || rate < 0 || rate > 1) {
+      setError('Enter a commission rate between 0 and 100%.');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      // One rule per staff member and category; saving again just changes the rate
+      const existing = rules.find(rule =>
+        (rule.staffId || '') === staffId && (rule.category || '') === category
+      );
+      if (existing) {
+        await commissionRulesRepository.updateRate(existing.id, rate);
+      } else {
+        await commissionRulesRepository.create({
+          staffId: staffId || undefined,
+          category: category || undefined,
+          rate,
+        });
+      }
+
+      setRatePercent('');
+      await fetchRules();
+      onChange?.();
+    } catch (err: any) {
+      console.error('❌ Error saving commission rule:', err);
+      setError(err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (rule: CommissionRule) => {
+    if (!window.confirm('Delete this commission rule?')) return;
+
+    setError(null);
+    try {
+      await commissionRulesRepository.delete(rule.id);
+      await fetchRules();
+      onChange?.();
+    } catch (err: any) {
+      console.error('❌ Error deleting commission rule:', err);
+      setError(err.message);
+    }
+  };
+
+  return (
+    <div style={{
+      border: '1px solid var(--color-border)',
+      borderRadius: 'var(--border-radius-sm)',
+      padding: 'var(--spacing-md)',
+      backgroundColor: 'white',
+      marginBottom: 'var(--spacing-lg)'
+    }}>
+      <h4 style={{ fontFamily: 'var(--font-family-serif)', fontSize: '1.3rem', margin: '0 0 var(--spacing-xs) 0' }}>
+        Commission Rules
+      </h4>
+      <p style={{ fontSize: '0.9rem', color: 'var(--color-text-light)', margin: '0 0 var(--spacing-md) 0' }}>
+        Commission is a share of what was collected on each completed booking. The most specific rule applies
+        (staff member and category, then staff member, then category); otherwise {DEFAULT_COMMISSION_RATE * 100}%.
+      </p>
+
+      {loading ? (
+        <p style={{ color: '#666' }}>Loading rules...</p>
+      ) : rules.length === 0 ? (
+        <p style={{ color: '#999', fontStyle: 'italic' }}>No rules yet; everyone earns the default rate.</p>
+      ) : (
+        <ul style={{ listStyle: 'none', padding: 0, margin: '0 0 var(--spacing-md) 0' }}>
+          {rules.map(rule => (
+            <li key={rule.id} style={{
+              display: 'flex',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+              padding: 'var(--spacing-xs) 0',
+              borderBottom: '1px dashed var(--color-border)'
+            }}>
+              <span>
+                {staffName(rule.staffId)} · {rule.category ? capitalizeFirstLetter(rule.category) : 'All categories'}
+              </span>
+              <span style={{ display: 'flex', alignItems: 'center', gap: 'var(--spacing-md)' }}>
+                <strong>{(rule.rate * 100).toFixed(1)}%</strong>
+                <button
+                  onClick={() => handleDelete(rule)}
+                  style={{
+                    padding: '4px 8px',
+                    fontSize: '12px',
+                    backgroundColor: '#dc3545',
+                    color: 'white',
+                    border: 'none',
+                    borderRadius: '4px',
+                    cursor: 'pointer'
+                  }}
+                >
+                  Delete
+                </button>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleSave} style={{ display: 'flex', gap: 'var(--spacing-sm)', alignItems: 'center', flexWrap: 'wrap' }}>
+        <select aria-label="Staff member" value={staffId} onChange={(e) => setStaffId(e.target.value)}>
+          <option value="">All staff</option>
+          {staffOptions.map(option => (
+            <option key={option.id} value={option.id}>{option.name}</option>
+          ))}
+        </select>
+        <select aria-label="Service category" value={category} onChange={(e) => setCategory(e.target.value as ServiceCategory | '')}>
+          <option value="">All categories</option>
+          {SERVICE_CATEGORIES.map(option => (
+            <option key={option} value={option}>{capitalizeFirstLetter(option)}</option>
+          ))}
+        </select>
+        <input
+          type="number"
+          aria-label="Commission rate (%)"
+          placeholder="Rate %"
+          min="0"
+          max="100"
+          step="0.5"
+          value={ratePercent}
+          onChange={(e) => setRatePercent(e.target.value)}
+          style={{ width: '90px' }}
+          required
+        />
+        <Button type="submit" variant="secondary" disabled={saving}>
+          {saving ? 'Saving...' : 'Save Rule'}
+        </Button>
+      </form>
+
+      {error && <p className="auth-error-message" style={{ marginTop: 'var(--spacing-sm)' }}>{error}</p>}
+    </div>
+  );
+};
+
+export default CommissionRulesEditor;
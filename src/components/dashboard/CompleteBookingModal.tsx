@@ -0,0 +1,162 @@
+// src/components/dashboard/CompleteBookingModal.tsx
+import React, { useEffect, useState } from 'react';
+import Button from '@components/common/Button';
+import Modal from '@components/common/Modal';
+import { Booking } from '@models/booking';
+import { PaymentMethod, PaymentSummary } from '@models/payment';
+import { NewTreatmentNote } from '@repositories/treatmentNotes';
+import { formatCurrency } from '@utils/helpers';
+import { PAYMENT_METHOD_LABELS, fetchPaymentSummary } from '@utils/payments';
+
+interface CompleteBookingModalProps {
+  booking: Booking | null;
+  isOpen: boolean;
+  onClose: () => void;
+  // Completes the booking, taking any balance with the chosen method and saving the treatment note, if any
+  onConfirm: (
+    booking: Booking,
+    paymentMethod: PaymentMethod,
+    treatmentNote?: Pick<NewTreatmentNote, 'note' | 'productsUsed'>
+  ) => Promise<void>;
+}
+
+// Shows what the customer still owes and takes the final payment when a booking is completed,
+// along with private treatment notes for the client's history
+const CompleteBookingModal: React.FC<CompleteBookingModalProps> = ({ booking, isOpen, onClose, onConfirm }) => {
+  const [summary, setSummary] = useState<PaymentSummary | null>(null);
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('cash');
+  const [note, setNote] = useState('');
+  const [productsUsed, setProductsUsed] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen || !booking) return;
+
+    setSummary(null);
+    setPaymentMethod('cash');
+    setNote('');
+    setProductsUsed('');
+    setError(null);
+
+    fetchPaymentSummary(booking)
+      .then(setSummary)
+      .catch((err: any) => setError(err.message));
+  }, [isOpen, booking]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!booking) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      // Products alone are worth keeping too, e.g. a colour formula
+      const treatmentNote = note.trim() || productsUsed.trim()
+        ? { note: note.trim(), productsUsed: productsUsed.trim() || undefined }
+        : undefined;
+      await onConfirm(booking, paymentMethod, treatmentNote);
+      onClose();
+    } catch (err: any) {
+      console.error('❌ Error completing booking:', err);
+      setError(err.message || 'Failed to complete booking.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Complete Appointment">
+      {booking && (
+        <form onSubmit={handleSubmit} className="contact-form">
+          <p style={{ marginBottom: 'var(--spacing-md)' }}>
+            <strong>{booking.serviceName}</strong> for {booking.customerName}
+          </p>
+
+          {!summary && !error && <p style={{ textAlign: 'center' }}>Loading payments...</p>}
+
+          {summary && (
+            <div style={{ marginBottom: 'var(--spacing-md)', fontSize: '14px' }}>
+              <div style={{ display: 'flex', justifyContent: 'space-between', padding: '4px 0' }}>
+                <span>Price</span>
+                <span>{formatCurrency(summary.price)}</span>
+              </div>
+              <div style={{ display: 'flex', justifyContent: 'space-between', padding: '4px 0', color: '#666' }}>
+                <span>Already paid</span>
+                <span>{formatCurrency(summary.paid)}</span>
+              </div>
+              <div style={{
+                display: 'flex',
+                justifyContent: 'space-between',
+                padding: '8px 0',
+                borderTop: '1px solid var(--border-color)',
+                fontWeight: 'bold'
+              }}>
+                <span>Balance due</span>
+                <span>{formatCurrency(summary.balanceDue)}</span>
+              </div>
+            </div>
+          )}
+
+          {summary && summary.balanceDue > 0 && (
+            <div className="form-group">
+              <label htmlFor="payment-method">Payment Method</label>
+              <select
+                id="payment-method"
+                value={paymentMethod}
+                onChange={(e) => setPaymentMethod(e.target.value as PaymentMethod)}
+              >
+                {(Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[]).map(method => (
+                  <option key={method} value={method}>{PAYMENT_METHOD_LABELS[method]}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div className="form-group">
+            <label htmlFor="treatment-note">Treatment Notes (staff only)</label>
+            <textarea
+              id="treatment-note"
+              rows={3}
+              placeholder="e.g. Slight redness after peel; use 10% next time"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="products-used">Products Used</label>
+            <input
+              type="text"
+              id="products-used"
+              placeholder="e.g. Colour 6N + 20 vol developer"
+              value={productsUsed}
+              onChange={(e) => setProductsUsed(e.target.value)}
+            />
+            <small style={{ color: '#666', marginTop: '4px', display: 'block' }}>
+              Kept on the client card for future visits. Customers never see these notes.
+            </small>
+          </div>
+
+          {error && <p className="auth-error-message">{error}</p>}
+
+          <div style={{ display: 'flex', justifyContent: 'flex-end', gap: 'var(--spacing-md)', marginTop: 'var(--spacing-lg)' }}>
+            <Button variant="secondary" type="button" onClick={onClose} disabled={loading}>
+              Cancel
+            </Button>
+            <Button type="submit" variant="primary" disabled={loading || !summary}>
+              {loading
+                ? 'Completing...'
+                : summary && summary.balanceDue > 0
+                  ? `Take ${formatCurrency(summary.balanceDue)} & Complete`
+                  : 'Mark Complete'}
+            </Button>
+          </div>
+        </form>
+      )}
+    </Modal>
+  );
+};
+
+export default CompleteBookingModal;
@@ -0,0 +1,41 @@
+// src/components/dashboard/SeriesScopeOptions.tsx
+import React from 'react';
+import { Booking } from '@models/booking';
+import { SERIES_FREQUENCY_LABELS } from '@utils/bookingSeries';
+
+interface SeriesScopeOptionsProps {
+  booking: Booking;
+  laterCount: number; // Active appointments after this one in its series
+  applyToSeries: boolean;
+  onChange: (applyToSeries: boolean) => void;
+  action: string; // e.g. "Cancel"
+}
+
+// Lets the user change one appointment of a recurring series or it and the rest of the series
+const SeriesScopeOptions: React.FC<SeriesScopeOptionsProps> = ({ booking, laterCount, applyToSeries, onChange, action }) => {
+  if (!booking.seriesId || laterCount === 0) return null;
+
+  const name = `series-scope-${booking.id}`;
+  return (
+    <fieldset style={{
+      border: '1px solid #e0e0e0',
+      borderRadius: '4px',
+      padding: '10px 12px',
+      margin: 'var(--spacing-sm) 0',
+      fontSize: '14px'
+    }}>
+      <legend style={{ fontSize: '13px', color: '#555', padding: '0 4px' }}>
+        Part of a series ({booking.seriesFrequency ? SERIES_FREQUENCY_LABELS[booking.seriesFrequency].toLowerCase() : 'recurring'})
+      </legend>
+      <label style={{ display: 'block', marginBottom: '4px' }}>
+        <input type="radio" name={name} checked={!applyToSeries} onChange={() => onChange(false)} /> {action} only this appointment
+      </label>
+      <label style={{ display: 'block' }}>
+        <input type="radio" name={name} checked={applyToSeries} onChange={() => onChange(true)} /> {action} this and the{' '}
+        {laterCount === 1 ? 'later appointment' : `${laterCount} later appointments`} in the series
+      </label>
+    </fieldset>
+  );
+};
+
+export default SeriesScopeOptions;
@@ -2,16 +2,20 @@
 import React from 'react';
 import { NavLink } from 'react-router-dom';
 import { useAuth } from '@context/AuthContext';
+import { useNotifications } from '@context/NotificationContext';
 import {
   MdDashboard, MdPerson, MdCalendarToday, MdListAlt, MdStore,
-  MdPeople, MdSettings, MdHistory, MdNotifications, MdReport, MdEventAvailable
+  MdPeople, MdSettings, MdHistory, MdNotifications, MdReport, MdEventAvailable, MdSchedule,
+  MdLocalShipping, MdReceipt, MdPointOfSale, MdHourglassEmpty, MdCardGiftcard
 } from 'react-icons/md'; // Material Design Icons for dashboards
+import { IconType } from 'react-icons';
 
 interface NavItem {
   name: string;
   path: string;
-  icon: React.ElementType;
+  icon: IconType;
   roles: string[];
+  showUnreadBadge?: boolean;
 }
 
 const sidebarNavItems: NavItem[] = [
@@ -20,24 +24,33 @@ const sidebarNavItems: NavItem[] = [
   { name: 'Browse Services', path: '/customer/services', icon: MdListAlt, roles: ['customer'] },
   { name: 'Book Appointment', path: '/customer/book', icon: MdCalendarToday, roles: ['customer'] },
   { name: 'Manage Bookings', path: '/customer/manage-bookings', icon: MdHistory, roles: ['customer'] },
-  { name: 'Notifications', path: '/customer/notifications', icon: MdNotifications, roles: ['customer'] },
+  { name: 'My Waitlist', path: '/customer/waitlist', icon: MdHourglassEmpty, roles: ['customer'] },
+  { name: 'My Packages', path: '/customer/packages', icon: MdCardGiftcard, roles: ['customer'] },
+  { name: 'Notifications', path: '/customer/notifications', icon: MdNotifications, roles: ['customer'], showUnreadBadge: true },
+  { name: 'My Profile', path: '/customer/profile', icon: MdPerson, roles: ['customer'] },
 
   // Staff Links
   { name: 'Dashboard', path: '/staff/dashboard', icon: MdDashboard, roles: ['staff'] },
   { name: 'My Schedule', path: '/staff/schedule', icon: MdEventAvailable, roles: ['staff'] },
   { name: 'Update Status', path: '/staff/update-status', icon: MdSettings, roles: ['staff'] },
+  { name: 'Point of Sale', path: '/staff/pos', icon: MdPointOfSale, roles: ['staff'] },
 
   // Admin Links
   { name: 'Dashboard', path: '/admin/dashboard', icon: MdDashboard, roles: ['admin'] },
   { name: 'Manage Inventory', path: '/admin/inventory', icon: MdStore, roles: ['admin'] },
+  { name: 'Suppliers', path: '/admin/suppliers', icon: MdLocalShipping, roles: ['admin'] },
+  { name: 'Purchase Orders', path: '/admin/purchase-orders', icon: MdReceipt, roles: ['admin'] },
   { name: 'Manage Services', path: '/admin/services', icon: MdListAlt, roles: ['admin'] },
   { name: 'Manage Staff', path: '/admin/staff', icon: MdPeople, roles: ['admin'] },
+  { name: 'Staff Schedules', path: '/admin/staff-schedules', icon: MdSchedule, roles: ['admin'] },
   { name: 'Manage Bookings', path: '/admin/bookings', icon: MdCalendarToday, roles: ['admin'] },
+  { name: 'Point of Sale', path: '/staff/pos', icon: MdPointOfSale, roles: ['admin'] },
   { name: 'Generate Reports', path: '/admin/reports', icon: MdReport, roles: ['admin'] },
 ];
 
 const Sidebar: React.FC = () => {
   const { user, isAuthenticated } = useAuth();
+  const { unreadCount } = useNotifications();
   
   // TEMPORARY: For design mode without auth
   const designMode = true;
@@ -58,18 +71,27 @@ const Sidebar: React.FC = () => {
       <h3>{userRole.charAt(0).toUpperCase() + userRole.slice(1)} Dashboard</h3>
       <nav className="sidebar-nav">
         <ul>
-          {filteredNavItems.map((item) => (
-            <li key={item.path}>
-              <NavLink
-                to={item.path}
-                className={({ isActive }) => (isActive ? 'active' : '')}
-                end // Use 'end' for exact matching to prevent partial matches
-              >
-                <item.icon />
-                <span>{item.name}</span>
-              </NavLink>
-            </li>
-          ))}
+          {filteredNavItems.map((item) => {
+            // IconType is typed to return a ReactNode, which JSX doesn't accept as a component
+            const Icon = item.icon as React.ComponentType;
+            return (
+              <li key={item.path}>
+                <NavLink
+                  to={item.path}
+                  className={({ isActive }) => (isActive ? 'active' : '')}
+                  end // Use 'end' for exact matching to prevent partial matches
+                >
+                  <Icon />
+                  <span>{item.name}</span>
+                  {item.showUnreadBadge && unreadCount > 0 && (
+                    <span className="sidebar-badge" aria-label={`${unreadCount} unread`}>
+                      {unreadCount > 99 ? '99+' : unreadCount}
+                    </span>
+                  )}
+                </NavLink>
+              </li>
+            );
+          })}
         </ul>
       </nav>
     </aside>
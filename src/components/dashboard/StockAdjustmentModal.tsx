@@ -0,0 +1,143 @@
+// src/components/dashboard/StockAdjustmentModal.tsx
+import React, { useEffect, useState } from 'react';
+import Button from '@components/common/Button';
+import Modal from '@components/common/Modal';
+import { useAuth } from '@context/AuthContext';
+import { InventoryItem, StockMovementReason } from '@models/inventory';
+import { STOCK_MOVEMENT_LABELS, recordStockMovement } from '@utils/inventory';
+
+interface StockAdjustmentModalProps {
+  item: InventoryItem | null;
+  isOpen: boolean;
+  onClose: () => void;
+  onSaved: (message: string) => void; // Called after the movement is recorded
+}
+
+// Service usage is recorded automatically when bookings are completed
+const MANUAL_REASONS: StockMovementReason[] = ['restock', 'sale', 'waste', 'adjustment'];
+
+// Records a restock, over-the-counter sale, waste or stock count for one product
+const StockAdjustmentModal: React.FC<StockAdjustmentModalProps> = ({ item, isOpen, onClose, onSaved }) => {
+  const { user } = useAuth();
+  const [reason, setReason] = useState<StockMovementReason>('restock');
+  const [quantity, setQuantity] = useState<string>('');
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setReason('restock');
+    setQuantity('');
+    setNote('');
+    setError(null);
+  }, [isOpen, item]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!item) return;
+
+    const value = parseFloat(quantity);
+    if (isNaN(value) || value < 0) {
+      setError('Enter a quantity of zero or more.');
+      return;
+    }
+    if (reason === 'adjustment' && !note.trim()) {
+      setError('Please say why the stock count changed.');
+      return;
+    }
+
+    // A count sets the new total; everything else moves stock by the quantity
+    const change = reason === 'adjustment'
+      ? value - item.stock
+      : reason === 'restock' ? value : -value;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const stockAfter = await recordStockMovement({
+        itemId: item.id,
+        quantity: change,
+        reason,
+        note: note.trim() || undefined,
+        recordedBy: user?.id,
+      });
+      onSaved(`${STOCK_MOVEMENT_LABELS[reason]} recorded for ${item.name}. Stock is now ${stockAfter}.`);
+      onClose();
+    } catch (err: any) {
+      console.error('❌ Error recording stock movement:', err);
+      setError(err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Adjust Stock">
+      {item && (
+        <form onSubmit={handleSubmit} className="contact-form">
+          <p style={{ marginBottom: 'var(--spacing-md)' }}>
+            <strong>{item.name}</strong> · {item.stock} in stock
+          </p>
+
+          <div className="form-group">
+            <label htmlFor="movement-reason">Reason *</label>
+            <select
+              id="movement-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value as StockMovementReason)}
+            >
+              {MANUAL_REASONS.map(option => (
+                <option key={option} value={option}>{STOCK_MOVEMENT_LABELS[option]}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="movement-quantity">
+              {reason === 'adjustment' ? 'Counted Stock *' : reason === 'restock' ? 'Quantity Received *' : 'Quantity Removed *'}
+            </label>
+            <input
+              type="number"
+              id="movement-quantity"
+              value={quantity}
+              onChange={(e) => setQuantity(e.target.value)}
+              min="0"
+              step="any"
+              required
+            />
+            {reason === 'adjustment' && (
+              <small style={{ color: '#666', marginTop: '4px', display: 'block' }}>
+                Enter how many you actually counted; the difference is recorded.
+              </small>
+            )}
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="movement-note">Note{reason === 'adjustment' ? ' *' : ''}</label>
+            <input
+              type="text"
+              id="movement-note"
+              placeholder={reason === 'restock' ? 'e.g. Supplier invoice #1042' : 'e.g. Bottle dropped and broke'}
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+          </div>
+
+          {error && <p className="auth-error-message">{error}</p>}
+
+          <div style={{ display: 'flex', justifyContent: 'flex-end', gap: 'var(--spacing-md)', marginTop: 'var(--spacing-lg)' }}>
+            <Button variant="secondary" type="button" onClick={onClose} disabled={saving}>
+              Cancel
+            </Button>
+            <Button type="submit" variant="primary" disabled={saving}>
+              {saving ? 'Saving...' : 'Record'}
+            </Button>
+          </div>
+        </form>
+      )}
+    </Modal>
+  );
+};
+
+export default StockAdjustmentModal;
@@ -0,0 +1,45 @@
+// src/components/dashboard/VisitCancelOption.tsx
+import React from 'react';
+import { Booking } from '@models/booking';
+import { formatCurrency } from '@utils/helpers';
+import { getVisitTotals } from '@utils/bookingVisits';
+
+interface VisitCancelOptionProps {
+  booking: Booking;
+  visitBookings: Booking[]; // Every booking in the visit, in order
+  cancelWholeVisit: boolean;
+  onChange: (cancelWholeVisit: boolean) => void;
+}
+
+// Shows the other services booked in the same visit and lets the user cancel them all together
+const VisitCancelOption: React.FC<VisitCancelOptionProps> = ({ booking, visitBookings, cancelWholeVisit, onChange }) => {
+  if (!booking.visitId || visitBookings.length < 2) return null;
+
+  const totals = getVisitTotals(visitBookings.map(item => ({ price: item.price, durationMinutes: item.durationMinutes })));
+  return (
+    <div style={{
+      border: '1px solid #e0e0e0',
+      borderRadius: '4px',
+      padding: '10px 12px',
+      margin: 'var(--spacing-sm) 0',
+      fontSize: '14px'
+    }}>
+      <div style={{ fontSize: '13px', color: '#555', marginBottom: '6px' }}>
+        Part of a visit ({formatCurrency(totals.price)}, {totals.durationMinutes} min):
+      </div>
+      <ul style={{ margin: '0 0 8px 0', paddingLeft: '18px', color: '#555' }}>
+        {visitBookings.map(item => (
+          <li key={item.id} style={{ fontWeight: item.id === booking.id ? 'bold' : 'normal' }}>
+            {item.bookingTime.substring(0, 5)} {item.serviceName}{item.staffName ? ` with ${item.staffName}` : ''}
+            {item.status === 'cancelled' ? ' (cancelled)' : ''}
+          </li>
+        ))}
+      </ul>
+      <label style={{ display: 'block' }}>
+        <input type="checkbox" checked={cancelWholeVisit} onChange={(e) => onChange(e.target.checked)} /> Cancel the whole visit
+      </label>
+    </div>
+  );
+};
+
+export default VisitCancelOption;
@@ -6,7 +6,7 @@ import { Service } from '@models/service';
 import { formatCurrency } from '@utils/helpers';
 import { DUMMY_IMAGES } from '@utils/constants';
 import { useAuth } from '@context/AuthContext';
-import { supabase } from '../../supabaseClient';
+import { servicesRepository } from '@repositories/services';
 
 // Props interface
 interface ServicesListProps {
@@ -39,25 +39,13 @@ const ServicesList: React.FC<ServicesListProps> = ({
       }
 
       // Fetch from Supabase
-      const { data, error } = await supabase
-        .from('services')
-        .select('*')
-        .order('created_at', { ascending: false });
+      const data = await servicesRepository.getAll();
 
-      if (error) throw error;
-
-      // Transform data to match Service interface
-      const transformedServices: Service[] = (data || []).map(service => ({
-        id: service.id,
-        name: service.service_name,
-        description: service.description,
-        price: parseFloat(service.price),
-        durationMinutes: service.duration,
-        category: service.category,
-        imageUrl: service.service_img || DUMMY_IMAGES.SERVICE_FACIAL // fallback image
-      }));
-
-      setServices(transformedServices);
+      // Fall back to a default photo for services without one
+      setServices(data.map(service => ({
+        ...service,
+        imageUrl: service.imageUrl || DUMMY_IMAGES.SERVICE_FACIAL
+      })));
     } catch (err: any) {
       console.error('Error fetching services:', err);
       setError('Failed to load services. Please try again later.');
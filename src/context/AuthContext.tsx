@@ -1,6 +1,7 @@
 import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
 import { supabase } from '../supabaseClient';
 import { UserRole } from '@models/user';
+import { usersRepository } from '@repositories/users';
 
 interface AuthUser {
   id: string;
@@ -17,6 +18,7 @@ interface AuthContextType {
   login: (email: string, password: string) => Promise<void>;
   signup: (email: string, password: string, firstName: string, lastName: string, role?: string) => Promise<void>;
   logout: () => Promise<void>;
+  refreshProfile: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -29,31 +31,22 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   // ✅ Fetch user profile from Supabase users table (with error handling)
   const fetchUserProfile = async (userId: string): Promise<AuthUser | null> => {
     try {
-      const { data, error } = await supabase
-        .from('users')
-        .select('*')
-        .eq('id', userId)
-        .maybeSingle(); // Use maybeSingle instead of single
-
-      if (error) {
-        console.error('Error fetching user profile:', error);
-        return null;
-      }
+      const profile = await usersRepository.getById(userId);
 
-      if (!data) {
+      if (!profile) {
         console.warn('No user profile found for ID:', userId);
         return null;
       }
 
       return {
-        id: data.id,
-        email: data.email || '',
-        first_name: data.first_name || '',
-        last_name: data.last_name || '',
-        role: (data.role as UserRole) || 'customer',
+        id: profile.id,
+        email: profile.email,
+        first_name: profile.firstName,
+        last_name: profile.lastName,
+        role: profile.role,
       };
     } catch (err) {
-      console.error('Unexpected error fetching user profile:', err);
+      console.error('Error fetching user profile:', err);
       return null;
     }
   };
@@ -67,23 +60,16 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     role: string = 'customer'
   ) => {
     try {
-      const { error } = await supabase.from('users').insert([
-        {
-          id: userId,
-          email,
-          first_name: firstName,
-          last_name: lastName,
-          role,
-        },
-      ]);
-      
-      if (error) {
-        // Handle unique constraint violation (profile might already exist)
-        if (error.code === '23505') {
-          console.log('User profile already exists');
-          return true;
-        }
-        throw error;
+      const result = await usersRepository.createProfile({
+        id: userId,
+        email,
+        firstName,
+        lastName,
+        role: role as UserRole,
+      });
+
+      if (result === 'exists') {
+        console.log('User profile already exists');
       }
       return true;
     } catch (err) {
@@ -154,6 +140,16 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     localStorage.removeItem('authUser');
   };
 
+  // Reloads the signed-in user's profile, e.g. after they change their name
+  const refreshProfile = async () => {
+    if (!user) return;
+    const profile = await fetchUserProfile(user.id);
+    if (profile) {
+      setUser(profile);
+      localStorage.setItem('authUser', JSON.stringify(profile));
+    }
+  };
+
   // ✅ Restore session on reload
   useEffect(() => {
     const restoreSession = async () => {
@@ -214,6 +210,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     login,
     signup,
     logout,
+    refreshProfile,
   };
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
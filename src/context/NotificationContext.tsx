@@ -0,0 +1,49 @@
+// src/context/NotificationContext.tsx
+import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { useLocation } from 'react-router-dom';
+import { useAuth } from './AuthContext';
+import { countUnreadNotifications } from '@utils/notifications';
+
+interface NotificationContextType {
+  unreadCount: number;
+  refreshUnreadCount: () => Promise<void>;
+}
+
+const NotificationContext = createContext<NotificationContextType | undefined>(undefined);
+
+interface NotificationProviderProps {
+  children: ReactNode;
+}
+
+export const NotificationProvider: React.FC<NotificationProviderProps> = ({ children }) => {
+  const { user } = useAuth();
+  const location = useLocation();
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  const refreshUnreadCount = useCallback(async () => {
+    if (!user || user.role !== 'customer') {
+      setUnreadCount(0);
+      return;
+    }
+    setUnreadCount(await countUnreadNotifications(user.id));
+  }, [user]);
+
+  // Re-check on login and whenever the customer moves between pages
+  useEffect(() => {
+    refreshUnreadCount();
+  }, [refreshUnreadCount, location.pathname]);
+
+  return (
+    <NotificationContext.Provider value={{ unreadCount, refreshUnreadCount }}>
+      {children}
+    </NotificationContext.Provider>
+  );
+};
+
+export const useNotifications = () => {
+  const context = useContext(NotificationContext);
+  if (context === undefined) {
+    throw new Error('useNotifications must be used within a NotificationProvider');
+  }
+  return context;
+};
@@ -0,0 +1,73 @@
+// src/hooks/useRescheduleSlots.ts
+import { useState, useEffect } from 'react';
+import { Booking } from '@models/booking';
+import { buildTimeSlots, getAvailableTimeSlots, isServiceOfferedOn } from '@utils/availability';
+import { defaultWorkingHours, getDayOfWeek } from '@utils/staffSchedule';
+import { passOnExpiredOffers } from '@utils/waitlist';
+
+type RescheduleTarget = Pick<Booking, 'id' | 'staffId' | 'durationMinutes' | 'serviceAvailableDays'>;
+
+interface UseRescheduleSlotsResult {
+  availableSlots: string[];
+  slotsLoading: boolean;
+  slotsError: string | null;
+}
+
+/**
+ * Loads the start times a booking can be moved to on a new date.
+ * Bookings without an assigned staff member fall back to regular business hours.
+ * @param booking - The booking being rescheduled, or null when nothing is selected.
+ * @param date - The new date (YYYY-MM-DD).
+ * @param enabled - Only load while the reschedule form is open.
+ */
+export const useRescheduleSlots = (
+  booking: RescheduleTarget | null,
+  date: string,
+  enabled: boolean
+): UseRescheduleSlotsResult => {
+  const [availableSlots, setAvailableSlots] = useState<string[]>([]);
+  const [slotsLoading, setSlotsLoading] = useState(false);
+  const [slotsError, setSlotsError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!enabled || !booking || !date) {
+      setAvailableSlots([]);
+      return;
+    }
+
+    let cancelled = false;
+    const loadSlots = async () => {
+      try {
+        setSlotsLoading(true);
+        setSlotsError(null);
+        await passOnExpiredOffers();
+        const slots = booking.staffId
+          ? await getAvailableTimeSlots({
+              staffId: booking.staffId,
+              date,
+              durationMinutes: booking.durationMinutes,
+              availableDays: booking.serviceAvailableDays,
+              excludeBookingId: booking.id,
+            })
+          : isServiceOfferedOn(booking.serviceAvailableDays, date)
+            ? buildTimeSlots(defaultWorkingHours('', getDayOfWeek(date)), booking.durationMinutes, [])
+            : [];
+        if (!cancelled) setAvailableSlots(slots);
+      } catch (err: any) {
+        if (cancelled) return;
+        console.error('Error loading time slots:', err);
+        setAvailableSlots([]);
+        setSlotsError(err.message || 'Failed to load available times.');
+      } finally {
+        if (!cancelled) setSlotsLoading(false);
+      }
+    };
+
+    loadSlots();
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, booking, date]);
+
+  return { availableSlots, slotsLoading, slotsError };
+};
@@ -0,0 +1,244 @@
+// src/mocks/fixtures.ts
+// Seed data for the mock backend. Rows use the same snake_case columns as the Supabase tables.
+
+export type MockRow = Record<string, any>;
+export type MockTables = Record<string, MockRow[]>;
+
+/**
+ * A sign-in account for the mock auth API.
+ */
+export interface MockAccount {
+  id: string;
+  email: string;
+  password: string;
+}
+
+// Every fixture account signs in with this password
+export const MOCK_PASSWORD = 'password123';
+
+export const ADMIN_ID = '00000000-0000-4000-8000-000000000001';
+export const STAFF_MARIA_ID = '00000000-0000-4000-8000-000000000002';
+export const STAFF_ANA_ID = '00000000-0000-4000-8000-000000000003';
+export const CUSTOMER_LIZA_ID = '00000000-0000-4000-8000-000000000004';
+export const CUSTOMER_BEN_ID = '00000000-0000-4000-8000-000000000005';
+
+export const MOCK_ACCOUNTS: MockAccount[] = [
+  { id: ADMIN_ID, email: 'admin@joyce.test', password: MOCK_PASSWORD },
+  { id: STAFF_MARIA_ID, email: 'maria@joyce.test', password: MOCK_PASSWORD },
+  { id: STAFF_ANA_ID, email: 'ana@joyce.test', password: MOCK_PASSWORD },
+  { id: CUSTOMER_LIZA_ID, email: 'liza@example.com', password: MOCK_PASSWORD },
+  { id: CUSTOMER_BEN_ID, email: 'ben@example.com', password: MOCK_PASSWORD },
+];
+
+// Local YYYY-MM-DD date, offset from today, so bookings stay upcoming whenever the app runs
+const daysFromToday = (days: number): string => {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// ISO timestamp for a moment some days ago
+const daysAgo = (days: number): string => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+const users = (): MockRow[] => [
+  { id: ADMIN_ID, email: 'admin@joyce.test', first_name: 'Joyce', last_name: 'Villanueva', role: 'admin', created_at: daysAgo(120) },
+  { id: STAFF_MARIA_ID, email: 'maria@joyce.test', first_name: 'Maria', last_name: 'Santos', role: 'staff', created_at: daysAgo(90) },
+  { id: STAFF_ANA_ID, email: 'ana@joyce.test', first_name: 'Ana', last_name: 'Reyes', role: 'staff', created_at: daysAgo(60) },
+  { id: CUSTOMER_LIZA_ID, email: 'liza@example.com', first_name: 'Liza', last_name: 'Cruz', role: 'customer', phone: '+639171234567',
+    birthday: '1994-03-14', allergies: 'Latex', skin_notes: 'Sensitive skin; patch test new products.',
+    contact_preferences: { email: true, sms: true, promotions: true }, created_at: daysAgo(45) },
+  { id: CUSTOMER_BEN_ID, email: 'ben@example.com', first_name: 'Ben', last_name: 'Garcia', role: 'customer',
+    contact_preferences: { email: true, sms: false, promotions: false }, created_at: daysAgo(20) },
+];
+
+const services = (): MockRow[] => [
+  { id: 1, service_name: 'Classic Facial', description: 'Deep cleansing facial with steam, extraction and a hydrating mask.', price: '850.00', duration: 60, category: 'facial', service_img: null, created_at: daysAgo(100) },
+  { id: 2, service_name: 'Swedish Massage', description: 'Full-body relaxation massage with long, flowing strokes.', price: '1200.00', duration: 90, category: 'massage', service_img: null, created_at: daysAgo(100) },
+  { id: 3, service_name: 'Gel Manicure', description: 'Nail shaping, cuticle care and long-lasting gel polish.', price: '550.00', duration: 45, category: 'nail', service_img: null, created_at: daysAgo(80) },
+  { id: 4, service_name: 'Haircut & Blow-dry', description: 'Consultation, precision cut and styled blow-dry.', price: '650.00', duration: 60, category: 'hair', service_img: null, created_at: daysAgo(80) },
+  { id: 5, service_name: 'Underarm Waxing', description: 'Gentle hot-wax hair removal.', price: '350.00', duration: 30, category: 'waxing', service_img: null, created_at: daysAgo(50) },
+  { id: 6, service_name: 'Hot Stone Therapy', description: 'Heated basalt stones to ease deep muscle tension.', price: '1500.00', duration: 90, category: 'massage', service_img: null, available_days: ['Friday', 'Saturday', 'Sunday'], created_at: daysAgo(30) },
+];
+
+const bookings = (): MockRow[] => [
+  // Past visits, for reports and history
+  { id: 1, service_id: 1, customer_id: CUSTOMER_LIZA_ID, staff_id: STAFF_MARIA_ID, staff_auto_assigned: false, booking_date: daysFromToday(-14), booking_time: '10:00', status: 'completed', total_price: '850.00', notes: null, created_at: daysAgo(20) },
+  { id: 2, service_id: 2, customer_id: CUSTOMER_BEN_ID, staff_id: STAFF_ANA_ID, staff_auto_assigned: true, booking_date: daysFromToday(-7), booking_time: '14:00', status: 'completed', total_price: '1200.00', notes: 'Prefers medium pressure', created_at: daysAgo(10) },
+  { id: 3, service_id: 3, customer_id: CUSTOMER_LIZA_ID, staff_id: STAFF_ANA_ID, staff_auto_assigned: false, booking_date: daysFromToday(-3), booking_time: '11:00', status: 'completed', total_price: '550.00', notes: null, series_id: 1, created_at: daysAgo(6) },
+  { id: 4, service_id: 4, customer_id: CUSTOMER_BEN_ID, staff_id: STAFF_MARIA_ID, staff_auto_assigned: false, booking_date: daysFromToday(-2), booking_time: '15:30', status: 'cancelled', total_price: '650.00', notes: null, created_at: daysAgo(5) },
+  // Upcoming appointments
+  { id: 5, service_id: 2, customer_id: CUSTOMER_LIZA_ID, staff_id: STAFF_MARIA_ID, staff_auto_assigned: false, booking_date: daysFromToday(0), booking_time: '16:00', status: 'confirmed', total_price: '1200.00', notes: null, created_at: daysAgo(3) },
+  { id: 6, service_id: 1, customer_id: CUSTOMER_BEN_ID, staff_id: STAFF_MARIA_ID, staff_auto_assigned: true, booking_date: daysFromToday(1), booking_time: '10:00', status: 'confirmed', total_price: '850.00', notes: null, created_at: daysAgo(2) },
+  { id: 7, service_id: 5, customer_id: CUSTOMER_LIZA_ID, staff_id: STAFF_ANA_ID, staff_auto_assigned: false, booking_date: daysFromToday(2), booking_time: '13:00', status: 'pending', total_price: '350.00', notes: 'First time waxing', created_at: daysAgo(1) },
+  { id: 8, service_id: 4, customer_id: CUSTOMER_BEN_ID, staff_id: STAFF_ANA_ID, staff_auto_assigned: false, booking_date: daysFromToday(5), booking_time: '09:30', status: 'pending', total_price: '650.00', notes: null, created_at: daysAgo(0) },
+  // The rest of Liza's manicure series
+  { id: 9, service_id: 3, customer_id: CUSTOMER_LIZA_ID, staff_id: STAFF_ANA_ID, staff_auto_assigned: false, booking_date: daysFromToday(18), booking_time: '11:00', status: 'confirmed', total_price: '550.00', notes: null, series_id: 1, created_at: daysAgo(6) },
+  { id: 10, service_id: 3, customer_id: CUSTOMER_LIZA_ID, staff_id: STAFF_ANA_ID, staff_auto_assigned: false, booking_date: daysFromToday(39), booking_time: '11:00', status: 'pending', total_price: '550.00', notes: null, series_id: 1, created_at: daysAgo(6) },
+  { id: 11, service_id: 3, customer_id: CUSTOMER_LIZA_ID, staff_id: STAFF_ANA_ID, staff_auto_assigned: false, booking_date: daysFromToday(60), booking_time: '11:00', status: 'pending', total_price: '550.00', notes: null, series_id: 1, created_at: daysAgo(6) },
+  // Ben's massage followed by a facial, booked as one visit
+  { id: 12, service_id: 2, customer_id: CUSTOMER_BEN_ID, staff_id: STAFF_ANA_ID, staff_auto_assigned: false, booking_date: daysFromToday(8), booking_time: '13:00', status: 'confirmed', total_price: '1200.00', notes: null, visit_id: 1, created_at: daysAgo(1) },
+  { id: 13, service_id: 1, customer_id: CUSTOMER_BEN_ID, staff_id: STAFF_MARIA_ID, staff_auto_assigned: false, booking_date: daysFromToday(8), booking_time: '14:30', status: 'confirmed', total_price: '850.00', notes: null, visit_id: 1, created_at: daysAgo(1) },
+  // Liza's first massage from her 5-pack, priced at what the session cost her
+  { id: 14, service_id: 2, customer_id: CUSTOMER_LIZA_ID, staff_id: STAFF_ANA_ID, staff_auto_assigned: false, booking_date: daysFromToday(-10), booking_time: '10:00', status: 'completed', total_price: '960.00', notes: null, created_at: daysAgo(15) },
+];
+
+// Ben's back-to-back massage and facial
+const bookingVisits = (): MockRow[] => [
+  { id: 1, customer_id: CUSTOMER_BEN_ID, visit_date: daysFromToday(8), start_time: '13:00', created_by: CUSTOMER_BEN_ID, created_at: daysAgo(1) },
+];
+
+// Liza keeps her nails done every three weeks
+const bookingSeries = (): MockRow[] => [
+  { id: 1, customer_id: CUSTOMER_LIZA_ID, service_id: 3, frequency: 'every_3_weeks', start_date: daysFromToday(-3), booking_time: '11:00', end_date: null, occurrence_count: 4, created_by: CUSTOMER_LIZA_ID, created_at: daysAgo(6) },
+];
+
+// Deposits taken at booking, balances settled at completion, the refund for the cancelled visit and a prepaid session used
+const payments = (): MockRow[] => [
+  { id: 1, booking_id: 1, kind: 'deposit', method: 'card', amount: '170.00', reference: 'LOCAL-CHARGE-seed-1', refund_of: null, recorded_by: CUSTOMER_LIZA_ID, created_at: daysAgo(20) },
+  { id: 2, booking_id: 1, kind: 'payment', method: 'cash', amount: '680.00', reference: null, refund_of: null, recorded_by: STAFF_MARIA_ID, created_at: daysAgo(14) },
+  { id: 3, booking_id: 2, kind: 'deposit', method: 'e_wallet', amount: '240.00', reference: 'LOCAL-CHARGE-seed-3', refund_of: null, recorded_by: CUSTOMER_BEN_ID, created_at: daysAgo(10) },
+  { id: 4, booking_id: 2, kind: 'payment', method: 'card', amount: '960.00', reference: 'LOCAL-CHARGE-seed-4', refund_of: null, recorded_by: STAFF_ANA_ID, created_at: daysAgo(7) },
+  { id: 5, booking_id: 3, kind: 'deposit', method: 'card', amount: '110.00', reference: 'LOCAL-CHARGE-seed-5', refund_of: null, recorded_by: CUSTOMER_LIZA_ID, created_at: daysAgo(6) },
+  { id: 6, booking_id: 3, kind: 'payment', method: 'e_wallet', amount: '440.00', reference: 'LOCAL-CHARGE-seed-6', refund_of: null, recorded_by: STAFF_ANA_ID, created_at: daysAgo(3) },
+  { id: 7, booking_id: 4, kind: 'deposit', method: 'card', amount: '130.00', reference: 'LOCAL-CHARGE-seed-7', refund_of: null, recorded_by: CUSTOMER_BEN_ID, created_at: daysAgo(5) },
+  { id: 8, booking_id: 4, kind: 'refund', method: 'card', amount: '130.00', reference: 'LOCAL-REFUND-seed-8', refund_of: 7, recorded_by: CUSTOMER_BEN_ID, created_at: daysAgo(4) },
+  { id: 9, booking_id: 5, kind: 'deposit', method: 'card', amount: '240.00', reference: 'LOCAL-CHARGE-seed-9', refund_of: null, recorded_by: CUSTOMER_LIZA_ID, created_at: daysAgo(3) },
+  { id: 10, booking_id: 6, kind: 'deposit', method: 'e_wallet', amount: '170.00', reference: 'LOCAL-CHARGE-seed-10', refund_of: null, recorded_by: CUSTOMER_BEN_ID, created_at: daysAgo(2) },
+  { id: 11, booking_id: 7, kind: 'deposit', method: 'card', amount: '70.00', reference: 'LOCAL-CHARGE-seed-11', refund_of: null, recorded_by: CUSTOMER_LIZA_ID, created_at: daysAgo(1) },
+  { id: 12, booking_id: 8, kind: 'deposit', method: 'e_wallet', amount: '130.00', reference: 'LOCAL-CHARGE-seed-12', refund_of: null, recorded_by: CUSTOMER_BEN_ID, created_at: daysAgo(0) },
+  { id: 13, booking_id: 9, kind: 'deposit', method: 'card', amount: '110.00', reference: 'LOCAL-CHARGE-seed-13', refund_of: null, recorded_by: CUSTOMER_LIZA_ID, created_at: daysAgo(6) },
+  { id: 14, booking_id: 10, kind: 'deposit', method: 'card', amount: '110.00', reference: 'LOCAL-CHARGE-seed-14', refund_of: null, recorded_by: CUSTOMER_LIZA_ID, created_at: daysAgo(6) },
+  { id: 15, booking_id: 11, kind: 'deposit', method: 'card', amount: '110.00', reference: 'LOCAL-CHARGE-seed-15', refund_of: null, recorded_by: CUSTOMER_LIZA_ID, created_at: daysAgo(6) },
+  { id: 16, booking_id: 12, kind: 'deposit', method: 'e_wallet', amount: '240.00', reference: 'LOCAL-CHARGE-seed-16', refund_of: null, recorded_by: CUSTOMER_BEN_ID, created_at: daysAgo(1) },
+  { id: 17, booking_id: 13, kind: 'deposit', method: 'e_wallet', amount: '170.00', reference: 'LOCAL-CHARGE-seed-17', refund_of: null, recorded_by: CUSTOMER_BEN_ID, created_at: daysAgo(1) },
+  { id: 18, booking_id: 14, kind: 'redemption', method: 'card', amount: '960.00', reference: null, refund_of: null, session_card_item_id: 1, recorded_by: CUSTOMER_LIZA_ID, created_at: daysAgo(15) },
+];
+
+// Five massages for the price of four, and a facial-and-massage bundle
+const servicePackages = (): MockRow[] => [
+  { id: 1, name: 'Massage 5-Pack', description: 'Five Swedish massages for the price of four.', kind: 'session_card', price: '4800.00', validity_days: 180, is_active: true, created_at: daysAgo(60) },
+  { id: 2, name: 'Glow & Unwind Bundle', description: 'A classic facial and a Swedish massage, to enjoy together or apart.', kind: 'bundle', price: '1750.00', validity_days: 90, is_active: true, created_at: daysAgo(30) },
+];
+
+const servicePackageItems = (): MockRow[] => [
+  { id: 1, package_id: 1, service_id: 2, sessions: 5 },
+  { id: 2, package_id: 2, service_id: 1, sessions: 1 },
+  { id: 3, package_id: 2, service_id: 2, sessions: 1 },
+];
+
+// Liza bought the massage 5-pack and has used one session
+const sessionCards = (): MockRow[] => [
+  { id: 1, package_id: 1, customer_id: CUSTOMER_LIZA_ID, sold_by: CUSTOMER_LIZA_ID, price: '4800.00', payment_method: 'card', reference: 'LOCAL-CHARGE-seed-card-1', expires_at: daysFromToday(160), created_at: daysAgo(20) },
+];
+
+const sessionCardItems = (): MockRow[] => [
+  { id: 1, card_id: 1, service_id: 2, sessions: 5, remaining: 4, unit_value: '960.00' },
+];
+
+const suppliers = (): MockRow[] => [
+  { id: 1, name: 'Manila Spa Supply Co.', contact_name: 'Rosa Dizon', email: 'orders@manilaspasupply.ph', phone: '+63 2 8123 4567', notes: 'Delivers Tuesdays and Fridays', created_at: daysAgo(90) },
+  { id: 2, name: 'Glow Beauty Wholesale', contact_name: 'Paolo Reyes', email: 'sales@glowbeauty.ph', phone: '+63 917 555 0142', notes: null, created_at: daysAgo(75) },
+];
+
+// Nail polish and wax beads are below their reorder points
+const inventory = (): MockRow[] => [
+  { id: 1, name: 'Hydrating Sheet Mask', category: 'Skincare', price: '120.00', cost_price: '55.00', stock: 48, unit: 'pcs', reorder_point: 20, reorder_quantity: 24, supplier_id: 1, created_at: daysAgo(60), updated_at: daysAgo(5) },
+  { id: 2, name: 'Lavender Massage Oil (500ml)', category: 'Massage', price: '780.00', cost_price: '390.00', stock: 12, unit: 'bottle', reorder_point: 4, reorder_quantity: 6, supplier_id: 1, created_at: daysAgo(60), updated_at: daysAgo(12) },
+  { id: 3, name: 'Gel Polish - Nude Rose', category: 'Nails', price: '450.00', cost_price: '210.00', stock: 6, unit: 'bottle', reorder_point: 8, reorder_quantity: 12, supplier_id: 2, created_at: daysAgo(40), updated_at: daysAgo(3) },
+  { id: 4, name: 'Hot Wax Beads (1kg)', category: 'Waxing', price: '950.00', cost_price: '520.00', stock: 3, unit: 'bag', reorder_point: 5, reorder_quantity: null, supplier_id: 2, created_at: daysAgo(30), updated_at: daysAgo(2) },
+  { id: 5, name: 'Argan Hair Serum', category: 'Hair', price: '620.00', cost_price: null, stock: 20, unit: 'pcs', reorder_point: null, reorder_quantity: null, supplier_id: null, created_at: daysAgo(15), updated_at: daysAgo(15) },
+];
+
+// What one booking of each service uses up
+const serviceMaterials = (): MockRow[] => [
+  { id: 1, service_id: 1, item_id: 1, quantity: 1 },
+  { id: 2, service_id: 2, item_id: 2, quantity: 0.1 },
+  { id: 3, service_id: 3, item_id: 3, quantity: 0.1 },
+  { id: 4, service_id: 5, item_id: 4, quantity: 0.05 },
+];
+
+// The latest delivery of sheet masks, and a serum sold over the counter
+const stockMovements = (): MockRow[] => [
+  { id: 1, item_id: 1, quantity: 24, stock_after: 48, reason: 'restock', booking_id: null, note: 'Supplier invoice #1042', recorded_by: ADMIN_ID, created_at: daysAgo(5) },
+  { id: 2, item_id: 5, quantity: -1, stock_after: 20, reason: 'sale', booking_id: 3, note: 'Sale #1', recorded_by: STAFF_ANA_ID, created_at: daysAgo(3) },
+];
+
+// Massage oil is on order and half of it has already arrived
+const purchaseOrders = (): MockRow[] => [
+  { id: 1, supplier_id: 1, status: 'partially_received', expected_date: daysFromToday(3), notes: 'Rest of the oil is back-ordered', created_by: ADMIN_ID, ordered_at: daysAgo(10), received_at: null, created_at: daysAgo(10) },
+];
+
+const purchaseOrderLines = (): MockRow[] => [
+  { id: 1, purchase_order_id: 1, item_id: 2, quantity_ordered: 12, quantity_received: 6, unit_cost: '390.00' },
+];
+
+// Liza took home a serum after her manicure
+const retailSales = (): MockRow[] => [
+  { id: 1, booking_id: 3, customer_id: CUSTOMER_LIZA_ID, sold_by: STAFF_ANA_ID, subtotal: '620.00', discount: '62.00', total: '558.00', payment_method: 'cash', reference: null, created_at: daysAgo(3) },
+];
+
+const retailSaleItems = (): MockRow[] => [
+  { id: 1, sale_id: 1, item_id: 5, quantity: 1, unit_price: '620.00' },
+];
+
+// Ben hopes a massage frees up this afternoon
+const waitlistEntries = (): MockRow[] => [
+  { id: 1, customer_id: CUSTOMER_BEN_ID, service_id: 2, staff_id: null, date: daysFromToday(0), window_start: '15:00', window_end: '17:00', notes: 'Any therapist is fine', status: 'waiting', offered_time: null, offered_staff_id: null, offer_expires_at: null, booking_id: null, created_at: daysAgo(1) },
+];
+
+// Maria does everything; Ana does nails, waxing, hair and Swedish massage
+const staffSpecializations = (): MockRow[] => [
+  { id: 1, staff_id: STAFF_ANA_ID, category: 'nail', service_id: null, all_services: false },
+  { id: 2, staff_id: STAFF_ANA_ID, category: 'waxing', service_id: null, all_services: false },
+  { id: 3, staff_id: STAFF_ANA_ID, category: 'hair', service_id: null, all_services: false },
+  { id: 4, staff_id: STAFF_ANA_ID, category: null, service_id: 2, all_services: false },
+  { id: 5, staff_id: STAFF_MARIA_ID, category: null, service_id: null, all_services: true },
+];
+
+// A day's notice to cancel or move an appointment, or the deposit is kept
+const bookingPolicies = (): MockRow[] => [
+  { id: 1, cancel_notice_hours: 24, reschedule_notice_hours: 24, max_reschedules: 2, late_cancellation_penalty: 'forfeit_deposit', late_cancellation_fee_rate: '0.5', updated_by: ADMIN_ID, updated_at: daysAgo(30) },
+];
+
+// Ana earns more on hair; everyone else gets the default rate
+const commissionRules = (): MockRow[] => [
+  { id: 1, staff_id: STAFF_ANA_ID, category: 'hair', rate: '0.15' },
+];
+
+// Private notes from Liza's past visits
+const treatmentNotes = (): MockRow[] => [
+  { id: 1, booking_id: 1, customer_id: CUSTOMER_LIZA_ID, note: 'Mild redness around the nose after extraction; settled within the hour.', products_used: 'Gentle enzyme cleanser, aloe mask', written_by: STAFF_MARIA_ID, created_at: daysAgo(14) },
+  { id: 2, booking_id: 3, customer_id: CUSTOMER_LIZA_ID, note: 'Nails brittle at the tips; kept them short and skipped the buffer.', products_used: 'Strengthening base coat, gel polish in Blush 12', written_by: STAFF_ANA_ID, created_at: daysAgo(3) },
+];
+
+/**
+ * Builds a fresh copy of every seeded table.
+ * Dates are relative to today, so call it again for a clean slate.
+ */
+export const createFixtureTables = (): MockTables => ({
+  users: users(),
+  services: services(),
+  bookings: bookings(),
+  booking_series: bookingSeries(),
+  booking_visits: bookingVisits(),
+  payments: payments(),
+  service_packages: servicePackages(),
+  service_package_items: servicePackageItems(),
+  session_cards: sessionCards(),
+  session_card_items: sessionCardItems(),
+  suppliers: suppliers(),
+  inventory: inventory(),
+  purchase_orders: purchaseOrders(),
+  purchase_order_lines: purchaseOrderLines(),
+  service_materials: serviceMaterials(),
+  stock_movements: stockMovements(),
+  retail_sales: retailSales(),
+  retail_sale_items: retailSaleItems(),
+  waitlist_entries: waitlistEntries(),
+  staff_specializations: staffSpecializations(),
+  commission_rules: commissionRules(),
+  booking_policies: bookingPolicies(),
+  treatment_notes: treatmentNotes(),
+});
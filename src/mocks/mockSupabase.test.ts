@@ -0,0 +1,96 @@
+// src/mocks/mockSupabase.test.ts
+import { describe, expect, it } from 'vitest';
+import { CUSTOMER_LIZA_ID, MOCK_PASSWORD, STAFF_MARIA_ID } from './fixtures';
+import { createMockSupabaseClient } from './mockSupabase';
+
+describe('createMockSupabaseClient', () => {
+  it('filters, orders and limits rows', async () => {
+    const supabase = createMockSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('bookings')
+      .select('id, booking_time')
+      .eq('staff_id', STAFF_MARIA_ID)
+      .in('status', ['confirmed', 'completed'])
+      .order('booking_date', { ascending: false })
+      .limit(2);
+
+    expect(error).toBeNull();
+    expect(data?.map(row => row.id)).toEqual([13, 6]);
+  });
+
+  it('joins referenced rows through their foreign key', async () => {
+    const supabase = createMockSupabaseClient();
+
+    const { data } = await supabase
+      .from('bookings')
+      .select('id, services:service_id (service_name), customers:customer_id (first_name)')
+      .eq('id', '1')
+      .single();
+
+    expect(data).toEqual({ id: 1, services: { service_name: 'Classic Facial' }, customers: { first_name: 'Liza' } });
+  });
+
+  it('gives new rows an id and refuses duplicate unique keys', async () => {
+    const supabase = createMockSupabaseClient();
+
+    const { data } = await supabase.from('suppliers').insert([{ name: 'Glow Supplies' }]).select('id').single();
+    expect(data?.id).toEqual(expect.any(Number));
+
+    const { error } = await supabase.from('users').insert([{ email: 'liza@example.com', role: 'customer' }]);
+    expect(error?.code).toBe('23505');
+  });
+
+  it('refuses to delete a row that restricting foreign keys still point at', async () => {
+    const supabase = createMockSupabaseClient();
+
+    const { error } = await supabase.from('bookings').delete().eq('id', '9');
+    expect(error?.code).toBe('23503');
+    const { data } = await supabase.from('bookings').select('id').eq('id', '9');
+    expect(data).toHaveLength(1);
+
+    const { data: unpaid } = await supabase.from('bookings').insert([{ service_id: 5, status: 'pending' }]).select('id').single();
+    const deleted = await supabase.from('bookings').delete().eq('id', unpaid?.id);
+    expect(deleted.error).toBeNull();
+  });
+
+  it('returns only the rows an update matched', async () => {
+    const supabase = createMockSupabaseClient();
+
+    const { data } = await supabase
+      .from('bookings')
+      .update({ status: 'confirmed' })
+      .eq('id', '7')
+      .eq('status', 'cancelled')
+      .select('id');
+
+    expect(data).toEqual([]);
+  });
+
+  it('reports .single() on a missing row as an error', async () => {
+    const supabase = createMockSupabaseClient();
+
+    const { data, error } = await supabase.from('bookings').select('*').eq('id', '999').single();
+
+    expect(data).toBeNull();
+    expect(error?.code).toBe('PGRST116');
+  });
+
+  it('signs in fixture accounts with the shared password', async () => {
+    const supabase = createMockSupabaseClient();
+
+    const wrong = await supabase.auth.signInWithPassword({ email: 'liza@example.com', password: 'nope' });
+    expect(wrong.error?.message).toBe('Invalid login credentials');
+
+    const { data } = await supabase.auth.signInWithPassword({ email: 'Liza@Example.com', password: MOCK_PASSWORD });
+    expect(data.user?.id).toBe(CUSTOMER_LIZA_ID);
+  });
+
+  it('starts every client from a clean copy of the fixtures', async () => {
+    const first = createMockSupabaseClient();
+    await first.from('bookings').delete().eq('id', '7');
+
+    const { data } = await createMockSupabaseClient().from('bookings').select('id').eq('id', '7');
+    expect(data).toHaveLength(1);
+  });
+});
@@ -0,0 +1,548 @@
+// src/mocks/mockSupabase.ts
+// An in-memory stand-in for the Supabase client, covering the parts of the
+// query builder, auth and storage APIs the app uses.
+import { SupabaseClient } from '@supabase/supabase-js';
+import { MOCK_ACCOUNTS, MockAccount, MockRow, MockTables, createFixtureTables } from './fixtures';
+
+// Postgres unique_violation
+const UNIQUE_VIOLATION = '23505';
+// Postgres exclusion_violation
+const EXCLUSION_VIOLATION = '23P01';
+// Postgres foreign_key_violation
+const FOREIGN_KEY_VIOLATION = '23503';
+// PostgREST: .single() found zero or several rows
+const NOT_SINGLE_ROW = 'PGRST116';
+
+// Keeps the signed-in mock user across page reloads
+const SESSION_STORAGE_KEY = 'mockSupabaseSession';
+
+const MOCK_STORAGE_URL = 'https://mock.supabase.local/storage/v1/object/public';
+
+// Lets `alias:column (*)` joins find the referenced table
+const FOREIGN_KEYS: Record<string, string> = {
+  service_id: 'services',
+  customer_id: 'users',
+  staff_id: 'users',
+  user_id: 'users',
+  booking_id: 'bookings',
+  changed_by: 'users',
+  written_by: 'users',
+  recorded_by: 'users',
+  item_id: 'inventory',
+  supplier_id: 'suppliers',
+  purchase_order_id: 'purchase_orders',
+  sold_by: 'users',
+  sale_id: 'retail_sales',
+  offered_staff_id: 'users',
+  series_id: 'booking_series',
+  package_id: 'service_packages',
+  card_id: 'session_cards',
+};
+
+// Column sets that must be unique besides the id
+const UNIQUE_KEYS: Record<string, string[][]> = {
+  users: [['email']],
+  staff_working_hours: [['staff_id', 'day_of_week']],
+  staff_calendar_feeds: [['staff_id'], ['token']],
+};
+
+// A booking's start and end in minutes since the epoch, its length taken from the service
+const bookingSlot = (db: MockDatabase, row: MockRow): { start: number; end: number } => {
+  const [hours, minutes] = String(row.booking_time || '00:00').split(':').map(part => parseInt(part, 10));
+  const start = Date.parse(`${row.booking_date}T00:00:00Z`) / 60000 + (hours || 0) * 60 + (minutes || 0);
+  const service = db.rows('services').find(other => sameValue(other.id, row.service_id));
+  return { start, end: start + (Number(service?.duration) || 60) };
+};
+
+// Rows that can't sit alongside each other, like the bookings_no_overlap exclusion constraint
+const EXCLUSION_CONSTRAINTS: Record<string, { name: string; clashes: (db: MockDatabase, row: MockRow, other: MockRow) => boolean }[]> = {
+  bookings: [{
+    name: 'bookings_no_overlap',
+    clashes: (db, row, other) => {
+      const blocking = (booking: MockRow) => booking.staff_id != null && ['pending', 'confirmed', 'in_progress'].includes(booking.status);
+      if (!blocking(row) || !blocking(other) || !sameValue(row.staff_id, other.staff_id)) return false;
+      const a = bookingSlot(db, row);
+      const b = bookingSlot(db, other);
+      return a.start < b.end && b.start < a.end;
+    },
+  }],
+};
+
+// Foreign keys declared `on delete restrict`: a row can't be deleted while these still point at it
+const RESTRICTING_REFERENCES: Record<string, { table: string; column: string }[]> = {
+  bookings: [{ table: 'payments', column: 'booking_id' }],
+  payments: [{ table: 'payments', column: 'refund_of' }],
+  suppliers: [{ table: 'purchase_orders', column: 'supplier_id' }],
+  inventory: [{ table: 'purchase_order_lines', column: 'item_id' }, { table: 'retail_sale_items', column: 'item_id' }],
+  services: [{ table: 'service_package_items', column: 'service_id' }, { table: 'session_card_items', column: 'service_id' }],
+  service_packages: [{ table: 'session_cards', column: 'package_id' }],
+};
+
+// Columns raised by one on every update, like the revision trigger on bookings
+const REVISION_COLUMNS: Record<string, string> = {
+  bookings: 'revision',
+};
+
+interface MockError {
+  message: string;
+  code?: string;
+}
+
+interface MockResponse {
+  data: any;
+  error: MockError | null;
+  count?: number | null;
+}
+
+type RowFilter = (row: MockRow) => boolean;
+
+interface Selection {
+  columns: string[];
+  joins: { alias: string; column: string; selection: Selection }[];
+}
+
+// Ids and foreign keys may be numbers in the store but strings in the app
+const sameValue = (a: any, b: any): boolean =>
+  a === b || (a != null && b != null && String(a) === String(b));
+
+const compareValues = (a: any, b: any): number => {
+  if (a == null && b == null) return 0;
+  if (a == null) return -1;
+  if (b == null) return 1;
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b));
+};
+
+// Splits on commas that aren't inside parentheses
+const splitTopLevel = (text: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of text) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === ',' && depth === 0) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts.map(part => part.trim()).filter(Boolean);
+};
+
+// "*, services:service_id (*)" → every column plus the service row as `services`
+const parseSelection = (text: string): Selection => {
+  const selection: Selection = { columns: [], joins: [] };
+  splitTopLevel(text || '*').forEach(part => {
+    const join = part.match(/^(\w+)\s*:\s*(\w+)\s*\(([\s\S]*)\)$/);
+    if (join) {
+      selection.joins.push({ alias: join[1], column: join[2], selection: parseSelection(join[3]) });
+    } else {
+      selection.columns.push(part);
+    }
+  });
+  return selection;
+};
+
+// Parses a PostgREST filter such as "staff_id.eq.5,staff_id.is.null" (any entry may match)
+const parseOrFilter = (expression: string): RowFilter => {
+  const conditions = splitTopLevel(expression).map(condition => {
+    const [column, operator, ...rest] = condition.split('.');
+    const value = rest.join('.');
+    switch (operator) {
+      case 'eq': return (row: MockRow) => sameValue(row[column], value);
+      case 'neq': return (row: MockRow) => !sameValue(row[column], value);
+      case 'gt': return (row: MockRow) => compareValues(row[column], value) > 0;
+      case 'gte': return (row: MockRow) => compareValues(row[column], value) >= 0;
+      case 'lt': return (row: MockRow) => compareValues(row[column], value) < 0;
+      case 'lte': return (row: MockRow) => compareValues(row[column], value) <= 0;
+      case 'is': return (row: MockRow) => (value === 'null' ? row[column] == null : String(row[column]) === value);
+      default: throw new Error(`Mock backend does not support the "${operator}" filter`);
+    }
+  });
+  return row => conditions.some(condition => condition(row));
+};
+
+/**
+ * An in-memory database: one array of rows per table. Unknown tables start empty.
+ */
+class MockDatabase {
+  constructor(private tables: MockTables) {}
+
+  rows(table: string): MockRow[] {
+    if (!this.tables[table]) this.tables[table] = [];
+    return this.tables[table];
+  }
+
+  nextId(table: string): number {
+    const ids = this.rows(table).map(row => Number(row.id)).filter(id => Number.isFinite(id));
+    return Math.max(0, ...ids) + 1;
+  }
+
+  // Returns the unique column set a new row would clash with, if any
+  findConflict(table: string, row: MockRow, pending: MockRow[] = []): string[] | undefined {
+    const keys = [['id'], ...(UNIQUE_KEYS[table] || [])];
+    const existing = [...this.rows(table), ...pending];
+    return keys.find(columns =>
+      columns.every(column => row[column] != null) &&
+      existing.some(other => columns.every(column => sameValue(other[column], row[column])))
+    );
+  }
+
+  // Returns the exclusion constraint a row would break against the table's other rows, if any
+  findExclusion(table: string, row: MockRow, others: MockRow[]): string | undefined {
+    return (EXCLUSION_CONSTRAINTS[table] || []).find(constraint =>
+      others.some(other => other !== row && constraint.clashes(this, row, other))
+    )?.name;
+  }
+
+  // Returns the table whose rows still reference one of the rows being deleted, if any
+  findRestrictingReference(table: string, deleted: MockRow[]): { table: string; column: string } | undefined {
+    return (RESTRICTING_REFERENCES[table] || []).find(reference =>
+      this.rows(reference.table).some(other =>
+        !(reference.table === table && deleted.includes(other)) &&
+        deleted.some(row => sameValue(other[reference.column], row.id))
+      )
+    );
+  }
+
+  project(table: string, row: MockRow, selection: Selection): MockRow {
+    const result: MockRow = {};
+    selection.columns.forEach(column => {
+      if (column === '*') Object.assign(result, row);
+      else result[column] = row[column];
+    });
+    selection.joins.forEach(join => {
+      const target = FOREIGN_KEYS[join.column];
+      const related = target ? this.rows(target).find(other => sameValue(other.id, row[join.column])) : undefined;
+      result[join.alias] = related ? this.project(target, related, join.selection) : null;
+    });
+    return result;
+  }
+}
+
+/**
+ * The chainable, awaitable query returned by `from(table)`.
+ */
+class MockQueryBuilder implements PromiseLike<MockResponse> {
+  private action: 'select' | 'insert' | 'upsert' | 'update' | 'delete' = 'select';
+  private selection = '*';
+  private returning = false;
+  private countRows = false;
+  private headOnly = false;
+  private payload: MockRow[] = [];
+  private changes: MockRow = {};
+  private conflictColumns: string[] = ['id'];
+  private filters: RowFilter[] = [];
+  private orderings: { column: string; ascending: boolean }[] = [];
+  private rowLimit?: number;
+  private resultShape: 'many' | 'single' | 'maybeSingle' = 'many';
+
+  constructor(private db: MockDatabase, private table: string) {}
+
+  select(columns = '*', options: { count?: string; head?: boolean } = {}) {
+    if (this.action !== 'select') this.returning = true;
+    this.selection = columns;
+    this.countRows = !!options.count;
+    this.headOnly = !!options.head;
+    return this;
+  }
+
+  insert(rows: MockRow | MockRow[]) {
+    this.action = 'insert';
+    this.payload = Array.isArray(rows) ? rows : [rows];
+    return this;
+  }
+
+  upsert(rows: MockRow | MockRow[], options: { onConflict?: string } = {}) {
+    this.action = 'upsert';
+    this.payload = Array.isArray(rows) ? rows : [rows];
+    if (options.onConflict) this.conflictColumns = options.onConflict.split(',').map(column => column.trim());
+    return this;
+  }
+
+  update(changes: MockRow) {
+    this.action = 'update';
+    this.changes = changes;
+    return this;
+  }
+
+  delete() {
+    this.action = 'delete';
+    return this;
+  }
+
+  eq(column: string, value: any) { return this.where(row => sameValue(row[column], value)); }
+  neq(column: string, value: any) { return this.where(row => !sameValue(row[column], value)); }
+  gt(column: string, value: any) { return this.where(row => compareValues(row[column], value) > 0); }
+  gte(column: string, value: any) { return this.where(row => compareValues(row[column], value) >= 0); }
+  lt(column: string, value: any) { return this.where(row => compareValues(row[column], value) < 0); }
+  lte(column: string, value: any) { return this.where(row => compareValues(row[column], value) <= 0); }
+  in(column: string, values: any[]) { return this.where(row => values.some(value => sameValue(row[column], value))); }
+  is(column: string, value: null | boolean) { return this.where(row => (value === null ? row[column] == null : row[column] === value)); }
+  or(expression: string) { return this.where(parseOrFilter(expression)); }
+
+  order(column: string, options: { ascending?: boolean } = {}) {
+    this.orderings.push({ column, ascending: options.ascending !== false });
+    return this;
+  }
+
+  limit(count: number) {
+    this.rowLimit = count;
+    return this;
+  }
+
+  single() {
+    this.resultShape = 'single';
+    return this;
+  }
+
+  maybeSingle() {
+    this.resultShape = 'maybeSingle';
+    return this;
+  }
+
+  then<TResult1 = MockResponse, TResult2 = never>(
+    onfulfilled?: ((value: MockResponse) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve().then(() => this.execute()).then(onfulfilled, onrejected);
+  }
+
+  private where(filter: RowFilter) {
+    this.filters.push(filter);
+    return this;
+  }
+
+  private matchingRows(): MockRow[] {
+    return this.db.rows(this.table).filter(row => this.filters.every(filter => filter(row)));
+  }
+
+  private execute(): MockResponse {
+    let affected: MockRow[];
+
+    switch (this.action) {
+      case 'insert': {
+        const inserted: MockRow[] = [];
+        for (const row of this.payload) {
+          const next = this.withDefaults(row, inserted.length);
+          const conflict = this.db.findConflict(this.table, next, inserted);
+          if (conflict) {
+            return this.failure(
+              `duplicate key value violates unique constraint "${this.table}_${conflict.join('_')}_key"`,
+              UNIQUE_VIOLATION
+            );
+          }
+          const exclusion = this.db.findExclusion(this.table, next, [...this.db.rows(this.table), ...inserted]);
+          if (exclusion) {
+            return this.failure(`conflicting key value violates exclusion constraint "${exclusion}"`, EXCLUSION_VIOLATION);
+          }
+          inserted.push(next);
+        }
+        this.db.rows(this.table).push(...inserted);
+        affected = inserted;
+        break;
+      }
+      case 'upsert':
+        affected = this.payload.map(row => {
+          const existing = this.db.rows(this.table).find(other =>
+            this.conflictColumns.every(column => sameValue(other[column], row[column]))
+          );
+          if (existing) return Object.assign(existing, row);
+          const next = this.withDefaults(row, 0);
+          this.db.rows(this.table).push(next);
+          return next;
+        });
+        break;
+      case 'update': {
+        affected = this.matchingRows();
+        // Checked before anything changes, so a failing update leaves every row as it was
+        const updated = affected.map(row => ({ ...row, ...this.changes }));
+        const others = this.db.rows(this.table).filter(row => !affected.includes(row));
+        for (const row of updated) {
+          const exclusion = this.db.findExclusion(this.table, row, [...others, ...updated]);
+          if (exclusion) {
+            return this.failure(`conflicting key value violates exclusion constraint "${exclusion}"`, EXCLUSION_VIOLATION);
+          }
+        }
+        affected.forEach(row => {
+          Object.assign(row, this.changes);
+          const revision = REVISION_COLUMNS[this.table];
+          if (revision) row[revision] = (Number(row[revision]) || 0) + 1;
+        });
+        break;
+      }
+      case 'delete': {
+        affected = this.matchingRows();
+        const reference = this.db.findRestrictingReference(this.table, affected);
+        if (reference) {
+          return this.failure(
+            `update or delete on table "${this.table}" violates foreign key constraint "${reference.table}_${reference.column}_fkey" on table "${reference.table}"`,
+            FOREIGN_KEY_VIOLATION
+          );
+        }
+        const rows = this.db.rows(this.table);
+        affected.forEach(row => rows.splice(rows.indexOf(row), 1));
+        break;
+      }
+      default:
+        affected = this.sorted(this.matchingRows());
+    }
+
+    if (this.action !== 'select' && !this.returning) {
+      return { data: null, error: null };
+    }
+
+    const count = affected.length;
+    if (this.rowLimit !== undefined) affected = affected.slice(0, this.rowLimit);
+    if (this.headOnly) return { data: null, error: null, count };
+
+    const selection = parseSelection(this.selection);
+    const data = affected.map(row => this.db.project(this.table, row, selection));
+
+    if (this.resultShape === 'single' && data.length !== 1) {
+      return this.failure('JSON object requested, multiple (or no) rows returned', NOT_SINGLE_ROW);
+    }
+    if (this.resultShape === 'maybeSingle' && data.length > 1) {
+      return this.failure('JSON object requested, multiple rows returned', NOT_SINGLE_ROW);
+    }
+
+    return {
+      data: this.resultShape === 'many' ? data : data[0] || null,
+      error: null,
+      count: this.countRows ? count : null,
+    };
+  }
+
+  private withDefaults(row: MockRow, offset: number): MockRow {
+    return {
+      ...row,
+      id: row.id ?? this.db.nextId(this.table) + offset,
+      created_at: row.created_at ?? new Date().toISOString(),
+    };
+  }
+
+  private sorted(rows: MockRow[]): MockRow[] {
+    if (this.orderings.length === 0) return rows;
+    return [...rows].sort((a, b) => {
+      for (const { column, ascending } of this.orderings) {
+        const difference = compareValues(a[column], b[column]);
+        if (difference !== 0) return ascending ? difference : -difference;
+      }
+      return 0;
+    });
+  }
+
+  private failure(message: string, code: string): MockResponse {
+    return { data: null, error: { message, code }, count: null };
+  }
+}
+
+const toSession = (account: MockAccount) => ({
+  access_token: `mock-access-${account.id}`,
+  refresh_token: `mock-refresh-${account.id}`,
+  token_type: 'bearer',
+  expires_in: 3600,
+  user: { id: account.id, email: account.email },
+});
+
+const createMockAuth = (accounts: MockAccount[]) => {
+  const savedId = typeof localStorage !== 'undefined' ? localStorage.getItem(SESSION_STORAGE_KEY) : null;
+  let current: MockAccount | null = accounts.find(account => account.id === savedId) || null;
+
+  const signInAs = (account: MockAccount | null) => {
+    current = account;
+    if (typeof localStorage === 'undefined') return;
+    if (account) localStorage.setItem(SESSION_STORAGE_KEY, account.id);
+    else localStorage.removeItem(SESSION_STORAGE_KEY);
+  };
+
+  const findByEmail = (email: string) =>
+    accounts.find(account => account.email.toLowerCase() === email.trim().toLowerCase());
+
+  return {
+    getSession: async () => ({ data: { session: current ? toSession(current) : null }, error: null }),
+
+    signInWithPassword: async ({ email, password }: { email: string; password: string }) => {
+      const account = findByEmail(email);
+      if (!account || account.password !== password) {
+        return { data: { user: null, session: null }, error: { message: 'Invalid login credentials', status: 400 } };
+      }
+      signInAs(account);
+      const session = toSession(account);
+      return { data: { user: session.user, session }, error: null };
+    },
+
+    // Like a project with email confirmation turned off: the new user is signed in straight away
+    signUp: async ({ email, password }: { email: string; password: string }) => {
+      if (findByEmail(email)) {
+        return { data: { user: null, session: null }, error: { message: 'User already registered', status: 422 } };
+      }
+      const account: MockAccount = { id: crypto.randomUUID(), email: email.trim(), password };
+      accounts.push(account);
+      signInAs(account);
+      const session = toSession(account);
+      return { data: { user: session.user, session }, error: null };
+    },
+
+    setSession: async ({ access_token }: { access_token: string; refresh_token: string }) => {
+      const account = accounts.find(candidate => toSession(candidate).access_token === access_token);
+      if (!account) {
+        return { data: { user: null, session: null }, error: { message: 'Invalid session', status: 401 } };
+      }
+      signInAs(account);
+      const session = toSession(account);
+      return { data: { user: session.user, session }, error: null };
+    },
+
+    signOut: async () => {
+      signInAs(null);
+      return { error: null };
+    },
+  };
+};
+
+// Uploaded files are served from object URLs for the lifetime of the page
+const createMockStorage = () => {
+  const files = new Map<string, string>();
+
+  return {
+    from: (bucket: string) => ({
+      upload: async (path: string, file: Blob) => {
+        const key = `${bucket}/${path}`;
+        if (files.has(key)) {
+          return { data: null, error: { message: 'The resource already exists' } };
+        }
+        files.set(key, URL.createObjectURL(file));
+        return { data: { path }, error: null };
+      },
+
+      getPublicUrl: (path: string) => ({
+        data: { publicUrl: files.get(`${bucket}/${path}`) || `${MOCK_STORAGE_URL}/${bucket}/${path}` },
+      }),
+    }),
+  };
+};
+
+/**
+ * Creates an in-memory Supabase client seeded with fixture data.
+ * Each call starts from a clean copy of the tables.
+ * @param tables - Optional seed data; defaults to the standard fixtures.
+ * @param accounts - Optional sign-in accounts; defaults to the fixture accounts.
+ */
+export const createMockSupabaseClient = (
+  tables: MockTables = createFixtureTables(),
+  accounts: MockAccount[] = MOCK_ACCOUNTS.map(account => ({ ...account }))
+): SupabaseClient => {
+  const db = new MockDatabase(tables);
+
+  const client = {
+    from: (table: string) => new MockQueryBuilder(db, table),
+    auth: createMockAuth(accounts),
+    storage: createMockStorage(),
+  };
+
+  return client as unknown as SupabaseClient;
+};
@@ -5,20 +5,13 @@ import { useAuth } from '@context/AuthContext';
 import { Link } from 'react-router-dom';
 import Table from '@components/dashboard/Table';
 import Button from '@components/common/Button';
-import { Booking, BookingStatus } from '@models/booking';
+import { Booking } from '@models/booking';
+import { InventoryItem } from '@models/inventory';
 import { formatCurrency, formatDate } from '@utils/helpers';
-import { supabase } from '../../supabaseClient';
-
-interface BookingWithRelations extends Booking {
-  service_name: string;
-  service_price: number;
-  service_duration: number;
-  customer_name: string;
-  customer_email: string;
-  staff_name: string;
-  booking_date: string;
-  booking_time: string;
-}
+import { STATUS_COLORS, STATUS_LABELS } from '@utils/bookingStatus';
+import { bookingsRepository } from '@repositories/bookings';
+import { usersRepository } from '@repositories/users';
+import { fetchLowStockItems } from '@utils/purchaseOrders';
 
 interface DashboardStats {
   totalRevenue: number;
@@ -31,7 +24,8 @@ interface DashboardStats {
 
 const AdminDashboard: React.FC = () => {
   const { user } = useAuth();
-  const [recentBookings, setRecentBookings] = useState<BookingWithRelations[]>([]);
+  const [recentBookings, setRecentBookings] = useState<Booking[]>([]);
+  const [lowStockItems, setLowStockItems] = useState<InventoryItem[]>([]);
   const [stats, setStats] = useState<DashboardStats>({
     totalRevenue: 0,
     todayBookings: 0,
@@ -51,81 +45,20 @@ const AdminDashboard: React.FC = () => {
 
       console.log('🔄 Fetching admin dashboard data...');
 
-      // First, try to fetch basic bookings without complex joins
-      const { data: bookingsData, error: bookingsError } = await supabase
-        .from('bookings')
-        .select('*')
-        .order('created_at', { ascending: false })
-        .limit(10);
-
-      if (bookingsError) {
-        console.error('❌ Error fetching basic bookings:', bookingsError);
-        throw bookingsError;
-      }
-
-      console.log('✅ Basic bookings fetched:', bookingsData);
-
-      // If we have bookings, try to fetch related data
-      if (bookingsData && bookingsData.length > 0) {
-        // Fetch service details
-        const serviceIds = [...new Set(bookingsData.map(booking => booking.service_id))];
-        const { data: servicesData } = await supabase
-          .from('services')
-          .select('*')
-          .in('id', serviceIds);
-
-        // Fetch customer details
-        const customerIds = [...new Set(bookingsData.map(booking => booking.customer_id))];
-        const { data: customersData } = await supabase
-          .from('users')
-          .select('id, first_name, last_name, email')
-          .in('id', customerIds);
-
-        // Fetch staff details
-        const staffIds = [...new Set(bookingsData.map(booking => booking.staff_id))];
-        const { data: staffData } = await supabase
-          .from('users')
-          .select('id, first_name, last_name')
-          .in('id', staffIds);
-
-        // Transform bookings data
-        const transformedBookings: BookingWithRelations[] = bookingsData.map(booking => {
-          const service = servicesData?.find(s => s.id === booking.service_id);
-          const customer = customersData?.find(c => c.id === booking.customer_id);
-          const staff = staffData?.find(s => s.id === booking.staff_id);
-          
-          return {
-            id: booking.id,
-            serviceId: booking.service_id,
-            serviceName: service?.service_name || 'Unknown Service',
-            service_name: service?.service_name || 'Unknown Service',
-            service_price: service?.price || 0,
-            service_duration: service?.duration || 60,
-            customerId: booking.customer_id,
-            customerName: customer ? `${customer.first_name || ''} ${customer.last_name || ''}`.trim() : 'Unknown Customer',
-            customer_name: customer ? `${customer.first_name || ''} ${customer.last_name || ''}`.trim() : 'Unknown Customer',
-            customer_email: customer?.email || '',
-            staffId: booking.staff_id,
-            staffName: staff ? `${staff.first_name || ''} ${staff.last_name || ''}`.trim() : 'Unassigned',
-            staff_name: staff ? `${staff.first_name || ''} ${staff.last_name || ''}`.trim() : 'Unassigned',
-            startTime: booking.booking_date ? `${booking.booking_date}T${booking.booking_time}` : '',
-            endTime: booking.booking_date ? `${booking.booking_date}T${booking.booking_time}` : '',
-            booking_date: booking.booking_date,
-            booking_time: booking.booking_time,
-            status: booking.status as BookingStatus,
-            price: booking.total_price || service?.price || 0,
-            notes: booking.notes || ''
-          };
-        });
-
-        setRecentBookings(transformedBookings);
-      } else {
-        setRecentBookings([]);
-      }
+      const latestBookings = await bookingsRepository.list({ order: 'newest', limit: 10 });
+      console.log('✅ Recent bookings fetched:', latestBookings);
+      setRecentBookings(latestBookings);
 
       // Fetch statistics
       await fetchDashboardStats();
 
+      // Low stock shouldn't block the rest of the dashboard
+      try {
+        setLowStockItems(await fetchLowStockItems());
+      } catch (stockErr) {
+        console.error('❌ Error fetching low-stock items:', stockErr);
+      }
+
     } catch (err: any) {
       console.error('❌ Error fetching dashboard data:', err);
       
@@ -160,75 +93,26 @@ const AdminDashboard: React.FC = () => {
         completedBookings: 0
       };
 
-      // Get total revenue (completed bookings this month) - simplified
-      try {
-        const { data: revenueData, error: revenueError } = await supabase
-          .from('bookings')
-          .select('total_price, status')
-          .eq('status', 'completed');
-
-        if (!revenueError && revenueData) {
-          newStats.totalRevenue = revenueData.reduce((sum, booking) => sum + (booking.total_price || 0), 0);
-        }
-      } catch (revenueErr) {
-        console.error('❌ Error fetching revenue:', revenueErr);
-      }
-
-      // Get today's bookings - simplified
+      // Revenue, today's bookings and status counts all come from the full booking list
       try {
-        const { data: todayData, error: todayError } = await supabase
-          .from('bookings')
-          .select('id')
-          .eq('booking_date', today);
-
-        if (!todayError && todayData) {
-          newStats.todayBookings = todayData.length;
-        }
-      } catch (todayErr) {
-        console.error('❌ Error fetching today bookings:', todayErr);
+        const allBookings = await bookingsRepository.list();
+        newStats.totalRevenue = allBookings
+          .filter(b => b.status === 'completed')
+          .reduce((sum, booking) => sum + booking.price, 0);
+        newStats.todayBookings = allBookings.filter(b => b.bookingDate === today).length;
+        newStats.pendingBookings = allBookings.filter(b => b.status === 'pending').length;
+        newStats.confirmedBookings = allBookings.filter(b => b.status === 'confirmed').length;
+        newStats.completedBookings = allBookings.filter(b => b.status === 'completed').length;
+      } catch (bookingsErr) {
+        console.error('❌ Error fetching booking statistics:', bookingsErr);
       }
 
-      // Get staff count - simplified (remove is_active filter)
+      // Get staff count
       try {
-        const { data: staffData, error: staffError } = await supabase
-          .from('users')
-          .select('id')
-          .eq('role', 'staff');
-
-        if (!staffError && staffData) {
-          newStats.activeStaff = staffData.length;
-        }
+        const staff = await usersRepository.getByRoles(['staff']);
+        newStats.activeStaff = staff.length;
       } catch (staffErr) {
         console.error('❌ Error fetching staff count:', staffErr);
-        // Fallback: count unique staff in bookings
-        try {
-          const { data: bookingsData } = await supabase
-            .from('bookings')
-            .select('staff_id')
-            .not('staff_id', 'is', null);
-
-          if (bookingsData) {
-            const uniqueStaffIds = [...new Set(bookingsData.map(b => b.staff_id))];
-            newStats.activeStaff = uniqueStaffIds.length;
-          }
-        } catch (fallbackErr) {
-          console.error('❌ Fallback staff count failed:', fallbackErr);
-        }
-      }
-
-      // Get booking counts by status
-      try {
-        const { data: allBookings, error: allError } = await supabase
-          .from('bookings')
-          .select('status');
-
-        if (!allError && allBookings) {
-          newStats.pendingBookings = allBookings.filter(b => b.status === 'pending').length;
-          newStats.confirmedBookings = allBookings.filter(b => b.status === 'confirmed').length;
-          newStats.completedBookings = allBookings.filter(b => b.status === 'completed').length;
-        }
-      } catch (statusErr) {
-        console.error('❌ Error fetching booking status counts:', statusErr);
       }
 
       console.log('✅ Stats calculated:', newStats);
@@ -265,17 +149,17 @@ const AdminDashboard: React.FC = () => {
     { 
       header: 'Service', 
       key: 'serviceName',
-      render: (item: BookingWithRelations) => item.service_name
+      render: (item: Booking) => item.serviceName
     },
     { 
       header: 'Customer', 
       key: 'customerName',
-      render: (item: BookingWithRelations) => (
+      render: (item: Booking) => (
         <div>
-          <div style={{ fontWeight: '500' }}>{item.customer_name}</div>
-          {item.customer_email && (
+          <div style={{ fontWeight: '500' }}>{item.customerName}</div>
+          {item.customerEmail && (
             <div style={{ fontSize: '0.875rem', color: '#666' }}>
-              ✉️ {item.customer_email}
+              ✉️ {item.customerEmail}
             </div>
           )}
         </div>
@@ -284,37 +168,31 @@ const AdminDashboard: React.FC = () => {
     { 
       header: 'Staff', 
       key: 'staffName',
-      render: (item: BookingWithRelations) => item.staff_name || 'Unassigned'
+      render: (item: Booking) => item.staffName || 'Unassigned'
     },
     { 
       header: 'Date & Time', 
       key: 'datetime',
-      render: (item: BookingWithRelations) => formatDateTime(item.booking_date, item.booking_time)
+      render: (item: Booking) => formatDateTime(item.bookingDate, item.bookingTime)
     },
     { 
       header: 'Price', 
       key: 'price',
-      render: (item: BookingWithRelations) => formatCurrency(item.price)
+      render: (item: Booking) => formatCurrency(item.price)
     },
     { 
       header: 'Status', 
       key: 'status',
-      render: (item: BookingWithRelations) => (
+      render: (item: Booking) => (
         <span style={{ 
           padding: '4px 8px', 
           borderRadius: '12px', 
           fontSize: '12px',
           fontWeight: 'bold',
-          backgroundColor: 
-            item.status === 'confirmed' ? '#e8f5e8' :
-            item.status === 'completed' ? '#e3f2fd' :
-            item.status === 'cancelled' ? '#ffebee' : '#fff3e0',
-          color: 
-            item.status === 'confirmed' ? '#2e7d32' :
-            item.status === 'completed' ? '#1565c0' :
-            item.status === 'cancelled' ? '#c62828' : '#f57c00'
+          backgroundColor: STATUS_COLORS[item.status].background,
+          color: STATUS_COLORS[item.status].color
         }}>
-          {item.status.charAt(0).toUpperCase() + item.status.slice(1)}
+          {STATUS_LABELS[item.status]}
         </span>
       )
     },
@@ -485,6 +363,39 @@ const AdminDashboard: React.FC = () => {
           </div>
         </div>
 
+        {/* Low-Stock Alerts */}
+        {lowStockItems.length > 0 && (
+          <div style={{
+            padding: 'var(--spacing-md)',
+            backgroundColor: '#fff3e0',
+            borderRadius: 'var(--border-radius)',
+            border: '1px solid #ffb74d',
+            marginBottom: 'var(--spacing-xl)'
+          }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '12px', flexWrap: 'wrap' }}>
+              <h4 style={{ margin: 0, color: '#e65100' }}>
+                ⚠️ {lowStockItems.length} product{lowStockItems.length === 1 ? '' : 's'} running low
+              </h4>
+              <div style={{ display: 'flex', gap: '8px' }}>
+                <Link to="/admin/inventory">
+                  <Button variant="secondary" size="small">View Inventory</Button>
+                </Link>
+                <Link to="/admin/purchase-orders">
+                  <Button variant="primary" size="small">Order Stock</Button>
+                </Link>
+              </div>
+            </div>
+            <ul style={{ margin: '8px 0 0 0', paddingLeft: '20px', fontSize: '0.875rem', color: '#555' }}>
+              {lowStockItems.map(item => (
+                <li key={item.id}>
+                  <strong>{item.name}</strong>: {item.stock} {item.unit} left (reorder at {item.reorderPoint})
+                  {item.supplierName ? ` · ${item.supplierName}` : ''}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Quick Actions */}
         <div style={{ 
           display: 'grid', 
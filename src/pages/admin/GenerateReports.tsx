@@ -1,189 +1,103 @@
 // src/pages/admin/GenerateReports.tsx
 import React, { useState } from 'react';
 import DashboardHeader from '@components/dashboard/DashboardHeader';
+import CommissionRulesEditor from '@components/dashboard/CommissionRulesEditor';
 import Button from '@components/common/Button';
 import { formatCurrency } from '@utils/helpers';
-import { supabase } from '../../supabaseClient';
-
-interface ReportData {
-  totalRevenue: number;
-  bookingsCompleted: number;
-  customersServed: number;
-  popularService: { name: string; count: number };
-  revenueByService: { service: string; revenue: number }[];
-  dateRange: string;
-}
+import { PAYMENT_METHOD_LABELS } from '@utils/payments';
+import {
+  COMPARISON_LABELS,
+  ComparisonMode,
+  MetricDelta,
+  REPORT_PRESET_LABELS,
+  ReportComparison,
+  ReportData,
+  ReportPreset,
+  ReportRange,
+  buildComparison,
+  buildReport,
+  formatDelta,
+  formatReportRange,
+  getPresetRange
+} from '@utils/reports';
+import { StaffPerformance, buildStaffPerformanceReport, formatPercent } from '@utils/staffPerformance';
+import {
+  ExportDocument,
+  ExportFormat,
+  ExportTable,
+  ExportValue,
+  buildBookingsTable,
+  exportToPdf,
+  exportToXlsx
+} from '@utils/reportExport';
+
+type ReportType = 'business' | 'staff';
+
+// Formats minutes as hours for the utilization column, e.g. "37.5h"
+const formatHours = (minutes: number): string => `${(minutes / 60).toFixed(1)}h`;
+
+// Plain numbers for CSV cells, so payroll and spreadsheets can add them up
+const toAmount = (value: number): string => value.toFixed(2);
+const toPercentValue = (value: number): string => (value * 100).toFixed(1);
+
+// Quotes every cell and downloads the rows as a CSV file
+const downloadCSV = (rows: string[][], filename: string) => {
+  const csvContent = rows
+    .map(row => row.map(cell => `"${cell.replace(/"/g, '""')}"`).join(','))
+    .join('\n');
+
+  const blob = new Blob([csvContent], { type: 'text/csv' });
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  window.URL.revokeObjectURL(url);
+};
 
 const GenerateReports: React.FC = () => {
-  const [reportType, setReportType] = useState<'daily' | 'monthly' | 'yearly'>('monthly');
+  const [reportType, setReportType] = useState<ReportType>('business');
+  const [preset, setPreset] = useState<ReportPreset>('this_month');
+  const [customFrom, setCustomFrom] = useState<string>(() => getPresetRange('this_month').from);
+  const [customTo, setCustomTo] = useState<string>(() => getPresetRange('this_month').to);
+  const [comparisonMode, setComparisonMode] = useState<ComparisonMode>('previous_period');
   const [reportData, setReportData] = useState<ReportData | null>(null);
+  const [comparison, setComparison] = useState<ReportComparison | null>(null);
+  const [staffReport, setStaffReport] = useState<StaffPerformance[] | null>(null);
+  const [staffReportRange, setStaffReportRange] = useState<ReportRange | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const getDateRange = (type: 'daily' | 'monthly' | 'yearly') => {
-    const now = new Date();
-    let startDate: Date;
-    let endDate: Date = now;
-
-    switch (type) {
-      case 'daily':
-        startDate = new Date(now);
-        startDate.setHours(0, 0, 0, 0);
-        break;
-      case 'monthly':
-        startDate = new Date(now.getFullYear(), now.getMonth(), 1);
-        break;
-      case 'yearly':
-        startDate = new Date(now.getFullYear(), 0, 1);
-        break;
-      default:
-        startDate = new Date(now.getFullYear(), now.getMonth(), 1);
-    }
-
-    return { startDate, endDate };
-  };
-
-  const formatDateRange = (startDate: Date, endDate: Date, type: 'daily' | 'monthly' | 'yearly') => {
-    switch (type) {
-      case 'daily':
-        return startDate.toLocaleDateString();
-      case 'monthly':
-        return `${startDate.toLocaleDateString('default', { month: 'long', year: 'numeric' })}`;
-      case 'yearly':
-        return startDate.getFullYear().toString();
-      default:
-        return '';
-    }
-  };
-
   const handleGenerateReport = async () => {
     setLoading(true);
     setError(null);
     setReportData(null);
+    setComparison(null);
+    setStaffReport(null);
 
     try {
-      const { startDate, endDate } = getDateRange(reportType);
-      const dateRange = formatDateRange(startDate, endDate, reportType);
-
-      console.log('Fetching report data for:', { reportType, startDate, endDate });
-
-      // Fetch bookings data
-      const { data: bookingsData, error: bookingsError } = await supabase
-        .from('bookings')
-        .select('*')
-        .gte('created_at', startDate.toISOString())
-        .lte('created_at', endDate.toISOString())
-        .eq('status', 'completed');
-
-      if (bookingsError) {
-        console.error('Bookings fetch error:', bookingsError);
-        throw new Error(`Failed to fetch bookings: ${bookingsError.message}`);
-      }
-
-      console.log('Bookings data:', bookingsData);
-
-      if (!bookingsData || bookingsData.length === 0) {
-        setReportData({
-          totalRevenue: 0,
-          bookingsCompleted: 0,
-          customersServed: 0,
-          popularService: { name: 'No data', count: 0 },
-          revenueByService: [],
-          dateRange
-        });
-        return;
+      const range = preset === 'custom' ? { from: customFrom, to: customTo } : getPresetRange(preset);
+      if (!range.from || !range.to) {
+        throw new Error('Please choose a start and end date.');
       }
 
-      // Get service IDs from bookings
-      const serviceIds = [...new Set(bookingsData.map(booking => booking.service_id).filter(Boolean))];
-      console.log('Service IDs:', serviceIds);
-
-      // Fetch services data with correct column names
-      let servicesData: any[] = [];
-      if (serviceIds.length > 0) {
-        const { data: services, error: servicesError } = await supabase
-          .from('services')
-          .select('id, service_name, price') // Use service_name instead of name
-          .in('id', serviceIds);
-
-        if (servicesError) {
-          console.error('Services fetch error:', servicesError);
-          // Continue without services data - we'll use fallbacks
-        } else {
-          servicesData = services || [];
-        }
-      }
-
-      console.log('Services data:', servicesData);
-
-      // Create a map for quick service lookup
-      const servicesMap = new Map(servicesData.map(service => [service.id, service]));
-
-      // Calculate metrics
-      const totalRevenue = bookingsData.reduce((sum, booking) => {
-        const service = servicesMap.get(booking.service_id);
-        // Use service price, or total_amount from booking, or fallback to 0
-        const servicePrice = service?.price || booking.total_amount || booking.amount || 0;
-        return sum + servicePrice;
-      }, 0);
-
-      const bookingsCompleted = bookingsData.length;
-      
-      // Count unique customers (handle both customer_id and user_id)
-      const customerIds = bookingsData.map(booking => 
-        booking.customer_id || booking.user_id
-      ).filter(Boolean);
-      const uniqueCustomers = new Set(customerIds);
-      const customersServed = uniqueCustomers.size;
-
-      // Calculate revenue by service and find popular service
-      const serviceRevenue: { [key: string]: number } = {};
-      const serviceCount: { [key: string]: number } = {};
-
-      bookingsData.forEach(booking => {
-        const service = servicesMap.get(booking.service_id);
-        // Use service_name if available, otherwise create a generic name
-        const serviceName = service?.service_name || 
-                           service?.name || 
-                           `Service #${booking.service_id}` || 
-                           'Unknown Service';
-        
-        const servicePrice = service?.price || booking.total_amount || booking.amount || 0;
-
-        serviceRevenue[serviceName] = (serviceRevenue[serviceName] || 0) + servicePrice;
-        serviceCount[serviceName] = (serviceCount[serviceName] || 0) + 1;
-      });
+      console.log('Fetching report data for:', { reportType, preset, range, comparisonMode });
 
-      const revenueByService = Object.entries(serviceRevenue).map(([service, revenue]) => ({
-        service,
-        revenue
-      })).sort((a, b) => b.revenue - a.revenue);
-
-      // Find most popular service
-      let popularService = { name: 'No data', count: 0 };
-      if (Object.keys(serviceCount).length > 0) {
-        const [mostPopularName, mostPopularCount] = Object.entries(serviceCount)
-          .reduce((max, [name, count]) => count > max[1] ? [name, count] : max, ['', 0]);
-        popularService = { name: mostPopularName, count: mostPopularCount };
+      if (reportType === 'staff') {
+        const performance = await buildStaffPerformanceReport(range);
+        console.log('Staff performance:', performance);
+        setStaffReport(performance);
+        setStaffReportRange(range);
+        return;
       }
 
-      console.log('Calculated metrics:', {
-        totalRevenue,
-        bookingsCompleted,
-        customersServed,
-        popularService,
-        revenueByService
-      });
+      const report = await buildReport(range);
+      const reportComparison = comparisonMode === 'none' ? null : await buildComparison(report, comparisonMode);
 
-      setReportData({
-        totalRevenue,
-        bookingsCompleted,
-        customersServed,
-        popularService,
-        revenueByService,
-        dateRange
-      });
+      console.log('Calculated metrics:', report, reportComparison);
 
+      setReportData(report);
+      setComparison(reportComparison);
     } catch (err: any) {
       console.error('Report generation error:', err);
       setError(err.message || 'Failed to generate report. Please check your database configuration.');
@@ -197,30 +111,265 @@ const GenerateReports: React.FC = () => {
 
     const headers = ['Metric', 'Value'];
     const data = [
-      ['Total Revenue', formatCurrency(reportData.totalRevenue)],
+      ['Total Revenue', toAmount(reportData.totalRevenue)],
+      ['Service Revenue', toAmount(reportData.serviceRevenue)],
+      ['Retail Revenue', toAmount(reportData.retailRevenue)],
+      ['Refunds Issued', toAmount(reportData.refundsIssued)],
+      ['Prepaid Sessions Used', toAmount(reportData.packageRedeemed)],
+      ['Packages Sold (Deferred)', toAmount(reportData.packageSales)],
+      ['Deferred Package Balance', toAmount(reportData.deferredPackageRevenue)],
       ['Bookings Completed', reportData.bookingsCompleted.toString()],
       ['Customers Served', reportData.customersServed.toString()],
       ['Most Popular Service', `${reportData.popularService.name} (${reportData.popularService.count} bookings)`],
       ['', ''],
       ['Revenue by Service', ''],
-      ...reportData.revenueByService.map(item => [item.service, formatCurrency(item.revenue)]),
+      ...reportData.revenueByService.map(item => [item.service, toAmount(item.revenue)]),
       ['', ''],
-      ['Report Period', reportType.charAt(0).toUpperCase() + reportType.slice(1)],
-      ['Date Range', reportData.dateRange],
+      ['Revenue by Payment Method', ''],
+      ...reportData.revenueByMethod.map(item => [PAYMENT_METHOD_LABELS[item.method], toAmount(item.revenue)]),
+      ...(comparison ? [
+        ['', ''],
+        [`Compared with ${formatReportRange(comparison.previous.range)}`, ''],
+        ['Previous Revenue', toAmount(comparison.previous.totalRevenue)],
+        ['Revenue Change', toAmount(comparison.totalRevenue.change)],
+        ['Previous Bookings Completed', comparison.previous.bookingsCompleted.toString()],
+        ['Bookings Completed Change', comparison.bookingsCompleted.change.toString()],
+        ['Previous Customers Served', comparison.previous.customersServed.toString()],
+        ['Customers Served Change', comparison.customersServed.change.toString()],
+      ] : []),
+      ['', ''],
+      ['Report Period', REPORT_PRESET_LABELS[preset]],
+      ['From', reportData.range.from],
+      ['To', reportData.range.to],
       ['Date Generated', new Date().toLocaleDateString()]
     ];
 
-    const csvContent = [headers, ...data]
-      .map(row => row.map(cell => `"${cell}"`).join(','))
-      .join('\n');
-
-    const blob = new Blob([csvContent], { type: 'text/csv' });
-    const url = window.URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `spa-report-${reportType}-${new Date().toISOString().split('T')[0]}.csv`;
-    a.click();
-    window.URL.revokeObjectURL(url);
+    downloadCSV([headers, ...data], `spa-report-${reportData.range.from}-to-${reportData.range.to}.csv`);
+  };
+
+  const handleExportStaffCSV = () => {
+    if (!staffReport || !staffReportRange) return;
+
+    const headers = [
+      'Staff Member', 'Bookings', 'Completed', 'Revenue', 'Average Ticket', 'Cancellations', 'Cancellation Rate (%)',
+      'No-shows', 'No-show Rate (%)', 'Booked Hours', 'Available Hours', 'Utilization (%)', 'Commission'
+    ];
+    const data = staffReport.map(row => [
+      row.staffName,
+      row.totalBookings.toString(),
+      row.bookingsCompleted.toString(),
+      toAmount(row.revenue),
+      toAmount(row.averageTicket),
+      row.cancellations.toString(),
+      toPercentValue(row.cancellationRate),
+      row.noShows.toString(),
+      toPercentValue(row.noShowRate),
+      (row.bookedMinutes / 60).toFixed(1),
+      (row.availableMinutes / 60).toFixed(1),
+      toPercentValue(row.utilization),
+      toAmount(row.commission)
+    ]);
+    const totalCommission = staffReport.reduce((sum, row) => sum + row.commission, 0);
+
+    downloadCSV(
+      [
+        headers,
+        ...data,
+        [],
+        ['Total Commission', toAmount(totalCommission)],
+        ['From', staffReportRange.from],
+        ['To', staffReportRange.to],
+        ['Date Generated', new Date().toLocaleDateString()]
+      ],
+      `staff-performance-${staffReportRange.from}-to-${staffReportRange.to}.csv`
+    );
+  };
+
+  // The business report: a summary, revenue breakdowns and every booking line
+  const buildBusinessExport = (report: ReportData): ExportDocument => {
+    const summaryRows: ExportValue[][] = [
+      ['Total Revenue', { value: report.totalRevenue, format: 'currency' }],
+      ['Service Revenue', { value: report.serviceRevenue, format: 'currency' }],
+      ['Retail Revenue', { value: report.retailRevenue, format: 'currency' }],
+      ['Refunds Issued', { value: report.refundsIssued, format: 'currency' }],
+      ['Prepaid Sessions Used', { value: report.packageRedeemed, format: 'currency' }],
+      ['Packages Sold (Deferred)', { value: report.packageSales, format: 'currency' }],
+      ['Deferred Package Balance', { value: report.deferredPackageRevenue, format: 'currency' }],
+      ['Bookings Completed', report.bookingsCompleted],
+      ['Customers Served', report.customersServed],
+      ['Most Popular Service', `${report.popularService.name} (${report.popularService.count} bookings)`],
+      ['Report Period', REPORT_PRESET_LABELS[preset]],
+      ['From', { value: report.range.from, format: 'date' }],
+      ['To', { value: report.range.to, format: 'date' }],
+    ];
+
+    const tables: ExportTable[] = [
+      { name: 'Summary', columns: [{ header: 'Metric', width: 24 }, { header: 'Value', width: 36 }], rows: summaryRows },
+    ];
+
+    if (comparison) {
+      const comparisonRow = (label: string, delta: MetricDelta, format: ExportFormat): ExportValue[] => [
+        label,
+        { value: delta.current, format },
+        { value: delta.previous, format },
+        { value: delta.change, format },
+        delta.percent === null ? null : delta.percent / 100,
+      ];
+      tables.push({
+        name: 'Comparison',
+        columns: [
+          { header: 'Metric', width: 22 },
+          { header: formatReportRange(report.range), width: 26 },
+          { header: formatReportRange(comparison.previous.range), width: 26 },
+          { header: 'Change', width: 14 },
+          { header: 'Change %', format: 'percent', width: 12 },
+        ],
+        rows: [
+          comparisonRow('Revenue', comparison.totalRevenue, 'currency'),
+          comparisonRow('Bookings Completed', comparison.bookingsCompleted, 'number'),
+          comparisonRow('Customers Served', comparison.customersServed, 'number'),
+        ],
+      });
+    }
+
+    tables.push(
+      {
+        name: 'Revenue by Service',
+        columns: [{ header: 'Service', width: 28 }, { header: 'Revenue', format: 'currency', width: 16 }],
+        rows: [
+          ...report.revenueByService.map((item): ExportValue[] => [item.service, item.revenue]),
+          ['Retail Products', report.retailRevenue],
+        ],
+        totals: ['Total', report.totalRevenue],
+      },
+      {
+        name: 'Retail Sales by Product',
+        columns: [
+          { header: 'Product', width: 28 },
+          { header: 'Quantity Sold', format: 'number', width: 14 },
+          { header: 'Revenue', format: 'currency', width: 16 },
+        ],
+        rows: report.revenueByProduct.map(item => [item.product, item.quantity, item.revenue]),
+        totals: ['Total', report.revenueByProduct.reduce((sum, item) => sum + item.quantity, 0), report.retailRevenue],
+      },
+      {
+        name: 'Prepaid Packages',
+        columns: [
+          { header: 'Item', width: 32 },
+          { header: 'Treatment', width: 14 },
+          { header: 'Amount', format: 'currency', width: 16 },
+        ],
+        rows: [
+          [`Packages sold (${report.packageSalesCount})`, 'Deferred', report.packageSales],
+          ['Sessions used for appointments', 'Recognized', report.packageRedeemed],
+          ['Expired unused', 'Recognized', report.packageExpired],
+          ['Unused balance at period end', 'Deferred', report.deferredPackageRevenue],
+        ],
+      },
+      {
+        name: 'Revenue by Payment Method',
+        columns: [{ header: 'Payment Method', width: 24 }, { header: 'Revenue', format: 'currency', width: 16 }],
+        rows: report.revenueByMethod.map(item => [PAYMENT_METHOD_LABELS[item.method], item.revenue]),
+        totals: ['Total', report.totalRevenue],
+      },
+      buildBookingsTable('Bookings', report.bookings, report.collectedByBooking)
+    );
+
+    return {
+      title: preset === 'custom' ? 'Performance Report' : `${REPORT_PRESET_LABELS[preset]} Performance Report`,
+      subtitle: formatReportRange(report.range),
+      filename: `spa-report-${report.range.from}-to-${report.range.to}`,
+      tables,
+    };
+  };
+
+  const buildStaffExport = (performance: StaffPerformance[], range: ReportRange): ExportDocument => ({
+    title: 'Staff Performance & Commission',
+    subtitle: formatReportRange(range),
+    filename: `staff-performance-${range.from}-to-${range.to}`,
+    tables: [{
+      name: 'Staff Performance',
+      columns: [
+        { header: 'Staff Member', width: 22 },
+        { header: 'Bookings', format: 'number' },
+        { header: 'Completed', format: 'number' },
+        { header: 'Revenue', format: 'currency', width: 14 },
+        { header: 'Average Ticket', format: 'currency', width: 16 },
+        { header: 'Cancellations', format: 'number' },
+        { header: 'Cancellation Rate', format: 'percent', width: 18 },
+        { header: 'No-shows', format: 'number' },
+        { header: 'No-show Rate', format: 'percent', width: 14 },
+        { header: 'Booked Hours', format: 'number', width: 14 },
+        { header: 'Available Hours', format: 'number', width: 16 },
+        { header: 'Utilization', format: 'percent', width: 12 },
+        { header: 'Commission', format: 'currency', width: 14 },
+      ],
+      rows: performance.map(row => [
+        row.staffName,
+        row.totalBookings,
+        row.bookingsCompleted,
+        row.revenue,
+        row.averageTicket,
+        row.cancellations,
+        row.cancellationRate,
+        row.noShows,
+        row.noShowRate,
+        Math.round(row.bookedMinutes / 6) / 10,
+        Math.round(row.availableMinutes / 6) / 10,
+        row.utilization,
+        row.commission,
+      ]),
+      totals: [
+        'Total',
+        performance.reduce((sum, row) => sum + row.totalBookings, 0),
+        performance.reduce((sum, row) => sum + row.bookingsCompleted, 0),
+        performance.reduce((sum, row) => sum + row.revenue, 0),
+        null,
+        performance.reduce((sum, row) => sum + row.cancellations, 0),
+        null,
+        performance.reduce((sum, row) => sum + row.noShows, 0),
+        null,
+        null,
+        null,
+        null,
+        performance.reduce((sum, row) => sum + row.commission, 0),
+      ],
+    }],
+  });
+
+  const handleExport = (format: 'xlsx' | 'pdf') => {
+    const doc = reportType === 'staff'
+      ? staffReport && staffReportRange && buildStaffExport(staffReport, staffReportRange)
+      : reportData && buildBusinessExport(reportData);
+    if (!doc) return;
+
+    try {
+      if (format === 'xlsx') {
+        exportToXlsx(doc);
+      } else {
+        exportToPdf(doc);
+      }
+    } catch (err: any) {
+      console.error('Report export error:', err);
+      setError(err.message || 'Failed to export the report.');
+    }
+  };
+
+  // Shows how a figure moved against the comparison period, green when it went up
+  const renderDelta = (delta: MetricDelta | undefined, formatValue?: (value: number) => string) => {
+    if (!delta || !comparison) return null;
+    return (
+      <p style={{
+        fontSize: '0.9rem',
+        margin: 'var(--spacing-xs) 0 0 0',
+        color: delta.change > 0 ? '#2e7d32' : delta.change < 0 ? '#c62828' : 'var(--color-text-light)'
+      }}>
+        {formatDelta(delta, formatValue)}
+        <span style={{ color: 'var(--color-text-light)' }}>
+          {' '}vs {formatValue ? formatValue(delta.previous) : delta.previous}
+        </span>
+      </p>
+    );
   };
 
   return (
@@ -246,7 +395,8 @@ const GenerateReports: React.FC = () => {
           <ul style={{ margin: 'var(--spacing-xs) 0', paddingLeft: 'var(--spacing-lg)' }}>
             <li>Completed bookings in the 'bookings' table</li>
             <li>Service information in the 'services' table</li>
-            <li>Proper status fields and pricing data</li>
+            <li>Recorded deposits, payments and refunds in the 'payments' table</li>
+            <li>Prepaid packages customers bought in the 'session_cards' table</li>
           </ul>
         </div>
 
@@ -257,11 +407,26 @@ const GenerateReports: React.FC = () => {
           alignItems: 'center',
           flexWrap: 'wrap'
         }}>
-          <label htmlFor="report-type" style={{ fontFamily: 'var(--font-family-sans-serif)', fontWeight: 500 }}>Report Period:</label>
+          <label htmlFor="report-type" style={{ fontFamily: 'var(--font-family-sans-serif)', fontWeight: 500 }}>Report:</label>
           <select
             id="report-type"
             value={reportType}
-            onChange={(e) => setReportType(e.target.value as 'daily' | 'monthly' | 'yearly')}
+            onChange={(e) => setReportType(e.target.value as ReportType)}
+            style={{ 
+              padding: 'var(--spacing-xs)', 
+              border: '1px solid var(--color-border)', 
+              borderRadius: 'var(--border-radius-sm)', 
+              minWidth: '150px' 
+            }}
+          >
+            <option value="business">Business Performance</option>
+            <option value="staff">Staff Performance &amp; Commission</option>
+          </select>
+          <label htmlFor="report-period" style={{ fontFamily: 'var(--font-family-sans-serif)', fontWeight: 500 }}>Report Period:</label>
+          <select
+            id="report-period"
+            value={preset}
+            onChange={(e) => setPreset(e.target.value as ReportPreset)}
             style={{ 
               padding: 'var(--spacing-xs)', 
               border: '1px solid var(--color-border)', 
@@ -269,17 +434,76 @@ const GenerateReports: React.FC = () => {
               minWidth: '150px' 
             }}
           >
-            <option value="daily">Daily</option>
-            <option value="monthly">Monthly</option>
-            <option value="yearly">Yearly</option>
+            {(Object.keys(REPORT_PRESET_LABELS) as ReportPreset[]).map(option => (
+              <option key={option} value={option}>{REPORT_PRESET_LABELS[option]}</option>
+            ))}
           </select>
+          {preset === 'custom' && (
+            <>
+              <input
+                type="date"
+                aria-label="Start date"
+                value={customFrom}
+                max={customTo || undefined}
+                onChange={(e) => setCustomFrom(e.target.value)}
+                style={{ 
+                  padding: 'var(--spacing-xs)', 
+                  border: '1px solid var(--color-border)', 
+                  borderRadius: 'var(--border-radius-sm)', 
+                  minWidth: '140px' 
+                }}
+              />
+              <span>to</span>
+              <input
+                type="date"
+                aria-label="End date"
+                value={customTo}
+                min={customFrom || undefined}
+                onChange={(e) => setCustomTo(e.target.value)}
+                style={{ 
+                  padding: 'var(--spacing-xs)', 
+                  border: '1px solid var(--color-border)', 
+                  borderRadius: 'var(--border-radius-sm)', 
+                  minWidth: '140px' 
+                }}
+              />
+            </>
+          )}
+          {reportType === 'business' && (
+            <>
+              <label htmlFor="report-comparison" style={{ fontFamily: 'var(--font-family-sans-serif)', fontWeight: 500 }}>Compare With:</label>
+              <select
+                id="report-comparison"
+                value={comparisonMode}
+                onChange={(e) => setComparisonMode(e.target.value as ComparisonMode)}
+                style={{ 
+                  padding: 'var(--spacing-xs)', 
+                  border: '1px solid var(--color-border)', 
+                  borderRadius: 'var(--border-radius-sm)', 
+                  minWidth: '150px' 
+                }}
+              >
+                {(Object.keys(COMPARISON_LABELS) as ComparisonMode[]).map(option => (
+                  <option key={option} value={option}>{COMPARISON_LABELS[option]}</option>
+                ))}
+              </select>
+            </>
+          )}
           <Button variant="primary" onClick={handleGenerateReport} disabled={loading}>
             {loading ? 'Generating...' : 'Generate Report'}
           </Button>
-          {reportData && (
-            <Button variant="secondary" onClick={handleExportCSV}>
-              Export CSV
-            </Button>
+          {(reportType === 'business' ? reportData : staffReport) && (
+            <>
+              <Button variant="secondary" onClick={reportType === 'staff' ? handleExportStaffCSV : handleExportCSV}>
+                Export CSV
+              </Button>
+              <Button variant="secondary" onClick={() => handleExport('xlsx')}>
+                Export Excel
+              </Button>
+              <Button variant="secondary" onClick={() => handleExport('pdf')}>
+                Export PDF
+              </Button>
+            </>
           )}
         </div>
 
@@ -289,7 +513,88 @@ const GenerateReports: React.FC = () => {
           </div>
         )}
 
-        {reportData && (
+        {reportType === 'staff' && staffReport && staffReportRange && (
+          <div style={{ 
+            backgroundColor: 'var(--color-background)', 
+            padding: 'var(--spacing-lg)', 
+            borderRadius: 'var(--border-radius-md)', 
+            boxShadow: '0 2px 10px rgba(0,0,0,0.03)',
+            border: '1px solid var(--color-border)'
+          }}>
+            <div style={{ 
+              display: 'flex', 
+              justifyContent: 'space-between', 
+              alignItems: 'center', 
+              marginBottom: 'var(--spacing-lg)' 
+            }}>
+              <h3 style={{ 
+                fontFamily: 'var(--font-family-serif)', 
+                fontSize: '2rem', 
+                margin: 0 
+              }}>
+                Staff Performance &amp; Commission
+              </h3>
+              <span style={{ 
+                color: 'var(--color-text-light)', 
+                fontSize: '0.9rem' 
+              }}>
+                {formatReportRange(staffReportRange)}
+              </span>
+            </div>
+
+            <CommissionRulesEditor
+              staffOptions={staffReport.map(row => ({ id: row.staffId, name: row.staffName }))}
+              onChange={handleGenerateReport}
+            />
+
+            {staffReport.length === 0 ? (
+              <p style={{ textAlign: 'center', color: '#666', padding: '40px' }}>No staff members found.</p>
+            ) : (
+              <div style={{ overflowX: 'auto' }}>
+                <table className="data-table">
+                  <thead>
+                    <tr>
+                      <th>Staff Member</th>
+                      <th>Completed</th>
+                      <th>Revenue</th>
+                      <th>Avg. Ticket</th>
+                      <th>Cancellations</th>
+                      <th>No-shows</th>
+                      <th>Utilization</th>
+                      <th>Commission</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {staffReport.map(row => (
+                      <tr key={row.staffId}>
+                        <td>{row.staffName}</td>
+                        <td>{row.bookingsCompleted} of {row.totalBookings}</td>
+                        <td>{formatCurrency(row.revenue)}</td>
+                        <td>{formatCurrency(row.averageTicket)}</td>
+                        <td>{row.cancellations} ({formatPercent(row.cancellationRate)})</td>
+                        <td>{row.noShows} ({formatPercent(row.noShowRate)})</td>
+                        <td title={`${formatHours(row.bookedMinutes)} booked of ${formatHours(row.availableMinutes)} available`}>
+                          {formatPercent(row.utilization)}
+                          <span style={{ display: 'block', fontSize: '12px', color: '#666' }}>
+                            {formatHours(row.bookedMinutes)} / {formatHours(row.availableMinutes)}
+                          </span>
+                        </td>
+                        <td><strong>{formatCurrency(row.commission)}</strong></td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            <p style={{ fontSize: '0.9rem', color: 'var(--color-text-light)', marginTop: 'var(--spacing-md)' }}>
+              Revenue and commission count what was collected on completed bookings. Rates are out of all bookings in the period.
+              Utilization compares booked time (including no-shows) with working hours, after breaks, leave and holidays.
+            </p>
+          </div>
+        )}
+
+        {reportType === 'business' && reportData && (
           <div style={{ 
             backgroundColor: 'var(--color-background)', 
             padding: 'var(--spacing-lg)', 
@@ -308,13 +613,19 @@ const GenerateReports: React.FC = () => {
                 fontSize: '2rem', 
                 margin: 0 
               }}>
-                {reportType.charAt(0).toUpperCase() + reportType.slice(1)} Performance Report
+                {preset === 'custom' ? 'Performance Report' : `${REPORT_PRESET_LABELS[preset]} Performance Report`}
               </h3>
               <span style={{ 
                 color: 'var(--color-text-light)', 
                 fontSize: '0.9rem' 
               }}>
-                {reportData.dateRange}
+                {formatReportRange(reportData.range)}
+                {comparison && (
+                  <>
+                    <br />
+                    Compared with {formatReportRange(comparison.previous.range)}
+                  </>
+                )}
               </span>
             </div>
 
@@ -336,6 +647,17 @@ const GenerateReports: React.FC = () => {
                 <p style={{ fontSize: '2.5rem', fontFamily: 'var(--font-family-serif)', color: 'var(--color-accent)', margin: 0 }}>
                   {formatCurrency(reportData.totalRevenue)}
                 </p>
+                {renderDelta(comparison?.totalRevenue, formatCurrency)}
+                {reportData.refundsIssued > 0 && (
+                  <p style={{ fontSize: '0.9rem', color: 'var(--color-text-light)', margin: 'var(--spacing-xs) 0 0 0' }}>
+                    after {formatCurrency(reportData.refundsIssued)} in refunds
+                  </p>
+                )}
+                {reportData.retailRevenue !== 0 && (
+                  <p style={{ fontSize: '0.9rem', color: 'var(--color-text-light)', margin: 'var(--spacing-xs) 0 0 0' }}>
+                    {formatCurrency(reportData.serviceRevenue)} services · {formatCurrency(reportData.retailRevenue)} retail
+                  </p>
+                )}
               </div>
               <div style={{ 
                 border: '1px solid var(--color-border)', 
@@ -348,6 +670,7 @@ const GenerateReports: React.FC = () => {
                 <p style={{ fontSize: '2.5rem', fontFamily: 'var(--font-family-serif)', color: 'var(--color-primary-dark)', margin: 0 }}>
                   {reportData.bookingsCompleted}
                 </p>
+                {renderDelta(comparison?.bookingsCompleted)}
               </div>
               <div style={{ 
                 border: '1px solid var(--color-border)', 
@@ -360,11 +683,12 @@ const GenerateReports: React.FC = () => {
                 <p style={{ fontSize: '2.5rem', fontFamily: 'var(--font-family-serif)', color: 'var(--color-primary-dark)', margin: 0 }}>
                   {reportData.customersServed}
                 </p>
+                {renderDelta(comparison?.customersServed)}
               </div>
             </div>
 
             {/* Revenue by Service */}
-            {reportData.revenueByService.length > 0 && (
+            {(reportData.revenueByService.length > 0 || reportData.retailSalesCount > 0) && (
               <>
                 <h4 style={{ 
                   fontFamily: 'var(--font-family-serif)', 
@@ -395,7 +719,116 @@ const GenerateReports: React.FC = () => {
                       </span>
                     </li>
                   ))}
+                  {reportData.retailSalesCount > 0 && (
+                    <li style={{ 
+                      display: 'flex', 
+                      justifyContent: 'space-between', 
+                      padding: 'var(--spacing-sm) 0', 
+                      borderBottom: '1px dashed var(--color-border)',
+                      alignItems: 'center'
+                    }}>
+                      <span style={{ flex: 1 }}>
+                        🛍️ Retail Products
+                        <span style={{ color: 'var(--color-text-light)', fontSize: '0.9rem' }}>
+                          {' '}({reportData.retailSalesCount} {reportData.retailSalesCount === 1 ? 'sale' : 'sales'}
+                          {reportData.revenueByProduct.length > 0 && `: ${reportData.revenueByProduct.map(item => `${item.product} × ${item.quantity}`).join(', ')}`})
+                        </span>
+                      </span>
+                      <span style={{ 
+                        fontWeight: 'bold', 
+                        color: 'var(--color-accent)',
+                        minWidth: '100px',
+                        textAlign: 'right'
+                      }}>
+                        {formatCurrency(reportData.retailRevenue)}
+                      </span>
+                    </li>
+                  )}
+                </ul>
+              </>
+            )}
+
+            {/* Revenue by Payment Method */}
+            {reportData.revenueByMethod.length > 0 && (
+              <>
+                <h4 style={{ 
+                  fontFamily: 'var(--font-family-serif)', 
+                  fontSize: '1.5rem', 
+                  marginBottom: 'var(--spacing-md)',
+                  borderBottom: '2px solid var(--color-border)',
+                  paddingBottom: 'var(--spacing-xs)'
+                }}>
+                  Revenue by Payment Method
+                </h4>
+                <ul style={{ listStyle: 'none', padding: 0, marginBottom: 'var(--spacing-lg)' }}>
+                  {reportData.revenueByMethod.map(item => (
+                    <li key={item.method} style={{ 
+                      display: 'flex', 
+                      justifyContent: 'space-between', 
+                      padding: 'var(--spacing-sm) 0', 
+                      borderBottom: '1px dashed var(--color-border)',
+                      alignItems: 'center'
+                    }}>
+                      <span style={{ flex: 1 }}>{PAYMENT_METHOD_LABELS[item.method]}</span>
+                      <span style={{ 
+                        fontWeight: 'bold', 
+                        color: 'var(--color-accent)',
+                        minWidth: '100px',
+                        textAlign: 'right'
+                      }}>
+                        {formatCurrency(item.revenue)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+
+            {/* Prepaid Packages */}
+            {(reportData.packageSalesCount > 0 || reportData.packageRedeemed !== 0 ||
+              reportData.packageExpired > 0 || reportData.deferredPackageRevenue > 0) && (
+              <>
+                <h4 style={{ 
+                  fontFamily: 'var(--font-family-serif)', 
+                  fontSize: '1.5rem', 
+                  marginBottom: 'var(--spacing-md)',
+                  borderBottom: '2px solid var(--color-border)',
+                  paddingBottom: 'var(--spacing-xs)'
+                }}>
+                  Prepaid Packages
+                </h4>
+                <ul style={{ listStyle: 'none', padding: 0, marginBottom: 'var(--spacing-sm)' }}>
+                  {[
+                    { label: `Packages sold (${reportData.packageSalesCount})`, note: 'deferred', amount: reportData.packageSales },
+                    { label: 'Sessions used for appointments', note: 'recognized, in service revenue', amount: reportData.packageRedeemed },
+                    { label: 'Expired unused', note: 'recognized on expiry', amount: reportData.packageExpired },
+                    { label: 'Unused balance at period end', note: 'deferred', amount: reportData.deferredPackageRevenue },
+                  ].map(item => (
+                    <li key={item.label} style={{ 
+                      display: 'flex', 
+                      justifyContent: 'space-between', 
+                      padding: 'var(--spacing-sm) 0', 
+                      borderBottom: '1px dashed var(--color-border)',
+                      alignItems: 'center'
+                    }}>
+                      <span style={{ flex: 1 }}>
+                        {item.label}
+                        <span style={{ color: 'var(--color-text-light)', fontSize: '0.9rem' }}> ({item.note})</span>
+                      </span>
+                      <span style={{ 
+                        fontWeight: 'bold', 
+                        color: 'var(--color-accent)',
+                        minWidth: '100px',
+                        textAlign: 'right'
+                      }}>
+                        {formatCurrency(item.amount)}
+                      </span>
+                    </li>
+                  ))}
                 </ul>
+                <p style={{ fontSize: '0.9rem', color: 'var(--color-text-light)', marginBottom: 'var(--spacing-lg)' }}>
+                  Money for a package isn't revenue until its sessions are used, so package sales aren't part of Total Revenue.
+                </p>
               </>
             )}
 
@@ -428,7 +861,7 @@ const GenerateReports: React.FC = () => {
           </div>
         )}
 
-        {!reportData && !loading && (
+        {!(reportType === 'business' ? reportData : staffReport) && !loading && (
           <div style={{ 
             textAlign: 'center', 
             padding: 'var(--spacing-xl)', 
@@ -436,9 +869,9 @@ const GenerateReports: React.FC = () => {
             border: '2px dashed var(--color-border)',
             borderRadius: 'var(--border-radius-md)'
           }}>
-            <p>Select a report period and click "Generate Report" to view your business insights.</p>
+            <p>Select a report period, or choose your own dates, and click "Generate Report" to view your business insights.</p>
             <p style={{ fontSize: '0.9rem', marginTop: 'var(--spacing-sm)' }}>
-              The report will show completed bookings data from your database.
+              Reports cover appointments dated within the period. Revenue is the amount actually collected for them (deposits, payments and prepaid sessions used, less refunds).
             </p>
           </div>
         )}
@@ -1,52 +1,97 @@
 // src/pages/admin/ManageBookings.tsx
 import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
 import DashboardHeader from '@components/dashboard/DashboardHeader';
 import Table from '@components/dashboard/Table';
 import Button from '@components/common/Button';
 import Modal from '@components/common/Modal';
+import CompleteBookingModal from '@components/dashboard/CompleteBookingModal';
+import BookingCalendar from '@components/dashboard/BookingCalendar';
+import BookingPolicyEditor from '@components/dashboard/BookingPolicyEditor';
+import SeriesScopeOptions from '@components/dashboard/SeriesScopeOptions';
+import VisitCancelOption from '@components/dashboard/VisitCancelOption';
 import { useModal } from '@hooks/useModal';
-import { Booking, BookingStatus } from '@models/booking';
+import { Booking, BookingStatus, BookingStatusChange } from '@models/booking';
 import { formatCurrency, formatDate } from '@utils/helpers';
+import {
+  ACTIVE_STATUSES,
+  STATUS_COLORS,
+  STATUS_LABELS,
+  StatusChangeOptions,
+  changeBookingStatus,
+  getAllowedTransitions,
+} from '@utils/bookingStatus';
 import { User } from '@models/user';
-import { supabase } from '../../supabaseClient';
-
-// Create a complete interface that includes all Booking properties
-interface BookingWithRelations {
-  // Base Booking properties
-  id: string;
-  serviceId: string;
-  serviceName: string;
-  customerId: string;
-  customerName: string;
-  staffId?: string;
-  staffName?: string;
-  startTime: string;
-  endTime: string;
-  status: BookingStatus;
-  price: number;
-  notes?: string;
-  
-  // Additional relations
-  service_name: string;
-  service_price: number;
-  service_duration: number;
-  customer_name: string;
-  customer_email: string;
-  staff_name: string;
-  staff_email: string;
-  booking_date: string;
-  booking_time: string;
-}
+import { Payment, PaymentMethod } from '@models/payment';
+import { WaitlistEntry } from '@models/waitlist';
+import { useAuth } from '@context/AuthContext';
+import { bookingsRepository } from '@repositories/bookings';
+import { bookingHistoryRepository } from '@repositories/bookingHistory';
+import { paymentsRepository } from '@repositories/payments';
+import { usersRepository } from '@repositories/users';
+import { BLOCKING_STATUSES, checkStaffAvailability } from '@utils/availability';
+import { notifyBookingEvent, statusToNotificationType } from '@utils/notifications';
+import { PAYMENT_KIND_LABELS, PAYMENT_METHOD_LABELS, deleteUnpaidBooking, summarizePayments } from '@utils/payments';
+import { buildBookingsTable, exportToPdf, exportToXlsx } from '@utils/reportExport';
+import { BookingMove, CalendarView, formatCalendarTitle, getToday, moveBooking } from '@utils/calendar';
+import { offerCancelledBookingSlot } from '@utils/waitlist';
+import { fetchSpecializations, isQualifiedFor } from '@utils/staffSpecializations';
+import {
+  CancellationTerms,
+  describeCancellationTerms,
+  fetchBookingPolicy,
+  fetchCancellationTerms,
+  getRescheduleRestriction,
+} from '@utils/bookingPolicy';
+import {
+  SERIES_FREQUENCY_LABELS,
+  SeriesUpdateResult,
+  cancelLaterOccurrences,
+  describeSeriesUpdate,
+  getLaterOccurrences,
+  rescheduleLaterOccurrences,
+} from '@utils/bookingSeries';
+import { cancelVisit, getVisitBookings } from '@utils/bookingVisits';
+
+// Tells the admin who a cancelled booking's time was offered to
+const waitlistOfferNote = (entry: WaitlistEntry | null): string =>
+  entry ? `. The freed time was offered to ${entry.customerName || 'a customer'} from the waitlist.` : '';
+
+// Steps that failed after a change was saved, e.g. a refund, for the admin to sort out by hand
+const followUpNote = (warnings: string[]): string =>
+  warnings.length > 0 ? `. Needs attention: ${warnings.join(' ')}` : '';
 
 const ManageBookings: React.FC = () => {
-  const [bookings, setBookings] = useState<BookingWithRelations[]>([]);
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [bookings, setBookings] = useState<Booking[]>([]);
   const [staffMembers, setStaffMembers] = useState<User[]>([]);
-  const [selectedBooking, setSelectedBooking] = useState<BookingWithRelations | null>(null);
+  const [selectedBooking, setSelectedBooking] = useState<Booking | null>(null);
   const { isOpen, openModal, closeModal } = useModal();
-  const [formData, setFormData] = useState<Partial<Booking & { bookingDate: string; bookingTime: string }>>({});
+  const { isOpen: isHistoryOpen, openModal: openHistoryModal, closeModal: closeHistoryModal } = useModal();
+  const [history, setHistory] = useState<BookingStatusChange[]>([]);
+  const [historyLoading, setHistoryLoading] = useState(false);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+  const { isOpen: isPaymentsOpen, openModal: openPaymentsModal, closeModal: closePaymentsModal } = useModal();
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [paymentsLoading, setPaymentsLoading] = useState(false);
+  const [paymentsError, setPaymentsError] = useState<string | null>(null);
+  const [completingBooking, setCompletingBooking] = useState<Booking | null>(null);
+  const [editPaymentMethod, setEditPaymentMethod] = useState<PaymentMethod>('cash');
+  const [formData, setFormData] = useState<Partial<Booking>>({});
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [displayMode, setDisplayMode] = useState<'list' | 'calendar'>('list');
+  const [calendarView, setCalendarView] = useState<CalendarView>('week');
+  const [calendarDate, setCalendarDate] = useState(getToday());
+  const [showPolicy, setShowPolicy] = useState(false);
+  const [policyNotice, setPolicyNotice] = useState<string | null>(null);
+  const [policyOverride, setPolicyOverride] = useState('');
+  const [cancellingBooking, setCancellingBooking] = useState<Booking | null>(null);
+  const [cancellationTerms, setCancellationTerms] = useState<CancellationTerms | null>(null);
+  const [applyToSeries, setApplyToSeries] = useState(false); // Also change the later appointments in the booking's series
+  const [cancelWholeVisit, setCancelWholeVisit] = useState(true); // Cancel every service booked in the same visit
 
   // Fetch all bookings with related data
   const fetchBookings = async () => {
@@ -54,50 +99,11 @@ const ManageBookings: React.FC = () => {
       setLoading(true);
       setError(null);
 
-      const { data, error } = await supabase
-        .from('bookings')
-        .select(`
-          *,
-          services:service_id (service_name, price, duration),
-          customers:customer_id (first_name, last_name, email),
-          staff:staff_id (first_name, last_name, email)
-        `)
-        .order('booking_date', { ascending: false });
-
-      if (error) throw error;
-
-      // Transform the data to match our interface
-      const bookingsWithRelations: BookingWithRelations[] = (data || []).map(booking => ({
-        // Base Booking properties
-        id: booking.id,
-        serviceId: booking.service_id,
-        serviceName: booking.services?.service_name || 'Unknown Service',
-        customerId: booking.customer_id,
-        customerName: `${booking.customers?.first_name || ''} ${booking.customers?.last_name || ''}`.trim() || 'Unknown Customer',
-        staffId: booking.staff_id,
-        staffName: booking.staff ? `${booking.staff.first_name || ''} ${booking.staff.last_name || ''}`.trim() : 'Unassigned',
-        startTime: booking.booking_date ? `${booking.booking_date}T${booking.booking_time}` : '',
-        endTime: booking.booking_date ? `${booking.booking_date}T${booking.booking_time}` : '', // You might want to calculate this based on duration
-        status: booking.status as BookingStatus,
-        price: booking.total_price || booking.services?.price || 0,
-        notes: booking.notes || '',
-        
-        // Additional relations
-        service_name: booking.services?.service_name || 'Unknown Service',
-        service_price: booking.services?.price || 0,
-        service_duration: booking.services?.duration || 60,
-        customer_name: `${booking.customers?.first_name || ''} ${booking.customers?.last_name || ''}`.trim() || 'Unknown Customer',
-        customer_email: booking.customers?.email || '',
-        staff_name: booking.staff ? `${booking.staff.first_name || ''} ${booking.staff.last_name || ''}`.trim() : 'Unassigned',
-        staff_email: booking.staff?.email || '',
-        booking_date: booking.booking_date,
-        booking_time: booking.booking_time
-      }));
-
-      setBookings(bookingsWithRelations);
+      const allBookings = await bookingsRepository.list({ order: 'schedule_desc' });
+      setBookings(allBookings);
     } catch (err: any) {
       console.error('Error fetching bookings:', err);
-      setError(`Failed to load bookings: ${err.message}`);
+      setError(err.message);
     } finally {
       setLoading(false);
     }
@@ -106,14 +112,7 @@ const ManageBookings: React.FC = () => {
   // Fetch staff members for assignment
   const fetchStaffMembers = async () => {
     try {
-      const { data, error } = await supabase
-        .from('users')
-        .select('*')
-        .eq('role', 'staff')
-        .order('first_name');
-
-      if (error) throw error;
-      setStaffMembers(data || []);
+      setStaffMembers(await usersRepository.getByRoles(['staff']));
     } catch (err: any) {
       console.error('Error fetching staff:', err);
     }
@@ -124,17 +123,69 @@ const ManageBookings: React.FC = () => {
     fetchStaffMembers();
   }, []);
 
-  const handleEditClick = (booking: BookingWithRelations) => {
+  // Exports the bookings as listed, newest appointments first
+  const handleExport = (format: 'xlsx' | 'pdf') => {
+    const doc = {
+      title: 'All Bookings',
+      subtitle: `${bookings.length} ${bookings.length === 1 ? 'booking' : 'bookings'}`,
+      filename: `bookings-${new Date().toISOString().split('T')[0]}`,
+      tables: [buildBookingsTable('Bookings', bookings)],
+    };
+
+    try {
+      setError(null);
+      if (format === 'xlsx') {
+        exportToXlsx(doc);
+      } else {
+        exportToPdf(doc);
+      }
+    } catch (err: any) {
+      console.error('Error exporting bookings:', err);
+      setError(err.message);
+    }
+  };
+
+  const handleEditClick = (booking: Booking) => {
     setSelectedBooking(booking);
     setFormData({
       ...booking,
-      bookingDate: booking.booking_date ? new Date(booking.booking_date).toISOString().split('T')[0] : '',
-      bookingTime: booking.booking_time || '',
+      bookingDate: booking.bookingDate ? new Date(booking.bookingDate).toISOString().split('T')[0] : '',
+      bookingTime: booking.bookingTime || '',
       staffId: booking.staffId || ''
     });
+    setEditPaymentMethod('cash');
+    setPolicyOverride('');
+    setApplyToSeries(false);
     openModal();
   };
 
+  // Warn when the edit would cancel late or reschedule against the policy
+  useEffect(() => {
+    if (!isOpen || !selectedBooking) return;
+
+    const isCancelling = formData.status === 'cancelled' && selectedBooking.status !== 'cancelled';
+    const isMoving = formData.bookingDate !== selectedBooking.bookingDate ||
+      (formData.bookingTime || '').substring(0, 5) !== selectedBooking.bookingTime.substring(0, 5);
+
+    const checkPolicy = async () => {
+      try {
+        if (isCancelling) {
+          const terms = await fetchCancellationTerms(selectedBooking);
+          setPolicyNotice(terms.penalty !== 'none' ? describeCancellationTerms(terms) : null);
+        } else if (isMoving) {
+          setPolicyNotice(getRescheduleRestriction(selectedBooking, await fetchBookingPolicy()));
+        } else {
+          setPolicyNotice(null);
+        }
+      } catch (err: any) {
+        console.error('Error checking booking policy:', err);
+        setPolicyNotice(null);
+      }
+    };
+
+    checkPolicy();
+  }, [isOpen, selectedBooking, formData.status, formData.bookingDate, formData.bookingTime]);
+
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
     setFormData(prev => ({ ...prev, [name]: value }));
@@ -142,34 +193,100 @@ const ManageBookings: React.FC = () => {
 
   const handleUpdateBooking = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!selectedBooking) return;
+    if (!selectedBooking || !user) return;
 
     setLoading(true);
     setError(null);
 
     try {
-      const updateData = {
-        staff_id: formData.staffId === '' ? null : formData.staffId,
-        booking_date: formData.bookingDate || selectedBooking.booking_date,
-        booking_time: formData.bookingTime || selectedBooking.booking_time,
-        status: formData.status || selectedBooking.status,
-        notes: formData.notes || selectedBooking.notes,
-        updated_at: new Date().toISOString()
-      };
-
-      const { error } = await supabase
-        .from('bookings')
-        .update(updateData)
-        .eq('id', selectedBooking.id);
-
-      if (error) throw error;
-
-      setSuccessMessage('Booking updated successfully');
-      setTimeout(() => setSuccessMessage(null), 3000);
+      const staffId = formData.staffId === '' ? null : formData.staffId;
+      const bookingDate = formData.bookingDate || selectedBooking.bookingDate;
+      const bookingTime = formData.bookingTime || selectedBooking.bookingTime;
+      const status = (formData.status || selectedBooking.status) as BookingStatus;
+      const staffChanged = staffId !== (selectedBooking.staffId || null);
+
+      // A newly assigned staff member must perform the service
+      if (staffId && staffChanged && selectedBooking.serviceCategory) {
+        const specializations = await fetchSpecializations(staffId);
+        const service = { id: selectedBooking.serviceId, category: selectedBooking.serviceCategory };
+        if (!isQualifiedFor(staffId, service, specializations)) {
+          throw new Error(`That staff member doesn't perform ${selectedBooking.serviceName}.`);
+        }
+      }
+
+      // Make sure the assigned staff member is free for the whole service
+      if (staffId && BLOCKING_STATUSES.includes(status)) {
+        const { available, reason } = await checkStaffAvailability({
+          staffId,
+          date: bookingDate,
+          time: bookingTime,
+          durationMinutes: selectedBooking.durationMinutes,
+          excludeBookingId: selectedBooking.id
+        });
+
+        if (!available) {
+          throw new Error(reason);
+        }
+      }
+
+      const warnings = await changeBookingStatus(selectedBooking, status, user, {
+        paymentMethod: editPaymentMethod,
+        policyOverride: policyOverride.trim() || undefined,
+        changes: {
+          staffId,
+          // An admin choosing a different staff member overrides the automatic assignment
+          staffAutoAssigned: staffChanged ? false : selectedBooking.staffAutoAssigned,
+          bookingDate,
+          bookingTime,
+          notes: formData.notes || selectedBooking.notes
+        }
+      });
+
+      // Tell the customer about a move first; otherwise about a status change
+      // Times may come back from the database as HH:MM:SS while the form holds HH:MM
+      const wasMoved = bookingDate !== selectedBooking.bookingDate ||
+        bookingTime.substring(0, 5) !== selectedBooking.bookingTime.substring(0, 5);
+      const notificationType = wasMoved
+        ? 'booking_rescheduled'
+        : status !== selectedBooking.status ? statusToNotificationType(status) : null;
+      if (notificationType) {
+        await notifyBookingEvent({
+          type: notificationType,
+          bookingId: selectedBooking.id,
+          customerId: selectedBooking.customerId,
+          serviceName: selectedBooking.serviceName,
+          bookingDate,
+          bookingTime,
+          actor: 'admin'
+        });
+      }
+
+      const waitlistOffer = status === 'cancelled' && selectedBooking.status !== 'cancelled'
+        ? await offerCancelledBookingSlot(selectedBooking)
+        : null;
+
+      // A cancellation, new time or new staff member can carry on to the rest of the series
+      let seriesUpdate: SeriesUpdateResult | null = null;
+      if (applyToSeries && status === 'cancelled' && selectedBooking.status !== 'cancelled') {
+        seriesUpdate = await cancelLaterOccurrences(selectedBooking, user, { policyOverride: policyOverride.trim() || undefined });
+      } else if (applyToSeries && status !== 'cancelled' && (wasMoved || staffChanged)) {
+        seriesUpdate = await rescheduleLaterOccurrences(
+          selectedBooking,
+          { date: bookingDate, time: bookingTime, staffId: staffId || undefined },
+          user,
+          { policyOverride: policyOverride.trim() || undefined }
+        );
+      }
+
+      setSuccessMessage(
+        `Booking updated successfully${followUpNote(warnings)}${waitlistOfferNote(waitlistOffer)}` +
+        (seriesUpdate ? ` ${describeSeriesUpdate(seriesUpdate, status === 'cancelled' ? 'cancelled' : 'rescheduled')}` : '')
+      );
+      if (warnings.length === 0) setTimeout(() => setSuccessMessage(null), 3000);
       await fetchBookings();
       closeModal();
     } catch (err: any) {
-      setError(`Failed to update booking: ${err.message}`);
+      setError(err.message);
     } finally {
       setLoading(false);
     }
@@ -181,48 +298,174 @@ const ManageBookings: React.FC = () => {
     setLoading(true);
     setError(null);
     try {
-      const { error } = await supabase
-        .from('bookings')
-        .delete()
-        .eq('id', bookingId);
-
-      if (error) throw error;
+      await deleteUnpaidBooking(bookingId);
 
       setSuccessMessage('Booking deleted successfully');
       setTimeout(() => setSuccessMessage(null), 3000);
       await fetchBookings();
     } catch (err: any) {
-      setError(`Failed to delete booking: ${err.message}`);
+      setError(err.message);
     } finally {
       setLoading(false);
     }
   };
 
-  const handleStatusUpdate = async (bookingId: string, newStatus: BookingStatus) => {
+  // Change a booking's status, let the customer know and refresh the list
+  const applyStatusChange = async (
+    booking: Booking,
+    newStatus: BookingStatus,
+    paymentMethod?: PaymentMethod,
+    treatmentNote?: StatusChangeOptions['treatmentNote'],
+    policyOverride?: string
+  ) => {
+    if (!user) return;
+
+    const warnings = await changeBookingStatus(booking, newStatus, user, { paymentMethod, treatmentNote, policyOverride });
+
+    const notificationType = statusToNotificationType(newStatus);
+    if (notificationType) {
+      await notifyBookingEvent({
+        type: notificationType,
+        bookingId: booking.id,
+        customerId: booking.customerId,
+        serviceName: booking.serviceName,
+        bookingDate: booking.bookingDate,
+        bookingTime: booking.bookingTime,
+        actor: 'admin'
+      });
+    }
+
+    const waitlistOffer = newStatus === 'cancelled' ? await offerCancelledBookingSlot(booking) : null;
+
+    setSuccessMessage(`Booking status updated to ${STATUS_LABELS[newStatus]}${followUpNote(warnings)}${waitlistOfferNote(waitlistOffer)}`);
+    if (warnings.length === 0) setTimeout(() => setSuccessMessage(null), 3000);
+    await fetchBookings();
+  };
+
+  // Reschedule or reassign a booking dropped somewhere else on the calendar
+  const handleBookingMove = async (booking: Booking, move: BookingMove) => {
+    if (!user) return;
+
     try {
       setLoading(true);
       setError(null);
 
-      const { error } = await supabase
-        .from('bookings')
-        .update({ 
-          status: newStatus,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', bookingId);
-
-      if (error) throw error;
+      const moved = await moveBooking(booking, move, user);
+      if (!moved) return;
 
-      setSuccessMessage(`Booking status updated to ${newStatus}`);
+      setSuccessMessage(`${booking.serviceName} for ${booking.customerName} moved to ${formatCalendarTitle('day', move.date)} at ${move.time}`);
       setTimeout(() => setSuccessMessage(null), 3000);
       await fetchBookings();
     } catch (err: any) {
-      setError(`Failed to update status: ${err.message}`);
+      console.error('Error moving booking:', err);
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleStatusUpdate = async (booking: Booking, newStatus: BookingStatus) => {
+    // Completing takes the final payment first
+    if (newStatus === 'completed') {
+      setCompletingBooking(booking);
+      return;
+    }
+
+    // Cancelling shows what the policy keeps, so it can be waived first
+    if (newStatus === 'cancelled') {
+      setCancellingBooking(booking);
+      setCancellationTerms(null);
+      setPolicyOverride('');
+      setApplyToSeries(false);
+      setCancelWholeVisit(true);
+      try {
+        setCancellationTerms(await fetchCancellationTerms(booking));
+      } catch (err: any) {
+        console.error('Error checking cancellation policy:', err);
+        setError(err.message);
+        setCancellingBooking(null);
+      }
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      await applyStatusChange(booking, newStatus);
+    } catch (err: any) {
+      setError(err.message);
     } finally {
       setLoading(false);
     }
   };
 
+  const handleConfirmCancel = async () => {
+    if (!cancellingBooking) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      if (cancellingBooking.visitId && cancelWholeVisit && user) {
+        // Every service in the visit is checked before any is cancelled
+        const { cancelled, warnings } = await cancelVisit(cancellingBooking, user, { policyOverride: policyOverride.trim() || undefined });
+        setSuccessMessage(`Visit cancelled: ${cancelled.map(booking => booking.serviceName).join(', ')}${followUpNote(warnings)}`);
+        if (warnings.length === 0) setTimeout(() => setSuccessMessage(null), 3000);
+        await fetchBookings();
+        setCancellingBooking(null);
+        return;
+      }
+
+      await applyStatusChange(cancellingBooking, 'cancelled', undefined, undefined, policyOverride.trim() || undefined);
+
+      if (applyToSeries && user) {
+        const seriesUpdate = await cancelLaterOccurrences(cancellingBooking, user, { policyOverride: policyOverride.trim() || undefined });
+        setSuccessMessage(prev => `${prev || ''} ${describeSeriesUpdate(seriesUpdate, 'cancelled')}`.trim());
+        await fetchBookings();
+      }
+      setCancellingBooking(null);
+    } catch (err: any) {
+      setError(err.message);
+      setCancellingBooking(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Load and show a booking's payments and refunds
+  const handlePaymentsClick = async (booking: Booking) => {
+    setSelectedBooking(booking);
+    setPayments([]);
+    setPaymentsError(null);
+    openPaymentsModal();
+
+    try {
+      setPaymentsLoading(true);
+      setPayments(await paymentsRepository.list({ bookingIds: [booking.id] }));
+    } catch (err: any) {
+      setPaymentsError(err.message);
+    } finally {
+      setPaymentsLoading(false);
+    }
+  };
+
+  // Load and show a booking's status history
+  const handleHistoryClick = async (booking: Booking) => {
+    setSelectedBooking(booking);
+    setHistory([]);
+    setHistoryError(null);
+    openHistoryModal();
+
+    try {
+      setHistoryLoading(true);
+      setHistory(await bookingHistoryRepository.listForBooking(booking.id));
+    } catch (err: any) {
+      setHistoryError(err.message);
+    } finally {
+      setHistoryLoading(false);
+    }
+  };
+
   const formatDateTime = (date: string, time: string) => {
     if (!date) return 'N/A';
     
@@ -236,40 +479,56 @@ const ManageBookings: React.FC = () => {
 
   // Helper function to determine if booking is active (can be edited)
   const isActiveBooking = (status: BookingStatus) => {
-    return status === 'pending' || status === 'confirmed';
+    return ACTIVE_STATUSES.includes(status);
   };
 
+  // Status changes the signed-in admin may make from a status
+  const statusActions = (status: BookingStatus) => (user ? getAllowedTransitions(status, user.role) : []);
+
   const columns = [
     { 
       header: 'Service', 
       key: 'service', 
-      render: (item: BookingWithRelations) => (
+      render: (item: Booking) => (
         <div>
-          <div style={{ fontWeight: 'bold' }}>{item.service_name}</div>
+          <div style={{ fontWeight: 'bold' }}>{item.serviceName}</div>
           <div style={{ fontSize: '14px', color: '#666' }}>
-            {formatCurrency(item.service_price)} • {item.service_duration}min
+            {formatCurrency(item.servicePrice)} • {item.durationMinutes}min
           </div>
+          {item.seriesId && (
+            <div style={{ fontSize: '12px', color: '#666' }}>
+              🔁 {item.seriesFrequency ? SERIES_FREQUENCY_LABELS[item.seriesFrequency] : 'Recurring'}
+            </div>
+          )}
+          {item.visitId && (
+            <div style={{ fontSize: '12px', color: '#666' }}>
+              ➕ Part of a multi-service visit
+            </div>
+          )}
         </div>
       )
     },
     { 
       header: 'Customer', 
       key: 'customer', 
-      render: (item: BookingWithRelations) => (
+      render: (item: Booking) => (
         <div>
-          <div>{item.customer_name}</div>
-          <div style={{ fontSize: '12px', color: '#666' }}>{item.customer_email}</div>
+          <div>{item.customerName}</div>
+          <div style={{ fontSize: '12px', color: '#666' }}>{item.customerEmail}</div>
         </div>
       )
     },
     { 
       header: 'Staff', 
       key: 'staff', 
-      render: (item: BookingWithRelations) => (
+      render: (item: Booking) => (
         <div>
-          <div>{item.staff_name}</div>
-          {item.staff_email && (
-            <div style={{ fontSize: '12px', color: '#666' }}>{item.staff_email}</div>
+          <div>{item.staffName}</div>
+          {item.staffAutoAssigned && (
+            <div style={{ fontSize: '11px', color: '#f57c00', fontStyle: 'italic' }}>Auto-assigned</div>
+          )}
+          {item.staffEmail && (
+            <div style={{ fontSize: '12px', color: '#666' }}>{item.staffEmail}</div>
           )}
         </div>
       )
@@ -277,12 +536,12 @@ const ManageBookings: React.FC = () => {
     { 
       header: 'Date & Time', 
       key: 'datetime', 
-      render: (item: BookingWithRelations) => (
+      render: (item: Booking) => (
         <div>
-          <div>{formatDateTime(item.booking_date, item.booking_time)}</div>
-          {item.booking_time && (
+          <div>{formatDateTime(item.bookingDate, item.bookingTime)}</div>
+          {item.bookingTime && (
             <div style={{ fontSize: '12px', color: '#666' }}>
-              {item.booking_time}
+              {item.bookingTime}
             </div>
           )}
         </div>
@@ -291,126 +550,105 @@ const ManageBookings: React.FC = () => {
     { 
       header: 'Status', 
       key: 'status', 
-      render: (item: BookingWithRelations) => (
+      render: (item: Booking) => (
         <span style={{ 
           padding: '4px 8px', 
           borderRadius: '12px', 
           fontSize: '12px',
           fontWeight: 'bold',
-          backgroundColor: 
-            item.status === 'confirmed' ? '#e8f5e8' :
-            item.status === 'completed' ? '#e3f2fd' :
-            item.status === 'cancelled' ? '#ffebee' : '#fff3e0',
-          color: 
-            item.status === 'confirmed' ? '#2e7d32' :
-            item.status === 'completed' ? '#1565c0' :
-            item.status === 'cancelled' ? '#c62828' : '#f57c00'
+          backgroundColor: STATUS_COLORS[item.status].background,
+          color: STATUS_COLORS[item.status].color
         }}>
-          {item.status.charAt(0).toUpperCase() + item.status.slice(1)}
+          {STATUS_LABELS[item.status]}
         </span>
       )
     },
     {
       header: 'Actions',
       key: 'actions',
-      render: (item: BookingWithRelations) => {
-        const isActive = isActiveBooking(item.status);
-        
-        return (
-          <div style={{ display: 'flex', gap: '8px', flexDirection: 'column' }}>
-            {isActive ? (
-              // Active bookings (pending/confirmed) - show full actions
-              <>
-                <div style={{ display: 'flex', gap: '4px' }}>
-                  <Button variant="secondary" size="small" onClick={() => handleEditClick(item)}>
-                    Edit
-                  </Button>
-                  <Button 
-                    variant="text" 
-                    size="small" 
-                    onClick={() => handleDelete(item.id)} 
-                    style={{ color: '#d32f2f' }}
-                  >
-                    Delete
-                  </Button>
-                </div>
-                <div style={{ display: 'flex', gap: '4px', flexWrap: 'wrap' }}>
-                  {item.status !== 'confirmed' && (
-                    <Button 
-                      variant="text" 
-                      size="small" 
-                      onClick={() => handleStatusUpdate(item.id, 'confirmed')}
-                      style={{ fontSize: '11px', padding: '2px 6px' }}
-                    >
-                      Confirm
-                    </Button>
-                  )}
-                  {item.status !== 'completed' && (
-                    <Button 
-                      variant="text" 
-                      size="small" 
-                      onClick={() => handleStatusUpdate(item.id, 'completed')}
-                      style={{ fontSize: '11px', padding: '2px 6px' }}
-                    >
-                      Complete
-                    </Button>
-                  )}
-                  {item.status !== 'cancelled' && (
-                    <Button 
-                      variant="text" 
-                      size="small" 
-                      onClick={() => handleStatusUpdate(item.id, 'cancelled')}
-                      style={{ fontSize: '11px', padding: '2px 6px', color: '#d32f2f' }}
-                    >
-                      Cancel
-                    </Button>
-                  )}
-                </div>
-              </>
-            ) : (
-              // Completed or cancelled bookings - only show delete
-              <div style={{ display: 'flex', gap: '4px' }}>
-                <Button 
-                  variant="text" 
-                  size="small" 
-                  onClick={() => handleDelete(item.id)} 
-                  style={{ color: '#d32f2f' }}
-                >
-                  Delete
-                </Button>
-                <span 
-                  style={{ 
-                    fontSize: '11px', 
-                    color: '#666', 
-                    fontStyle: 'italic',
-                    padding: '4px 0'
-                  }}
-                >
-                  Read-only
-                </span>
-              </div>
+      render: (item: Booking) => (
+        <div style={{ display: 'flex', gap: '8px', flexDirection: 'column' }}>
+          <div style={{ display: 'flex', gap: '4px' }}>
+            {isActiveBooking(item.status) && (
+              <Button variant="secondary" size="small" onClick={() => handleEditClick(item)}>
+                Edit
+              </Button>
             )}
+            <Button variant="text" size="small" onClick={() => handleHistoryClick(item)}>
+              History
+            </Button>
+            <Button variant="text" size="small" onClick={() => handlePaymentsClick(item)}>
+              Payments
+            </Button>
+            {item.status === 'completed' && (
+              <Button variant="text" size="small" onClick={() => navigate('/staff/pos', { state: { bookingId: item.id } })}>
+                Sell Products
+              </Button>
+            )}
+            <Button 
+              variant="text" 
+              size="small" 
+              onClick={() => handleDelete(item.id)} 
+              style={{ color: '#d32f2f' }}
+            >
+              Delete
+            </Button>
           </div>
-        );
-      }
+          <div style={{ display: 'flex', gap: '4px', flexWrap: 'wrap' }}>
+            {statusActions(item.status).map(transition => (
+              <Button 
+                key={transition.to}
+                variant="text" 
+                size="small" 
+                onClick={() => handleStatusUpdate(item, transition.to)}
+                style={{
+                  fontSize: '11px',
+                  padding: '2px 6px',
+                  ...(transition.to === 'cancelled' ? { color: '#d32f2f' } : {})
+                }}
+              >
+                {transition.label}
+              </Button>
+            ))}
+          </div>
+        </div>
+      )
     },
   ];
 
+  const paymentSummary = selectedBooking ? summarizePayments(selectedBooking.price, payments) : null;
+
   return (
     <>
       <DashboardHeader 
         title="Manage Bookings"
         actions={
-          <Button variant="secondary" onClick={fetchBookings} disabled={loading}>
-            Refresh Bookings
-          </Button>
+          <div style={{ display: 'flex', gap: '10px', flexWrap: 'wrap' }}>
+            <Button variant="secondary" onClick={() => setShowPolicy(!showPolicy)}>
+              {showPolicy ? 'Hide Policy' : 'Booking Policy'}
+            </Button>
+            <Button variant="secondary" onClick={() => setDisplayMode(displayMode === 'list' ? 'calendar' : 'list')}>
+              {displayMode === 'list' ? 'Calendar View' : 'List View'}
+            </Button>
+            <Button variant="secondary" onClick={fetchBookings} disabled={loading}>
+              Refresh Bookings
+            </Button>
+            <Button variant="secondary" onClick={() => handleExport('xlsx')} disabled={loading || bookings.length === 0}>
+              Export Excel
+            </Button>
+            <Button variant="secondary" onClick={() => handleExport('pdf')} disabled={loading || bookings.length === 0}>
+              Export PDF
+            </Button>
+          </div>
         }
       />
       <div className="page-container">
         <p className="section-subtitle" style={{textAlign: 'left', marginBottom: 'var(--spacing-lg)'}}>
-          View and manage all customer appointments, assign staff, and update statuses.
+          View and manage all customer appointments, assign staff, update statuses, and review each booking's history.
         </p>
         
+        {showPolicy && <BookingPolicyEditor />}
+
         {successMessage && (
           <div style={{
             backgroundColor: '#e8f5e8',
@@ -431,12 +669,28 @@ const ManageBookings: React.FC = () => {
           </div>
         )}
         
-        <Table 
-          data={bookings} 
-          columns={columns} 
-          caption={`Bookings (${bookings.length})`}
-          emptyMessage="No bookings found. Bookings will appear here when customers make appointments."
-        />
+        {displayMode === 'calendar' ? (
+          <BookingCalendar
+            bookings={bookings}
+            view={calendarView}
+            date={calendarDate}
+            onViewChange={setCalendarView}
+            onDateChange={setCalendarDate}
+            staff={[
+              ...staffMembers.map(staff => ({ id: staff.id, name: `${staff.firstName} ${staff.lastName}` })),
+              { id: null, name: 'Unassigned' },
+            ]}
+            onBookingClick={handleEditClick}
+            onBookingMove={handleBookingMove}
+          />
+        ) : (
+          <Table 
+            data={bookings} 
+            columns={columns} 
+            caption={`Bookings (${bookings.length})`}
+            emptyMessage="No bookings found. Bookings will appear here when customers make appointments."
+          />
+        )}
       </div>
 
       <Modal isOpen={isOpen} onClose={closeModal} title="Edit Booking">
@@ -448,7 +702,7 @@ const ManageBookings: React.FC = () => {
                 type="text" 
                 id="serviceName" 
                 name="serviceName" 
-                value={selectedBooking.service_name || ''} 
+                value={selectedBooking.serviceName || ''} 
                 disabled 
               />
             </div>
@@ -459,7 +713,7 @@ const ManageBookings: React.FC = () => {
                 type="text" 
                 id="servicePrice" 
                 name="servicePrice" 
-                value={formatCurrency(selectedBooking.service_price || 0)} 
+                value={formatCurrency(selectedBooking.servicePrice || 0)} 
                 disabled 
               />
             </div>
@@ -470,7 +724,7 @@ const ManageBookings: React.FC = () => {
                 type="text" 
                 id="customerName" 
                 name="customerName" 
-                value={selectedBooking.customer_name || ''} 
+                value={selectedBooking.customerName || ''} 
                 disabled 
               />
             </div>
@@ -491,9 +745,14 @@ const ManageBookings: React.FC = () => {
                   </option>
                 ))}
               </select>
+              {isActiveBooking(selectedBooking.status) && selectedBooking.staffAutoAssigned && (
+                <small style={{ color: '#666', marginTop: '4px', display: 'block' }}>
+                  Staff was assigned automatically. Choose a different staff member to override.
+                </small>
+              )}
               {!isActiveBooking(selectedBooking.status) && (
                 <small style={{ color: '#666', marginTop: '4px', display: 'block' }}>
-                  Cannot modify staff for completed or cancelled bookings
+                  Cannot modify staff for finished, cancelled or missed bookings
                 </small>
               )}
             </div>
@@ -511,7 +770,7 @@ const ManageBookings: React.FC = () => {
               />
               {!isActiveBooking(selectedBooking.status) && (
                 <small style={{ color: '#666', marginTop: '4px', display: 'block' }}>
-                  Cannot modify date for completed or cancelled bookings
+                  Cannot modify date for finished, cancelled or missed bookings
                 </small>
               )}
             </div>
@@ -540,7 +799,7 @@ const ManageBookings: React.FC = () => {
               </select>
               {!isActiveBooking(selectedBooking.status) && (
                 <small style={{ color: '#666', marginTop: '4px', display: 'block' }}>
-                  Cannot modify time for completed or cancelled bookings
+                  Cannot modify time for finished, cancelled or missed bookings
                 </small>
               )}
             </div>
@@ -555,18 +814,72 @@ const ManageBookings: React.FC = () => {
                 required
                 disabled={!isActiveBooking(selectedBooking.status)}
               >
-                <option value="pending">Pending</option>
-                <option value="confirmed">Confirmed</option>
-                <option value="completed">Completed</option>
-                <option value="cancelled">Cancelled</option>
+                <option value={selectedBooking.status}>{STATUS_LABELS[selectedBooking.status]}</option>
+                {statusActions(selectedBooking.status).map(transition => (
+                  <option key={transition.to} value={transition.to}>
+                    {STATUS_LABELS[transition.to]}
+                  </option>
+                ))}
               </select>
               {!isActiveBooking(selectedBooking.status) && (
                 <small style={{ color: '#666', marginTop: '4px', display: 'block' }}>
-                  Cannot modify status for completed or cancelled bookings
+                  Cannot modify status for finished, cancelled or missed bookings
                 </small>
               )}
             </div>
+
+            {formData.status === 'completed' && selectedBooking.status !== 'completed' && (
+              <div className="form-group">
+                <label htmlFor="paymentMethod">Payment Method for Balance</label>
+                <select
+                  id="paymentMethod"
+                  value={editPaymentMethod}
+                  onChange={(e) => setEditPaymentMethod(e.target.value as PaymentMethod)}
+                >
+                  {(Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[]).map(method => (
+                    <option key={method} value={method}>{PAYMENT_METHOD_LABELS[method]}</option>
+                  ))}
+                </select>
+                <small style={{ color: '#666', marginTop: '4px', display: 'block' }}>
+                  Any balance still owed is taken when the booking is completed
+                </small>
+              </div>
+            )}
             
+            {selectedBooking && (
+              <SeriesScopeOptions
+                booking={selectedBooking}
+                laterCount={getLaterOccurrences(selectedBooking, bookings).length}
+                applyToSeries={applyToSeries}
+                onChange={setApplyToSeries}
+                action="Apply a new time, staff member or cancellation to"
+              />
+            )}
+
+            {policyNotice && (
+              <div className="form-group" style={{
+                backgroundColor: '#fff3e0',
+                border: '1px solid #ffb74d',
+                padding: '12px',
+                borderRadius: '4px'
+              }}>
+                <p style={{ margin: '0 0 8px 0', color: '#e65100' }}>
+                  <strong>Booking policy:</strong> {policyNotice}
+                </p>
+                <label htmlFor="policyOverride">Reason for overriding the policy</label>
+                <input
+                  type="text"
+                  id="policyOverride"
+                  value={policyOverride}
+                  onChange={(e) => setPolicyOverride(e.target.value)}
+                  placeholder={formData.status === 'cancelled' ? 'Leave blank to apply the policy' : 'Required to save this change'}
+                />
+                <small style={{ color: '#666', marginTop: '4px', display: 'block' }}>
+                  The reason is kept in the booking's history
+                </small>
+              </div>
+            )}
+
             <div className="form-group">
               <label htmlFor="notes">Notes</label>
               <textarea 
@@ -580,7 +893,7 @@ const ManageBookings: React.FC = () => {
               ></textarea>
               {!isActiveBooking(selectedBooking.status) && (
                 <small style={{ color: '#666', marginTop: '4px', display: 'block' }}>
-                  Cannot modify notes for completed or cancelled bookings
+                  Cannot modify notes for finished, cancelled or missed bookings
                 </small>
               )}
             </div>
@@ -615,12 +928,166 @@ const ManageBookings: React.FC = () => {
                 marginTop: '16px',
                 textAlign: 'center'
               }}>
-                <strong>Read-only Mode:</strong> This booking is {selectedBooking.status} and cannot be modified.
+                <strong>Read-only Mode:</strong> This booking is {STATUS_LABELS[selectedBooking.status].toLowerCase()} and cannot be modified.
               </div>
             )}
           </form>
         )}
       </Modal>
+
+      <Modal isOpen={isHistoryOpen} onClose={closeHistoryModal} title="Booking History">
+        {selectedBooking && (
+          <div>
+            <p style={{ marginBottom: 'var(--spacing-md)' }}>
+              <strong>{selectedBooking.serviceName}</strong> for {selectedBooking.customerName},{' '}
+              {formatDateTime(selectedBooking.bookingDate, selectedBooking.bookingTime)}
+            </p>
+
+            {historyLoading && <p style={{ textAlign: 'center' }}>Loading history...</p>}
+            {historyError && <p className="auth-error-message">{historyError}</p>}
+            {!historyLoading && !historyError && history.length === 0 && (
+              <p style={{ color: '#666', fontStyle: 'italic' }}>No status changes recorded for this booking yet.</p>
+            )}
+
+            <ul style={{ listStyle: 'none', padding: 0, margin: 0 }}>
+              {history.map(entry => (
+                <li
+                  key={entry.id}
+                  style={{ padding: '10px 0', borderBottom: '1px solid var(--border-color)' }}
+                >
+                  <div style={{ fontWeight: 'bold' }}>
+                    {entry.fromStatus
+                      ? `${STATUS_LABELS[entry.fromStatus]} → ${STATUS_LABELS[entry.toStatus]}`
+                      : `Booked (${STATUS_LABELS[entry.toStatus]})`}
+                  </div>
+                  <div style={{ fontSize: '12px', color: '#666' }}>
+                    {new Date(entry.createdAt).toLocaleString()} • {entry.changedByName || 'Unknown user'} ({entry.changedByRole})
+                  </div>
+                  {entry.note && (
+                    <div style={{ fontSize: '12px', color: '#666', fontStyle: 'italic' }}>{entry.note}</div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </Modal>
+
+      <Modal isOpen={isPaymentsOpen} onClose={closePaymentsModal} title="Payments">
+        {selectedBooking && (
+          <div>
+            <p style={{ marginBottom: 'var(--spacing-md)' }}>
+              <strong>{selectedBooking.serviceName}</strong> for {selectedBooking.customerName}
+            </p>
+
+            {paymentsLoading && <p style={{ textAlign: 'center' }}>Loading payments...</p>}
+            {paymentsError && <p className="auth-error-message">{paymentsError}</p>}
+
+            {!paymentsLoading && !paymentsError && paymentSummary && (
+              <div style={{ marginBottom: 'var(--spacing-md)', fontSize: '14px' }}>
+                <div>Price: <strong>{formatCurrency(paymentSummary.price)}</strong></div>
+                <div>Paid: <strong>{formatCurrency(paymentSummary.paid)}</strong></div>
+                <div>Refunded: <strong>{formatCurrency(paymentSummary.refunded)}</strong></div>
+                <div>Balance due: <strong>{formatCurrency(paymentSummary.balanceDue)}</strong></div>
+              </div>
+            )}
+
+            {!paymentsLoading && !paymentsError && payments.length === 0 && (
+              <p style={{ color: '#666', fontStyle: 'italic' }}>No payments recorded for this booking yet.</p>
+            )}
+
+            <ul style={{ listStyle: 'none', padding: 0, margin: 0 }}>
+              {payments.map(payment => (
+                <li
+                  key={payment.id}
+                  style={{ padding: '10px 0', borderBottom: '1px solid var(--border-color)' }}
+                >
+                  <div style={{ display: 'flex', justifyContent: 'space-between', fontWeight: 'bold' }}>
+                    <span>
+                      {PAYMENT_KIND_LABELS[payment.kind]}
+                      {payment.sessionCardItemId ? (payment.kind === 'refund' ? ' • Session returned' : '') : ` • ${PAYMENT_METHOD_LABELS[payment.method]}`}
+                    </span>
+                    <span style={{ color: payment.kind === 'refund' ? '#c62828' : '#2e7d32' }}>
+                      {payment.kind === 'refund' ? '−' : ''}{formatCurrency(payment.amount)}
+                    </span>
+                  </div>
+                  <div style={{ fontSize: '12px', color: '#666' }}>
+                    {new Date(payment.createdAt).toLocaleString()}
+                    {payment.reference && ` • Ref ${payment.reference}`}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </Modal>
+
+      <Modal isOpen={!!cancellingBooking} onClose={() => setCancellingBooking(null)} title="Cancel Booking">
+        {cancellingBooking && (
+          <div>
+            <p style={{ marginBottom: 'var(--spacing-md)' }}>
+              Cancel <strong>{cancellingBooking.serviceName}</strong> for {cancellingBooking.customerName},{' '}
+              {formatDateTime(cancellingBooking.bookingDate, cancellingBooking.bookingTime)}?
+            </p>
+
+            {!cancellationTerms ? (
+              <p style={{ color: '#666' }}>Checking the cancellation policy...</p>
+            ) : (
+              <p style={{ color: cancellationTerms.penalty !== 'none' ? '#e65100' : '#2e7d32' }}>
+                {describeCancellationTerms(cancellationTerms)}
+              </p>
+            )}
+
+            <SeriesScopeOptions
+              booking={cancellingBooking}
+              laterCount={getLaterOccurrences(cancellingBooking, bookings).length}
+              applyToSeries={applyToSeries}
+              onChange={setApplyToSeries}
+              action="Cancel"
+            />
+            <VisitCancelOption
+              booking={cancellingBooking}
+              visitBookings={getVisitBookings(cancellingBooking, bookings)}
+              cancelWholeVisit={cancelWholeVisit}
+              onChange={setCancelWholeVisit}
+            />
+
+            {cancellationTerms && cancellationTerms.penalty !== 'none' && (
+              <div className="contact-form">
+                <div className="form-group">
+                  <label htmlFor="cancelPolicyOverride">Reason for waiving the policy</label>
+                  <input
+                    type="text"
+                    id="cancelPolicyOverride"
+                    value={policyOverride}
+                    onChange={(e) => setPolicyOverride(e.target.value)}
+                    placeholder="Leave blank to apply the policy"
+                  />
+                  <small style={{ color: '#666', marginTop: '4px', display: 'block' }}>
+                    With a reason, everything paid is refunded and the reason is kept in the booking's history
+                  </small>
+                </div>
+              </div>
+            )}
+
+            <div style={{ display: 'flex', justifyContent: 'flex-end', gap: 'var(--spacing-md)', marginTop: 'var(--spacing-lg)' }}>
+              <Button variant="secondary" onClick={() => setCancellingBooking(null)} disabled={loading}>
+                Keep Booking
+              </Button>
+              <Button variant="primary" onClick={handleConfirmCancel} disabled={loading || !cancellationTerms}>
+                {loading ? 'Cancelling...' : policyOverride.trim() ? 'Waive Policy & Cancel' : 'Cancel Booking'}
+              </Button>
+            </div>
+          </div>
+        )}
+      </Modal>
+
+      <CompleteBookingModal
+        booking={completingBooking}
+        isOpen={!!completingBooking}
+        onClose={() => setCompletingBooking(null)}
+        onConfirm={(booking, paymentMethod, treatmentNote) => applyStatusChange(booking, 'completed', paymentMethod, treatmentNote)}
+      />
     </>
   );
 };
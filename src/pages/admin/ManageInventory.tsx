@@ -4,98 +4,75 @@ import DashboardHeader from '@components/dashboard/DashboardHeader';
 import Table from '@components/dashboard/Table';
 import Button from '@components/common/Button';
 import Modal from '@components/common/Modal';
+import StockAdjustmentModal from '@components/dashboard/StockAdjustmentModal';
+import { useAuth } from '@context/AuthContext';
 import { useModal } from '@hooks/useModal';
-import { formatCurrency } from '@utils/helpers';
-import { supabase } from '../../supabaseClient';
-
-interface InventoryItem {
-  id: string;
-  name: string;
-  category: string;
-  price: number;
-  stock: number;
-  created_at: string;
-  updated_at: string;
-}
+import { formatCurrency, formatDate } from '@utils/helpers';
+import { InventoryItem, StockMovement, Supplier } from '@models/inventory';
+import { inventoryRepository, InventoryItemInput } from '@repositories/inventory';
+import { suppliersRepository } from '@repositories/suppliers';
+import { stockMovementsRepository } from '@repositories/stockMovements';
+import { STOCK_MOVEMENT_LABELS, recordStockMovement } from '@utils/inventory';
+import { isLowStock } from '@utils/purchaseOrders';
+import { ExportDocument, exportToPdf, exportToXlsx } from '@utils/reportExport';
+
+// Entries shown in the stock ledger at once
+const LEDGER_LIMIT = 100;
+
+const EMPTY_PRODUCT: InventoryItemInput = {
+  name: '',
+  category: '',
+  price: 0,
+  costPrice: undefined,
+  stock: 0,
+  unit: 'pcs',
+  reorderPoint: undefined,
+  reorderQuantity: undefined,
+  supplierId: undefined,
+};
+
+// Optional figures that are left blank rather than zero
+const OPTIONAL_NUMBER_FIELDS = ['costPrice', 'reorderPoint', 'reorderQuantity'];
 
 const ManageInventory: React.FC = () => {
+  const { user } = useAuth();
   const [products, setProducts] = useState<InventoryItem[]>([]);
   const [editingProduct, setEditingProduct] = useState<InventoryItem | null>(null);
   const { isOpen, openModal, closeModal } = useModal();
-  const [formData, setFormData] = useState<Omit<InventoryItem, 'id' | 'created_at' | 'updated_at'>>({
-    name: '', 
-    category: '', 
-    price: 0, 
-    stock: 0
-  });
+  const [formData, setFormData] = useState<InventoryItemInput>(EMPTY_PRODUCT);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [adjustingProduct, setAdjustingProduct] = useState<InventoryItem | null>(null);
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [ledgerItemId, setLedgerItemId] = useState<string>('');
+  const [movementsLoading, setMovementsLoading] = useState(false);
 
-  // Fetch inventory items from Supabase
+  // Fetch inventory items
   const fetchInventory = async () => {
     try {
       setLoading(true);
       setError(null);
-      
-      const { data, error } = await supabase
-        .from('inventory')
-        .select('*')
-        .order('created_at', { ascending: false });
-
-      if (error) {
-        console.error('Error fetching inventory:', error);
-        throw error;
-      }
-
-      setProducts(data || []);
-      
+      setProducts(await inventoryRepository.getAll());
     } catch (err: any) {
       console.error('Error in fetchInventory:', err);
-      setError(`Failed to load inventory: ${err.message}`);
+      setError(err.message);
     } finally {
       setLoading(false);
     }
   };
 
-  // Create new inventory item
-  const createInventoryItem = async (itemData: Omit<InventoryItem, 'id' | 'created_at' | 'updated_at'>) => {
-    try {
-      const { data, error } = await supabase
-        .from('inventory')
-        .insert([{
-          name: itemData.name,
-          category: itemData.category,
-          price: itemData.price,
-          stock: itemData.stock,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString()
-        }])
-        .select();
-
-      if (error) throw error;
-      return data?.[0];
-      
-    } catch (err: any) {
-      throw new Error(`Failed to create inventory item: ${err.message}`);
-    }
-  };
-
-  // Update inventory item
-  const updateInventoryItem = async (itemId: string, updates: Partial<InventoryItem>) => {
+  // Fetch the stock ledger, for every product or just one
+  const fetchMovements = async () => {
     try {
-      const { error } = await supabase
-        .from('inventory')
-        .update({
-          ...updates,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', itemId);
-
-      if (error) throw error;
-      
+      setMovementsLoading(true);
+      setMovements(await stockMovementsRepository.list({ itemId: ledgerItemId || undefined, limit: LEDGER_LIMIT }));
     } catch (err: any) {
-      throw new Error(`Failed to update inventory item: ${err.message}`);
+      console.error('Error in fetchMovements:', err);
+      setError(err.message);
+    } finally {
+      setMovementsLoading(false);
     }
   };
 
@@ -106,13 +83,7 @@ const ManageInventory: React.FC = () => {
     setLoading(true);
     setError(null);
     try {
-      const { error } = await supabase
-        .from('inventory')
-        .delete()
-        .eq('id', itemId);
-
-      if (error) throw error;
-
+      await inventoryRepository.delete(itemId);
       await fetchInventory();
       setSuccessMessage('Product deleted successfully');
       setTimeout(() => setSuccessMessage(null), 3000);
@@ -129,28 +100,31 @@ const ManageInventory: React.FC = () => {
       name: product.name,
       category: product.category,
       price: product.price,
-      stock: product.stock
+      costPrice: product.costPrice,
+      stock: product.stock,
+      unit: product.unit,
+      reorderPoint: product.reorderPoint,
+      reorderQuantity: product.reorderQuantity,
+      supplierId: product.supplierId
     });
     openModal();
   };
 
   const handleAddClick = () => {
     setEditingProduct(null);
-    setFormData({ 
-      name: '', 
-      category: '', 
-      price: 0, 
-      stock: 0
-    });
+    setFormData(EMPTY_PRODUCT);
     openModal();
   };
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value, type } = e.target;
-    setFormData(prev => ({
-      ...prev,
-      [name]: type === 'number' ? parseFloat(value) : value,
-    }));
+    let parsed: string | number | undefined = value;
+    if (type === 'number') {
+      parsed = value === '' && OPTIONAL_NUMBER_FIELDS.includes(name) ? undefined : parseFloat(value);
+    } else if (name === 'supplierId') {
+      parsed = value || undefined;
+    }
+    setFormData(prev => ({ ...prev, [name]: parsed }));
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -162,17 +136,31 @@ const ManageInventory: React.FC = () => {
       if (!formData.name || !formData.category || formData.price < 0 || formData.stock < 0) {
         throw new Error('Please fill in all required fields with valid values.');
       }
+      if ([formData.costPrice, formData.reorderPoint, formData.reorderQuantity].some(value => value !== undefined && value < 0)) {
+        throw new Error('Cost price and reorder levels cannot be negative.');
+      }
 
       if (editingProduct) {
-        await updateInventoryItem(editingProduct.id, formData);
+        // Stock only changes through the ledger, so every change has a reason
+        const { stock, ...details } = formData;
+        await inventoryRepository.update(editingProduct.id, details);
         setSuccessMessage('Product updated successfully');
       } else {
-        await createInventoryItem(formData);
+        const created = await inventoryRepository.create({ ...formData, stock: 0 });
+        if (formData.stock > 0) {
+          await recordStockMovement({
+            itemId: created.id,
+            quantity: formData.stock,
+            reason: 'restock',
+            note: 'Opening stock',
+            recordedBy: user?.id,
+          });
+        }
         setSuccessMessage('Product added successfully');
       }
 
       setTimeout(() => setSuccessMessage(null), 3000);
-      await fetchInventory();
+      await Promise.all([fetchInventory(), fetchMovements()]);
       closeModal();
       
     } catch (err: any) {
@@ -186,6 +174,74 @@ const ManageInventory: React.FC = () => {
     await deleteInventoryItem(productId);
   };
 
+  const handleStockSaved = async (message: string) => {
+    setSuccessMessage(message);
+    setTimeout(() => setSuccessMessage(null), 3000);
+    await Promise.all([fetchInventory(), fetchMovements()]);
+  };
+
+  const handleHistoryClick = (product: InventoryItem) => {
+    setLedgerItemId(product.id);
+    document.getElementById('stock-ledger')?.scrollIntoView({ behavior: 'smooth' });
+  };
+
+  // Exports the stock list with the value of each line (price × stock)
+  const handleExport = (format: 'xlsx' | 'pdf') => {
+    const doc: ExportDocument = {
+      title: 'Inventory',
+      subtitle: `Stock as of ${new Date().toLocaleDateString()}`,
+      filename: `inventory-${new Date().toISOString().split('T')[0]}`,
+      tables: [{
+        name: 'Inventory',
+        columns: [
+          { header: 'Product Name', width: 28 },
+          { header: 'Category', width: 16 },
+          { header: 'Supplier', width: 20 },
+          { header: 'Unit', width: 8 },
+          { header: 'Price', format: 'currency', width: 14 },
+          { header: 'Cost Price', format: 'currency', width: 14 },
+          { header: 'Stock', format: 'number', width: 10 },
+          { header: 'Reorder Point', format: 'number', width: 14 },
+          { header: 'Stock Value', format: 'currency', width: 16 },
+        ],
+        rows: products.map(item => [
+          item.name,
+          item.category,
+          item.supplierName,
+          item.unit,
+          item.price,
+          item.costPrice,
+          item.stock,
+          item.reorderPoint,
+          item.price * item.stock,
+        ]),
+        totals: [
+          'Total',
+          null,
+          null,
+          null,
+          null,
+          null,
+          products.reduce((sum, item) => sum + item.stock, 0),
+          null,
+          products.reduce((sum, item) => sum + item.price * item.stock, 0),
+        ],
+      }],
+    };
+
+    try {
+      setError(null);
+      if (format === 'xlsx') {
+        exportToXlsx(doc);
+      } else {
+        exportToPdf(doc);
+      }
+    } catch (err: any) {
+      console.error('Error exporting inventory:', err);
+      setError(err.message);
+    }
+  };
+
   const columns = [
     { 
       header: 'Product Name', 
@@ -205,7 +261,23 @@ const ManageInventory: React.FC = () => {
     { 
       header: 'Stock', 
       key: 'stock',
-      render: (item: InventoryItem) => item.stock
+      render: (item: InventoryItem) => (
+        <div>
+          <span style={{ color: item.stock <= 0 ? '#d32f2f' : undefined, fontWeight: item.stock <= 0 ? 'bold' : undefined }}>
+            {item.stock} {item.unit}
+          </span>
+          {isLowStock(item) && (
+            <div style={{ fontSize: '0.75rem', color: '#f57c00', fontWeight: 'bold' }}>
+              ⚠️ Low (reorder at {item.reorderPoint})
+            </div>
+          )}
+        </div>
+      )
+    },
+    { 
+      header: 'Supplier', 
+      key: 'supplierName',
+      render: (item: InventoryItem) => item.supplierName || '—'
     },
     {
       header: 'Actions',
@@ -219,6 +291,20 @@ const ManageInventory: React.FC = () => {
           >
             Edit
           </Button>
+          <Button 
+            variant="secondary" 
+            size="small" 
+            onClick={() => setAdjustingProduct(item)}
+          >
+            Adjust Stock
+          </Button>
+          <Button 
+            variant="text" 
+            size="small" 
+            onClick={() => handleHistoryClick(item)}
+          >
+            History
+          </Button>
           <Button 
             variant="text" 
             size="small" 
@@ -232,10 +318,66 @@ const ManageInventory: React.FC = () => {
     },
   ];
 
+  const movementColumns = [
+    {
+      header: 'Date',
+      key: 'createdAt',
+      render: (movement: StockMovement) => formatDate(movement.createdAt)
+    },
+    {
+      header: 'Product',
+      key: 'itemName',
+      render: (movement: StockMovement) => movement.itemName || 'Deleted product'
+    },
+    {
+      header: 'Change',
+      key: 'quantity',
+      render: (movement: StockMovement) => (
+        <span style={{ color: movement.quantity < 0 ? '#d32f2f' : '#2e7d32', fontWeight: 'bold' }}>
+          {movement.quantity > 0 ? '+' : ''}{movement.quantity}
+        </span>
+      )
+    },
+    {
+      header: 'Stock After',
+      key: 'stockAfter',
+      render: (movement: StockMovement) => movement.stockAfter
+    },
+    {
+      header: 'Reason',
+      key: 'reason',
+      render: (movement: StockMovement) => (
+        <div>
+          <div>{STOCK_MOVEMENT_LABELS[movement.reason]}</div>
+          {movement.bookingId && (
+            <div style={{ fontSize: '0.875rem', color: '#666' }}>Booking #{movement.bookingId}</div>
+          )}
+        </div>
+      )
+    },
+    {
+      header: 'Note',
+      key: 'note',
+      render: (movement: StockMovement) => movement.note || '—'
+    },
+    {
+      header: 'Recorded By',
+      key: 'recordedByName',
+      render: (movement: StockMovement) => movement.recordedByName || 'System'
+    },
+  ];
+
   useEffect(() => {
     fetchInventory();
+    suppliersRepository.getAll()
+      .then(setSuppliers)
+      .catch((err: any) => setError(err.message));
   }, []);
 
+  useEffect(() => {
+    fetchMovements();
+  }, [ledgerItemId]);
+
   return (
     <>
       <DashboardHeader
@@ -245,6 +387,12 @@ const ManageInventory: React.FC = () => {
             <Button variant="secondary" onClick={fetchInventory} disabled={loading}>
               Refresh Inventory
             </Button>
+            <Button variant="secondary" onClick={() => handleExport('xlsx')} disabled={loading || products.length === 0}>
+              Export Excel
+            </Button>
+            <Button variant="secondary" onClick={() => handleExport('pdf')} disabled={loading || products.length === 0}>
+              Export PDF
+            </Button>
             <Button variant="primary" onClick={handleAddClick} disabled={loading}>
               Add New Product
             </Button>
@@ -282,6 +430,42 @@ const ManageInventory: React.FC = () => {
           caption={`Inventory Items (${products.length})`}
           emptyMessage="No inventory items found. Add your first product to get started."
         />
+
+        <section id="stock-ledger" style={{ marginTop: 'var(--spacing-xl)' }}>
+          <div style={{
+            display: 'flex',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+            gap: 'var(--spacing-md)',
+            flexWrap: 'wrap',
+            marginBottom: 'var(--spacing-md)'
+          }}>
+            <h3 style={{ margin: 0 }}>Stock Ledger</h3>
+            <select
+              aria-label="Show movements for"
+              value={ledgerItemId}
+              onChange={(e) => setLedgerItemId(e.target.value)}
+            >
+              <option value="">All products</option>
+              {products.map(product => (
+                <option key={product.id} value={product.id}>{product.name}</option>
+              ))}
+            </select>
+          </div>
+          <p style={{ fontSize: '0.9rem', color: 'var(--color-text-light)', marginTop: 0 }}>
+            Every change to stock and why it happened. Completed bookings use up the materials set on their service.
+          </p>
+          {movementsLoading ? (
+            <p style={{ textAlign: 'center' }}>Loading stock movements...</p>
+          ) : (
+            <Table
+              data={movements}
+              columns={movementColumns}
+              caption={`Stock Movements (${movements.length})`}
+              emptyMessage="No stock movements recorded yet."
+            />
+          )}
+        </section>
       </div>
 
       <Modal isOpen={isOpen} onClose={closeModal} title={editingProduct ? "Edit Product" : "Add New Product"}>
@@ -310,6 +494,34 @@ const ManageInventory: React.FC = () => {
             />
           </div>
           
+          <div className="form-group">
+            <label htmlFor="unit">Unit of Measure *</label>
+            <input 
+              type="text" 
+              id="unit" 
+              name="unit" 
+              placeholder="e.g. pcs, bottle, kg"
+              value={formData.unit} 
+              onChange={handleChange} 
+              required 
+            />
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="supplierId">Supplier</label>
+            <select 
+              id="supplierId" 
+              name="supplierId" 
+              value={formData.supplierId || ''} 
+              onChange={handleChange}
+            >
+              <option value="">No supplier</option>
+              {suppliers.map(supplier => (
+                <option key={supplier.id} value={supplier.id}>{supplier.name}</option>
+              ))}
+            </select>
+          </div>
+
           <div className="form-group">
             <label htmlFor="price">Price *</label>
             <input 
@@ -323,6 +535,19 @@ const ManageInventory: React.FC = () => {
               step="0.01" 
             />
           </div>
+
+          <div className="form-group">
+            <label htmlFor="costPrice">Cost Price</label>
+            <input 
+              type="number" 
+              id="costPrice" 
+              name="costPrice" 
+              value={formData.costPrice ?? ''} 
+              onChange={handleChange} 
+              min="0" 
+              step="0.01" 
+            />
+          </div>
           
           <div className="form-group">
             <label htmlFor="stock">Stock Quantity *</label>
@@ -334,8 +559,45 @@ const ManageInventory: React.FC = () => {
               onChange={handleChange} 
               required 
               min="0" 
+              step="any"
+              disabled={!!editingProduct}
             />
+            {editingProduct && (
+              <small style={{ color: '#666', marginTop: '4px', display: 'block' }}>
+                Use Adjust Stock to change stock so the reason is recorded in the ledger.
+              </small>
+            )}
+          </div>
+
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 'var(--spacing-md)' }}>
+            <div className="form-group">
+              <label htmlFor="reorderPoint">Reorder Point</label>
+              <input 
+                type="number" 
+                id="reorderPoint" 
+                name="reorderPoint" 
+                value={formData.reorderPoint ?? ''} 
+                onChange={handleChange} 
+                min="0" 
+                step="any"
+              />
+            </div>
+            <div className="form-group">
+              <label htmlFor="reorderQuantity">Reorder Quantity</label>
+              <input 
+                type="number" 
+                id="reorderQuantity" 
+                name="reorderQuantity" 
+                value={formData.reorderQuantity ?? ''} 
+                onChange={handleChange} 
+                min="0" 
+                step="any"
+              />
+            </div>
           </div>
+          <small style={{ color: '#666', display: 'block', marginTop: '-8px' }}>
+            The dashboard warns when stock falls to the reorder point. Leave it blank for no alert.
+          </small>
 
           {error && <p className="auth-error-message">{error}</p>}
           
@@ -354,6 +616,13 @@ const ManageInventory: React.FC = () => {
           </div>
         </form>
       </Modal>
+
+      <StockAdjustmentModal
+        item={adjustingProduct}
+        isOpen={!!adjustingProduct}
+        onClose={() => setAdjustingProduct(null)}
+        onSaved={handleStockSaved}
+      />
     </>
   );
 };
@@ -5,9 +5,22 @@ import Table from '@components/dashboard/Table';
 import Button from '@components/common/Button';
 import Modal from '@components/common/Modal';
 import { useModal } from '@hooks/useModal';
-import { Service } from '@models/service';
+import { Service, ServiceCategory } from '@models/service';
+import { PackageKind, ServicePackage } from '@models/package';
+import { InventoryItem } from '@models/inventory';
 import { formatCurrency } from '@utils/helpers';
-import { supabase } from '../../supabaseClient';
+import { servicesRepository, ServiceInput } from '@repositories/services';
+import { inventoryRepository } from '@repositories/inventory';
+import { serviceMaterialsRepository, ServiceMaterialInput } from '@repositories/serviceMaterials';
+import { servicePackagesRepository, ServicePackageInput } from '@repositories/servicePackages';
+import {
+  PACKAGE_KIND_LABELS,
+  deleteServicePackage,
+  describePackageItems,
+  getPackageListPrice,
+  saveServicePackage,
+  validatePackage
+} from '@utils/packages';
 
 interface ServiceFormData {
   service_name: string;
@@ -18,6 +31,16 @@ interface ServiceFormData {
   service_img: string;
 }
 
+interface PackageFormData {
+  name: string;
+  description: string;
+  kind: PackageKind;
+  price: number;
+  validityDays: string; // Empty means it never expires
+  isActive: boolean;
+  items: { serviceId: string; sessions: number }[];
+}
+
 const ManageServices: React.FC = () => {
   const [services, setServices] = useState<Service[]>([]);
   const [editingService, setEditingService] = useState<Service | null>(null);
@@ -33,30 +56,19 @@ const ManageServices: React.FC = () => {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [uploading, setUploading] = useState(false);
-
-  // Fetch services from Supabase
+  const [inventoryItems, setInventoryItems] = useState<InventoryItem[]>([]);
+  const [materials, setMaterials] = useState<ServiceMaterialInput[]>([]);
+  const [packages, setPackages] = useState<ServicePackage[]>([]);
+  const [editingPackage, setEditingPackage] = useState<ServicePackage | null>(null);
+  const { isOpen: isPackageModalOpen, openModal: openPackageModal, closeModal: closePackageModal } = useModal();
+  const [packageForm, setPackageForm] = useState<PackageFormData | null>(null);
+  const [packageError, setPackageError] = useState<string | null>(null);
+
+  // Fetch services
   const fetchServices = async () => {
     try {
       setLoading(true);
-      const { data, error } = await supabase
-        .from('services')
-        .select('*')
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-
-      // Transform data to match Service interface
-      const transformedServices: Service[] = (data || []).map(service => ({
-        id: service.id,
-        name: service.service_name,
-        description: service.description,
-        price: parseFloat(service.price),
-        durationMinutes: service.duration,
-        category: service.category,
-        imageUrl: service.service_img
-      }));
-
-      setServices(transformedServices);
+      setServices(await servicesRepository.getAll());
     } catch (err: any) {
       setError(err.message || 'Failed to fetch services');
     } finally {
@@ -64,42 +76,40 @@ const ManageServices: React.FC = () => {
     }
   };
 
+  // Products a service can use up, for its bill of materials
+  const fetchInventoryItems = async () => {
+    try {
+      setInventoryItems(await inventoryRepository.getAll());
+    } catch (err: any) {
+      setError(err.message || 'Failed to fetch inventory');
+    }
+  };
+
+  // Bundles and session cards customers can buy ahead
+  const fetchPackages = async () => {
+    try {
+      setPackages(await servicePackagesRepository.getAll());
+    } catch (err: any) {
+      setError(err.message || 'Failed to fetch packages');
+    }
+  };
+
   useEffect(() => {
     fetchServices();
+    fetchInventoryItems();
+    fetchPackages();
   }, []);
 
   // Image upload function
   const uploadImage = async (file: File): Promise<string> => {
     try {
       setUploading(true);
-      
-      // Generate unique file name
-      const fileExt = file.name.split('.').pop();
-      const fileName = `${Math.random().toString(36).substring(2)}_${Date.now()}.${fileExt}`;
-      const filePath = `service-images/${fileName}`;
-
-      console.log('Uploading to bucket: service_img, path:', filePath);
-
-      // Upload image to Supabase Storage - make sure bucket name matches exactly
-      const { error: uploadError } = await supabase.storage
-        .from('service_img') // Make sure this matches your bucket name exactly
-        .upload(filePath, file);
-
-      if (uploadError) {
-        console.error('Upload error:', uploadError);
-        throw uploadError;
-      }
-
-      // Get public URL
-      const { data: { publicUrl } } = supabase.storage
-        .from('service_img')
-        .getPublicUrl(filePath);
-
+      const publicUrl = await servicesRepository.uploadImage(file);
       console.log('Upload successful, public URL:', publicUrl);
       return publicUrl;
     } catch (err: any) {
       console.error('Image upload failed:', err);
-      throw new Error(`Image upload failed: ${err.message}`);
+      throw err;
     } finally {
       setUploading(false);
     }
@@ -115,7 +125,12 @@ const ManageServices: React.FC = () => {
       category: service.category,
       service_img: service.imageUrl || ''
     });
+    setMaterials([]);
     openModal();
+
+    serviceMaterialsRepository.listForService(service.id)
+      .then(current => setMaterials(current.map(({ itemId, quantity }) => ({ itemId, quantity }))))
+      .catch((err: any) => setError(err.message));
   };
 
   const handleAddClick = () => {
@@ -128,9 +143,19 @@ const ManageServices: React.FC = () => {
       category: 'facial',
       service_img: ''
     });
+    setMaterials([]);
     openModal();
   };
 
+  const handleMaterialChange = (index: number, changes: Partial<ServiceMaterialInput>) => {
+    setMaterials(prev => prev.map((material, i) => (i === index ? { ...material, ...changes } : material)));
+  };
+
+  const handleAddMaterial = () => {
+    const unused = inventoryItems.find(item => !materials.some(material => material.itemId === item.id));
+    if (unused) setMaterials(prev => [...prev, { itemId: unused.id, quantity: 1 }]);
+  };
+
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value, type } = e.target;
     setFormData(prev => ({
@@ -170,6 +195,10 @@ const ManageServices: React.FC = () => {
     if (formData.price <= 0) return 'Price must be greater than 0';
     if (formData.duration < 15) return 'Duration must be at least 15 minutes';
     if (formData.duration % 15 !== 0) return 'Duration must be in 15-minute increments';
+    if (materials.some(material => !(material.quantity > 0))) return 'Each material needs a quantity greater than 0';
+    if (new Set(materials.map(material => material.itemId)).size !== materials.length) {
+      return 'Each product can only be listed once in the materials';
+    }
     return null;
   };
 
@@ -202,53 +231,35 @@ const ManageServices: React.FC = () => {
         throw new Error('Duration must be at least 15 minutes');
       }
 
-      const serviceData = {
-        service_name: formData.service_name.trim(),
-        description: formData.description.trim(),
+      const serviceData: ServiceInput = {
+        name: formData.service_name,
+        description: formData.description,
         price: formData.price,
-        duration: formData.duration,
-        category: formData.category,
-        service_img: formData.service_img || null, // Use null instead of empty string
-        created_at: editingService ? undefined : new Date().toISOString() // Add timestamp for new services
+        durationMinutes: formData.duration,
+        category: formData.category as ServiceCategory,
+        imageUrl: formData.service_img || undefined
       };
 
       console.log('Submitting service data:', serviceData);
 
       if (editingService) {
-        // Update existing service
-        const { data, error } = await supabase
-          .from('services')
-          .update(serviceData)
-          .eq('id', editingService.id)
-          .select();
-
-        if (error) {
-          console.error('Update error:', error);
-          throw error;
-        }
-        
-        console.log('Updated Service:', data?.[0]);
+        const updated = await servicesRepository.update(editingService.id, serviceData);
+        await serviceMaterialsRepository.replaceForService(updated.id, materials);
+        console.log('Updated Service:', updated);
       } else {
-        // Create new service
-        const { data, error } = await supabase
-          .from('services')
-          .insert([serviceData])
-          .select();
-
-        if (error) {
-          console.error('Insert error:', error);
-          
+        try {
+          const added = await servicesRepository.create(serviceData);
+          await serviceMaterialsRepository.replaceForService(added.id, materials);
+          console.log('Added Service:', added);
+        } catch (insertErr: any) {
           // More specific error messages
-          if (error.message.includes('row-level security')) {
+          if (insertErr.message.includes('row-level security')) {
             throw new Error('Database permissions error. Please check RLS policies.');
-          } else if (error.message.includes('violates')) {
+          } else if (insertErr.message.includes('violates')) {
             throw new Error('Invalid data. Please check all fields are filled correctly.');
-          } else {
-            throw error;
           }
+          throw insertErr;
         }
-        
-        console.log('Added Service:', data?.[0]);
       }
 
       await fetchServices(); // Refresh the list
@@ -267,12 +278,7 @@ const ManageServices: React.FC = () => {
     setLoading(true);
     setError(null);
     try {
-      const { error } = await supabase
-        .from('services')
-        .delete()
-        .eq('id', serviceId);
-
-      if (error) throw error;
+      await servicesRepository.delete(serviceId);
 
       await fetchServices(); // Refresh the list
       console.log('Deleted Service:', serviceId);
@@ -283,6 +289,159 @@ const ManageServices: React.FC = () => {
     }
   };
 
+  const handleAddPackageClick = () => {
+    setEditingPackage(null);
+    setPackageForm({
+      name: '',
+      description: '',
+      kind: 'session_card',
+      price: 0,
+      validityDays: '180',
+      isActive: true,
+      items: services.length > 0 ? [{ serviceId: services[0].id, sessions: 5 }] : [],
+    });
+    setPackageError(null);
+    openPackageModal();
+  };
+
+  const handleEditPackageClick = (pkg: ServicePackage) => {
+    setEditingPackage(pkg);
+    setPackageForm({
+      name: pkg.name,
+      description: pkg.description || '',
+      kind: pkg.kind,
+      price: pkg.price,
+      validityDays: pkg.validityDays != null ? String(pkg.validityDays) : '',
+      isActive: pkg.isActive,
+      items: pkg.items.map(({ serviceId, sessions }) => ({ serviceId, sessions })),
+    });
+    setPackageError(null);
+    openPackageModal();
+  };
+
+  const handlePackageChange = (changes: Partial<PackageFormData>) => {
+    setPackageForm(prev => (prev ? { ...prev, ...changes } : prev));
+  };
+
+  const handlePackageItemChange = (index: number, changes: Partial<PackageFormData['items'][number]>) => {
+    setPackageForm(prev => prev && {
+      ...prev,
+      items: prev.items.map((item, i) => (i === index ? { ...item, ...changes } : item)),
+    });
+  };
+
+  const handleAddPackageItem = () => {
+    const unused = services.find(service => !packageForm?.items.some(item => item.serviceId === service.id));
+    if (unused) {
+      setPackageForm(prev => prev && { ...prev, items: [...prev.items, { serviceId: unused.id, sessions: 1 }] });
+    }
+  };
+
+  const toPackageInput = (form: PackageFormData): ServicePackageInput => ({
+    name: form.name.trim(),
+    description: form.description.trim() || undefined,
+    kind: form.kind,
+    price: form.price,
+    validityDays: form.validityDays.trim() ? parseFloat(form.validityDays) : undefined,
+    isActive: form.isActive,
+    items: form.items,
+  });
+
+  const handlePackageSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!packageForm) return;
+
+    const input = toPackageInput(packageForm);
+    const validationError = validatePackage(input);
+    if (validationError) {
+      setPackageError(validationError);
+      return;
+    }
+
+    setLoading(true);
+    setPackageError(null);
+    try {
+      await saveServicePackage(input, editingPackage?.id);
+      console.log(editingPackage ? 'Updated Package:' : 'Added Package:', input);
+      await fetchPackages();
+      closePackageModal();
+    } catch (err: any) {
+      console.error('Package save error:', err);
+      setPackageError(err.message || 'Failed to save package.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDeletePackage = async (pkg: ServicePackage) => {
+    if (!window.confirm(`Are you sure you want to delete ${pkg.name}?`)) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      await deleteServicePackage(pkg);
+      await fetchPackages();
+      console.log('Deleted Package:', pkg.id);
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete package.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Usual price of the services in the package form, for showing the saving
+  const packageListPrice = packageForm
+    ? getPackageListPrice(packageForm.items.map(item => ({
+        ...item,
+        servicePrice: services.find(service => service.id === item.serviceId)?.price,
+      })))
+    : 0;
+
+  const packageColumns = [
+    { header: 'Package', key: 'name' },
+    { header: 'Type', key: 'kind', render: (item: ServicePackage) => PACKAGE_KIND_LABELS[item.kind] },
+    { header: 'Includes', key: 'items', render: (item: ServicePackage) => describePackageItems(item.items) },
+    {
+      header: 'Price',
+      key: 'price',
+      render: (item: ServicePackage) => {
+        const listPrice = getPackageListPrice(item.items);
+        return (
+          <div>
+            <div>{formatCurrency(item.price)}</div>
+            {listPrice > item.price && (
+              <div style={{ fontSize: '12px', color: '#2e7d32' }}>
+                {Math.round((1 - item.price / listPrice) * 100)}% off {formatCurrency(listPrice)}
+              </div>
+            )}
+          </div>
+        );
+      }
+    },
+    {
+      header: 'Valid For',
+      key: 'validityDays',
+      render: (item: ServicePackage) => item.validityDays ? `${item.validityDays} days` : 'No expiry'
+    },
+    {
+      header: 'Status',
+      key: 'isActive',
+      render: (item: ServicePackage) => (
+        <span style={{ color: item.isActive ? '#2e7d32' : '#999' }}>{item.isActive ? 'On sale' : 'Inactive'}</span>
+      )
+    },
+    {
+      header: 'Actions',
+      key: 'actions',
+      render: (item: ServicePackage) => (
+        <div style={{ display: 'flex', gap: '8px' }}>
+          <Button variant="secondary" size="small" onClick={() => handleEditPackageClick(item)}>Edit</Button>
+          <Button variant="text" size="small" onClick={() => handleDeletePackage(item)} style={{ color: '#d32f2f' }}>Delete</Button>
+        </div>
+      )
+    },
+  ];
+
   const columns = [
     { header: 'Service Name', key: 'name' },
     { header: 'Category', key: 'category' },
@@ -318,7 +477,12 @@ const ManageServices: React.FC = () => {
     <>
       <DashboardHeader
         title="Manage Services"
-        actions={<Button variant="primary" onClick={handleAddClick}>Add New Service</Button>}
+        actions={
+          <div style={{ display: 'flex', gap: '8px' }}>
+            <Button variant="secondary" onClick={handleAddPackageClick} disabled={services.length === 0}>Add Package</Button>
+            <Button variant="primary" onClick={handleAddClick}>Add New Service</Button>
+          </div>
+        }
       />
       <div className="page-container">
         <p className="section-subtitle" style={{textAlign: 'left', marginBottom: 'var(--spacing-lg)'}}>
@@ -334,6 +498,18 @@ const ManageServices: React.FC = () => {
           caption="Salon & Spa Services"
           emptyMessage="No services found. Add your first service to get started."
         />
+
+        <div style={{ marginTop: 'var(--spacing-xl)' }}>
+          <p className="section-subtitle" style={{ textAlign: 'left', marginBottom: 'var(--spacing-md)' }}>
+            Bundles and session cards are bought ahead at a discount and redeemed when booking.
+          </p>
+          <Table
+            data={packages}
+            columns={packageColumns}
+            caption="Packages & Session Cards"
+            emptyMessage="No packages yet. Add a bundle or session card to sell services ahead."
+          />
+        </div>
       </div>
 
       <Modal isOpen={isOpen} onClose={closeModal} title={editingService ? "Edit Service" : "Add New Service"}>
@@ -473,6 +649,59 @@ const ManageServices: React.FC = () => {
               </div>
             )}
           </div>
+
+          <div className="form-group">
+            <label>Materials Used per Booking</label>
+            <p style={{ fontSize: '14px', color: '#666', margin: '0 0 8px 0' }}>
+              Taken out of stock automatically when a booking for this service is completed.
+            </p>
+            {materials.length === 0 && (
+              <p style={{ fontSize: '14px', color: '#999', fontStyle: 'italic', margin: '0 0 8px 0' }}>
+                No materials; completing this service doesn't change stock.
+              </p>
+            )}
+            {materials.map((material, index) => (
+              <div key={index} style={{ display: 'flex', gap: '8px', alignItems: 'center', marginBottom: '8px' }}>
+                <select
+                  aria-label="Product"
+                  value={material.itemId}
+                  onChange={(e) => handleMaterialChange(index, { itemId: e.target.value })}
+                  style={{ flex: 1, padding: '8px 12px', border: '1px solid #ddd', borderRadius: '4px' }}
+                >
+                  {inventoryItems.map(item => (
+                    <option key={item.id} value={item.id}>{item.name}</option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  aria-label="Quantity"
+                  value={material.quantity}
+                  onChange={(e) => handleMaterialChange(index, { quantity: parseFloat(e.target.value) })}
+                  min="0"
+                  step="any"
+                  style={{ width: '90px' }}
+                />
+                <Button
+                  type="button"
+                  variant="text"
+                  size="small"
+                  onClick={() => setMaterials(prev => prev.filter((_, i) => i !== index))}
+                  style={{ color: '#d32f2f' }}
+                >
+                  Remove
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="secondary"
+              size="small"
+              onClick={handleAddMaterial}
+              disabled={materials.length >= inventoryItems.length}
+            >
+              Add Material
+            </Button>
+          </div>
           
           {error && (
             <div style={{ 
@@ -514,6 +743,174 @@ const ManageServices: React.FC = () => {
           </div>
         </form>
       </Modal>
+
+      <Modal isOpen={isPackageModalOpen} onClose={closePackageModal} title={editingPackage ? 'Edit Package' : 'Add New Package'}>
+        {packageForm && (
+          <form onSubmit={handlePackageSubmit} className="contact-form" style={{ maxWidth: '500px', margin: '0 auto' }}>
+            <div className="form-group">
+              <label htmlFor="package-name">Package Name *</label>
+              <input
+                type="text"
+                id="package-name"
+                value={packageForm.name}
+                onChange={(e) => handlePackageChange({ name: e.target.value })}
+                required
+                placeholder="e.g. 5 Massages for the Price of 4"
+              />
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="package-kind">Type *</label>
+              <select
+                id="package-kind"
+                value={packageForm.kind}
+                onChange={(e) => handlePackageChange({ kind: e.target.value as PackageKind })}
+                style={{ width: '100%', padding: '8px 12px', border: '1px solid #ddd', borderRadius: '4px' }}
+              >
+                {(Object.keys(PACKAGE_KIND_LABELS) as PackageKind[]).map(kind => (
+                  <option key={kind} value={kind}>{PACKAGE_KIND_LABELS[kind]}</option>
+                ))}
+              </select>
+              <small style={{ color: '#666', display: 'block', marginTop: '4px' }}>
+                {packageForm.kind === 'session_card'
+                  ? 'Several sessions of one service, e.g. 5 massages.'
+                  : 'Several different services sold together, each used once.'}
+              </small>
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="package-description">Description</label>
+              <textarea
+                id="package-description"
+                value={packageForm.description}
+                onChange={(e) => handlePackageChange({ description: e.target.value })}
+                rows={2}
+                style={{ width: '100%', resize: 'vertical' }}
+              ></textarea>
+            </div>
+
+            <div className="form-group">
+              <label>Services Included *</label>
+              {packageForm.items.map((item, index) => (
+                <div key={index} style={{ display: 'flex', gap: '8px', alignItems: 'center', marginBottom: '8px' }}>
+                  <select
+                    aria-label="Service"
+                    value={item.serviceId}
+                    onChange={(e) => handlePackageItemChange(index, { serviceId: e.target.value })}
+                    style={{ flex: 1, padding: '8px 12px', border: '1px solid #ddd', borderRadius: '4px' }}
+                  >
+                    {services.map(service => (
+                      <option key={service.id} value={service.id}>{service.name} ({formatCurrency(service.price)})</option>
+                    ))}
+                  </select>
+                  <input
+                    type="number"
+                    aria-label="Sessions"
+                    value={item.sessions}
+                    onChange={(e) => handlePackageItemChange(index, { sessions: parseInt(e.target.value, 10) })}
+                    min="1"
+                    step="1"
+                    style={{ width: '80px' }}
+                  />
+                  <Button
+                    type="button"
+                    variant="text"
+                    size="small"
+                    onClick={() => handlePackageChange({ items: packageForm.items.filter((_, i) => i !== index) })}
+                    style={{ color: '#d32f2f' }}
+                  >
+                    Remove
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="secondary"
+                size="small"
+                onClick={handleAddPackageItem}
+                disabled={packageForm.items.length >= services.length}
+              >
+                Add Service
+              </Button>
+            </div>
+
+            <div className="form-row" style={{ display: 'flex', gap: '15px' }}>
+              <div className="form-group" style={{ flex: 1 }}>
+                <label htmlFor="package-price">Package Price (₱) *</label>
+                <input
+                  type="number"
+                  id="package-price"
+                  value={packageForm.price}
+                  onChange={(e) => handlePackageChange({ price: parseFloat(e.target.value) })}
+                  required
+                  min="0"
+                  step="0.01"
+                />
+              </div>
+              <div className="form-group" style={{ flex: 1 }}>
+                <label htmlFor="package-validity">Valid For (days)</label>
+                <input
+                  type="number"
+                  id="package-validity"
+                  value={packageForm.validityDays}
+                  onChange={(e) => handlePackageChange({ validityDays: e.target.value })}
+                  min="1"
+                  step="1"
+                  placeholder="No expiry"
+                />
+              </div>
+            </div>
+
+            <p style={{ fontSize: '14px', color: '#666', margin: '0 0 12px 0' }}>
+              Booked one by one: {formatCurrency(packageListPrice)}
+              {packageListPrice > packageForm.price && packageForm.price > 0 &&
+                ` • Customers save ${formatCurrency(packageListPrice - packageForm.price)}`}
+            </p>
+
+            <div className="form-group">
+              <label>
+                <input
+                  type="checkbox"
+                  checked={packageForm.isActive}
+                  onChange={(e) => handlePackageChange({ isActive: e.target.checked })}
+                /> On sale
+              </label>
+              <small style={{ color: '#666', display: 'block' }}>
+                Packages that are not on sale can't be bought, but packages already sold can still be used.
+              </small>
+            </div>
+
+            {packageError && (
+              <div style={{
+                backgroundColor: '#fee',
+                border: '1px solid #f5c6cb',
+                color: '#721c24',
+                padding: '12px',
+                borderRadius: '4px',
+                marginBottom: '15px'
+              }}>
+                {packageError}
+              </div>
+            )}
+
+            <div style={{
+              display: 'flex',
+              justifyContent: 'flex-end',
+              gap: '12px',
+              marginTop: '20px',
+              paddingTop: '15px',
+              borderTop: '1px solid #eee'
+            }}>
+              <Button variant="secondary" onClick={closePackageModal} disabled={loading} type="button">
+                Cancel
+              </Button>
+              <Button type="submit" variant="primary" disabled={loading} style={{ minWidth: '120px' }}>
+                {loading ? 'Saving...' : editingPackage ? 'Update Package' : 'Add Package'}
+              </Button>
+            </div>
+          </form>
+        )}
+      </Modal>
     </>
   );
 };
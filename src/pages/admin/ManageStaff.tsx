@@ -6,8 +6,15 @@ import Button from '@components/common/Button';
 import Modal from '@components/common/Modal';
 import { useModal } from '@hooks/useModal';
 import { User, UserRole } from '@models/user';
+import { ServiceCategory } from '@models/service';
+import { StaffSpecialization } from '@models/staff';
 import { capitalizeFirstLetter } from '@utils/helpers';
+import { SERVICE_CATEGORIES } from '@utils/constants';
+import { fetchSpecializations, getSpecializationSelection, saveSpecializations } from '@utils/staffSpecializations';
 import { supabase } from '../../supabaseClient';
+import { servicesRepository } from '@repositories/services';
+import { usersRepository } from '@repositories/users';
+import { useNavigate } from 'react-router-dom';
 
 // Eye icons for show/hide password
 const EyeIcon = () => (
@@ -34,7 +41,14 @@ interface StaffMember {
   created_at: string;
 }
 
+interface ServiceOption {
+  id: string;
+  name: string;
+  category: ServiceCategory;
+}
+
 const ManageStaff: React.FC = () => {
+  const navigate = useNavigate();
   const [staffMembers, setStaffMembers] = useState<StaffMember[]>([]);
   const [editingStaff, setEditingStaff] = useState<StaffMember | null>(null);
   const { isOpen, openModal, closeModal } = useModal();
@@ -50,6 +64,17 @@ const ManageStaff: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [showPassword, setShowPassword] = useState(false);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [specializations, setSpecializations] = useState<StaffSpecialization[]>([]);
+  const [services, setServices] = useState<ServiceOption[]>([]);
+  const [specializingStaff, setSpecializingStaff] = useState<StaffMember | null>(null);
+  const [selectedCategories, setSelectedCategories] = useState<ServiceCategory[]>([]);
+  const [selectedServiceIds, setSelectedServiceIds] = useState<string[]>([]);
+  const [allServicesSelected, setAllServicesSelected] = useState(false);
+  const { 
+    isOpen: isSpecializationModalOpen, 
+    openModal: openSpecializationModal, 
+    closeModal: closeSpecializationModal 
+  } = useModal();
 
   // Fetch only staff and admin users from the users table
   const fetchStaffMembers = async () => {
@@ -57,35 +82,18 @@ const ManageStaff: React.FC = () => {
       setLoading(true);
       setError(null);
       
-      const { data: usersData, error: usersError } = await supabase
-        .from('users')
-        .select('*')
-        .in('role', ['staff', 'admin']) // Only fetch staff and admin users
-        .order('created_at', { ascending: false });
-
-      if (usersError) {
-        console.error('Error fetching users:', usersError);
-        throw usersError;
-      }
-
-      if (!usersData || usersData.length === 0) {
-        setStaffMembers([]);
-        return;
-      }
+      // Only staff and admin users
+      const users = await usersRepository.getByRoles(['staff', 'admin'], 'newest');
 
-      // Convert users to staff members format
-      const staffMembersData: StaffMember[] = usersData.map(user => ({
+      setStaffMembers(users.map(user => ({
         id: user.id,
         email: user.email,
-        firstName: user.first_name || 'Unknown',
-        lastName: user.last_name || 'User',
-        role: (user.role as UserRole) || 'staff',
+        firstName: user.firstName || 'Unknown',
+        lastName: user.lastName || 'User',
+        role: user.role,
         status: 'active',
-        created_at: user.created_at
-      }));
-
-      setStaffMembers(staffMembersData);
-      
+        created_at: user.createdAt || ''
+      })));
     } catch (err: any) {
       console.error('Error in fetchStaffMembers:', err);
       setError(`Failed to load users: ${err.message}`);
@@ -94,6 +102,83 @@ const ManageStaff: React.FC = () => {
     }
   };
 
+  // Fetch services and current specializations for the specialization editor
+  const fetchSpecializationData = async () => {
+    try {
+      const [allServices, specs] = await Promise.all([
+        servicesRepository.getAll('name'),
+        fetchSpecializations()
+      ]);
+
+      setServices(allServices.map(service => ({
+        id: service.id,
+        name: service.name,
+        category: service.category
+      })));
+      setSpecializations(specs);
+    } catch (err: any) {
+      console.error('Error fetching specializations:', err);
+      setError(`Failed to load specializations: ${err.message}`);
+    }
+  };
+
+  const handleSpecializationsClick = (staff: StaffMember) => {
+    const selection = getSpecializationSelection(staff.id, specializations);
+    setSpecializingStaff(staff);
+    setAllServicesSelected(selection.allServices);
+    setSelectedCategories(selection.categories);
+    setSelectedServiceIds(selection.serviceIds);
+    setError(null);
+    openSpecializationModal();
+  };
+
+  const toggleCategory = (category: ServiceCategory) => {
+    setSelectedCategories(prev =>
+      prev.includes(category) ? prev.filter(c => c !== category) : [...prev, category]
+    );
+  };
+
+  const toggleService = (serviceId: string) => {
+    setSelectedServiceIds(prev =>
+      prev.includes(serviceId) ? prev.filter(id => id !== serviceId) : [...prev, serviceId]
+    );
+  };
+
+  const handleSpecializationsSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!specializingStaff) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      await saveSpecializations(specializingStaff.id, {
+        allServices: allServicesSelected,
+        categories: allServicesSelected ? [] : selectedCategories,
+        serviceIds: allServicesSelected ? [] : selectedServiceIds,
+      });
+      setSuccessMessage(`Specializations updated for ${specializingStaff.firstName} ${specializingStaff.lastName}`);
+      setTimeout(() => setSuccessMessage(null), 3000);
+      await fetchSpecializationData();
+      closeSpecializationModal();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Summarizes a staff member's specializations for the table
+  const describeSpecializations = (staffId: string): string => {
+    const own = specializations.filter(spec => spec.staffId === staffId);
+    if (own.some(spec => spec.allServices)) return 'All services';
+    if (own.length === 0) return "Not set up (can't be booked)";
+    return own
+      .map(spec => spec.category
+        ? capitalizeFirstLetter(spec.category)
+        : services.find(service => service.id === spec.serviceId)?.name || 'Unknown service')
+      .join(', ');
+  };
+
   // Create new staff member (user)
   const createStaffMember = async (staffData: {
     email: string;
@@ -137,26 +222,20 @@ const ManageStaff: React.FC = () => {
       }
 
       // Step 2: Create user profile in users table
-      const userData = {
-        id: authData.user.id,
-        email: staffData.email,
-        first_name: staffData.firstName,
-        last_name: staffData.lastName,
-        role: staffData.role,
-        created_at: new Date().toISOString()
-      };
-
-      const { error: userError } = await supabase
-        .from('users')
-        .insert([userData]);
-
-      if (userError) {
-        sessionStorage.removeItem('isCreatingStaff');
-        
-        if (userError.code === '23505') {
+      try {
+        const result = await usersRepository.createProfile({
+          id: authData.user.id,
+          email: staffData.email,
+          firstName: staffData.firstName,
+          lastName: staffData.lastName,
+          role: staffData.role
+        });
+        if (result === 'exists') {
           throw new Error('User already exists in database');
         }
-        throw new Error(`Failed to create user profile: ${userError.message}`);
+      } catch (profileErr) {
+        sessionStorage.removeItem('isCreatingStaff');
+        throw profileErr;
       }
 
       // Restore admin session
@@ -165,6 +244,11 @@ const ManageStaff: React.FC = () => {
         refresh_token: adminSession.refresh_token,
       });
 
+      // New staff can be booked for everything until their specializations are narrowed down
+      if (staffData.role === 'staff') {
+        await saveSpecializations(authData.user.id, { allServices: true, categories: [], serviceIds: [] });
+      }
+
       sessionStorage.removeItem('isCreatingStaff');
       return { success: true, user: authData.user };
       
@@ -182,27 +266,8 @@ const ManageStaff: React.FC = () => {
     lastName?: string;
     role?: UserRole;
   }) => {
-    try {
-      const updateData: any = {};
-      if (updates.email) updateData.email = updates.email;
-      if (updates.firstName) updateData.first_name = updates.firstName;
-      if (updates.lastName) updateData.last_name = updates.lastName;
-      if (updates.role) updateData.role = updates.role;
-      
-      updateData.updated_at = new Date().toISOString();
-
-      const { error } = await supabase
-        .from('users')
-        .update(updateData)
-        .eq('id', userId);
-
-      if (error) throw error;
-
-      return { success: true };
-      
-    } catch (err: any) {
-      throw new Error(`Failed to update user: ${err.message}`);
-    }
+    await usersRepository.update(userId, updates);
+    return { success: true };
   };
 
   // Delete user
@@ -212,13 +277,7 @@ const ManageStaff: React.FC = () => {
     setLoading(true);
     setError(null);
     try {
-      const { error: userError } = await supabase
-        .from('users')
-        .delete()
-        .eq('id', userId);
-
-      if (userError) throw userError;
-
+      await usersRepository.delete(userId);
       await fetchStaffMembers();
       setSuccessMessage('User deleted successfully');
       setTimeout(() => setSuccessMessage(null), 3000);
@@ -301,7 +360,7 @@ const ManageStaff: React.FC = () => {
       }
 
       setTimeout(() => setSuccessMessage(null), 3000);
-      await fetchStaffMembers();
+      await Promise.all([fetchStaffMembers(), fetchSpecializationData()]);
       closeModal();
       
     } catch (err: any) {
@@ -351,6 +410,15 @@ const ManageStaff: React.FC = () => {
         </span>
       )
     },
+    { 
+      header: 'Specializations', 
+      key: 'specializations', 
+      render: (item: StaffMember) => item.role === 'staff' ? (
+        <span style={{ fontSize: '14px' }}>{describeSpecializations(item.id)}</span>
+      ) : (
+        <span style={{ color: '#999', fontStyle: 'italic' }}>N/A</span>
+      )
+    },
     { 
       header: 'Status', 
       key: 'status', 
@@ -384,6 +452,15 @@ const ManageStaff: React.FC = () => {
           >
             Edit
           </Button>
+          {item.role === 'staff' && (
+            <Button 
+              variant="secondary" 
+              size="small" 
+              onClick={() => handleSpecializationsClick(item)}
+            >
+              Specializations
+            </Button>
+          )}
           <Button 
             variant="text" 
             size="small" 
@@ -399,6 +476,7 @@ const ManageStaff: React.FC = () => {
 
   useEffect(() => {
     fetchStaffMembers();
+    fetchSpecializationData();
   }, []);
 
   return (
@@ -410,6 +488,9 @@ const ManageStaff: React.FC = () => {
             <Button variant="secondary" onClick={fetchStaffMembers} disabled={loading}>
               Refresh Users
             </Button>
+            <Button variant="secondary" onClick={() => navigate('/admin/staff-schedules')}>
+              Schedules & Time Off
+            </Button>
             <Button variant="primary" onClick={handleAddClick} disabled={loading}>
               Add New Staff
             </Button>
@@ -568,6 +649,86 @@ const ManageStaff: React.FC = () => {
           </div>
         </form>
       </Modal>
+
+      <Modal 
+        isOpen={isSpecializationModalOpen} 
+        onClose={closeSpecializationModal} 
+        title={specializingStaff ? `Specializations: ${specializingStaff.firstName} ${specializingStaff.lastName}` : 'Specializations'}
+      >
+        <form onSubmit={handleSpecializationsSubmit} className="contact-form">
+          <p style={{ fontSize: '14px', color: '#666', marginBottom: 'var(--spacing-md)' }}>
+            Customers can only book this staff member for the categories and services selected below.
+          </p>
+
+          <div className="form-group">
+            <label style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+              <input
+                type="checkbox"
+                checked={allServicesSelected}
+                onChange={(e) => setAllServicesSelected(e.target.checked)}
+              />
+              All services (no restrictions)
+            </label>
+          </div>
+
+          <div className="form-group">
+            <label>Service Categories</label>
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '12px' }}>
+              {SERVICE_CATEGORIES.map(category => (
+                <label key={category} style={{ display: 'flex', alignItems: 'center', gap: '6px', fontWeight: 'normal' }}>
+                  <input
+                    type="checkbox"
+                    checked={allServicesSelected || selectedCategories.includes(category)}
+                    disabled={allServicesSelected}
+                    onChange={() => toggleCategory(category)}
+                  />
+                  {capitalizeFirstLetter(category)}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="form-group">
+            <label>Individual Services</label>
+            <small style={{ color: '#666', display: 'block', marginBottom: '8px' }}>
+              For services outside the selected categories.
+            </small>
+            <div style={{ maxHeight: '200px', overflowY: 'auto', display: 'flex', flexDirection: 'column', gap: '6px' }}>
+              {services.length === 0 && <span style={{ color: '#999', fontStyle: 'italic' }}>No services found</span>}
+              {services.map(service => {
+                const coveredByCategory = allServicesSelected || selectedCategories.includes(service.category);
+                return (
+                  <label key={service.id} style={{ display: 'flex', alignItems: 'center', gap: '6px', fontWeight: 'normal', color: coveredByCategory ? '#999' : undefined }}>
+                    <input
+                      type="checkbox"
+                      checked={coveredByCategory || selectedServiceIds.includes(service.id)}
+                      disabled={coveredByCategory}
+                      onChange={() => toggleService(service.id)}
+                    />
+                    {service.name} ({capitalizeFirstLetter(service.category)})
+                  </label>
+                );
+              })}
+            </div>
+          </div>
+
+          {error && <p className="auth-error-message">{error}</p>}
+
+          <div style={{ 
+            display: 'flex', 
+            justifyContent: 'flex-end', 
+            gap: 'var(--spacing-md)', 
+            marginTop: 'var(--spacing-lg)' 
+          }}>
+            <Button type="button" variant="secondary" onClick={closeSpecializationModal} disabled={loading}>
+              Cancel
+            </Button>
+            <Button type="submit" variant="primary" disabled={loading}>
+              {loading ? 'Saving...' : 'Save Specializations'}
+            </Button>
+          </div>
+        </form>
+      </Modal>
     </>
   );
 };
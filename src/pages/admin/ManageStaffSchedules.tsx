@@ -0,0 +1,477 @@
+// src/pages/admin/ManageStaffSchedules.tsx
+import React, { useState, useEffect } from 'react';
+import DashboardHeader from '@components/dashboard/DashboardHeader';
+import Table from '@components/dashboard/Table';
+import Button from '@components/common/Button';
+import Modal from '@components/common/Modal';
+import { useModal } from '@hooks/useModal';
+import { TimeOff, TimeOffType, WorkingHours } from '@models/schedule';
+import { capitalizeFirstLetter } from '@utils/helpers';
+import { timeToMinutes } from '@utils/availability';
+import {
+  WEEKDAY_NAMES,
+  addTimeOff,
+  deleteTimeOff,
+  fetchTimeOff,
+  fetchWeeklyHours,
+  saveWeeklyHours,
+} from '@utils/staffSchedule';
+import { usersRepository } from '@repositories/users';
+
+interface StaffOption {
+  id: string;
+  firstName: string;
+  lastName: string;
+}
+
+const emptyTimeOffForm = {
+  startDate: '',
+  endDate: '',
+  type: 'leave' as TimeOffType,
+  reason: '',
+};
+
+// Returns an error message for a day's hours, or null when they are valid
+const validateDay = (hours: WorkingHours): string | null => {
+  if (!hours.isWorking) return null;
+  const day = WEEKDAY_NAMES[hours.dayOfWeek];
+
+  if (timeToMinutes(hours.startTime) >= timeToMinutes(hours.endTime)) {
+    return `${day}: end time must be after start time`;
+  }
+  if (!!hours.breakStart !== !!hours.breakEnd) {
+    return `${day}: set both break start and break end, or neither`;
+  }
+  if (hours.breakStart && hours.breakEnd) {
+    const breakStart = timeToMinutes(hours.breakStart);
+    const breakEnd = timeToMinutes(hours.breakEnd);
+    if (breakStart >= breakEnd) return `${day}: break end must be after break start`;
+    if (breakStart < timeToMinutes(hours.startTime) || breakEnd > timeToMinutes(hours.endTime)) {
+      return `${day}: break must fall within working hours`;
+    }
+  }
+  return null;
+};
+
+const ManageStaffSchedules: React.FC = () => {
+  const [staffMembers, setStaffMembers] = useState<StaffOption[]>([]);
+  const [selectedStaffId, setSelectedStaffId] = useState<string>('');
+  const [weeklyHours, setWeeklyHours] = useState<WorkingHours[]>([]);
+  const [timeOff, setTimeOff] = useState<TimeOff[]>([]);
+  const { isOpen, openModal, closeModal } = useModal();
+  const [timeOffForm, setTimeOffForm] = useState(emptyTimeOffForm);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  // Fetch staff members that can be scheduled
+  const fetchStaffMembers = async () => {
+    try {
+      const users = await usersRepository.getByRoles(['staff']);
+
+      const staff: StaffOption[] = users.map(user => ({
+        id: user.id,
+        firstName: user.firstName || 'Unknown',
+        lastName: user.lastName || 'User',
+      }));
+
+      setStaffMembers(staff);
+      if (staff.length > 0 && !selectedStaffId) {
+        setSelectedStaffId(staff[0].id);
+      }
+    } catch (err: any) {
+      console.error('Error fetching staff:', err);
+      setError(`Failed to load staff: ${err.message}`);
+    }
+  };
+
+  // Fetch the selected staff member's week and upcoming time off
+  const fetchSchedule = async (staffId: string) => {
+    try {
+      setLoading(true);
+      setError(null);
+      const today = new Date().toISOString().split('T')[0];
+      const [hours, entries] = await Promise.all([
+        fetchWeeklyHours(staffId),
+        fetchTimeOff(staffId, today),
+      ]);
+      setWeeklyHours(hours);
+      setTimeOff(entries);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load schedule.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchStaffMembers();
+  }, []);
+
+  useEffect(() => {
+    if (selectedStaffId) fetchSchedule(selectedStaffId);
+  }, [selectedStaffId]);
+
+  const updateDay = (dayOfWeek: number, changes: Partial<WorkingHours>) => {
+    setWeeklyHours(prev =>
+      prev.map(hours => (hours.dayOfWeek === dayOfWeek ? { ...hours, ...changes } : hours))
+    );
+  };
+
+  const handleSaveHours = async () => {
+    const validationError = weeklyHours.map(validateDay).find(Boolean);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      await saveWeeklyHours(weeklyHours);
+      setSuccessMessage('Working hours saved successfully');
+      setTimeout(() => setSuccessMessage(null), 3000);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddTimeOffClick = () => {
+    setTimeOffForm(emptyTimeOffForm);
+    openModal();
+  };
+
+  const handleTimeOffChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setTimeOffForm(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleTimeOffSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+
+    try {
+      if (!timeOffForm.startDate || !timeOffForm.endDate) {
+        throw new Error('Start and end dates are required');
+      }
+      if (timeOffForm.endDate < timeOffForm.startDate) {
+        throw new Error('End date must be on or after start date');
+      }
+
+      await addTimeOff({
+        // Holidays close the whole salon; leave belongs to the selected staff member
+        staffId: timeOffForm.type === 'holiday' ? undefined : selectedStaffId,
+        startDate: timeOffForm.startDate,
+        endDate: timeOffForm.endDate,
+        type: timeOffForm.type,
+        reason: timeOffForm.reason,
+      });
+
+      setSuccessMessage(timeOffForm.type === 'holiday' ? 'Holiday added for all staff' : 'Leave added successfully');
+      setTimeout(() => setSuccessMessage(null), 3000);
+      await fetchSchedule(selectedStaffId);
+      closeModal();
+    } catch (err: any) {
+      setError(`Failed to save time off: ${err.message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteTimeOff = async (entry: TimeOff) => {
+    const message = entry.staffId
+      ? 'Are you sure you want to remove this leave?'
+      : 'This holiday applies to all staff. Are you sure you want to remove it?';
+    if (!window.confirm(message)) return;
+
+    setError(null);
+    try {
+      await deleteTimeOff(entry.id);
+      setSuccessMessage('Time off removed');
+      setTimeout(() => setSuccessMessage(null), 3000);
+      await fetchSchedule(selectedStaffId);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const hoursColumns = [
+    {
+      header: 'Day',
+      key: 'dayOfWeek',
+      render: (item: WorkingHours) => <strong>{WEEKDAY_NAMES[item.dayOfWeek]}</strong>
+    },
+    {
+      header: 'Working',
+      key: 'isWorking',
+      render: (item: WorkingHours) => (
+        <input
+          type="checkbox"
+          checked={item.isWorking}
+          onChange={(e) => updateDay(item.dayOfWeek, { isWorking: e.target.checked })}
+          aria-label={`${WEEKDAY_NAMES[item.dayOfWeek]} working`}
+        />
+      )
+    },
+    {
+      header: 'Start',
+      key: 'startTime',
+      render: (item: WorkingHours) => (
+        <input
+          type="time"
+          value={item.startTime}
+          onChange={(e) => updateDay(item.dayOfWeek, { startTime: e.target.value })}
+          disabled={!item.isWorking}
+        />
+      )
+    },
+    {
+      header: 'End',
+      key: 'endTime',
+      render: (item: WorkingHours) => (
+        <input
+          type="time"
+          value={item.endTime}
+          onChange={(e) => updateDay(item.dayOfWeek, { endTime: e.target.value })}
+          disabled={!item.isWorking}
+        />
+      )
+    },
+    {
+      header: 'Break Start',
+      key: 'breakStart',
+      render: (item: WorkingHours) => (
+        <input
+          type="time"
+          value={item.breakStart || ''}
+          onChange={(e) => updateDay(item.dayOfWeek, { breakStart: e.target.value || undefined })}
+          disabled={!item.isWorking}
+        />
+      )
+    },
+    {
+      header: 'Break End',
+      key: 'breakEnd',
+      render: (item: WorkingHours) => (
+        <input
+          type="time"
+          value={item.breakEnd || ''}
+          onChange={(e) => updateDay(item.dayOfWeek, { breakEnd: e.target.value || undefined })}
+          disabled={!item.isWorking}
+        />
+      )
+    },
+  ];
+
+  const timeOffColumns = [
+    {
+      header: 'Dates',
+      key: 'dates',
+      render: (item: TimeOff) =>
+        item.startDate === item.endDate
+          ? new Date(`${item.startDate}T00:00`).toLocaleDateString()
+          : `${new Date(`${item.startDate}T00:00`).toLocaleDateString()} – ${new Date(`${item.endDate}T00:00`).toLocaleDateString()}`
+    },
+    {
+      header: 'Type',
+      key: 'type',
+      render: (item: TimeOff) => (
+        <span style={{
+          padding: '4px 8px',
+          borderRadius: '12px',
+          fontSize: '12px',
+          fontWeight: 'bold',
+          backgroundColor: item.type === 'holiday' ? '#fff3e0' : '#e3f2fd',
+          color: item.type === 'holiday' ? '#ef6c00' : '#1565c0'
+        }}>
+          {capitalizeFirstLetter(item.type)}
+        </span>
+      )
+    },
+    {
+      header: 'Applies To',
+      key: 'staffId',
+      render: (item: TimeOff) => (item.staffId ? 'This staff member' : 'All staff')
+    },
+    {
+      header: 'Reason',
+      key: 'reason',
+      render: (item: TimeOff) => item.reason || '—'
+    },
+    {
+      header: 'Actions',
+      key: 'actions',
+      render: (item: TimeOff) => (
+        <Button
+          variant="text"
+          size="small"
+          onClick={() => handleDeleteTimeOff(item)}
+          style={{ color: '#d32f2f' }}
+        >
+          Remove
+        </Button>
+      )
+    },
+  ];
+
+  const selectedStaff = staffMembers.find(staff => staff.id === selectedStaffId);
+
+  return (
+    <>
+      <DashboardHeader
+        title="Staff Schedules"
+        actions={
+          <div style={{ display: 'flex', gap: '10px', flexWrap: 'wrap' }}>
+            <Button
+              variant="secondary"
+              onClick={() => selectedStaffId && fetchSchedule(selectedStaffId)}
+              disabled={loading || !selectedStaffId}
+            >
+              Refresh Schedule
+            </Button>
+            <Button variant="primary" onClick={handleAddTimeOffClick} disabled={!selectedStaffId}>
+              Add Time Off
+            </Button>
+          </div>
+        }
+      />
+      <div className="page-container">
+        <p className="section-subtitle" style={{textAlign: 'left', marginBottom: 'var(--spacing-lg)'}}>
+          Set weekly working hours, lunch breaks, holidays and leave. Customers can only book times when the staff member is working.
+        </p>
+
+        {successMessage && (
+          <div style={{
+            backgroundColor: '#e8f5e8',
+            color: '#2e7d32',
+            padding: '12px',
+            borderRadius: '4px',
+            marginBottom: '15px',
+            border: '1px solid #c8e6c9'
+          }}>
+            {successMessage}
+          </div>
+        )}
+
+        {error && !isOpen && (
+          <div className="auth-error-message" style={{textAlign: 'left', whiteSpace: 'pre-wrap'}}>
+            {error}
+          </div>
+        )}
+
+        <div className="contact-form" style={{ marginBottom: 'var(--spacing-lg)' }}>
+          <div className="form-group">
+            <label htmlFor="schedule-staff">Staff Member</label>
+            <select
+              id="schedule-staff"
+              value={selectedStaffId}
+              onChange={(e) => setSelectedStaffId(e.target.value)}
+            >
+              {staffMembers.length === 0 && <option value="">No staff members found</option>}
+              {staffMembers.map(staff => (
+                <option key={staff.id} value={staff.id}>
+                  {staff.firstName} {staff.lastName}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {loading ? (
+          <p style={{textAlign: 'center'}}>Loading schedule...</p>
+        ) : selectedStaff && (
+          <>
+            <Table
+              data={weeklyHours}
+              columns={hoursColumns}
+              caption={`Weekly Hours — ${selectedStaff.firstName} ${selectedStaff.lastName}`}
+            />
+            <div style={{ display: 'flex', justifyContent: 'flex-end', marginTop: 'var(--spacing-md)', marginBottom: 'var(--spacing-lg)' }}>
+              <Button variant="primary" onClick={handleSaveHours} disabled={saving}>
+                {saving ? 'Saving...' : 'Save Working Hours'}
+              </Button>
+            </div>
+
+            <Table
+              data={timeOff}
+              columns={timeOffColumns}
+              caption={`Upcoming Holidays & Leave (${timeOff.length})`}
+              emptyMessage="No upcoming holidays or leave."
+            />
+          </>
+        )}
+      </div>
+
+      <Modal isOpen={isOpen} onClose={closeModal} title="Add Time Off">
+        <form onSubmit={handleTimeOffSubmit} className="contact-form">
+          <div className="form-group">
+            <label htmlFor="type">Type *</label>
+            <select id="type" name="type" value={timeOffForm.type} onChange={handleTimeOffChange}>
+              <option value="leave">Leave ({selectedStaff ? `${selectedStaff.firstName} ${selectedStaff.lastName}` : 'selected staff'})</option>
+              <option value="holiday">Holiday (all staff)</option>
+            </select>
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="startDate">Start Date *</label>
+            <input
+              type="date"
+              id="startDate"
+              name="startDate"
+              value={timeOffForm.startDate}
+              onChange={handleTimeOffChange}
+              required
+            />
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="endDate">End Date *</label>
+            <input
+              type="date"
+              id="endDate"
+              name="endDate"
+              value={timeOffForm.endDate}
+              onChange={handleTimeOffChange}
+              min={timeOffForm.startDate || undefined}
+              required
+            />
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="reason">Reason</label>
+            <input
+              type="text"
+              id="reason"
+              name="reason"
+              value={timeOffForm.reason}
+              onChange={handleTimeOffChange}
+              placeholder="e.g. Christmas Day, vacation, sick leave"
+            />
+          </div>
+
+          {error && <p className="auth-error-message">{error}</p>}
+
+          <div style={{
+            display: 'flex',
+            justifyContent: 'flex-end',
+            gap: 'var(--spacing-md)',
+            marginTop: 'var(--spacing-lg)'
+          }}>
+            <Button type="button" variant="secondary" onClick={closeModal} disabled={saving}>
+              Cancel
+            </Button>
+            <Button type="submit" variant="primary" disabled={saving}>
+              {saving ? 'Saving...' : 'Add Time Off'}
+            </Button>
+          </div>
+        </form>
+      </Modal>
+    </>
+  );
+};
+
+export default ManageStaffSchedules;
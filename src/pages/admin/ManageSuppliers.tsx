@@ -0,0 +1,271 @@
+// src/pages/admin/ManageSuppliers.tsx
+import React, { useState, useEffect } from 'react';
+import DashboardHeader from '@components/dashboard/DashboardHeader';
+import Table from '@components/dashboard/Table';
+import Button from '@components/common/Button';
+import Modal from '@components/common/Modal';
+import { useModal } from '@hooks/useModal';
+import { InventoryItem, Supplier } from '@models/inventory';
+import { inventoryRepository } from '@repositories/inventory';
+import { suppliersRepository, SupplierInput } from '@repositories/suppliers';
+
+const EMPTY_SUPPLIER: SupplierInput = {
+  name: '',
+  contactName: '',
+  email: '',
+  phone: '',
+  notes: '',
+};
+
+const ManageSuppliers: React.FC = () => {
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [products, setProducts] = useState<InventoryItem[]>([]);
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
+  const { isOpen, openModal, closeModal } = useModal();
+  const [formData, setFormData] = useState<SupplierInput>(EMPTY_SUPPLIER);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  // Fetch suppliers, and the products each one supplies
+  const fetchSuppliers = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const [supplierList, productList] = await Promise.all([
+        suppliersRepository.getAll(),
+        inventoryRepository.getAll(),
+      ]);
+      setSuppliers(supplierList);
+      setProducts(productList);
+    } catch (err: any) {
+      console.error('Error in fetchSuppliers:', err);
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchSuppliers();
+  }, []);
+
+  const showSuccess = (message: string) => {
+    setSuccessMessage(message);
+    setTimeout(() => setSuccessMessage(null), 3000);
+  };
+
+  const handleAddClick = () => {
+    setEditingSupplier(null);
+    setFormData(EMPTY_SUPPLIER);
+    openModal();
+  };
+
+  const handleEditClick = (supplier: Supplier) => {
+    setEditingSupplier(supplier);
+    setFormData({
+      name: supplier.name,
+      contactName: supplier.contactName || '',
+      email: supplier.email || '',
+      phone: supplier.phone || '',
+      notes: supplier.notes || '',
+    });
+    openModal();
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+
+    try {
+      if (!formData.name.trim()) {
+        throw new Error('Supplier name is required.');
+      }
+
+      const supplier = { ...formData, name: formData.name.trim() };
+      if (editingSupplier) {
+        await suppliersRepository.update(editingSupplier.id, supplier);
+        showSuccess('Supplier updated successfully');
+      } else {
+        await suppliersRepository.create(supplier);
+        showSuccess('Supplier added successfully');
+      }
+
+      await fetchSuppliers();
+      closeModal();
+    } catch (err: any) {
+      setError(`Failed to save supplier: ${err.message}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (supplier: Supplier) => {
+    const supplied = products.filter(product => product.supplierId === supplier.id).length;
+    const warning = supplied > 0
+      ? `${supplier.name} supplies ${supplied} product(s), which will be left without a supplier. Delete anyway?`
+      : `Delete ${supplier.name}?`;
+    if (!window.confirm(warning)) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      await Promise.all(products
+        .filter(product => product.supplierId === supplier.id)
+        .map(product => inventoryRepository.update(product.id, { supplierId: undefined })));
+      await suppliersRepository.delete(supplier.id);
+      await fetchSuppliers();
+      showSuccess('Supplier deleted successfully');
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete supplier.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const columns = [
+    {
+      header: 'Supplier',
+      key: 'name',
+      render: (item: Supplier) => (
+        <div>
+          <div style={{ fontWeight: '500' }}>{item.name}</div>
+          {item.contactName && (
+            <div style={{ fontSize: '0.875rem', color: '#666' }}>{item.contactName}</div>
+          )}
+        </div>
+      )
+    },
+    {
+      header: 'Contact',
+      key: 'email',
+      render: (item: Supplier) => (
+        <div style={{ fontSize: '0.875rem' }}>
+          {item.email && <div>✉️ {item.email}</div>}
+          {item.phone && <div>📞 {item.phone}</div>}
+          {!item.email && !item.phone && <span style={{ color: '#999' }}>—</span>}
+        </div>
+      )
+    },
+    {
+      header: 'Products',
+      key: 'products',
+      render: (item: Supplier) => {
+        const supplied = products.filter(product => product.supplierId === item.id);
+        return supplied.length > 0
+          ? supplied.map(product => product.name).join(', ')
+          : <span style={{ color: '#999' }}>None yet</span>;
+      }
+    },
+    {
+      header: 'Actions',
+      key: 'actions',
+      render: (item: Supplier) => (
+        <div style={{ display: 'flex', gap: '8px' }}>
+          <Button variant="secondary" size="small" onClick={() => handleEditClick(item)}>
+            Edit
+          </Button>
+          <Button variant="text" size="small" onClick={() => handleDelete(item)} style={{ color: '#d32f2f' }}>
+            Delete
+          </Button>
+        </div>
+      )
+    },
+  ];
+
+  return (
+    <>
+      <DashboardHeader
+        title="Suppliers"
+        actions={
+          <Button variant="primary" onClick={handleAddClick} disabled={loading}>
+            Add Supplier
+          </Button>
+        }
+      />
+      <div className="page-container">
+        <p className="section-subtitle" style={{textAlign: 'left', marginBottom: 'var(--spacing-lg)'}}>
+          Keep the contact details of the companies you buy products from. Assign suppliers to products in Manage Inventory.
+        </p>
+
+        {successMessage && (
+          <div style={{
+            backgroundColor: '#e8f5e8',
+            color: '#2e7d32',
+            padding: '12px',
+            borderRadius: '4px',
+            marginBottom: '15px',
+            border: '1px solid #c8e6c9'
+          }}>
+            {successMessage}
+          </div>
+        )}
+
+        {loading && !isOpen && <p style={{textAlign: 'center'}}>Loading suppliers...</p>}
+        {error && !isOpen && <div className="auth-error-message" style={{textAlign: 'left'}}>{error}</div>}
+
+        <Table
+          data={suppliers}
+          columns={columns}
+          caption={`Suppliers (${suppliers.length})`}
+          emptyMessage="No suppliers yet. Add the companies you order products from."
+        />
+      </div>
+
+      <Modal isOpen={isOpen} onClose={closeModal} title={editingSupplier ? 'Edit Supplier' : 'Add Supplier'}>
+        <form onSubmit={handleSubmit} className="contact-form">
+          <div className="form-group">
+            <label htmlFor="name">Supplier Name *</label>
+            <input type="text" id="name" name="name" value={formData.name} onChange={handleChange} required />
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="contactName">Contact Person</label>
+            <input type="text" id="contactName" name="contactName" value={formData.contactName} onChange={handleChange} />
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="email">Email</label>
+            <input type="email" id="email" name="email" value={formData.email} onChange={handleChange} />
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="phone">Phone</label>
+            <input type="tel" id="phone" name="phone" value={formData.phone} onChange={handleChange} />
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="notes">Notes</label>
+            <textarea
+              id="notes"
+              name="notes"
+              rows={3}
+              placeholder="e.g. Delivers Tuesdays; minimum order ₱5,000"
+              value={formData.notes}
+              onChange={handleChange}
+            />
+          </div>
+
+          {error && <p className="auth-error-message">{error}</p>}
+
+          <div style={{ display: 'flex', justifyContent: 'flex-end', gap: 'var(--spacing-md)', marginTop: 'var(--spacing-lg)' }}>
+            <Button variant="secondary" type="button" onClick={closeModal} disabled={loading}>
+              Cancel
+            </Button>
+            <Button type="submit" variant="primary" disabled={loading}>
+              {loading ? 'Saving...' : editingSupplier ? 'Update Supplier' : 'Add Supplier'}
+            </Button>
+          </div>
+        </form>
+      </Modal>
+    </>
+  );
+};
+
+export default ManageSuppliers;
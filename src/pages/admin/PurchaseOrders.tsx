@@ -0,0 +1,564 @@
+// src/pages/admin/PurchaseOrders.tsx
+import React, { useState, useEffect } from 'react';
+import DashboardHeader from '@components/dashboard/DashboardHeader';
+import Table from '@components/dashboard/Table';
+import Button from '@components/common/Button';
+import Modal from '@components/common/Modal';
+import { useAuth } from '@context/AuthContext';
+import { useModal } from '@hooks/useModal';
+import { InventoryItem, PurchaseOrder, Supplier } from '@models/inventory';
+import { inventoryRepository } from '@repositories/inventory';
+import { purchaseOrdersRepository, PurchaseOrderLineInput } from '@repositories/purchaseOrders';
+import { suppliersRepository } from '@repositories/suppliers';
+import { formatCurrency } from '@utils/helpers';
+import {
+  OPEN_PURCHASE_ORDER_STATUSES,
+  PURCHASE_ORDER_STATUS_COLORS,
+  PURCHASE_ORDER_STATUS_LABELS,
+  buildPurchaseOrderExport,
+  cancelPurchaseOrder,
+  getPurchaseOrderTotals,
+  getSuggestedOrderQuantity,
+  isLowStock,
+  placePurchaseOrder,
+  receivePurchaseOrder,
+} from '@utils/purchaseOrders';
+import { exportToPdf, exportToXlsx } from '@utils/reportExport';
+
+interface OrderForm {
+  supplierId: string;
+  expectedDate: string;
+  notes: string;
+  lines: PurchaseOrderLineInput[];
+}
+
+const EMPTY_ORDER: OrderForm = { supplierId: '', expectedDate: '', notes: '', lines: [] };
+
+const PurchaseOrders: React.FC = () => {
+  const { user } = useAuth();
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [products, setProducts] = useState<InventoryItem[]>([]);
+  const { isOpen, openModal, closeModal } = useModal();
+  const [formData, setFormData] = useState<OrderForm>(EMPTY_ORDER);
+  const [receivingOrder, setReceivingOrder] = useState<PurchaseOrder | null>(null);
+  const [receivedQuantities, setReceivedQuantities] = useState<{ [lineId: string]: string }>({});
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [modalError, setModalError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  const fetchData = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const [orderList, supplierList, productList] = await Promise.all([
+        purchaseOrdersRepository.list(),
+        suppliersRepository.getAll(),
+        inventoryRepository.getAll(),
+      ]);
+      setOrders(orderList);
+      setSuppliers(supplierList);
+      setProducts(productList);
+    } catch (err: any) {
+      console.error('❌ Error loading purchase orders:', err);
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const showSuccess = (message: string) => {
+    setSuccessMessage(message);
+    setTimeout(() => setSuccessMessage(null), 3000);
+  };
+
+  // Adds every low-stock product from the chosen supplier that isn't on the order yet
+  const addLowStockLines = (supplierId: string, lines: PurchaseOrderLineInput[]): PurchaseOrderLineInput[] => [
+    ...lines,
+    ...products
+      .filter(product => product.supplierId === supplierId && isLowStock(product))
+      .filter(product => !lines.some(line => line.itemId === product.id))
+      .map(product => ({
+        itemId: product.id,
+        quantityOrdered: getSuggestedOrderQuantity(product),
+        unitCost: product.costPrice || 0,
+      })),
+  ];
+
+  const handleNewOrderClick = () => {
+    setFormData(EMPTY_ORDER);
+    setModalError(null);
+    openModal();
+  };
+
+  const handleSupplierChange = (supplierId: string) => {
+    // Start a new supplier's order with whatever of theirs is running low
+    setFormData(prev => ({ ...prev, supplierId, lines: supplierId ? addLowStockLines(supplierId, []) : [] }));
+  };
+
+  const handleLineChange = (index: number, changes: Partial<PurchaseOrderLineInput>) => {
+    setFormData(prev => ({
+      ...prev,
+      lines: prev.lines.map((line, i) => (i === index ? { ...line, ...changes } : line)),
+    }));
+  };
+
+  const handleAddLine = () => {
+    const unused = products.find(product => !formData.lines.some(line => line.itemId === product.id));
+    if (!unused) return;
+    setFormData(prev => ({
+      ...prev,
+      lines: [...prev.lines, { itemId: unused.id, quantityOrdered: getSuggestedOrderQuantity(unused), unitCost: unused.costPrice || 0 }],
+    }));
+  };
+
+  const handleCreateOrder = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setModalError(null);
+
+    if (!formData.supplierId) {
+      setModalError('Choose a supplier.');
+      return;
+    }
+    if (formData.lines.length === 0) {
+      setModalError('Add at least one product to the order.');
+      return;
+    }
+    if (formData.lines.some(line => !(line.quantityOrdered > 0) || !(line.unitCost >= 0))) {
+      setModalError('Each line needs a quantity greater than 0 and a unit cost of 0 or more.');
+      return;
+    }
+    if (new Set(formData.lines.map(line => line.itemId)).size !== formData.lines.length) {
+      setModalError('Each product can only be listed once.');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const id = await purchaseOrdersRepository.create({
+        supplierId: formData.supplierId,
+        expectedDate: formData.expectedDate || undefined,
+        notes: formData.notes.trim() || undefined,
+        createdBy: user?.id,
+        lines: formData.lines,
+      });
+      console.log('✅ Purchase order created:', id);
+      closeModal();
+      showSuccess(`Purchase order #${id} saved as a draft.`);
+      await fetchData();
+    } catch (err: any) {
+      console.error('❌ Error creating purchase order:', err);
+      setModalError(err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Runs an action on an order, then reloads
+  const runOrderAction = async (action: () => Promise<unknown>, message: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      await action();
+      showSuccess(message);
+      await fetchData();
+    } catch (err: any) {
+      console.error('❌ Purchase order error:', err);
+      setError(err.message);
+      setLoading(false);
+    }
+  };
+
+  const handlePlace = (order: PurchaseOrder) =>
+    runOrderAction(() => placePurchaseOrder(order), `Purchase order #${order.id} marked as ordered.`);
+
+  const handleCancel = (order: PurchaseOrder) => {
+    if (!window.confirm(`Cancel purchase order #${order.id}? Anything already received stays in stock.`)) return;
+    runOrderAction(() => cancelPurchaseOrder(order), `Purchase order #${order.id} cancelled.`);
+  };
+
+  const handleDelete = (order: PurchaseOrder) => {
+    if (!window.confirm(`Delete draft purchase order #${order.id}?`)) return;
+    runOrderAction(() => purchaseOrdersRepository.delete(order.id), `Purchase order #${order.id} deleted.`);
+  };
+
+  const handleReceiveClick = (order: PurchaseOrder) => {
+    // Assume everything outstanding arrived; the admin lowers what didn't
+    const quantities: { [lineId: string]: string } = {};
+    order.lines.forEach(line => {
+      quantities[line.id] = String(Math.max(line.quantityOrdered - line.quantityReceived, 0));
+    });
+    setReceivedQuantities(quantities);
+    setModalError(null);
+    setReceivingOrder(order);
+  };
+
+  const handleReceive = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!receivingOrder) return;
+
+    const quantities: { [lineId: string]: number } = {};
+    Object.entries(receivedQuantities).forEach(([lineId, value]) => {
+      quantities[lineId] = parseFloat(value) || 0;
+    });
+
+    setSaving(true);
+    setModalError(null);
+    try {
+      const status = await receivePurchaseOrder(receivingOrder, quantities, user?.id);
+      setReceivingOrder(null);
+      showSuccess(`Delivery recorded. Purchase order #${receivingOrder.id} is ${PURCHASE_ORDER_STATUS_LABELS[status].toLowerCase()}.`);
+      await fetchData();
+    } catch (err: any) {
+      console.error('❌ Error receiving purchase order:', err);
+      setModalError(err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleExport = (order: PurchaseOrder, format: 'xlsx' | 'pdf') => {
+    try {
+      setError(null);
+      const doc = buildPurchaseOrderExport(order);
+      if (format === 'xlsx') {
+        exportToXlsx(doc);
+      } else {
+        exportToPdf(doc);
+      }
+    } catch (err: any) {
+      console.error('❌ Error exporting purchase order:', err);
+      setError(err.message);
+    }
+  };
+
+  const lowStockProducts = products.filter(isLowStock);
+  const orderTotal = formData.lines.reduce((sum, line) => sum + (line.quantityOrdered || 0) * (line.unitCost || 0), 0);
+
+  const columns = [
+    {
+      header: 'PO #',
+      key: 'id',
+      render: (item: PurchaseOrder) => `#${item.id}`
+    },
+    {
+      header: 'Supplier',
+      key: 'supplierName',
+      render: (item: PurchaseOrder) => item.supplierName || 'Unknown supplier'
+    },
+    {
+      header: 'Items',
+      key: 'lines',
+      render: (item: PurchaseOrder) => (
+        <div style={{ fontSize: '0.875rem' }}>
+          {item.lines.map(line => (
+            <div key={line.id}>
+              {line.itemName || 'Deleted product'}: {line.quantityReceived}/{line.quantityOrdered} {line.unit || ''}
+            </div>
+          ))}
+        </div>
+      )
+    },
+    {
+      header: 'Total',
+      key: 'total',
+      render: (item: PurchaseOrder) => formatCurrency(getPurchaseOrderTotals(item).ordered)
+    },
+    {
+      header: 'Dates',
+      key: 'createdAt',
+      render: (item: PurchaseOrder) => (
+        <div style={{ fontSize: '0.875rem', color: '#666' }}>
+          <div>Created {new Date(item.createdAt).toLocaleDateString()}</div>
+          {item.expectedDate && <div>Expected {item.expectedDate}</div>}
+          {item.receivedAt && <div>Received {new Date(item.receivedAt).toLocaleDateString()}</div>}
+        </div>
+      )
+    },
+    {
+      header: 'Status',
+      key: 'status',
+      render: (item: PurchaseOrder) => (
+        <span style={{
+          padding: '4px 8px',
+          borderRadius: '12px',
+          fontSize: '12px',
+          fontWeight: 'bold',
+          backgroundColor: PURCHASE_ORDER_STATUS_COLORS[item.status].background,
+          color: PURCHASE_ORDER_STATUS_COLORS[item.status].color
+        }}>
+          {PURCHASE_ORDER_STATUS_LABELS[item.status]}
+        </span>
+      )
+    },
+    {
+      header: 'Actions',
+      key: 'actions',
+      render: (item: PurchaseOrder) => (
+        <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap' }}>
+          {item.status === 'draft' && (
+            <Button variant="secondary" size="small" onClick={() => handlePlace(item)}>Mark Ordered</Button>
+          )}
+          {OPEN_PURCHASE_ORDER_STATUSES.includes(item.status) && (
+            <Button variant="secondary" size="small" onClick={() => handleReceiveClick(item)}>Receive</Button>
+          )}
+          <Button variant="text" size="small" onClick={() => handleExport(item, 'xlsx')}>Excel</Button>
+          <Button variant="text" size="small" onClick={() => handleExport(item, 'pdf')}>PDF</Button>
+          {item.status === 'draft' && (
+            <Button variant="text" size="small" onClick={() => handleDelete(item)} style={{ color: '#d32f2f' }}>Delete</Button>
+          )}
+          {OPEN_PURCHASE_ORDER_STATUSES.includes(item.status) && (
+            <Button variant="text" size="small" onClick={() => handleCancel(item)} style={{ color: '#d32f2f' }}>Cancel</Button>
+          )}
+        </div>
+      )
+    },
+  ];
+
+  return (
+    <>
+      <DashboardHeader
+        title="Purchase Orders"
+        actions={
+          <div style={{ display: 'flex', gap: '10px', flexWrap: 'wrap' }}>
+            <Button variant="secondary" onClick={fetchData} disabled={loading}>
+              Refresh
+            </Button>
+            <Button variant="primary" onClick={handleNewOrderClick} disabled={loading || suppliers.length === 0}>
+              New Purchase Order
+            </Button>
+          </div>
+        }
+      />
+      <div className="page-container">
+        <p className="section-subtitle" style={{textAlign: 'left', marginBottom: 'var(--spacing-lg)'}}>
+          Order stock from suppliers and record deliveries as they arrive. Received items are added to stock.
+        </p>
+
+        {successMessage && (
+          <div style={{
+            backgroundColor: '#e8f5e8',
+            color: '#2e7d32',
+            padding: '12px',
+            borderRadius: '4px',
+            marginBottom: '15px',
+            border: '1px solid #c8e6c9'
+          }}>
+            {successMessage}
+          </div>
+        )}
+
+        {error && <div className="auth-error-message" style={{textAlign: 'left'}}>{error}</div>}
+
+        {!loading && suppliers.length === 0 && (
+          <p style={{ color: '#666' }}>Add a supplier first, then you can order from them.</p>
+        )}
+
+        {lowStockProducts.length > 0 && (
+          <div style={{
+            backgroundColor: '#fff3e0',
+            border: '1px solid #ffcc80',
+            borderRadius: '4px',
+            padding: '12px',
+            marginBottom: 'var(--spacing-lg)',
+            fontSize: '14px'
+          }}>
+            <strong>⚠️ {lowStockProducts.length} product(s) at or below their reorder point:</strong>{' '}
+            {lowStockProducts.map(product => `${product.name} (${product.stock} ${product.unit})`).join(', ')}
+          </div>
+        )}
+
+        {loading ? (
+          <p style={{textAlign: 'center'}}>Loading purchase orders...</p>
+        ) : (
+          <Table
+            data={orders}
+            columns={columns}
+            caption={`Purchase Orders (${orders.length})`}
+            emptyMessage="No purchase orders yet."
+          />
+        )}
+      </div>
+
+      <Modal isOpen={isOpen} onClose={closeModal} title="New Purchase Order">
+        <form onSubmit={handleCreateOrder} className="contact-form">
+          <div className="form-group">
+            <label htmlFor="po-supplier">Supplier *</label>
+            <select
+              id="po-supplier"
+              value={formData.supplierId}
+              onChange={(e) => handleSupplierChange(e.target.value)}
+              required
+            >
+              <option value="">-- Select Supplier --</option>
+              {suppliers.map(supplier => (
+                <option key={supplier.id} value={supplier.id}>{supplier.name}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="form-group">
+            <label>Items *</label>
+            {formData.lines.length === 0 && (
+              <p style={{ fontSize: '14px', color: '#999', fontStyle: 'italic', margin: '0 0 8px 0' }}>
+                {formData.supplierId ? 'Nothing from this supplier is running low. Add items below.' : 'Choose a supplier first.'}
+              </p>
+            )}
+            {formData.lines.map((line, index) => (
+              <div key={index} style={{ display: 'flex', gap: '8px', alignItems: 'center', marginBottom: '8px' }}>
+                <select
+                  aria-label="Product"
+                  value={line.itemId}
+                  onChange={(e) => handleLineChange(index, { itemId: e.target.value })}
+                  style={{ flex: 1 }}
+                >
+                  {products.map(product => (
+                    <option key={product.id} value={product.id}>{product.name} ({product.unit})</option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  aria-label="Quantity"
+                  title="Quantity"
+                  value={line.quantityOrdered}
+                  onChange={(e) => handleLineChange(index, { quantityOrdered: parseFloat(e.target.value) })}
+                  min="0"
+                  step="any"
+                  style={{ width: '80px' }}
+                />
+                <input
+                  type="number"
+                  aria-label="Unit cost"
+                  title="Unit cost"
+                  value={line.unitCost}
+                  onChange={(e) => handleLineChange(index, { unitCost: parseFloat(e.target.value) })}
+                  min="0"
+                  step="0.01"
+                  style={{ width: '100px' }}
+                />
+                <Button
+                  type="button"
+                  variant="text"
+                  size="small"
+                  onClick={() => setFormData(prev => ({ ...prev, lines: prev.lines.filter((_, i) => i !== index) }))}
+                  style={{ color: '#d32f2f' }}
+                >
+                  Remove
+                </Button>
+              </div>
+            ))}
+            <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap' }}>
+              <Button
+                type="button"
+                variant="secondary"
+                size="small"
+                onClick={handleAddLine}
+                disabled={!formData.supplierId || formData.lines.length >= products.length}
+              >
+                Add Item
+              </Button>
+              <Button
+                type="button"
+                variant="text"
+                size="small"
+                onClick={() => setFormData(prev => ({ ...prev, lines: addLowStockLines(prev.supplierId, prev.lines) }))}
+                disabled={!formData.supplierId}
+              >
+                Add Low-Stock Items
+              </Button>
+            </div>
+            <p style={{ textAlign: 'right', fontWeight: 'bold', margin: '8px 0 0 0' }}>
+              Total: {formatCurrency(orderTotal)}
+            </p>
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="po-expected">Expected Delivery</label>
+            <input
+              type="date"
+              id="po-expected"
+              value={formData.expectedDate}
+              min={new Date().toISOString().split('T')[0]}
+              onChange={(e) => setFormData(prev => ({ ...prev, expectedDate: e.target.value }))}
+            />
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="po-notes">Notes</label>
+            <textarea
+              id="po-notes"
+              rows={2}
+              value={formData.notes}
+              onChange={(e) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
+            />
+          </div>
+
+          {modalError && <p className="auth-error-message">{modalError}</p>}
+
+          <div style={{ display: 'flex', justifyContent: 'flex-end', gap: 'var(--spacing-md)', marginTop: 'var(--spacing-lg)' }}>
+            <Button variant="secondary" type="button" onClick={closeModal} disabled={saving}>
+              Cancel
+            </Button>
+            <Button type="submit" variant="primary" disabled={saving}>
+              {saving ? 'Saving...' : 'Save Draft'}
+            </Button>
+          </div>
+        </form>
+      </Modal>
+
+      <Modal isOpen={!!receivingOrder} onClose={() => setReceivingOrder(null)} title="Receive Delivery">
+        {receivingOrder && (
+          <form onSubmit={handleReceive} className="contact-form">
+            <p style={{ marginBottom: 'var(--spacing-md)' }}>
+              Purchase order <strong>#{receivingOrder.id}</strong> from {receivingOrder.supplierName || 'Unknown supplier'}.
+              Enter how many of each item arrived in this delivery.
+            </p>
+
+            {receivingOrder.lines.map(line => {
+              const outstanding = Math.max(line.quantityOrdered - line.quantityReceived, 0);
+              return (
+                <div key={line.id} className="form-group">
+                  <label htmlFor={`receive-${line.id}`}>
+                    {line.itemName || 'Deleted product'}
+                    <span style={{ fontWeight: 'normal', color: '#666' }}>
+                      {' '}({line.quantityReceived} of {line.quantityOrdered} {line.unit || ''} received)
+                    </span>
+                  </label>
+                  <input
+                    type="number"
+                    id={`receive-${line.id}`}
+                    value={receivedQuantities[line.id] || ''}
+                    onChange={(e) => setReceivedQuantities(prev => ({ ...prev, [line.id]: e.target.value }))}
+                    min="0"
+                    max={outstanding}
+                    step="any"
+                    disabled={outstanding === 0}
+                  />
+                </div>
+              );
+            })}
+
+            {modalError && <p className="auth-error-message">{modalError}</p>}
+
+            <div style={{ display: 'flex', justifyContent: 'flex-end', gap: 'var(--spacing-md)', marginTop: 'var(--spacing-lg)' }}>
+              <Button variant="secondary" type="button" onClick={() => setReceivingOrder(null)} disabled={saving}>
+                Cancel
+              </Button>
+              <Button type="submit" variant="primary" disabled={saving}>
+                {saving ? 'Saving...' : 'Record Delivery'}
+              </Button>
+            </div>
+          </form>
+        )}
+      </Modal>
+    </>
+  );
+};
+
+export default PurchaseOrders;
@@ -0,0 +1,77 @@
+// @vitest-environment jsdom
+// src/pages/customer/BookAppointment.test.tsx
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, fireEvent, render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MemoryRouter } from 'react-router-dom';
+import { CUSTOMER_BEN_ID, CUSTOMER_LIZA_ID, STAFF_ANA_ID } from '../../mocks/fixtures';
+import { bookingsRepository } from '@repositories/bookings';
+import { TEST_TODAY } from '../../test/clock';
+import { addDays } from '@utils/helpers';
+import BookAppointment from './BookAppointment';
+
+// Ben is signed in. The same object every render, as the real context gives.
+vi.mock('@context/AuthContext', () => {
+  const auth = {
+    user: { id: CUSTOMER_BEN_ID, email: 'ben@example.com', first_name: 'Ben', last_name: 'Garcia', role: 'customer' },
+    logout: vi.fn(),
+  };
+  return { useAuth: () => auth };
+});
+
+afterEach(cleanup);
+
+const bookingDate = addDays(TEST_TODAY, 2);
+
+// Fills in a Gel Manicure with Ana two days from now and waits for her free times
+const chooseManicureWithAna = async () => {
+  const user = userEvent.setup();
+  render(<MemoryRouter><BookAppointment /></MemoryRouter>);
+
+  await user.selectOptions(await screen.findByLabelText('Select Service *'), '3');
+  await user.selectOptions(screen.getByLabelText('Select Preferred Staff *'), STAFF_ANA_ID);
+  fireEvent.change(screen.getByLabelText('Preferred Date *'), { target: { value: bookingDate } });
+  await screen.findByRole('option', { name: '10:00 AM' });
+  return user;
+};
+
+describe('booking an appointment', () => {
+  it('only offers times the staff member is free for the whole service', async () => {
+    await chooseManicureWithAna();
+
+    // Liza's waxing with Ana runs 13:00–13:30, so a 45-minute manicure can't start from 12:15 to 13:15
+    expect(screen.queryByRole('option', { name: '12:30 PM' })).toBeNull();
+    expect(screen.queryByRole('option', { name: '13:00 PM' })).toBeNull();
+    expect(screen.getByRole('option', { name: '13:30 PM' })).toBeTruthy();
+  });
+
+  it('books the chosen time and takes the deposit', async () => {
+    const user = await chooseManicureWithAna();
+
+    await user.selectOptions(screen.getByLabelText('Preferred Time *'), '10:00');
+    await user.click(screen.getByRole('button', { name: 'Confirm Appointment' }));
+
+    expect(await screen.findByText(/Appointment booked successfully with Ana Reyes/)).toBeTruthy();
+    const bookings = await bookingsRepository.list({ customerId: CUSTOMER_BEN_ID, fromDate: bookingDate, toDate: bookingDate });
+    expect(bookings).toEqual([expect.objectContaining({ bookingTime: '10:00', staffId: STAFF_ANA_ID, status: 'pending' })]);
+  });
+
+  it('offers the waitlist when the time is taken before the customer confirms', async () => {
+    const user = await chooseManicureWithAna();
+    await user.selectOptions(screen.getByLabelText('Preferred Time *'), '10:00');
+
+    await bookingsRepository.create({
+      serviceId: '5',
+      customerId: CUSTOMER_LIZA_ID,
+      staffId: STAFF_ANA_ID,
+      bookingDate,
+      bookingTime: '10:00',
+      totalPrice: 350,
+    });
+    await user.click(screen.getByRole('button', { name: 'Confirm Appointment' }));
+
+    expect(await screen.findByText(/This time slot is no longer available/)).toBeTruthy();
+    expect(screen.getByRole('heading', { name: 'Join the Waitlist' })).toBeTruthy();
+    expect(await bookingsRepository.list({ customerId: CUSTOMER_BEN_ID, fromDate: bookingDate, toDate: bookingDate })).toEqual([]);
+  });
+});
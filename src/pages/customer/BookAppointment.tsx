@@ -3,20 +3,56 @@ import React, { useState, useEffect } from 'react';
 import DashboardHeader from '@components/dashboard/DashboardHeader';
 import Button from '@components/common/Button';
 import { Service } from '@models/service';
+import { SeriesFrequency } from '@models/booking';
+import { User } from '@models/user';
+import { PaymentMethod } from '@models/payment';
+import { SessionCard } from '@models/package';
 import { useAuth } from '@context/AuthContext';
 import { useNavigate, useLocation } from 'react-router-dom';
-import { supabase } from '../../supabaseClient';
-
-// ✅ Helper: Format prices in PHP currency
-const formatCurrency = (amount: number) =>
-  new Intl.NumberFormat('en-PH', { style: 'currency', currency: 'PHP' }).format(amount);
-
-// Interface for staff data from database
-interface StaffMember {
-  id: string;
-  first_name: string;
-  last_name: string;
-  role: string;
+import { TIME_TAKEN_MESSAGE, bookingsRepository } from '@repositories/bookings';
+import { servicesRepository } from '@repositories/services';
+import { usersRepository } from '@repositories/users';
+import { sessionCardsRepository } from '@repositories/sessionCards';
+import {
+  checkStaffAvailability,
+  findLeastLoadedAvailableStaff,
+  getAvailableTimeSlots,
+  getAvailableTimeSlotsForAnyStaff
+} from '@utils/availability';
+import { fetchSpecializations, filterQualifiedStaff } from '@utils/staffSpecializations';
+import { StaffSpecialization } from '@models/staff';
+import { notifyBookingEvent } from '@utils/notifications';
+import { logStatusChange } from '@utils/bookingStatus';
+import { ONLINE_PAYMENT_METHODS, PAYMENT_METHOD_LABELS, calculateDeposit, payDeposit } from '@utils/payments';
+import { joinWaitlist, passOnExpiredOffers } from '@utils/waitlist';
+import { MAX_SERIES_OCCURRENCES } from '@utils/constants';
+import { formatCurrency } from '@utils/helpers';
+import {
+  SERIES_FREQUENCY_LABELS,
+  SeriesEnd,
+  SeriesOccurrence,
+  checkSeriesOccurrences,
+  createBookingSeries,
+  describeSkippedDates,
+  generateSeriesDates
+} from '@utils/bookingSeries';
+import {
+  PlannedVisitItem,
+  VisitItem,
+  checkVisit,
+  createVisit,
+  getVisitTotals,
+  scheduleVisitItems
+} from '@utils/bookingVisits';
+import { findRedeemableSessions, redeemSession } from '@utils/packages';
+
+// Staff select value meaning "let the salon pick the least-busy qualified staff member"
+const ANY_STAFF = 'any';
+
+// A further service in the visit, after the first one, and who should do it
+interface ExtraVisitService {
+  serviceId: string;
+  staffId: string; // A staff member's ID or ANY_STAFF
 }
 
 // Interface for preselected service
@@ -34,17 +70,36 @@ const BookAppointment: React.FC = () => {
   const location = useLocation();
 
   const [services, setServices] = useState<Service[]>([]);
-  const [staffMembers, setStaffMembers] = useState<StaffMember[]>([]);
+  const [staffMembers, setStaffMembers] = useState<User[]>([]);
+  const [specializations, setSpecializations] = useState<StaffSpecialization[]>([]);
   const [selectedServiceId, setSelectedServiceId] = useState<string>('');
   const [selectedStaffId, setSelectedStaffId] = useState<string>('');
   const [selectedDate, setSelectedDate] = useState<string>(''); // YYYY-MM-DD
   const [selectedTime, setSelectedTime] = useState<string>(''); // HH:MM
+  const [availableSlots, setAvailableSlots] = useState<string[]>([]);
+  const [slotsLoading, setSlotsLoading] = useState(false);
   const [notes, setNotes] = useState<string>('');
+  const [depositMethod, setDepositMethod] = useState<PaymentMethod>('card');
   const [loading, setLoading] = useState(false);
   const [servicesLoading, setServicesLoading] = useState(true);
   const [staffLoading, setStaffLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
+  const [showWaitlist, setShowWaitlist] = useState(false);
+  const [waitlistStart, setWaitlistStart] = useState('09:00');
+  const [waitlistEnd, setWaitlistEnd] = useState('17:00');
+  const [waitlistLoading, setWaitlistLoading] = useState(false);
+  const [repeatFrequency, setRepeatFrequency] = useState<SeriesFrequency | ''>(''); // '' books a single appointment
+  const [seriesEndType, setSeriesEndType] = useState<'count' | 'date'>('count');
+  const [seriesCount, setSeriesCount] = useState('4');
+  const [seriesEndDate, setSeriesEndDate] = useState('');
+  const [seriesPreview, setSeriesPreview] = useState<SeriesOccurrence[] | null>(null);
+  const [seriesChecking, setSeriesChecking] = useState(false);
+  const [extraServices, setExtraServices] = useState<ExtraVisitService[]>([]); // Booked back to back after the first service
+  const [visitPlan, setVisitPlan] = useState<PlannedVisitItem[] | null>(null);
+  const [visitChecking, setVisitChecking] = useState(false);
+  const [sessionCards, setSessionCards] = useState<SessionCard[]>([]); // The customer's prepaid packages
+  const [redeemItemId, setRedeemItemId] = useState(''); // '' pays the usual way
 
   // Get preselected service from navigation state
   const preselectedService = location.state?.preselectedService as PreselectedService;
@@ -55,31 +110,9 @@ const BookAppointment: React.FC = () => {
       setServicesLoading(true);
       console.log('🔄 Fetching services from Supabase...');
       
-      const { data, error } = await supabase
-        .from('services')
-        .select('*')
-        .order('service_name');
-
-      if (error) {
-        console.error('❌ Error fetching services:', error);
-        throw error;
-      }
-
+      const data = await servicesRepository.getAll('name');
       console.log('✅ Services fetched from database:', data);
-
-      // Transform data to match Service interface - ensure IDs are strings
-      const transformedServices: Service[] = (data || []).map(service => ({
-        id: service.id.toString(), // Convert ID to string
-        name: service.service_name,
-        description: service.description,
-        price: parseFloat(service.price),
-        durationMinutes: service.duration,
-        category: service.category,
-        imageUrl: service.service_img
-      }));
-
-      console.log('✅ Transformed services:', transformedServices);
-      setServices(transformedServices);
+      setServices(data);
     } catch (err: any) {
       console.error('❌ Error fetching services:', err);
       setError('Failed to load services. Please try again.');
@@ -94,25 +127,14 @@ const BookAppointment: React.FC = () => {
       setStaffLoading(true);
       console.log('🔄 Fetching staff members from Supabase...');
       
-      const { data, error } = await supabase
-        .from('users')
-        .select('id, first_name, last_name, role')
-        .eq('role', 'staff')
-        .order('first_name');
-
-      if (error) {
-        console.error('❌ Error fetching staff members:', error);
-        throw error;
-      }
+      const [staff, staffSpecializations] = await Promise.all([
+        usersRepository.getByRoles(['staff']),
+        fetchSpecializations()
+      ]);
 
-      // Ensure staff IDs are strings
-      const staffWithStringIds = (data || []).map(staff => ({
-        ...staff,
-        id: staff.id.toString() // Convert ID to string
-      }));
-
-      console.log('✅ Staff members fetched:', staffWithStringIds);
-      setStaffMembers(staffWithStringIds);
+      setSpecializations(staffSpecializations);
+      console.log('✅ Staff members fetched:', staff);
+      setStaffMembers(staff);
     } catch (err: any) {
       console.error('❌ Error fetching staff members:', err);
       setError('Failed to load staff members. Please try again.');
@@ -121,11 +143,25 @@ const BookAppointment: React.FC = () => {
     }
   };
 
+  // Prepaid packages the customer can pay with
+  const fetchSessionCards = async () => {
+    if (!user) return;
+    try {
+      setSessionCards(await sessionCardsRepository.list({ customerId: user.id }));
+    } catch (err: any) {
+      console.error('❌ Error fetching prepaid packages:', err);
+    }
+  };
+
   useEffect(() => {
     fetchServices();
     fetchStaffMembers();
   }, []);
 
+  useEffect(() => {
+    fetchSessionCards();
+  }, [user]);
+
   // Auto-select the preselected service when services are loaded
   useEffect(() => {
     if (preselectedService && services.length > 0 && !servicesLoading) {
@@ -149,50 +185,187 @@ const BookAppointment: React.FC = () => {
     }
   }, [preselectedService, services, servicesLoading]);
 
-  // Get available time slots (you can customize this based on business hours)
-  const getAvailableTimeSlots = () => {
-    const slots = [];
-    const startHour = 9; // 9 AM
-    const endHour = 18; // 6 PM
-    
-    for (let hour = startHour; hour < endHour; hour++) {
-      slots.push(`${hour.toString().padStart(2, '0')}:00`);
-      if (hour < endHour - 1) {
-        slots.push(`${hour.toString().padStart(2, '0')}:30`);
+  // Load the start times the chosen staff member can take the chosen service on the chosen date
+  useEffect(() => {
+    const service = services.find(s => s.id === selectedServiceId);
+    if (!service || !selectedStaffId || !selectedDate) {
+      setAvailableSlots([]);
+      return;
+    }
+
+    let cancelled = false;
+    const loadSlots = async () => {
+      try {
+        setSlotsLoading(true);
+        await passOnExpiredOffers();
+        const slotQuery = {
+          date: selectedDate,
+          durationMinutes: service.durationMinutes,
+          availableDays: service.availableDays,
+        };
+        // With "any staff", offer every time at least one qualified staff member is free
+        const slots = selectedStaffId === ANY_STAFF
+          ? await getAvailableTimeSlotsForAnyStaff(getSpecializedStaff(service).map(staff => staff.id), slotQuery)
+          : await getAvailableTimeSlots({ ...slotQuery, staffId: selectedStaffId });
+        if (cancelled) return;
+        setAvailableSlots(slots);
+        // Drop a previously picked time that is no longer offered
+        setSelectedTime(prev => (slots.includes(prev) ? prev : ''));
+      } catch (err: any) {
+        if (cancelled) return;
+        console.error('❌ Error loading time slots:', err);
+        setAvailableSlots([]);
+        setError(err.message || 'Failed to load available times.');
+      } finally {
+        if (!cancelled) setSlotsLoading(false);
       }
+    };
+
+    loadSlots();
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedServiceId, selectedStaffId, selectedDate, services, staffMembers, specializations]);
+
+  // A checked series is stale once anything it depends on changes
+  useEffect(() => {
+    setSeriesPreview(null);
+  }, [selectedServiceId, selectedStaffId, selectedDate, selectedTime, repeatFrequency, seriesEndType, seriesCount, seriesEndDate]);
+
+  // A checked visit is stale once any of its services, staff or times change
+  useEffect(() => {
+    setVisitPlan(null);
+  }, [selectedServiceId, selectedStaffId, selectedDate, selectedTime, extraServices]);
+
+  // Get staff members qualified for the selected service (by category or by individual service)
+  const getSpecializedStaff = (service?: Service) =>
+    filterQualifiedStaff(staffMembers, service, specializations);
+
+  const getSeriesEnd = (): SeriesEnd =>
+    seriesEndType === 'count' ? { count: parseInt(seriesCount, 10) || 0 } : { endDate: seriesEndDate };
+
+  // Checks every date of the series on its own and lists the ones that clash
+  const handleCheckSeries = async () => {
+    const service = services.find(s => s.id === selectedServiceId);
+    if (!service || !repeatFrequency || !selectedStaffId || !selectedDate || !selectedTime) return;
+
+    try {
+      setSeriesChecking(true);
+      setError(null);
+      setSeriesPreview(await checkSeriesOccurrences({
+        service,
+        staffId: selectedStaffId === ANY_STAFF ? undefined : selectedStaffId,
+        candidateStaffIds: getSpecializedStaff(service).map(staff => staff.id),
+        time: selectedTime,
+        dates: generateSeriesDates(selectedDate, repeatFrequency, getSeriesEnd()),
+      }));
+    } catch (err: any) {
+      console.error('❌ Error checking series dates:', err);
+      setError(err.message || 'Failed to check the dates in this series.');
+    } finally {
+      setSeriesChecking(false);
     }
-    return slots;
   };
 
-  // Check if a time slot is available for the selected staff
-  const isTimeSlotAvailable = async (date: string, time: string, duration: number, staffId: string): Promise<boolean> => {
+  // Books every free date of the series; dates that clash are skipped and listed
+  const handleSubmitSeries = async (service: Service, frequency: SeriesFrequency) => {
+    if (!user) return;
+
+    const { booked, skipped } = await createBookingSeries({
+      customerId: user.id,
+      service,
+      staffId: selectedStaffId === ANY_STAFF ? undefined : selectedStaffId,
+      candidateStaffIds: getSpecializedStaff(service).map(staff => staff.id),
+      startDate: selectedDate,
+      time: selectedTime,
+      frequency,
+      end: getSeriesEnd(),
+      notes,
+      depositMethod,
+    }, user);
+
+    setSeriesPreview(null);
+    setSuccess(
+      `${booked.length} appointment${booked.length === 1 ? '' : 's'} booked (${SERIES_FREQUENCY_LABELS[frequency].toLowerCase()}). ` +
+      (skipped.length > 0 ? `These dates could not be booked and were skipped: ${describeSkippedDates(skipped)}. ` : '') +
+      'You will receive a confirmation soon.'
+    );
+
+    // Leave time to read the skipped dates before moving on
+    setTimeout(() => navigate('/customer/manage-bookings'), skipped.length > 0 ? 8000 : 3000);
+  };
+
+  // The first service and every added one, in the order they run
+  const getVisitServices = (): Service[] =>
+    [selectedServiceId, ...extraServices.map(extra => extra.serviceId)]
+      .map(serviceId => services.find(s => s.id === serviceId))
+      .filter((service): service is Service => !!service);
+
+  const buildVisitItems = (): VisitItem[] => {
+    const items = [{ serviceId: selectedServiceId, staffId: selectedStaffId }, ...extraServices];
+    if (items.some(item => !item.serviceId || !item.staffId)) {
+      throw new Error('Choose a service and staff member for every service in your visit.');
+    }
+    return items.map(item => {
+      const service = services.find(s => s.id === item.serviceId)!;
+      return {
+        service,
+        staffId: item.staffId === ANY_STAFF ? undefined : item.staffId,
+        candidateStaffIds: getSpecializedStaff(service).map(staff => staff.id),
+      };
+    });
+  };
+
+  const handleAddService = () => {
+    setExtraServices(prev => [...prev, { serviceId: '', staffId: '' }]);
+  };
+
+  const handleExtraServiceChange = (index: number, changes: Partial<ExtraVisitService>) => {
+    setExtraServices(prev => prev.map((extra, i) => (i === index ? { ...extra, ...changes } : extra)));
+  };
+
+  const handleRemoveService = (index: number) => {
+    setExtraServices(prev => prev.filter((_, i) => i !== index));
+  };
+
+  // Checks each service of the visit at the time it would start
+  const handleCheckVisit = async () => {
+    if (!selectedDate || !selectedTime) return;
+
     try {
-      // Check for overlapping bookings for this staff member
-      const { data, error } = await supabase
-        .from('bookings')
-        .select('*')
-        .eq('booking_date', date)
-        .eq('booking_time', time)
-        .eq('staff_id', staffId)
-        .in('status', ['pending', 'confirmed']);
-
-      if (error) throw error;
-
-      // If no bookings found at this time for this staff, it's available
-      return data.length === 0;
-    } catch (err) {
-      console.error('Error checking time slot:', err);
-      return true; // Default to available if check fails
+      setVisitChecking(true);
+      setError(null);
+      setVisitPlan(await checkVisit(selectedDate, selectedTime, buildVisitItems()));
+    } catch (err: any) {
+      console.error('❌ Error checking visit:', err);
+      setError(err.message || 'Failed to check your visit.');
+    } finally {
+      setVisitChecking(false);
     }
   };
 
-  // Get staff members specialized in the selected service category
-  const getSpecializedStaff = (serviceCategory: string) => {
-    if (!serviceCategory) return staffMembers;
-    
-    // You can customize this logic based on your staff specializations
-    // For now, we'll return all staff, but you could add a specialization field to users table
-    return staffMembers;
+  // Books every service of the visit back to back, or none of them
+  const handleSubmitVisit = async () => {
+    if (!user) return;
+
+    const { items } = await createVisit({
+      customerId: user.id,
+      date: selectedDate,
+      startTime: selectedTime,
+      items: buildVisitItems(),
+      notes,
+      depositMethod,
+    }, user);
+
+    setSuccess(
+      'Your visit is booked: ' +
+      items.map(item => {
+        const staff = staffMembers.find(s => s.id === item.staffId);
+        return `${item.service.name} at ${item.time}${staff ? ` with ${staff.firstName}` : ''}`;
+      }).join(', ') +
+      '. You will receive a confirmation soon.'
+    );
+    setTimeout(() => navigate('/customer/manage-bookings'), 3000);
   };
 
   const handleServiceChange = (serviceId: string) => {
@@ -200,8 +373,8 @@ const BookAppointment: React.FC = () => {
     console.log('📋 Available services:', services);
     
     setSelectedServiceId(serviceId);
-    // Reset staff selection when service changes
-    setSelectedStaffId('');
+    // Reset staff selection when service changes; default to letting the salon assign someone
+    setSelectedStaffId(serviceId ? ANY_STAFF : '');
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -223,10 +396,12 @@ const BookAppointment: React.FC = () => {
     setLoading(true);
     setError(null);
     setSuccess(null);
+    await passOnExpiredOffers();
 
     // Use string comparison to ensure type consistency
     const selectedService = services.find(s => s.id === selectedServiceId);
-    const selectedStaff = staffMembers.find(s => s.id === selectedStaffId);
+    const isAnyStaff = selectedStaffId === ANY_STAFF;
+    let selectedStaff = staffMembers.find(s => s.id === selectedStaffId);
 
     console.log('🔍 Looking for service with ID:', selectedServiceId, 'Type:', typeof selectedServiceId);
     console.log('📋 Available service IDs:', services.map(s => `${s.id} (${typeof s.id})`));
@@ -240,68 +415,160 @@ const BookAppointment: React.FC = () => {
       return;
     }
 
-    if (!selectedStaff) {
+    if (!selectedStaff && !isAnyStaff) {
       setError('Selected staff member not found.');
       setLoading(false);
       return;
     }
 
     try {
-      // Check if the time slot is still available for the selected staff
-      const isAvailable = await isTimeSlotAvailable(
-        selectedDate, 
-        selectedTime, 
-        selectedService.durationMinutes, 
-        selectedStaffId
-      );
-      
-      if (!isAvailable) {
-        setError('This time slot is no longer available for the selected staff member. Please choose another time or staff member.');
-        setLoading(false);
+      if (repeatFrequency) {
+        await handleSubmitSeries(selectedService, repeatFrequency);
         return;
       }
 
-      // Create booking in Supabase - ensure we use the correct ID types
-      const bookingData = {
-        service_id: selectedServiceId, // This should match your database type
-        customer_id: user.id,
-        staff_id: selectedStaffId,
-        booking_date: selectedDate,
-        booking_time: selectedTime,
-        status: 'pending',
-        total_price: selectedService.price,
-        notes: notes || null,
-        created_at: new Date().toISOString()
-      };
+      if (extraServices.length > 0) {
+        await handleSubmitVisit();
+        return;
+      }
+
+      if (isAnyStaff) {
+        // Assign the least-loaded qualified staff member who is free for the whole service
+        const assignedStaffId = await findLeastLoadedAvailableStaff(
+          getSpecializedStaff(selectedService).map(staff => staff.id),
+          {
+            date: selectedDate,
+            time: selectedTime,
+            durationMinutes: selectedService.durationMinutes,
+          }
+        );
+        selectedStaff = staffMembers.find(s => s.id === assignedStaffId);
+
+        if (!selectedStaff) {
+          setError('No staff member is available at this time anymore. Please choose another time or join the waitlist.');
+          setShowWaitlist(true);
+          setLoading(false);
+          return;
+        }
+        console.log('✅ Auto-assigned staff:', selectedStaff);
+      } else {
+        // Check the staff member is free for the whole length of the service
+        const { available, reason } = await checkStaffAvailability({
+          staffId: selectedStaffId,
+          date: selectedDate,
+          time: selectedTime,
+          durationMinutes: selectedService.durationMinutes,
+        });
+        
+        if (!available) {
+          setError(`This time slot is no longer available for the selected staff member. ${reason} Please choose another time or staff member, or join the waitlist.`);
+          setShowWaitlist(true);
+          setLoading(false);
+          return;
+        }
+      }
 
-      console.log('📤 Creating booking with data:', bookingData);
+      // A prepaid session pays for the whole appointment at what the session was bought for
+      const bookingId = await bookingsRepository.create({
+        serviceId: selectedServiceId,
+        customerId: user.id,
+        staffId: selectedStaff!.id,
+        staffAutoAssigned: isAnyStaff,
+        bookingDate: selectedDate,
+        bookingTime: selectedTime,
+        totalPrice: redeeming ? redeeming.item.unitValue : selectedService.price,
+        notes
+      });
 
-      const { data, error } = await supabase
-        .from('bookings')
-        .insert([bookingData])
-        .select();
+      console.log('✅ Booking created successfully:', bookingId);
 
-      if (error) {
-        console.error('❌ Booking creation error:', error);
-        throw error;
+      if (redeeming) {
+        try {
+          await redeemSession(
+            { id: bookingId, customerId: user.id, serviceId: selectedServiceId, bookingDate: selectedDate },
+            redeeming.item.id,
+            user.id
+          );
+        } catch (redeemErr: any) {
+          await bookingsRepository.delete(bookingId);
+          throw new Error(`Your prepaid session could not be used, so the appointment was not booked. ${redeemErr.message}`);
+        }
+      } else {
+        // Take the deposit; a booking whose deposit fails is withdrawn
+        try {
+          await payDeposit({ id: bookingId, price: selectedService.price, serviceName: selectedService.name }, depositMethod, user.id);
+        } catch (depositErr: any) {
+          await bookingsRepository.delete(bookingId);
+          throw new Error(`Your deposit could not be processed, so the appointment was not booked. ${depositErr.message}`);
+        }
       }
 
-      console.log('✅ Booking created successfully:', data);
-      setSuccess(`Appointment booked successfully with ${selectedStaff.first_name} ${selectedStaff.last_name}! You will receive a confirmation soon.`);
+      await logStatusChange(bookingId, undefined, 'pending', user);
+
+      await notifyBookingEvent({
+        type: 'booking_created',
+        bookingId,
+        customerId: user.id,
+        serviceName: selectedService.name,
+        bookingDate: selectedDate,
+        bookingTime: selectedTime,
+        actor: 'customer'
+      });
+      setSuccess(`Appointment booked successfully with ${selectedStaff!.firstName} ${selectedStaff!.lastName}! You will receive a confirmation soon.`);
       
       // Redirect after success
       setTimeout(() => navigate('/customer/manage-bookings'), 3000);
     } catch (err: any) {
       console.error('❌ Booking error:', err);
       setError(err.message || 'Failed to book appointment. Please try again.');
+      // Someone else took the time (or the staff member picked for it) while the form was open
+      if (err.message === TIME_TAKEN_MESSAGE) setShowWaitlist(true);
     } finally {
       setLoading(false);
     }
   };
 
+  // Wait for a time to open up with the chosen staff member (or anyone) on the chosen day
+  const handleJoinWaitlist = async () => {
+    if (!user || !selectedServiceId || !selectedStaffId || !selectedDate) return;
+
+    try {
+      setWaitlistLoading(true);
+      setError(null);
+      setSuccess(null);
+
+      await joinWaitlist({
+        customerId: user.id,
+        serviceId: selectedServiceId,
+        staffId: selectedStaffId === ANY_STAFF ? undefined : selectedStaffId,
+        date: selectedDate,
+        windowStart: waitlistStart,
+        windowEnd: waitlistEnd,
+        notes,
+      });
+
+      setShowWaitlist(false);
+      setSuccess("You're on the waitlist! If a time opens up in your window, we'll hold it for you and let you know.");
+      setTimeout(() => navigate('/customer/waitlist'), 3000);
+    } catch (err: any) {
+      console.error('❌ Error joining waitlist:', err);
+      setError(err.message || 'Failed to join the waitlist. Please try again.');
+    } finally {
+      setWaitlistLoading(false);
+    }
+  };
+
   const selectedService = services.find(s => s.id === selectedServiceId);
   const selectedStaff = staffMembers.find(s => s.id === selectedStaffId);
-  const specializedStaff = getSpecializedStaff(selectedService?.category || '');
+  const specializedStaff = getSpecializedStaff(selectedService);
+  const visitServices = getVisitServices();
+  const visitTotals = getVisitTotals(visitServices);
+  const visitSlots = selectedTime ? scheduleVisitItems(visitServices, selectedTime) : [];
+  // Prepaid sessions only pay for single appointments
+  const redeemableSessions = selectedService && selectedDate && !repeatFrequency && extraServices.length === 0
+    ? findRedeemableSessions(sessionCards, selectedService.id, selectedDate)
+    : [];
+  const redeeming = redeemableSessions.find(session => session.item.id === redeemItemId);
 
   return (
     <>
@@ -406,16 +673,21 @@ const BookAppointment: React.FC = () => {
                   disabled={!selectedServiceId}
                 >
                   <option value="">-- {selectedServiceId ? 'Choose a Staff Member' : 'Select a service first'} --</option>
+                  {specializedStaff.length > 0 && (
+                    <option value={ANY_STAFF}>Any available staff</option>
+                  )}
                   {specializedStaff.map(staff => (
                     <option key={staff.id} value={staff.id}>
-                      {staff.first_name} {staff.last_name}
+                      {staff.firstName} {staff.lastName}
                     </option>
                   ))}
                 </select>
                 <small style={{ color: '#666', marginTop: '4px', display: 'block' }}>
-                  {selectedServiceId 
-                    ? `Choose from our available ${selectedService?.category} specialists`
-                    : 'Please select a service first to see available staff'
+                  {!selectedServiceId
+                    ? 'Please select a service first to see available staff'
+                    : specializedStaff.length === 0
+                      ? 'No staff members currently offer this service. Please choose another service.'
+                      : `Choose from our available ${selectedService?.category} specialists`
                   }
                 </small>
               </div>
@@ -430,7 +702,7 @@ const BookAppointment: React.FC = () => {
                   border: '1px solid #b3d9ff'
                 }}>
                   <h4 style={{ margin: '0 0 8px 0', color: '#0066cc' }}>
-                    {selectedStaff.first_name} {selectedStaff.last_name}
+                    {selectedStaff.firstName} {selectedStaff.lastName}
                   </h4>
                   <div style={{ fontSize: '14px', color: '#666' }}>
                     Professional beauty and wellness specialist
@@ -460,9 +732,18 @@ const BookAppointment: React.FC = () => {
                   value={selectedTime}
                   onChange={(e) => setSelectedTime(e.target.value)}
                   required
+                  disabled={!selectedStaffId || !selectedDate || slotsLoading}
                 >
-                  <option value="">-- Select a Time --</option>
-                  {getAvailableTimeSlots().map(time => (
+                  <option value="">
+                    -- {slotsLoading
+                      ? 'Loading available times...'
+                      : !selectedStaffId || !selectedDate
+                        ? 'Select a staff member and date first'
+                        : availableSlots.length === 0
+                          ? 'No available times on this date'
+                          : 'Select a Time'} --
+                  </option>
+                  {availableSlots.map(time => (
                     <option key={time} value={time}>
                       {parseInt(time.split(':')[0]) >= 12 
                         ? `${time} PM` 
@@ -472,10 +753,275 @@ const BookAppointment: React.FC = () => {
                   ))}
                 </select>
                 <small style={{ color: '#666', marginTop: '4px', display: 'block' }}>
-                  Business hours: 9:00 AM - 6:00 PM
+                  {selectedService?.availableDays?.length
+                    ? `${selectedService.name} is offered on ${selectedService.availableDays.join(', ')}. `
+                    : ''}
+                  Only times when the selected staff member is working and free are shown.
                 </small>
+                {selectedServiceId && selectedStaffId && selectedDate && !slotsLoading && !showWaitlist && (
+                  <Button
+                    type="button"
+                    variant="text"
+                    size="small"
+                    onClick={() => setShowWaitlist(true)}
+                    style={{ marginTop: '4px', padding: 0 }}
+                  >
+                    {availableSlots.length === 0 ? 'Fully booked? Join the waitlist' : "Can't find a time that suits you? Join the waitlist"}
+                  </Button>
+                )}
               </div>
 
+              {/* Waitlist */}
+              {showWaitlist && selectedService && selectedStaffId && selectedDate && (
+                <div style={{
+                  backgroundColor: '#fff8e1',
+                  padding: '16px',
+                  borderRadius: '8px',
+                  marginBottom: '20px',
+                  border: '1px solid #ffe082'
+                }}>
+                  <h4 style={{ margin: '0 0 8px 0', color: '#8d6e00' }}>Join the Waitlist</h4>
+                  <p style={{ margin: '0 0 12px 0', color: '#666', fontSize: '14px' }}>
+                    If a {selectedService.name} {selectedStaff ? `with ${selectedStaff.firstName} ` : ''}starting 
+                    between these times is cancelled on {new Date(selectedDate).toLocaleDateString()}, we'll hold it 
+                    for you and send you a notification to claim it.
+                  </p>
+                  <div style={{ display: 'flex', gap: '12px', flexWrap: 'wrap' }}>
+                    <div className="form-group" style={{ flex: 1, minWidth: '140px' }}>
+                      <label htmlFor="waitlist-start">Earliest Start</label>
+                      <input
+                        type="time"
+                        id="waitlist-start"
+                        value={waitlistStart}
+                        onChange={(e) => setWaitlistStart(e.target.value)}
+                        step={1800}
+                      />
+                    </div>
+                    <div className="form-group" style={{ flex: 1, minWidth: '140px' }}>
+                      <label htmlFor="waitlist-end">Latest Start</label>
+                      <input
+                        type="time"
+                        id="waitlist-end"
+                        value={waitlistEnd}
+                        onChange={(e) => setWaitlistEnd(e.target.value)}
+                        step={1800}
+                      />
+                    </div>
+                  </div>
+                  <div style={{ display: 'flex', gap: '8px' }}>
+                    <Button type="button" variant="primary" size="small" onClick={handleJoinWaitlist} disabled={waitlistLoading}>
+                      {waitlistLoading ? 'Joining...' : 'Join Waitlist'}
+                    </Button>
+                    <Button type="button" variant="secondary" size="small" onClick={() => setShowWaitlist(false)}>
+                      Never Mind
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              {/* More services in the same visit */}
+              {selectedServiceId && !repeatFrequency && (
+                <div style={{ marginBottom: '20px' }}>
+                  {extraServices.map((extra, index) => {
+                    const extraService = services.find(s => s.id === extra.serviceId);
+                    const qualifiedStaff = getSpecializedStaff(extraService);
+                    return (
+                      <div key={index} style={{
+                        backgroundColor: '#f8f9fa',
+                        padding: '12px 16px',
+                        borderRadius: '8px',
+                        marginBottom: '12px',
+                        border: '1px solid #e9ecef'
+                      }}>
+                        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
+                          <strong style={{ color: '#2c5530' }}>
+                            Then{extraService && visitSlots[index + 1] ? `, at ${visitSlots[index + 1].time}` : ''}
+                          </strong>
+                          <Button type="button" variant="text" size="small" onClick={() => handleRemoveService(index)} style={{ color: '#d32f2f' }}>
+                            Remove
+                          </Button>
+                        </div>
+                        <div style={{ display: 'flex', gap: '12px', flexWrap: 'wrap' }}>
+                          <div className="form-group" style={{ flex: 2, minWidth: '180px' }}>
+                            <label htmlFor={`extra-service-${index}`}>Service</label>
+                            <select
+                              id={`extra-service-${index}`}
+                              value={extra.serviceId}
+                              onChange={(e) => handleExtraServiceChange(index, { serviceId: e.target.value, staffId: e.target.value ? ANY_STAFF : '' })}
+                              required
+                            >
+                              <option value="">-- Choose a Service --</option>
+                              {services.map(service => (
+                                <option key={service.id} value={service.id}>
+                                  {service.name} - {formatCurrency(service.price)} ({service.durationMinutes} min)
+                                </option>
+                              ))}
+                            </select>
+                          </div>
+                          <div className="form-group" style={{ flex: 1, minWidth: '160px' }}>
+                            <label htmlFor={`extra-staff-${index}`}>Staff</label>
+                            <select
+                              id={`extra-staff-${index}`}
+                              value={extra.staffId}
+                              onChange={(e) => handleExtraServiceChange(index, { staffId: e.target.value })}
+                              required
+                              disabled={!extra.serviceId}
+                            >
+                              <option value="">-- Choose a Staff Member --</option>
+                              {qualifiedStaff.length > 0 && <option value={ANY_STAFF}>Any available staff</option>}
+                              {qualifiedStaff.map(staff => (
+                                <option key={staff.id} value={staff.id}>{staff.firstName} {staff.lastName}</option>
+                              ))}
+                            </select>
+                          </div>
+                        </div>
+                      </div>
+                    );
+                  })}
+
+                  <div style={{ display: 'flex', gap: '8px', alignItems: 'center', flexWrap: 'wrap' }}>
+                    <Button type="button" variant="secondary" size="small" onClick={handleAddService}>
+                      + Add Another Service
+                    </Button>
+                    {extraServices.length > 0 && (
+                      <Button
+                        type="button"
+                        variant="secondary"
+                        size="small"
+                        onClick={handleCheckVisit}
+                        disabled={visitChecking || !selectedDate || !selectedTime}
+                      >
+                        {visitChecking ? 'Checking Visit...' : 'Check Visit'}
+                      </Button>
+                    )}
+                    <small style={{ color: '#666' }}>
+                      {extraServices.length > 0
+                        ? `Services run back to back: ${visitTotals.durationMinutes} minutes in all.`
+                        : 'Book more services in the same visit, one after another.'}
+                    </small>
+                  </div>
+
+                  {visitPlan && (
+                    <ul style={{ listStyle: 'none', padding: 0, margin: '12px 0 0 0', fontSize: '14px' }}>
+                      {visitPlan.map((item, index) => (
+                        <li key={index} style={{ padding: '4px 0', color: item.available ? '#2e7d32' : '#c62828' }}>
+                          {item.available ? '✅' : '❌'} {item.time}–{item.endTime} {item.service.name}
+                          {item.available
+                            ? ` with ${staffMembers.find(staff => staff.id === item.staffId)?.firstName || 'staff'}`
+                            : ` — ${item.reason}`}
+                        </li>
+                      ))}
+                      {visitPlan.some(item => !item.available) && (
+                        <li style={{ paddingTop: '8px', color: '#666' }}>
+                          The whole visit is booked together, so choose another start time or staff member for the services marked ❌.
+                        </li>
+                      )}
+                    </ul>
+                  )}
+                </div>
+              )}
+
+              {/* Repeat */}
+              {extraServices.length === 0 && (
+                <div className="form-group">
+                  <label htmlFor="repeat">Repeat</label>
+                  <select
+                    id="repeat"
+                    value={repeatFrequency}
+                    onChange={(e) => setRepeatFrequency(e.target.value as SeriesFrequency | '')}
+                  >
+                    <option value="">Does not repeat</option>
+                    {(Object.keys(SERIES_FREQUENCY_LABELS) as SeriesFrequency[]).map(frequency => (
+                      <option key={frequency} value={frequency}>{SERIES_FREQUENCY_LABELS[frequency]}</option>
+                    ))}
+                  </select>
+                  <small style={{ color: '#666', marginTop: '4px', display: 'block' }}>
+                    Book the same service at the same time on a regular schedule, up to {MAX_SERIES_OCCURRENCES} appointments.
+                  </small>
+                </div>
+              )}
+
+              {repeatFrequency && (
+                <div style={{
+                  backgroundColor: '#f8f9fa',
+                  padding: '16px',
+                  borderRadius: '8px',
+                  marginBottom: '20px',
+                  border: '1px solid #e9ecef'
+                }}>
+                  <div style={{ display: 'flex', gap: '12px', flexWrap: 'wrap' }}>
+                    <div className="form-group" style={{ flex: 1, minWidth: '140px' }}>
+                      <label htmlFor="series-end-type">Ends</label>
+                      <select
+                        id="series-end-type"
+                        value={seriesEndType}
+                        onChange={(e) => setSeriesEndType(e.target.value as 'count' | 'date')}
+                      >
+                        <option value="count">After a number of appointments</option>
+                        <option value="date">On a date</option>
+                      </select>
+                    </div>
+                    {seriesEndType === 'count' ? (
+                      <div className="form-group" style={{ flex: 1, minWidth: '140px' }}>
+                        <label htmlFor="series-count">Appointments</label>
+                        <input
+                          type="number"
+                          id="series-count"
+                          min="2"
+                          max={MAX_SERIES_OCCURRENCES}
+                          value={seriesCount}
+                          onChange={(e) => setSeriesCount(e.target.value)}
+                          required
+                        />
+                      </div>
+                    ) : (
+                      <div className="form-group" style={{ flex: 1, minWidth: '140px' }}>
+                        <label htmlFor="series-end-date">Last Date</label>
+                        <input
+                          type="date"
+                          id="series-end-date"
+                          value={seriesEndDate}
+                          onChange={(e) => setSeriesEndDate(e.target.value)}
+                          min={selectedDate || new Date().toISOString().split('T')[0]}
+                          required
+                        />
+                      </div>
+                    )}
+                  </div>
+
+                  <Button
+                    type="button"
+                    variant="secondary"
+                    size="small"
+                    onClick={handleCheckSeries}
+                    disabled={seriesChecking || !selectedStaffId || !selectedDate || !selectedTime}
+                  >
+                    {seriesChecking ? 'Checking Dates...' : 'Check Dates'}
+                  </Button>
+                  <small style={{ color: '#666', marginLeft: '8px' }}>
+                    {!selectedTime
+                      ? 'Choose the first date and time to check the rest of the series.'
+                      : 'Each date is checked on its own; dates that are taken are skipped when you book.'}
+                  </small>
+
+                  {seriesPreview && (
+                    <ul style={{ listStyle: 'none', padding: 0, margin: '12px 0 0 0', fontSize: '14px' }}>
+                      {seriesPreview.map(occurrence => (
+                        <li key={occurrence.date} style={{ padding: '4px 0', color: occurrence.available ? '#2e7d32' : '#c62828' }}>
+                          {occurrence.available ? '✅' : '❌'} {new Date(`${occurrence.date}T00:00`).toLocaleDateString()}
+                          {occurrence.available
+                            ? ` with ${staffMembers.find(staff => staff.id === occurrence.staffId)?.firstName || 'staff'}`
+                            : ` — ${occurrence.reason}`}
+                        </li>
+                      ))}
+                      <li style={{ paddingTop: '8px', color: '#666' }}>
+                        {seriesPreview.filter(occurrence => occurrence.available).length} of {seriesPreview.length} dates can be booked.
+                      </li>
+                    </ul>
+                  )}
+                </div>
+              )}
+
               {/* Notes */}
               <div className="form-group">
                 <label htmlFor="notes">Special Requests or Notes (Optional)</label>
@@ -489,6 +1035,50 @@ const BookAppointment: React.FC = () => {
                 ></textarea>
               </div>
 
+              {/* Prepaid packages */}
+              {redeemableSessions.length > 0 && (
+                <div className="form-group">
+                  <label htmlFor="redeem-session">Pay With a Prepaid Package</label>
+                  <select
+                    id="redeem-session"
+                    value={redeeming ? redeemItemId : ''}
+                    onChange={(e) => setRedeemItemId(e.target.value)}
+                  >
+                    <option value="">Don't use a package; pay a deposit</option>
+                    {redeemableSessions.map(({ card, item }) => (
+                      <option key={item.id} value={item.id}>
+                        {card.packageName} ({item.remaining} of {item.sessions} left{card.expiresAt ? `, expires ${new Date(card.expiresAt).toLocaleDateString()}` : ''})
+                      </option>
+                    ))}
+                  </select>
+                  <small style={{ color: '#666', marginTop: '4px', display: 'block' }}>
+                    One session is used for this appointment and goes back on your package if you cancel in time. No deposit is charged.
+                  </small>
+                </div>
+              )}
+
+              {/* Deposit */}
+              {selectedService && !redeeming && calculateDeposit(selectedService.price) > 0 && (
+                <div className="form-group">
+                  <label htmlFor="deposit-method">Deposit Payment Method</label>
+                  <select
+                    id="deposit-method"
+                    value={depositMethod}
+                    onChange={(e) => setDepositMethod(e.target.value as PaymentMethod)}
+                  >
+                    {ONLINE_PAYMENT_METHODS.map(method => (
+                      <option key={method} value={method}>{PAYMENT_METHOD_LABELS[method]}</option>
+                    ))}
+                  </select>
+                  <small style={{ color: '#666', marginTop: '4px', display: 'block' }}>
+                    {extraServices.length > 0
+                      ? `A deposit of ${formatCurrency(visitServices.reduce((sum, service) => sum + calculateDeposit(service.price), 0))} for the visit is charged now`
+                      : `A deposit of ${formatCurrency(calculateDeposit(selectedService.price))} is charged now${repeatFrequency ? ' for each appointment in the series' : ''}`}; 
+                    the rest is paid at the salon. Deposits are refunded if the appointment is cancelled.
+                  </small>
+                </div>
+              )}
+
               {/* Feedback Messages */}
               {error && (
                 <div style={{
@@ -524,11 +1114,13 @@ const BookAppointment: React.FC = () => {
                 disabled={loading || !selectedServiceId || !selectedStaffId || !selectedDate || !selectedTime}
                 style={{ width: '100%', marginTop: '16px' }}
               >
-                {loading ? 'Booking Appointment...' : 'Confirm Appointment'}
+                {loading
+                  ? 'Booking Appointment...'
+                  : repeatFrequency ? 'Confirm Series' : extraServices.length > 0 ? 'Confirm Visit' : 'Confirm Appointment'}
               </Button>
 
               {/* Booking Summary */}
-              {selectedService && selectedStaff && selectedDate && selectedTime && (
+              {selectedService && (selectedStaff || selectedStaffId === ANY_STAFF) && selectedDate && selectedTime && (
                 <div style={{
                   backgroundColor: '#e8f4fd',
                   padding: '16px',
@@ -541,10 +1133,44 @@ const BookAppointment: React.FC = () => {
                   </h5>
                   <div style={{ fontSize: '14px', lineHeight: '1.5' }}>
                     <div><strong>Service:</strong> {selectedService.name}</div>
-                    <div><strong>Staff:</strong> {selectedStaff.first_name} {selectedStaff.last_name}</div>
+                    <div>
+                      <strong>Staff:</strong> {selectedStaff
+                        ? `${selectedStaff.firstName} ${selectedStaff.lastName}`
+                        : 'Any available staff (assigned when you confirm)'}
+                    </div>
                     <div><strong>Date:</strong> {new Date(selectedDate).toLocaleDateString()}</div>
                     <div><strong>Time:</strong> {selectedTime}</div>
-                    <div><strong>Total:</strong> {formatCurrency(selectedService.price)}</div>
+                    {repeatFrequency && (
+                      <div>
+                        <strong>Repeats:</strong> {SERIES_FREQUENCY_LABELS[repeatFrequency]}
+                        {seriesPreview && ` (${seriesPreview.filter(occurrence => occurrence.available).length} available dates)`}
+                      </div>
+                    )}
+                    {extraServices.length > 0 && (
+                      <div>
+                        <strong>Then:</strong> {visitServices.slice(1).map((service, index) =>
+                          `${service.name}${visitSlots[index + 1] ? ` at ${visitSlots[index + 1].time}` : ''}`
+                        ).join(', ')}
+                        {visitSlots.length > 0 && ` (ends at ${visitSlots[visitSlots.length - 1].endTime})`}
+                      </div>
+                    )}
+                    <div>
+                      <strong>Total:</strong> {redeeming
+                        ? `1 session from ${redeeming.card.packageName}`
+                        : formatCurrency(extraServices.length > 0 ? visitTotals.price : selectedService.price)}
+                      {repeatFrequency && ' per appointment'}
+                      {extraServices.length > 0 && ` for ${visitServices.length} services`}
+                    </div>
+                    {!redeeming && calculateDeposit(selectedService.price) > 0 && (
+                      <div>
+                        <strong>Deposit due now:</strong> {repeatFrequency && seriesPreview
+                          ? formatCurrency(calculateDeposit(selectedService.price) * seriesPreview.filter(occurrence => occurrence.available).length)
+                          : extraServices.length > 0
+                            ? formatCurrency(visitServices.reduce((sum, service) => sum + calculateDeposit(service.price), 0))
+                            : formatCurrency(calculateDeposit(selectedService.price))}
+                        {repeatFrequency && !seriesPreview && ' per appointment'}
+                      </div>
+                    )}
                   </div>
                 </div>
               )}
@@ -0,0 +1,73 @@
+// @vitest-environment jsdom
+// src/pages/customer/CancelReschedule.test.tsx
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, fireEvent, render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MemoryRouter } from 'react-router-dom';
+import { CUSTOMER_BEN_ID, CUSTOMER_LIZA_ID, STAFF_ANA_ID } from '../../mocks/fixtures';
+import { bookingsRepository } from '@repositories/bookings';
+import { TEST_TODAY } from '../../test/clock';
+import { addDays } from '@utils/helpers';
+import CancelReschedule from './CancelReschedule';
+
+// Liza is signed in. The same object every render, as the real context gives.
+vi.mock('@context/AuthContext', () => {
+  const auth = {
+    user: { id: CUSTOMER_LIZA_ID, email: 'liza@example.com', first_name: 'Liza', last_name: 'Cruz', role: 'customer' },
+    logout: vi.fn(),
+  };
+  return { useAuth: () => auth };
+});
+
+afterEach(cleanup);
+
+const newDate = addDays(TEST_TODAY, 20);
+
+// Opens the reschedule form for Liza's manicure with Ana (booking 9) and picks a new date
+const openRescheduleForManicure = async () => {
+  const user = userEvent.setup();
+  render(<MemoryRouter><CancelReschedule /></MemoryRouter>);
+
+  const when = `${new Date(addDays(TEST_TODAY, 18)).toLocaleDateString()} at 11:00`;
+  const row = (await screen.findByText(when)).closest('tr')!;
+  await user.click(within(row).getByRole('button', { name: 'Reschedule' }));
+
+  fireEvent.change(screen.getByLabelText('New Date *'), { target: { value: newDate } });
+  await screen.findByRole('option', { name: '14:00 PM' });
+  return user;
+};
+
+describe('rescheduling a booking', () => {
+  it('moves the booking and sends it back for approval', async () => {
+    const user = await openRescheduleForManicure();
+
+    await user.selectOptions(screen.getByLabelText('New Time *'), '14:00');
+    await user.click(screen.getByRole('button', { name: 'Confirm Reschedule' }));
+
+    expect(await screen.findByText(/Booking rescheduled successfully!/)).toBeTruthy();
+    expect(await bookingsRepository.getById('9')).toMatchObject({
+      bookingDate: newDate,
+      bookingTime: '14:00',
+      status: 'pending',
+      rescheduleCount: 1,
+    });
+  });
+
+  it('keeps the booking where it was when the new time is taken before confirming', async () => {
+    const user = await openRescheduleForManicure();
+    await user.selectOptions(screen.getByLabelText('New Time *'), '14:00');
+
+    await bookingsRepository.create({
+      serviceId: '5',
+      customerId: CUSTOMER_BEN_ID,
+      staffId: STAFF_ANA_ID,
+      bookingDate: newDate,
+      bookingTime: '14:00',
+      totalPrice: 350,
+    });
+    await user.click(screen.getByRole('button', { name: 'Confirm Reschedule' }));
+
+    expect(await screen.findByText(/This time slot is no longer available/)).toBeTruthy();
+    expect(await bookingsRepository.getById('9')).toMatchObject({ bookingDate: addDays(TEST_TODAY, 18), bookingTime: '11:00' });
+  });
+});
@@ -6,27 +6,39 @@ import { Link } from 'react-router-dom';
 import Table from '@components/dashboard/Table';
 import Button from '@components/common/Button';
 import Modal from '@components/common/Modal';
+import BookingPolicySummary from '@components/dashboard/BookingPolicySummary';
+import SeriesScopeOptions from '@components/dashboard/SeriesScopeOptions';
+import VisitCancelOption from '@components/dashboard/VisitCancelOption';
 import { useModal } from '@hooks/useModal';
-import { Booking, BookingStatus } from '@models/booking';
+import { Booking, BookingPolicy } from '@models/booking';
 import { formatCurrency, formatDate } from '@utils/helpers';
-import { supabase } from '../../supabaseClient';
-
-interface BookingWithRelations extends Booking {
-  service_name: string;
-  service_price: number;
-  service_duration: number;
-  customer_name: string;
-  customer_email: string;
-  staff_name: string;
-  staff_email: string;
-  booking_date: string;
-  booking_time: string;
-}
+import { STATUS_COLORS, STATUS_LABELS, changeBookingStatus } from '@utils/bookingStatus';
+import { bookingsRepository } from '@repositories/bookings';
+import { notifyBookingEvent } from '@utils/notifications';
+import { checkStaffAvailability } from '@utils/availability';
+import { useRescheduleSlots } from '@hooks/useRescheduleSlots';
+import { buildBookingCalendar, downloadCalendarFile } from '@utils/icalendar';
+import { offerCancelledBookingSlot } from '@utils/waitlist';
+import {
+  CancellationTerms,
+  describeCancellationTerms,
+  fetchBookingPolicy,
+  fetchCancellationTerms,
+  getRescheduleRestriction,
+} from '@utils/bookingPolicy';
+import {
+  SERIES_FREQUENCY_LABELS,
+  cancelLaterOccurrences,
+  describeSeriesUpdate,
+  getLaterOccurrences,
+  rescheduleLaterOccurrences,
+} from '@utils/bookingSeries';
+import { cancelVisit, getVisitBookings } from '@utils/bookingVisits';
 
 const CustomerDashboard: React.FC = () => {
   const { user } = useAuth();
-  const [bookings, setBookings] = useState<BookingWithRelations[]>([]);
-  const [selectedBooking, setSelectedBooking] = useState<BookingWithRelations | null>(null);
+  const [bookings, setBookings] = useState<Booking[]>([]);
+  const [selectedBooking, setSelectedBooking] = useState<Booking | null>(null);
   const { isOpen: isCancelModalOpen, openModal: openCancelModal, closeModal: closeCancelModal } = useModal();
   const { isOpen: isRescheduleModalOpen, openModal: openRescheduleModal, closeModal: closeRescheduleModal } = useModal();
   const [rescheduleDate, setRescheduleDate] = useState<string>('');
@@ -35,6 +47,11 @@ const CustomerDashboard: React.FC = () => {
   const [bookingsLoading, setBookingsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
+  const [calendarUpdate, setCalendarUpdate] = useState<Booking | null>(null); // The booking as changed, for updating the customer's calendar
+  const [bookingPolicy, setBookingPolicy] = useState<BookingPolicy | null>(null);
+  const [cancellationTerms, setCancellationTerms] = useState<CancellationTerms | null>(null);
+  const [applyToSeries, setApplyToSeries] = useState(false); // Also change the later appointments in the booking's series
+  const [cancelWholeVisit, setCancelWholeVisit] = useState(true); // Cancel every service booked in the same visit
 
   // Fetch customer bookings from Supabase - Only pending and confirmed
   const fetchCustomerBookings = async () => {
@@ -47,45 +64,10 @@ const CustomerDashboard: React.FC = () => {
         return;
       }
 
-      const { data, error } = await supabase
-        .from('bookings')
-        .select(`
-          *,
-          services:service_id (service_name, price, duration),
-          customers:customer_id (first_name, last_name, email),
-          staff:staff_id (first_name, last_name, email)
-        `)
-        .eq('customer_id', user.id)
-        .in('status', ['pending', 'confirmed']) // Only fetch pending and confirmed bookings
-        .order('booking_date', { ascending: true })
-        .order('booking_time', { ascending: true });
-
-      if (error) throw error;
-
-      // Transform data to match our interface
-      const customerBookings: BookingWithRelations[] = (data || []).map(booking => ({
-        id: booking.id,
-        serviceId: booking.service_id,
-        serviceName: booking.services?.service_name || 'Unknown Service',
-        service_name: booking.services?.service_name || 'Unknown Service',
-        service_price: booking.services?.price || 0,
-        service_duration: booking.services?.duration || 60,
-        customerId: booking.customer_id,
-        customerName: `${booking.customers?.first_name || ''} ${booking.customers?.last_name || ''}`.trim() || 'Unknown Customer',
-        customer_name: `${booking.customers?.first_name || ''} ${booking.customers?.last_name || ''}`.trim() || 'Unknown Customer',
-        customer_email: booking.customers?.email || '',
-        staffId: booking.staff_id,
-        staffName: booking.staff ? `${booking.staff.first_name || ''} ${booking.staff.last_name || ''}`.trim() : 'Unassigned',
-        staff_name: booking.staff ? `${booking.staff.first_name || ''} ${booking.staff.last_name || ''}`.trim() : 'Unassigned',
-        staff_email: booking.staff?.email || '',
-        startTime: booking.booking_date ? `${booking.booking_date}T${booking.booking_time}` : '',
-        endTime: booking.booking_date ? `${booking.booking_date}T${booking.booking_time}` : '',
-        booking_date: booking.booking_date,
-        booking_time: booking.booking_time,
-        status: booking.status as BookingStatus,
-        price: booking.total_price || booking.services?.price || 0,
-        notes: booking.notes || ''
-      }));
+      const customerBookings = await bookingsRepository.list({
+        customerId: user.id,
+        statuses: ['pending', 'confirmed'] // Only fetch pending and confirmed bookings
+      });
 
       setBookings(customerBookings);
     } catch (err: any) {
@@ -100,9 +82,30 @@ const CustomerDashboard: React.FC = () => {
     fetchCustomerBookings();
   }, [user]);
 
-  const handleCancelClick = (booking: BookingWithRelations) => {
+  // Customers see the policy before they cancel or reschedule
+  useEffect(() => {
+    fetchBookingPolicy()
+      .then(setBookingPolicy)
+      .catch(err => console.error('❌ Error loading booking policy:', err));
+  }, []);
+
+  // Downloads the booking's calendar event; cancelled bookings download as a cancellation
+  const handleAddToCalendar = (booking: Booking) => {
+    downloadCalendarFile(buildBookingCalendar(booking), `appointment-${booking.id}`);
+  };
+
+  const handleCancelClick = async (booking: Booking) => {
     setSelectedBooking(booking);
+    setCancellationTerms(null);
+    setApplyToSeries(false);
+    setCancelWholeVisit(true);
     openCancelModal();
+
+    try {
+      setCancellationTerms(await fetchCancellationTerms(booking));
+    } catch (err) {
+      console.error('❌ Error checking cancellation policy:', err);
+    }
   };
 
   const handleConfirmCancel = async () => {
@@ -111,20 +114,44 @@ const CustomerDashboard: React.FC = () => {
     setLoading(true);
     setError(null);
     setSuccess(null);
+    setCalendarUpdate(null);
 
     try {
-      const { error } = await supabase
-        .from('bookings')
-        .update({ 
-          status: 'cancelled',
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', selectedBooking.id)
-        .eq('customer_id', user.id);
-
-      if (error) throw error;
-
-      setSuccess('Booking cancelled successfully!');
+      if (selectedBooking.visitId && cancelWholeVisit) {
+        // Every service in the visit is checked before any is cancelled
+        const { cancelled, warnings } = await cancelVisit(selectedBooking, user, { owner: { customerId: user.id } });
+        setSuccess(
+          `Your visit was cancelled (${cancelled.length} services).` +
+          (warnings.length > 0 ? ` ${warnings.join(' ')} Please contact the salon.` : '')
+        );
+      } else {
+        // Customers can only cancel their own bookings
+        const warnings = await changeBookingStatus(selectedBooking, 'cancelled', user, { owner: { customerId: user.id } });
+
+        await notifyBookingEvent({
+          type: 'booking_cancelled',
+          bookingId: selectedBooking.id,
+          customerId: user.id,
+          serviceName: selectedBooking.serviceName,
+          bookingDate: selectedBooking.bookingDate,
+          bookingTime: selectedBooking.bookingTime,
+          actor: 'customer'
+        });
+
+        // Give the freed time to the first customer waiting for it
+        await offerCancelledBookingSlot(selectedBooking);
+
+        const seriesUpdate = applyToSeries
+          ? await cancelLaterOccurrences(selectedBooking, user, { owner: { customerId: user.id } })
+          : null;
+
+        setSuccess(
+          'Booking cancelled successfully!' +
+          (warnings.length > 0 ? ` ${warnings.join(' ')} Please contact the salon.` : '') +
+          (seriesUpdate ? ` ${describeSeriesUpdate(seriesUpdate, 'cancelled')}` : '')
+        );
+      }
+      setCalendarUpdate(await bookingsRepository.getById(selectedBooking.id));
       await fetchCustomerBookings(); // Refresh the list
     } catch (err: any) {
       console.error('Cancellation error:', err);
@@ -135,38 +162,16 @@ const CustomerDashboard: React.FC = () => {
     }
   };
 
-  const handleRescheduleClick = (booking: BookingWithRelations) => {
+  const handleRescheduleClick = (booking: Booking) => {
     setSelectedBooking(booking);
-    setRescheduleDate(booking.booking_date || '');
-    setRescheduleTime(booking.booking_time || '');
+    setRescheduleDate(booking.bookingDate || '');
+    setRescheduleTime(booking.bookingTime || '');
+    setApplyToSeries(false);
     openRescheduleModal();
   };
 
-  // Check if a time slot is available for rescheduling
-  const isTimeSlotAvailable = async (date: string, time: string, staffId: string, excludeBookingId?: string): Promise<boolean> => {
-    try {
-      let query = supabase
-        .from('bookings')
-        .select('*')
-        .eq('booking_date', date)
-        .eq('booking_time', time)
-        .eq('staff_id', staffId)
-        .in('status', ['pending', 'confirmed']);
-
-      if (excludeBookingId) {
-        query = query.neq('id', excludeBookingId);
-      }
-
-      const { data, error } = await query;
-
-      if (error) throw error;
-
-      return data.length === 0;
-    } catch (err) {
-      console.error('Error checking time slot:', err);
-      return true;
-    }
-  };
+  // Set when the policy doesn't allow this booking to be moved
+  const rescheduleRestriction = selectedBooking && bookingPolicy ? getRescheduleRestriction(selectedBooking, bookingPolicy) : null;
 
   const handleConfirmReschedule = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -178,39 +183,57 @@ const CustomerDashboard: React.FC = () => {
     setLoading(true);
     setError(null);
     setSuccess(null);
+    setCalendarUpdate(null);
 
     try {
       if (selectedBooking.staffId) {
-        const isAvailable = await isTimeSlotAvailable(
-          rescheduleDate, 
-          rescheduleTime, 
-          selectedBooking.staffId,
-          selectedBooking.id
-        );
+        const { available, reason } = await checkStaffAvailability({
+          staffId: selectedBooking.staffId,
+          date: rescheduleDate,
+          time: rescheduleTime,
+          durationMinutes: selectedBooking.durationMinutes,
+          excludeBookingId: selectedBooking.id
+        });
         
-        if (!isAvailable) {
-          setError('This time slot is no longer available. Please choose another time.');
+        if (!available) {
+          setError(`This time slot is no longer available. ${reason} Please choose another time.`);
           setLoading(false);
           return;
         }
       }
 
-      const updateData = {
-        booking_date: rescheduleDate,
-        booking_time: rescheduleTime,
-        status: 'pending',
-        updated_at: new Date().toISOString()
-      };
-
-      const { error } = await supabase
-        .from('bookings')
-        .update(updateData)
-        .eq('id', selectedBooking.id)
-        .eq('customer_id', user.id);
-
-      if (error) throw error;
-
-      setSuccess('Booking rescheduled successfully! Status changed to pending for admin approval.');
+      // Rescheduled bookings go back to pending for admin approval
+      await changeBookingStatus(selectedBooking, 'pending', user, {
+        changes: { bookingDate: rescheduleDate, bookingTime: rescheduleTime },
+        owner: { customerId: user.id },
+        note: 'Rescheduled'
+      });
+
+      await notifyBookingEvent({
+        type: 'booking_rescheduled',
+        bookingId: selectedBooking.id,
+        customerId: user.id,
+        serviceName: selectedBooking.serviceName,
+        bookingDate: rescheduleDate,
+        bookingTime: rescheduleTime,
+        actor: 'customer'
+      });
+
+      // The rest of the series moves by the same number of days, each date checked on its own
+      const seriesUpdate = applyToSeries
+        ? await rescheduleLaterOccurrences(
+          selectedBooking,
+          { date: rescheduleDate, time: rescheduleTime },
+          user,
+          { owner: { customerId: user.id }, status: 'pending' }
+        )
+        : null;
+
+      setSuccess(
+        'Booking rescheduled successfully! Status changed to pending for admin approval.' +
+        (seriesUpdate ? ` ${describeSeriesUpdate(seriesUpdate, 'rescheduled')}` : '')
+      );
+      setCalendarUpdate(await bookingsRepository.getById(selectedBooking.id));
       await fetchCustomerBookings();
     } catch (err: any) {
       console.error('Reschedule error:', err);
@@ -221,20 +244,19 @@ const CustomerDashboard: React.FC = () => {
     }
   };
 
-  // Get available time slots for rescheduling
-  const getAvailableTimeSlots = () => {
-    const slots = [];
-    const startHour = 9;
-    const endHour = 18;
-    
-    for (let hour = startHour; hour < endHour; hour++) {
-      slots.push(`${hour.toString().padStart(2, '0')}:00`);
-      if (hour < endHour - 1) {
-        slots.push(`${hour.toString().padStart(2, '0')}:30`);
-      }
+  // Times the booking's staff member can take this service on the new date
+  const { availableSlots, slotsLoading, slotsError } = useRescheduleSlots(
+    selectedBooking,
+    rescheduleDate,
+    isRescheduleModalOpen
+  );
+
+  // Drop a previously picked time that is no longer offered
+  useEffect(() => {
+    if (!slotsLoading) {
+      setRescheduleTime(prev => (availableSlots.includes(prev) ? prev : ''));
     }
-    return slots;
-  };
+  }, [availableSlots, slotsLoading]);
 
   const formatDateTime = (date: string, time: string) => {
     if (!date) return 'N/A';
@@ -254,51 +276,64 @@ const CustomerDashboard: React.FC = () => {
     { 
       header: 'Service', 
       key: 'serviceName',
-      render: (item: BookingWithRelations) => item.service_name
+      render: (item: Booking) => (
+        <div>
+          <div>{item.serviceName}</div>
+          {item.seriesId && (
+            <div style={{ fontSize: '0.8rem', color: '#666' }}>
+              🔁 {item.seriesFrequency ? SERIES_FREQUENCY_LABELS[item.seriesFrequency] : 'Recurring'}
+            </div>
+          )}
+          {item.visitId && (
+            <div style={{ fontSize: '0.8rem', color: '#666' }}>
+              ➕ Part of a multi-service visit
+            </div>
+          )}
+        </div>
+      )
     },
     { 
       header: 'Date & Time', 
       key: 'datetime',
-      render: (item: BookingWithRelations) => formatDateTime(item.booking_date, item.booking_time)
+      render: (item: Booking) => formatDateTime(item.bookingDate, item.bookingTime)
     },
     { 
       header: 'Staff', 
       key: 'staffName',
-      render: (item: BookingWithRelations) => item.staff_name || 'Unassigned'
+      render: (item: Booking) => item.staffName || 'Unassigned'
     },
     { 
       header: 'Price', 
       key: 'price',
-      render: (item: BookingWithRelations) => formatCurrency(item.price)
+      render: (item: Booking) => formatCurrency(item.price)
     },
     { 
       header: 'Status', 
       key: 'status',
-      render: (item: BookingWithRelations) => (
+      render: (item: Booking) => (
         <span style={{ 
           padding: '4px 8px', 
           borderRadius: '12px', 
           fontSize: '12px',
           fontWeight: 'bold',
-          backgroundColor: 
-            item.status === 'confirmed' ? '#e8f5e8' :
-            item.status === 'pending' ? '#fff3e0' : '#e3f2fd',
-          color: 
-            item.status === 'confirmed' ? '#2e7d32' :
-            item.status === 'pending' ? '#f57c00' : '#1565c0'
+          backgroundColor: STATUS_COLORS[item.status].background,
+          color: STATUS_COLORS[item.status].color
         }}>
-          {item.status.charAt(0).toUpperCase() + item.status.slice(1)}
+          {STATUS_LABELS[item.status]}
         </span>
       )
     },
     {
       header: 'Actions',
       key: 'actions',
-      render: (item: BookingWithRelations) => (
+      render: (item: Booking) => (
         <div style={{ display: 'flex', gap: '8px' }}>
           <Button variant="secondary" size="small" onClick={() => handleRescheduleClick(item)}>
             Reschedule
           </Button>
+          <Button variant="text" size="small" onClick={() => handleAddToCalendar(item)}>
+            Add to Calendar
+          </Button>
           <Button 
             variant="text" 
             size="small" 
@@ -386,6 +421,13 @@ const CustomerDashboard: React.FC = () => {
             textAlign: 'center'
           }}>
             {success}
+            {calendarUpdate && (
+              <div style={{ marginTop: '8px' }}>
+                <Button variant="secondary" size="small" onClick={() => handleAddToCalendar(calendarUpdate)}>
+                  {calendarUpdate.status === 'cancelled' ? 'Remove from My Calendar' : 'Update My Calendar'}
+                </Button>
+              </div>
+            )}
           </div>
         )}
 
@@ -495,7 +537,28 @@ const CustomerDashboard: React.FC = () => {
       <Modal isOpen={isCancelModalOpen} onClose={closeCancelModal} title="Confirm Cancellation">
         {selectedBooking && (
           <>
-            <p>Are you sure you want to cancel your appointment for <strong>{selectedBooking.service_name}</strong> on <strong>{formatDateTime(selectedBooking.booking_date, selectedBooking.booking_time)}</strong>?</p>
+            <p>Are you sure you want to cancel your appointment for <strong>{selectedBooking.serviceName}</strong> on <strong>{formatDateTime(selectedBooking.bookingDate, selectedBooking.bookingTime)}</strong>?</p>
+            {cancellationTerms ? (
+              <p style={{ color: cancellationTerms.penalty !== 'none' ? '#e65100' : '#2e7d32', fontSize: '14px', fontWeight: 'bold' }}>
+                {describeCancellationTerms(cancellationTerms)}
+              </p>
+            ) : (
+              <p style={{ color: '#666', fontSize: '14px' }}>Checking our cancellation policy...</p>
+            )}
+            <SeriesScopeOptions
+              booking={selectedBooking}
+              laterCount={getLaterOccurrences(selectedBooking, bookings).length}
+              applyToSeries={applyToSeries}
+              onChange={setApplyToSeries}
+              action="Cancel"
+            />
+            <VisitCancelOption
+              booking={selectedBooking}
+              visitBookings={getVisitBookings(selectedBooking, bookings)}
+              cancelWholeVisit={cancelWholeVisit}
+              onChange={setCancelWholeVisit}
+            />
+            <BookingPolicySummary policy={bookingPolicy} />
             <p style={{ color: '#666', fontSize: '14px' }}>
               This action cannot be undone.
             </p>
@@ -516,8 +579,33 @@ const CustomerDashboard: React.FC = () => {
         {selectedBooking && (
           <>
             <p style={{marginBottom: 'var(--spacing-md)'}}>
-              Reschedule <strong>{selectedBooking.service_name}</strong> currently on <strong>{formatDateTime(selectedBooking.booking_date, selectedBooking.booking_time)}</strong>.
+              Reschedule <strong>{selectedBooking.serviceName}</strong> currently on <strong>{formatDateTime(selectedBooking.bookingDate, selectedBooking.bookingTime)}</strong>.
             </p>
+            {rescheduleRestriction && (
+              <div style={{
+                backgroundColor: '#fff3e0',
+                border: '1px solid #ffb74d',
+                color: '#e65100',
+                padding: '12px',
+                borderRadius: '4px',
+                marginBottom: '16px'
+              }}>
+                {rescheduleRestriction} Please contact the salon if you need to make a change.
+              </div>
+            )}
+            <BookingPolicySummary policy={bookingPolicy} />
+            <SeriesScopeOptions
+              booking={selectedBooking}
+              laterCount={getLaterOccurrences(selectedBooking, bookings).length}
+              applyToSeries={applyToSeries}
+              onChange={setApplyToSeries}
+              action="Move"
+            />
+            {applyToSeries && (
+              <p style={{ color: '#666', fontSize: '13px', margin: '0 0 var(--spacing-sm) 0' }}>
+                Later appointments move by the same number of days to the new time. Any that clash stay where they are.
+              </p>
+            )}
             <form onSubmit={handleConfirmReschedule} className="contact-form">
               <div className="form-group">
                 <label htmlFor="reschedule-date">New Date *</label>
@@ -539,9 +627,16 @@ const CustomerDashboard: React.FC = () => {
                   value={rescheduleTime}
                   onChange={(e) => setRescheduleTime(e.target.value)}
                   required
+                  disabled={slotsLoading}
                 >
-                  <option value="">Select a time</option>
-                  {getAvailableTimeSlots().map(time => (
+                  <option value="">
+                    {slotsLoading
+                      ? 'Loading available times...'
+                      : availableSlots.length === 0
+                        ? 'No available times on this date'
+                        : 'Select a time'}
+                  </option>
+                  {availableSlots.map(time => (
                     <option key={time} value={time}>
                       {parseInt(time.split(':')[0]) >= 12 
                         ? `${time} PM` 
@@ -551,11 +646,13 @@ const CustomerDashboard: React.FC = () => {
                   ))}
                 </select>
                 <small style={{ color: '#666', marginTop: '4px', display: 'block' }}>
-                  Business hours: 9:00 AM - 6:00 PM
+                  {selectedBooking.staffId
+                    ? `Only times when ${selectedBooking.staffName} is working and free are shown.`
+                    : 'Business hours: 9:00 AM - 6:00 PM'}
                 </small>
               </div>
 
-              {error && (
+              {(error || slotsError) && (
                 <div style={{
                   backgroundColor: '#fee',
                   border: '1px solid #f5c6cb',
@@ -564,7 +661,7 @@ const CustomerDashboard: React.FC = () => {
                   borderRadius: '4px',
                   marginBottom: '16px'
                 }}>
-                  {error}
+                  {error || slotsError}
                 </div>
               )}
 
@@ -577,7 +674,7 @@ const CustomerDashboard: React.FC = () => {
                 <Button variant="secondary" onClick={closeRescheduleModal} disabled={loading}>
                   Cancel
                 </Button>
-                <Button type="submit" variant="primary" disabled={loading}>
+                <Button type="submit" variant="primary" disabled={loading || !!rescheduleRestriction}>
                   {loading ? 'Rescheduling...' : 'Confirm Reschedule'}
                 </Button>
               </div>
@@ -1,36 +1,95 @@
 // src/pages/customer/Notifications.tsx
-import React from 'react';
+import React, { useState, useEffect } from 'react';
 import DashboardHeader from '@components/dashboard/DashboardHeader';
 import { formatDate } from '@utils/helpers';
-import Button from '@components/common/Button'; // <--- Add this line
-// Make sure the path matches your actual Button component location
+import Button from '@components/common/Button';
+import { useAuth } from '@context/AuthContext';
+import { useNotifications } from '@context/NotificationContext';
+import { Notification } from '@models/notification';
+import {
+  fetchNotifications,
+  markAllNotificationsRead,
+  markNotificationRead,
+} from '@utils/notifications';
 
-interface Notification {
-  id: string;
-  message: string;
-  date: string; // ISO string
-  read: boolean;
-}
+const Notifications: React.FC = () => {
+  const { user } = useAuth();
+  const { refreshUnreadCount } = useNotifications();
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [updating, setUpdating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
-const dummyNotifications: Notification[] = [
-  { id: 'n1', message: 'Your "Luxury Hydration Facial" on Nov 10th is confirmed.', date: '2023-10-28T09:00:00Z', read: false },
-  { id: 'n2', message: 'Reminder: Your appointment for "Aromatherapy Massage" is tomorrow!', date: '2023-11-14T10:00:00Z', read: false },
-  { id: 'n3', message: 'Welcome to Joyce Aesthetic Salon & Spa! Enjoy your first visit.', date: '2023-10-25T15:30:00Z', read: true },
-  { id: 'n4', message: 'Your booking for "Deluxe Manicure & Pedicure" on Nov 5th was completed.', date: '2023-11-05T11:00:00Z', read: true },
-];
+  const loadNotifications = async () => {
+    if (!user) return;
+    try {
+      setLoading(true);
+      setError(null);
+      setNotifications(await fetchNotifications(user.id));
+    } catch (err: any) {
+      setError(err.message || 'Failed to load notifications.');
+    } finally {
+      setLoading(false);
+    }
+  };
 
-const Notifications: React.FC = () => {
-  const notifications = dummyNotifications.sort((a,b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+  useEffect(() => {
+    loadNotifications();
+  }, [user]);
+
+  const handleMarkAsRead = async (id: string) => {
+    try {
+      setError(null);
+      await markNotificationRead(id);
+      setNotifications(prev => prev.map(notif => (notif.id === id ? { ...notif, read: true } : notif)));
+      await refreshUnreadCount();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleMarkAllAsRead = async () => {
+    if (!user) return;
+    try {
+      setUpdating(true);
+      setError(null);
+      await markAllNotificationsRead(user.id);
+      setNotifications(prev => prev.map(notif => ({ ...notif, read: true })));
+      await refreshUnreadCount();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const unreadCount = notifications.filter(notif => !notif.read).length;
 
   return (
     <>
-      <DashboardHeader title="Your Notifications" />
+      <DashboardHeader
+        title="Your Notifications"
+        actions={
+          unreadCount > 0 && (
+            <Button variant="secondary" onClick={handleMarkAllAsRead} disabled={updating}>
+              {updating ? 'Updating...' : `Mark All as Read (${unreadCount})`}
+            </Button>
+          )
+        }
+      />
       <div className="page-container">
         <p className="section-subtitle" style={{textAlign: 'left', marginBottom: 'var(--spacing-lg)'}}>
           Stay updated with your appointments, special offers, and important announcements.
         </p>
+
+        {error && (
+          <div className="auth-error-message" style={{textAlign: 'center'}}>{error}</div>
+        )}
+
         <div className="notifications-list">
-          {notifications.length === 0 ? (
+          {loading ? (
+            <p style={{ textAlign: 'center' }}>Loading notifications...</p>
+          ) : notifications.length === 0 ? (
             <p style={{ textAlign: 'center' }}>No new notifications.</p>
           ) : (
             notifications.map(notif => (
@@ -53,11 +112,13 @@ const Notifications: React.FC = () => {
                     {notif.message}
                   </p>
                   <span style={{ fontSize: '0.85rem', color: 'var(--color-text-light)' }}>
-                    {formatDate(notif.date)}
+                    {formatDate(notif.createdAt)}
                   </span>
                 </div>
                 {!notif.read && (
-                  <Button variant="text" size="small">Mark as Read</Button>
+                  <Button variant="text" size="small" onClick={() => handleMarkAsRead(notif.id)}>
+                    Mark as Read
+                  </Button>
                 )}
               </div>
             ))
@@ -68,4 +129,4 @@ const Notifications: React.FC = () => {
   );
 };
 
-export default Notifications;
\ No newline at end of file
+export default Notifications;
@@ -0,0 +1,255 @@
+// src/pages/customer/Packages.tsx
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import DashboardHeader from '@components/dashboard/DashboardHeader';
+import Table from '@components/dashboard/Table';
+import Button from '@components/common/Button';
+import { useAuth } from '@context/AuthContext';
+import { ServicePackage, SessionCard } from '@models/package';
+import { PaymentMethod } from '@models/payment';
+import { servicePackagesRepository } from '@repositories/servicePackages';
+import { sessionCardsRepository } from '@repositories/sessionCards';
+import { formatCurrency } from '@utils/helpers';
+import { ONLINE_PAYMENT_METHODS, PAYMENT_METHOD_LABELS } from '@utils/payments';
+import {
+  PACKAGE_KIND_LABELS,
+  buyPackage,
+  describePackageItems,
+  getCardBalance,
+  getPackageListPrice,
+  isCardExpired
+} from '@utils/packages';
+
+type CardStatus = 'active' | 'used' | 'expired';
+
+const CARD_STATUS_STYLES: Record<CardStatus, { label: string; background: string; color: string }> = {
+  active: { label: 'Active', background: '#e8f5e8', color: '#2e7d32' },
+  used: { label: 'Used up', background: '#f5f5f5', color: '#757575' },
+  expired: { label: 'Expired', background: '#ffebee', color: '#c62828' },
+};
+
+const getCardStatus = (card: SessionCard): CardStatus => {
+  if (getCardBalance(card).sessions === 0) return 'used';
+  return isCardExpired(card) ? 'expired' : 'active';
+};
+
+const Packages: React.FC = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [packages, setPackages] = useState<ServicePackage[]>([]);
+  const [cards, setCards] = useState<SessionCard[]>([]);
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('card');
+  const [loading, setLoading] = useState(true);
+  const [buyingId, setBuyingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const fetchPackages = async () => {
+    if (!user) return;
+    try {
+      setLoading(true);
+      setError(null);
+      const [available, owned] = await Promise.all([
+        servicePackagesRepository.getAll(true),
+        sessionCardsRepository.list({ customerId: user.id }),
+      ]);
+      setPackages(available);
+      setCards(owned);
+    } catch (err: any) {
+      console.error('❌ Error fetching packages:', err);
+      setError(err.message || 'Failed to load packages.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchPackages();
+  }, [user]);
+
+  const handleBuy = async (pkg: ServicePackage) => {
+    if (!user) return;
+    if (!window.confirm(`Buy ${pkg.name} for ${formatCurrency(pkg.price)} with ${PAYMENT_METHOD_LABELS[paymentMethod]}?`)) return;
+
+    try {
+      setBuyingId(pkg.id);
+      setError(null);
+      setSuccess(null);
+      const card = await buyPackage(pkg, user.id, paymentMethod, user.id);
+      setSuccess(`${pkg.name} is yours! Choose it under "Pay With a Prepaid Package" when you book${card.expiresAt ? ` before ${new Date(card.expiresAt).toLocaleDateString()}` : ''}.`);
+    } catch (err: any) {
+      console.error('❌ Error buying package:', err);
+      setError(err.message || 'Failed to buy the package. Please try again.');
+    } finally {
+      setBuyingId(null);
+      await fetchPackages();
+    }
+  };
+
+  const columns = [
+    {
+      header: 'Package',
+      key: 'packageName',
+      render: (item: SessionCard) => (
+        <div>
+          <div style={{ fontWeight: 'bold' }}>{item.packageName || 'Package'}</div>
+          <div style={{ fontSize: '0.875rem', color: '#666' }}>
+            Bought {new Date(item.purchasedAt).toLocaleDateString()} for {formatCurrency(item.price)}
+          </div>
+        </div>
+      ),
+    },
+    {
+      header: 'Sessions Left',
+      key: 'items',
+      render: (item: SessionCard) => (
+        <div>
+          {item.items.map(session => (
+            <div key={session.id}>{session.remaining} of {session.sessions} × {session.serviceName || 'Deleted service'}</div>
+          ))}
+        </div>
+      ),
+    },
+    {
+      header: 'Balance',
+      key: 'balance',
+      render: (item: SessionCard) => formatCurrency(getCardBalance(item).value),
+    },
+    {
+      header: 'Expires',
+      key: 'expiresAt',
+      render: (item: SessionCard) => item.expiresAt ? new Date(item.expiresAt).toLocaleDateString() : 'Never',
+    },
+    {
+      header: 'Status',
+      key: 'status',
+      render: (item: SessionCard) => {
+        const status = CARD_STATUS_STYLES[getCardStatus(item)];
+        return (
+          <span style={{
+            padding: '4px 8px',
+            borderRadius: '12px',
+            fontSize: '12px',
+            fontWeight: 'bold',
+            backgroundColor: status.background,
+            color: status.color
+          }}>
+            {status.label}
+          </span>
+        );
+      },
+    },
+  ];
+
+  return (
+    <>
+      <DashboardHeader
+        title="Prepaid Packages"
+        actions={
+          <Button variant="primary" onClick={() => navigate('/customer/book')}>
+            Book Appointment
+          </Button>
+        }
+      />
+      <div className="page-container">
+        <p className="section-subtitle" style={{ textAlign: 'left', marginBottom: 'var(--spacing-lg)' }}>
+          Pay ahead for the treatments you love and save. Use your sessions when you book, any time before the package expires.
+        </p>
+
+        {error && (
+          <div className="auth-error-message" style={{ textAlign: 'left' }}>
+            {error}
+          </div>
+        )}
+        {success && (
+          <div style={{
+            backgroundColor: '#e8f5e8',
+            color: '#2e7d32',
+            padding: '12px',
+            borderRadius: '4px',
+            marginBottom: '15px',
+            border: '1px solid #c8e6c9'
+          }}>
+            {success}
+          </div>
+        )}
+
+        {loading ? (
+          <div style={{ textAlign: 'center', padding: '40px' }}>
+            <p>Loading packages...</p>
+          </div>
+        ) : (
+          <>
+            {packages.length > 0 && (
+              <div style={{ marginBottom: 'var(--spacing-xl)' }}>
+                <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: 'var(--spacing-md)' }}>
+                  <label htmlFor="package-payment-method">Pay with:</label>
+                  <select
+                    id="package-payment-method"
+                    value={paymentMethod}
+                    onChange={(e) => setPaymentMethod(e.target.value as PaymentMethod)}
+                    style={{ padding: '6px', borderRadius: 'var(--border-radius-sm)', border: '1px solid var(--color-border)' }}
+                  >
+                    {ONLINE_PAYMENT_METHODS.map(method => (
+                      <option key={method} value={method}>{PAYMENT_METHOD_LABELS[method]}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(260px, 1fr))', gap: 'var(--spacing-md)' }}>
+                  {packages.map(pkg => {
+                    const listPrice = getPackageListPrice(pkg.items);
+                    return (
+                      <div key={pkg.id} style={{
+                        border: '1px solid var(--color-border)',
+                        borderRadius: 'var(--border-radius)',
+                        padding: 'var(--spacing-md)',
+                        display: 'flex',
+                        flexDirection: 'column',
+                        gap: '6px'
+                      }}>
+                        <span style={{ fontSize: '12px', color: '#666', textTransform: 'uppercase' }}>{PACKAGE_KIND_LABELS[pkg.kind]}</span>
+                        <h3 style={{ margin: 0 }}>{pkg.name}</h3>
+                        {pkg.description && <p style={{ margin: 0, color: '#555', fontSize: '14px' }}>{pkg.description}</p>}
+                        <p style={{ margin: 0, fontSize: '14px' }}>{describePackageItems(pkg.items)}</p>
+                        <p style={{ margin: 0 }}>
+                          <strong>{formatCurrency(pkg.price)}</strong>
+                          {listPrice > pkg.price && (
+                            <span style={{ color: '#2e7d32', fontSize: '14px' }}>
+                              {' '}<s style={{ color: '#999' }}>{formatCurrency(listPrice)}</s> Save {formatCurrency(listPrice - pkg.price)}
+                            </span>
+                          )}
+                        </p>
+                        <p style={{ margin: 0, color: '#666', fontSize: '13px' }}>
+                          {pkg.validityDays ? `Use within ${pkg.validityDays} days of buying` : 'Never expires'}
+                        </p>
+                        <Button
+                          variant="primary"
+                          size="small"
+                          onClick={() => handleBuy(pkg)}
+                          disabled={buyingId !== null}
+                          style={{ marginTop: 'auto' }}
+                        >
+                          {buyingId === pkg.id ? 'Buying...' : 'Buy Package'}
+                        </Button>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
+            <Table
+              data={cards}
+              columns={columns}
+              caption={`My Packages (${cards.length})`}
+              emptyMessage="You haven't bought any packages yet."
+            />
+          </>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default Packages;
@@ -0,0 +1,348 @@
+// src/pages/customer/Profile.tsx
+import React, { useState, useEffect } from 'react';
+import DashboardHeader from '@components/dashboard/DashboardHeader';
+import Button from '@components/common/Button';
+import { useAuth } from '@context/AuthContext';
+import { ContactPreferences } from '@models/user';
+import { usersRepository } from '@repositories/users';
+import { DEFAULT_CONTACT_PREFERENCES } from '@utils/constants';
+
+interface ProfileForm {
+  firstName: string;
+  lastName: string;
+  phone: string;
+  birthday: string;
+  avatarUrl: string;
+  allergies: string;
+  skinNotes: string;
+  contactPreferences: ContactPreferences;
+}
+
+const EMPTY_FORM: ProfileForm = {
+  firstName: '',
+  lastName: '',
+  phone: '',
+  birthday: '',
+  avatarUrl: '',
+  allergies: '',
+  skinNotes: '',
+  contactPreferences: DEFAULT_CONTACT_PREFERENCES,
+};
+
+// Digits with optional +, spaces, dashes and brackets, e.g. "+63 917 123 4567"
+const PHONE_PATTERN = /^\+?[\d\s\-()]{7,20}$/;
+
+const CONTACT_OPTIONS: { key: keyof ContactPreferences; label: string; hint: string }[] = [
+  { key: 'email', label: 'Email', hint: 'Booking confirmations and reminders by email' },
+  { key: 'sms', label: 'Text message', hint: 'Reminders sent to your phone' },
+  { key: 'promotions', label: 'Offers and promotions', hint: 'Occasional news about new treatments and deals' },
+];
+
+const Profile: React.FC = () => {
+  const { user, refreshProfile } = useAuth();
+  const [formData, setFormData] = useState<ProfileForm>(EMPTY_FORM);
+  const [email, setEmail] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  const loadProfile = async () => {
+    if (!user) return;
+    try {
+      setLoading(true);
+      setError(null);
+      const profile = await usersRepository.getById(user.id);
+      if (!profile) throw new Error('Your profile could not be found.');
+
+      setEmail(profile.email);
+      setFormData({
+        firstName: profile.firstName,
+        lastName: profile.lastName,
+        phone: profile.phone || '',
+        birthday: profile.birthday || '',
+        avatarUrl: profile.avatarUrl || '',
+        allergies: profile.allergies || '',
+        skinNotes: profile.skinNotes || '',
+        contactPreferences: profile.contactPreferences,
+      });
+    } catch (err: any) {
+      console.error('❌ Error loading profile:', err);
+      setError(err.message || 'Failed to load your profile.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadProfile();
+  }, [user?.id]);
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handlePreferenceChange = (key: keyof ContactPreferences, checked: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      contactPreferences: { ...prev.contactPreferences, [key]: checked },
+    }));
+  };
+
+  const handleAvatarChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file || !user) return;
+
+    if (!file.type.startsWith('image/')) {
+      setError('Please select an image file');
+      return;
+    }
+
+    if (file.size > 5 * 1024 * 1024) {
+      setError('Image size must be less than 5MB');
+      return;
+    }
+
+    try {
+      setUploading(true);
+      setError(null);
+      const avatarUrl = await usersRepository.uploadAvatar(user.id, file);
+      setFormData(prev => ({ ...prev, avatarUrl }));
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const validateForm = (): string | null => {
+    if (!formData.firstName.trim()) return 'First name is required';
+    if (!formData.lastName.trim()) return 'Last name is required';
+    if (formData.phone.trim() && !PHONE_PATTERN.test(formData.phone.trim())) {
+      return 'Please enter a valid phone number';
+    }
+    if (formData.contactPreferences.sms && !formData.phone.trim()) {
+      return 'Add a phone number to get text message reminders';
+    }
+    if (formData.birthday && formData.birthday > new Date().toISOString().split('T')[0]) {
+      return 'Birthday cannot be in the future';
+    }
+    return null;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    const validationError = validateForm();
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      setSuccessMessage(null);
+
+      await usersRepository.update(user.id, {
+        firstName: formData.firstName.trim(),
+        lastName: formData.lastName.trim(),
+        phone: formData.phone.trim(),
+        birthday: formData.birthday,
+        avatarUrl: formData.avatarUrl,
+        allergies: formData.allergies.trim(),
+        skinNotes: formData.skinNotes.trim(),
+        contactPreferences: formData.contactPreferences,
+      });
+      await refreshProfile();
+
+      console.log('✅ Profile updated for', user.id);
+      setSuccessMessage('Your profile has been saved.');
+    } catch (err: any) {
+      console.error('❌ Error saving profile:', err);
+      setError(err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <DashboardHeader title="My Profile" />
+      <div className="page-container">
+        <p className="section-subtitle" style={{textAlign: 'left', marginBottom: 'var(--spacing-lg)'}}>
+          Keep your details up to date so our team can reach you and tailor every treatment to you.
+        </p>
+
+        {error && (
+          <div className="auth-error-message" style={{textAlign: 'center'}}>{error}</div>
+        )}
+
+        {successMessage && (
+          <div style={{
+            backgroundColor: '#e8f5e8',
+            color: '#2e7d32',
+            padding: '12px',
+            borderRadius: '4px',
+            marginBottom: '15px',
+            border: '1px solid #c8e6c9'
+          }}>
+            {successMessage}
+          </div>
+        )}
+
+        {loading ? (
+          <p style={{ textAlign: 'center' }}>Loading your profile...</p>
+        ) : (
+          <form className="contact-form" onSubmit={handleSubmit} style={{ maxWidth: '640px' }}>
+            <div style={{ display: 'flex', alignItems: 'center', gap: 'var(--spacing-md)', marginBottom: 'var(--spacing-lg)' }}>
+              {formData.avatarUrl ? (
+                <img
+                  src={formData.avatarUrl}
+                  alt="Your profile"
+                  style={{
+                    width: '96px',
+                    height: '96px',
+                    objectFit: 'cover',
+                    borderRadius: '50%',
+                    border: '1px solid #ddd'
+                  }}
+                />
+              ) : (
+                <div style={{
+                  width: '96px',
+                  height: '96px',
+                  borderRadius: '50%',
+                  backgroundColor: '#f0f0f0',
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  fontSize: '2rem',
+                  color: '#999'
+                }}>
+                  {(formData.firstName.charAt(0) || email.charAt(0)).toUpperCase()}
+                </div>
+              )}
+              <div>
+                <input
+                  type="file"
+                  id="profile-avatar"
+                  accept="image/*"
+                  onChange={handleAvatarChange}
+                  disabled={uploading}
+                  style={{ display: 'none' }}
+                />
+                <label
+                  htmlFor="profile-avatar"
+                  style={{
+                    cursor: uploading ? 'not-allowed' : 'pointer',
+                    display: 'inline-block',
+                    padding: '8px 16px',
+                    backgroundColor: uploading ? '#ccc' : '#007bff',
+                    color: 'white',
+                    borderRadius: '4px',
+                    marginRight: '8px'
+                  }}
+                >
+                  {uploading ? 'Uploading...' : 'Change Photo'}
+                </label>
+                {formData.avatarUrl && !uploading && (
+                  <Button type="button" variant="text" size="small" onClick={() => setFormData(prev => ({ ...prev, avatarUrl: '' }))}>
+                    Remove
+                  </Button>
+                )}
+                <p style={{ fontSize: '0.85rem', color: 'var(--color-text-light)', margin: '6px 0 0 0' }}>
+                  {email}
+                </p>
+              </div>
+            </div>
+
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 'var(--spacing-md)' }}>
+              <div className="form-group">
+                <label htmlFor="firstName">First Name *</label>
+                <input type="text" id="firstName" name="firstName" value={formData.firstName} onChange={handleInputChange} required />
+              </div>
+              <div className="form-group">
+                <label htmlFor="lastName">Last Name *</label>
+                <input type="text" id="lastName" name="lastName" value={formData.lastName} onChange={handleInputChange} required />
+              </div>
+              <div className="form-group">
+                <label htmlFor="phone">Phone Number</label>
+                <input
+                  type="tel"
+                  id="phone"
+                  name="phone"
+                  placeholder="e.g. +63 917 123 4567"
+                  value={formData.phone}
+                  onChange={handleInputChange}
+                />
+              </div>
+              <div className="form-group">
+                <label htmlFor="birthday">Birthday</label>
+                <input
+                  type="date"
+                  id="birthday"
+                  name="birthday"
+                  value={formData.birthday}
+                  max={new Date().toISOString().split('T')[0]}
+                  onChange={handleInputChange}
+                />
+              </div>
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="allergies">Allergies</label>
+              <textarea
+                id="allergies"
+                name="allergies"
+                rows={2}
+                placeholder="e.g. latex, nuts, fragrance"
+                value={formData.allergies}
+                onChange={handleInputChange}
+              />
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="skinNotes">Skin and Care Notes</label>
+              <textarea
+                id="skinNotes"
+                name="skinNotes"
+                rows={3}
+                placeholder="e.g. sensitive skin, prefers light pressure"
+                value={formData.skinNotes}
+                onChange={handleInputChange}
+              />
+            </div>
+
+            <fieldset style={{ border: '1px solid var(--color-border)', borderRadius: '4px', padding: 'var(--spacing-md)', marginBottom: 'var(--spacing-lg)' }}>
+              <legend style={{ padding: '0 6px' }}>How we may contact you</legend>
+              {CONTACT_OPTIONS.map(option => (
+                <label key={option.key} style={{ display: 'flex', alignItems: 'flex-start', gap: '8px', marginBottom: '8px', cursor: 'pointer' }}>
+                  <input
+                    type="checkbox"
+                    checked={formData.contactPreferences[option.key]}
+                    onChange={(e) => handlePreferenceChange(option.key, e.target.checked)}
+                    style={{ marginTop: '4px' }}
+                  />
+                  <span>
+                    {option.label}
+                    <span style={{ display: 'block', fontSize: '0.85rem', color: 'var(--color-text-light)' }}>{option.hint}</span>
+                  </span>
+                </label>
+              ))}
+            </fieldset>
+
+            <Button type="submit" variant="primary" disabled={saving || uploading}>
+              {saving ? 'Saving...' : 'Save Profile'}
+            </Button>
+          </form>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default Profile;
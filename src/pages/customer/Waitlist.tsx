@@ -0,0 +1,254 @@
+// src/pages/customer/Waitlist.tsx
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import DashboardHeader from '@components/dashboard/DashboardHeader';
+import Table from '@components/dashboard/Table';
+import Button from '@components/common/Button';
+import { useAuth } from '@context/AuthContext';
+import { PaymentMethod } from '@models/payment';
+import { WaitlistEntry, WaitlistStatus } from '@models/waitlist';
+import { formatCurrency } from '@utils/helpers';
+import { formatWhen } from '@utils/notifications';
+import { ONLINE_PAYMENT_METHODS, PAYMENT_METHOD_LABELS, calculateDeposit } from '@utils/payments';
+import {
+  WAITLIST_STATUS_LABELS,
+  claimWaitlistOffer,
+  fetchCustomerWaitlist,
+  leaveWaitlist,
+} from '@utils/waitlist';
+
+const WAITLIST_STATUS_COLORS: Record<WaitlistStatus, { background: string; color: string }> = {
+  waiting: { background: '#fff3e0', color: '#f57c00' },
+  offered: { background: '#e8f5e8', color: '#2e7d32' },
+  booked: { background: '#e3f2fd', color: '#1565c0' },
+  expired: { background: '#f5f5f5', color: '#757575' },
+  cancelled: { background: '#ffebee', color: '#c62828' },
+};
+
+// e.g. "2:30 PM"
+const formatClock = (time: string): string => {
+  const [hours, minutes] = time.split(':').map(part => parseInt(part, 10));
+  return `${hours % 12 || 12}:${String(minutes || 0).padStart(2, '0')} ${hours >= 12 ? 'PM' : 'AM'}`;
+};
+
+const Waitlist: React.FC = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [entries, setEntries] = useState<WaitlistEntry[]>([]);
+  const [depositMethod, setDepositMethod] = useState<PaymentMethod>('card');
+  const [loading, setLoading] = useState(true);
+  const [actionLoading, setActionLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const fetchWaitlist = async () => {
+    if (!user) return;
+    try {
+      setLoading(true);
+      setError(null);
+      setEntries(await fetchCustomerWaitlist(user.id));
+    } catch (err: any) {
+      console.error('❌ Error fetching waitlist:', err);
+      setError(err.message || 'Failed to load your waitlist.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchWaitlist();
+  }, [user]);
+
+  const handleClaim = async (entry: WaitlistEntry) => {
+    if (!user) return;
+    try {
+      setActionLoading(true);
+      setError(null);
+      setSuccess(null);
+      await claimWaitlistOffer(entry.id, user, depositMethod);
+      setSuccess(`${entry.serviceName} on ${formatWhen(entry.date, entry.offer!.time)} is booked! You will receive a confirmation soon.`);
+      setTimeout(() => navigate('/customer/manage-bookings'), 3000);
+    } catch (err: any) {
+      console.error('❌ Error claiming waitlist offer:', err);
+      setError(err.message || 'Failed to claim this time. Please try again.');
+    } finally {
+      setActionLoading(false);
+      await fetchWaitlist();
+    }
+  };
+
+  const handleLeave = async (entry: WaitlistEntry) => {
+    const question = entry.status === 'offered'
+      ? 'Turn down this time? It will be offered to the next customer.'
+      : `Leave the waitlist for ${entry.serviceName}?`;
+    if (!window.confirm(question)) return;
+
+    try {
+      setActionLoading(true);
+      setError(null);
+      setSuccess(null);
+      await leaveWaitlist(entry);
+      setSuccess(entry.status === 'offered' ? 'Offer declined.' : 'You have left the waitlist.');
+    } catch (err: any) {
+      console.error('❌ Error leaving waitlist:', err);
+      setError(err.message || 'Failed to update your waitlist.');
+    } finally {
+      setActionLoading(false);
+      await fetchWaitlist();
+    }
+  };
+
+  const offers = entries.filter(entry => entry.status === 'offered' && entry.offer);
+
+  const columns = [
+    {
+      header: 'Service',
+      key: 'serviceName',
+      render: (item: WaitlistEntry) => item.serviceName,
+    },
+    {
+      header: 'Date & Times',
+      key: 'date',
+      render: (item: WaitlistEntry) => (
+        <div>
+          <div>{formatWhen(item.date, item.windowStart).split(' at ')[0]}</div>
+          <div style={{ fontSize: '0.875rem', color: '#666' }}>
+            Starting {formatClock(item.windowStart)} – {formatClock(item.windowEnd)}
+          </div>
+        </div>
+      ),
+    },
+    {
+      header: 'Staff',
+      key: 'staffName',
+      render: (item: WaitlistEntry) => item.staffName || 'Any available staff',
+    },
+    {
+      header: 'Status',
+      key: 'status',
+      render: (item: WaitlistEntry) => (
+        <span style={{
+          padding: '4px 8px',
+          borderRadius: '12px',
+          fontSize: '12px',
+          fontWeight: 'bold',
+          backgroundColor: WAITLIST_STATUS_COLORS[item.status].background,
+          color: WAITLIST_STATUS_COLORS[item.status].color
+        }}>
+          {WAITLIST_STATUS_LABELS[item.status]}
+        </span>
+      ),
+    },
+    {
+      header: 'Actions',
+      key: 'actions',
+      render: (item: WaitlistEntry) => (
+        item.status === 'waiting' ? (
+          <Button variant="text" size="small" onClick={() => handleLeave(item)} disabled={actionLoading} style={{ color: '#d32f2f' }}>
+            Leave Waitlist
+          </Button>
+        ) : item.status === 'booked' ? (
+          <Button variant="secondary" size="small" onClick={() => navigate('/customer/manage-bookings')}>
+            View Booking
+          </Button>
+        ) : item.status === 'offered' ? (
+          <span style={{ color: '#2e7d32', fontSize: '12px' }}>See the offer above</span>
+        ) : (
+          <span style={{ color: '#999', fontStyle: 'italic' }}>No actions available</span>
+        )
+      ),
+    },
+  ];
+
+  return (
+    <>
+      <DashboardHeader
+        title="My Waitlist"
+        actions={
+          <Button variant="primary" onClick={() => navigate('/customer/book')}>
+            Book Appointment
+          </Button>
+        }
+      />
+      <div className="page-container">
+        <p className="section-subtitle" style={{ textAlign: 'left', marginBottom: 'var(--spacing-lg)' }}>
+          When a time you're waiting for is cancelled, we hold it for you for a short while. Claim it here before it goes to the next customer.
+        </p>
+
+        {error && (
+          <div className="auth-error-message" style={{ textAlign: 'left' }}>
+            {error}
+          </div>
+        )}
+        {success && (
+          <div style={{
+            backgroundColor: '#e8f5e8',
+            color: '#2e7d32',
+            padding: '12px',
+            borderRadius: '4px',
+            marginBottom: '15px',
+            border: '1px solid #c8e6c9'
+          }}>
+            {success}
+          </div>
+        )}
+
+        {/* Offers */}
+        {offers.map(entry => (
+          <div key={entry.id} style={{
+            backgroundColor: '#e8f5e8',
+            border: '2px solid #81c784',
+            borderRadius: 'var(--border-radius)',
+            padding: 'var(--spacing-md)',
+            marginBottom: 'var(--spacing-md)'
+          }}>
+            <h3 style={{ margin: '0 0 8px 0', color: '#2e7d32' }}>A time opened up for you!</h3>
+            <p style={{ margin: '0 0 4px 0' }}>
+              <strong>{entry.serviceName}</strong> on <strong>{formatWhen(entry.date, entry.offer!.time)}</strong>
+              {entry.offer!.staffName && <> with <strong>{entry.offer!.staffName}</strong></>}
+            </p>
+            <p style={{ margin: '0 0 12px 0', color: '#666', fontSize: '14px' }}>
+              Held for you until {new Date(entry.offer!.expiresAt).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}.
+              {calculateDeposit(entry.servicePrice) > 0 && ` A deposit of ${formatCurrency(calculateDeposit(entry.servicePrice))} is charged when you claim it.`}
+            </p>
+            <div style={{ display: 'flex', gap: '8px', alignItems: 'center', flexWrap: 'wrap' }}>
+              {calculateDeposit(entry.servicePrice) > 0 && (
+                <select
+                  aria-label="Deposit payment method"
+                  value={depositMethod}
+                  onChange={(e) => setDepositMethod(e.target.value as PaymentMethod)}
+                  style={{ padding: '6px', borderRadius: 'var(--border-radius-sm)', border: '1px solid var(--color-border)' }}
+                >
+                  {ONLINE_PAYMENT_METHODS.map(method => (
+                    <option key={method} value={method}>{PAYMENT_METHOD_LABELS[method]}</option>
+                  ))}
+                </select>
+              )}
+              <Button variant="primary" size="small" onClick={() => handleClaim(entry)} disabled={actionLoading}>
+                {actionLoading ? 'Booking...' : 'Claim This Time'}
+              </Button>
+              <Button variant="text" size="small" onClick={() => handleLeave(entry)} disabled={actionLoading}>
+                No Thanks
+              </Button>
+            </div>
+          </div>
+        ))}
+
+        {loading ? (
+          <div style={{ textAlign: 'center', padding: '40px' }}>
+            <p>Loading your waitlist...</p>
+          </div>
+        ) : (
+          <Table
+            data={entries}
+            columns={columns}
+            caption={`Waitlist (${entries.length})`}
+            emptyMessage="You're not on any waitlists. If a time you want is fully booked, you can join the waitlist when booking."
+          />
+        )}
+      </div>
+    </>
+  );
+};
+
+export default Waitlist;
@@ -1,7 +1,7 @@
 // src/pages/public/Contact.tsx
 import React from 'react';
 import ContactForm from '@components/public/ContactForm'; // Using alias
-import { APP_NAME } from '@utils/constants'; // Using alias
+import { APP_NAME, SALON_ADDRESS } from '@utils/constants'; // Using alias
 
 const Contact: React.FC = () => {
   return (
@@ -15,7 +15,7 @@ const Contact: React.FC = () => {
       <div style={{ textAlign: 'center', marginTop: 'var(--spacing-lg)' }}>
         <p><strong>Phone:</strong> (123) 456-7890</p>
         <p><strong>Email:</strong> info@{APP_NAME.toLowerCase().replace(/\s/g, '')}.com</p>
-        <p><strong>Address:</strong> 123 Serenity Lane, Wellness City, WC 54321</p>
+        <p><strong>Address:</strong> {SALON_ADDRESS}</p>
       </div>
     </div>
   );
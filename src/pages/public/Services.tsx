@@ -3,7 +3,7 @@ import React, { useState, useEffect } from 'react';
 import HeroSection from '@components/public/HeroSection';
 import ServicesList from '@components/public/ServicesList';
 import { Service } from '@models/service';
-import { supabase } from '../../supabaseClient';
+import { servicesRepository } from '@repositories/services';
 
 import '@assets/styles/public.css';
 
@@ -18,25 +18,13 @@ const Services: React.FC = () => {
       setLoading(true);
       setError(null);
 
-      const { data, error } = await supabase
-        .from('services')
-        .select('*')
-        .order('created_at', { ascending: false });
+      const data = await servicesRepository.getAll();
 
-      if (error) throw error;
-
-      // Transform data to match Service interface
-      const transformedServices: Service[] = (data || []).map(service => ({
-        id: service.id,
-        name: service.service_name,
-        description: service.description,
-        price: parseFloat(service.price),
-        durationMinutes: service.duration,
-        category: service.category,
-        imageUrl: service.service_img || '/src/assets/images/service-default.jpg' // fallback image
-      }));
-
-      setServices(transformedServices);
+      // Fall back to a default photo for services without one
+      setServices(data.map(service => ({
+        ...service,
+        imageUrl: service.imageUrl || '/src/assets/images/service-default.jpg'
+      })));
     } catch (err: any) {
       console.error('Error fetching services:', err);
       setError('Failed to load services. Please try again later.');
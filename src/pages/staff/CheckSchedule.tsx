@@ -3,86 +3,45 @@ import React, { useState, useEffect } from 'react';
 import DashboardHeader from '@components/dashboard/DashboardHeader';
 import Table from '@components/dashboard/Table';
 import Button from '@components/common/Button';
+import CompleteBookingModal from '@components/dashboard/CompleteBookingModal';
+import BookingCalendar from '@components/dashboard/BookingCalendar';
 import { Booking, BookingStatus } from '@models/booking';
+import { PaymentMethod } from '@models/payment';
 import { formatCurrency, formatDate } from '@utils/helpers';
+import {
+  STATUS_COLORS,
+  STATUS_LABELS,
+  StatusChangeOptions,
+  changeBookingStatus,
+  getAllowedTransitions,
+} from '@utils/bookingStatus';
 import { useAuth } from '@context/AuthContext';
-import { supabase } from '../../supabaseClient';
-
-interface BookingWithRelations extends Booking {
-  service_name: string;
-  service_price: number;
-  service_duration: number;
-  customer_name: string;
-  customer_email: string;
-  customer_phone: string;
-  staff_name: string;
-  booking_date: string;
-  booking_time: string;
-}
+import { bookingsRepository } from '@repositories/bookings';
+import { notifyBookingEvent, statusToNotificationType } from '@utils/notifications';
+import { CalendarView, getCalendarRange } from '@utils/calendar';
+import {
+  STAFF_FEED_DAYS,
+  buildStaffCalendarFeed,
+  downloadCalendarFile,
+  getStaffFeedUrl,
+  resetStaffFeedUrl
+} from '@utils/icalendar';
+import { offerCancelledBookingSlot } from '@utils/waitlist';
 
 const CheckSchedule: React.FC = () => {
   const { user } = useAuth();
   const [selectedDate, setSelectedDate] = useState(new Date().toISOString().split('T')[0]);
-  const [bookings, setBookings] = useState<BookingWithRelations[]>([]);
+  const [bookings, setBookings] = useState<Booking[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-
-  // FIXED: Safe customer details fetch with fallback
-  const fetchCustomerDetails = async (customerIds: string[]) => {
-    try {
-      console.log('🔄 Fetching customer details for IDs:', customerIds);
-      
-      const { data, error } = await supabase
-        .from('users')
-        .select('id, first_name, last_name, email')
-        .in('id', customerIds);
-
-      if (error) {
-        console.error('❌ Error fetching customer details:', error);
-        // Return fallback data
-        return customerIds.map(id => ({
-          id,
-          first_name: 'Customer',
-          last_name: '',
-          email: 'unknown@example.com',
-          phone: 'Unknown'
-        }));
-      }
-
-      console.log('✅ Customer details fetched:', data);
-
-      // If no data found, return fallback
-      if (!data || data.length === 0) {
-        return customerIds.map(id => ({
-          id,
-          first_name: 'Customer',
-          last_name: '',
-          email: 'unknown@example.com',
-          phone: 'Unknown'
-        }));
-      }
-
-      return data.map(user => ({
-        id: user.id,
-        first_name: user.first_name || 'Customer',
-        last_name: user.last_name || '',
-        email: user.email || 'unknown@example.com',
-        phone: 'Unknown' // Your users table doesn't have phone column
-      }));
-
-    } catch (err) {
-      console.error('❌ Error in fetchCustomerDetails:', err);
-      return customerIds.map(id => ({
-        id,
-        first_name: 'Customer',
-        last_name: '',
-        email: 'unknown@example.com',
-        phone: 'Unknown'
-      }));
-    }
-  };
-
-  // Fetch staff bookings from Supabase - FIXED: Using correct table structure
+  const [notice, setNotice] = useState<string | null>(null); // A change went through, but a follow-up step needs attention
+  const [completingBooking, setCompletingBooking] = useState<Booking | null>(null);
+  const [displayMode, setDisplayMode] = useState<'list' | 'calendar'>('list');
+  const [calendarView, setCalendarView] = useState<CalendarView>('week');
+  const [calendarBookings, setCalendarBookings] = useState<Booking[]>([]);
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+
+  // Fetch this staff member's bookings for the selected day
   const fetchStaffBookings = async () => {
     try {
       setLoading(true);
@@ -94,87 +53,15 @@ const CheckSchedule: React.FC = () => {
       }
 
       console.log('🔄 Fetching bookings for staff:', user.id, 'on date:', selectedDate);
+      const staffBookings = await bookingsRepository.list({ staffId: user.id, date: selectedDate });
+      console.log('✅ Staff bookings fetched:', staffBookings);
 
-      // Get bookings for this staff member
-      const { data, error } = await supabase
-        .from('bookings')
-        .select('*')
-        .eq('staff_id', user.id)
-        .eq('booking_date', selectedDate)
-        .order('booking_time', { ascending: true });
-
-      if (error) {
-        console.error('❌ Error fetching staff bookings:', error);
-        throw error;
-      }
-
-      console.log('✅ Staff bookings fetched:', data);
-
-      // If we have bookings, fetch related data
-      if (data && data.length > 0) {
-        // Fetch service details
-        const serviceIds = [...new Set(data.map(booking => booking.service_id))];
-        console.log('🔄 Fetching services for IDs:', serviceIds);
-        
-        const { data: servicesData, error: servicesError } = await supabase
-          .from('services')
-          .select('*')
-          .in('id', serviceIds);
-
-        if (servicesError) {
-          console.error('❌ Error fetching services:', servicesError);
-        }
-
-        console.log('✅ Services fetched:', servicesData);
-
-        // Fetch customer details with the new safe function
-        const customerIds = [...new Set(data.map(booking => booking.customer_id))];
-        const customersData = await fetchCustomerDetails(customerIds);
-
-        // Transform data to match BookingWithRelations interface
-        const staffBookings: BookingWithRelations[] = data.map(booking => {
-          const service = servicesData?.find(s => s.id === booking.service_id);
-          const customer = customersData?.find(c => c.id === booking.customer_id);
-          
-          return {
-            id: booking.id,
-            serviceId: booking.service_id,
-            serviceName: service?.service_name || 'Unknown Service',
-            service_name: service?.service_name || 'Unknown Service',
-            service_price: service?.price || 0,
-            service_duration: service?.duration || 60,
-            customerId: booking.customer_id,
-            customerName: customer ? `${customer.first_name || ''} ${customer.last_name || ''}`.trim() : 'Unknown Customer',
-            customer_name: customer ? `${customer.first_name || ''} ${customer.last_name || ''}`.trim() : 'Unknown Customer',
-            customer_email: customer?.email || '',
-            customer_phone: customer?.phone || 'Unknown',
-            staffId: booking.staff_id,
-            staffName: user ? `${user.first_name || ''} ${user.last_name || ''}`.trim() : 'Current User',
-            staff_name: user ? `${user.first_name || ''} ${user.last_name || ''}`.trim() : 'Current User',
-            startTime: booking.booking_date ? `${booking.booking_date}T${booking.booking_time}` : '',
-            endTime: booking.booking_date ? `${booking.booking_date}T${booking.booking_time}` : '',
-            booking_date: booking.booking_date,
-            booking_time: booking.booking_time,
-            status: booking.status as BookingStatus,
-            price: booking.total_price || service?.price || 0,
-            notes: booking.notes || ''
-          };
-        });
-
-        setBookings(staffBookings);
-      } else {
-        // No bookings found
-        setBookings([]);
-      }
-
+      setBookings(staffBookings);
     } catch (err: any) {
       console.error('❌ Error fetching staff bookings:', err);
-      
-      // Provide more specific error messages
+
       if (err.message?.includes('JWT')) {
         setError('Authentication error. Please log in again.');
-      } else if (err.message?.includes('foreign key')) {
-        setError('Database relationship error. Please contact support.');
       } else {
         setError('Failed to load your schedule. Please try again.');
       }
@@ -183,115 +70,128 @@ const CheckSchedule: React.FC = () => {
     }
   };
 
-  // Alternative simpler fetch method - FIXED: Using safe customer data
-  const fetchStaffBookingsSimple = async () => {
+  // Fetch this staff member's bookings for the dates the calendar shows
+  const fetchCalendarBookings = async () => {
+    if (!user) return;
+
     try {
       setLoading(true);
       setError(null);
 
-      if (!user) {
-        setError('Please log in to view your schedule.');
-        return;
-      }
+      const { from, to } = getCalendarRange(calendarView, selectedDate);
+      setCalendarBookings(await bookingsRepository.list({ staffId: user.id, fromDate: from, toDate: to }));
+    } catch (err: any) {
+      console.error('❌ Error fetching staff calendar:', err);
+      setError('Failed to load your schedule. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
 
-      console.log('🔄 Simple fetch for staff:', user.id, 'on date:', selectedDate);
+  const refreshSchedule = displayMode === 'calendar' ? fetchCalendarBookings : fetchStaffBookings;
 
-      // Simple query without complex joins
-      const { data, error } = await supabase
-        .from('bookings')
-        .select('*')
-        .eq('staff_id', user.id)
-        .eq('booking_date', selectedDate)
-        .order('booking_time', { ascending: true });
+  useEffect(() => {
+    refreshSchedule();
+  }, [user, selectedDate, displayMode, calendarView]);
 
-      if (error) {
-        console.error('❌ Simple fetch error:', error);
-        throw error;
-      }
+  // Download the upcoming shifts and appointments for the staff member's own calendar app
+  const handleDownloadFeed = async () => {
+    if (!user) return;
 
-      console.log('✅ Simple bookings fetched:', data);
-
-      // If we have data, fetch customer details properly
-      if (data && data.length > 0) {
-        const customerIds = [...new Set(data.map(booking => booking.customer_id))];
-        const customersData = await fetchCustomerDetails(customerIds);
-
-        // Fetch service details
-        const serviceIds = [...new Set(data.map(booking => booking.service_id))];
-        const { data: servicesData } = await supabase
-          .from('services')
-          .select('*')
-          .in('id', serviceIds);
-
-        // Transform the data with proper customer info
-        const staffBookings: BookingWithRelations[] = data.map(booking => {
-          const service = servicesData?.find(s => s.id === booking.service_id);
-          const customer = customersData?.find(c => c.id === booking.customer_id);
-
-          return {
-            id: booking.id,
-            serviceId: booking.service_id,
-            serviceName: service?.service_name || 'Service',
-            service_name: service?.service_name || 'Service',
-            service_price: service?.price || booking.total_price || 0,
-            service_duration: service?.duration || 60,
-            customerId: booking.customer_id,
-            customerName: customer ? `${customer.first_name || ''} ${customer.last_name || ''}`.trim() : 'Customer',
-            customer_name: customer ? `${customer.first_name || ''} ${customer.last_name || ''}`.trim() : 'Customer',
-            customer_email: customer?.email || '',
-            customer_phone: customer?.phone || 'Unknown',
-            staffId: booking.staff_id,
-            staffName: user ? `${user.first_name || ''} ${user.last_name || ''}`.trim() : 'Current User',
-            staff_name: user ? `${user.first_name || ''} ${user.last_name || ''}`.trim() : 'Current User',
-            startTime: booking.booking_date ? `${booking.booking_date}T${booking.booking_time}` : '',
-            endTime: booking.booking_date ? `${booking.booking_date}T${booking.booking_time}` : '',
-            booking_date: booking.booking_date,
-            booking_time: booking.booking_time,
-            status: booking.status as BookingStatus,
-            price: booking.total_price || service?.price || 0,
-            notes: booking.notes || ''
-          };
-        });
-
-        setBookings(staffBookings);
-      } else {
-        setBookings([]);
-      }
+    try {
+      setError(null);
+      const feed = await buildStaffCalendarFeed(user.id, `${user.first_name || ''} ${user.last_name || ''}`.trim() || 'My Schedule');
+      downloadCalendarFile(feed, `schedule-${new Date().toISOString().split('T')[0]}`);
+    } catch (err: any) {
+      console.error('❌ Error building calendar feed:', err);
+      setError(err.message || 'Failed to build your calendar. Please try again.');
+    }
+  };
+
+  // Show the link calendar apps subscribe to, so the staff member's calendar keeps itself up to date
+  const handleShowFeedUrl = async () => {
+    if (!user) return;
 
+    try {
+      setError(null);
+      setFeedUrl(await getStaffFeedUrl(user.id));
     } catch (err: any) {
-      console.error('❌ Simple fetch failed:', err);
-      setError('Unable to load schedule data. Please check your connection.');
-    } finally {
-      setLoading(false);
+      console.error('❌ Error loading calendar link:', err);
+      setError(err.message || 'Failed to load your calendar link. Please try again.');
     }
   };
 
-  useEffect(() => {
-    // Try the simple fetch first
-    fetchStaffBookingsSimple();
-  }, [user, selectedDate]);
+  const handleResetFeedUrl = async () => {
+    if (!user) return;
+    if (!window.confirm('Make a new calendar link? Calendars subscribed to the old link will stop updating.')) return;
+
+    try {
+      setError(null);
+      setFeedUrl(await resetStaffFeedUrl(user.id));
+    } catch (err: any) {
+      console.error('❌ Error resetting calendar link:', err);
+      setError(err.message || 'Failed to make a new calendar link. Please try again.');
+    }
+  };
+
+  // Open the day's list for a booking picked on the calendar
+  const handleCalendarBookingClick = (booking: Booking) => {
+    setSelectedDate(booking.bookingDate);
+    setDisplayMode('list');
+  };
+
+  // Change a booking's status, let the customer know and refresh the list
+  const applyStatusChange = async (
+    booking: Booking,
+    newStatus: BookingStatus,
+    paymentMethod?: PaymentMethod,
+    treatmentNote?: StatusChangeOptions['treatmentNote'],
+    policyOverride?: string
+  ) => {
+    if (!user) return;
+
+    const warnings = await changeBookingStatus(booking, newStatus, user, { owner: { staffId: user.id }, paymentMethod, treatmentNote, policyOverride });
+    setNotice(warnings.length > 0
+      ? `The booking was updated to ${STATUS_LABELS[newStatus].toLowerCase()}. Please let an admin know: ${warnings.join(' ')}`
+      : null);
+
+    const notificationType = statusToNotificationType(newStatus);
+    if (notificationType) {
+      await notifyBookingEvent({
+        type: notificationType,
+        bookingId: booking.id,
+        customerId: booking.customerId,
+        serviceName: booking.serviceName,
+        bookingDate: booking.bookingDate,
+        bookingTime: booking.bookingTime,
+        actor: 'staff'
+      });
+    }
+
+    if (newStatus === 'cancelled') {
+      await offerCancelledBookingSlot(booking);
+    }
+
+    // Refresh the bookings list
+    await refreshSchedule();
+  };
 
   // Update booking status
-  const updateBookingStatus = async (bookingId: string, newStatus: BookingStatus) => {
+  const updateBookingStatus = async (booking: Booking, newStatus: BookingStatus) => {
+    // The customer is refunded in full, so a late cancellation has to say why
+    let reason: string | undefined;
+    if (newStatus === 'cancelled') {
+      const answer = window.prompt('Why is this appointment being cancelled? The reason is kept in the booking history.');
+      if (answer === null) return;
+      reason = answer.trim() || undefined;
+    }
+
     try {
       setError(null);
-      
-      const { error } = await supabase
-        .from('bookings')
-        .update({ 
-          status: newStatus,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', bookingId)
-        .eq('staff_id', user?.id);
-
-      if (error) throw error;
-
-      // Refresh the bookings list
-      await fetchStaffBookingsSimple();
+      await applyStatusChange(booking, newStatus, undefined, undefined, reason);
     } catch (err: any) {
       console.error('❌ Error updating booking status:', err);
-      setError('Failed to update booking status. Please try again.');
+      setError(err.message || 'Failed to update booking status. Please try again.');
     }
   };
 
@@ -328,12 +228,12 @@ const CheckSchedule: React.FC = () => {
   const columns = [
     { 
       header: 'Time', 
-      key: 'booking_time', 
-      render: (item: BookingWithRelations) => (
+      key: 'bookingTime',
+      render: (item: Booking) => (
         <div>
-          <div style={{ fontWeight: '500' }}>{formatTime(item.booking_time)}</div>
+          <div style={{ fontWeight: '500' }}>{formatTime(item.bookingTime)}</div>
           <div style={{ fontSize: '0.875rem', color: '#666' }}>
-            to {calculateEndTime(item.booking_time, item.service_duration)}
+            to {calculateEndTime(item.bookingTime, item.durationMinutes)}
           </div>
         </div>
       )
@@ -341,85 +241,84 @@ const CheckSchedule: React.FC = () => {
     { 
       header: 'Service', 
       key: 'serviceName',
-      render: (item: BookingWithRelations) => item.service_name
+      render: (item: Booking) => item.serviceName
     },
     { 
       header: 'Customer', 
       key: 'customerName',
-      render: (item: BookingWithRelations) => (
+      render: (item: Booking) => (
         <div>
-          <div style={{ fontWeight: '500' }}>{item.customer_name}</div>
+          <div style={{ fontWeight: '500' }}>{item.customerName}</div>
           <div style={{ fontSize: '0.875rem', color: '#666' }}>
-            ✉️ {item.customer_email}
+            ✉️ {item.customerEmail}
           </div>
+          {item.customerPhone && (
+            <div style={{ fontSize: '0.875rem', color: '#666' }}>
+              📞 {item.customerPhone}
+            </div>
+          )}
+          {item.customerAllergies && (
+            <div style={{ fontSize: '0.875rem', color: '#c62828', fontWeight: '500' }}>
+              ⚠️ Allergies: {item.customerAllergies}
+            </div>
+          )}
         </div>
       )
     },
     { 
       header: 'Duration', 
-      key: 'service_duration',
-      render: (item: BookingWithRelations) => `${item.service_duration} min`
+      key: 'durationMinutes',
+      render: (item: Booking) => `${item.durationMinutes} min`
     },
     { 
       header: 'Price', 
       key: 'price',
-      render: (item: BookingWithRelations) => formatCurrency(item.price)
+      render: (item: Booking) => formatCurrency(item.price)
     },
     { 
       header: 'Status', 
       key: 'status',
-      render: (item: BookingWithRelations) => (
+      render: (item: Booking) => (
         <span style={{ 
           padding: '4px 8px', 
           borderRadius: '12px', 
           fontSize: '12px',
           fontWeight: 'bold',
-          backgroundColor: 
-            item.status === 'confirmed' ? '#e8f5e8' :
-            item.status === 'completed' ? '#e3f2fd' :
-            item.status === 'cancelled' ? '#ffebee' : '#fff3e0',
-          color: 
-            item.status === 'confirmed' ? '#2e7d32' :
-            item.status === 'completed' ? '#1565c0' :
-            item.status === 'cancelled' ? '#c62828' : '#f57c00'
+          backgroundColor: STATUS_COLORS[item.status].background,
+          color: STATUS_COLORS[item.status].color
         }}>
-          {item.status.charAt(0).toUpperCase() + item.status.slice(1)}
+          {STATUS_LABELS[item.status]}
         </span>
       )
     },
     {
       header: 'Actions',
       key: 'actions',
-      render: (item: BookingWithRelations) => (
+      render: (item: Booking) => (
         <div style={{ display: 'flex', gap: '4px', flexDirection: 'column' }}>
-          {(item.status === 'pending' || item.status === 'confirmed') && (
-            <>
-              <Button 
-                variant="secondary" 
-                size="small"
-                onClick={() => updateBookingStatus(item.id, 'completed')}
-                style={{ fontSize: '12px', padding: '4px 8px' }}
-              >
-                Mark Complete
-              </Button>
+          {user && getAllowedTransitions(item.status, user.role).length > 0 ? (
+            getAllowedTransitions(item.status, user.role).map(transition => (
               <Button 
-                variant="text" 
+                key={transition.to}
+                variant={transition.to === 'cancelled' ? 'text' : 'secondary'} 
                 size="small"
-                onClick={() => updateBookingStatus(item.id, 'cancelled')}
-                style={{ fontSize: '12px', padding: '4px 8px', color: '#d32f2f' }}
+                onClick={() =>
+                  transition.to === 'completed'
+                    ? setCompletingBooking(item)
+                    : updateBookingStatus(item, transition.to)
+                }
+                style={{
+                  fontSize: '12px',
+                  padding: '4px 8px',
+                  ...(transition.to === 'cancelled' ? { color: '#d32f2f' } : {})
+                }}
               >
-                Cancel
+                {transition.label}
               </Button>
-            </>
-          )}
-          {item.status === 'completed' && (
+            ))
+          ) : (
             <span style={{ color: '#666', fontStyle: 'italic', fontSize: '12px' }}>
-              Completed
-            </span>
-          )}
-          {item.status === 'cancelled' && (
-            <span style={{ color: '#666', fontStyle: 'italic', fontSize: '12px' }}>
-              Cancelled
+              {STATUS_LABELS[item.status]}
             </span>
           )}
         </div>
@@ -437,7 +336,7 @@ const CheckSchedule: React.FC = () => {
       <DashboardHeader title="My Schedule" />
       <div className="page-container">
         <p className="section-subtitle" style={{ textAlign: 'left', marginBottom: 'var(--spacing-lg)' }}>
-          View your appointments for the day and manage your schedule.
+          View your appointments by day, week or month and manage your schedule.
         </p>
 
         {/* Date Selection */}
@@ -458,11 +357,34 @@ const CheckSchedule: React.FC = () => {
           <Button 
             variant="secondary" 
             size="small"
-            onClick={fetchStaffBookingsSimple}
+            onClick={refreshSchedule}
             disabled={loading}
           >
             {loading ? 'Refreshing...' : 'Refresh'}
           </Button>
+          <Button
+            variant="secondary"
+            size="small"
+            onClick={() => setDisplayMode(displayMode === 'list' ? 'calendar' : 'list')}
+          >
+            {displayMode === 'list' ? 'Calendar View' : 'List View'}
+          </Button>
+          <Button
+            variant="secondary"
+            size="small"
+            onClick={handleDownloadFeed}
+            title={`Your shifts and appointments for the next ${STAFF_FEED_DAYS} days as an .ics file`}
+          >
+            Export to Calendar
+          </Button>
+          <Button
+            variant="secondary"
+            size="small"
+            onClick={handleShowFeedUrl}
+            title="A link your calendar app checks for changes on its own"
+          >
+            Subscribe in Calendar
+          </Button>
           <Button 
             variant="text" 
             size="small"
@@ -476,6 +398,52 @@ const CheckSchedule: React.FC = () => {
           </Button>
         </div>
 
+        {feedUrl && (
+          <div style={{
+            padding: '12px',
+            marginBottom: '16px',
+            backgroundColor: '#f8f9fa',
+            border: '1px solid var(--color-border)',
+            borderRadius: '4px',
+            fontSize: '0.875rem'
+          }}>
+            <p style={{ margin: '0 0 8px 0' }}>
+              Add this link to Google Calendar ("From URL"), Apple Calendar or Outlook ("Subscribe"). Keep it private: anyone with the link can see your schedule.
+            </p>
+            <div style={{ display: 'flex', gap: '8px', alignItems: 'center', flexWrap: 'wrap' }}>
+              <input
+                type="text"
+                value={feedUrl}
+                readOnly
+                onFocus={(e) => e.target.select()}
+                style={{ flex: 1, minWidth: '240px', padding: '6px', fontFamily: 'monospace', fontSize: '12px' }}
+              />
+              <Button variant="secondary" size="small" onClick={() => navigator.clipboard.writeText(feedUrl)}>
+                Copy
+              </Button>
+              <Button variant="text" size="small" onClick={handleResetFeedUrl}>
+                New Link
+              </Button>
+              <Button variant="text" size="small" onClick={() => setFeedUrl(null)}>
+                Hide
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {notice && (
+          <div style={{
+            backgroundColor: '#fff3e0',
+            border: '1px solid #ffb74d',
+            color: '#e65100',
+            padding: '12px',
+            borderRadius: '4px',
+            marginBottom: '16px'
+          }}>
+            {notice}
+          </div>
+        )}
+
         {/* Error Message */}
         {error && (
           <div style={{
@@ -491,7 +459,7 @@ const CheckSchedule: React.FC = () => {
               <Button 
                 variant="text" 
                 size="small" 
-                onClick={fetchStaffBookingsSimple}
+                onClick={refreshSchedule}
                 style={{ fontSize: '12px', padding: '2px 6px' }}
               >
                 Try Again
@@ -500,89 +468,102 @@ const CheckSchedule: React.FC = () => {
           </div>
         )}
 
-        {/* Quick Stats */}
-        <div style={{ 
-          display: 'grid', 
-          gridTemplateColumns: 'repeat(auto-fit, minmax(150px, 1fr))', 
-          gap: 'var(--spacing-md)',
-          marginBottom: 'var(--spacing-lg)'
-        }}>
-          <div style={{
-            padding: 'var(--spacing-md)',
-            backgroundColor: '#fff3e0',
-            borderRadius: 'var(--border-radius)',
-            textAlign: 'center',
-            border: '1px solid #ffb74d'
-          }}>
-            <h3 style={{ margin: 0, fontSize: '1.5rem', color: '#f57c00' }}>
-              {pendingBookings}
-            </h3>
-            <p style={{ margin: 0, color: '#666', fontSize: '0.875rem' }}>Pending</p>
-          </div>
-          <div style={{
-            padding: 'var(--spacing-md)',
-            backgroundColor: '#e8f5e8',
-            borderRadius: 'var(--border-radius)',
-            textAlign: 'center',
-            border: '1px solid #81c784'
-          }}>
-            <h3 style={{ margin: 0, fontSize: '1.5rem', color: '#2e7d32' }}>
-              {confirmedBookings}
-            </h3>
-            <p style={{ margin: 0, color: '#666', fontSize: '0.875rem' }}>Confirmed</p>
-          </div>
-          <div style={{
-            padding: 'var(--spacing-md)',
-            backgroundColor: '#e3f2fd',
-            borderRadius: 'var(--border-radius)',
-            textAlign: 'center',
-            border: '1px solid #64b5f6'
-          }}>
-            <h3 style={{ margin: 0, fontSize: '1.5rem', color: '#1565c0' }}>
-              {completedBookings}
-            </h3>
-            <p style={{ margin: 0, color: '#666', fontSize: '0.875rem' }}>Completed</p>
-          </div>
-          <div style={{
-            padding: 'var(--spacing-md)',
-            backgroundColor: '#f5f5f5',
-            borderRadius: 'var(--border-radius)',
-            textAlign: 'center',
-            border: '1px solid #e0e0e0'
-          }}>
-            <h3 style={{ margin: 0, fontSize: '1.5rem', color: '#333' }}>
-              {bookings.length}
-            </h3>
-            <p style={{ margin: 0, color: '#666', fontSize: '0.875rem' }}>Total</p>
-          </div>
-        </div>
-
-        {/* Bookings Table */}
-        {loading ? (
-          <div style={{ textAlign: 'center', padding: '40px' }}>
-            <p>Loading your schedule...</p>
-          </div>
-        ) : bookings.length === 0 ? (
+        {displayMode === 'calendar' ? (
+          <BookingCalendar
+            bookings={calendarBookings}
+            view={calendarView}
+            date={selectedDate}
+            onViewChange={setCalendarView}
+            onDateChange={setSelectedDate}
+            onBookingClick={handleCalendarBookingClick}
+          />
+        ) : (
+          <>
+          {/* Quick Stats */}
           <div style={{ 
-            textAlign: 'center', 
-            padding: '40px',
-            backgroundColor: '#f9f9f9',
-            borderRadius: 'var(--border-radius)',
-            border: '1px solid #e0e0e0'
+            display: 'grid', 
+            gridTemplateColumns: 'repeat(auto-fit, minmax(150px, 1fr))', 
+            gap: 'var(--spacing-md)',
+            marginBottom: 'var(--spacing-lg)'
           }}>
-            <p style={{ color: '#666', marginBottom: 'var(--spacing-md)' }}>
-              No appointments scheduled for {formatDate(selectedDate)}.
-            </p>
-            <p style={{ color: '#999', fontSize: '0.875rem' }}>
-              When customers book appointments and select you as their preferred staff, they will appear here.
-            </p>
+            <div style={{
+              padding: 'var(--spacing-md)',
+              backgroundColor: '#fff3e0',
+              borderRadius: 'var(--border-radius)',
+              textAlign: 'center',
+              border: '1px solid #ffb74d'
+            }}>
+              <h3 style={{ margin: 0, fontSize: '1.5rem', color: '#f57c00' }}>
+                {pendingBookings}
+              </h3>
+              <p style={{ margin: 0, color: '#666', fontSize: '0.875rem' }}>Pending</p>
+            </div>
+            <div style={{
+              padding: 'var(--spacing-md)',
+              backgroundColor: '#e8f5e8',
+              borderRadius: 'var(--border-radius)',
+              textAlign: 'center',
+              border: '1px solid #81c784'
+            }}>
+              <h3 style={{ margin: 0, fontSize: '1.5rem', color: '#2e7d32' }}>
+                {confirmedBookings}
+              </h3>
+              <p style={{ margin: 0, color: '#666', fontSize: '0.875rem' }}>Confirmed</p>
+            </div>
+            <div style={{
+              padding: 'var(--spacing-md)',
+              backgroundColor: '#e3f2fd',
+              borderRadius: 'var(--border-radius)',
+              textAlign: 'center',
+              border: '1px solid #64b5f6'
+            }}>
+              <h3 style={{ margin: 0, fontSize: '1.5rem', color: '#1565c0' }}>
+                {completedBookings}
+              </h3>
+              <p style={{ margin: 0, color: '#666', fontSize: '0.875rem' }}>Completed</p>
+            </div>
+            <div style={{
+              padding: 'var(--spacing-md)',
+              backgroundColor: '#f5f5f5',
+              borderRadius: 'var(--border-radius)',
+              textAlign: 'center',
+              border: '1px solid #e0e0e0'
+            }}>
+              <h3 style={{ margin: 0, fontSize: '1.5rem', color: '#333' }}>
+                {bookings.length}
+              </h3>
+              <p style={{ margin: 0, color: '#666', fontSize: '0.875rem' }}>Total</p>
+            </div>
           </div>
-        ) : (
-          <Table 
-            data={bookings} 
-            columns={columns} 
-            caption={`Your Appointments for ${formatDate(selectedDate)} - ${bookings.length} booking(s)`}
-          />
+
+          {/* Bookings Table */}
+          {loading ? (
+            <div style={{ textAlign: 'center', padding: '40px' }}>
+              <p>Loading your schedule...</p>
+            </div>
+          ) : bookings.length === 0 ? (
+            <div style={{ 
+              textAlign: 'center', 
+              padding: '40px',
+              backgroundColor: '#f9f9f9',
+              borderRadius: 'var(--border-radius)',
+              border: '1px solid #e0e0e0'
+            }}>
+              <p style={{ color: '#666', marginBottom: 'var(--spacing-md)' }}>
+                No appointments scheduled for {formatDate(selectedDate)}.
+              </p>
+              <p style={{ color: '#999', fontSize: '0.875rem' }}>
+                When customers book appointments and select you as their preferred staff, they will appear here.
+              </p>
+            </div>
+          ) : (
+            <Table 
+              data={bookings} 
+              columns={columns} 
+              caption={`Your Appointments for ${formatDate(selectedDate)} - ${bookings.length} booking(s)`}
+            />
+          )}
+          </>
         )}
 
         {/* Notes Section */}
@@ -597,11 +578,20 @@ const CheckSchedule: React.FC = () => {
           <ul style={{ margin: 0, paddingLeft: '20px', color: '#666', fontSize: '0.875rem' }}>
             <li>All times are displayed in your local timezone</li>
             <li>You can mark appointments as completed or cancel them as needed</li>
+            <li>Completing an appointment takes any balance the customer still owes</li>
             <li>Customers will receive notifications when you update their appointment status</li>
+            <li>Subscribe in Calendar to keep your calendar app up to date on its own; Export to Calendar saves a one-off copy</li>
             <li>Only appointments where customers specifically selected you will appear here</li>
           </ul>
         </div>
       </div>
+
+      <CompleteBookingModal
+        booking={completingBooking}
+        isOpen={!!completingBooking}
+        onClose={() => setCompletingBooking(null)}
+        onConfirm={(booking, paymentMethod, treatmentNote) => applyStatusChange(booking, 'completed', paymentMethod, treatmentNote)}
+      />
     </>
   );
 };
@@ -4,85 +4,19 @@ import DashboardHeader from '@components/dashboard/DashboardHeader';
 import { useAuth } from '@context/AuthContext';
 import Table from '@components/dashboard/Table';
 import Button from '@components/common/Button';
-import { Booking, BookingStatus } from '@models/booking';
+import { Booking } from '@models/booking';
 import { formatCurrency, formatDate } from '@utils/helpers';
+import { ACTIVE_STATUSES, STATUS_COLORS, STATUS_LABELS } from '@utils/bookingStatus';
 import { Link } from 'react-router-dom';
-import { supabase } from '../../supabaseClient';
-
-interface BookingWithRelations extends Booking {
-  service_name: string;
-  service_price: number;
-  service_duration: number;
-  customer_name: string;
-  customer_email: string;
-  customer_phone: string;
-  staff_name: string;
-  booking_date: string;
-  booking_time: string;
-}
+import { bookingsRepository } from '@repositories/bookings';
 
 const StaffDashboard: React.FC = () => {
   const { user } = useAuth();
-  const [bookings, setBookings] = useState<BookingWithRelations[]>([]);
+  const [bookings, setBookings] = useState<Booking[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  // Fetch customer details - FIXED: Using correct table structure
-  const fetchCustomerDetails = async (customerIds: string[]) => {
-    try {
-      console.log('🔄 Fetching customer details for IDs:', customerIds);
-      
-      const { data, error } = await supabase
-        .from('users')
-        .select('id, first_name, last_name, email')
-        .in('id', customerIds);
-
-      if (error) {
-        console.error('❌ Error fetching customer details:', error);
-        // Return fallback data
-        return customerIds.map(id => ({
-          id,
-          first_name: 'Customer',
-          last_name: '',
-          email: 'unknown@example.com',
-          phone: 'Unknown'
-        }));
-      }
-
-      console.log('✅ Customer details fetched:', data);
-
-      // If no data found, return fallback
-      if (!data || data.length === 0) {
-        return customerIds.map(id => ({
-          id,
-          first_name: 'Customer',
-          last_name: '',
-          email: 'unknown@example.com',
-          phone: 'Unknown'
-        }));
-      }
-
-      return data.map(user => ({
-        id: user.id,
-        first_name: user.first_name || 'Customer',
-        last_name: user.last_name || '',
-        email: user.email || 'unknown@example.com',
-        phone: 'Unknown' // Your users table doesn't have phone column
-      }));
-
-    } catch (err) {
-      console.error('❌ Error in fetchCustomerDetails:', err);
-      return customerIds.map(id => ({
-        id,
-        first_name: 'Customer',
-        last_name: '',
-        email: 'unknown@example.com',
-        phone: 'Unknown'
-      }));
-    }
-  };
-
-  // Fetch staff bookings from Supabase - FIXED: Using correct table structure
+  // Fetch this staff member's bookings with their service and customer details
   const fetchStaffBookings = async () => {
     try {
       setLoading(true);
@@ -94,78 +28,10 @@ const StaffDashboard: React.FC = () => {
       }
 
       console.log('🔄 Fetching bookings for staff:', user.id);
+      const staffBookings = await bookingsRepository.list({ staffId: user.id });
+      console.log('✅ Staff bookings fetched:', staffBookings);
 
-      // Get bookings for this staff member
-      const { data, error } = await supabase
-        .from('bookings')
-        .select('*')
-        .eq('staff_id', user.id)
-        .order('booking_date', { ascending: true })
-        .order('booking_time', { ascending: true });
-
-      if (error) {
-        console.error('❌ Error fetching staff bookings:', error);
-        throw error;
-      }
-
-      console.log('✅ Staff bookings fetched:', data);
-
-      // If we have bookings, fetch related data
-      if (data && data.length > 0) {
-        // Fetch service details
-        const serviceIds = [...new Set(data.map(booking => booking.service_id))];
-        console.log('🔄 Fetching services for IDs:', serviceIds);
-        
-        const { data: servicesData, error: servicesError } = await supabase
-          .from('services')
-          .select('*')
-          .in('id', serviceIds);
-
-        if (servicesError) {
-          console.error('❌ Error fetching services:', servicesError);
-        }
-
-        console.log('✅ Services fetched:', servicesData);
-
-        // Fetch customer details
-        const customerIds = [...new Set(data.map(booking => booking.customer_id))];
-        const customersData = await fetchCustomerDetails(customerIds);
-
-        // Transform data
-        const staffBookings: BookingWithRelations[] = data.map(booking => {
-          const service = servicesData?.find(s => s.id === booking.service_id);
-          const customer = customersData?.find(c => c.id === booking.customer_id);
-          
-          return {
-            id: booking.id,
-            serviceId: booking.service_id,
-            serviceName: service?.service_name || 'Unknown Service',
-            service_name: service?.service_name || 'Unknown Service',
-            service_price: service?.price || 0,
-            service_duration: service?.duration || 60,
-            customerId: booking.customer_id,
-            customerName: customer ? `${customer.first_name || ''} ${customer.last_name || ''}`.trim() : 'Unknown Customer',
-            customer_name: customer ? `${customer.first_name || ''} ${customer.last_name || ''}`.trim() : 'Unknown Customer',
-            customer_email: customer?.email || '',
-            customer_phone: customer?.phone || 'Unknown', // Your users table doesn't have phone
-            staffId: booking.staff_id,
-            staffName: user ? `${user.first_name || ''} ${user.last_name || ''}`.trim() : 'Current User',
-            staff_name: user ? `${user.first_name || ''} ${user.last_name || ''}`.trim() : 'Current User',
-            startTime: booking.booking_date ? `${booking.booking_date}T${booking.booking_time}` : '',
-            endTime: booking.booking_date ? `${booking.booking_date}T${booking.booking_time}` : '',
-            booking_date: booking.booking_date,
-            booking_time: booking.booking_time,
-            status: booking.status as BookingStatus,
-            price: booking.total_price || service?.price || 0,
-            notes: booking.notes || ''
-          };
-        });
-
-        setBookings(staffBookings);
-      } else {
-        setBookings([]);
-      }
-
+      setBookings(staffBookings);
     } catch (err: any) {
       console.error('❌ Error fetching staff bookings:', err);
       setError('Failed to load your appointments. Please try again.');
@@ -199,16 +65,16 @@ const StaffDashboard: React.FC = () => {
     { 
       header: 'Service', 
       key: 'serviceName',
-      render: (item: BookingWithRelations) => item.service_name
+      render: (item: Booking) => item.serviceName
     },
     { 
       header: 'Customer', 
       key: 'customerName',
-      render: (item: BookingWithRelations) => (
+      render: (item: Booking) => (
         <div>
-          <div style={{ fontWeight: '500' }}>{item.customer_name}</div>
+          <div style={{ fontWeight: '500' }}>{item.customerName}</div>
           <div style={{ fontSize: '0.875rem', color: '#666' }}>
-            ✉️ {item.customer_email}
+            ✉️ {item.customerEmail}
           </div>
         </div>
       )
@@ -216,57 +82,51 @@ const StaffDashboard: React.FC = () => {
     { 
       header: 'Date & Time', 
       key: 'datetime',
-      render: (item: BookingWithRelations) => formatDateTime(item.booking_date, item.booking_time)
+      render: (item: Booking) => formatDateTime(item.bookingDate, item.bookingTime)
     },
     { 
       header: 'Price', 
       key: 'price',
-      render: (item: BookingWithRelations) => formatCurrency(item.price)
+      render: (item: Booking) => formatCurrency(item.price)
     },
     { 
       header: 'Status', 
       key: 'status',
-      render: (item: BookingWithRelations) => (
+      render: (item: Booking) => (
         <span style={{ 
           padding: '4px 8px', 
           borderRadius: '12px', 
           fontSize: '12px',
           fontWeight: 'bold',
-          backgroundColor: 
-            item.status === 'confirmed' ? '#e8f5e8' :
-            item.status === 'completed' ? '#e3f2fd' :
-            item.status === 'cancelled' ? '#ffebee' : '#fff3e0',
-          color: 
-            item.status === 'confirmed' ? '#2e7d32' :
-            item.status === 'completed' ? '#1565c0' :
-            item.status === 'cancelled' ? '#c62828' : '#f57c00'
+          backgroundColor: STATUS_COLORS[item.status].background,
+          color: STATUS_COLORS[item.status].color
         }}>
-          {item.status.charAt(0).toUpperCase() + item.status.slice(1)}
+          {STATUS_LABELS[item.status]}
         </span>
       )
     },
     {
       header: 'Actions',
       key: 'actions',
-      render: (item: BookingWithRelations) => (
-        (item.status === 'pending' || item.status === 'confirmed') ? (
+      render: (item: Booking) => (
+        ACTIVE_STATUSES.includes(item.status) ? (
           <Link to="/staff/update-status">
             <Button variant="secondary" size="small">Manage</Button>
           </Link>
         ) : (
-          <span style={{ color: '#666', fontStyle: 'italic' }}>Completed</span>
+          <span style={{ color: '#666', fontStyle: 'italic' }}>{STATUS_LABELS[item.status]}</span>
         )
       )
     },
   ];
 
   // Filter bookings
-  const upcomingBookings = bookings.filter(b => b.status === 'pending' || b.status === 'confirmed');
-  const recentBookings = bookings.filter(b => b.status === 'completed' || b.status === 'cancelled');
+  const upcomingBookings = bookings.filter(b => ACTIVE_STATUSES.includes(b.status));
+  const recentBookings = bookings.filter(b => !ACTIVE_STATUSES.includes(b.status));
 
   // Quick stats
   const today = new Date().toISOString().split('T')[0];
-  const todaysBookings = bookings.filter(b => b.booking_date === today);
+  const todaysBookings = bookings.filter(b => b.bookingDate === today);
   const pendingBookings = bookings.filter(b => b.status === 'pending').length;
   const confirmedBookings = bookings.filter(b => b.status === 'confirmed').length;
   const completedBookings = bookings.filter(b => b.status === 'completed').length;
@@ -0,0 +1,430 @@
+// src/pages/staff/PointOfSale.tsx
+import React, { useState, useEffect } from 'react';
+import { useLocation } from 'react-router-dom';
+import DashboardHeader from '@components/dashboard/DashboardHeader';
+import Table from '@components/dashboard/Table';
+import Button from '@components/common/Button';
+import { useAuth } from '@context/AuthContext';
+import { Booking } from '@models/booking';
+import { PaymentMethod } from '@models/payment';
+import { CartLine, DiscountType, RetailSale } from '@models/retail';
+import { Product } from '@models/service';
+import { bookingsRepository } from '@repositories/bookings';
+import { retailSalesRepository } from '@repositories/retailSales';
+import { formatCurrency } from '@utils/helpers';
+import { PAYMENT_METHOD_LABELS } from '@utils/payments';
+import { exportToPdf } from '@utils/reportExport';
+import { buildReceiptDocument, calculateCartTotals, completeRetailSale, fetchRetailProducts } from '@utils/retailSales';
+
+// How far back completed appointments can still have products added
+const RECENT_APPOINTMENT_DAYS = 7;
+
+const PointOfSale: React.FC = () => {
+  const { user } = useAuth();
+  const location = useLocation();
+  const [products, setProducts] = useState<Product[]>([]);
+  const [appointments, setAppointments] = useState<Booking[]>([]);
+  const [todaysSales, setTodaysSales] = useState<RetailSale[]>([]);
+  const [search, setSearch] = useState('');
+  const [cart, setCart] = useState<CartLine[]>([]);
+  const [bookingId, setBookingId] = useState<string>(location.state?.bookingId || '');
+  const [discountType, setDiscountType] = useState<DiscountType>('amount');
+  const [discountValue, setDiscountValue] = useState('');
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('cash');
+  const [lastSale, setLastSale] = useState<RetailSale | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchData = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const today = new Date();
+      const since = new Date(today.getTime() - RECENT_APPOINTMENT_DAYS * 24 * 60 * 60 * 1000);
+      const startOfToday = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+
+      const [productList, completedBookings, sales] = await Promise.all([
+        fetchRetailProducts(),
+        bookingsRepository.list({
+          statuses: ['completed'],
+          fromDate: since.toISOString().split('T')[0],
+          order: 'schedule_desc',
+        }),
+        retailSalesRepository.list({ createdFrom: startOfToday.toISOString() }),
+      ]);
+      setProducts(productList);
+      setAppointments(completedBookings);
+      setTodaysSales(sales);
+    } catch (err: any) {
+      console.error('❌ Error loading point of sale:', err);
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const quantityInCart = (productId: string) =>
+    cart.find(line => line.product.id === productId)?.quantity || 0;
+
+  const handleAddToCart = (product: Product) => {
+    setLastSale(null);
+    setCart(prev => {
+      const existing = prev.find(line => line.product.id === product.id);
+      if (existing) {
+        return prev.map(line => line.product.id === product.id ? { ...line, quantity: line.quantity + 1 } : line);
+      }
+      return [...prev, { product, quantity: 1 }];
+    });
+  };
+
+  const handleQuantityChange = (productId: string, quantity: number) => {
+    setCart(prev => prev
+      .map(line => line.product.id === productId ? { ...line, quantity } : line)
+      .filter(line => line.quantity > 0));
+  };
+
+  const resetSale = () => {
+    setCart([]);
+    setBookingId('');
+    setDiscountType('amount');
+    setDiscountValue('');
+    setPaymentMethod('cash');
+  };
+
+  const discount = { type: discountType, value: parseFloat(discountValue) || 0 };
+  const totals = calculateCartTotals(cart, discount);
+  const selectedBooking = appointments.find(appointment => appointment.id === bookingId);
+
+  const handleCompleteSale = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const sale = await completeRetailSale({
+        cart,
+        discount,
+        paymentMethod,
+        booking: selectedBooking,
+        soldBy: user?.id,
+      });
+      setLastSale(sale);
+      resetSale();
+      await fetchData();
+    } catch (err: any) {
+      console.error('❌ Error completing sale:', err);
+      setError(err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handlePrintReceipt = (sale: RetailSale) => {
+    try {
+      setError(null);
+      exportToPdf(buildReceiptDocument(sale));
+    } catch (err: any) {
+      console.error('❌ Error printing receipt:', err);
+      setError(err.message);
+    }
+  };
+
+  const visibleProducts = products.filter(product =>
+    `${product.name} ${product.category}`.toLowerCase().includes(search.trim().toLowerCase())
+  );
+
+  const salesColumns = [
+    {
+      header: 'Sale',
+      key: 'id',
+      render: (item: RetailSale) => (
+        <div>
+          <div style={{ fontWeight: '500' }}>#{item.id}</div>
+          <div style={{ fontSize: '0.875rem', color: '#666' }}>
+            {new Date(item.createdAt).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+          </div>
+        </div>
+      )
+    },
+    {
+      header: 'Items',
+      key: 'lines',
+      render: (item: RetailSale) => (
+        <div style={{ fontSize: '0.875rem' }}>
+          {item.lines.map(line => (
+            <div key={line.id}>{line.productName || 'Deleted product'} × {line.quantity}</div>
+          ))}
+        </div>
+      )
+    },
+    {
+      header: 'Customer',
+      key: 'customerName',
+      render: (item: RetailSale) => item.customerName || <span style={{ color: '#999' }}>Walk-in</span>
+    },
+    {
+      header: 'Total',
+      key: 'total',
+      render: (item: RetailSale) => (
+        <div>
+          <div>{formatCurrency(item.total)}</div>
+          <div style={{ fontSize: '0.875rem', color: '#666' }}>{PAYMENT_METHOD_LABELS[item.paymentMethod]}</div>
+        </div>
+      )
+    },
+    {
+      header: 'Actions',
+      key: 'actions',
+      render: (item: RetailSale) => (
+        <Button variant="text" size="small" onClick={() => handlePrintReceipt(item)}>
+          Receipt
+        </Button>
+      )
+    },
+  ];
+
+  return (
+    <>
+      <DashboardHeader
+        title="Point of Sale"
+        actions={
+          <Button variant="secondary" onClick={fetchData} disabled={loading}>
+            Refresh
+          </Button>
+        }
+      />
+      <div className="page-container">
+        <p className="section-subtitle" style={{textAlign: 'left', marginBottom: 'var(--spacing-lg)'}}>
+          Sell retail products to walk-in customers or add them to a completed appointment.
+        </p>
+
+        {lastSale && (
+          <div style={{
+            backgroundColor: '#e8f5e8',
+            color: '#2e7d32',
+            padding: '12px',
+            borderRadius: '4px',
+            marginBottom: '15px',
+            border: '1px solid #c8e6c9',
+            display: 'flex',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+            gap: '12px'
+          }}>
+            <span>
+              Sale #{lastSale.id} completed: {formatCurrency(lastSale.total)} by {PAYMENT_METHOD_LABELS[lastSale.paymentMethod].toLowerCase()}.
+            </span>
+            <Button variant="secondary" size="small" onClick={() => handlePrintReceipt(lastSale)}>
+              Print Receipt
+            </Button>
+          </div>
+        )}
+
+        {error && <div className="auth-error-message" style={{textAlign: 'left'}}>{error}</div>}
+
+        {loading ? (
+          <p style={{textAlign: 'center'}}>Loading products...</p>
+        ) : (
+          <div style={{ display: 'grid', gridTemplateColumns: 'minmax(0, 3fr) minmax(280px, 2fr)', gap: 'var(--spacing-lg)', alignItems: 'start' }}>
+            {/* Products */}
+            <section>
+              <input
+                type="search"
+                placeholder="Search products..."
+                aria-label="Search products"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                style={{ width: '100%', padding: '8px', marginBottom: 'var(--spacing-md)', border: '1px solid #ddd', borderRadius: '4px' }}
+              />
+              {visibleProducts.length === 0 ? (
+                <p style={{ color: '#999', fontStyle: 'italic' }}>No products match your search.</p>
+              ) : (
+                <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(180px, 1fr))', gap: 'var(--spacing-md)' }}>
+                  {visibleProducts.map(product => {
+                    const available = product.stock - quantityInCart(product.id);
+                    return (
+                      <div key={product.id} style={{
+                        border: '1px solid #e0e0e0',
+                        borderRadius: 'var(--border-radius)',
+                        backgroundColor: 'white',
+                        padding: 'var(--spacing-md)',
+                        display: 'flex',
+                        flexDirection: 'column',
+                        gap: '4px'
+                      }}>
+                        {product.imageUrl && (
+                          <img
+                            src={product.imageUrl}
+                            alt={product.name}
+                            style={{ width: '100%', height: '100px', objectFit: 'cover', borderRadius: '4px' }}
+                          />
+                        )}
+                        <strong>{product.name}</strong>
+                        <span style={{ fontSize: '0.875rem', color: '#666' }}>
+                          {product.category}{product.description ? ` · ${product.description}` : ''}
+                        </span>
+                        <span style={{ color: 'var(--color-accent)', fontWeight: 'bold' }}>{formatCurrency(product.price)}</span>
+                        <span style={{ fontSize: '0.875rem', color: available > 0 ? '#666' : '#d32f2f' }}>
+                          {available > 0 ? `${available} available` : 'Out of stock'}
+                        </span>
+                        <Button
+                          variant="secondary"
+                          size="small"
+                          onClick={() => handleAddToCart(product)}
+                          disabled={available < 1}
+                        >
+                          Add to Cart
+                        </Button>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </section>
+
+            {/* Cart */}
+            <section className="contact-form" style={{
+              border: '1px solid #e0e0e0',
+              borderRadius: 'var(--border-radius)',
+              backgroundColor: 'white',
+              padding: 'var(--spacing-md)'
+            }}>
+              <h3 style={{ marginTop: 0 }}>Cart</h3>
+
+              {cart.length === 0 ? (
+                <p style={{ color: '#999', fontStyle: 'italic' }}>The cart is empty. Add products from the list.</p>
+              ) : (
+                <ul style={{ listStyle: 'none', padding: 0, margin: '0 0 var(--spacing-md) 0' }}>
+                  {cart.map(line => (
+                    <li key={line.product.id} style={{
+                      display: 'flex',
+                      alignItems: 'center',
+                      gap: '8px',
+                      padding: '8px 0',
+                      borderBottom: '1px dashed var(--color-border)'
+                    }}>
+                      <span style={{ flex: 1 }}>
+                        {line.product.name}
+                        <span style={{ display: 'block', fontSize: '0.875rem', color: '#666' }}>
+                          {formatCurrency(line.product.price)} each
+                        </span>
+                      </span>
+                      <input
+                        type="number"
+                        aria-label={`Quantity of ${line.product.name}`}
+                        value={line.quantity}
+                        min="0"
+                        max={line.product.stock}
+                        step="1"
+                        onChange={(e) => handleQuantityChange(line.product.id, Math.min(parseInt(e.target.value, 10) || 0, line.product.stock))}
+                        style={{ width: '64px' }}
+                      />
+                      <span style={{ minWidth: '90px', textAlign: 'right' }}>
+                        {formatCurrency(line.product.price * line.quantity)}
+                      </span>
+                      <Button
+                        variant="text"
+                        size="small"
+                        onClick={() => handleQuantityChange(line.product.id, 0)}
+                        style={{ color: '#d32f2f' }}
+                      >
+                        Remove
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              <div className="form-group">
+                <label htmlFor="pos-booking">Add to Appointment</label>
+                <select id="pos-booking" value={bookingId} onChange={(e) => setBookingId(e.target.value)}>
+                  <option value="">Walk-in sale (no appointment)</option>
+                  {appointments.map(appointment => (
+                    <option key={appointment.id} value={appointment.id}>
+                      {appointment.customerName} · {appointment.serviceName} · {new Date(appointment.bookingDate).toLocaleDateString()}
+                    </option>
+                  ))}
+                </select>
+                <small style={{ color: '#666', marginTop: '4px', display: 'block' }}>
+                  Completed appointments from the last {RECENT_APPOINTMENT_DAYS} days.
+                </small>
+              </div>
+
+              <div className="form-group">
+                <label htmlFor="pos-discount">Discount</label>
+                <div style={{ display: 'flex', gap: '8px' }}>
+                  <select
+                    aria-label="Discount type"
+                    value={discountType}
+                    onChange={(e) => setDiscountType(e.target.value as DiscountType)}
+                    style={{ width: '90px' }}
+                  >
+                    <option value="amount">₱</option>
+                    <option value="percent">%</option>
+                  </select>
+                  <input
+                    type="number"
+                    id="pos-discount"
+                    value={discountValue}
+                    min="0"
+                    max={discountType === 'percent' ? 100 : undefined}
+                    step="0.01"
+                    placeholder="0"
+                    onChange={(e) => setDiscountValue(e.target.value)}
+                  />
+                </div>
+              </div>
+
+              <div className="form-group">
+                <label htmlFor="pos-payment">Payment Method</label>
+                <select id="pos-payment" value={paymentMethod} onChange={(e) => setPaymentMethod(e.target.value as PaymentMethod)}>
+                  {(Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[]).map(method => (
+                    <option key={method} value={method}>{PAYMENT_METHOD_LABELS[method]}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div style={{ borderTop: '2px solid var(--color-border)', paddingTop: 'var(--spacing-sm)', marginBottom: 'var(--spacing-md)' }}>
+                <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+                  <span>Subtotal</span><span>{formatCurrency(totals.subtotal)}</span>
+                </div>
+                {totals.discount > 0 && (
+                  <div style={{ display: 'flex', justifyContent: 'space-between', color: '#2e7d32' }}>
+                    <span>Discount</span><span>-{formatCurrency(totals.discount)}</span>
+                  </div>
+                )}
+                <div style={{ display: 'flex', justifyContent: 'space-between', fontWeight: 'bold', fontSize: '1.2rem' }}>
+                  <span>Total</span><span>{formatCurrency(totals.total)}</span>
+                </div>
+              </div>
+
+              <div style={{ display: 'flex', justifyContent: 'flex-end', gap: 'var(--spacing-md)' }}>
+                <Button variant="secondary" onClick={resetSale} disabled={saving || cart.length === 0}>
+                  Clear
+                </Button>
+                <Button variant="primary" onClick={handleCompleteSale} disabled={saving || cart.length === 0}>
+                  {saving ? 'Processing...' : `Charge ${formatCurrency(totals.total)}`}
+                </Button>
+              </div>
+            </section>
+          </div>
+        )}
+
+        <section style={{ marginTop: 'var(--spacing-xl)' }}>
+          <Table
+            data={todaysSales}
+            columns={salesColumns}
+            caption={`Today's Sales (${todaysSales.length} · ${formatCurrency(todaysSales.reduce((sum, sale) => sum + sale.total, 0))})`}
+            emptyMessage="No retail sales yet today."
+          />
+        </section>
+      </div>
+    </>
+  );
+};
+
+export default PointOfSale;
@@ -1,94 +1,53 @@
 // src/pages/staff/UpdateStatus.tsx
 import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
 import DashboardHeader from '@components/dashboard/DashboardHeader';
 import Table from '@components/dashboard/Table';
 import Button from '@components/common/Button';
 import Modal from '@components/common/Modal';
+import CompleteBookingModal from '@components/dashboard/CompleteBookingModal';
+import ClientCard from '@components/dashboard/ClientCard';
+import SeriesScopeOptions from '@components/dashboard/SeriesScopeOptions';
 import { useModal } from '@hooks/useModal';
 import { Booking, BookingStatus } from '@models/booking';
+import { PaymentMethod } from '@models/payment';
 import { formatCurrency, formatDate } from '@utils/helpers';
+import {
+  ACTIVE_STATUSES,
+  STATUS_COLORS,
+  STATUS_LABELS,
+  StatusChangeOptions,
+  changeBookingStatus,
+  getAllowedTransitions,
+} from '@utils/bookingStatus';
 import { useAuth } from '@context/AuthContext';
-import { supabase } from '../../supabaseClient';
-
-interface BookingWithRelations extends Booking {
-  service_name: string;
-  service_price: number;
-  service_duration: number;
-  customer_name: string;
-  customer_email: string;
-  customer_phone: string;
-  staff_name: string;
-  booking_date: string;
-  booking_time: string;
-}
+import { bookingsRepository } from '@repositories/bookings';
+import { notifyBookingEvent, statusToNotificationType } from '@utils/notifications';
+import { offerCancelledBookingSlot } from '@utils/waitlist';
+import {
+  SERIES_FREQUENCY_LABELS,
+  cancelLaterOccurrences,
+  describeSeriesUpdate,
+  getLaterOccurrences,
+} from '@utils/bookingSeries';
 
 const UpdateStatus: React.FC = () => {
   const { user } = useAuth();
-  const [bookings, setBookings] = useState<BookingWithRelations[]>([]);
-  const [selectedBooking, setSelectedBooking] = useState<BookingWithRelations | null>(null);
+  const navigate = useNavigate();
+  const [bookings, setBookings] = useState<Booking[]>([]);
+  const [selectedBooking, setSelectedBooking] = useState<Booking | null>(null);
   const [newStatus, setNewStatus] = useState<BookingStatus | ''>('');
   const { isOpen, openModal, closeModal } = useModal();
   const [loading, setLoading] = useState(false);
   const [bookingsLoading, setBookingsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
+  const [justCompleted, setJustCompleted] = useState<Booking | null>(null); // Offers retail products after a treatment
+  const [completingBooking, setCompletingBooking] = useState<Booking | null>(null);
+  const [clientCardBooking, setClientCardBooking] = useState<Booking | null>(null);
+  const [applyToSeries, setApplyToSeries] = useState(false); // Also cancel the later appointments in the booking's series
 
-  // FIXED: Safe customer details fetch with fallback
-  const fetchCustomerDetails = async (customerIds: string[]) => {
-    try {
-      console.log('🔄 Fetching customer details for IDs:', customerIds);
-      
-      const { data, error } = await supabase
-        .from('users')
-        .select('id, first_name, last_name, email')
-        .in('id', customerIds);
-
-      if (error) {
-        console.error('❌ Error fetching customer details:', error);
-        // Return fallback data
-        return customerIds.map(id => ({
-          id,
-          first_name: 'Customer',
-          last_name: '',
-          email: 'unknown@example.com',
-          phone: 'Unknown'
-        }));
-      }
-
-      console.log('✅ Customer details fetched:', data);
-
-      // If no data found, return fallback
-      if (!data || data.length === 0) {
-        return customerIds.map(id => ({
-          id,
-          first_name: 'Customer',
-          last_name: '',
-          email: 'unknown@example.com',
-          phone: 'Unknown'
-        }));
-      }
-
-      return data.map(user => ({
-        id: user.id,
-        first_name: user.first_name || 'Customer',
-        last_name: user.last_name || '',
-        email: user.email || 'unknown@example.com',
-        phone: 'Unknown' // Your users table doesn't have phone column
-      }));
-
-    } catch (err) {
-      console.error('❌ Error in fetchCustomerDetails:', err);
-      return customerIds.map(id => ({
-        id,
-        first_name: 'Customer',
-        last_name: '',
-        email: 'unknown@example.com',
-        phone: 'Unknown'
-      }));
-    }
-  };
-
-  // Fetch staff bookings from Supabase - FIXED: Using correct table structure
+  // Fetch this staff member's bookings with their service and customer details
   const fetchStaffBookings = async () => {
     try {
       setBookingsLoading(true);
@@ -100,78 +59,10 @@ const UpdateStatus: React.FC = () => {
       }
 
       console.log('🔄 Fetching bookings for staff:', user.id);
+      const staffBookings = await bookingsRepository.list({ staffId: user.id });
+      console.log('✅ Staff bookings fetched:', staffBookings);
 
-      // Get bookings for this staff member
-      const { data, error } = await supabase
-        .from('bookings')
-        .select('*')
-        .eq('staff_id', user.id)
-        .order('booking_date', { ascending: true })
-        .order('booking_time', { ascending: true });
-
-      if (error) {
-        console.error('❌ Error fetching staff bookings:', error);
-        throw error;
-      }
-
-      console.log('✅ Staff bookings fetched:', data);
-
-      // If we have bookings, fetch related data
-      if (data && data.length > 0) {
-        // Fetch service details
-        const serviceIds = [...new Set(data.map(booking => booking.service_id))];
-        console.log('🔄 Fetching services for IDs:', serviceIds);
-        
-        const { data: servicesData, error: servicesError } = await supabase
-          .from('services')
-          .select('*')
-          .in('id', serviceIds);
-
-        if (servicesError) {
-          console.error('❌ Error fetching services:', servicesError);
-        }
-
-        console.log('✅ Services fetched:', servicesData);
-
-        // Fetch customer details with the new safe function
-        const customerIds = [...new Set(data.map(booking => booking.customer_id))];
-        const customersData = await fetchCustomerDetails(customerIds);
-
-        // Transform data
-        const staffBookings: BookingWithRelations[] = data.map(booking => {
-          const service = servicesData?.find(s => s.id === booking.service_id);
-          const customer = customersData?.find(c => c.id === booking.customer_id);
-          
-          return {
-            id: booking.id,
-            serviceId: booking.service_id,
-            serviceName: service?.service_name || 'Unknown Service',
-            service_name: service?.service_name || 'Unknown Service',
-            service_price: service?.price || 0,
-            service_duration: service?.duration || 60,
-            customerId: booking.customer_id,
-            customerName: customer ? `${customer.first_name || ''} ${customer.last_name || ''}`.trim() : 'Unknown Customer',
-            customer_name: customer ? `${customer.first_name || ''} ${customer.last_name || ''}`.trim() : 'Unknown Customer',
-            customer_email: customer?.email || '',
-            customer_phone: customer?.phone || 'Unknown',
-            staffId: booking.staff_id,
-            staffName: user ? `${user.first_name || ''} ${user.last_name || ''}`.trim() : 'Current User',
-            staff_name: user ? `${user.first_name || ''} ${user.last_name || ''}`.trim() : 'Current User',
-            startTime: booking.booking_date ? `${booking.booking_date}T${booking.booking_time}` : '',
-            endTime: booking.booking_date ? `${booking.booking_date}T${booking.booking_time}` : '',
-            booking_date: booking.booking_date,
-            booking_time: booking.booking_time,
-            status: booking.status as BookingStatus,
-            price: booking.total_price || service?.price || 0,
-            notes: booking.notes || ''
-          };
-        });
-
-        setBookings(staffBookings);
-      } else {
-        setBookings([]);
-      }
-
+      setBookings(staffBookings);
     } catch (err: any) {
       console.error('❌ Error fetching staff bookings:', err);
       setError('Failed to load your appointments. Please try again.');
@@ -184,37 +75,76 @@ const UpdateStatus: React.FC = () => {
     fetchStaffBookings();
   }, [user]);
 
-  const handleUpdateClick = (booking: BookingWithRelations) => {
+  const handleUpdateClick = (booking: Booking) => {
     setSelectedBooking(booking);
     setNewStatus(booking.status);
+    setApplyToSeries(false);
     openModal();
   };
 
+  // Change a booking's status and let the customer know
+  const applyStatusChange = async (
+    booking: Booking,
+    status: BookingStatus,
+    paymentMethod?: PaymentMethod,
+    treatmentNote?: StatusChangeOptions['treatmentNote']
+  ) => {
+    if (!user) return;
+
+    // Staff can only update their own bookings
+    const warnings = await changeBookingStatus(booking, status, user, { owner: { staffId: user.id }, paymentMethod, treatmentNote });
+
+    const notificationType = statusToNotificationType(status);
+    if (notificationType) {
+      await notifyBookingEvent({
+        type: notificationType,
+        bookingId: booking.id,
+        customerId: booking.customerId,
+        serviceName: booking.serviceName,
+        bookingDate: booking.bookingDate,
+        bookingTime: booking.bookingTime,
+        actor: 'staff'
+      });
+    }
+
+    if (status === 'cancelled') {
+      await offerCancelledBookingSlot(booking);
+    }
+
+    setSuccess(
+      `Booking status updated to ${STATUS_LABELS[status]} successfully!` +
+      (warnings.length > 0 ? ` Please let an admin know: ${warnings.join(' ')}` : '')
+    );
+    setJustCompleted(status === 'completed' ? booking : null);
+    
+    // Refresh the bookings list
+    await fetchStaffBookings();
+  };
+
   const handleConfirmUpdate = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!selectedBooking || !newStatus || !user) return;
 
+    // Completing takes the final payment first
+    if (newStatus === 'completed') {
+      closeModal();
+      setCompletingBooking(selectedBooking);
+      return;
+    }
+
     setLoading(true);
     setError(null);
     setSuccess(null);
 
     try {
-      // Update booking status in Supabase
-      const { error } = await supabase
-        .from('bookings')
-        .update({ 
-          status: newStatus,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', selectedBooking.id)
-        .eq('staff_id', user.id); // Ensure staff can only update their own bookings
-
-      if (error) throw error;
-
-      setSuccess(`Booking status updated to ${newStatus} successfully!`);
-      
-      // Refresh the bookings list
-      await fetchStaffBookings();
+      await applyStatusChange(selectedBooking, newStatus);
+
+      // Only the later appointments assigned to this staff member are cancelled
+      if (newStatus === 'cancelled' && applyToSeries) {
+        const seriesUpdate = await cancelLaterOccurrences(selectedBooking, user, { owner: { staffId: user.id } });
+        setSuccess(prev => `${prev || ''} ${describeSeriesUpdate(seriesUpdate, 'cancelled')}`.trim());
+        await fetchStaffBookings();
+      }
       
       // Close modal after a short delay
       setTimeout(() => {
@@ -245,93 +175,86 @@ const UpdateStatus: React.FC = () => {
     return `${formattedDate} at ${displayHour}:${minutes} ${ampm}`;
   };
 
-  // Get status options based on current status
-  const getAvailableStatusOptions = (currentStatus: BookingStatus) => {
-    const options: { value: BookingStatus; label: string; description: string }[] = [];
-    
-    switch (currentStatus) {
-      case 'pending':
-        options.push(
-          { value: 'confirmed', label: 'Confirm', description: 'Confirm this appointment with the customer' },
-          { value: 'cancelled', label: 'Cancel', description: 'Cancel this appointment' }
-        );
-        break;
-      case 'confirmed':
-        options.push(
-          { value: 'completed', label: 'Mark Complete', description: 'Mark this appointment as completed' },
-          { value: 'cancelled', label: 'Cancel', description: 'Cancel this appointment' }
-        );
-        break;
-      case 'completed':
-        options.push(
-          { value: 'confirmed', label: 'Re-open', description: 'Re-open this completed appointment' }
-        );
-        break;
-      case 'cancelled':
-        options.push(
-          { value: 'pending', label: 'Re-activate', description: 'Re-activate this cancelled appointment' },
-          { value: 'confirmed', label: 'Confirm', description: 'Confirm this cancelled appointment' }
-        );
-        break;
-    }
-    
-    return options;
-  };
+  // Get the status changes this user may make from the current status
+  const getAvailableStatusOptions = (currentStatus: BookingStatus) =>
+    user
+      ? getAllowedTransitions(currentStatus, user.role).map(transition => ({
+          value: transition.to,
+          label: transition.label,
+          description: transition.description
+        }))
+      : [];
 
   const columns = [
     { 
       header: 'Service', 
       key: 'serviceName',
-      render: (item: BookingWithRelations) => item.service_name
+      render: (item: Booking) => (
+        <div>
+          <div>{item.serviceName}</div>
+          {item.seriesId && (
+            <div style={{ fontSize: '0.8rem', color: '#666' }}>
+              🔁 {item.seriesFrequency ? SERIES_FREQUENCY_LABELS[item.seriesFrequency] : 'Recurring'}
+            </div>
+          )}
+        </div>
+      )
     },
     { 
       header: 'Customer', 
       key: 'customerName',
-      render: (item: BookingWithRelations) => (
+      render: (item: Booking) => (
         <div>
-          <div style={{ fontWeight: '500' }}>{item.customer_name}</div>
+          <div style={{ fontWeight: '500' }}>{item.customerName}</div>
           <div style={{ fontSize: '0.875rem', color: '#666' }}>
-            ✉️ {item.customer_email}
+            ✉️ {item.customerEmail}
           </div>
+          {item.customerPhone && (
+            <div style={{ fontSize: '0.875rem', color: '#666' }}>
+              📞 {item.customerPhone}
+            </div>
+          )}
+          {item.customerAllergies && (
+            <div style={{ fontSize: '0.875rem', color: '#c62828', fontWeight: '500' }}>
+              ⚠️ Allergies: {item.customerAllergies}
+            </div>
+          )}
+          <Button variant="text" size="small" onClick={() => setClientCardBooking(item)} style={{ fontSize: '12px', padding: 0 }}>
+            View Client Card
+          </Button>
         </div>
       )
     },
     { 
       header: 'Date & Time', 
       key: 'datetime',
-      render: (item: BookingWithRelations) => formatDateTime(item.booking_date, item.booking_time)
+      render: (item: Booking) => formatDateTime(item.bookingDate, item.bookingTime)
     },
     { 
       header: 'Current Status', 
       key: 'status',
-      render: (item: BookingWithRelations) => (
+      render: (item: Booking) => (
         <span style={{ 
           padding: '4px 8px', 
           borderRadius: '12px', 
           fontSize: '12px',
           fontWeight: 'bold',
-          backgroundColor: 
-            item.status === 'confirmed' ? '#e8f5e8' :
-            item.status === 'completed' ? '#e3f2fd' :
-            item.status === 'cancelled' ? '#ffebee' : '#fff3e0',
-          color: 
-            item.status === 'confirmed' ? '#2e7d32' :
-            item.status === 'completed' ? '#1565c0' :
-            item.status === 'cancelled' ? '#c62828' : '#f57c00'
+          backgroundColor: STATUS_COLORS[item.status].background,
+          color: STATUS_COLORS[item.status].color
         }}>
-          {item.status.charAt(0).toUpperCase() + item.status.slice(1)}
+          {STATUS_LABELS[item.status]}
         </span>
       )
     },
     { 
       header: 'Price', 
       key: 'price',
-      render: (item: BookingWithRelations) => formatCurrency(item.price)
+      render: (item: Booking) => formatCurrency(item.price)
     },
     {
       header: 'Actions',
       key: 'actions',
-      render: (item: BookingWithRelations) => {
+      render: (item: Booking) => {
         const availableOptions = getAvailableStatusOptions(item.status);
         
         return availableOptions.length > 0 ? (
@@ -342,8 +265,14 @@ const UpdateStatus: React.FC = () => {
                 variant={option.value === 'cancelled' ? 'text' : 'secondary'}
                 size="small"
                 onClick={() => {
+                  if (option.value === 'completed') {
+                    setSuccess(null);
+                    setCompletingBooking(item);
+                    return;
+                  }
                   setSelectedBooking(item);
                   setNewStatus(option.value);
+                  setApplyToSeries(false);
                   openModal();
                 }}
                 style={{ 
@@ -364,10 +293,8 @@ const UpdateStatus: React.FC = () => {
     },
   ];
 
-  // Filter bookings to show only active ones (not completed or cancelled)
-  const activeBookings = bookings.filter(booking => 
-    booking.status === 'pending' || booking.status === 'confirmed'
-  );
+  // Filter bookings to show only active ones (not finished, cancelled or missed)
+  const activeBookings = bookings.filter(booking => ACTIVE_STATUSES.includes(booking.status));
 
   const allBookings = bookings;
 
@@ -376,7 +303,7 @@ const UpdateStatus: React.FC = () => {
       <DashboardHeader title="Manage Appointments" />
       <div className="page-container">
         <p className="section-subtitle" style={{textAlign: 'left', marginBottom: 'var(--spacing-lg)'}}>
-          Confirm, complete, or cancel customer appointments assigned to you.
+          Confirm, start, complete, or cancel customer appointments assigned to you, or record a no-show.
         </p>
 
         {/* Error/Success Messages */}
@@ -405,6 +332,16 @@ const UpdateStatus: React.FC = () => {
             textAlign: 'center'
           }}>
             {success}
+            {justCompleted && (
+              <Button
+                variant="text"
+                size="small"
+                onClick={() => navigate('/staff/pos', { state: { bookingId: justCompleted.id } })}
+                style={{ marginLeft: '8px' }}
+              >
+                Sell Products to {justCompleted.customerName}
+              </Button>
+            )}
           </div>
         )}
 
@@ -530,19 +467,18 @@ const UpdateStatus: React.FC = () => {
           <>
             <div style={{ marginBottom: 'var(--spacing-md)' }}>
               <p style={{ marginBottom: '8px' }}>
-                Updating status for <strong>{selectedBooking.service_name}</strong>
+                Updating status for <strong>{selectedBooking.serviceName}</strong>
               </p>
               <p style={{ margin: '4px 0', color: '#666', fontSize: '14px' }}>
-                Customer: <strong>{selectedBooking.customer_name}</strong>
+                Date: <strong>{formatDateTime(selectedBooking.bookingDate, selectedBooking.bookingTime)}</strong>
               </p>
               <p style={{ margin: '4px 0', color: '#666', fontSize: '14px' }}>
-                Date: <strong>{formatDateTime(selectedBooking.booking_date, selectedBooking.booking_time)}</strong>
-              </p>
-              <p style={{ margin: '4px 0', color: '#666', fontSize: '14px' }}>
-                Current Status: <strong>{selectedBooking.status}</strong>
+                Current Status: <strong>{STATUS_LABELS[selectedBooking.status]}</strong>
               </p>
             </div>
 
+            <ClientCard booking={selectedBooking} />
+
             <form onSubmit={handleConfirmUpdate} className="contact-form">
               <div className="form-group">
                 <label htmlFor="new-status">Update Status To</label>
@@ -555,7 +491,7 @@ const UpdateStatus: React.FC = () => {
                   <option value="">-- Select New Status --</option>
                   {getAvailableStatusOptions(selectedBooking.status).map(option => (
                     <option key={option.value} value={option.value}>
-                      {option.label} ({option.value})
+                      {option.label} ({STATUS_LABELS[option.value]})
                     </option>
                   ))}
                 </select>
@@ -566,6 +502,16 @@ const UpdateStatus: React.FC = () => {
                 )}
               </div>
 
+              {newStatus === 'cancelled' && (
+                <SeriesScopeOptions
+                  booking={selectedBooking}
+                  laterCount={getLaterOccurrences(selectedBooking, bookings).length}
+                  applyToSeries={applyToSeries}
+                  onChange={setApplyToSeries}
+                  action="Cancel"
+                />
+              )}
+
               {error && (
                 <div style={{
                   backgroundColor: '#fee',
@@ -604,6 +550,17 @@ const UpdateStatus: React.FC = () => {
           </>
         )}
       </Modal>
+
+      <Modal isOpen={!!clientCardBooking} onClose={() => setClientCardBooking(null)} title="Client Card">
+        {clientCardBooking && <ClientCard booking={clientCardBooking} />}
+      </Modal>
+
+      <CompleteBookingModal
+        booking={completingBooking}
+        isOpen={!!completingBooking}
+        onClose={() => setCompletingBooking(null)}
+        onConfirm={(booking, paymentMethod, treatmentNote) => applyStatusChange(booking, 'completed', paymentMethod, treatmentNote)}
+      />
     </>
   );
 };
@@ -0,0 +1,67 @@
+// src/repositories/bookingHistory.ts
+import { BookingStatus, BookingStatusChange } from '@models/booking';
+import { UserRole } from '@models/user';
+import { supabase } from '../supabaseClient';
+import { fullName, joinedRow } from './rows';
+
+export type NewStatusChange = Omit<BookingStatusChange, 'id' | 'changedByName' | 'createdAt'>;
+
+/**
+ * Maps a booking_status_history row (with its users join) to a BookingStatusChange.
+ * @param row - The raw row from Supabase.
+ */
+export const mapStatusChangeRow = (row: any): BookingStatusChange => {
+  const changedBy = joinedRow(row.users);
+  return {
+    id: row.id.toString(),
+    bookingId: row.booking_id.toString(),
+    fromStatus: (row.from_status as BookingStatus) || undefined,
+    toStatus: row.to_status as BookingStatus,
+    changedBy: row.changed_by || undefined,
+    changedByName: fullName(changedBy) || undefined,
+    changedByRole: row.changed_by_role as UserRole,
+    note: row.note || undefined,
+    createdAt: row.created_at,
+  };
+};
+
+export const bookingHistoryRepository = {
+  /**
+   * Loads a booking's status history, oldest first.
+   * @param bookingId - The booking's ID.
+   */
+  listForBooking: async (bookingId: string): Promise<BookingStatusChange[]> => {
+    const { data, error } = await supabase
+      .from('booking_status_history')
+      .select('*, users:changed_by (*)')
+      .eq('booking_id', bookingId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('❌ Error fetching booking history:', error);
+      throw new Error(`Failed to load booking history: ${error.message}`);
+    }
+
+    return (data || []).map(mapStatusChangeRow);
+  },
+
+  /**
+   * Appends an entry to a booking's status history.
+   * @param change - The status change.
+   */
+  record: async (change: NewStatusChange): Promise<void> => {
+    const { error } = await supabase
+      .from('booking_status_history')
+      .insert([{
+        booking_id: change.bookingId,
+        from_status: change.fromStatus || null,
+        to_status: change.toStatus,
+        changed_by: change.changedBy || null,
+        changed_by_role: change.changedByRole,
+        note: change.note || null,
+        created_at: new Date().toISOString(),
+      }]);
+
+    if (error) throw new Error(`Failed to record booking history: ${error.message}`);
+  },
+};
@@ -0,0 +1,64 @@
+// src/repositories/bookingPolicy.ts
+import { BookingPolicy, LateCancellationPenalty } from '@models/booking';
+import { supabase } from '../supabaseClient';
+
+export type BookingPolicyInput = Omit<BookingPolicy, 'updatedAt'>;
+
+// The salon has a single policy, kept in one row
+const POLICY_ROW_ID = 1;
+
+/**
+ * Maps a booking_policies row to a BookingPolicy.
+ * @param row - The raw row from Supabase.
+ */
+export const mapBookingPolicyRow = (row: any): BookingPolicy => ({
+  cancelNoticeHours: Number(row.cancel_notice_hours) || 0,
+  rescheduleNoticeHours: Number(row.reschedule_notice_hours) || 0,
+  maxReschedules: row.max_reschedules != null ? Number(row.max_reschedules) : undefined,
+  lateCancellationPenalty: (row.late_cancellation_penalty as LateCancellationPenalty) || 'none',
+  lateCancellationFeeRate: parseFloat(row.late_cancellation_fee_rate) || 0,
+  updatedAt: row.updated_at || undefined,
+});
+
+export const bookingPolicyRepository = {
+  /**
+   * Loads the cancellation and reschedule policy.
+   * @returns The policy, or null when none has been saved yet.
+   */
+  get: async (): Promise<BookingPolicy | null> => {
+    const { data, error } = await supabase
+      .from('booking_policies')
+      .select('*')
+      .eq('id', POLICY_ROW_ID)
+      .maybeSingle();
+
+    if (error) {
+      console.error('❌ Error fetching booking policy:', error);
+      throw new Error(`Failed to load the booking policy: ${error.message}`);
+    }
+
+    return data ? mapBookingPolicyRow(data) : null;
+  },
+
+  /**
+   * Saves the cancellation and reschedule policy.
+   * @param policy - The new policy.
+   * @param updatedBy - The ID of the admin saving it.
+   */
+  save: async (policy: BookingPolicyInput, updatedBy: string): Promise<void> => {
+    const { error } = await supabase
+      .from('booking_policies')
+      .upsert({
+        id: POLICY_ROW_ID,
+        cancel_notice_hours: policy.cancelNoticeHours,
+        reschedule_notice_hours: policy.rescheduleNoticeHours,
+        max_reschedules: policy.maxReschedules ?? null,
+        late_cancellation_penalty: policy.lateCancellationPenalty,
+        late_cancellation_fee_rate: policy.lateCancellationFeeRate,
+        updated_by: updatedBy,
+        updated_at: new Date().toISOString(),
+      }, { onConflict: 'id' });
+
+    if (error) throw new Error(`Failed to save the booking policy: ${error.message}`);
+  },
+};
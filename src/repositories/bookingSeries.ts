@@ -0,0 +1,84 @@
+// src/repositories/bookingSeries.ts
+import { BookingSeries, SeriesFrequency } from '@models/booking';
+import { supabase } from '../supabaseClient';
+
+export type NewBookingSeries = Omit<BookingSeries, 'id' | 'createdAt'>;
+
+/**
+ * Maps a booking_series row to a BookingSeries.
+ * @param row - The raw row from Supabase.
+ */
+export const mapBookingSeriesRow = (row: any): BookingSeries => ({
+  id: row.id.toString(),
+  customerId: row.customer_id,
+  serviceId: row.service_id.toString(),
+  frequency: row.frequency as SeriesFrequency,
+  startDate: row.start_date,
+  bookingTime: (row.booking_time || '').substring(0, 5),
+  endDate: row.end_date || undefined,
+  occurrenceCount: row.occurrence_count != null ? Number(row.occurrence_count) : undefined,
+  createdBy: row.created_by || undefined,
+  createdAt: row.created_at,
+});
+
+export const bookingSeriesRepository = {
+  /**
+   * Loads a recurring series.
+   * @param id - The series' ID.
+   * @returns The series, or null when it doesn't exist.
+   */
+  getById: async (id: string): Promise<BookingSeries | null> => {
+    const { data, error } = await supabase
+      .from('booking_series')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('❌ Error fetching booking series:', error);
+      throw new Error(`Failed to load the booking series: ${error.message}`);
+    }
+
+    return data ? mapBookingSeriesRow(data) : null;
+  },
+
+  /**
+   * Records a new recurring series. Its bookings are created separately.
+   * @param series - The customer, service and how the series repeats and ends.
+   * @returns The new series' ID.
+   */
+  create: async (series: NewBookingSeries): Promise<string> => {
+    const { data, error } = await supabase
+      .from('booking_series')
+      .insert([{
+        customer_id: series.customerId,
+        service_id: series.serviceId,
+        frequency: series.frequency,
+        start_date: series.startDate,
+        booking_time: series.bookingTime,
+        end_date: series.endDate || null,
+        occurrence_count: series.occurrenceCount ?? null,
+        created_by: series.createdBy || null,
+        created_at: new Date().toISOString(),
+      }])
+      .select('id')
+      .single();
+
+    if (error) throw new Error(`Failed to create the booking series: ${error.message}`);
+
+    return data.id.toString();
+  },
+
+  /**
+   * Deletes a series that ended up with no bookings.
+   * @param id - The series' ID.
+   */
+  delete: async (id: string): Promise<void> => {
+    const { error } = await supabase
+      .from('booking_series')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw new Error(`Failed to delete the booking series: ${error.message}`);
+  },
+};
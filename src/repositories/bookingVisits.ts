@@ -0,0 +1,76 @@
+// src/repositories/bookingVisits.ts
+import { BookingVisit } from '@models/booking';
+import { supabase } from '../supabaseClient';
+
+export type NewBookingVisit = Omit<BookingVisit, 'id' | 'createdAt'>;
+
+/**
+ * Maps a booking_visits row to a BookingVisit.
+ * @param row - The raw row from Supabase.
+ */
+export const mapBookingVisitRow = (row: any): BookingVisit => ({
+  id: row.id.toString(),
+  customerId: row.customer_id,
+  visitDate: row.visit_date,
+  startTime: (row.start_time || '').substring(0, 5),
+  createdBy: row.created_by || undefined,
+  createdAt: row.created_at,
+});
+
+export const bookingVisitsRepository = {
+  /**
+   * Loads a multi-service visit.
+   * @param id - The visit's ID.
+   * @returns The visit, or null when it doesn't exist.
+   */
+  getById: async (id: string): Promise<BookingVisit | null> => {
+    const { data, error } = await supabase
+      .from('booking_visits')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('❌ Error fetching visit:', error);
+      throw new Error(`Failed to load the visit: ${error.message}`);
+    }
+
+    return data ? mapBookingVisitRow(data) : null;
+  },
+
+  /**
+   * Records a new visit. Its bookings, one per service, are created separately.
+   * @param visit - The customer, date and start time.
+   * @returns The new visit's ID.
+   */
+  create: async (visit: NewBookingVisit): Promise<string> => {
+    const { data, error } = await supabase
+      .from('booking_visits')
+      .insert([{
+        customer_id: visit.customerId,
+        visit_date: visit.visitDate,
+        start_time: visit.startTime,
+        created_by: visit.createdBy || null,
+        created_at: new Date().toISOString(),
+      }])
+      .select('id')
+      .single();
+
+    if (error) throw new Error(`Failed to create the visit: ${error.message}`);
+
+    return data.id.toString();
+  },
+
+  /**
+   * Deletes a visit whose bookings could not all be made.
+   * @param id - The visit's ID.
+   */
+  delete: async (id: string): Promise<void> => {
+    const { error } = await supabase
+      .from('booking_visits')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw new Error(`Failed to delete the visit: ${error.message}`);
+  },
+};
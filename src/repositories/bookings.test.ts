@@ -0,0 +1,106 @@
+// src/repositories/bookings.test.ts
+import { describe, expect, it } from 'vitest';
+import { CUSTOMER_BEN_ID, CUSTOMER_LIZA_ID, STAFF_ANA_ID, STAFF_MARIA_ID } from '../mocks/fixtures';
+import { TEST_TODAY } from '../test/clock';
+import { addDays } from '@utils/helpers';
+import { TIME_TAKEN_MESSAGE, bookingsRepository } from './bookings';
+
+describe('bookingsRepository', () => {
+  it('maps a booking with its service, customer and staff details', async () => {
+    const booking = await bookingsRepository.getById('2');
+
+    expect(booking).toMatchObject({
+      id: '2',
+      serviceName: 'Swedish Massage',
+      durationMinutes: 90,
+      customerId: CUSTOMER_BEN_ID,
+      customerName: 'Ben Garcia',
+      staffId: STAFF_ANA_ID,
+      staffName: 'Ana Reyes',
+      staffAutoAssigned: true,
+      status: 'completed',
+      price: 1200,
+      rescheduleCount: 0,
+      revision: 0,
+    });
+  });
+
+  it('returns null for a booking that does not exist', async () => {
+    expect(await bookingsRepository.getById('999')).toBeNull();
+  });
+
+  it('filters by staff member, status and date range in schedule order', async () => {
+    const bookings = await bookingsRepository.list({
+      staffId: STAFF_MARIA_ID,
+      statuses: ['confirmed'],
+      fromDate: TEST_TODAY,
+      toDate: addDays(TEST_TODAY, 30),
+    });
+
+    expect(bookings.map(booking => booking.id)).toEqual(['5', '6', '13']);
+  });
+
+  it('creates a pending booking', async () => {
+    const id = await bookingsRepository.create({
+      serviceId: '3',
+      customerId: CUSTOMER_LIZA_ID,
+      staffId: STAFF_ANA_ID,
+      bookingDate: addDays(TEST_TODAY, 3),
+      bookingTime: '15:00',
+      totalPrice: 550,
+    });
+
+    expect(await bookingsRepository.getById(id)).toMatchObject({
+      serviceName: 'Gel Manicure',
+      status: 'pending',
+      price: 550,
+      rescheduleCount: 0,
+    });
+  });
+
+  it('raises the revision on every update', async () => {
+    await bookingsRepository.update('6', { notes: 'Bring a hair tie' });
+    await bookingsRepository.update('6', { bookingTime: '11:00' });
+
+    const booking = await bookingsRepository.getById('6');
+    expect(booking?.revision).toBe(2);
+    expect(booking?.notes).toBe('Bring a hair tie');
+    expect(booking?.updatedAt).toBeDefined();
+  });
+
+  it('refuses an update when the booking has moved on from the expected status', async () => {
+    await expect(bookingsRepository.update('7', { status: 'confirmed' }, {}, 'confirmed'))
+      .rejects.toThrow('This booking has changed since it was loaded');
+
+    expect((await bookingsRepository.getById('7'))?.status).toBe('pending');
+  });
+
+  it('only updates a booking owned by the given customer', async () => {
+    await bookingsRepository.update('7', { notes: 'Not mine' }, { customerId: CUSTOMER_BEN_ID });
+
+    expect((await bookingsRepository.getById('7'))?.notes).toBe('First time waxing');
+  });
+
+  it('refuses a booking that overlaps one the staff member already has', async () => {
+    const overlapping = {
+      serviceId: '3',
+      customerId: CUSTOMER_BEN_ID,
+      staffId: STAFF_ANA_ID,
+      bookingDate: addDays(TEST_TODAY, 2),
+      bookingTime: '13:15',
+      totalPrice: 550,
+    };
+
+    await expect(bookingsRepository.create(overlapping)).rejects.toThrow(TIME_TAKEN_MESSAGE);
+
+    await bookingsRepository.update('7', { status: 'cancelled' });
+    expect(await bookingsRepository.create(overlapping)).toEqual(expect.any(String));
+  });
+
+  it('refuses to move a booking onto a time that is taken', async () => {
+    await expect(bookingsRepository.update('8', { bookingDate: addDays(TEST_TODAY, 2), bookingTime: '13:00' }))
+      .rejects.toThrow(TIME_TAKEN_MESSAGE);
+
+    expect((await bookingsRepository.getById('8'))?.bookingDate).toBe(addDays(TEST_TODAY, 5));
+  });
+});
@@ -0,0 +1,262 @@
+// src/repositories/bookings.ts
+import { Booking, BookingChanges, BookingStatus, NewBookingPayload, SeriesFrequency } from '@models/booking';
+import { DEFAULT_DURATION_MINUTES } from '@utils/constants';
+import { supabase } from '../supabaseClient';
+import { contactPreferences, fullName, joinedRow } from './rows';
+
+// Every booking query loads the service, customer and staff member with it, and its series if any
+const BOOKING_SELECT = `
+  *,
+  services:service_id (*),
+  customers:customer_id (*),
+  staff:staff_id (*),
+  series:series_id (*)
+`;
+
+export interface BookingFilter {
+  customerId?: string;
+  staffId?: string;
+  statuses?: BookingStatus[];
+  date?: string; // YYYY-MM-DD
+  fromDate?: string; // YYYY-MM-DD, inclusive
+  toDate?: string; // YYYY-MM-DD, inclusive
+  createdFrom?: string; // ISO string
+  createdTo?: string; // ISO string
+  excludeBookingId?: string;
+  seriesId?: string;
+  visitId?: string;
+  order?: 'schedule' | 'schedule_desc' | 'newest';
+  limit?: number;
+}
+
+// Restricts an update to bookings owned by this customer or assigned to this staff member
+export interface BookingOwner {
+  customerId?: string;
+  staffId?: string;
+}
+
+// Postgres exclusion_violation: bookings_no_overlap found the staff member already booked at that time
+const OVERLAP_ERROR_CODE = '23P01';
+
+// Shown when a time was taken between checking availability and saving the booking
+export const TIME_TAKEN_MESSAGE = 'This time is no longer available. Please choose another time.';
+
+// "2025-11-10" + "14:30" + 90 minutes → "2025-11-10T16:00"
+const addMinutes = (date: string, time: string, minutes: number): string => {
+  const [hours, mins] = (time || '00:00').split(':').map(part => parseInt(part, 10));
+  const total = (hours || 0) * 60 + (mins || 0) + minutes;
+  const endHours = String(Math.floor(total / 60) % 24).padStart(2, '0');
+  const endMinutes = String(total % 60).padStart(2, '0');
+  return `${date}T${endHours}:${endMinutes}`;
+};
+
+/**
+ * Maps a bookings row (with its service, customer and staff joins) to a Booking.
+ * @param row - The raw row from Supabase.
+ */
+export const mapBookingRow = (row: any): Booking => {
+  const service = joinedRow(row.services);
+  const customer = joinedRow(row.customers);
+  const staff = joinedRow(row.staff);
+  const durationMinutes = service?.duration || DEFAULT_DURATION_MINUTES;
+  const servicePrice = service?.price != null ? parseFloat(service.price) : 0;
+
+  return {
+    id: row.id.toString(),
+    serviceId: row.service_id != null ? row.service_id.toString() : '',
+    serviceName: service?.service_name || 'Unknown Service',
+    servicePrice,
+    serviceCategory: service?.category || undefined,
+    serviceAvailableDays: service?.available_days || undefined,
+    durationMinutes,
+    customerId: row.customer_id,
+    customerName: fullName(customer) || 'Unknown Customer',
+    customerEmail: customer?.email || '',
+    customerPhone: customer?.phone || undefined,
+    customerAvatarUrl: customer?.avatar_url || undefined,
+    customerBirthday: customer?.birthday || undefined,
+    customerAllergies: customer?.allergies || undefined,
+    customerSkinNotes: customer?.skin_notes || undefined,
+    customerContactPreferences: contactPreferences(customer),
+    staffId: row.staff_id || undefined,
+    staffName: staff ? fullName(staff) : 'Unassigned',
+    staffEmail: staff?.email || '',
+    staffAutoAssigned: !!row.staff_auto_assigned,
+    bookingDate: row.booking_date || '',
+    bookingTime: row.booking_time || '',
+    startTime: row.booking_date ? `${row.booking_date}T${row.booking_time}` : '',
+    endTime: row.booking_date ? addMinutes(row.booking_date, row.booking_time, durationMinutes) : '',
+    status: row.status as BookingStatus,
+    notes: row.notes || '',
+    price: row.total_price != null ? parseFloat(row.total_price) : servicePrice,
+    rescheduleCount: row.reschedule_count || 0,
+    seriesId: row.series_id != null ? row.series_id.toString() : undefined,
+    seriesFrequency: (joinedRow(row.series)?.frequency as SeriesFrequency) || undefined,
+    visitId: row.visit_id != null ? row.visit_id.toString() : undefined,
+    revision: row.revision || 0,
+    createdAt: row.created_at || undefined,
+    updatedAt: row.updated_at || undefined,
+  };
+};
+
+const toBookingColumns = (changes: BookingChanges) => {
+  const columns: Record<string, any> = {};
+  if (changes.staffId !== undefined) columns.staff_id = changes.staffId;
+  if (changes.staffAutoAssigned !== undefined) columns.staff_auto_assigned = changes.staffAutoAssigned;
+  if (changes.bookingDate !== undefined) columns.booking_date = changes.bookingDate;
+  if (changes.bookingTime !== undefined) columns.booking_time = changes.bookingTime;
+  if (changes.status !== undefined) columns.status = changes.status;
+  if (changes.notes !== undefined) columns.notes = changes.notes;
+  if (changes.rescheduleCount !== undefined) columns.reschedule_count = changes.rescheduleCount;
+  return columns;
+};
+
+export const bookingsRepository = {
+  /**
+   * Loads bookings matching a filter, with their service, customer and staff details.
+   * @param filter - Optional constraints, ordering and limit.
+   */
+  list: async (filter: BookingFilter = {}): Promise<Booking[]> => {
+    let query = supabase.from('bookings').select(BOOKING_SELECT);
+
+    if (filter.customerId) query = query.eq('customer_id', filter.customerId);
+    if (filter.staffId) query = query.eq('staff_id', filter.staffId);
+    if (filter.statuses) query = query.in('status', filter.statuses);
+    if (filter.date) query = query.eq('booking_date', filter.date);
+    if (filter.fromDate) query = query.gte('booking_date', filter.fromDate);
+    if (filter.toDate) query = query.lte('booking_date', filter.toDate);
+    if (filter.createdFrom) query = query.gte('created_at', filter.createdFrom);
+    if (filter.createdTo) query = query.lte('created_at', filter.createdTo);
+    if (filter.excludeBookingId) query = query.neq('id', filter.excludeBookingId);
+    if (filter.seriesId) query = query.eq('series_id', filter.seriesId);
+    if (filter.visitId) query = query.eq('visit_id', filter.visitId);
+
+    switch (filter.order || 'schedule') {
+      case 'schedule':
+        query = query.order('booking_date', { ascending: true }).order('booking_time', { ascending: true });
+        break;
+      case 'schedule_desc':
+        query = query.order('booking_date', { ascending: false }).order('booking_time', { ascending: false });
+        break;
+      case 'newest':
+        query = query.order('created_at', { ascending: false });
+        break;
+    }
+
+    if (filter.limit) query = query.limit(filter.limit);
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('❌ Error fetching bookings:', error);
+      throw new Error(`Failed to load bookings: ${error.message}`);
+    }
+
+    return (data || []).map(mapBookingRow);
+  },
+
+  /**
+   * Loads one booking.
+   * @param id - The booking's ID.
+   * @returns The booking, or null when it doesn't exist.
+   */
+  getById: async (id: string): Promise<Booking | null> => {
+    const { data, error } = await supabase
+      .from('bookings')
+      .select(BOOKING_SELECT)
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('❌ Error fetching booking:', error);
+      throw new Error(`Failed to load booking: ${error.message}`);
+    }
+
+    return data ? mapBookingRow(data) : null;
+  },
+
+  /**
+   * Creates a pending booking.
+   * @param payload - The new booking's details.
+   * @returns The new booking's ID.
+   */
+  create: async (payload: NewBookingPayload): Promise<string> => {
+    const { data, error } = await supabase
+      .from('bookings')
+      .insert([{
+        service_id: payload.serviceId,
+        customer_id: payload.customerId,
+        staff_id: payload.staffId,
+        staff_auto_assigned: !!payload.staffAutoAssigned,
+        booking_date: payload.bookingDate,
+        booking_time: payload.bookingTime,
+        status: 'pending',
+        total_price: payload.totalPrice,
+        notes: payload.notes || null,
+        reschedule_count: 0,
+        series_id: payload.seriesId || null,
+        visit_id: payload.visitId || null,
+        created_at: new Date().toISOString(),
+      }])
+      .select('id')
+      .single();
+
+    if (error) {
+      if (error.code === OVERLAP_ERROR_CODE) throw new Error(TIME_TAKEN_MESSAGE);
+      console.error('❌ Booking creation error:', error);
+      throw new Error(`Failed to create booking: ${error.message}`);
+    }
+
+    return data.id.toString();
+  },
+
+  /**
+   * Updates a booking.
+   * @param id - The booking's ID.
+   * @param changes - The fields to change.
+   * @param owner - Optionally restrict the update to the booking's customer or staff member.
+   * @param expectedStatus - Optionally only update while the booking is still in this status.
+   */
+  update: async (
+    id: string,
+    changes: BookingChanges,
+    owner: BookingOwner = {},
+    expectedStatus?: BookingStatus
+  ): Promise<void> => {
+    let query = supabase
+      .from('bookings')
+      .update({ ...toBookingColumns(changes), updated_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (owner.customerId) query = query.eq('customer_id', owner.customerId);
+    if (owner.staffId) query = query.eq('staff_id', owner.staffId);
+
+    if (!expectedStatus) {
+      const { error } = await query;
+      if (error?.code === OVERLAP_ERROR_CODE) throw new Error(TIME_TAKEN_MESSAGE);
+      if (error) throw new Error(`Failed to update booking: ${error.message}`);
+      return;
+    }
+
+    const { data, error } = await query.eq('status', expectedStatus).select('id');
+
+    if (error?.code === OVERLAP_ERROR_CODE) throw new Error(TIME_TAKEN_MESSAGE);
+    if (error) throw new Error(`Failed to update booking: ${error.message}`);
+    if (!data || data.length === 0) {
+      throw new Error('This booking has changed since it was loaded. Please refresh and try again.');
+    }
+  },
+
+  /**
+   * Deletes a booking.
+   * @param id - The booking's ID.
+   */
+  delete: async (id: string): Promise<void> => {
+    const { error } = await supabase
+      .from('bookings')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw new Error(`Failed to delete booking: ${error.message}`);
+  },
+};
@@ -0,0 +1,37 @@
+// src/repositories/calendarFeeds.ts
+import { supabase } from '../supabaseClient';
+
+export const calendarFeedsRepository = {
+  /**
+   * Loads the token in a staff member's calendar subscription link.
+   * @param staffId - The staff member's ID.
+   * @returns The token, or null when no link has been made yet.
+   */
+  getToken: async (staffId: string): Promise<string | null> => {
+    const { data, error } = await supabase
+      .from('staff_calendar_feeds')
+      .select('token')
+      .eq('staff_id', staffId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('❌ Error fetching calendar feed:', error);
+      throw new Error(`Failed to load your calendar link: ${error.message}`);
+    }
+
+    return data?.token || null;
+  },
+
+  /**
+   * Saves a staff member's subscription token, replacing any earlier one.
+   * @param staffId - The staff member's ID.
+   * @param token - The new token.
+   */
+  saveToken: async (staffId: string, token: string): Promise<void> => {
+    const { error } = await supabase
+      .from('staff_calendar_feeds')
+      .upsert({ staff_id: staffId, token, created_at: new Date().toISOString() }, { onConflict: 'staff_id' });
+
+    if (error) throw new Error(`Failed to save your calendar link: ${error.message}`);
+  },
+};
@@ -0,0 +1,78 @@
+// src/repositories/commissionRules.ts
+import { ServiceCategory } from '@models/service';
+import { CommissionRule } from '@models/staff';
+import { supabase } from '../supabaseClient';
+
+export type CommissionRuleInput = Omit<CommissionRule, 'id'>;
+
+/**
+ * Maps a commission_rules row to a CommissionRule.
+ * @param row - The raw row from Supabase.
+ */
+export const mapCommissionRuleRow = (row: any): CommissionRule => ({
+  id: row.id.toString(),
+  staffId: row.staff_id || undefined,
+  category: (row.category as ServiceCategory) || undefined,
+  rate: parseFloat(row.rate) || 0,
+});
+
+export const commissionRulesRepository = {
+  /**
+   * Loads every commission rule.
+   */
+  getAll: async (): Promise<CommissionRule[]> => {
+    const { data, error } = await supabase
+      .from('commission_rules')
+      .select('*');
+
+    if (error) {
+      console.error('❌ Error fetching commission rules:', error);
+      throw new Error(`Failed to load commission rules: ${error.message}`);
+    }
+
+    return (data || []).map(mapCommissionRuleRow);
+  },
+
+  /**
+   * Adds a commission rule.
+   * @param rule - The staff member and/or category it covers, and its rate.
+   */
+  create: async (rule: CommissionRuleInput): Promise<CommissionRule> => {
+    const { data, error } = await supabase
+      .from('commission_rules')
+      .insert([{ staff_id: rule.staffId || null, category: rule.category || null, rate: rule.rate }])
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to create commission rule: ${error.message}`);
+
+    return mapCommissionRuleRow(data);
+  },
+
+  /**
+   * Changes a commission rule's rate.
+   * @param id - The rule's ID.
+   * @param rate - The new rate, e.g. 0.15 for 15%.
+   */
+  updateRate: async (id: string, rate: number): Promise<void> => {
+    const { error } = await supabase
+      .from('commission_rules')
+      .update({ rate })
+      .eq('id', id);
+
+    if (error) throw new Error(`Failed to update commission rule: ${error.message}`);
+  },
+
+  /**
+   * Deletes a commission rule.
+   * @param id - The rule's ID.
+   */
+  delete: async (id: string): Promise<void> => {
+    const { error } = await supabase
+      .from('commission_rules')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw new Error(`Failed to delete commission rule: ${error.message}`);
+  },
+};
@@ -0,0 +1,24 @@
+// src/repositories/index.ts
+export * from './bookings';
+export * from './services';
+export * from './users';
+export * from './inventory';
+export * from './bookingHistory';
+export * from './payments';
+export * from './commissionRules';
+export * from './treatmentNotes';
+export * from './stockMovements';
+export * from './serviceMaterials';
+export * from './suppliers';
+export * from './purchaseOrders';
+export * from './retailSales';
+export * from './waitlist';
+export * from './bookingPolicy';
+export * from './bookingSeries';
+export * from './bookingVisits';
+export * from './servicePackages';
+export * from './sessionCards';
+export * from './notifications';
+export * from './staffSchedule';
+export * from './staffSpecializations';
+export * from './calendarFeeds';
@@ -0,0 +1,150 @@
+// src/repositories/inventory.ts
+import { InventoryItem } from '@models/inventory';
+import { supabase } from '../supabaseClient';
+import { joinedRow } from './rows';
+
+export type InventoryItemInput = Pick<
+  InventoryItem,
+  'name' | 'category' | 'price' | 'costPrice' | 'stock' | 'unit' | 'reorderPoint' | 'reorderQuantity' | 'supplierId'
+>;
+
+const INVENTORY_SELECT = '*, suppliers:supplier_id (*)';
+
+const optionalNumber = (value: any): number | undefined => (value != null ? parseFloat(value) : undefined);
+
+// Optional fields are cleared with null
+const toInventoryColumns = (item: Partial<InventoryItemInput>): Record<string, any> => {
+  const columns: Record<string, any> = {};
+  if (item.name !== undefined) columns.name = item.name;
+  if (item.category !== undefined) columns.category = item.category;
+  if (item.price !== undefined) columns.price = item.price;
+  if (item.stock !== undefined) columns.stock = item.stock;
+  if (item.unit !== undefined) columns.unit = item.unit || 'pcs';
+  if ('costPrice' in item) columns.cost_price = item.costPrice ?? null;
+  if ('reorderPoint' in item) columns.reorder_point = item.reorderPoint ?? null;
+  if ('reorderQuantity' in item) columns.reorder_quantity = item.reorderQuantity ?? null;
+  if ('supplierId' in item) columns.supplier_id = item.supplierId || null;
+  return columns;
+};
+
+/**
+ * Maps an inventory row to an InventoryItem.
+ * @param row - The raw row from Supabase.
+ */
+export const mapInventoryRow = (row: any): InventoryItem => {
+  const supplier = joinedRow(row.suppliers);
+  return {
+    id: row.id.toString(),
+    name: row.name,
+    category: row.category || '',
+    price: parseFloat(row.price) || 0,
+    costPrice: optionalNumber(row.cost_price),
+    stock: parseFloat(row.stock) || 0,
+    unit: row.unit || 'pcs',
+    reorderPoint: optionalNumber(row.reorder_point),
+    reorderQuantity: optionalNumber(row.reorder_quantity),
+    supplierId: row.supplier_id != null ? row.supplier_id.toString() : undefined,
+    supplierName: supplier?.name || undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+};
+
+export const inventoryRepository = {
+  /**
+   * Loads every inventory item, newest first.
+   */
+  getAll: async (): Promise<InventoryItem[]> => {
+    const { data, error } = await supabase
+      .from('inventory')
+      .select(INVENTORY_SELECT)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('❌ Error fetching inventory:', error);
+      throw new Error(`Failed to load inventory: ${error.message}`);
+    }
+
+    return (data || []).map(mapInventoryRow);
+  },
+
+  /**
+   * Loads one inventory item.
+   * @param id - The item's ID.
+   */
+  getById: async (id: string): Promise<InventoryItem | null> => {
+    const { data, error } = await supabase
+      .from('inventory')
+      .select(INVENTORY_SELECT)
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to load inventory item: ${error.message}`);
+
+    return data ? mapInventoryRow(data) : null;
+  },
+
+  /**
+   * Adds an inventory item.
+   * @param item - The new item's details.
+   */
+  create: async (item: InventoryItemInput): Promise<InventoryItem> => {
+    const now = new Date().toISOString();
+    const { data, error } = await supabase
+      .from('inventory')
+      .insert([{ ...toInventoryColumns(item), created_at: now, updated_at: now }])
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to create inventory item: ${error.message}`);
+
+    return mapInventoryRow(data);
+  },
+
+  /**
+   * Updates an inventory item.
+   * @param id - The item's ID.
+   * @param changes - The fields to change.
+   */
+  update: async (id: string, changes: Partial<InventoryItemInput>): Promise<void> => {
+    const { error } = await supabase
+      .from('inventory')
+      .update({ ...toInventoryColumns(changes), updated_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) throw new Error(`Failed to update inventory item: ${error.message}`);
+  },
+
+  /**
+   * Sets an item's stock in a single conditional update, so two changes made at the same time
+   * can't overwrite each other.
+   * @param id - The item's ID.
+   * @param expected - The stock when the item was loaded.
+   * @param stock - The new stock.
+   * @returns False when the stock changed in the meantime and nothing was saved.
+   */
+  updateStock: async (id: string, expected: number, stock: number): Promise<boolean> => {
+    const { data, error } = await supabase
+      .from('inventory')
+      .update({ stock, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('stock', expected)
+      .select('id');
+
+    if (error) throw new Error(`Failed to update stock: ${error.message}`);
+    return !!data && data.length > 0;
+  },
+
+  /**
+   * Deletes an inventory item.
+   * @param id - The item's ID.
+   */
+  delete: async (id: string): Promise<void> => {
+    const { error } = await supabase
+      .from('inventory')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw new Error(`Failed to delete inventory item: ${error.message}`);
+  },
+};
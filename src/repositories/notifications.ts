@@ -0,0 +1,102 @@
+// src/repositories/notifications.ts
+import { Notification, NotificationType } from '@models/notification';
+import { supabase } from '../supabaseClient';
+
+export type NewNotification = Pick<Notification, 'userId' | 'type' | 'message' | 'bookingId'>;
+
+/**
+ * Maps a notifications row to a Notification.
+ * @param row - The raw row from Supabase.
+ */
+export const mapNotificationRow = (row: any): Notification => ({
+  id: row.id.toString(),
+  userId: row.user_id,
+  bookingId: row.booking_id != null ? row.booking_id.toString() : undefined,
+  type: row.type as NotificationType,
+  message: row.message,
+  read: !!row.read,
+  createdAt: row.created_at,
+});
+
+export const notificationsRepository = {
+  /**
+   * Loads a user's notifications, newest first.
+   * @param userId - The recipient's ID.
+   */
+  listForUser: async (userId: string): Promise<Notification[]> => {
+    const { data, error } = await supabase
+      .from('notifications')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('❌ Error fetching notifications:', error);
+      throw new Error('Failed to load notifications.');
+    }
+
+    return (data || []).map(mapNotificationRow);
+  },
+
+  /**
+   * Counts a user's unread notifications.
+   * @param userId - The recipient's ID.
+   */
+  countUnread: async (userId: string): Promise<number> => {
+    const { count, error } = await supabase
+      .from('notifications')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .eq('read', false);
+
+    if (error) throw new Error(`Failed to count notifications: ${error.message}`);
+
+    return count || 0;
+  },
+
+  /**
+   * Stores a notification in a user's inbox.
+   * @param notification - Recipient, type, message and optional booking.
+   */
+  create: async (notification: NewNotification): Promise<void> => {
+    const { error } = await supabase
+      .from('notifications')
+      .insert([{
+        user_id: notification.userId,
+        booking_id: notification.bookingId || null,
+        type: notification.type,
+        message: notification.message,
+        read: false,
+        created_at: new Date().toISOString(),
+      }]);
+
+    if (error) throw new Error(`Failed to create notification: ${error.message}`);
+  },
+
+  /**
+   * Marks one notification as read.
+   * @param id - The notification's ID.
+   */
+  markRead: async (id: string): Promise<void> => {
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read: true })
+      .eq('id', id);
+
+    if (error) throw new Error(`Failed to mark notification as read: ${error.message}`);
+  },
+
+  /**
+   * Marks all of a user's notifications as read.
+   * @param userId - The recipient's ID.
+   */
+  markAllRead: async (userId: string): Promise<void> => {
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read: true })
+      .eq('user_id', userId)
+      .eq('read', false);
+
+    if (error) throw new Error(`Failed to mark notifications as read: ${error.message}`);
+  },
+};
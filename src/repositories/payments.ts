@@ -0,0 +1,92 @@
+// src/repositories/payments.ts
+import { Payment, PaymentKind, PaymentMethod } from '@models/payment';
+import { supabase } from '../supabaseClient';
+import { joinedRow } from './rows';
+
+export type NewPayment = Omit<Payment, 'id' | 'serviceName' | 'bookingDate' | 'createdAt'>;
+
+export interface PaymentFilter {
+  bookingIds?: string[];
+  sessionCardItemIds?: string[];
+  createdFrom?: string; // ISO string
+  createdTo?: string; // ISO string
+}
+
+/**
+ * Maps a payments row (with its booking and service joins) to a Payment.
+ * @param row - The raw row from Supabase.
+ */
+export const mapPaymentRow = (row: any): Payment => {
+  const booking = joinedRow(row.bookings);
+  const service = booking ? joinedRow(booking.services) : null;
+  return {
+    id: row.id.toString(),
+    bookingId: row.booking_id.toString(),
+    kind: row.kind as PaymentKind,
+    method: row.method as PaymentMethod,
+    amount: parseFloat(row.amount) || 0,
+    reference: row.reference || undefined,
+    refundOf: row.refund_of != null ? row.refund_of.toString() : undefined,
+    sessionCardItemId: row.session_card_item_id != null ? row.session_card_item_id.toString() : undefined,
+    recordedBy: row.recorded_by || undefined,
+    serviceName: service?.service_name || undefined,
+    bookingDate: booking?.booking_date || undefined,
+    createdAt: row.created_at,
+  };
+};
+
+export const paymentsRepository = {
+  /**
+   * Loads payments and refunds, oldest first.
+   * @param filter - Optional bookings, prepaid sessions and date range.
+   */
+  list: async (filter: PaymentFilter = {}): Promise<Payment[]> => {
+    let query = supabase
+      .from('payments')
+      .select('*, bookings:booking_id (*, services:service_id (*))')
+      .order('created_at', { ascending: true });
+
+    if (filter.bookingIds) query = query.in('booking_id', filter.bookingIds);
+    if (filter.sessionCardItemIds) query = query.in('session_card_item_id', filter.sessionCardItemIds);
+    if (filter.createdFrom) query = query.gte('created_at', filter.createdFrom);
+    if (filter.createdTo) query = query.lte('created_at', filter.createdTo);
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('❌ Error fetching payments:', error);
+      throw new Error(`Failed to load payments: ${error.message}`);
+    }
+
+    return (data || []).map(mapPaymentRow);
+  },
+
+  /**
+   * Records a payment or refund.
+   * @param payment - The payment's details.
+   */
+  record: async (payment: NewPayment): Promise<Payment> => {
+    const { data, error } = await supabase
+      .from('payments')
+      .insert([{
+        booking_id: payment.bookingId,
+        kind: payment.kind,
+        method: payment.method,
+        amount: payment.amount,
+        reference: payment.reference || null,
+        refund_of: payment.refundOf || null,
+        session_card_item_id: payment.sessionCardItemId || null,
+        recorded_by: payment.recordedBy || null,
+        created_at: new Date().toISOString(),
+      }])
+      .select()
+      .single();
+
+    if (error) {
+      console.error('❌ Payment recording error:', error);
+      throw new Error(`Failed to record payment: ${error.message}`);
+    }
+
+    return mapPaymentRow(data);
+  },
+};
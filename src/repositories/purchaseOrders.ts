@@ -0,0 +1,207 @@
+// src/repositories/purchaseOrders.ts
+import { PurchaseOrder, PurchaseOrderLine, PurchaseOrderStatus } from '@models/inventory';
+import { supabase } from '../supabaseClient';
+import { joinedRow } from './rows';
+
+export type PurchaseOrderLineInput = Pick<PurchaseOrderLine, 'itemId' | 'quantityOrdered' | 'unitCost'>;
+
+export interface NewPurchaseOrder {
+  supplierId: string;
+  expectedDate?: string;
+  notes?: string;
+  createdBy?: string;
+  lines: PurchaseOrderLineInput[];
+}
+
+export interface PurchaseOrderChanges {
+  status?: PurchaseOrderStatus;
+  expectedDate?: string;
+  notes?: string;
+  orderedAt?: string;
+  receivedAt?: string;
+}
+
+/**
+ * Maps a purchase_order_lines row (with its inventory join) to a PurchaseOrderLine.
+ * @param row - The raw row from Supabase.
+ */
+export const mapPurchaseOrderLineRow = (row: any): PurchaseOrderLine => {
+  const item = joinedRow(row.inventory);
+  return {
+    id: row.id.toString(),
+    purchaseOrderId: row.purchase_order_id.toString(),
+    itemId: row.item_id.toString(),
+    itemName: item?.name || undefined,
+    unit: item?.unit || undefined,
+    quantityOrdered: parseFloat(row.quantity_ordered) || 0,
+    quantityReceived: parseFloat(row.quantity_received) || 0,
+    unitCost: parseFloat(row.unit_cost) || 0,
+  };
+};
+
+/**
+ * Maps a purchase_orders row (with its suppliers join) and its lines to a PurchaseOrder.
+ * @param row - The raw row from Supabase.
+ * @param lines - The order's lines.
+ */
+export const mapPurchaseOrderRow = (row: any, lines: PurchaseOrderLine[]): PurchaseOrder => {
+  const supplier = joinedRow(row.suppliers);
+  return {
+    id: row.id.toString(),
+    supplierId: row.supplier_id.toString(),
+    supplierName: supplier?.name || undefined,
+    status: row.status as PurchaseOrderStatus,
+    expectedDate: row.expected_date || undefined,
+    notes: row.notes || undefined,
+    createdBy: row.created_by || undefined,
+    orderedAt: row.ordered_at || undefined,
+    receivedAt: row.received_at || undefined,
+    createdAt: row.created_at,
+    lines,
+  };
+};
+
+// Loads the lines of the given orders
+const fetchLines = async (purchaseOrderIds: string[]): Promise<PurchaseOrderLine[]> => {
+  if (purchaseOrderIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('purchase_order_lines')
+    .select('*, inventory:item_id (*)')
+    .in('purchase_order_id', purchaseOrderIds)
+    .order('id', { ascending: true });
+
+  if (error) throw new Error(`Failed to load purchase order lines: ${error.message}`);
+
+  return (data || []).map(mapPurchaseOrderLineRow);
+};
+
+export const purchaseOrdersRepository = {
+  /**
+   * Loads purchase orders with their lines, newest first.
+   * @param statuses - Only orders in these statuses, if given.
+   */
+  list: async (statuses?: PurchaseOrderStatus[]): Promise<PurchaseOrder[]> => {
+    let query = supabase
+      .from('purchase_orders')
+      .select('*, suppliers:supplier_id (*)')
+      .order('created_at', { ascending: false });
+
+    if (statuses) query = query.in('status', statuses);
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('❌ Error fetching purchase orders:', error);
+      throw new Error(`Failed to load purchase orders: ${error.message}`);
+    }
+
+    const rows = data || [];
+    const lines = await fetchLines(rows.map((row: any) => row.id.toString()));
+    return rows.map((row: any) => mapPurchaseOrderRow(
+      row,
+      lines.filter(line => line.purchaseOrderId === row.id.toString())
+    ));
+  },
+
+  /**
+   * Creates a draft purchase order with its lines.
+   * @param order - The supplier, lines and notes.
+   * @returns The new order's ID.
+   */
+  create: async (order: NewPurchaseOrder): Promise<string> => {
+    const { data, error } = await supabase
+      .from('purchase_orders')
+      .insert([{
+        supplier_id: order.supplierId,
+        status: 'draft',
+        expected_date: order.expectedDate || null,
+        notes: order.notes || null,
+        created_by: order.createdBy || null,
+        created_at: new Date().toISOString(),
+      }])
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to create purchase order: ${error.message}`);
+
+    const purchaseOrderId = data.id.toString();
+    const { error: linesError } = await supabase
+      .from('purchase_order_lines')
+      .insert(order.lines.map(line => ({
+        purchase_order_id: purchaseOrderId,
+        item_id: line.itemId,
+        quantity_ordered: line.quantityOrdered,
+        quantity_received: 0,
+        unit_cost: line.unitCost,
+      })));
+
+    if (linesError) {
+      // Don't leave an empty order behind
+      await supabase.from('purchase_orders').delete().eq('id', purchaseOrderId);
+      throw new Error(`Failed to create purchase order: ${linesError.message}`);
+    }
+
+    return purchaseOrderId;
+  },
+
+  /**
+   * Updates a purchase order's status, dates or notes.
+   * @param id - The order's ID.
+   * @param changes - The fields to change.
+   */
+  update: async (id: string, changes: PurchaseOrderChanges): Promise<void> => {
+    const columns: Record<string, any> = {};
+    if (changes.status) columns.status = changes.status;
+    if (changes.expectedDate !== undefined) columns.expected_date = changes.expectedDate || null;
+    if (changes.notes !== undefined) columns.notes = changes.notes || null;
+    if (changes.orderedAt) columns.ordered_at = changes.orderedAt;
+    if (changes.receivedAt) columns.received_at = changes.receivedAt;
+
+    const { error } = await supabase
+      .from('purchase_orders')
+      .update(columns)
+      .eq('id', id);
+
+    if (error) throw new Error(`Failed to update purchase order: ${error.message}`);
+  },
+
+  /**
+   * Records how much of a line has arrived so far, unless another delivery was booked against it first.
+   * @param lineId - The line's ID.
+   * @param expected - The total received when the order was loaded.
+   * @param quantityReceived - The total received, including earlier deliveries.
+   * @returns False when the line changed in the meantime and nothing was saved.
+   */
+  updateLineReceived: async (lineId: string, expected: number, quantityReceived: number): Promise<boolean> => {
+    const { data, error } = await supabase
+      .from('purchase_order_lines')
+      .update({ quantity_received: quantityReceived })
+      .eq('id', lineId)
+      .eq('quantity_received', expected)
+      .select('id');
+
+    if (error) throw new Error(`Failed to update purchase order line: ${error.message}`);
+    return !!data && data.length > 0;
+  },
+
+  /**
+   * Deletes a draft purchase order and its lines.
+   * @param id - The order's ID.
+   */
+  delete: async (id: string): Promise<void> => {
+    const { error: linesError } = await supabase
+      .from('purchase_order_lines')
+      .delete()
+      .eq('purchase_order_id', id);
+
+    if (linesError) throw new Error(`Failed to delete purchase order: ${linesError.message}`);
+
+    const { error } = await supabase
+      .from('purchase_orders')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw new Error(`Failed to delete purchase order: ${error.message}`);
+  },
+};
@@ -0,0 +1,208 @@
+// src/repositories/retailSales.ts
+import { PaymentMethod } from '@models/payment';
+import { RetailSale, RetailSaleLine } from '@models/retail';
+import { supabase } from '../supabaseClient';
+import { fullName, joinedRow } from './rows';
+
+export type RetailSaleLineInput = Pick<RetailSaleLine, 'itemId' | 'quantity' | 'unitPrice'>;
+
+export interface NewRetailSale {
+  bookingId?: string;
+  customerId?: string;
+  soldBy?: string;
+  subtotal: number;
+  discount: number;
+  total: number;
+  paymentMethod: PaymentMethod;
+  lines: RetailSaleLineInput[];
+}
+
+export interface RetailSaleFilter {
+  bookingId?: string;
+  createdFrom?: string; // ISO string
+  createdTo?: string; // ISO string
+}
+
+const RETAIL_SALE_SELECT = '*, customers:customer_id (*), sellers:sold_by (*)';
+
+/**
+ * Maps a retail_sale_items row (with its inventory join) to a RetailSaleLine.
+ * @param row - The raw row from Supabase.
+ */
+export const mapRetailSaleLineRow = (row: any): RetailSaleLine => {
+  const item = joinedRow(row.inventory);
+  const quantity = parseFloat(row.quantity) || 0;
+  const unitPrice = parseFloat(row.unit_price) || 0;
+  return {
+    id: row.id.toString(),
+    saleId: row.sale_id.toString(),
+    itemId: row.item_id.toString(),
+    productName: item?.name || undefined,
+    quantity,
+    unitPrice,
+    lineTotal: Math.round(quantity * unitPrice * 100) / 100,
+  };
+};
+
+/**
+ * Maps a retail_sales row (with its customer and seller joins) and its lines to a RetailSale.
+ * @param row - The raw row from Supabase.
+ * @param lines - The sale's lines.
+ */
+export const mapRetailSaleRow = (row: any, lines: RetailSaleLine[]): RetailSale => ({
+  id: row.id.toString(),
+  bookingId: row.booking_id != null ? row.booking_id.toString() : undefined,
+  customerId: row.customer_id || undefined,
+  customerName: fullName(joinedRow(row.customers)) || undefined,
+  soldBy: row.sold_by || undefined,
+  soldByName: fullName(joinedRow(row.sellers)) || undefined,
+  subtotal: parseFloat(row.subtotal) || 0,
+  discount: parseFloat(row.discount) || 0,
+  total: parseFloat(row.total) || 0,
+  paymentMethod: row.payment_method as PaymentMethod,
+  reference: row.reference || undefined,
+  createdAt: row.created_at,
+  lines,
+});
+
+// Loads the lines of the given sales
+const fetchLines = async (saleIds: string[]): Promise<RetailSaleLine[]> => {
+  if (saleIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('retail_sale_items')
+    .select('*, inventory:item_id (*)')
+    .in('sale_id', saleIds)
+    .order('id', { ascending: true });
+
+  if (error) throw new Error(`Failed to load sale items: ${error.message}`);
+
+  return (data || []).map(mapRetailSaleLineRow);
+};
+
+// Attaches each sale's lines to it
+const withLines = async (rows: any[]): Promise<RetailSale[]> => {
+  const lines = await fetchLines(rows.map(row => row.id.toString()));
+  return rows.map(row => mapRetailSaleRow(row, lines.filter(line => line.saleId === row.id.toString())));
+};
+
+export const retailSalesRepository = {
+  /**
+   * Loads retail sales with their lines, newest first.
+   * @param filter - Optional booking and date range.
+   */
+  list: async (filter: RetailSaleFilter = {}): Promise<RetailSale[]> => {
+    let query = supabase
+      .from('retail_sales')
+      .select(RETAIL_SALE_SELECT)
+      .order('created_at', { ascending: false });
+
+    if (filter.bookingId) query = query.eq('booking_id', filter.bookingId);
+    if (filter.createdFrom) query = query.gte('created_at', filter.createdFrom);
+    if (filter.createdTo) query = query.lte('created_at', filter.createdTo);
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('❌ Error fetching retail sales:', error);
+      throw new Error(`Failed to load retail sales: ${error.message}`);
+    }
+
+    return withLines(data || []);
+  },
+
+  /**
+   * Loads one sale with its lines.
+   * @param id - The sale's ID.
+   */
+  getById: async (id: string): Promise<RetailSale | null> => {
+    const { data, error } = await supabase
+      .from('retail_sales')
+      .select(RETAIL_SALE_SELECT)
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to load sale: ${error.message}`);
+    if (!data) return null;
+
+    const [sale] = await withLines([data]);
+    return sale;
+  },
+
+  /**
+   * Records a sale with its lines.
+   * @param sale - The products sold, totals and payment method.
+   * @returns The new sale's ID.
+   */
+  create: async (sale: NewRetailSale): Promise<string> => {
+    const { data, error } = await supabase
+      .from('retail_sales')
+      .insert([{
+        booking_id: sale.bookingId || null,
+        customer_id: sale.customerId || null,
+        sold_by: sale.soldBy || null,
+        subtotal: sale.subtotal,
+        discount: sale.discount,
+        total: sale.total,
+        payment_method: sale.paymentMethod,
+        reference: null,
+        created_at: new Date().toISOString(),
+      }])
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to record sale: ${error.message}`);
+
+    const saleId = data.id.toString();
+    const { error: linesError } = await supabase
+      .from('retail_sale_items')
+      .insert(sale.lines.map(line => ({
+        sale_id: saleId,
+        item_id: line.itemId,
+        quantity: line.quantity,
+        unit_price: line.unitPrice,
+      })));
+
+    if (linesError) {
+      // Don't leave an empty sale behind
+      await supabase.from('retail_sales').delete().eq('id', saleId);
+      throw new Error(`Failed to record sale: ${linesError.message}`);
+    }
+
+    return saleId;
+  },
+
+  /**
+   * Saves the gateway's transaction ID once a card or e-wallet payment goes through.
+   * @param id - The sale's ID.
+   * @param reference - The transaction ID.
+   */
+  setReference: async (id: string, reference: string): Promise<void> => {
+    const { error } = await supabase
+      .from('retail_sales')
+      .update({ reference })
+      .eq('id', id);
+
+    if (error) throw new Error(`Failed to update sale: ${error.message}`);
+  },
+
+  /**
+   * Deletes a sale and its lines, e.g. when its payment is declined.
+   * @param id - The sale's ID.
+   */
+  delete: async (id: string): Promise<void> => {
+    const { error: linesError } = await supabase
+      .from('retail_sale_items')
+      .delete()
+      .eq('sale_id', id);
+
+    if (linesError) throw new Error(`Failed to delete sale: ${linesError.message}`);
+
+    const { error } = await supabase
+      .from('retail_sales')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw new Error(`Failed to delete sale: ${error.message}`);
+  },
+};
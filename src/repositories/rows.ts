@@ -0,0 +1,26 @@
+// src/repositories/rows.ts
+import { ContactPreferences } from '@models/user';
+import { DEFAULT_CONTACT_PREFERENCES } from '@utils/constants';
+
+/**
+ * Supabase may return a joined row as an object or a single-element array.
+ * @param value - The joined value.
+ */
+export const joinedRow = (value: any): any =>
+  Array.isArray(value) ? value[0] || null : value || null;
+
+/**
+ * Joins a users row's first and last name.
+ * @param user - A users row (snake_case columns), or null.
+ */
+export const fullName = (user: any): string =>
+  user ? `${user.first_name || ''} ${user.last_name || ''}`.trim() : '';
+
+/**
+ * Reads a users row's contact preferences, filling anything unset with the defaults.
+ * @param user - A users row (snake_case columns), or null.
+ */
+export const contactPreferences = (user: any): ContactPreferences => ({
+  ...DEFAULT_CONTACT_PREFERENCES,
+  ...(user?.contact_preferences || {}),
+});
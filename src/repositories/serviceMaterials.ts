@@ -0,0 +1,66 @@
+// src/repositories/serviceMaterials.ts
+import { ServiceMaterial } from '@models/inventory';
+import { supabase } from '../supabaseClient';
+import { joinedRow } from './rows';
+
+export type ServiceMaterialInput = Pick<ServiceMaterial, 'itemId' | 'quantity'>;
+
+/**
+ * Maps a service_materials row (with its inventory join) to a ServiceMaterial.
+ * @param row - The raw row from Supabase.
+ */
+export const mapServiceMaterialRow = (row: any): ServiceMaterial => {
+  const item = joinedRow(row.inventory);
+  return {
+    id: row.id.toString(),
+    serviceId: row.service_id.toString(),
+    itemId: row.item_id.toString(),
+    itemName: item?.name || undefined,
+    quantity: parseFloat(row.quantity) || 0,
+  };
+};
+
+export const serviceMaterialsRepository = {
+  /**
+   * Loads the bill of materials for a service: what one booking of it uses up.
+   * @param serviceId - The service's ID.
+   */
+  listForService: async (serviceId: string): Promise<ServiceMaterial[]> => {
+    const { data, error } = await supabase
+      .from('service_materials')
+      .select('*, inventory:item_id (*)')
+      .eq('service_id', serviceId);
+
+    if (error) {
+      console.error('❌ Error fetching service materials:', error);
+      throw new Error(`Failed to load service materials: ${error.message}`);
+    }
+
+    return (data || []).map(mapServiceMaterialRow);
+  },
+
+  /**
+   * Replaces a service's bill of materials.
+   * @param serviceId - The service's ID.
+   * @param materials - The items and quantities one booking uses.
+   */
+  replaceForService: async (serviceId: string, materials: ServiceMaterialInput[]): Promise<void> => {
+    const { error: deleteError } = await supabase
+      .from('service_materials')
+      .delete()
+      .eq('service_id', serviceId);
+
+    if (deleteError) throw new Error(`Failed to update service materials: ${deleteError.message}`);
+    if (materials.length === 0) return;
+
+    const { error } = await supabase
+      .from('service_materials')
+      .insert(materials.map(material => ({
+        service_id: serviceId,
+        item_id: material.itemId,
+        quantity: material.quantity,
+      })));
+
+    if (error) throw new Error(`Failed to update service materials: ${error.message}`);
+  },
+};
@@ -0,0 +1,185 @@
+// src/repositories/servicePackages.ts
+import { PackageItem, PackageKind, ServicePackage } from '@models/package';
+import { supabase } from '../supabaseClient';
+import { joinedRow } from './rows';
+
+export type ServicePackageInput = Omit<ServicePackage, 'id' | 'items' | 'createdAt'> & {
+  items: Pick<PackageItem, 'serviceId' | 'sessions'>[];
+};
+
+/**
+ * Maps a service_package_items row (with its service join) to a PackageItem.
+ * @param row - The raw row from Supabase.
+ */
+export const mapPackageItemRow = (row: any): PackageItem => {
+  const service = joinedRow(row.services);
+  return {
+    serviceId: row.service_id.toString(),
+    serviceName: service?.service_name || undefined,
+    servicePrice: service ? parseFloat(service.price) || 0 : undefined,
+    sessions: parseInt(row.sessions, 10) || 0,
+  };
+};
+
+/**
+ * Maps a service_packages row and its items to a ServicePackage.
+ * @param row - The raw row from Supabase.
+ * @param items - The package's services.
+ */
+export const mapServicePackageRow = (row: any, items: PackageItem[]): ServicePackage => ({
+  id: row.id.toString(),
+  name: row.name,
+  description: row.description || undefined,
+  kind: row.kind as PackageKind,
+  price: parseFloat(row.price) || 0,
+  validityDays: row.validity_days != null ? parseInt(row.validity_days, 10) : undefined,
+  isActive: row.is_active !== false,
+  items,
+  createdAt: row.created_at,
+});
+
+// Attaches each package's services to it
+const withItems = async (rows: any[]): Promise<ServicePackage[]> => {
+  if (rows.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('service_package_items')
+    .select('*, services:service_id (*)')
+    .in('package_id', rows.map(row => row.id.toString()))
+    .order('id', { ascending: true });
+
+  if (error) throw new Error(`Failed to load package services: ${error.message}`);
+
+  return rows.map(row => mapServicePackageRow(
+    row,
+    (data || []).filter(item => item.package_id.toString() === row.id.toString()).map(mapPackageItemRow)
+  ));
+};
+
+// Replaces a package's services
+const saveItems = async (packageId: string, items: ServicePackageInput['items']): Promise<void> => {
+  const { error: deleteError } = await supabase
+    .from('service_package_items')
+    .delete()
+    .eq('package_id', packageId);
+
+  if (deleteError) throw new Error(`Failed to update package services: ${deleteError.message}`);
+
+  const { error } = await supabase
+    .from('service_package_items')
+    .insert(items.map(item => ({ package_id: packageId, service_id: item.serviceId, sessions: item.sessions })));
+
+  if (error) throw new Error(`Failed to update package services: ${error.message}`);
+};
+
+const toRow = (pkg: ServicePackageInput) => ({
+  name: pkg.name,
+  description: pkg.description || null,
+  kind: pkg.kind,
+  price: pkg.price,
+  validity_days: pkg.validityDays ?? null,
+  is_active: pkg.isActive,
+});
+
+export const servicePackagesRepository = {
+  /**
+   * Loads packages with their services, by name.
+   * @param activeOnly - Leave out packages that are no longer sold.
+   */
+  getAll: async (activeOnly: boolean = false): Promise<ServicePackage[]> => {
+    let query = supabase
+      .from('service_packages')
+      .select('*')
+      .order('name', { ascending: true });
+
+    if (activeOnly) query = query.eq('is_active', true);
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('❌ Error fetching packages:', error);
+      throw new Error(`Failed to load packages: ${error.message}`);
+    }
+
+    return withItems(data || []);
+  },
+
+  /**
+   * Loads one package with its services.
+   * @param id - The package's ID.
+   */
+  getById: async (id: string): Promise<ServicePackage | null> => {
+    const { data, error } = await supabase
+      .from('service_packages')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to load package: ${error.message}`);
+    if (!data) return null;
+
+    const [pkg] = await withItems([data]);
+    return pkg;
+  },
+
+  /**
+   * Adds a package with its services.
+   * @param pkg - The package's details.
+   * @returns The new package's ID.
+   */
+  create: async (pkg: ServicePackageInput): Promise<string> => {
+    const { data, error } = await supabase
+      .from('service_packages')
+      .insert([{ ...toRow(pkg), created_at: new Date().toISOString() }])
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to create package: ${error.message}`);
+
+    const packageId = data.id.toString();
+    try {
+      await saveItems(packageId, pkg.items);
+    } catch (err) {
+      // Don't leave a package with no services behind
+      await supabase.from('service_packages').delete().eq('id', packageId);
+      throw err;
+    }
+    return packageId;
+  },
+
+  /**
+   * Updates a package and replaces its services. Cards already sold keep what they were sold with.
+   * @param id - The package's ID.
+   * @param pkg - The package's new details.
+   */
+  update: async (id: string, pkg: ServicePackageInput): Promise<void> => {
+    const { error } = await supabase
+      .from('service_packages')
+      .update(toRow(pkg))
+      .eq('id', id);
+
+    if (error) throw new Error(`Failed to update package: ${error.message}`);
+
+    await saveItems(id, pkg.items);
+  },
+
+  /**
+   * Deletes a package and its services.
+   * @param id - The package's ID.
+   */
+  delete: async (id: string): Promise<void> => {
+    const { error: itemsError } = await supabase
+      .from('service_package_items')
+      .delete()
+      .eq('package_id', id);
+
+    if (itemsError) throw new Error(`Failed to delete package: ${itemsError.message}`);
+
+    const { error } = await supabase
+      .from('service_packages')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw new Error(`Failed to delete package: ${error.message}`);
+  },
+};
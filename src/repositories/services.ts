@@ -0,0 +1,151 @@
+// src/repositories/services.ts
+import { Service, ServiceCategory } from '@models/service';
+import { supabase } from '../supabaseClient';
+
+// Storage bucket holding service photos
+const SERVICE_IMAGE_BUCKET = 'service_img';
+
+export type ServiceInput = Omit<Service, 'id'>;
+
+/**
+ * Maps a services row to a Service.
+ * @param row - The raw row from Supabase.
+ */
+export const mapServiceRow = (row: any): Service => ({
+  id: row.id.toString(),
+  name: row.service_name,
+  description: row.description || '',
+  price: parseFloat(row.price),
+  durationMinutes: row.duration,
+  category: row.category as ServiceCategory,
+  imageUrl: row.service_img || undefined,
+  availableDays: row.available_days || undefined,
+});
+
+const toServiceColumns = (service: ServiceInput) => ({
+  service_name: service.name.trim(),
+  description: service.description.trim(),
+  price: service.price,
+  duration: service.durationMinutes,
+  category: service.category,
+  service_img: service.imageUrl || null,
+});
+
+export const servicesRepository = {
+  /**
+   * Loads every service.
+   * @param order - 'newest' first (default) or alphabetical by 'name'.
+   */
+  getAll: async (order: 'newest' | 'name' = 'newest'): Promise<Service[]> => {
+    const { data, error } = await supabase
+      .from('services')
+      .select('*')
+      .order(order === 'name' ? 'service_name' : 'created_at', { ascending: order === 'name' });
+
+    if (error) {
+      console.error('❌ Error fetching services:', error);
+      throw new Error(`Failed to load services: ${error.message}`);
+    }
+
+    return (data || []).map(mapServiceRow);
+  },
+
+  /**
+   * Loads one service.
+   * @param id - The service's ID.
+   * @returns The service, or null when it doesn't exist.
+   */
+  getById: async (id: string): Promise<Service | null> => {
+    const { data, error } = await supabase
+      .from('services')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('❌ Error fetching service:', error);
+      throw new Error(`Failed to load service: ${error.message}`);
+    }
+
+    return data ? mapServiceRow(data) : null;
+  },
+
+  /**
+   * Adds a service.
+   * @param service - The new service's details.
+   */
+  create: async (service: ServiceInput): Promise<Service> => {
+    const { data, error } = await supabase
+      .from('services')
+      .insert([{ ...toServiceColumns(service), created_at: new Date().toISOString() }])
+      .select()
+      .single();
+
+    if (error) {
+      console.error('❌ Service creation error:', error);
+      throw new Error(`Failed to create service: ${error.message}`);
+    }
+
+    return mapServiceRow(data);
+  },
+
+  /**
+   * Updates a service.
+   * @param id - The service's ID.
+   * @param service - The service's new details.
+   */
+  update: async (id: string, service: ServiceInput): Promise<Service> => {
+    const { data, error } = await supabase
+      .from('services')
+      .update(toServiceColumns(service))
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('❌ Service update error:', error);
+      throw new Error(`Failed to update service: ${error.message}`);
+    }
+
+    return mapServiceRow(data);
+  },
+
+  /**
+   * Deletes a service.
+   * @param id - The service's ID.
+   */
+  delete: async (id: string): Promise<void> => {
+    const { error } = await supabase
+      .from('services')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw new Error(`Failed to delete service: ${error.message}`);
+  },
+
+  /**
+   * Uploads a service photo.
+   * @param file - The image file.
+   * @returns The photo's public URL.
+   */
+  uploadImage: async (file: File): Promise<string> => {
+    const fileExt = file.name.split('.').pop();
+    const fileName = `${Math.random().toString(36).substring(2)}_${Date.now()}.${fileExt}`;
+    const filePath = `service-images/${fileName}`;
+
+    const { error } = await supabase.storage
+      .from(SERVICE_IMAGE_BUCKET)
+      .upload(filePath, file);
+
+    if (error) {
+      console.error('❌ Upload error:', error);
+      throw new Error(`Image upload failed: ${error.message}`);
+    }
+
+    const { data: { publicUrl } } = supabase.storage
+      .from(SERVICE_IMAGE_BUCKET)
+      .getPublicUrl(filePath);
+
+    return publicUrl;
+  },
+};
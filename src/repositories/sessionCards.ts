@@ -0,0 +1,260 @@
+// src/repositories/sessionCards.ts
+import { PackageKind, SessionCard, SessionCardItem } from '@models/package';
+import { PaymentMethod } from '@models/payment';
+import { supabase } from '../supabaseClient';
+import { fullName, joinedRow } from './rows';
+
+export type SessionCardItemInput = Pick<SessionCardItem, 'serviceId' | 'sessions' | 'unitValue'>;
+
+export interface NewSessionCard {
+  packageId: string;
+  customerId: string;
+  soldBy?: string;
+  price: number;
+  paymentMethod: PaymentMethod;
+  expiresAt?: string;
+  items: SessionCardItemInput[];
+}
+
+export interface SessionCardFilter {
+  customerId?: string;
+  packageId?: string;
+  purchasedFrom?: string; // ISO string
+  purchasedTo?: string; // ISO string
+}
+
+const SESSION_CARD_SELECT = '*, service_packages:package_id (*), customers:customer_id (*)';
+
+/**
+ * Maps a session_card_items row (with its service join) to a SessionCardItem.
+ * @param row - The raw row from Supabase.
+ */
+export const mapSessionCardItemRow = (row: any): SessionCardItem => {
+  const service = joinedRow(row.services);
+  return {
+    id: row.id.toString(),
+    cardId: row.card_id.toString(),
+    serviceId: row.service_id.toString(),
+    serviceName: service?.service_name || undefined,
+    sessions: parseInt(row.sessions, 10) || 0,
+    remaining: parseInt(row.remaining, 10) || 0,
+    unitValue: parseFloat(row.unit_value) || 0,
+  };
+};
+
+/**
+ * Maps a session_cards row (with its package and customer joins) and its items to a SessionCard.
+ * @param row - The raw row from Supabase.
+ * @param items - The card's sessions.
+ */
+export const mapSessionCardRow = (row: any, items: SessionCardItem[]): SessionCard => {
+  const pkg = joinedRow(row.service_packages);
+  return {
+    id: row.id.toString(),
+    packageId: row.package_id.toString(),
+    packageName: pkg?.name || undefined,
+    kind: (pkg?.kind as PackageKind) || 'session_card',
+    customerId: row.customer_id,
+    customerName: fullName(joinedRow(row.customers)) || undefined,
+    price: parseFloat(row.price) || 0,
+    paymentMethod: row.payment_method as PaymentMethod,
+    reference: row.reference || undefined,
+    soldBy: row.sold_by || undefined,
+    expiresAt: row.expires_at || undefined,
+    purchasedAt: row.created_at,
+    items,
+  };
+};
+
+// Attaches each card's sessions to it
+const withItems = async (rows: any[]): Promise<SessionCard[]> => {
+  if (rows.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('session_card_items')
+    .select('*, services:service_id (*)')
+    .in('card_id', rows.map(row => row.id.toString()))
+    .order('id', { ascending: true });
+
+  if (error) throw new Error(`Failed to load card sessions: ${error.message}`);
+
+  const items = (data || []).map(mapSessionCardItemRow);
+  return rows.map(row => mapSessionCardRow(row, items.filter(item => item.cardId === row.id.toString())));
+};
+
+// Changes the sessions left only if nobody has changed them since they were read
+const updateRemaining = async (itemId: string, expected: number, remaining: number): Promise<boolean> => {
+  const { data, error } = await supabase
+    .from('session_card_items')
+    .update({ remaining })
+    .eq('id', itemId)
+    .eq('remaining', expected)
+    .select('id');
+
+  if (error) throw new Error(`Failed to update card sessions: ${error.message}`);
+  return !!data && data.length > 0;
+};
+
+// How many times to re-read a card that keeps changing before giving up
+const MAX_SESSION_RETRIES = 3;
+
+export const sessionCardsRepository = {
+  /**
+   * Loads bought cards with their sessions, newest first.
+   * @param filter - Optional customer, package and purchase date range.
+   */
+  list: async (filter: SessionCardFilter = {}): Promise<SessionCard[]> => {
+    let query = supabase
+      .from('session_cards')
+      .select(SESSION_CARD_SELECT)
+      .order('created_at', { ascending: false });
+
+    if (filter.customerId) query = query.eq('customer_id', filter.customerId);
+    if (filter.packageId) query = query.eq('package_id', filter.packageId);
+    if (filter.purchasedFrom) query = query.gte('created_at', filter.purchasedFrom);
+    if (filter.purchasedTo) query = query.lte('created_at', filter.purchasedTo);
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('❌ Error fetching session cards:', error);
+      throw new Error(`Failed to load session cards: ${error.message}`);
+    }
+
+    return withItems(data || []);
+  },
+
+  /**
+   * Loads one card with its sessions.
+   * @param id - The card's ID.
+   */
+  getById: async (id: string): Promise<SessionCard | null> => {
+    const { data, error } = await supabase
+      .from('session_cards')
+      .select(SESSION_CARD_SELECT)
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to load session card: ${error.message}`);
+    if (!data) return null;
+
+    const [card] = await withItems([data]);
+    return card;
+  },
+
+  /**
+   * Records a bought card with all of its sessions still to use.
+   * @param card - The package, customer, price, payment method and sessions.
+   * @returns The new card's ID.
+   */
+  create: async (card: NewSessionCard): Promise<string> => {
+    const { data, error } = await supabase
+      .from('session_cards')
+      .insert([{
+        package_id: card.packageId,
+        customer_id: card.customerId,
+        sold_by: card.soldBy || null,
+        price: card.price,
+        payment_method: card.paymentMethod,
+        reference: null,
+        expires_at: card.expiresAt || null,
+        created_at: new Date().toISOString(),
+      }])
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to record session card: ${error.message}`);
+
+    const cardId = data.id.toString();
+    const { error: itemsError } = await supabase
+      .from('session_card_items')
+      .insert(card.items.map(item => ({
+        card_id: cardId,
+        service_id: item.serviceId,
+        sessions: item.sessions,
+        remaining: item.sessions,
+        unit_value: item.unitValue,
+      })));
+
+    if (itemsError) {
+      // Don't leave a card with no sessions behind
+      await supabase.from('session_cards').delete().eq('id', cardId);
+      throw new Error(`Failed to record session card: ${itemsError.message}`);
+    }
+
+    return cardId;
+  },
+
+  /**
+   * Saves the gateway's transaction ID once a card or e-wallet payment goes through.
+   * @param id - The card's ID.
+   * @param reference - The transaction ID.
+   */
+  setReference: async (id: string, reference: string): Promise<void> => {
+    const { error } = await supabase
+      .from('session_cards')
+      .update({ reference })
+      .eq('id', id);
+
+    if (error) throw new Error(`Failed to update session card: ${error.message}`);
+  },
+
+  /**
+   * Loads the sessions of one service on a card.
+   * @param itemId - The card item's ID.
+   */
+  getItem: async (itemId: string): Promise<SessionCardItem | null> => {
+    const { data, error } = await supabase
+      .from('session_card_items')
+      .select('*, services:service_id (*)')
+      .eq('id', itemId)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to load card sessions: ${error.message}`);
+
+    return data ? mapSessionCardItemRow(data) : null;
+  },
+
+  /**
+   * Takes one session off a card in a single conditional update, so two bookings made at the
+   * same time can't both use the last session.
+   * @param itemId - The card item's ID.
+   * @param remaining - Sessions left when the card was loaded.
+   * @returns False when the card changed in the meantime and nothing was taken.
+   */
+  takeSession: async (itemId: string, remaining: number): Promise<boolean> =>
+    remaining > 0 && updateRemaining(itemId, remaining, remaining - 1),
+
+  /**
+   * Puts one session back on a card, never above what it was bought with.
+   * @param itemId - The card item's ID.
+   */
+  returnSession: async (itemId: string): Promise<void> => {
+    for (let attempt = 0; attempt < MAX_SESSION_RETRIES; attempt++) {
+      const item = await sessionCardsRepository.getItem(itemId);
+      if (!item || item.remaining >= item.sessions) return;
+      if (await updateRemaining(itemId, item.remaining, item.remaining + 1)) return;
+    }
+    throw new Error('Failed to return the session to its card. Please try again.');
+  },
+
+  /**
+   * Deletes a card and its sessions, e.g. when its payment is declined.
+   * @param id - The card's ID.
+   */
+  delete: async (id: string): Promise<void> => {
+    const { error: itemsError } = await supabase
+      .from('session_card_items')
+      .delete()
+      .eq('card_id', id);
+
+    if (itemsError) throw new Error(`Failed to delete session card: ${itemsError.message}`);
+
+    const { error } = await supabase
+      .from('session_cards')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw new Error(`Failed to delete session card: ${error.message}`);
+  },
+};
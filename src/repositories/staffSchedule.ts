@@ -0,0 +1,161 @@
+// src/repositories/staffSchedule.ts
+import { DayOfWeek, TimeOff, TimeOffType, WorkingHours } from '@models/schedule';
+import { DEFAULT_END_TIME, DEFAULT_START_TIME } from '@utils/constants';
+import { supabase } from '../supabaseClient';
+
+// Trims Postgres "HH:MM:SS" values to "HH:MM" for time inputs
+const trimTime = (time?: string | null): string | undefined =>
+  time ? time.substring(0, 5) : undefined;
+
+/**
+ * Maps a staff_working_hours row to WorkingHours.
+ * @param row - The raw row from Supabase.
+ */
+export const mapWorkingHoursRow = (row: any): WorkingHours => ({
+  staffId: row.staff_id,
+  dayOfWeek: row.day_of_week as DayOfWeek,
+  isWorking: row.is_working,
+  startTime: trimTime(row.start_time) || DEFAULT_START_TIME,
+  endTime: trimTime(row.end_time) || DEFAULT_END_TIME,
+  breakStart: trimTime(row.break_start),
+  breakEnd: trimTime(row.break_end),
+});
+
+/**
+ * Maps a staff_time_off row to TimeOff.
+ * @param row - The raw row from Supabase.
+ */
+export const mapTimeOffRow = (row: any): TimeOff => ({
+  id: row.id.toString(),
+  staffId: row.staff_id || undefined,
+  startDate: row.start_date,
+  endDate: row.end_date,
+  type: row.type as TimeOffType,
+  reason: row.reason || undefined,
+});
+
+export const staffScheduleRepository = {
+  /**
+   * Loads the days a staff member has saved hours for.
+   * @param staffId - The staff member's ID.
+   */
+  listWorkingHours: async (staffId: string): Promise<WorkingHours[]> => {
+    const { data, error } = await supabase
+      .from('staff_working_hours')
+      .select('*')
+      .eq('staff_id', staffId);
+
+    if (error) {
+      console.error('❌ Error fetching working hours:', error);
+      throw new Error('Failed to load working hours.');
+    }
+
+    return (data || []).map(mapWorkingHoursRow);
+  },
+
+  /**
+   * Loads a staff member's saved hours for one weekday.
+   * @param staffId - The staff member's ID.
+   * @param dayOfWeek - 0 (Sunday) to 6 (Saturday).
+   * @returns The hours, or null when that day has never been saved.
+   */
+  getWorkingHours: async (staffId: string, dayOfWeek: DayOfWeek): Promise<WorkingHours | null> => {
+    const { data, error } = await supabase
+      .from('staff_working_hours')
+      .select('*')
+      .eq('staff_id', staffId)
+      .eq('day_of_week', dayOfWeek)
+      .maybeSingle();
+
+    if (error) {
+      console.error('❌ Error fetching working hours:', error);
+      throw new Error('Unable to load the staff schedule. Please try again.');
+    }
+
+    return data ? mapWorkingHoursRow(data) : null;
+  },
+
+  /**
+   * Saves working hours, replacing any existing entries for the same staff member and day.
+   * @param hours - The days to save.
+   */
+  saveWorkingHours: async (hours: WorkingHours[]): Promise<void> => {
+    const rows = hours.map(entry => ({
+      staff_id: entry.staffId,
+      day_of_week: entry.dayOfWeek,
+      is_working: entry.isWorking,
+      start_time: entry.startTime,
+      end_time: entry.endTime,
+      break_start: entry.breakStart || null,
+      break_end: entry.breakEnd || null,
+      updated_at: new Date().toISOString(),
+    }));
+
+    const { error } = await supabase
+      .from('staff_working_hours')
+      .upsert(rows, { onConflict: 'staff_id,day_of_week' });
+
+    if (error) throw new Error(`Failed to save working hours: ${error.message}`);
+  },
+
+  /**
+   * Loads time off for a staff member together with salon-wide holidays, by start date.
+   * Without a staff ID, returns every entry.
+   * @param staffId - Optional staff member's ID.
+   * @param fromDate - Optional lower bound; entries ending before it are skipped.
+   */
+  listTimeOff: async (staffId?: string, fromDate?: string): Promise<TimeOff[]> => {
+    let query = supabase
+      .from('staff_time_off')
+      .select('*')
+      .order('start_date', { ascending: true });
+
+    if (staffId) {
+      query = query.or(`staff_id.eq.${staffId},staff_id.is.null`);
+    }
+    if (fromDate) {
+      query = query.gte('end_date', fromDate);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('❌ Error fetching time off:', error);
+      throw new Error('Unable to load staff time off. Please try again.');
+    }
+
+    return (data || []).map(mapTimeOffRow);
+  },
+
+  /**
+   * Records leave for a staff member, or a salon-wide holiday when no staff ID is given.
+   * @param entry - The time-off details.
+   */
+  addTimeOff: async (entry: Omit<TimeOff, 'id'>): Promise<void> => {
+    const { error } = await supabase
+      .from('staff_time_off')
+      .insert([{
+        staff_id: entry.staffId || null,
+        start_date: entry.startDate,
+        end_date: entry.endDate,
+        type: entry.type,
+        reason: entry.reason || null,
+        created_at: new Date().toISOString(),
+      }]);
+
+    if (error) throw new Error(`Failed to add time off: ${error.message}`);
+  },
+
+  /**
+   * Removes a time-off entry.
+   * @param id - The entry's ID.
+   */
+  deleteTimeOff: async (id: string): Promise<void> => {
+    const { error } = await supabase
+      .from('staff_time_off')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw new Error(`Failed to delete time off: ${error.message}`);
+  },
+};
@@ -0,0 +1,86 @@
+// src/repositories/staffSpecializations.ts
+import { SpecializationSelection, StaffSpecialization } from '@models/staff';
+import { supabase } from '../supabaseClient';
+
+/**
+ * Maps a staff_specializations row to a StaffSpecialization.
+ * @param row - The raw row from Supabase.
+ */
+export const mapSpecializationRow = (row: any): StaffSpecialization => ({
+  id: row.id.toString(),
+  staffId: row.staff_id,
+  category: row.category || undefined,
+  serviceId: row.service_id != null ? row.service_id.toString() : undefined,
+  allServices: !!row.all_services,
+});
+
+type SpecializationGrant = Omit<StaffSpecialization, 'id' | 'staffId'>;
+
+// Identifies a specialization by what it grants, so saved rows can be matched to a new selection
+const grantKey = (grant: SpecializationGrant): string =>
+  grant.allServices ? 'all' : grant.category ? `category:${grant.category}` : `service:${grant.serviceId}`;
+
+export const staffSpecializationsRepository = {
+  /**
+   * Loads specializations for one staff member, or for everyone when no ID is given.
+   * @param staffId - Optional staff member's ID.
+   */
+  list: async (staffId?: string): Promise<StaffSpecialization[]> => {
+    let query = supabase.from('staff_specializations').select('*');
+    if (staffId) {
+      query = query.eq('staff_id', staffId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('❌ Error fetching staff specializations:', error);
+      throw new Error('Failed to load staff specializations.');
+    }
+
+    return (data || []).map(mapSpecializationRow);
+  },
+
+  /**
+   * Replaces a staff member's specializations. New rows are added before removed ones are deleted,
+   * so a failed save never leaves the staff member with nothing recorded.
+   * @param staffId - The staff member's ID.
+   * @param selection - Every service, or the categories and services the staff member can perform.
+   */
+  replace: async (staffId: string, selection: SpecializationSelection): Promise<void> => {
+    const wanted: SpecializationGrant[] = selection.allServices
+      ? [{ allServices: true }]
+      : [
+          ...selection.categories.map(category => ({ category })),
+          ...selection.serviceIds.map(serviceId => ({ serviceId })),
+        ];
+
+    const saved = await staffSpecializationsRepository.list(staffId);
+    const savedKeys = new Set(saved.map(grantKey));
+    const wantedKeys = new Set(wanted.map(grantKey));
+
+    const added = wanted.filter(grant => !savedKeys.has(grantKey(grant)));
+    if (added.length > 0) {
+      const { error: insertError } = await supabase
+        .from('staff_specializations')
+        .insert(added.map(grant => ({
+          staff_id: staffId,
+          category: grant.category || null,
+          service_id: grant.serviceId || null,
+          all_services: !!grant.allServices,
+        })));
+
+      if (insertError) throw new Error(`Failed to update specializations: ${insertError.message}`);
+    }
+
+    const removedIds = saved.filter(spec => !wantedKeys.has(grantKey(spec))).map(spec => spec.id);
+    if (removedIds.length > 0) {
+      const { error: deleteError } = await supabase
+        .from('staff_specializations')
+        .delete()
+        .in('id', removedIds);
+
+      if (deleteError) throw new Error(`Failed to update specializations: ${deleteError.message}`);
+    }
+  },
+};
@@ -0,0 +1,81 @@
+// src/repositories/stockMovements.ts
+import { StockMovement, StockMovementReason } from '@models/inventory';
+import { supabase } from '../supabaseClient';
+import { fullName, joinedRow } from './rows';
+
+export type NewStockMovement = Omit<StockMovement, 'id' | 'itemName' | 'recordedByName' | 'createdAt'>;
+
+export interface StockMovementFilter {
+  itemId?: string;
+  bookingId?: string;
+  limit?: number;
+}
+
+/**
+ * Maps a stock_movements row (with its item and user joins) to a StockMovement.
+ * @param row - The raw row from Supabase.
+ */
+export const mapStockMovementRow = (row: any): StockMovement => {
+  const item = joinedRow(row.inventory);
+  const recordedBy = joinedRow(row.users);
+  return {
+    id: row.id.toString(),
+    itemId: row.item_id.toString(),
+    itemName: item?.name || undefined,
+    quantity: parseFloat(row.quantity) || 0,
+    stockAfter: parseFloat(row.stock_after) || 0,
+    reason: row.reason as StockMovementReason,
+    bookingId: row.booking_id != null ? row.booking_id.toString() : undefined,
+    note: row.note || undefined,
+    recordedBy: row.recorded_by || undefined,
+    recordedByName: fullName(recordedBy) || undefined,
+    createdAt: row.created_at,
+  };
+};
+
+export const stockMovementsRepository = {
+  /**
+   * Loads the stock ledger, newest first.
+   * @param filter - Optional item, booking and maximum number of entries.
+   */
+  list: async (filter: StockMovementFilter = {}): Promise<StockMovement[]> => {
+    let query = supabase
+      .from('stock_movements')
+      .select('*, inventory:item_id (*), users:recorded_by (*)')
+      .order('created_at', { ascending: false });
+
+    if (filter.itemId) query = query.eq('item_id', filter.itemId);
+    if (filter.bookingId) query = query.eq('booking_id', filter.bookingId);
+    if (filter.limit) query = query.limit(filter.limit);
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('❌ Error fetching stock movements:', error);
+      throw new Error(`Failed to load stock movements: ${error.message}`);
+    }
+
+    return (data || []).map(mapStockMovementRow);
+  },
+
+  /**
+   * Adds an entry to the stock ledger.
+   * @param movement - The change in stock and why it happened.
+   */
+  record: async (movement: NewStockMovement): Promise<void> => {
+    const { error } = await supabase
+      .from('stock_movements')
+      .insert([{
+        item_id: movement.itemId,
+        quantity: movement.quantity,
+        stock_after: movement.stockAfter,
+        reason: movement.reason,
+        booking_id: movement.bookingId || null,
+        note: movement.note || null,
+        recorded_by: movement.recordedBy || null,
+        created_at: new Date().toISOString(),
+      }]);
+
+    if (error) throw new Error(`Failed to record stock movement: ${error.message}`);
+  },
+};
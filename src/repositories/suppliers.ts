@@ -0,0 +1,89 @@
+// src/repositories/suppliers.ts
+import { Supplier } from '@models/inventory';
+import { supabase } from '../supabaseClient';
+
+export type SupplierInput = Omit<Supplier, 'id' | 'createdAt'>;
+
+/**
+ * Maps a suppliers row to a Supplier.
+ * @param row - The raw row from Supabase.
+ */
+export const mapSupplierRow = (row: any): Supplier => ({
+  id: row.id.toString(),
+  name: row.name,
+  contactName: row.contact_name || undefined,
+  email: row.email || undefined,
+  phone: row.phone || undefined,
+  notes: row.notes || undefined,
+  createdAt: row.created_at,
+});
+
+const toSupplierColumns = (supplier: SupplierInput) => ({
+  name: supplier.name,
+  contact_name: supplier.contactName || null,
+  email: supplier.email || null,
+  phone: supplier.phone || null,
+  notes: supplier.notes || null,
+});
+
+export const suppliersRepository = {
+  /**
+   * Loads every supplier, by name.
+   */
+  getAll: async (): Promise<Supplier[]> => {
+    const { data, error } = await supabase
+      .from('suppliers')
+      .select('*')
+      .order('name', { ascending: true });
+
+    if (error) {
+      console.error('❌ Error fetching suppliers:', error);
+      throw new Error(`Failed to load suppliers: ${error.message}`);
+    }
+
+    return (data || []).map(mapSupplierRow);
+  },
+
+  /**
+   * Adds a supplier.
+   * @param supplier - The supplier's details.
+   */
+  create: async (supplier: SupplierInput): Promise<Supplier> => {
+    const { data, error } = await supabase
+      .from('suppliers')
+      .insert([{ ...toSupplierColumns(supplier), created_at: new Date().toISOString() }])
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to create supplier: ${error.message}`);
+
+    return mapSupplierRow(data);
+  },
+
+  /**
+   * Updates a supplier.
+   * @param id - The supplier's ID.
+   * @param supplier - The supplier's details.
+   */
+  update: async (id: string, supplier: SupplierInput): Promise<void> => {
+    const { error } = await supabase
+      .from('suppliers')
+      .update(toSupplierColumns(supplier))
+      .eq('id', id);
+
+    if (error) throw new Error(`Failed to update supplier: ${error.message}`);
+  },
+
+  /**
+   * Deletes a supplier.
+   * @param id - The supplier's ID.
+   */
+  delete: async (id: string): Promise<void> => {
+    const { error } = await supabase
+      .from('suppliers')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw new Error(`Failed to delete supplier: ${error.message}`);
+  },
+};
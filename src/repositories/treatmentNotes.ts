@@ -0,0 +1,64 @@
+// src/repositories/treatmentNotes.ts
+import { TreatmentNote } from '@models/treatment';
+import { supabase } from '../supabaseClient';
+import { fullName, joinedRow } from './rows';
+
+export type NewTreatmentNote = Omit<TreatmentNote, 'id' | 'writtenByName' | 'createdAt'>;
+
+/**
+ * Maps a treatment_notes row (with its users join) to a TreatmentNote.
+ * @param row - The raw row from Supabase.
+ */
+export const mapTreatmentNoteRow = (row: any): TreatmentNote => {
+  const writer = joinedRow(row.users);
+  return {
+    id: row.id.toString(),
+    bookingId: row.booking_id.toString(),
+    customerId: row.customer_id,
+    note: row.note || '',
+    productsUsed: row.products_used || undefined,
+    writtenBy: row.written_by || undefined,
+    writtenByName: fullName(writer) || undefined,
+    createdAt: row.created_at,
+  };
+};
+
+export const treatmentNotesRepository = {
+  /**
+   * Loads every treatment note kept about a customer, newest first.
+   * @param customerId - The customer's ID.
+   */
+  listForCustomer: async (customerId: string): Promise<TreatmentNote[]> => {
+    const { data, error } = await supabase
+      .from('treatment_notes')
+      .select('*, users:written_by (*)')
+      .eq('customer_id', customerId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('❌ Error fetching treatment notes:', error);
+      throw new Error(`Failed to load treatment notes: ${error.message}`);
+    }
+
+    return (data || []).map(mapTreatmentNoteRow);
+  },
+
+  /**
+   * Adds a treatment note to a visit.
+   * @param note - The note and the visit it belongs to.
+   */
+  create: async (note: NewTreatmentNote): Promise<void> => {
+    const { error } = await supabase
+      .from('treatment_notes')
+      .insert([{
+        booking_id: note.bookingId,
+        customer_id: note.customerId,
+        note: note.note,
+        products_used: note.productsUsed || null,
+        written_by: note.writtenBy || null,
+        created_at: new Date().toISOString(),
+      }]);
+
+    if (error) throw new Error(`Failed to save treatment note: ${error.message}`);
+  },
+};
@@ -0,0 +1,165 @@
+// src/repositories/users.ts
+import { User, UserRole } from '@models/user';
+import { supabase } from '../supabaseClient';
+import { contactPreferences } from './rows';
+
+// Postgres unique_violation: the profile row already exists
+const UNIQUE_VIOLATION = '23505';
+
+const AVATAR_BUCKET = 'avatars';
+
+export type UserProfileInput = Pick<User, 'id' | 'email' | 'firstName' | 'lastName' | 'role'>;
+
+export type UserChanges = Partial<Pick<
+  User,
+  'email' | 'firstName' | 'lastName' | 'role' | 'avatarUrl' | 'phone' | 'birthday' | 'allergies' | 'skinNotes' | 'contactPreferences'
+>>;
+
+/**
+ * Maps a users row to a User.
+ * @param row - The raw row from Supabase.
+ */
+export const mapUserRow = (row: any): User => ({
+  id: row.id.toString(),
+  email: row.email || '',
+  firstName: row.first_name || '',
+  lastName: row.last_name || '',
+  role: (row.role as UserRole) || 'customer',
+  avatarUrl: row.avatar_url || undefined,
+  phone: row.phone || undefined,
+  birthday: row.birthday || undefined,
+  allergies: row.allergies || undefined,
+  skinNotes: row.skin_notes || undefined,
+  contactPreferences: contactPreferences(row),
+  createdAt: row.created_at || undefined,
+});
+
+export const usersRepository = {
+  /**
+   * Loads one user's profile.
+   * @param id - The user's ID (same as their auth ID).
+   * @returns The user, or null when no profile exists yet.
+   */
+  getById: async (id: string): Promise<User | null> => {
+    const { data, error } = await supabase
+      .from('users')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('❌ Error fetching user profile:', error);
+      throw new Error(`Failed to load user profile: ${error.message}`);
+    }
+
+    return data ? mapUserRow(data) : null;
+  },
+
+  /**
+   * Loads every user with one of the given roles.
+   * @param roles - Roles to include.
+   * @param order - Alphabetical by first 'name' (default) or 'newest' first.
+   */
+  getByRoles: async (roles: UserRole[], order: 'name' | 'newest' = 'name'): Promise<User[]> => {
+    const { data, error } = await supabase
+      .from('users')
+      .select('*')
+      .in('role', roles)
+      .order(order === 'name' ? 'first_name' : 'created_at', { ascending: order === 'name' });
+
+    if (error) {
+      console.error('❌ Error fetching users:', error);
+      throw new Error(`Failed to load users: ${error.message}`);
+    }
+
+    return (data || []).map(mapUserRow);
+  },
+
+  /**
+   * Creates a user's profile row.
+   * @param profile - The profile; its ID must match the auth user's ID.
+   * @returns 'exists' when the profile was already there.
+   */
+  createProfile: async (profile: UserProfileInput): Promise<'created' | 'exists'> => {
+    const { error } = await supabase
+      .from('users')
+      .insert([{
+        id: profile.id,
+        email: profile.email,
+        first_name: profile.firstName,
+        last_name: profile.lastName,
+        role: profile.role,
+        created_at: new Date().toISOString(),
+      }]);
+
+    if (!error) return 'created';
+    if (error.code === UNIQUE_VIOLATION) return 'exists';
+    throw new Error(`Failed to create user profile: ${error.message}`);
+  },
+
+  /**
+   * Updates a user's profile.
+   * @param id - The user's ID.
+   * @param changes - The fields to change.
+   */
+  update: async (id: string, changes: UserChanges): Promise<void> => {
+    const columns: Record<string, any> = { updated_at: new Date().toISOString() };
+    if (changes.email) columns.email = changes.email;
+    if (changes.firstName) columns.first_name = changes.firstName;
+    if (changes.lastName) columns.last_name = changes.lastName;
+    if (changes.role) columns.role = changes.role;
+    // Profile details can be cleared, so an empty value is saved as null
+    if (changes.avatarUrl !== undefined) columns.avatar_url = changes.avatarUrl || null;
+    if (changes.phone !== undefined) columns.phone = changes.phone || null;
+    if (changes.birthday !== undefined) columns.birthday = changes.birthday || null;
+    if (changes.allergies !== undefined) columns.allergies = changes.allergies || null;
+    if (changes.skinNotes !== undefined) columns.skin_notes = changes.skinNotes || null;
+    if (changes.contactPreferences) columns.contact_preferences = changes.contactPreferences;
+
+    const { error } = await supabase
+      .from('users')
+      .update(columns)
+      .eq('id', id);
+
+    if (error) throw new Error(`Failed to update user: ${error.message}`);
+  },
+
+  /**
+   * Uploads a profile photo.
+   * @param userId - The user's ID; photos are kept in a folder per user.
+   * @param file - The image file.
+   * @returns The photo's public URL.
+   */
+  uploadAvatar: async (userId: string, file: File): Promise<string> => {
+    const fileExt = file.name.split('.').pop();
+    const filePath = `${userId}/${Date.now()}.${fileExt}`;
+
+    const { error } = await supabase.storage
+      .from(AVATAR_BUCKET)
+      .upload(filePath, file);
+
+    if (error) {
+      console.error('❌ Avatar upload error:', error);
+      throw new Error(`Photo upload failed: ${error.message}`);
+    }
+
+    const { data: { publicUrl } } = supabase.storage
+      .from(AVATAR_BUCKET)
+      .getPublicUrl(filePath);
+
+    return publicUrl;
+  },
+
+  /**
+   * Deletes a user's profile.
+   * @param id - The user's ID.
+   */
+  delete: async (id: string): Promise<void> => {
+    const { error } = await supabase
+      .from('users')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw new Error(`Failed to delete user: ${error.message}`);
+  },
+};
@@ -0,0 +1,168 @@
+// src/repositories/waitlist.ts
+import { WaitlistEntry, WaitlistOffer, WaitlistStatus } from '@models/waitlist';
+import { DEFAULT_DURATION_MINUTES } from '@utils/constants';
+import { supabase } from '../supabaseClient';
+import { fullName, joinedRow } from './rows';
+
+export type NewWaitlistEntry = Pick<
+  WaitlistEntry,
+  'customerId' | 'serviceId' | 'staffId' | 'date' | 'windowStart' | 'windowEnd' | 'notes'
+>;
+
+export interface WaitlistFilter {
+  customerId?: string;
+  serviceId?: string;
+  date?: string; // YYYY-MM-DD
+  statuses?: WaitlistStatus[];
+  offeredStaffId?: string;
+}
+
+export interface WaitlistStatusChange {
+  status: WaitlistStatus;
+  offer?: WaitlistOffer | null; // null withdraws the offer
+  bookingId?: string;
+}
+
+const WAITLIST_SELECT =
+  '*, customers:customer_id (*), services:service_id (*), staff:staff_id (*), offered_staff:offered_staff_id (*)';
+
+// Trims Postgres "HH:MM:SS" values to "HH:MM"
+const trimTime = (time: string): string => time.substring(0, 5);
+
+/**
+ * Maps a waitlist_entries row (with its customer, service and staff joins) to a WaitlistEntry.
+ * @param row - The raw row from Supabase.
+ */
+export const mapWaitlistRow = (row: any): WaitlistEntry => {
+  const service = joinedRow(row.services);
+  return {
+    id: row.id.toString(),
+    customerId: row.customer_id,
+    customerName: fullName(joinedRow(row.customers)) || undefined,
+    serviceId: row.service_id.toString(),
+    serviceName: service?.service_name || 'Unknown Service',
+    servicePrice: service?.price != null ? parseFloat(service.price) : 0,
+    durationMinutes: service?.duration || DEFAULT_DURATION_MINUTES,
+    staffId: row.staff_id || undefined,
+    staffName: fullName(joinedRow(row.staff)) || undefined,
+    date: row.date,
+    windowStart: trimTime(row.window_start),
+    windowEnd: trimTime(row.window_end),
+    notes: row.notes || undefined,
+    status: row.status as WaitlistStatus,
+    offer: row.offered_time && row.offered_staff_id && row.offer_expires_at
+      ? {
+        time: trimTime(row.offered_time),
+        staffId: row.offered_staff_id,
+        staffName: fullName(joinedRow(row.offered_staff)) || undefined,
+        expiresAt: row.offer_expires_at,
+      }
+      : undefined,
+    bookingId: row.booking_id != null ? row.booking_id.toString() : undefined,
+    createdAt: row.created_at,
+  };
+};
+
+export const waitlistRepository = {
+  /**
+   * Loads waitlist entries in the order customers joined, so the first in line comes first.
+   * @param filter - Optional customer, service, date, statuses and offered staff member.
+   */
+  list: async (filter: WaitlistFilter = {}): Promise<WaitlistEntry[]> => {
+    let query = supabase
+      .from('waitlist_entries')
+      .select(WAITLIST_SELECT)
+      .order('created_at', { ascending: true });
+
+    if (filter.customerId) query = query.eq('customer_id', filter.customerId);
+    if (filter.serviceId) query = query.eq('service_id', filter.serviceId);
+    if (filter.date) query = query.eq('date', filter.date);
+    if (filter.statuses && filter.statuses.length > 0) query = query.in('status', filter.statuses);
+    if (filter.offeredStaffId) query = query.eq('offered_staff_id', filter.offeredStaffId);
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('❌ Error fetching waitlist:', error);
+      throw new Error(`Failed to load the waitlist: ${error.message}`);
+    }
+
+    return (data || []).map(mapWaitlistRow);
+  },
+
+  /**
+   * Loads one waitlist entry.
+   * @param id - The entry's ID.
+   */
+  getById: async (id: string): Promise<WaitlistEntry | null> => {
+    const { data, error } = await supabase
+      .from('waitlist_entries')
+      .select(WAITLIST_SELECT)
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to load waitlist entry: ${error.message}`);
+
+    return data ? mapWaitlistRow(data) : null;
+  },
+
+  /**
+   * Adds a customer to the waitlist.
+   * @param entry - The service, preferred staff member, date and time window.
+   * @returns The new entry's ID.
+   */
+  create: async (entry: NewWaitlistEntry): Promise<string> => {
+    const { data, error } = await supabase
+      .from('waitlist_entries')
+      .insert([{
+        customer_id: entry.customerId,
+        service_id: entry.serviceId,
+        staff_id: entry.staffId || null,
+        date: entry.date,
+        window_start: entry.windowStart,
+        window_end: entry.windowEnd,
+        notes: entry.notes || null,
+        status: 'waiting',
+        offered_time: null,
+        offered_staff_id: null,
+        offer_expires_at: null,
+        booking_id: null,
+        created_at: new Date().toISOString(),
+      }])
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to join the waitlist: ${error.message}`);
+
+    return data.id.toString();
+  },
+
+  /**
+   * Moves an entry to a new status, only if it is still in the expected one, so two
+   * cancellations (or a claim and an expiry) can't both act on the same entry.
+   * @param id - The entry's ID.
+   * @param fromStatuses - The statuses the entry must currently be in.
+   * @param change - The new status, with the offer or booking that goes with it.
+   * @returns False when the entry had already moved on.
+   */
+  transition: async (id: string, fromStatuses: WaitlistStatus[], change: WaitlistStatusChange): Promise<boolean> => {
+    const columns: Record<string, any> = { status: change.status };
+    if (change.offer !== undefined) {
+      columns.offered_time = change.offer?.time || null;
+      columns.offered_staff_id = change.offer?.staffId || null;
+      columns.offer_expires_at = change.offer?.expiresAt || null;
+    }
+    if (change.bookingId !== undefined) columns.booking_id = change.bookingId;
+
+    const { data, error } = await supabase
+      .from('waitlist_entries')
+      .update(columns)
+      .eq('id', id)
+      .in('status', fromStatuses)
+      .select('id');
+
+    if (error) throw new Error(`Failed to update waitlist entry: ${error.message}`);
+
+    return (data || []).length > 0;
+  },
+};
@@ -17,18 +17,25 @@ import CustomerDashboard from '@pages/customer/Dashboard';
 import ViewServicesCustomer from '@pages/customer/ViewServices';
 import BookAppointment from '@pages/customer/BookAppointment';
 import CancelReschedule from '@pages/customer/CancelReschedule';
+import Waitlist from '@pages/customer/Waitlist';
+import Packages from '@pages/customer/Packages';
 import Notifications from '@pages/customer/Notifications';
+import CustomerProfile from '@pages/customer/Profile';
 
 // Staff Pages
 import StaffDashboard from '@pages/staff/Dashboard';
 import CheckSchedule from '@pages/staff/CheckSchedule';
 import UpdateStatus from '@pages/staff/UpdateStatus';
+import PointOfSale from '@pages/staff/PointOfSale';
 
 // Admin Pages
 import AdminDashboard from '@pages/admin/Dashboard';
 import ManageInventory from '@pages/admin/ManageInventory';
+import ManageSuppliers from '@pages/admin/ManageSuppliers';
+import PurchaseOrders from '@pages/admin/PurchaseOrders';
 import ManageServices from '@pages/admin/ManageServices';
 import ManageStaff from '@pages/admin/ManageStaff';
+import ManageStaffSchedules from '@pages/admin/ManageStaffSchedules';
 import ManageBookings from '@pages/admin/ManageBookings';
 import GenerateReports from '@pages/admin/GenerateReports';
 
@@ -108,7 +115,10 @@ const AppRouter: React.FC = () => {
             <Route path="services" element={<ViewServicesCustomer />} />
             <Route path="book" element={<BookAppointment />} />
             <Route path="manage-bookings" element={<CancelReschedule />} />
+            <Route path="waitlist" element={<Waitlist />} />
+            <Route path="packages" element={<Packages />} />
             <Route path="notifications" element={<Notifications />} />
+            <Route path="profile" element={<CustomerProfile />} />
           </Route>
         </Route>
 
@@ -119,6 +129,7 @@ const AppRouter: React.FC = () => {
             <Route path="dashboard" element={<StaffDashboard />} />
             <Route path="schedule" element={<CheckSchedule />} />
             <Route path="update-status" element={<UpdateStatus />} />
+            <Route path="pos" element={<PointOfSale />} />
           </Route>
         </Route>
 
@@ -128,8 +139,11 @@ const AppRouter: React.FC = () => {
             <Route index element={<AdminDashboard />} />
             <Route path="dashboard" element={<AdminDashboard />} />
             <Route path="inventory" element={<ManageInventory />} />
+            <Route path="suppliers" element={<ManageSuppliers />} />
+            <Route path="purchase-orders" element={<PurchaseOrders />} />
             <Route path="services" element={<ManageServices />} />
             <Route path="staff" element={<ManageStaff />} />
+            <Route path="staff-schedules" element={<ManageStaffSchedules />} />
             <Route path="bookings" element={<ManageBookings />} />
             <Route path="reports" element={<GenerateReports />} />
           </Route>
@@ -1,6 +1,10 @@
-import { createClient } from '@supabase/supabase-js'
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL as string
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY as string
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey)
\ No newline at end of file
+// Set VITE_USE_MOCK_BACKEND=true to run against in-memory fixture data instead of a Supabase project.
+// The mocks are only imported in that case, so they stay out of production builds.
+export const supabase: SupabaseClient = import.meta.env.VITE_USE_MOCK_BACKEND === 'true'
+  ? (await import('./mocks/mockSupabase')).createMockSupabaseClient()
+  : createClient(supabaseUrl, supabaseAnonKey)
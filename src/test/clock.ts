@@ -0,0 +1,7 @@
+// src/test/clock.ts
+// Tests run on a fixed clock, so fixture dates, booking notice and "today" come out the same on every run.
+
+// Wednesday 11 March 2026, 09:00 local time
+export const TEST_NOW = new Date(2026, 2, 11, 9, 0);
+
+export const TEST_TODAY = '2026-03-11';
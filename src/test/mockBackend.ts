@@ -0,0 +1,21 @@
+// src/test/mockBackend.ts
+import { SupabaseClient } from '@supabase/supabase-js';
+import { MockTables } from '../mocks/fixtures';
+import { createMockSupabaseClient } from '../mocks/mockSupabase';
+
+let client: SupabaseClient = createMockSupabaseClient();
+
+/**
+ * Stands in for the app's `supabase` client in tests, passing every call on to the current mock.
+ */
+export const mockBackend = new Proxy<SupabaseClient>(client, {
+  get: (_target, key) => Reflect.get(client, key),
+});
+
+/**
+ * Starts the mock backend again from clean data.
+ * @param tables - Optional seed data; defaults to the standard fixtures.
+ */
+export const resetMockBackend = (tables?: MockTables): void => {
+  client = createMockSupabaseClient(tables);
+};
@@ -0,0 +1,19 @@
+// src/test/setup.ts
+// Points the app's Supabase client at the in-memory mock backend, with fresh fixture data for every test,
+// and stops the clock at TEST_NOW. Only Date is faked, so timers and promises run as usual.
+import { beforeEach, vi } from 'vitest';
+import { TEST_NOW } from './clock';
+import { resetMockBackend } from './mockBackend';
+
+vi.mock('../supabaseClient', async () => {
+  const { mockBackend } = await import('./mockBackend');
+  return { supabase: mockBackend };
+});
+
+vi.useFakeTimers({ toFake: ['Date'] });
+vi.setSystemTime(TEST_NOW);
+
+beforeEach(() => {
+  vi.setSystemTime(TEST_NOW);
+  resetMockBackend();
+});
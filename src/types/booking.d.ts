@@ -1,24 +1,119 @@
 // src/types/booking.d.ts
-export type BookingStatus = 'pending' | 'confirmed' | 'cancelled' | 'completed';
+import { ServiceCategory } from './service';
+import { ContactPreferences, UserRole } from './user';
+
+export type BookingStatus = 'pending' | 'confirmed' | 'in_progress' | 'completed' | 'cancelled' | 'no_show';
 
 export interface Booking {
   id: string;
   serviceId: string;
   serviceName: string;
+  servicePrice: number; // The service's list price; `price` is what this booking costs
+  serviceCategory?: ServiceCategory;
+  serviceAvailableDays?: string[];
+  durationMinutes: number;
   customerId: string;
   customerName: string;
+  customerEmail: string;
+  customerPhone?: string;
+  customerAvatarUrl?: string;
+  customerBirthday?: string; // YYYY-MM-DD
+  customerAllergies?: string;
+  customerSkinNotes?: string;
+  customerContactPreferences: ContactPreferences;
   staffId?: string; // Optional if not assigned yet
   staffName?: string;
-  startTime: string; // ISO string e.g., "2023-10-27T10:00:00Z"
+  staffEmail?: string;
+  staffAutoAssigned: boolean; // Picked by the "any available staff" option
+  bookingDate: string; // YYYY-MM-DD
+  bookingTime: string; // HH:MM or HH:MM:SS
+  startTime: string; // ISO string e.g., "2023-10-27T10:00:00"
   endTime: string;   // ISO string
   status: BookingStatus;
   notes?: string;
   price: number;
+  rescheduleCount: number; // Times the date or time has been changed
+  seriesId?: string; // Set when the booking is one occurrence of a recurring series
+  seriesFrequency?: SeriesFrequency;
+  visitId?: string; // Set when the booking is one service of a multi-service visit
+  revision: number; // Goes up by one every time the booking is updated
+  createdAt?: string; // ISO string
+  updatedAt?: string; // ISO string
 }
 
 export interface NewBookingPayload {
   serviceId: string;
-  startTime: string;
-  endTime: string;
+  customerId: string;
+  staffId: string;
+  staffAutoAssigned?: boolean;
+  bookingDate: string;
+  bookingTime: string;
+  totalPrice: number;
+  notes?: string;
+  seriesId?: string;
+  visitId?: string;
+}
+
+// Fields that can change on an existing booking
+export interface BookingChanges {
+  staffId?: string | null;
+  staffAutoAssigned?: boolean;
+  bookingDate?: string;
+  bookingTime?: string;
+  status?: BookingStatus;
   notes?: string;
-}
\ No newline at end of file
+  rescheduleCount?: number;
+}
+
+// One entry in a booking's status history
+export interface BookingStatusChange {
+  id: string;
+  bookingId: string;
+  fromStatus?: BookingStatus; // Missing on the entry recorded when the booking was made
+  toStatus: BookingStatus;
+  changedBy?: string; // User ID
+  changedByName?: string;
+  changedByRole: UserRole;
+  note?: string;
+  createdAt: string; // ISO string
+}
+
+// What happens to the money when a booking is cancelled too close to its start
+export type LateCancellationPenalty = 'none' | 'forfeit_deposit' | 'fee';
+
+// The salon's rules for cancelling and rescheduling
+export interface BookingPolicy {
+  cancelNoticeHours: number; // Cancelling with less notice than this is a late cancellation
+  rescheduleNoticeHours: number; // Rescheduling needs at least this much notice
+  maxReschedules?: number; // Missing means no limit
+  lateCancellationPenalty: LateCancellationPenalty;
+  lateCancellationFeeRate: number; // Share of the price charged, for the 'fee' penalty
+  updatedAt?: string; // ISO string
+}
+
+// How often a recurring series repeats
+export type SeriesFrequency = 'weekly' | 'every_2_weeks' | 'every_3_weeks' | 'every_4_weeks' | 'monthly';
+
+// The rule a recurring series of bookings was created from
+export interface BookingSeries {
+  id: string;
+  customerId: string;
+  serviceId: string;
+  frequency: SeriesFrequency;
+  startDate: string; // YYYY-MM-DD
+  bookingTime: string; // HH:MM
+  endDate?: string; // YYYY-MM-DD; set when the series ends on a date
+  occurrenceCount?: number; // Set when the series ends after a number of appointments
+  createdBy?: string; // User ID
+  createdAt: string; // ISO string
+}
+
+// Several services booked together for one visit, each its own booking, back to back
+export interface BookingVisit {
+  id: string;
+  customerId: string;
+  visitDate: string; // YYYY-MM-DD
+  startTime: string; // HH:MM, when the first service starts
+  createdBy?: string; // User ID
+  createdAt: string; // ISO string
+}
@@ -1,4 +1,14 @@
 // src/types/index.d.ts
 export * from './user';
 export * from './booking';
-export * from './service';
\ No newline at end of file
+export * from './service';
+export * from './schedule';
+export * from './staff';
+export * from './notification';
+export * from './reminder';
+export * from './inventory';
+export * from './payment';
+export * from './treatment';
+export * from './retail';
+export * from './waitlist';
+export * from './package';
\ No newline at end of file
@@ -0,0 +1,80 @@
+// src/types/inventory.d.ts
+export interface InventoryItem {
+  id: string;
+  name: string;
+  category: string;
+  price: number; // Selling price
+  costPrice?: number; // What we pay the supplier per unit
+  stock: number;
+  unit: string; // Unit of measure, e.g. "pcs", "bottle", "kg"
+  reorderPoint?: number; // Low-stock alert when stock falls to this level or below
+  reorderQuantity?: number; // How many to order at a time
+  supplierId?: string;
+  supplierName?: string;
+  createdAt: string; // ISO string
+  updatedAt: string; // ISO string
+}
+
+export interface Supplier {
+  id: string;
+  name: string;
+  contactName?: string;
+  email?: string;
+  phone?: string;
+  notes?: string;
+  createdAt: string; // ISO string
+}
+
+export type PurchaseOrderStatus = 'draft' | 'ordered' | 'partially_received' | 'received' | 'cancelled';
+
+export interface PurchaseOrderLine {
+  id: string;
+  purchaseOrderId: string;
+  itemId: string;
+  itemName?: string;
+  unit?: string;
+  quantityOrdered: number;
+  quantityReceived: number;
+  unitCost: number;
+}
+
+export interface PurchaseOrder {
+  id: string;
+  supplierId: string;
+  supplierName?: string;
+  status: PurchaseOrderStatus;
+  expectedDate?: string; // YYYY-MM-DD
+  notes?: string;
+  createdBy?: string; // User ID
+  orderedAt?: string; // ISO string
+  receivedAt?: string; // ISO string, when the last item arrived
+  createdAt: string; // ISO string
+  lines: PurchaseOrderLine[];
+}
+
+// Why stock changed: sold over the counter, used up by a service, delivered, counted or thrown away
+export type StockMovementReason = 'sale' | 'usage' | 'restock' | 'adjustment' | 'waste';
+
+// One line of the stock ledger
+export interface StockMovement {
+  id: string;
+  itemId: string;
+  itemName?: string;
+  quantity: number; // Positive when stock came in, negative when it went out
+  stockAfter: number;
+  reason: StockMovementReason;
+  bookingId?: string; // For usage by a completed booking
+  note?: string;
+  recordedBy?: string; // User ID
+  recordedByName?: string;
+  createdAt: string; // ISO string
+}
+
+// How much of an inventory item one booking of a service uses up
+export interface ServiceMaterial {
+  id: string;
+  serviceId: string;
+  itemId: string;
+  itemName?: string;
+  quantity: number;
+}
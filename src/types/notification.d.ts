@@ -0,0 +1,20 @@
+// src/types/notification.d.ts
+export type NotificationType =
+  | 'booking_created'
+  | 'booking_confirmed'
+  | 'booking_rescheduled'
+  | 'booking_cancelled'
+  | 'booking_completed'
+  | 'booking_no_show'
+  | 'booking_reminder'
+  | 'waitlist_offer';
+
+export interface Notification {
+  id: string;
+  userId: string; // Recipient
+  bookingId?: string;
+  type: NotificationType;
+  message: string;
+  read: boolean;
+  createdAt: string; // ISO string
+}
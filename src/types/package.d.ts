@@ -0,0 +1,54 @@
+// src/types/package.d.ts
+import { PaymentMethod } from './payment';
+
+// A bundle is several different services for one price; a session card is several sessions of one service
+export type PackageKind = 'bundle' | 'session_card';
+
+// A service included in a package and how many times
+export interface PackageItem {
+  serviceId: string;
+  serviceName?: string;
+  servicePrice?: number; // The service's usual price, for showing the saving
+  sessions: number;
+}
+
+// Something customers can buy ahead and redeem when booking
+export interface ServicePackage {
+  id: string;
+  name: string;
+  description?: string;
+  kind: PackageKind;
+  price: number;
+  validityDays?: number; // Days a bought card can be used for; missing means it never expires
+  isActive: boolean; // Inactive packages can't be bought, but cards already sold still work
+  items: PackageItem[];
+  createdAt: string; // ISO string
+}
+
+// The sessions of one service on a bought card
+export interface SessionCardItem {
+  id: string;
+  cardId: string;
+  serviceId: string;
+  serviceName?: string;
+  sessions: number;
+  remaining: number;
+  unitValue: number; // The card's price spread over its sessions; what each redemption is worth
+}
+
+// A package a customer bought, and what's left on it
+export interface SessionCard {
+  id: string;
+  packageId: string;
+  packageName?: string;
+  kind: PackageKind;
+  customerId: string;
+  customerName?: string;
+  price: number; // What the customer paid
+  paymentMethod: PaymentMethod;
+  reference?: string; // Gateway transaction ID; empty for cash
+  soldBy?: string; // User ID
+  expiresAt?: string; // YYYY-MM-DD, the last day it can be booked for
+  purchasedAt: string; // ISO string
+  items: SessionCardItem[];
+}
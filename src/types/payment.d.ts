@@ -0,0 +1,29 @@
+// src/types/payment.d.ts
+export type PaymentMethod = 'cash' | 'card' | 'e_wallet';
+
+// A redemption is a booking paid for with a session from a prepaid package
+export type PaymentKind = 'deposit' | 'payment' | 'redemption' | 'refund';
+
+export interface Payment {
+  id: string;
+  bookingId: string;
+  kind: PaymentKind;
+  method: PaymentMethod;
+  amount: number; // Always positive; refunds are subtracted when totalling
+  reference?: string; // Gateway transaction ID; empty for cash
+  refundOf?: string; // For refunds, the ID of the payment being returned
+  sessionCardItemId?: string; // For redemptions and their refunds, the prepaid sessions used
+  recordedBy?: string; // User ID
+  serviceName?: string; // The booked service, when loaded with the booking
+  bookingDate?: string; // YYYY-MM-DD, when loaded with the booking
+  createdAt: string; // ISO string
+}
+
+// Where a booking stands on payment
+export interface PaymentSummary {
+  price: number;
+  paid: number; // Deposits and payments
+  refunded: number;
+  collected: number; // Paid minus refunded
+  balanceDue: number; // Price minus collected; never below zero
+}
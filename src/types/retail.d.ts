@@ -0,0 +1,42 @@
+// src/types/retail.d.ts
+import { PaymentMethod } from './payment';
+import { Product } from './service';
+
+export type DiscountType = 'amount' | 'percent';
+
+export interface SaleDiscount {
+  type: DiscountType;
+  value: number; // Pesos off, or a percentage from 0 to 100
+}
+
+// A product in the POS cart
+export interface CartLine {
+  product: Product;
+  quantity: number;
+}
+
+export interface RetailSaleLine {
+  id: string;
+  saleId: string;
+  itemId: string;
+  productName?: string;
+  quantity: number;
+  unitPrice: number; // The price charged, before the sale's discount
+  lineTotal: number;
+}
+
+export interface RetailSale {
+  id: string;
+  bookingId?: string; // Set when the products were added to an appointment
+  customerId?: string;
+  customerName?: string;
+  soldBy?: string; // User ID
+  soldByName?: string;
+  subtotal: number;
+  discount: number; // Pesos taken off the subtotal
+  total: number;
+  paymentMethod: PaymentMethod;
+  reference?: string; // Gateway transaction ID; empty for cash
+  createdAt: string; // ISO string
+  lines: RetailSaleLine[];
+}
@@ -0,0 +1,25 @@
+// src/types/schedule.d.ts
+
+// 0 = Sunday ... 6 = Saturday, matching Date.getDay()
+export type DayOfWeek = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+export interface WorkingHours {
+  staffId: string;
+  dayOfWeek: DayOfWeek;
+  isWorking: boolean;
+  startTime: string; // "HH:MM"
+  endTime: string;   // "HH:MM"
+  breakStart?: string; // Optional lunch break
+  breakEnd?: string;
+}
+
+export type TimeOffType = 'holiday' | 'leave';
+
+export interface TimeOff {
+  id: string;
+  staffId?: string; // Omitted for salon-wide holidays
+  startDate: string; // YYYY-MM-DD, inclusive
+  endDate: string;   // YYYY-MM-DD, inclusive
+  type: TimeOffType;
+  reason?: string;
+}
@@ -1,19 +1,22 @@
 // src/types/service.d.ts
+export type ServiceCategory = 'facial' | 'massage' | 'nail' | 'hair' | 'waxing' | 'other';
+
 export interface Service {
   id: string;
   name: string;
   description: string;
   price: number;
   durationMinutes: number;
-  category: 'facial' | 'massage' | 'nail' | 'hair' | 'waxing' | 'other';
+  category: ServiceCategory;
   imageUrl?: string;
   availableDays?: string[]; // e.g., ["Monday", "Wednesday", "Friday"]
 }
 
+// A retail product as sold at the point of sale; backed by an inventory item
 export interface Product {
   id: string;
   name: string;
-  description: string;
+  description?: string;
   price: number;
   stock: number;
   imageUrl?: string;
@@ -0,0 +1,26 @@
+// src/types/staff.d.ts
+import { ServiceCategory } from './service';
+
+// Links a staff member to a whole service category, a single service, or every service
+export interface StaffSpecialization {
+  id: string;
+  staffId: string;
+  category?: ServiceCategory;
+  serviceId?: string;
+  allServices?: boolean; // Set on the one row that lifts every restriction
+}
+
+// What a staff member can be booked for: everything, or the listed categories and services
+export interface SpecializationSelection {
+  allServices: boolean;
+  categories: ServiceCategory[];
+  serviceIds: string[];
+}
+
+// A commission rate for a staff member, a service category, or one staff member in one category
+export interface CommissionRule {
+  id: string;
+  staffId?: string; // Omitted for a rule covering every staff member
+  category?: ServiceCategory; // Omitted for a rule covering every category
+  rate: number; // Fraction of revenue, e.g. 0.15 for 15%
+}
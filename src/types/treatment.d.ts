@@ -0,0 +1,21 @@
+// src/types/treatment.d.ts
+import { Booking } from './booking';
+
+// A private note staff keep about a treatment, e.g. a colour formula or a reaction to watch for.
+// Only staff and admins see these; customers never do.
+export interface TreatmentNote {
+  id: string;
+  bookingId: string;
+  customerId: string;
+  note: string;
+  productsUsed?: string; // e.g. "Glycolic peel 20%, hyaluronic serum"
+  writtenBy?: string; // User ID
+  writtenByName?: string;
+  createdAt: string; // ISO string
+}
+
+// A past appointment on a client card, with the notes kept about it
+export interface ClientVisit {
+  booking: Booking;
+  notes: TreatmentNote[];
+}
@@ -1,6 +1,13 @@
 // src/types/user.d.ts
 export type UserRole = 'customer' | 'staff' | 'admin';
 
+// How a customer agrees to be contacted outside the app
+export interface ContactPreferences {
+  email: boolean; // Booking updates and reminders by email
+  sms: boolean; // Booking updates and reminders by text message
+  promotions: boolean; // Offers and news
+}
+
 export interface User {
   id: string;
   email: string;
@@ -8,6 +15,12 @@ export interface User {
   lastName: string;
   role: UserRole;
   avatarUrl?: string;
+  phone?: string;
+  birthday?: string; // YYYY-MM-DD
+  allergies?: string; // Shown to staff before a treatment
+  skinNotes?: string; // Skin type, sensitivities, etc.
+  contactPreferences: ContactPreferences;
+  createdAt?: string; // ISO string
 }
 
 // For login response
@@ -0,0 +1,33 @@
+// src/types/waitlist.d.ts
+
+// waiting → offered → booked, or expired/cancelled along the way
+export type WaitlistStatus = 'waiting' | 'offered' | 'booked' | 'expired' | 'cancelled';
+
+// A freed time held for a waitlisted customer until it is claimed or the hold runs out
+export interface WaitlistOffer {
+  time: string; // HH:MM on the entry's date
+  staffId: string;
+  staffName?: string;
+  expiresAt: string; // ISO string
+}
+
+// A customer waiting for a time to open up for a service on a day
+export interface WaitlistEntry {
+  id: string;
+  customerId: string;
+  customerName?: string;
+  serviceId: string;
+  serviceName: string;
+  servicePrice: number;
+  durationMinutes: number;
+  staffId?: string; // Preferred staff member; missing means anyone qualified
+  staffName?: string;
+  date: string; // YYYY-MM-DD
+  windowStart: string; // HH:MM, the earliest start the customer can make
+  windowEnd: string; // HH:MM, the latest start
+  notes?: string;
+  status: WaitlistStatus;
+  offer?: WaitlistOffer;
+  bookingId?: string; // The booking made by claiming the offer
+  createdAt: string; // ISO string
+}
@@ -0,0 +1,155 @@
+// src/utils/availability.test.ts
+import { describe, expect, it, vi } from 'vitest';
+import { STAFF_ANA_ID, STAFF_MARIA_ID } from '../mocks/fixtures';
+import { TEST_TODAY } from '../test/clock';
+import {
+  checkStaffAvailability,
+  findConflicts,
+  findLeastLoadedAvailableStaff,
+  getAvailableTimeSlots,
+  getAvailableTimeSlotsForAnyStaff,
+  toInterval,
+} from './availability';
+import { addDays } from './helpers';
+import { addTimeOff, getDayOfWeek, saveWeeklyHours } from './staffSchedule';
+
+// Ana has a 30-minute waxing at 13:00 on this day (booking 7)
+const waxingDay = addDays(TEST_TODAY, 2);
+
+// Every half hour from 09:00 to 17:00: the last hour-long slot in a default 09:00–18:00 day
+const ALL_DAY = Array.from({ length: 17 }, (_, index) =>
+  `${String(9 + Math.floor(index / 2)).padStart(2, '0')}:${index % 2 === 0 ? '00' : '30'}`
+);
+
+describe('findConflicts', () => {
+  const massage = { id: '1', bookingTime: '10:00:00', durationMinutes: 90, serviceName: 'Swedish Massage' };
+
+  it('catches a booking that starts during a longer one', () => {
+    expect(findConflicts(toInterval('10:30', 60), [massage])).toEqual([massage]);
+  });
+
+  it('lets back-to-back bookings through', () => {
+    expect(findConflicts(toInterval('11:30', 60), [massage])).toEqual([]);
+    expect(findConflicts(toInterval('09:00', 60), [massage])).toEqual([]);
+  });
+});
+
+describe('getAvailableTimeSlots', () => {
+  it('leaves out times that overlap a booking', async () => {
+    const slots = await getAvailableTimeSlots({ staffId: STAFF_ANA_ID, date: waxingDay, durationMinutes: 60 });
+
+    expect(slots).toEqual(ALL_DAY.filter(time => time !== '12:30' && time !== '13:00'));
+  });
+
+  it('offers the times of the booking being rescheduled', async () => {
+    const slots = await getAvailableTimeSlots({ staffId: STAFF_ANA_ID, date: waxingDay, durationMinutes: 60, excludeBookingId: '7' });
+
+    expect(slots).toEqual(ALL_DAY);
+  });
+
+  it('keeps to saved working hours and breaks', async () => {
+    await saveWeeklyHours([{
+      staffId: STAFF_ANA_ID,
+      dayOfWeek: getDayOfWeek(waxingDay),
+      isWorking: true,
+      startTime: '10:00',
+      endTime: '14:00',
+      breakStart: '12:00',
+      breakEnd: '12:30',
+    }]);
+
+    const slots = await getAvailableTimeSlots({ staffId: STAFF_ANA_ID, date: waxingDay, durationMinutes: 60 });
+
+    expect(slots).toEqual(['10:00', '10:30', '11:00']);
+  });
+
+  it('has nothing on a day off', async () => {
+    await saveWeeklyHours([{ staffId: STAFF_MARIA_ID, dayOfWeek: getDayOfWeek(waxingDay), isWorking: false, startTime: '09:00', endTime: '18:00' }]);
+    await addTimeOff({ staffId: STAFF_ANA_ID, startDate: waxingDay, endDate: addDays(waxingDay, 1), type: 'leave' });
+
+    expect(await getAvailableTimeSlots({ staffId: STAFF_MARIA_ID, date: waxingDay, durationMinutes: 60 })).toEqual([]);
+    expect(await getAvailableTimeSlots({ staffId: STAFF_ANA_ID, date: addDays(waxingDay, 1), durationMinutes: 60 })).toEqual([]);
+  });
+
+  it('has nothing on a day the service is not offered', async () => {
+    // waxingDay is a Friday
+    expect(await getAvailableTimeSlots({ staffId: STAFF_MARIA_ID, date: waxingDay, durationMinutes: 90, availableDays: ['Saturday', 'Sunday'] }))
+      .toEqual([]);
+    expect(await getAvailableTimeSlots({ staffId: STAFF_MARIA_ID, date: waxingDay, durationMinutes: 90, availableDays: ['Friday'] }))
+      .not.toEqual([]);
+  });
+
+  it('starts from the next slot when booking for today', async () => {
+    vi.setSystemTime(new Date(2026, 2, 11, 10, 10));
+
+    const slots = await getAvailableTimeSlots({ staffId: STAFF_ANA_ID, date: TEST_TODAY, durationMinutes: 60 });
+
+    expect(slots[0]).toBe('10:30');
+    expect(await getAvailableTimeSlots({ staffId: STAFF_ANA_ID, date: addDays(TEST_TODAY, -1), durationMinutes: 60 }))
+      .toEqual(ALL_DAY);
+  });
+});
+
+describe('checkStaffAvailability', () => {
+  it('names the booking in the way', async () => {
+    const result = await checkStaffAvailability({ staffId: STAFF_ANA_ID, date: waxingDay, time: '12:45', durationMinutes: 30 });
+
+    expect(result).toMatchObject({ available: false, reason: 'The selected staff member is already booked at 13:00–13:30.' });
+    expect(result.conflicts.map(conflict => conflict.id)).toEqual(['7']);
+  });
+
+  it("ignores the booking being moved and bookings that don't block the slot", async () => {
+    expect((await checkStaffAvailability({
+      staffId: STAFF_ANA_ID, date: waxingDay, time: '13:00', durationMinutes: 30, excludeBookingId: '7',
+    })).available).toBe(true);
+
+    // Booking 4 was cancelled
+    expect((await checkStaffAvailability({
+      staffId: STAFF_MARIA_ID, date: addDays(TEST_TODAY, -2), time: '15:30', durationMinutes: 60,
+    })).available).toBe(true);
+  });
+
+  it('refuses a service that runs past the end of the day', async () => {
+    const result = await checkStaffAvailability({ staffId: STAFF_ANA_ID, date: waxingDay, time: '17:30', durationMinutes: 60 });
+
+    expect(result.available).toBe(false);
+    expect(result.reason).toBe('The selected staff member is not working for the full length of this service at that time.');
+  });
+
+  it('refuses every booking on a salon holiday', async () => {
+    await addTimeOff({ startDate: waxingDay, endDate: waxingDay, type: 'holiday', reason: 'Founders day' });
+
+    const result = await checkStaffAvailability({ staffId: STAFF_MARIA_ID, date: waxingDay, time: '10:00', durationMinutes: 60 });
+
+    expect(result).toMatchObject({ available: false, reason: 'The salon is closed for a holiday on this date.' });
+  });
+});
+
+describe('auto-assignment', () => {
+  // Ben's visit day: Ana has a 90-minute massage at 13:00 and Maria a 60-minute facial at 14:30
+  const visitDay = addDays(TEST_TODAY, 8);
+
+  it('offers a time when any of the staff members is free', async () => {
+    const slots = await getAvailableTimeSlotsForAnyStaff([STAFF_ANA_ID, STAFF_MARIA_ID], { date: waxingDay, durationMinutes: 60 });
+
+    expect(slots).toEqual(ALL_DAY);
+  });
+
+  it('picks whoever has the fewest minutes booked that day', async () => {
+    const staffId = await findLeastLoadedAvailableStaff([STAFF_ANA_ID, STAFF_MARIA_ID], { date: visitDay, time: '09:00', durationMinutes: 60 });
+
+    expect(staffId).toBe(STAFF_MARIA_ID);
+  });
+
+  it('skips a less busy staff member who is taken at that time', async () => {
+    const staffId = await findLeastLoadedAvailableStaff([STAFF_ANA_ID, STAFF_MARIA_ID], { date: visitDay, time: '14:30', durationMinutes: 60 });
+
+    expect(staffId).toBe(STAFF_ANA_ID);
+  });
+
+  it('returns null when nobody is free', async () => {
+    const staffId = await findLeastLoadedAvailableStaff([STAFF_MARIA_ID], { date: visitDay, time: '14:30', durationMinutes: 60 });
+
+    expect(staffId).toBeNull();
+  });
+});
@@ -0,0 +1,375 @@
+// src/utils/availability.ts
+import { Booking, BookingStatus } from '@models/booking';
+import { TimeOff, WorkingHours } from '@models/schedule';
+import { WaitlistEntry } from '@models/waitlist';
+import { bookingsRepository } from '@repositories/bookings';
+import { waitlistRepository } from '@repositories/waitlist';
+import { DEFAULT_DURATION_MINUTES } from './constants';
+import {
+  fetchTimeOff,
+  fetchWorkingHoursForDate,
+  findTimeOffOn,
+  getWeekdayName,
+} from './staffSchedule';
+
+// Bookings in these states still occupy the staff member's time
+export const BLOCKING_STATUSES: BookingStatus[] = ['pending', 'confirmed', 'in_progress'];
+
+// Start times are offered on this grid
+export const SLOT_INTERVAL_MINUTES = 30;
+
+/**
+ * A half-open time range [start, end) expressed in minutes from midnight.
+ */
+export interface TimeInterval {
+  start: number;
+  end: number;
+}
+
+export interface ConflictingBooking {
+  id: string;
+  bookingTime: string;
+  durationMinutes: number;
+  serviceName: string;
+}
+
+export interface AvailabilityQuery {
+  staffId: string;
+  date: string; // YYYY-MM-DD
+  time: string; // HH:MM or HH:MM:SS
+  durationMinutes: number;
+  excludeBookingId?: string; // The booking being edited or rescheduled
+  excludeWaitlistEntryId?: string; // The waitlist offer being claimed
+}
+
+export interface AvailabilityResult {
+  available: boolean;
+  conflicts: ConflictingBooking[];
+  reason?: string; // Customer-facing explanation when unavailable
+}
+
+export interface TimeSlotQuery {
+  staffId: string;
+  date: string; // YYYY-MM-DD
+  durationMinutes: number;
+  availableDays?: string[]; // The service's offered weekdays; empty means every day
+  excludeBookingId?: string;
+}
+
+/**
+ * Converts a "HH:MM" or "HH:MM:SS" string to minutes from midnight.
+ * @param time - The time string.
+ * @returns Minutes from midnight.
+ */
+export const timeToMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(part => parseInt(part, 10));
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+/**
+ * Converts minutes from midnight back to a "HH:MM" string.
+ * @param totalMinutes - Minutes from midnight.
+ * @returns The time string.
+ */
+export const minutesToTime = (totalMinutes: number): string => {
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
+};
+
+/**
+ * Builds the interval a service occupies when it starts at the given time.
+ * @param time - Start time ("HH:MM").
+ * @param durationMinutes - Length of the service.
+ */
+export const toInterval = (time: string, durationMinutes: number): TimeInterval => {
+  const start = timeToMinutes(time);
+  return { start, end: start + (durationMinutes || DEFAULT_DURATION_MINUTES) };
+};
+
+/**
+ * Checks whether two half-open intervals overlap. Back-to-back
+ * appointments (one ends exactly when the next starts) do not overlap.
+ */
+export const intervalsOverlap = (a: TimeInterval, b: TimeInterval): boolean =>
+  a.start < b.end && b.start < a.end;
+
+/**
+ * Returns the existing bookings whose intervals overlap the candidate interval.
+ * @param candidate - The interval being requested.
+ * @param existing - Bookings already on the staff member's calendar for that day.
+ */
+export const findConflicts = (
+  candidate: TimeInterval,
+  existing: ConflictingBooking[]
+): ConflictingBooking[] =>
+  existing.filter(booking =>
+    intervalsOverlap(candidate, toInterval(booking.bookingTime, booking.durationMinutes))
+  );
+
+/**
+ * Loads a staff member's active bookings for a day, with each booking's service duration.
+ * Times held for a waitlisted customer count as booked until the hold runs out.
+ * Throws if the query fails so callers never treat an unknown calendar as free.
+ * @param staffId - The staff member's ID.
+ * @param date - The day to load (YYYY-MM-DD).
+ * @param excludeBookingId - Optional booking to leave out (e.g. the one being rescheduled).
+ * @param excludeWaitlistEntryId - Optional held offer to leave out (the one being claimed).
+ */
+export const fetchStaffDayBookings = async (
+  staffId: string,
+  date: string,
+  excludeBookingId?: string,
+  excludeWaitlistEntryId?: string
+): Promise<ConflictingBooking[]> => {
+  let bookings: Booking[];
+  let holds: WaitlistEntry[];
+  try {
+    [bookings, holds] = await Promise.all([
+      bookingsRepository.list({
+        staffId,
+        date,
+        statuses: BLOCKING_STATUSES,
+        excludeBookingId,
+      }),
+      waitlistRepository.list({ date, statuses: ['offered'], offeredStaffId: staffId }),
+    ]);
+  } catch (err) {
+    console.error('❌ Error loading staff bookings:', err);
+    throw new Error('Unable to verify staff availability. Please try again.');
+  }
+
+  const now = Date.now();
+  const heldSlots = holds
+    .filter(entry => entry.id !== excludeWaitlistEntryId && entry.offer && new Date(entry.offer.expiresAt).getTime() > now)
+    .map(entry => ({
+      id: `waitlist-${entry.id}`,
+      bookingTime: entry.offer!.time,
+      durationMinutes: entry.durationMinutes,
+      serviceName: entry.serviceName,
+    }));
+
+  return [
+    ...bookings.map(booking => ({
+      id: booking.id,
+      bookingTime: booking.bookingTime,
+      durationMinutes: booking.durationMinutes,
+      serviceName: booking.serviceName,
+    })),
+    ...heldSlots,
+  ];
+};
+
+/**
+ * Checks whether a service is offered on a date.
+ * @param availableDays - Weekday names the service runs on; empty or missing means every day.
+ * @param date - The date (YYYY-MM-DD).
+ */
+export const isServiceOfferedOn = (availableDays: string[] | undefined, date: string): boolean =>
+  !availableDays || availableDays.length === 0 || availableDays.includes(getWeekdayName(date));
+
+/**
+ * Splits a working day into the intervals the staff member can take appointments,
+ * i.e. the shift with the break cut out.
+ * @param hours - The staff member's hours for the day.
+ */
+export const getWorkingIntervals = (hours: WorkingHours): TimeInterval[] => {
+  if (!hours.isWorking) return [];
+
+  const shift = { start: timeToMinutes(hours.startTime), end: timeToMinutes(hours.endTime) };
+  if (!hours.breakStart || !hours.breakEnd) return [shift];
+
+  const breakStart = timeToMinutes(hours.breakStart);
+  const breakEnd = timeToMinutes(hours.breakEnd);
+  return [
+    { start: shift.start, end: Math.min(breakStart, shift.end) },
+    { start: Math.max(breakEnd, shift.start), end: shift.end },
+  ].filter(interval => interval.start < interval.end);
+};
+
+/**
+ * Checks whether an appointment fits entirely inside the working intervals.
+ */
+export const fitsWorkingHours = (candidate: TimeInterval, hours: WorkingHours): boolean =>
+  getWorkingIntervals(hours).some(
+    interval => interval.start <= candidate.start && candidate.end <= interval.end
+  );
+
+/**
+ * Lists the start times where a service fits inside the working hours without
+ * overlapping an existing booking.
+ * @param hours - The staff member's hours for the day.
+ * @param durationMinutes - Length of the service.
+ * @param booked - Bookings already on the staff member's calendar for that day.
+ * @param earliestStart - Optional lower bound in minutes (e.g. "now" when booking for today).
+ */
+export const buildTimeSlots = (
+  hours: WorkingHours,
+  durationMinutes: number,
+  booked: ConflictingBooking[],
+  earliestStart = 0
+): string[] => {
+  const slots: string[] = [];
+
+  getWorkingIntervals(hours).forEach(interval => {
+    // Align to the slot grid so times read as :00 and :30
+    const firstSlot = Math.ceil(Math.max(interval.start, earliestStart) / SLOT_INTERVAL_MINUTES) * SLOT_INTERVAL_MINUTES;
+    for (let start = firstSlot; start < interval.end; start += SLOT_INTERVAL_MINUTES) {
+      const candidate = { start, end: start + (durationMinutes || DEFAULT_DURATION_MINUTES) };
+      if (candidate.end > interval.end) break;
+      if (findConflicts(candidate, booked).length === 0) {
+        slots.push(minutesToTime(start));
+      }
+    }
+  });
+
+  return slots;
+};
+
+// Minutes past midnight right now, if the date is today; otherwise 0
+const earliestStartFor = (date: string): number => {
+  const now = new Date();
+  const today = `${now.getFullYear()}-${(now.getMonth() + 1).toString().padStart(2, '0')}-${now.getDate().toString().padStart(2, '0')}`;
+  return date === today ? now.getHours() * 60 + now.getMinutes() : 0;
+};
+
+/**
+ * Lists the start times a staff member can take a service on a date, honouring
+ * the service's offered days, working hours, breaks, time off and existing bookings.
+ * @param query - Staff, date, service duration and offered days.
+ * @returns "HH:MM" start times; empty when the staff member is not available that day.
+ */
+export const getAvailableTimeSlots = async ({
+  staffId,
+  date,
+  durationMinutes,
+  availableDays,
+  excludeBookingId,
+}: TimeSlotQuery): Promise<string[]> => {
+  if (!isServiceOfferedOn(availableDays, date)) return [];
+
+  const day = await loadStaffDay(staffId, date, excludeBookingId);
+  if (day.timeOff) return [];
+
+  return buildTimeSlots(day.hours, durationMinutes, day.bookings, earliestStartFor(date));
+};
+
+/**
+ * Builds a customer-facing message describing why a slot was rejected.
+ * @param conflicts - The overlapping bookings.
+ */
+export const describeConflicts = (conflicts: ConflictingBooking[]): string => {
+  const ranges = conflicts.map(conflict => {
+    const { start, end } = toInterval(conflict.bookingTime, conflict.durationMinutes);
+    return `${minutesToTime(start)}–${minutesToTime(end)}`;
+  });
+  return `The selected staff member is already booked at ${ranges.join(', ')}.`;
+};
+
+interface StaffDay {
+  hours: WorkingHours;
+  timeOff?: TimeOff;
+  bookings: ConflictingBooking[];
+}
+
+// Loads everything needed to judge a staff member's availability on one day
+const loadStaffDay = async (
+  staffId: string,
+  date: string,
+  excludeBookingId?: string,
+  excludeWaitlistEntryId?: string
+): Promise<StaffDay> => {
+  const [hours, timeOff, bookings] = await Promise.all([
+    fetchWorkingHoursForDate(staffId, date),
+    fetchTimeOff(staffId, date),
+    fetchStaffDayBookings(staffId, date, excludeBookingId, excludeWaitlistEntryId),
+  ]);
+  return { hours, timeOff: findTimeOffOn(date, timeOff), bookings };
+};
+
+// Judges a candidate appointment against a loaded staff day
+const evaluateSlot = (day: StaffDay, time: string, durationMinutes: number): AvailabilityResult => {
+  if (day.timeOff) {
+    const label = day.timeOff.type === 'holiday' ? 'The salon is closed for a holiday' : 'The selected staff member is on leave';
+    return { available: false, conflicts: [], reason: `${label} on this date.` };
+  }
+
+  const candidate = toInterval(time, durationMinutes);
+  if (!fitsWorkingHours(candidate, day.hours)) {
+    return {
+      available: false,
+      conflicts: [],
+      reason: 'The selected staff member is not working for the full length of this service at that time.',
+    };
+  }
+
+  const conflicts = findConflicts(candidate, day.bookings);
+  return {
+    available: conflicts.length === 0,
+    conflicts,
+    reason: conflicts.length > 0 ? describeConflicts(conflicts) : undefined,
+  };
+};
+
+/**
+ * Checks whether a staff member is working and free for the whole length of a service.
+ * @param query - Staff, date, start time, duration and an optional booking to exclude.
+ * @returns Whether the slot is free, any overlapping bookings, and a reason when it is not.
+ */
+export const checkStaffAvailability = async ({
+  staffId,
+  date,
+  time,
+  durationMinutes,
+  excludeBookingId,
+  excludeWaitlistEntryId,
+}: AvailabilityQuery): Promise<AvailabilityResult> => {
+  const day = await loadStaffDay(staffId, date, excludeBookingId, excludeWaitlistEntryId);
+  return evaluateSlot(day, time, durationMinutes);
+};
+
+/**
+ * Lists the start times at which at least one of the given staff members can take a service.
+ * Used when the customer lets the salon pick the staff member.
+ * @param staffIds - The candidate (qualified) staff members.
+ * @param query - Date, service duration and offered days.
+ * @returns Sorted "HH:MM" start times.
+ */
+export const getAvailableTimeSlotsForAnyStaff = async (
+  staffIds: string[],
+  query: Omit<TimeSlotQuery, 'staffId'>
+): Promise<string[]> => {
+  const perStaff = await Promise.all(
+    staffIds.map(staffId => getAvailableTimeSlots({ ...query, staffId }))
+  );
+  return Array.from(new Set(perStaff.flat())).sort();
+};
+
+/**
+ * Picks the least-loaded staff member who is free for the whole length of a service.
+ * Load is the number of minutes already booked that day; ties go to the earlier staff member in the list.
+ * @param staffIds - The candidate (qualified) staff members.
+ * @param query - Date, start time and duration.
+ * @returns The chosen staff member's ID, or null when nobody is free.
+ */
+export const findLeastLoadedAvailableStaff = async (
+  staffIds: string[],
+  query: Omit<AvailabilityQuery, 'staffId'>
+): Promise<string | null> => {
+  const days = await Promise.all(
+    staffIds.map(staffId => loadStaffDay(staffId, query.date, query.excludeBookingId, query.excludeWaitlistEntryId))
+  );
+
+  let bestStaffId: string | null = null;
+  let bestLoad = Infinity;
+  days.forEach((day, index) => {
+    if (!evaluateSlot(day, query.time, query.durationMinutes).available) return;
+    const load = day.bookings.reduce((total, booking) => total + booking.durationMinutes, 0);
+    if (load < bestLoad) {
+      bestStaffId = staffIds[index];
+      bestLoad = load;
+    }
+  });
+
+  return bestStaffId;
+};
@@ -0,0 +1,67 @@
+// src/utils/bookingPolicy.test.ts
+import { describe, expect, it } from 'vitest';
+import { BookingPolicy } from '@models/booking';
+import { Payment } from '@models/payment';
+import { TEST_TODAY } from '../test/clock';
+import { DEFAULT_BOOKING_POLICY } from './constants';
+import { addDays } from './helpers';
+import { describeBookingPolicy, describeCancellationTerms, getCancellationTerms, getRescheduleRestriction } from './bookingPolicy';
+
+const tomorrowMorning = { bookingDate: addDays(TEST_TODAY, 1), bookingTime: '08:00', price: 800 };
+const nextWeek = { ...tomorrowMorning, bookingDate: addDays(TEST_TODAY, 7) };
+const feePolicy: BookingPolicy = { ...DEFAULT_BOOKING_POLICY, lateCancellationPenalty: 'fee', lateCancellationFeeRate: 0.5 };
+
+const payment = (id: string, kind: Payment['kind'], amount: number, refundOf?: string): Payment =>
+  ({ id, bookingId: '1', kind, method: 'card', amount, refundOf, createdAt: `${TEST_TODAY}T08:00:00.000Z` });
+
+describe('getCancellationTerms', () => {
+  it('refunds everything with enough notice', () => {
+    const terms = getCancellationTerms(nextWeek, DEFAULT_BOOKING_POLICY, [payment('1', 'deposit', 160)]);
+
+    expect(terms).toMatchObject({ late: false, penalty: 'none', paid: 160, retained: 0, refund: 160 });
+    expect(describeCancellationTerms(terms)).toBe('₱160.00 will be refunded in full.');
+  });
+
+  it('keeps only the deposit when cancelled late', () => {
+    const payments = [payment('1', 'deposit', 160), payment('2', 'payment', 640)];
+    const terms = getCancellationTerms(tomorrowMorning, DEFAULT_BOOKING_POLICY, payments);
+
+    expect(terms).toMatchObject({ late: true, hoursNotice: 23, penalty: 'forfeit_deposit', retained: 160, refund: 640 });
+  });
+
+  it('charges the part of a late fee that was not paid', () => {
+    const terms = getCancellationTerms(tomorrowMorning, feePolicy, [payment('1', 'deposit', 160)]);
+
+    expect(terms).toMatchObject({ penalty: 'fee', retained: 160, extraCharge: 240, refund: 0 });
+  });
+
+  it('ignores payments that were already refunded', () => {
+    const payments = [payment('1', 'deposit', 160), payment('2', 'refund', 160, '1')];
+
+    expect(getCancellationTerms(tomorrowMorning, DEFAULT_BOOKING_POLICY, payments)).toMatchObject({ paid: 0, retained: 0 });
+  });
+
+  it('drops the penalty when waived', () => {
+    const terms = getCancellationTerms(tomorrowMorning, feePolicy, [payment('1', 'deposit', 160)], true);
+
+    expect(terms).toMatchObject({ penalty: 'none', waived: true, refund: 160, extraCharge: 0 });
+  });
+});
+
+describe('reschedule policy', () => {
+  it('allows a reschedule with enough notice and under the limit', () => {
+    const policy = { ...DEFAULT_BOOKING_POLICY, maxReschedules: 2 };
+
+    expect(getRescheduleRestriction({ ...nextWeek, rescheduleCount: 1 }, policy)).toBeNull();
+    expect(getRescheduleRestriction({ ...nextWeek, rescheduleCount: 2 }, policy)).toContain('rescheduled 2 times');
+    expect(getRescheduleRestriction({ ...tomorrowMorning, rescheduleCount: 0 }, policy)).toContain('less than 24 hours');
+  });
+
+  it('describes the policy for customers', () => {
+    expect(describeBookingPolicy({ ...DEFAULT_BOOKING_POLICY, maxReschedules: 1 })).toEqual([
+      'Cancel at least 24 hours before your appointment for a full refund. After that, your deposit is not refunded.',
+      'Appointments can be rescheduled up to 24 hours before they start.',
+      'Each appointment can be rescheduled at most 1 time.',
+    ]);
+  });
+});
@@ -0,0 +1,260 @@
+// src/utils/bookingPolicy.ts
+import { Booking, BookingPolicy, LateCancellationPenalty } from '@models/booking';
+import { Payment } from '@models/payment';
+import { UserRole } from '@models/user';
+import { bookingPolicyRepository } from '@repositories/bookingPolicy';
+import { paymentsRepository } from '@repositories/payments';
+import { DEFAULT_BOOKING_POLICY } from './constants';
+import { formatCurrency, roundAmount, toAppointmentStart } from './helpers';
+import { chargeCancellationFee, refundBookingPayments } from './payments';
+
+export const PENALTY_LABELS: Record<LateCancellationPenalty, string> = {
+  none: 'Full refund',
+  forfeit_deposit: 'Deposit is kept',
+  fee: 'Cancellation fee',
+};
+
+/**
+ * What cancelling a booking now would cost the customer.
+ */
+export interface CancellationTerms {
+  late: boolean; // Inside the notice window
+  hoursNotice: number; // Hours left before the appointment starts
+  penalty: LateCancellationPenalty; // 'none' when not late or when waived
+  paid: number; // Paid so far and not yet refunded
+  retained: number; // Kept by the salon out of what was paid
+  refund: number; // Returned to the customer
+  extraCharge: number; // Fee still to charge on top of what was paid
+  waived: boolean; // An admin overrode the policy
+}
+
+type PolicyBooking = Pick<Booking, 'bookingDate' | 'bookingTime' | 'price'>;
+
+const plural = (count: number, word: string): string => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+/**
+ * Loads the salon's policy, falling back to the default when none has been saved.
+ */
+export const fetchBookingPolicy = async (): Promise<BookingPolicy> =>
+  (await bookingPolicyRepository.get()) || DEFAULT_BOOKING_POLICY;
+
+/**
+ * Hours from now until a booking starts; negative once it has started.
+ * @param booking - The booking.
+ * @param now - The current time.
+ */
+export const hoursUntilBooking = (booking: Pick<Booking, 'bookingDate' | 'bookingTime'>, now: Date = new Date()): number => {
+  const start = toAppointmentStart(booking.bookingDate, booking.bookingTime);
+  return (start.getTime() - now.getTime()) / (60 * 60 * 1000);
+};
+
+/**
+ * The policy in plain sentences, for showing customers before they confirm.
+ * @param policy - The booking policy.
+ */
+export const describeBookingPolicy = (policy: BookingPolicy): string[] => {
+  const lateTerms: Record<LateCancellationPenalty, string> = {
+    none: 'you still get a full refund',
+    forfeit_deposit: 'your deposit is not refunded',
+    fee: `a fee of ${Math.round(policy.lateCancellationFeeRate * 100)}% of the price applies`,
+  };
+
+  return [
+    policy.cancelNoticeHours > 0
+      ? `Cancel at least ${plural(policy.cancelNoticeHours, 'hour')} before your appointment for a full refund. After that, ${lateTerms[policy.lateCancellationPenalty]}.`
+      : 'You can cancel at any time for a full refund.',
+    policy.rescheduleNoticeHours > 0
+      ? `Appointments can be rescheduled up to ${plural(policy.rescheduleNoticeHours, 'hour')} before they start.`
+      : 'Appointments can be rescheduled at any time before they start.',
+    policy.maxReschedules != null
+      ? `Each appointment can be rescheduled at most ${plural(policy.maxReschedules, 'time')}.`
+      : 'There is no limit on how many times you can reschedule.',
+  ];
+};
+
+/**
+ * Works out what the salon keeps and refunds if a booking is cancelled now.
+ * @param booking - The booking.
+ * @param policy - The booking policy.
+ * @param payments - The booking's payments and refunds.
+ * @param waived - Whether an admin is overriding the policy.
+ * @param now - The current time.
+ */
+export const getCancellationTerms = (
+  booking: PolicyBooking,
+  policy: BookingPolicy,
+  payments: Payment[],
+  waived: boolean = false,
+  now: Date = new Date()
+): CancellationTerms => {
+  const refundedIds = new Set(payments.filter(payment => payment.refundOf).map(payment => payment.refundOf));
+  const outstanding = payments.filter(payment => payment.kind !== 'refund' && !refundedIds.has(payment.id));
+  const paid = roundAmount(outstanding.reduce((sum, payment) => sum + payment.amount, 0));
+  // A prepaid session stands in for the deposit, so a late cancellation can forfeit it the same way
+  const deposits = roundAmount(
+    outstanding
+      .filter(payment => payment.kind === 'deposit' || payment.kind === 'redemption')
+      .reduce((sum, payment) => sum + payment.amount, 0)
+  );
+
+  const hoursNotice = hoursUntilBooking(booking, now);
+  const late = hoursNotice < policy.cancelNoticeHours;
+  const penalty = late && !waived ? policy.lateCancellationPenalty : 'none';
+
+  let retained = 0;
+  let extraCharge = 0;
+  if (penalty === 'forfeit_deposit') {
+    retained = deposits;
+  } else if (penalty === 'fee') {
+    const fee = roundAmount(booking.price * policy.lateCancellationFeeRate);
+    retained = Math.min(fee, paid);
+    extraCharge = roundAmount(fee - retained);
+  }
+
+  return { late, hoursNotice, penalty, paid, retained, refund: roundAmount(paid - retained), extraCharge, waived: late && waived };
+};
+
+/**
+ * Loads the policy and payments for a booking and works out its cancellation terms.
+ * @param booking - The booking, with its ID.
+ * @param waived - Whether an admin is overriding the policy.
+ */
+export const fetchCancellationTerms = async (
+  booking: PolicyBooking & Pick<Booking, 'id'>,
+  waived: boolean = false
+): Promise<CancellationTerms> => {
+  const [policy, payments] = await Promise.all([
+    fetchBookingPolicy(),
+    paymentsRepository.list({ bookingIds: [booking.id] }),
+  ]);
+  return getCancellationTerms(booking, policy, payments, waived);
+};
+
+/**
+ * Sums up cancellation terms in one sentence, e.g. for a confirmation dialog.
+ * @param terms - The cancellation terms.
+ */
+export const describeCancellationTerms = (terms: CancellationTerms): string => {
+  if (terms.penalty === 'none') {
+    const prefix = terms.waived ? 'The late-cancellation policy is waived. ' : '';
+    return terms.paid > 0
+      ? `${prefix}${formatCurrency(terms.refund)} will be refunded in full.`
+      : `${prefix}Nothing has been paid, so there is nothing to refund.`;
+  }
+
+  const notice = terms.hoursNotice > 0
+    ? `This is less than the required notice (${plural(Math.floor(terms.hoursNotice), 'hour')} left)`
+    : 'This appointment has already started';
+  const kept = terms.penalty === 'forfeit_deposit'
+    ? `the deposit of ${formatCurrency(terms.retained)} is kept`
+    : `a cancellation fee of ${formatCurrency(terms.retained + terms.extraCharge)} applies` +
+      (terms.extraCharge > 0 ? ` (${formatCurrency(terms.extraCharge)} more than has been paid, charged separately)` : '');
+  const refund = terms.refund > 0 ? ` and ${formatCurrency(terms.refund)} will be refunded` : '';
+  return `${notice}, so ${kept}${refund}.`;
+};
+
+/**
+ * Explains why a booking can't be rescheduled under the policy.
+ * @param booking - The booking.
+ * @param policy - The booking policy.
+ * @param now - The current time.
+ * @returns The reason, or null when rescheduling is allowed.
+ */
+export const getRescheduleRestriction = (
+  booking: Pick<Booking, 'bookingDate' | 'bookingTime' | 'rescheduleCount'>,
+  policy: BookingPolicy,
+  now: Date = new Date()
+): string | null => {
+  if (policy.maxReschedules != null && booking.rescheduleCount >= policy.maxReschedules) {
+    return `This appointment has already been rescheduled ${plural(booking.rescheduleCount, 'time')}, the most our policy allows.`;
+  }
+  if (hoursUntilBooking(booking, now) < policy.rescheduleNoticeHours) {
+    return `Appointments can't be rescheduled less than ${plural(policy.rescheduleNoticeHours, 'hour')} before they start.`;
+  }
+  return null;
+};
+
+/**
+ * Checks a reschedule against the policy. Customers and staff are held to it; an admin can
+ * go past it by giving a reason, which is kept in the booking's history.
+ * @param booking - The booking as currently loaded.
+ * @param role - The role of the user rescheduling.
+ * @param overrideReason - Why the policy is being overridden.
+ * @returns A note for the booking's history when the policy was overridden.
+ */
+export const enforceReschedulePolicy = async (
+  booking: Pick<Booking, 'bookingDate' | 'bookingTime' | 'rescheduleCount'>,
+  role: UserRole,
+  overrideReason?: string
+): Promise<string | undefined> => {
+  const restriction = getRescheduleRestriction(booking, await fetchBookingPolicy());
+  if (!restriction) return undefined;
+
+  if (role === 'customer') {
+    throw new Error(`${restriction} Please contact the salon if you need to make a change.`);
+  }
+  if (role !== 'admin') {
+    throw new Error(`${restriction} Only an admin can override the reschedule policy.`);
+  }
+  if (!overrideReason?.trim()) {
+    throw new Error(`${restriction} Edit the booking and give a reason to override the policy.`);
+  }
+  return `Reschedule policy overridden: ${overrideReason.trim()}`;
+};
+
+/**
+ * Works out a cancellation's terms before it is saved. Staff cancellations are the salon's
+ * own, so they are always refunded in full; an admin can waive the policy too. Either way a late
+ * cancellation needs a reason, which is kept in the booking's history.
+ * @param booking - The booking as currently loaded.
+ * @param role - The role of the user cancelling.
+ * @param overrideReason - Why the policy is being waived.
+ * @returns The terms, and a note for the booking's history.
+ */
+export const resolveCancellation = async (
+  booking: PolicyBooking & Pick<Booking, 'id'>,
+  role: UserRole,
+  overrideReason?: string
+): Promise<{ terms: CancellationTerms; note?: string }> => {
+  const reason = overrideReason?.trim();
+  if (reason && role === 'customer') {
+    throw new Error('Only the salon can waive the cancellation policy.');
+  }
+
+  const waived = role === 'staff' || !!reason;
+  const terms = await fetchCancellationTerms(booking, waived);
+
+  if (terms.waived) {
+    if (!reason) {
+      throw new Error('This is a late cancellation, so the fee is only waived with a reason. Please say why the appointment is being cancelled.');
+    }
+    return { terms, note: `Cancellation policy waived${role === 'staff' ? ' by staff' : ''}: ${reason}` };
+  }
+  if (terms.penalty !== 'none') {
+    return { terms, note: `Late cancellation: ${PENALTY_LABELS[terms.penalty].toLowerCase()} (${formatCurrency(terms.retained + terms.extraCharge)})` };
+  }
+  return { terms };
+};
+
+/**
+ * Refunds a cancelled booking according to its terms, keeping any forfeited deposit or fee
+ * and charging whatever part of a fee wasn't already paid.
+ * @param booking - The cancelled booking.
+ * @param terms - The terms worked out before cancelling.
+ * @param recordedBy - The ID of the user cancelling.
+ * @returns The total refunded.
+ */
+export const settleCancellation = async (
+  booking: Pick<Booking, 'id' | 'price' | 'serviceName'>,
+  terms: CancellationTerms,
+  recordedBy: string
+): Promise<number> => {
+  const refunded = await refundBookingPayments(booking.id, recordedBy, terms.retained);
+
+  // With no card or e-wallet payment on file, the rest of the fee is collected at the salon
+  if (terms.extraCharge > 0) {
+    await chargeCancellationFee(booking, terms.extraCharge, recordedBy);
+  }
+
+  return refunded;
+};
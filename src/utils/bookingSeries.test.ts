@@ -0,0 +1,44 @@
+// src/utils/bookingSeries.test.ts
+import { describe, expect, it, vi } from 'vitest';
+import { CUSTOMER_LIZA_ID, STAFF_ANA_ID } from '../mocks/fixtures';
+import { bookingsRepository } from '@repositories/bookings';
+import { TEST_TODAY } from '../test/clock';
+import { StatusActor } from './bookingStatus';
+import { NewSeriesRequest, createBookingSeries } from './bookingSeries';
+import { addDays } from './helpers';
+
+const liza: StatusActor = { id: CUSTOMER_LIZA_ID, role: 'customer' };
+
+// A weekly Gel Manicure with Ana at 10:00, three times, starting on Friday
+const weeklyManicure: NewSeriesRequest = {
+  customerId: CUSTOMER_LIZA_ID,
+  service: { id: '3', name: 'Gel Manicure', price: 550, durationMinutes: 45, availableDays: [] },
+  staffId: STAFF_ANA_ID,
+  candidateStaffIds: [STAFF_ANA_ID],
+  time: '10:00',
+  startDate: addDays(TEST_TODAY, 2),
+  frequency: 'weekly',
+  end: { count: 3 },
+  depositMethod: 'card',
+};
+
+describe('createBookingSeries', () => {
+  it('books every free date', async () => {
+    const { booked, skipped } = await createBookingSeries(weeklyManicure, liza);
+
+    expect(booked.map(occurrence => occurrence.date)).toEqual([2, 9, 16].map(days => addDays(TEST_TODAY, days)));
+    expect(skipped).toEqual([]);
+  });
+
+  it('skips a date that fails to book and keeps the rest of the series', async () => {
+    const create = bookingsRepository.create;
+    vi.spyOn(bookingsRepository, 'create')
+      .mockImplementationOnce(create)
+      .mockRejectedValueOnce(new Error('Failed to create booking: offline'));
+
+    const { booked, skipped } = await createBookingSeries(weeklyManicure, liza);
+
+    expect(booked.map(occurrence => occurrence.date)).toEqual([addDays(TEST_TODAY, 2), addDays(TEST_TODAY, 16)]);
+    expect(skipped).toEqual([expect.objectContaining({ date: addDays(TEST_TODAY, 9), reason: 'Failed to create booking: offline' })]);
+  });
+});
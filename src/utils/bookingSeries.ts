@@ -0,0 +1,454 @@
+// src/utils/bookingSeries.ts
+import { Booking, BookingStatus, SeriesFrequency } from '@models/booking';
+import { PaymentMethod } from '@models/payment';
+import { Service } from '@models/service';
+import { BookingOwner, bookingsRepository } from '@repositories/bookings';
+import { bookingSeriesRepository } from '@repositories/bookingSeries';
+import { checkStaffAvailability, findLeastLoadedAvailableStaff, isServiceOfferedOn } from './availability';
+import { StatusActor, changeBookingStatus, logStatusChange } from './bookingStatus';
+import { MAX_SERIES_OCCURRENCES } from './constants';
+import { addDays, daysBetween, hasStarted, parseDate, toDateString } from './helpers';
+import { createNotification, formatWhen } from './notifications';
+import { payDeposit } from './payments';
+import { getWeekdayName } from './staffSchedule';
+import { offerCancelledBookingSlot } from './waitlist';
+
+export const SERIES_FREQUENCY_LABELS: Record<SeriesFrequency, string> = {
+  weekly: 'Every week',
+  every_2_weeks: 'Every 2 weeks',
+  every_3_weeks: 'Every 3 weeks',
+  every_4_weeks: 'Every 4 weeks',
+  monthly: 'Every month',
+};
+
+/**
+ * How a series ends: after a number of appointments, or on a date.
+ */
+export interface SeriesEnd {
+  count?: number;
+  endDate?: string; // YYYY-MM-DD, inclusive
+}
+
+/**
+ * One date in a series and whether it can be booked.
+ */
+export interface SeriesOccurrence {
+  date: string; // YYYY-MM-DD
+  time: string; // HH:MM
+  staffId?: string; // Who would take it, when available
+  available: boolean;
+  reason?: string; // Why the date can't be booked
+  bookingId?: string; // Set once booked
+}
+
+type SeriesService = Pick<Service, 'id' | 'name' | 'price' | 'durationMinutes' | 'availableDays'>;
+
+/**
+ * The dates to check: the service, the staff member (or the qualified staff to choose from) and the time.
+ */
+export interface SeriesCheck {
+  service: SeriesService;
+  staffId?: string; // Omitted when the salon picks the least-busy qualified staff member
+  candidateStaffIds: string[];
+  time: string; // HH:MM
+  dates: string[];
+}
+
+/**
+ * A new recurring series to book for a customer.
+ */
+export interface NewSeriesRequest extends Omit<SeriesCheck, 'dates'> {
+  customerId: string;
+  startDate: string; // YYYY-MM-DD
+  frequency: SeriesFrequency;
+  end: SeriesEnd;
+  notes?: string;
+  depositMethod: PaymentMethod;
+}
+
+export interface SeriesBookingResult {
+  seriesId: string;
+  booked: SeriesOccurrence[];
+  skipped: SeriesOccurrence[]; // Dates not booked, each with the reason
+}
+
+/**
+ * The later appointments in a series that a change was applied to, and the ones it couldn't be.
+ */
+export interface SeriesUpdateResult {
+  updated: Booking[];
+  failed: SeriesOccurrence[];
+  warnings: string[]; // Follow-up steps that failed for appointments that were updated, e.g. a refund
+}
+
+const WEEKS_APART: Record<Exclude<SeriesFrequency, 'monthly'>, number> = {
+  weekly: 1,
+  every_2_weeks: 2,
+  every_3_weeks: 3,
+  every_4_weeks: 4,
+};
+
+const plural = (count: number, word: string): string => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+// e.g. "Nov 10, 2025"
+const formatDay = (date: string): string => formatWhen(date, '00:00').split(' at ')[0];
+
+/**
+ * Lists the dates of a series, starting with the first appointment. Monthly series keep the same
+ * day of the month, falling back to the month's last day when it is shorter.
+ * @param startDate - The first appointment (YYYY-MM-DD).
+ * @param frequency - How often it repeats.
+ * @param end - How many appointments, or the last date.
+ */
+export const generateSeriesDates = (startDate: string, frequency: SeriesFrequency, end: SeriesEnd): string[] => {
+  if (!end.count && !end.endDate) {
+    throw new Error('Choose how many appointments to book or when the series ends.');
+  }
+  if (end.count !== undefined && (end.count < 2 || end.count > MAX_SERIES_OCCURRENCES)) {
+    throw new Error(`A series has between 2 and ${MAX_SERIES_OCCURRENCES} appointments.`);
+  }
+  if (end.endDate && end.endDate <= startDate) {
+    throw new Error('The series must end after the first appointment.');
+  }
+
+  const start = parseDate(startDate);
+  const limit = end.count || MAX_SERIES_OCCURRENCES;
+  const dates: string[] = [];
+
+  for (let index = 0; dates.length < limit; index++) {
+    let date: string;
+    if (frequency === 'monthly') {
+      const lastDay = new Date(start.getFullYear(), start.getMonth() + index + 1, 0).getDate();
+      date = toDateString(new Date(start.getFullYear(), start.getMonth() + index, Math.min(start.getDate(), lastDay)));
+    } else {
+      date = addDays(startDate, index * 7 * WEEKS_APART[frequency]);
+    }
+    if (end.endDate && date > end.endDate) break;
+    dates.push(date);
+  }
+
+  return dates;
+};
+
+/**
+ * Checks each date of a series on its own: the service must run that day and the staff member
+ * (or, with any staff, at least one qualified staff member) must be working and free.
+ * @param check - The service, staff, time and dates.
+ * @returns One entry per date, with the staff member who would take it or why it can't be booked.
+ */
+export const checkSeriesOccurrences = async (check: SeriesCheck): Promise<SeriesOccurrence[]> => {
+  const occurrences: SeriesOccurrence[] = [];
+
+  for (const date of check.dates) {
+    const occurrence: SeriesOccurrence = { date, time: check.time, available: false };
+
+    if (hasStarted(date, check.time)) {
+      occurrence.reason = 'This time has already passed.';
+    } else if (!isServiceOfferedOn(check.service.availableDays, date)) {
+      occurrence.reason = `${check.service.name} isn't offered on ${getWeekdayName(date)}s.`;
+    } else if (check.staffId) {
+      const { available, reason } = await checkStaffAvailability({
+        staffId: check.staffId,
+        date,
+        time: check.time,
+        durationMinutes: check.service.durationMinutes,
+      });
+      occurrence.available = available;
+      occurrence.staffId = available ? check.staffId : undefined;
+      occurrence.reason = reason;
+    } else {
+      const staffId = await findLeastLoadedAvailableStaff(check.candidateStaffIds, {
+        date,
+        time: check.time,
+        durationMinutes: check.service.durationMinutes,
+      });
+      occurrence.available = !!staffId;
+      occurrence.staffId = staffId || undefined;
+      occurrence.reason = staffId ? undefined : 'No qualified staff member is free at this time.';
+    }
+
+    occurrences.push(occurrence);
+  }
+
+  return occurrences;
+};
+
+/**
+ * Books every free date of a recurring series, taking a deposit for each appointment as a single
+ * booking does. Dates that are taken, or fail to book, are skipped and reported rather than failing the series.
+ * @param request - The customer, service, staff, first date and time, frequency, end and deposit method.
+ * @param actor - The user booking the series.
+ * @returns The series' ID with the booked and skipped dates.
+ */
+export const createBookingSeries = async (request: NewSeriesRequest, actor: StatusActor): Promise<SeriesBookingResult> => {
+  const dates = generateSeriesDates(request.startDate, request.frequency, request.end);
+
+  const seriesId = await bookingSeriesRepository.create({
+    customerId: request.customerId,
+    serviceId: request.service.id,
+    frequency: request.frequency,
+    startDate: request.startDate,
+    bookingTime: request.time,
+    endDate: request.end.endDate,
+    occurrenceCount: request.end.count,
+    createdBy: actor.id,
+  });
+
+  const booked: SeriesOccurrence[] = [];
+  const skipped: SeriesOccurrence[] = [];
+
+  // Check each date just before booking it so earlier dates' bookings are taken into account.
+  // A date that fails is skipped with the reason, so the dates already booked still go through.
+  for (const date of dates) {
+    let occurrence: SeriesOccurrence = { date, time: request.time, available: false };
+    let bookingId: string;
+    try {
+      [occurrence] = await checkSeriesOccurrences({ ...request, dates: [date] });
+      if (!occurrence.available || !occurrence.staffId) {
+        skipped.push(occurrence);
+        continue;
+      }
+
+      bookingId = await bookingsRepository.create({
+        serviceId: request.service.id,
+        customerId: request.customerId,
+        staffId: occurrence.staffId,
+        staffAutoAssigned: !request.staffId,
+        bookingDate: date,
+        bookingTime: request.time,
+        totalPrice: request.service.price,
+        notes: request.notes,
+        seriesId,
+      });
+    } catch (err: any) {
+      console.error(`❌ Error booking series date ${date}:`, err);
+      skipped.push({ ...occurrence, available: false, reason: err.message });
+      continue;
+    }
+
+    try {
+      await payDeposit({ id: bookingId, price: request.service.price, serviceName: request.service.name }, request.depositMethod, actor.id);
+    } catch (depositErr: any) {
+      await bookingsRepository.delete(bookingId);
+      skipped.push({ ...occurrence, available: false, reason: `The deposit could not be processed. ${depositErr.message}` });
+      continue;
+    }
+
+    await logStatusChange(bookingId, undefined, 'pending', actor, 'Booked as part of a recurring series');
+    booked.push({ ...occurrence, bookingId });
+  }
+
+  if (booked.length === 0) {
+    await bookingSeriesRepository.delete(seriesId);
+    throw new Error(`None of the dates in this series could be booked. ${skipped[0]?.reason || ''}`.trim());
+  }
+
+  // One message for the whole series rather than one per appointment
+  try {
+    const when = formatWhen(booked[0].date, request.time);
+    await createNotification({
+      userId: request.customerId,
+      bookingId: booked[0].bookingId,
+      type: 'booking_created',
+      message: actor.role === 'customer'
+        ? `Your ${plural(booked.length, 'booking')} for "${request.service.name}" (${SERIES_FREQUENCY_LABELS[request.frequency].toLowerCase()}, starting ${when}) have been received and are awaiting confirmation.`
+        : `The salon booked ${plural(booked.length, 'appointment')} for "${request.service.name}" for you (${SERIES_FREQUENCY_LABELS[request.frequency].toLowerCase()}, starting ${when}).`,
+    });
+  } catch (err) {
+    console.error('❌ Error creating series notification:', err);
+  }
+
+  return { seriesId, booked, skipped };
+};
+
+/**
+ * Picks a booking's later, still-active appointments in the same series out of a loaded list.
+ * @param booking - The appointment being changed.
+ * @param bookings - Bookings already loaded, e.g. the customer's.
+ */
+export const getLaterOccurrences = (booking: Booking, bookings: Booking[]): Booking[] => {
+  if (!booking.seriesId) return [];
+  const start = `${booking.bookingDate} ${booking.bookingTime.substring(0, 5)}`;
+  return bookings
+    .filter(other =>
+      other.seriesId === booking.seriesId &&
+      other.id !== booking.id &&
+      (other.status === 'pending' || other.status === 'confirmed') &&
+      `${other.bookingDate} ${other.bookingTime.substring(0, 5)}` > start
+    )
+    .sort((a, b) => `${a.bookingDate} ${a.bookingTime}`.localeCompare(`${b.bookingDate} ${b.bookingTime}`));
+};
+
+/**
+ * Loads a booking's later, still-active appointments in the same series.
+ * @param booking - The appointment being changed.
+ * @param owner - Only the customer's own, or the staff member's own, appointments.
+ */
+export const fetchLaterOccurrences = async (booking: Booking, owner: BookingOwner = {}): Promise<Booking[]> => {
+  if (!booking.seriesId) return [];
+  const series = await bookingsRepository.list({
+    seriesId: booking.seriesId,
+    fromDate: booking.bookingDate,
+    statuses: ['pending', 'confirmed'],
+    customerId: owner.customerId,
+    staffId: owner.staffId,
+  });
+  return getLaterOccurrences(booking, series);
+};
+
+/**
+ * Cancels the appointments after this one in its series. Each is cancelled under the cancellation
+ * policy and its time offered to the waitlist; any that can't be cancelled are reported.
+ * The customer gets one notification for all of them.
+ * @param booking - The appointment the customer or salon chose to cancel from.
+ * @param actor - The user cancelling.
+ * @param options - Ownership restriction and any admin policy override.
+ */
+export const cancelLaterOccurrences = async (
+  booking: Booking,
+  actor: StatusActor,
+  options: { owner?: BookingOwner; policyOverride?: string } = {}
+): Promise<SeriesUpdateResult> => {
+  const result: SeriesUpdateResult = { updated: [], failed: [], warnings: [] };
+
+  for (const occurrence of await fetchLaterOccurrences(booking, options.owner)) {
+    try {
+      const warnings = await changeBookingStatus(occurrence, 'cancelled', actor, {
+        owner: options.owner,
+        policyOverride: options.policyOverride,
+        note: 'Cancelled with the rest of the series',
+      });
+      result.warnings.push(...warnings.map(warning => `${formatDay(occurrence.bookingDate)}: ${warning}`));
+      result.updated.push({ ...occurrence, status: 'cancelled' });
+      await offerCancelledBookingSlot(occurrence);
+    } catch (err: any) {
+      console.error(`❌ Error cancelling series booking ${occurrence.id}:`, err);
+      result.failed.push({ date: occurrence.bookingDate, time: occurrence.bookingTime, available: false, reason: err.message });
+    }
+  }
+
+  if (result.updated.length > 0) {
+    const first = result.updated[0];
+    try {
+      await createNotification({
+        userId: booking.customerId,
+        bookingId: first.id,
+        type: 'booking_cancelled',
+        message: actor.role === 'customer'
+          ? `You also cancelled ${plural(result.updated.length, 'later appointment')} for "${booking.serviceName}" in your series, from ${formatWhen(first.bookingDate, first.bookingTime)}.`
+          : `The salon also cancelled ${plural(result.updated.length, 'later appointment')} for "${booking.serviceName}" in your series, from ${formatWhen(first.bookingDate, first.bookingTime)}.`,
+      });
+    } catch (err) {
+      console.error('❌ Error creating series notification:', err);
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Moves the appointments after this one in its series by the same number of days and to the same
+ * new time. Each date is checked on its own; any that clash are left as they were and reported.
+ * @param booking - The appointment as it was before it was moved.
+ * @param move - Its new date and time, and a new staff member if one was chosen.
+ * @param actor - The user rescheduling.
+ * @param options - Ownership restriction, the status moved appointments go to (customers' go back
+ * to pending; otherwise each keeps its own) and any admin policy override.
+ */
+export const rescheduleLaterOccurrences = async (
+  booking: Booking,
+  move: { date: string; time: string; staffId?: string },
+  actor: StatusActor,
+  options: { owner?: BookingOwner; status?: BookingStatus; policyOverride?: string } = {}
+): Promise<SeriesUpdateResult> => {
+  const result: SeriesUpdateResult = { updated: [], failed: [], warnings: [] };
+  const offset = daysBetween(booking.bookingDate, move.date);
+  const time = move.time.substring(0, 5);
+
+  for (const occurrence of await fetchLaterOccurrences(booking, options.owner)) {
+    const date = addDays(occurrence.bookingDate, offset);
+    const staffId = move.staffId || occurrence.staffId;
+    const failed = (reason?: string) => result.failed.push({ date, time, staffId, available: false, reason });
+
+    if (hasStarted(date, time)) {
+      failed('This time has already passed.');
+      continue;
+    }
+    if (!isServiceOfferedOn(occurrence.serviceAvailableDays, date)) {
+      failed(`${occurrence.serviceName} isn't offered on ${getWeekdayName(date)}s.`);
+      continue;
+    }
+    if (staffId) {
+      const { available, reason } = await checkStaffAvailability({
+        staffId,
+        date,
+        time,
+        durationMinutes: occurrence.durationMinutes,
+        excludeBookingId: occurrence.id,
+      });
+      if (!available) {
+        failed(reason);
+        continue;
+      }
+    }
+
+    try {
+      await changeBookingStatus(occurrence, options.status || occurrence.status, actor, {
+        changes: {
+          bookingDate: date,
+          bookingTime: time,
+          ...(move.staffId && move.staffId !== occurrence.staffId ? { staffId: move.staffId, staffAutoAssigned: false } : {}),
+        },
+        owner: options.owner,
+        policyOverride: options.policyOverride,
+        note: 'Rescheduled with the rest of the series',
+      });
+      result.updated.push({ ...occurrence, bookingDate: date, bookingTime: time, staffId });
+    } catch (err: any) {
+      console.error(`❌ Error rescheduling series booking ${occurrence.id}:`, err);
+      failed(err.message);
+    }
+  }
+
+  if (result.updated.length > 0) {
+    const first = result.updated[0];
+    try {
+      await createNotification({
+        userId: booking.customerId,
+        bookingId: first.id,
+        type: 'booking_rescheduled',
+        message: actor.role === 'customer'
+          ? `${plural(result.updated.length, 'later appointment')} for "${booking.serviceName}" in your series also moved, starting ${formatWhen(first.bookingDate, time)}.`
+          : `The salon also moved ${plural(result.updated.length, 'later appointment')} for "${booking.serviceName}" in your series, starting ${formatWhen(first.bookingDate, time)}.`,
+      });
+    } catch (err) {
+      console.error('❌ Error creating series notification:', err);
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Sums up a change to the rest of a series for a success message.
+ * @param result - What was updated, what failed and any follow-up problems.
+ * @param action - What was done, e.g. "cancelled".
+ */
+export const describeSeriesUpdate = (result: SeriesUpdateResult, action: string): string => {
+  const parts: string[] = [];
+  if (result.updated.length > 0) {
+    parts.push(`${plural(result.updated.length, 'later appointment')} in the series ${result.updated.length === 1 ? 'was' : 'were'} also ${action}.`);
+  }
+  if (result.failed.length > 0) {
+    parts.push(`Not ${action}: ${result.failed.map(occurrence => `${formatDay(occurrence.date)} (${occurrence.reason || 'unavailable'})`).join('; ')}.`);
+  }
+  parts.push(...result.warnings);
+  return parts.join(' ');
+};
+
+/**
+ * Sums up the dates of a series that couldn't be booked.
+ * @param skipped - The skipped dates.
+ */
+export const describeSkippedDates = (skipped: SeriesOccurrence[]): string =>
+  skipped.map(occurrence => `${formatDay(occurrence.date)}: ${occurrence.reason || 'unavailable'}`).join('; ');
@@ -0,0 +1,209 @@
+// src/utils/bookingStatus.test.ts
+import { describe, expect, it, vi } from 'vitest';
+import { ADMIN_ID, CUSTOMER_BEN_ID, CUSTOMER_LIZA_ID, STAFF_ANA_ID } from '../mocks/fixtures';
+import { bookingHistoryRepository } from '@repositories/bookingHistory';
+import { bookingsRepository } from '@repositories/bookings';
+import { paymentsRepository } from '@repositories/payments';
+import { TEST_TODAY } from '../test/clock';
+import { StatusActor, canTransition, changeBookingStatus, getAllowedTransitions } from './bookingStatus';
+import { addDays } from './helpers';
+import { fetchPaymentSummary } from './payments';
+
+const admin: StatusActor = { id: ADMIN_ID, role: 'admin' };
+const staff: StatusActor = { id: STAFF_ANA_ID, role: 'staff' };
+const liza: StatusActor = { id: CUSTOMER_LIZA_ID, role: 'customer' };
+const ben: StatusActor = { id: CUSTOMER_BEN_ID, role: 'customer' };
+
+const load = async (id: string) => {
+  const booking = await bookingsRepository.getById(id);
+  if (!booking) throw new Error(`Booking ${id} is missing from the fixtures`);
+  return booking;
+};
+
+// Moves a fixture booking to tomorrow at 08:00, inside the 24-hour notice
+const moveInsideNotice = async (id: string) => {
+  await bookingsRepository.update(id, { bookingDate: addDays(TEST_TODAY, 1), bookingTime: '08:00' });
+  return load(id);
+};
+
+describe('status transitions', () => {
+  it('follows the transition table for each role', () => {
+    expect(canTransition('pending', 'confirmed', 'staff')).toBe(true);
+    expect(canTransition('pending', 'confirmed', 'customer')).toBe(false);
+    expect(canTransition('cancelled', 'pending', 'admin')).toBe(true);
+    expect(canTransition('cancelled', 'pending', 'staff')).toBe(false);
+    expect(canTransition('completed', 'cancelled', 'admin')).toBe(false);
+  });
+
+  it('only lets customers cancel', () => {
+    expect(getAllowedTransitions('pending', 'customer').map(transition => transition.to)).toEqual(['cancelled']);
+    expect(getAllowedTransitions('completed', 'customer')).toEqual([]);
+  });
+
+  it('confirms a pending booking and records it in the history', async () => {
+    await changeBookingStatus(await load('8'), 'confirmed', staff, { note: 'Called the customer' });
+
+    expect((await load('8')).status).toBe('confirmed');
+    const history = await bookingHistoryRepository.listForBooking('8');
+    expect(history).toContainEqual(expect.objectContaining({
+      fromStatus: 'pending',
+      toStatus: 'confirmed',
+      changedBy: STAFF_ANA_ID,
+      note: 'Called the customer',
+    }));
+  });
+
+  it("refuses a change the user's role doesn't allow", async () => {
+    await expect(changeBookingStatus(await load('8'), 'confirmed', ben))
+      .rejects.toThrow("A pending booking can't be changed to confirmed.");
+    expect((await load('8')).status).toBe('pending');
+    expect(await bookingHistoryRepository.listForBooking('8')).toEqual([]);
+  });
+
+  it('refuses to save over a booking that changed since it was loaded', async () => {
+    const stale = await load('8');
+    await changeBookingStatus(stale, 'confirmed', staff);
+
+    await expect(changeBookingStatus(stale, 'cancelled', ben)).rejects.toThrow('This booking has changed since it was loaded');
+    expect((await load('8')).status).toBe('confirmed');
+  });
+
+  it('lets an admin reopen a cancelled booking', async () => {
+    await changeBookingStatus(await load('4'), 'pending', admin, { note: 'Customer called back' });
+
+    expect((await load('4')).status).toBe('pending');
+  });
+});
+
+describe('completing a booking', () => {
+  it('asks for the balance before completing', async () => {
+    await expect(changeBookingStatus(await load('9'), 'completed', staff))
+      .rejects.toThrow('is still due');
+    expect((await load('9')).status).toBe('confirmed');
+  });
+
+  it('collects the balance left after the deposit', async () => {
+    await changeBookingStatus(await load('9'), 'completed', staff, { paymentMethod: 'cash' });
+
+    const payments = await paymentsRepository.list({ bookingIds: ['9'] });
+    expect(payments.filter(payment => payment.kind === 'payment').map(payment => payment.amount)).toEqual([440]);
+    expect(await fetchPaymentSummary(await load('9'))).toMatchObject({ collected: 550, balanceDue: 0 });
+    expect((await load('9')).status).toBe('completed');
+  });
+
+  it('collects the full price again for a booking re-activated after its deposit was refunded', async () => {
+    await changeBookingStatus(await load('9'), 'cancelled', liza);
+    await changeBookingStatus(await load('9'), 'pending', admin);
+    await changeBookingStatus(await load('9'), 'confirmed', staff);
+    await changeBookingStatus(await load('9'), 'completed', staff, { paymentMethod: 'card' });
+
+    expect(await fetchPaymentSummary(await load('9'))).toMatchObject({ paid: 660, refunded: 110, collected: 550, balanceDue: 0 });
+  });
+
+  it('refunds the balance again when the booking changed before it could be completed', async () => {
+    const stale = await load('9');
+    await changeBookingStatus(stale, 'in_progress', staff);
+
+    await expect(changeBookingStatus(stale, 'completed', staff, { paymentMethod: 'cash' }))
+      .rejects.toThrow('This booking has changed since it was loaded');
+
+    const payments = await paymentsRepository.list({ bookingIds: ['9'] });
+    const balance = payments.find(payment => payment.kind === 'payment');
+    expect(payments.filter(payment => payment.kind === 'refund')).toEqual([expect.objectContaining({ amount: 440, refundOf: balance?.id })]);
+    expect((await load('9')).status).toBe('in_progress');
+  });
+
+  it('still completes the booking when its stock usage fails, and says so', async () => {
+    const inventory = await import('./inventory');
+    vi.spyOn(inventory, 'consumeServiceMaterials').mockRejectedValueOnce(new Error('Stock is locked'));
+
+    const warnings = await changeBookingStatus(await load('9'), 'completed', staff, { paymentMethod: 'cash' });
+
+    expect(warnings).toEqual(['Stock could not be updated: Stock is locked']);
+    expect((await load('9')).status).toBe('completed');
+  });
+});
+
+describe('cancelling a booking', () => {
+  it('refunds the deposit in full with enough notice', async () => {
+    await changeBookingStatus(await load('9'), 'cancelled', liza);
+
+    const refunds = (await paymentsRepository.list({ bookingIds: ['9'] })).filter(payment => payment.kind === 'refund');
+    expect(refunds).toEqual([expect.objectContaining({ amount: 110, refundOf: '13' })]);
+    expect((await load('9')).status).toBe('cancelled');
+  });
+
+  it('keeps the cancellation when the refund fails, and says so', async () => {
+    vi.spyOn(paymentsRepository, 'record').mockRejectedValueOnce(new Error('Network down'));
+
+    const warnings = await changeBookingStatus(await load('9'), 'cancelled', liza);
+
+    expect(warnings).toEqual(['The refund could not be processed: Network down']);
+    expect((await load('9')).status).toBe('cancelled');
+  });
+
+  it('keeps the deposit when a customer cancels late', async () => {
+    await changeBookingStatus(await moveInsideNotice('9'), 'cancelled', liza);
+
+    const payments = await paymentsRepository.list({ bookingIds: ['9'] });
+    expect(payments.some(payment => payment.kind === 'refund')).toBe(false);
+  });
+
+  it('needs a reason before staff waive a late cancellation', async () => {
+    const booking = await moveInsideNotice('9');
+    await expect(changeBookingStatus(booking, 'cancelled', staff)).rejects.toThrow('late cancellation');
+
+    await changeBookingStatus(booking, 'cancelled', staff, { policyOverride: 'Therapist is ill' });
+
+    const history = await bookingHistoryRepository.listForBooking('9');
+    expect(history.find(entry => entry.toStatus === 'cancelled')?.note).toBe('Cancellation policy waived by staff: Therapist is ill');
+    const refunds = (await paymentsRepository.list({ bookingIds: ['9'] })).filter(payment => payment.kind === 'refund');
+    expect(refunds.map(refund => refund.amount)).toEqual([110]);
+  });
+});
+
+describe('rescheduling a booking', () => {
+  it('moves the booking and counts the reschedule', async () => {
+    const newDate = addDays(TEST_TODAY, 20);
+    await changeBookingStatus(await load('9'), 'confirmed', liza, { changes: { bookingDate: newDate, bookingTime: '14:00' } });
+
+    expect(await load('9')).toMatchObject({ bookingDate: newDate, bookingTime: '14:00', rescheduleCount: 1, revision: 1 });
+  });
+
+  it("doesn't count a save that keeps the same time as a reschedule", async () => {
+    const booking = await load('9');
+    await changeBookingStatus(booking, 'confirmed', admin, { changes: { bookingTime: '11:00:00', notes: 'Window seat' } });
+
+    expect((await load('9')).rescheduleCount).toBe(0);
+  });
+
+  it('holds customers and staff to the reschedule notice', async () => {
+    const booking = await moveInsideNotice('9');
+    const changes = { bookingDate: addDays(TEST_TODAY, 25) };
+
+    await expect(changeBookingStatus(booking, 'confirmed', liza, { changes })).rejects.toThrow('Please contact the salon');
+    await expect(changeBookingStatus(booking, 'confirmed', staff, { changes, policyOverride: 'Asked nicely' }))
+      .rejects.toThrow('Only an admin can override the reschedule policy.');
+  });
+
+  it('lets an admin override the reschedule policy with a reason', async () => {
+    const booking = await moveInsideNotice('9');
+
+    await expect(changeBookingStatus(booking, 'confirmed', admin, { changes: { bookingDate: addDays(TEST_TODAY, 25) } }))
+      .rejects.toThrow('give a reason');
+    await changeBookingStatus(booking, 'confirmed', admin, { changes: { bookingDate: addDays(TEST_TODAY, 25) }, policyOverride: 'Salon closed for repairs' });
+
+    expect((await load('9')).bookingDate).toBe(addDays(TEST_TODAY, 25));
+    const history = await bookingHistoryRepository.listForBooking('9');
+    expect(history.some(entry => entry.note === 'Reschedule policy overridden: Salon closed for repairs')).toBe(true);
+  });
+
+  it('stops customers after the most reschedules the policy allows', async () => {
+    for (const days of [21, 22]) {
+      await changeBookingStatus(await load('9'), 'confirmed', liza, { changes: { bookingDate: addDays(TEST_TODAY, days) } });
+    }
+
+    await expect(changeBookingStatus(await load('9'), 'confirmed', liza, { changes: { bookingDate: addDays(TEST_TODAY, 23) } }))
+      .rejects.toThrow('already been rescheduled 2 times');
+  });
+});
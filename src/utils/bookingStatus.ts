@@ -0,0 +1,247 @@
+// src/utils/bookingStatus.ts
+import { Booking, BookingChanges, BookingStatus } from '@models/booking';
+import { PaymentMethod } from '@models/payment';
+import { UserRole } from '@models/user';
+import { bookingHistoryRepository } from '@repositories/bookingHistory';
+import { BookingOwner, bookingsRepository } from '@repositories/bookings';
+import { NewTreatmentNote, treatmentNotesRepository } from '@repositories/treatmentNotes';
+import { enforceReschedulePolicy, resolveCancellation, settleCancellation } from './bookingPolicy';
+import { formatCurrency } from './helpers';
+import { consumeServiceMaterials } from './inventory';
+import { fetchPaymentSummary, refundPayment, settleBalance } from './payments';
+
+/**
+ * One allowed move from a status, and who may make it.
+ */
+export interface StatusTransition {
+  to: BookingStatus;
+  roles: UserRole[];
+  label: string; // Button text, e.g. "Mark Complete"
+  description: string;
+}
+
+/**
+ * The user changing a booking's status.
+ */
+export interface StatusActor {
+  id: string;
+  role: UserRole;
+}
+
+export interface StatusChangeOptions {
+  changes?: BookingChanges; // Other fields to update at the same time, e.g. a new date
+  owner?: BookingOwner;
+  note?: string; // Kept in the booking's history
+  paymentMethod?: PaymentMethod; // How the balance is paid when completing
+  treatmentNote?: Pick<NewTreatmentNote, 'note' | 'productsUsed'>; // Private notes kept with the visit when completing
+  policyOverride?: string; // Why the cancellation or reschedule policy is being set aside
+}
+
+export const STATUS_LABELS: Record<BookingStatus, string> = {
+  pending: 'Pending',
+  confirmed: 'Confirmed',
+  in_progress: 'In Progress',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+  no_show: 'No-show',
+};
+
+// Bookings that are still to be seen through (not yet finished, cancelled or missed)
+export const ACTIVE_STATUSES: BookingStatus[] = ['pending', 'confirmed', 'in_progress'];
+
+// Badge colours for each status
+export const STATUS_COLORS: Record<BookingStatus, { background: string; color: string }> = {
+  pending: { background: '#fff3e0', color: '#f57c00' },
+  confirmed: { background: '#e8f5e8', color: '#2e7d32' },
+  in_progress: { background: '#ede7f6', color: '#5e35b1' },
+  completed: { background: '#e3f2fd', color: '#1565c0' },
+  cancelled: { background: '#ffebee', color: '#c62828' },
+  no_show: { background: '#eceff1', color: '#455a64' },
+};
+
+// Every status change a booking can go through. Anything not listed is refused.
+export const STATUS_TRANSITIONS: Record<BookingStatus, StatusTransition[]> = {
+  pending: [
+    { to: 'confirmed', roles: ['staff', 'admin'], label: 'Confirm', description: 'Confirm this appointment with the customer' },
+    { to: 'cancelled', roles: ['customer', 'staff', 'admin'], label: 'Cancel', description: 'Cancel this appointment' },
+  ],
+  confirmed: [
+    { to: 'in_progress', roles: ['staff', 'admin'], label: 'Start', description: 'The customer has arrived and the service has started' },
+    { to: 'completed', roles: ['staff', 'admin'], label: 'Mark Complete', description: 'Mark this appointment as completed' },
+    { to: 'no_show', roles: ['staff', 'admin'], label: 'No-show', description: 'The customer did not arrive for this appointment' },
+    { to: 'pending', roles: ['customer', 'admin'], label: 'Back to Pending', description: 'Needs confirming again, e.g. after moving to a new time' },
+    { to: 'cancelled', roles: ['customer', 'staff', 'admin'], label: 'Cancel', description: 'Cancel this appointment' },
+  ],
+  in_progress: [
+    { to: 'completed', roles: ['staff', 'admin'], label: 'Mark Complete', description: 'Mark this appointment as completed' },
+  ],
+  completed: [
+    { to: 'confirmed', roles: ['admin'], label: 'Re-open', description: 'Re-open this completed appointment' },
+  ],
+  cancelled: [
+    { to: 'pending', roles: ['admin'], label: 'Re-activate', description: 'Re-activate this cancelled appointment' },
+  ],
+  no_show: [
+    { to: 'confirmed', roles: ['admin'], label: 'Undo No-show', description: 'Put this appointment back to confirmed' },
+  ],
+};
+
+/**
+ * Lists the status changes a user may make from a status.
+ * @param from - The booking's current status.
+ * @param role - The user's role.
+ */
+export const getAllowedTransitions = (from: BookingStatus, role: UserRole): StatusTransition[] =>
+  STATUS_TRANSITIONS[from].filter(transition => transition.roles.includes(role));
+
+/**
+ * Checks whether a user may move a booking from one status to another.
+ * @param from - The booking's current status.
+ * @param to - The requested status.
+ * @param role - The user's role.
+ */
+export const canTransition = (from: BookingStatus, to: BookingStatus, role: UserRole): boolean =>
+  getAllowedTransitions(from, role).some(transition => transition.to === to);
+
+/**
+ * Adds an entry to a booking's history. A failure is logged rather than thrown,
+ * since the booking itself has already been saved.
+ * @param bookingId - The booking's ID.
+ * @param fromStatus - The previous status; omitted when the booking was just made.
+ * @param toStatus - The new status.
+ * @param actor - The user who made the change.
+ * @param note - Optional note, e.g. "Rescheduled".
+ */
+export const logStatusChange = async (
+  bookingId: string,
+  fromStatus: BookingStatus | undefined,
+  toStatus: BookingStatus,
+  actor: StatusActor,
+  note?: string
+): Promise<void> => {
+  try {
+    await bookingHistoryRepository.record({
+      bookingId,
+      fromStatus,
+      toStatus,
+      changedBy: actor.id,
+      changedByRole: actor.role,
+      note,
+    });
+  } catch (err) {
+    console.error('❌ Error recording booking history:', err);
+  }
+};
+
+/**
+ * Moves a booking to a new status if the transition table allows it, and records it in the history.
+ * When the status isn't changing, only `options.changes` are saved.
+ * A new date or time is held to the reschedule policy. Completing a booking first collects any
+ * balance due (refunded again if the booking can't be saved), then saves any treatment note and
+ * takes the materials it used out of stock; cancelling refunds what was paid, less anything kept
+ * under the cancellation policy.
+ * @param booking - The booking as currently loaded.
+ * @param to - The requested status.
+ * @param actor - The user making the change.
+ * @param options - Other fields to change, ownership restriction, history note, payment and treatment note when completing, and any policy override.
+ * @returns Follow-up steps that failed after the booking was saved, e.g. a refund, for staff to sort out by hand. Empty when everything went through.
+ */
+export const changeBookingStatus = async (
+  booking: Pick<Booking, 'id' | 'status' | 'price' | 'serviceName' | 'serviceId' | 'customerId' | 'bookingDate' | 'bookingTime' | 'rescheduleCount'>,
+  to: BookingStatus,
+  actor: StatusActor,
+  options: StatusChangeOptions = {}
+): Promise<string[]> => {
+  if (booking.status !== to && !canTransition(booking.status, to, actor.role)) {
+    throw new Error(
+      `A ${STATUS_LABELS[booking.status].toLowerCase()} booking can't be changed to ${STATUS_LABELS[to].toLowerCase()}.`
+    );
+  }
+
+  let changes = options.changes;
+  let policyNote: string | undefined;
+
+  const rescheduled = !!changes && (
+    (changes.bookingDate !== undefined && changes.bookingDate !== booking.bookingDate) ||
+    (changes.bookingTime !== undefined && changes.bookingTime.substring(0, 5) !== booking.bookingTime.substring(0, 5))
+  );
+  if (rescheduled && to !== 'cancelled') {
+    policyNote = await enforceReschedulePolicy(booking, actor.role, options.policyOverride);
+    changes = { ...changes, rescheduleCount: booking.rescheduleCount + 1 };
+  }
+
+  if (booking.status === to) {
+    if (changes) {
+      await bookingsRepository.update(booking.id, changes, options.owner, booking.status);
+      // An overridden policy is always kept on record
+      if (policyNote) await logStatusChange(booking.id, booking.status, to, actor, [options.note, policyNote].filter(Boolean).join(' · '));
+    }
+    return [];
+  }
+
+  if (to === 'completed' && !options.paymentMethod) {
+    const { balanceDue } = await fetchPaymentSummary(booking);
+    if (balanceDue > 0) {
+      throw new Error(`${formatCurrency(balanceDue)} is still due. Take the payment before completing this booking.`);
+    }
+  }
+
+  const cancellation = to === 'cancelled' ? await resolveCancellation(booking, actor.role, options.policyOverride) : null;
+  if (cancellation?.note) policyNote = cancellation.note;
+
+  const settlement = to === 'completed' && options.paymentMethod
+    ? await settleBalance(booking, options.paymentMethod, actor.id)
+    : null;
+
+  try {
+    await bookingsRepository.update(booking.id, { ...changes, status: to }, options.owner, booking.status);
+  } catch (err: any) {
+    // The booking stays as it was, so the customer gets back what was just taken
+    if (settlement) {
+      try {
+        await refundPayment(settlement, actor.id);
+      } catch (refundErr: any) {
+        console.error('❌ Refund error:', refundErr);
+        throw new Error(`${err.message} The ${formatCurrency(settlement.amount)} just taken could not be refunded: ${refundErr.message}`);
+      }
+    }
+    throw err;
+  }
+  await logStatusChange(booking.id, booking.status, to, actor, [options.note, policyNote].filter(Boolean).join(' · ') || undefined);
+
+  const warnings: string[] = [];
+
+  if (to === 'completed' && options.treatmentNote) {
+    try {
+      await treatmentNotesRepository.create({
+        ...options.treatmentNote,
+        bookingId: booking.id,
+        customerId: booking.customerId,
+        writtenBy: actor.id,
+      });
+    } catch (err: any) {
+      console.error('❌ Treatment note error:', err);
+      warnings.push(`The treatment note could not be saved: ${err.message}`);
+    }
+  }
+
+  if (to === 'completed') {
+    try {
+      await consumeServiceMaterials(booking, actor.id);
+    } catch (err: any) {
+      console.error('❌ Stock usage error:', err);
+      warnings.push(`Stock could not be updated: ${err.message}`);
+    }
+  }
+
+  if (cancellation) {
+    try {
+      await settleCancellation(booking, cancellation.terms, actor.id);
+    } catch (err: any) {
+      console.error('❌ Refund error:', err);
+      warnings.push(`The refund could not be processed: ${err.message}`);
+    }
+  }
+
+  return warnings;
+};
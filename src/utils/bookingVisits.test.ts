@@ -0,0 +1,66 @@
+// src/utils/bookingVisits.test.ts
+import { describe, expect, it, vi } from 'vitest';
+import { ADMIN_ID, CUSTOMER_LIZA_ID, STAFF_ANA_ID } from '../mocks/fixtures';
+import { bookingsRepository } from '@repositories/bookings';
+import { paymentsRepository } from '@repositories/payments';
+import { TEST_TODAY } from '../test/clock';
+import { StatusActor } from './bookingStatus';
+import { NewVisitRequest, cancelVisit, createVisit } from './bookingVisits';
+import { addDays } from './helpers';
+import { fetchPaymentSummary } from './payments';
+
+const admin: StatusActor = { id: ADMIN_ID, role: 'admin' };
+const liza: StatusActor = { id: CUSTOMER_LIZA_ID, role: 'customer' };
+
+const visitDate = addDays(TEST_TODAY, 2);
+
+// A Gel Manicure then Underarm Waxing with Ana, two days from now
+const manicureAndWaxing: NewVisitRequest = {
+  customerId: CUSTOMER_LIZA_ID,
+  date: visitDate,
+  startTime: '10:00',
+  items: [
+    { service: { id: '3', name: 'Gel Manicure', price: 550, durationMinutes: 45, availableDays: [] }, staffId: STAFF_ANA_ID, candidateStaffIds: [STAFF_ANA_ID] },
+    { service: { id: '5', name: 'Underarm Waxing', price: 350, durationMinutes: 30, availableDays: [] }, staffId: STAFF_ANA_ID, candidateStaffIds: [STAFF_ANA_ID] },
+  ],
+  depositMethod: 'card',
+};
+
+// Liza's waxing at 13:00 that day isn't part of a visit
+const lizasVisitBookings = async () =>
+  (await bookingsRepository.list({ customerId: CUSTOMER_LIZA_ID, fromDate: visitDate, toDate: visitDate }))
+    .filter(booking => booking.visitId);
+
+describe('createVisit', () => {
+  it('books the services back to back', async () => {
+    const { items } = await createVisit(manicureAndWaxing, liza);
+
+    expect(items.map(item => item.time)).toEqual(['10:00', '10:45']);
+    expect((await lizasVisitBookings()).map(booking => booking.status)).toEqual(['pending', 'pending']);
+  });
+
+  it('refunds and cancels what was paid for, and removes the rest, when a deposit fails', async () => {
+    const record = paymentsRepository.record;
+    vi.spyOn(paymentsRepository, 'record')
+      .mockImplementationOnce(record)
+      .mockRejectedValueOnce(new Error('Failed to record payment: offline'));
+
+    await expect(createVisit(manicureAndWaxing, liza)).rejects.toThrow('any deposit taken has been refunded');
+
+    const bookings = await lizasVisitBookings();
+    expect(bookings).toEqual([expect.objectContaining({ serviceName: 'Gel Manicure', status: 'cancelled' })]);
+    expect(await fetchPaymentSummary(bookings[0])).toMatchObject({ paid: 110, refunded: 110 });
+  });
+});
+
+describe('cancelVisit', () => {
+  it('reports a refund that failed as a warning', async () => {
+    const massage = await bookingsRepository.getById('12');
+    vi.spyOn(paymentsRepository, 'record').mockRejectedValueOnce(new Error('Failed to record payment: offline'));
+
+    const { cancelled, warnings } = await cancelVisit(massage!, admin);
+
+    expect(cancelled.map(booking => booking.id)).toEqual(['12', '13']);
+    expect(warnings).toEqual([expect.stringMatching(/^Swedish Massage: The refund could not be processed/)]);
+  });
+});
@@ -0,0 +1,341 @@
+// src/utils/bookingVisits.ts
+import { Booking } from '@models/booking';
+import { PaymentMethod } from '@models/payment';
+import { Service } from '@models/service';
+import { BookingOwner, bookingsRepository } from '@repositories/bookings';
+import { bookingVisitsRepository } from '@repositories/bookingVisits';
+import {
+  BLOCKING_STATUSES,
+  checkStaffAvailability,
+  findLeastLoadedAvailableStaff,
+  isServiceOfferedOn,
+  minutesToTime,
+  timeToMinutes,
+} from './availability';
+import { STATUS_LABELS, StatusActor, canTransition, changeBookingStatus, logStatusChange } from './bookingStatus';
+import { hasStarted } from './helpers';
+import { createNotification, formatWhen } from './notifications';
+import { payDeposit, refundBookingPayments } from './payments';
+import { getWeekdayName } from './staffSchedule';
+import { offerCancelledBookingSlot } from './waitlist';
+
+type VisitService = Pick<Service, 'id' | 'name' | 'price' | 'durationMinutes' | 'availableDays'>;
+
+/**
+ * One service in a visit and who should do it.
+ */
+export interface VisitItem {
+  service: VisitService;
+  staffId?: string; // Omitted when the salon picks the least-busy qualified staff member
+  candidateStaffIds: string[]; // Staff qualified for the service
+}
+
+/**
+ * A service's place in the visit and whether it can be booked there.
+ */
+export interface PlannedVisitItem {
+  service: VisitService;
+  time: string; // HH:MM
+  endTime: string; // HH:MM
+  staffId?: string; // Who would do it, when available
+  available: boolean;
+  reason?: string; // Why it can't be booked at that time
+  bookingId?: string; // Set once booked
+}
+
+/**
+ * A visit to book for a customer: the services in order, starting at a time.
+ */
+export interface NewVisitRequest {
+  customerId: string;
+  date: string; // YYYY-MM-DD
+  startTime: string; // HH:MM, when the first service starts
+  items: VisitItem[];
+  notes?: string;
+  depositMethod: PaymentMethod;
+}
+
+export interface VisitBookingResult {
+  visitId: string;
+  items: PlannedVisitItem[];
+}
+
+/**
+ * The services of a visit that were cancelled, and any follow-up steps that failed for them.
+ */
+export interface VisitCancelResult {
+  cancelled: Booking[];
+  warnings: string[]; // e.g. a refund that couldn't be processed
+}
+
+// e.g. '"Swedish Massage" and "Classic Facial"'
+const listServices = (names: string[]): string => {
+  const quoted = names.map(name => `"${name}"`);
+  return quoted.length > 1 ? `${quoted.slice(0, -1).join(', ')} and ${quoted[quoted.length - 1]}` : quoted.join('');
+};
+
+/**
+ * The combined price and length of a visit's services.
+ * @param services - The services in the visit.
+ */
+export const getVisitTotals = (services: Pick<Service, 'price' | 'durationMinutes'>[]): { price: number; durationMinutes: number } => ({
+  price: Math.round(services.reduce((sum, service) => sum + service.price, 0) * 100) / 100,
+  durationMinutes: services.reduce((sum, service) => sum + service.durationMinutes, 0),
+});
+
+/**
+ * Lays a visit's services out back to back, each starting when the one before it ends.
+ * @param services - The services in order.
+ * @param startTime - When the first one starts (HH:MM).
+ * @returns Each service's start and end time.
+ */
+export const scheduleVisitItems = (
+  services: Pick<Service, 'durationMinutes'>[],
+  startTime: string
+): { time: string; endTime: string }[] => {
+  let start = timeToMinutes(startTime);
+  return services.map(service => {
+    const slot = { time: minutesToTime(start), endTime: minutesToTime(start + service.durationMinutes) };
+    start += service.durationMinutes;
+    return slot;
+  });
+};
+
+/**
+ * Checks every service of a visit at its place in the schedule: the service must run that day
+ * and its staff member (or, with any staff, a qualified staff member) must be free for all of it.
+ * @param date - The visit's date (YYYY-MM-DD).
+ * @param startTime - When the first service starts (HH:MM).
+ * @param items - The services in order, with their staff.
+ */
+export const checkVisit = async (date: string, startTime: string, items: VisitItem[]): Promise<PlannedVisitItem[]> => {
+  const slots = scheduleVisitItems(items.map(item => item.service), startTime);
+  const planned: PlannedVisitItem[] = [];
+
+  for (const [index, item] of items.entries()) {
+    const entry: PlannedVisitItem = { service: item.service, ...slots[index], available: false };
+
+    if (hasStarted(date, entry.time)) {
+      entry.reason = 'This time has already passed.';
+    } else if (!isServiceOfferedOn(item.service.availableDays, date)) {
+      entry.reason = `${item.service.name} isn't offered on ${getWeekdayName(date)}s.`;
+    } else if (item.staffId) {
+      const { available, reason } = await checkStaffAvailability({
+        staffId: item.staffId,
+        date,
+        time: entry.time,
+        durationMinutes: item.service.durationMinutes,
+      });
+      entry.available = available;
+      entry.staffId = available ? item.staffId : undefined;
+      entry.reason = reason;
+    } else {
+      const staffId = await findLeastLoadedAvailableStaff(item.candidateStaffIds, {
+        date,
+        time: entry.time,
+        durationMinutes: item.service.durationMinutes,
+      });
+      entry.available = !!staffId;
+      entry.staffId = staffId || undefined;
+      entry.reason = staffId ? undefined : 'No qualified staff member is free at this time.';
+    }
+
+    planned.push(entry);
+  }
+
+  return planned;
+};
+
+/**
+ * Sums up the services of a visit that can't be booked where they fall.
+ * @param planned - The checked visit.
+ */
+export const describeVisitConflicts = (planned: PlannedVisitItem[]): string =>
+  planned
+    .filter(item => !item.available)
+    .map(item => `${item.service.name} at ${item.time}: ${item.reason || 'unavailable'}`)
+    .join('; ');
+
+/**
+ * Books all of a visit's services back to back, or none of them: if any service can't be booked
+ * or a deposit fails, deposits already taken are refunded and those bookings cancelled (payments
+ * keep them on record), and bookings without a payment are removed.
+ * @param request - The customer, date, start time, services, notes and deposit method.
+ * @param actor - The user booking the visit.
+ * @returns The visit's ID and each service's booking.
+ */
+export const createVisit = async (request: NewVisitRequest, actor: StatusActor): Promise<VisitBookingResult> => {
+  if (request.items.length < 2) {
+    throw new Error('Add at least two services to book them as one visit.');
+  }
+
+  const planned = await checkVisit(request.date, request.startTime, request.items);
+  if (planned.some(item => !item.available || !item.staffId)) {
+    throw new Error(`The visit could not be booked, so nothing was booked. ${describeVisitConflicts(planned)}`);
+  }
+
+  const visitId = await bookingVisitsRepository.create({
+    customerId: request.customerId,
+    visitDate: request.date,
+    startTime: request.startTime,
+    createdBy: actor.id,
+  });
+
+  const booked: string[] = [];
+  const deposited = new Set<string>();
+  try {
+    for (const [index, item] of planned.entries()) {
+      const bookingId = await bookingsRepository.create({
+        serviceId: item.service.id,
+        customerId: request.customerId,
+        staffId: item.staffId!,
+        staffAutoAssigned: !request.items[index].staffId,
+        bookingDate: request.date,
+        bookingTime: item.time,
+        totalPrice: item.service.price,
+        notes: request.notes,
+        visitId,
+      });
+      booked.push(bookingId);
+      item.bookingId = bookingId;
+    }
+
+    for (const item of planned) {
+      const deposit = await payDeposit({ id: item.bookingId!, price: item.service.price, serviceName: item.service.name }, request.depositMethod, actor.id);
+      if (deposit) deposited.add(item.bookingId!);
+    }
+  } catch (err: any) {
+    console.error('❌ Visit booking error, rolling back:', err);
+    let undone = true;
+    for (const bookingId of booked) {
+      try {
+        if (deposited.has(bookingId)) {
+          await refundBookingPayments(bookingId, actor.id);
+          await bookingsRepository.update(bookingId, { status: 'cancelled' });
+        } else {
+          await bookingsRepository.delete(bookingId);
+        }
+      } catch (rollbackErr) {
+        console.error(`❌ Error rolling back visit booking ${bookingId}:`, rollbackErr);
+        undone = false;
+      }
+    }
+    // The visit stays while cancelled bookings still belong to it
+    if (deposited.size === 0 && undone) {
+      try {
+        await bookingVisitsRepository.delete(visitId);
+      } catch (rollbackErr) {
+        console.error(`❌ Error removing visit ${visitId}:`, rollbackErr);
+      }
+    }
+    throw new Error(undone
+      ? `Your visit was not booked and any deposit taken has been refunded. ${err.message}`
+      : `Your visit was not booked, but part of it could not be undone. Please contact the salon. ${err.message}`);
+  }
+
+  for (const item of planned) {
+    await logStatusChange(item.bookingId!, undefined, 'pending', actor, 'Booked as part of a multi-service visit');
+  }
+
+  // One message for the whole visit rather than one per service
+  try {
+    const when = formatWhen(request.date, request.startTime);
+    const services = listServices(planned.map(item => item.service.name));
+    await createNotification({
+      userId: request.customerId,
+      bookingId: planned[0].bookingId,
+      type: 'booking_created',
+      message: actor.role === 'customer'
+        ? `Your visit on ${when} for ${services} has been received and is awaiting confirmation.`
+        : `The salon booked a visit for you on ${when} for ${services}.`,
+    });
+  } catch (err) {
+    console.error('❌ Error creating visit notification:', err);
+  }
+
+  return { visitId, items: planned };
+};
+
+/**
+ * Picks a booking's visit out of a loaded list, in the order the services run.
+ * @param booking - Any booking in the visit.
+ * @param bookings - Bookings already loaded, e.g. the customer's.
+ */
+export const getVisitBookings = (booking: Booking, bookings: Booking[]): Booking[] => {
+  if (!booking.visitId) return [booking];
+  return bookings
+    .filter(other => other.visitId === booking.visitId)
+    .sort((a, b) => a.bookingTime.localeCompare(b.bookingTime));
+};
+
+/**
+ * Cancels every service of a visit that is still to come. Each is checked to be one the user may
+ * cancel before any is, then each is cancelled under the cancellation policy and its time offered
+ * to the waitlist. This isn't a single transaction: if a cancellation fails part way, the services
+ * already cancelled stay cancelled and the error names them. The customer gets one notification for the visit.
+ * @param booking - Any booking in the visit.
+ * @param actor - The user cancelling.
+ * @param options - Ownership restriction and any admin policy override.
+ * @returns The bookings that were cancelled, and any follow-up steps that failed, e.g. a refund.
+ */
+export const cancelVisit = async (
+  booking: Booking,
+  actor: StatusActor,
+  options: { owner?: BookingOwner; policyOverride?: string } = {}
+): Promise<VisitCancelResult> => {
+  if (!booking.visitId) {
+    throw new Error('This booking is not part of a visit.');
+  }
+
+  const visit = (await bookingsRepository.list({ visitId: booking.visitId }))
+    .filter(other => BLOCKING_STATUSES.includes(other.status));
+  if (visit.length === 0) {
+    throw new Error('Nothing in this visit is left to cancel.');
+  }
+
+  for (const other of visit) {
+    if (!canTransition(other.status, 'cancelled', actor.role)) {
+      throw new Error(`${other.serviceName} is ${STATUS_LABELS[other.status].toLowerCase()} and can't be cancelled, so the visit was left as it is.`);
+    }
+    if ((options.owner?.customerId && other.customerId !== options.owner.customerId) ||
+      (options.owner?.staffId && other.staffId !== options.owner.staffId)) {
+      throw new Error('Some services in this visit are with other staff members. Ask an admin to cancel the whole visit.');
+    }
+  }
+
+  const cancelled: Booking[] = [];
+  const warnings: string[] = [];
+  for (const other of visit) {
+    try {
+      const followUps = await changeBookingStatus(other, 'cancelled', actor, {
+        owner: options.owner,
+        policyOverride: options.policyOverride,
+        note: other.id === booking.id ? undefined : 'Cancelled with the rest of the visit',
+      });
+      warnings.push(...followUps.map(warning => `${other.serviceName}: ${warning}`));
+    } catch (err: any) {
+      console.error(`❌ Error cancelling visit booking ${other.id}:`, err);
+      const done = cancelled.map(item => item.serviceName).join(', ');
+      throw new Error(`${other.serviceName} could not be cancelled: ${err.message}${done ? ` (already cancelled: ${done})` : ''}`);
+    }
+    cancelled.push({ ...other, status: 'cancelled' });
+    await offerCancelledBookingSlot(other);
+  }
+
+  try {
+    const when = formatWhen(cancelled[0].bookingDate, cancelled[0].bookingTime);
+    const services = listServices(cancelled.map(item => item.serviceName));
+    await createNotification({
+      userId: booking.customerId,
+      bookingId: booking.id,
+      type: 'booking_cancelled',
+      message: actor.role === 'customer'
+        ? `You cancelled your visit on ${when} for ${services}.`
+        : `Your visit on ${when} for ${services} was cancelled by the salon.`,
+    });
+  } catch (err) {
+    console.error('❌ Error creating visit notification:', err);
+  }
+
+  return { cancelled, warnings };
+};
@@ -0,0 +1,78 @@
+// src/utils/calendar.test.ts
+import { describe, expect, it } from 'vitest';
+import { Booking } from '@models/booking';
+import { ADMIN_ID, CUSTOMER_BEN_ID, STAFF_ANA_ID, STAFF_MARIA_ID } from '../mocks/fixtures';
+import { TEST_TODAY } from '../test/clock';
+import { bookingsRepository } from '@repositories/bookings';
+import { StatusActor } from './bookingStatus';
+import { getCalendarRange, getMonthWeeks, getVisibleHours, layoutDayColumn, moveBooking, shiftCalendarDate } from './calendar';
+import { addDays } from './helpers';
+import { fetchNotifications } from './notifications';
+
+const admin: StatusActor = { id: ADMIN_ID, role: 'admin' };
+
+const load = async (id: string) => (await bookingsRepository.getById(id))!;
+
+const at = (id: string, bookingTime: string, durationMinutes: number) => ({ id, bookingTime, durationMinutes } as Booking);
+
+describe('calendar views', () => {
+  it('shows whole weeks from Monday', () => {
+    expect(getCalendarRange('week', '2026-03-11')).toEqual({ from: '2026-03-09', to: '2026-03-15' });
+    expect(getCalendarRange('month', '2026-03-11')).toEqual({ from: '2026-02-23', to: '2026-04-05' });
+    expect(getMonthWeeks('2026-03-11')).toHaveLength(6);
+  });
+
+  it('keeps to the end of a shorter month when moving by a month', () => {
+    expect(shiftCalendarDate('month', '2026-01-31', 1)).toBe('2026-02-28');
+    expect(shiftCalendarDate('week', '2026-03-11', -1)).toBe('2026-03-04');
+  });
+
+  it('stretches the grid to fit bookings outside the usual hours', () => {
+    expect(getVisibleHours([at('1', '07:30', 60), at('2', '17:30', 90)])).toEqual({ start: 7 * 60, end: 19 * 60 });
+  });
+
+  it('puts overlapping bookings side by side', () => {
+    const blocks = layoutDayColumn([at('1', '10:00', 60), at('2', '10:30', 60), at('3', '11:00', 30), at('4', '13:00', 30)]);
+
+    expect(blocks.map(block => [block.booking.id, block.lane, block.lanes])).toEqual([
+      ['1', 0, 2],
+      ['2', 1, 2],
+      ['3', 0, 2],
+      ['4', 0, 1],
+    ]);
+  });
+});
+
+describe('moveBooking', () => {
+  it('moves a booking and tells the customer', async () => {
+    const date = addDays(TEST_TODAY, 6);
+
+    expect(await moveBooking(await load('8'), { date, time: '14:00', staffId: STAFF_MARIA_ID }, admin)).toBe(true);
+
+    expect(await load('8')).toMatchObject({ bookingDate: date, bookingTime: '14:00', staffId: STAFF_MARIA_ID, staffAutoAssigned: false });
+    const [latest] = await fetchNotifications(CUSTOMER_BEN_ID);
+    expect(latest).toMatchObject({ type: 'booking_rescheduled', bookingId: '8' });
+  });
+
+  it("doesn't save a drop back where the booking was", async () => {
+    const booking = await load('8');
+
+    expect(await moveBooking(booking, { date: booking.bookingDate, time: booking.bookingTime }, admin)).toBe(false);
+  });
+
+  it('refuses a time the staff member is already booked', async () => {
+    await expect(moveBooking(await load('8'), { date: addDays(TEST_TODAY, 8), time: '14:00', staffId: STAFF_ANA_ID }, admin))
+      .rejects.toThrow('The selected staff member is already booked at 13:00–14:30.');
+    expect((await load('8')).bookingDate).toBe(addDays(TEST_TODAY, 5));
+  });
+
+  it('refuses a staff member who does not do the service', async () => {
+    await expect(moveBooking(await load('13'), { date: addDays(TEST_TODAY, 8), time: '16:00', staffId: STAFF_ANA_ID }, admin))
+      .rejects.toThrow("That staff member doesn't perform Classic Facial.");
+  });
+
+  it('refuses to move a booking into the past', async () => {
+    await expect(moveBooking(await load('8'), { date: TEST_TODAY, time: '08:00' }, admin))
+      .rejects.toThrow('Bookings cannot be moved into the past.');
+  });
+});
@@ -0,0 +1,270 @@
+// src/utils/calendar.ts
+import { Booking } from '@models/booking';
+import { BLOCKING_STATUSES, checkStaffAvailability, minutesToTime, timeToMinutes } from './availability';
+import { STATUS_LABELS, StatusActor, changeBookingStatus } from './bookingStatus';
+import { DEFAULT_DURATION_MINUTES, DEFAULT_END_TIME, DEFAULT_START_TIME } from './constants';
+import { addDays, parseDate, toDateString } from './helpers';
+import { notifyBookingEvent } from './notifications';
+import { fetchSpecializations, isQualifiedFor } from './staffSpecializations';
+
+export type CalendarView = 'day' | 'week' | 'month';
+
+/**
+ * The dates a calendar view shows, as inclusive YYYY-MM-DD strings.
+ */
+export interface CalendarRange {
+  from: string;
+  to: string;
+}
+
+/**
+ * Where a booking was dropped on the calendar.
+ */
+export interface BookingMove {
+  date: string; // YYYY-MM-DD
+  time: string; // HH:MM
+  staffId?: string | null; // null leaves the booking unassigned; undefined keeps its staff member
+}
+
+/**
+ * A booking's place in a day column: overlapping bookings share the width side by side.
+ */
+export interface CalendarBlock {
+  booking: Booking;
+  start: number; // Minutes from midnight
+  end: number;
+  lane: number; // 0-based position among the overlapping group
+  lanes: number; // How many lanes the overlapping group needs
+}
+
+export const CALENDAR_VIEW_LABELS: Record<CalendarView, string> = {
+  day: 'Day',
+  week: 'Week',
+  month: 'Month',
+};
+
+// Weeks start on Monday, as in the reports
+const startOfWeek = (value: string): string => addDays(value, -((parseDate(value).getDay() + 6) % 7));
+
+/**
+ * Today as a YYYY-MM-DD string in local time.
+ */
+export const getToday = (): string => toDateString(new Date());
+
+/**
+ * Lists the seven dates of the week (Monday to Sunday) containing a date.
+ * @param date - Any date in the week.
+ */
+export const getWeekDates = (date: string): string[] => {
+  const monday = startOfWeek(date);
+  return Array.from({ length: 7 }, (_, index) => addDays(monday, index));
+};
+
+/**
+ * Lays out a month as whole weeks, Monday first, including the days from
+ * the neighbouring months that fill the first and last weeks.
+ * @param date - Any date in the month.
+ */
+export const getMonthWeeks = (date: string): string[][] => {
+  const first = parseDate(date);
+  first.setDate(1);
+  const last = new Date(first.getFullYear(), first.getMonth() + 1, 0);
+
+  const weeks: string[][] = [];
+  for (let monday = startOfWeek(toDateString(first)); monday <= toDateString(last); monday = addDays(monday, 7)) {
+    weeks.push(getWeekDates(monday));
+  }
+  return weeks;
+};
+
+/**
+ * Works out the dates a view shows around a date.
+ * @param view - Day, week or month.
+ * @param date - The date the calendar is on.
+ */
+export const getCalendarRange = (view: CalendarView, date: string): CalendarRange => {
+  switch (view) {
+    case 'day':
+      return { from: date, to: date };
+    case 'week': {
+      const week = getWeekDates(date);
+      return { from: week[0], to: week[6] };
+    }
+    case 'month': {
+      const weeks = getMonthWeeks(date);
+      return { from: weeks[0][0], to: weeks[weeks.length - 1][6] };
+    }
+  }
+};
+
+/**
+ * Moves the calendar one day, week or month back or forward.
+ * @param view - The current view.
+ * @param date - The date the calendar is on.
+ * @param direction - -1 for back, 1 for forward.
+ */
+export const shiftCalendarDate = (view: CalendarView, date: string, direction: -1 | 1): string => {
+  if (view === 'day') return addDays(date, direction);
+  if (view === 'week') return addDays(date, direction * 7);
+
+  // Pull back to the month's last day so 31 Jan moves to 28/29 Feb, not March
+  const current = parseDate(date);
+  const target = new Date(current.getFullYear(), current.getMonth() + direction, 1);
+  const lastDay = new Date(target.getFullYear(), target.getMonth() + 1, 0).getDate();
+  target.setDate(Math.min(current.getDate(), lastDay));
+  return toDateString(target);
+};
+
+/**
+ * Describes what a view shows, e.g. "Saturday, 18 October 2026", "13 – 19 Oct 2026" or "October 2026".
+ * @param view - The current view.
+ * @param date - The date the calendar is on.
+ */
+export const formatCalendarTitle = (view: CalendarView, date: string): string => {
+  if (view === 'day') {
+    return parseDate(date).toLocaleDateString(undefined, { weekday: 'long', day: 'numeric', month: 'long', year: 'numeric' });
+  }
+  if (view === 'month') {
+    return parseDate(date).toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+  }
+  const { from, to } = getCalendarRange('week', date);
+  const options: Intl.DateTimeFormatOptions = { day: 'numeric', month: 'short', year: 'numeric' };
+  return `${parseDate(from).toLocaleDateString(undefined, { day: 'numeric', month: 'short' })} – ${parseDate(to).toLocaleDateString(undefined, options)}`;
+};
+
+/**
+ * Short weekday and day for column headings, e.g. "Mon 13".
+ * @param date - A YYYY-MM-DD date.
+ */
+export const formatDayHeading = (date: string): string =>
+  parseDate(date).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric' });
+
+/**
+ * Works out the hours a time grid should show: the salon's default day, stretched to
+ * whole hours around any booking that starts earlier or ends later.
+ * @param bookings - The bookings being shown.
+ * @returns Start and end in minutes from midnight.
+ */
+export const getVisibleHours = (bookings: Booking[]): { start: number; end: number } => {
+  let start = timeToMinutes(DEFAULT_START_TIME);
+  let end = timeToMinutes(DEFAULT_END_TIME);
+  bookings.forEach(booking => {
+    const bookingStart = timeToMinutes(booking.bookingTime);
+    start = Math.min(start, bookingStart);
+    end = Math.max(end, bookingStart + (booking.durationMinutes || DEFAULT_DURATION_MINUTES));
+  });
+  return { start: Math.floor(start / 60) * 60, end: Math.min(Math.ceil(end / 60) * 60, 24 * 60) };
+};
+
+/**
+ * Places one column's bookings so overlapping ones sit side by side instead of on top of each other.
+ * @param bookings - The bookings in the column (one day, one staff member or everyone).
+ */
+export const layoutDayColumn = (bookings: Booking[]): CalendarBlock[] => {
+  const blocks = bookings
+    .map(booking => {
+      const start = timeToMinutes(booking.bookingTime);
+      return { booking, start, end: start + (booking.durationMinutes || DEFAULT_DURATION_MINUTES), lane: 0, lanes: 1 };
+    })
+    .sort((a, b) => a.start - b.start || b.end - a.end);
+
+  // Bookings chained together by overlaps form a group that shares the column
+  let group: CalendarBlock[] = [];
+  let groupEnd = -1;
+  const closeGroup = () => {
+    const lanes = group.reduce((max, block) => Math.max(max, block.lane + 1), 1);
+    group.forEach(block => { block.lanes = lanes; });
+    group = [];
+  };
+
+  blocks.forEach(block => {
+    if (block.start >= groupEnd) {
+      closeGroup();
+      groupEnd = -1;
+    }
+    const laneEnds: number[] = [];
+    group.forEach(other => { laneEnds[other.lane] = Math.max(laneEnds[other.lane] || 0, other.end); });
+    const freeLane = laneEnds.findIndex(laneEnd => laneEnd <= block.start);
+    block.lane = freeLane === -1 ? laneEnds.length : freeLane;
+    group.push(block);
+    groupEnd = Math.max(groupEnd, block.end);
+  });
+  closeGroup();
+
+  return blocks;
+};
+
+/**
+ * Whether a booking can be dragged to another time or staff member.
+ * @param booking - The booking.
+ */
+export const canMoveBooking = (booking: Pick<Booking, 'status'>): boolean =>
+  BLOCKING_STATUSES.includes(booking.status);
+
+/**
+ * Moves a booking to a new time, day or staff member after checking the staff member is
+ * qualified, working and free, then lets the customer know when their appointment time changed.
+ * @param booking - The booking as currently loaded.
+ * @param move - Where it was dropped.
+ * @param actor - The admin moving it.
+ * @returns False when the drop didn't change anything.
+ */
+export const moveBooking = async (booking: Booking, move: BookingMove, actor: StatusActor): Promise<boolean> => {
+  if (!canMoveBooking(booking)) {
+    throw new Error(`${STATUS_LABELS[booking.status]} bookings can't be moved.`);
+  }
+
+  const staffId = move.staffId === undefined ? booking.staffId || null : move.staffId;
+  const time = minutesToTime(timeToMinutes(move.time));
+  const timeChanged = move.date !== booking.bookingDate || time !== minutesToTime(timeToMinutes(booking.bookingTime));
+  const staffChanged = staffId !== (booking.staffId || null);
+  if (!timeChanged && !staffChanged) return false;
+
+  if (timeChanged && new Date(`${move.date}T${time}`) < new Date()) {
+    throw new Error('Bookings cannot be moved into the past.');
+  }
+
+  if (staffId) {
+    if (staffChanged && booking.serviceCategory) {
+      const specializations = await fetchSpecializations();
+      if (!isQualifiedFor(staffId, { id: booking.serviceId, category: booking.serviceCategory }, specializations)) {
+        throw new Error(`That staff member doesn't perform ${booking.serviceName}.`);
+      }
+    }
+
+    const { available, reason } = await checkStaffAvailability({
+      staffId,
+      date: move.date,
+      time,
+      durationMinutes: booking.durationMinutes,
+      excludeBookingId: booking.id,
+    });
+    if (!available) {
+      throw new Error(reason);
+    }
+  }
+
+  await changeBookingStatus(booking, booking.status, actor, {
+    changes: {
+      staffId,
+      // Picking a staff member by hand overrides the automatic assignment
+      staffAutoAssigned: staffChanged ? false : booking.staffAutoAssigned,
+      bookingDate: move.date,
+      bookingTime: time,
+    },
+  });
+
+  if (timeChanged) {
+    await notifyBookingEvent({
+      type: 'booking_rescheduled',
+      bookingId: booking.id,
+      customerId: booking.customerId,
+      serviceName: booking.serviceName,
+      bookingDate: move.date,
+      bookingTime: time,
+      actor: actor.role,
+    });
+  }
+
+  return true;
+};
@@ -0,0 +1,21 @@
+// src/utils/clientHistory.ts
+import { ClientVisit } from '@models/treatment';
+import { bookingsRepository } from '@repositories/bookings';
+import { treatmentNotesRepository } from '@repositories/treatmentNotes';
+
+/**
+ * Loads a customer's completed visits, newest first, each with the treatment notes kept about it.
+ * For staff and admins only: the notes are private.
+ * @param customerId - The customer's ID.
+ */
+export const fetchClientHistory = async (customerId: string): Promise<ClientVisit[]> => {
+  const [visits, notes] = await Promise.all([
+    bookingsRepository.list({ customerId, statuses: ['completed'], order: 'schedule_desc' }),
+    treatmentNotesRepository.listForCustomer(customerId),
+  ]);
+
+  return visits.map(booking => ({
+    booking,
+    notes: notes.filter(note => note.bookingId === booking.id),
+  }));
+};
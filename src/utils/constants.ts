@@ -1,6 +1,10 @@
 // src/utils/constants.ts
+import { BookingPolicy } from '@models/booking';
+import { ServiceCategory } from '@models/service';
+import { ContactPreferences } from '@models/user';
 
 export const APP_NAME = "Joyce Aesthetic Salon & Spa";
+export const SALON_ADDRESS = "123 Serenity Lane, Wellness City, WC 54321";
 export const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || "http://localhost:3000/api"; // Replace with your actual backend URL
 
 export const NAV_LINKS = [
@@ -10,6 +14,42 @@ export const NAV_LINKS = [
   { name: "Login", path: "/login" },
 ];
 
+// Fallback used when a booking's service has no duration recorded
+export const DEFAULT_DURATION_MINUTES = 60;
+
+// Used for any day a staff member has no saved schedule (the salon's regular business hours)
+export const DEFAULT_START_TIME = '09:00';
+export const DEFAULT_END_TIME = '18:00';
+
+// Share of the service price customers pay up front when booking online
+export const DEPOSIT_RATE = 0.2;
+
+// Staff commission when no commission rule matches, as a share of the revenue they bring in
+export const DEFAULT_COMMISSION_RATE = 0.1;
+
+// The staff-calendar-feed edge function that serves subscribed staff calendars
+export const STAFF_CALENDAR_FEED_URL = `${import.meta.env.VITE_SUPABASE_URL || ''}/functions/v1/staff-calendar-feed`;
+
+// How long a waitlisted customer has to claim a freed time before it goes to the next in line
+export const WAITLIST_HOLD_MINUTES = 120;
+
+// Most appointments one recurring series can book at once
+export const MAX_SERIES_OCCURRENCES = 12;
+
+// Used until an admin saves the salon's own cancellation and reschedule policy
+export const DEFAULT_BOOKING_POLICY: BookingPolicy = {
+  cancelNoticeHours: 24,
+  rescheduleNoticeHours: 24,
+  maxReschedules: undefined,
+  lateCancellationPenalty: 'forfeit_deposit',
+  lateCancellationFeeRate: 0.5,
+};
+
+export const SERVICE_CATEGORIES: ServiceCategory[] = ['facial', 'massage', 'nail', 'hair', 'waxing', 'other'];
+
+// Until a customer says otherwise they get booking messages by email and SMS, but no promotions
+export const DEFAULT_CONTACT_PREFERENCES: ContactPreferences = { email: true, sms: true, promotions: false };
+
 export const FOOTER_LINKS = [
   { category: "Services", links: ["Facials", "Massages", "Manicures", "Hair Styling"] },
   { category: "About Us", links: ["Our Story", "Team", "Careers"] },
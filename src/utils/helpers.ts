@@ -42,4 +42,69 @@ export const formatCurrency = (amount: number): string =>
   new Intl.NumberFormat('en-PH', {
     style: 'currency',
     currency: 'PHP',
-  }).format(amount);
\ No newline at end of file
+  }).format(amount);
+
+/**
+ * Rounds an amount to centavos, avoiding floating point leftovers such as 0.30000000000000004.
+ * @param amount - The amount.
+ */
+export const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Formats a date as a local YYYY-MM-DD string, the format bookings are stored in.
+ * @param date - The date.
+ */
+export const toDateString = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * Parses a YYYY-MM-DD string as local midnight (new Date('YYYY-MM-DD') would read it as UTC).
+ * @param value - The date string.
+ */
+export const parseDate = (value: string): Date => {
+  const [year, month, day] = value.split('-').map(part => parseInt(part, 10));
+  return new Date(year, month - 1, day);
+};
+
+/**
+ * Moves a YYYY-MM-DD date by a number of days.
+ * @param value - The date string.
+ * @param days - Days to add; negative to go back.
+ */
+export const addDays = (value: string, days: number): string => {
+  const date = parseDate(value);
+  date.setDate(date.getDate() + days);
+  return toDateString(date);
+};
+
+/**
+ * Whole days from one YYYY-MM-DD date to another.
+ * @param from - The earlier date.
+ * @param to - The later date.
+ */
+export const daysBetween = (from: string, to: string): number =>
+  Math.round((parseDate(to).getTime() - parseDate(from).getTime()) / (24 * 60 * 60 * 1000));
+
+/**
+ * The moment an appointment starts. Bookings are stored in the salon's local time.
+ * @param date - The appointment date (YYYY-MM-DD).
+ * @param time - The start time (HH:MM or HH:MM:SS).
+ */
+export const toAppointmentStart = (date: string, time: string): Date => {
+  const start = parseDate(date);
+  const [hours, minutes] = (time || '00:00').split(':').map(part => parseInt(part, 10));
+  start.setHours(hours || 0, minutes || 0);
+  return start;
+};
+
+/**
+ * Whether an appointment has already started.
+ * @param date - The appointment date (YYYY-MM-DD).
+ * @param time - The start time.
+ * @param now - The current time.
+ */
+export const hasStarted = (date: string, time: string, now: Date = new Date()): boolean =>
+  toAppointmentStart(date, time) <= now;
@@ -0,0 +1,56 @@
+// src/utils/icalendar.test.ts
+import { describe, expect, it } from 'vitest';
+import { STAFF_ANA_ID } from '../mocks/fixtures';
+import { bookingsRepository } from '@repositories/bookings';
+import { bookingUid, buildBookingCalendar, buildStaffCalendarFeed } from './icalendar';
+
+const load = async (id: string) => (await bookingsRepository.getById(id))!;
+
+describe('buildBookingCalendar', () => {
+  it("writes the booking as one event at the salon's local time", async () => {
+    const calendar = buildBookingCalendar(await load('7'));
+
+    expect(calendar).toContain('METHOD:PUBLISH');
+    expect(calendar).toContain(`UID:${bookingUid('7')}`);
+    expect(calendar).toContain('DTSTART:20260313T130000');
+    expect(calendar).toContain('DTEND:20260313T133000');
+    expect(calendar).toContain('STATUS:TENTATIVE');
+    expect(calendar.endsWith('END:VCALENDAR\r\n')).toBe(true);
+  });
+
+  it('replaces the event with a newer sequence after a reschedule', async () => {
+    await bookingsRepository.update('7', { bookingTime: '15:00' });
+
+    const calendar = buildBookingCalendar(await load('7'));
+    expect(calendar).toContain('SEQUENCE:1');
+    expect(calendar).toContain('DTSTART:20260313T150000');
+  });
+
+  it('withdraws the event once the booking is cancelled', async () => {
+    await bookingsRepository.update('7', { status: 'cancelled' });
+
+    const calendar = buildBookingCalendar(await load('7'));
+    expect(calendar).toContain('METHOD:CANCEL');
+    expect(calendar).toContain('STATUS:CANCELLED');
+  });
+
+  it('escapes text values and folds long lines', async () => {
+    await bookingsRepository.update('7', { notes: 'Sensitive skin, please; use the mild wax and check in with reception first' });
+
+    const calendar = buildBookingCalendar(await load('7'));
+    expect(calendar.split('\r\n').every(line => new TextEncoder().encode(line).length <= 75)).toBe(true);
+    expect(calendar.replace(/\r\n /g, '')).toContain('Notes: Sensitive skin\\, please\\; use the mild wax');
+  });
+});
+
+describe('buildStaffCalendarFeed', () => {
+  it("lists a staff member's shifts and appointments from today", async () => {
+    const feed = await buildStaffCalendarFeed(STAFF_ANA_ID, 'Ana', 7);
+
+    expect(feed).toContain('X-WR-CALNAME:Ana');
+    expect(feed).toContain(`UID:${bookingUid('7')}`);
+    expect(feed).toContain(`UID:${bookingUid('8')}`);
+    expect(feed).not.toContain(`UID:${bookingUid('3')}`);
+    expect(feed).not.toContain(`UID:${bookingUid('9')}`);
+  });
+});
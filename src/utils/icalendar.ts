@@ -0,0 +1,236 @@
+// src/utils/icalendar.ts
+import { Booking, BookingStatus } from '@models/booking';
+import { WorkingHours } from '@models/schedule';
+import { bookingsRepository } from '@repositories/bookings';
+import { calendarFeedsRepository } from '@repositories/calendarFeeds';
+import { timeToMinutes } from './availability';
+import { STATUS_LABELS } from './bookingStatus';
+import { APP_NAME, DEFAULT_DURATION_MINUTES, SALON_ADDRESS, STAFF_CALENDAR_FEED_URL } from './constants';
+import { formatCurrency, toDateString } from './helpers';
+import { fetchTimeOff, fetchWeeklyHours, findTimeOffOn, getDayOfWeek } from './staffSchedule';
+
+export type CalendarAudience = 'customer' | 'staff';
+
+// How far ahead a staff feed lists shifts and appointments (the staff-calendar-feed edge function uses the same)
+export const STAFF_FEED_DAYS = 60;
+
+const PRODUCT_ID = `-//${APP_NAME}//Bookings//EN`;
+const UID_DOMAIN = 'bookings.joyce-salon';
+
+// Pending bookings may still be declined, so calendars show them as tentative
+const EVENT_STATUS: Record<BookingStatus, string> = {
+  pending: 'TENTATIVE',
+  confirmed: 'CONFIRMED',
+  in_progress: 'CONFIRMED',
+  completed: 'CONFIRMED',
+  cancelled: 'CANCELLED',
+  no_show: 'CANCELLED',
+};
+
+const encoder = new TextEncoder();
+
+// Escapes commas, semicolons, backslashes and line breaks in TEXT values (RFC 5545 §3.3.11)
+const escapeText = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+// Splits content lines longer than 75 octets, continuing each with a leading space
+const foldLine = (line: string): string => {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  Array.from(line).forEach(char => {
+    const size = encoder.encode(char).length;
+    if (octets + size > 75) {
+      parts.push(current);
+      current = ' ';
+      octets = 1;
+    }
+    current += char;
+    octets += size;
+  });
+  parts.push(current);
+  return parts.join('\r\n');
+};
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+// Salon times are written as floating local times so they read the same in any calendar
+const formatLocalDateTime = (date: string, minutes: number): string => {
+  const [year, month, day] = date.split('-').map(part => parseInt(part, 10));
+  const value = new Date(year, month - 1, day, 0, minutes);
+  return `${value.getFullYear()}${pad(value.getMonth() + 1)}${pad(value.getDate())}T${pad(value.getHours())}${pad(value.getMinutes())}00`;
+};
+
+const formatUtcDateTime = (value: Date): string =>
+  value.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+/**
+ * The UID a booking keeps in every calendar file and feed, so re-importing
+ * a rescheduled or cancelled booking updates the existing event.
+ * @param bookingId - The booking's ID.
+ */
+export const bookingUid = (bookingId: string): string => `booking-${bookingId}@${UID_DOMAIN}`;
+
+/**
+ * Builds the VEVENT for a booking, worded for the customer or the staff member.
+ * @param booking - The booking.
+ * @param audience - Who the calendar is for.
+ */
+export const buildBookingEvent = (booking: Booking, audience: CalendarAudience): string[] => {
+  const start = timeToMinutes(booking.bookingTime);
+  const end = start + (booking.durationMinutes || DEFAULT_DURATION_MINUTES);
+  const lastChange = booking.updatedAt || booking.createdAt;
+
+  const summary = audience === 'customer'
+    ? `${booking.serviceName} at ${APP_NAME}`
+    : `${booking.serviceName} – ${booking.customerName}`;
+  const description = [
+    audience === 'customer'
+      ? `With: ${booking.staffName || 'Staff to be assigned'}`
+      : `Customer: ${booking.customerName}${booking.customerPhone ? ` (${booking.customerPhone})` : ''}`,
+    audience === 'staff' && booking.customerAllergies && `Allergies: ${booking.customerAllergies}`,
+    `Price: ${formatCurrency(booking.price)}`,
+    `Status: ${STATUS_LABELS[booking.status]}`,
+    booking.notes && `Notes: ${booking.notes}`,
+  ].filter(Boolean).join('\n');
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${bookingUid(booking.id)}`,
+    `SEQUENCE:${booking.revision}`,
+    `DTSTAMP:${formatUtcDateTime(new Date())}`,
+    ...(lastChange ? [`LAST-MODIFIED:${formatUtcDateTime(new Date(lastChange))}`] : []),
+    `DTSTART:${formatLocalDateTime(booking.bookingDate, start)}`,
+    `DTEND:${formatLocalDateTime(booking.bookingDate, end)}`,
+    `SUMMARY:${escapeText(summary)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    `LOCATION:${escapeText(SALON_ADDRESS)}`,
+    `STATUS:${EVENT_STATUS[booking.status]}`,
+    'END:VEVENT',
+  ];
+};
+
+// A staff member's working hours on one day, with the break noted
+const buildShiftEvent = (date: string, hours: WorkingHours): string[] => [
+  'BEGIN:VEVENT',
+  `UID:shift-${hours.staffId}-${date}@${UID_DOMAIN}`,
+  `DTSTAMP:${formatUtcDateTime(new Date())}`,
+  `DTSTART:${formatLocalDateTime(date, timeToMinutes(hours.startTime))}`,
+  `DTEND:${formatLocalDateTime(date, timeToMinutes(hours.endTime))}`,
+  `SUMMARY:${escapeText(`Shift at ${APP_NAME}`)}`,
+  ...(hours.breakStart && hours.breakEnd ? [`DESCRIPTION:${escapeText(`Break ${hours.breakStart} – ${hours.breakEnd}`)}`] : []),
+  `LOCATION:${escapeText(SALON_ADDRESS)}`,
+  // The appointments inside the shift are what make the staff member busy
+  'TRANSP:TRANSPARENT',
+  'END:VEVENT',
+];
+
+/**
+ * Wraps events in a VCALENDAR, folding long lines and using CRLF line endings.
+ * @param events - The VEVENTs, one array of lines each.
+ * @param options - The calendar's display name, and CANCEL when the file withdraws events.
+ */
+const buildCalendar = (events: string[][], options: { name?: string; method?: 'PUBLISH' | 'CANCEL' } = {}): string =>
+  [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${escapeText(PRODUCT_ID)}`,
+    'CALSCALE:GREGORIAN',
+    `METHOD:${options.method || 'PUBLISH'}`,
+    ...(options.name ? [`X-WR-CALNAME:${escapeText(options.name)}`] : []),
+    ...events.flat(),
+    'END:VCALENDAR',
+  ].map(foldLine).join('\r\n') + '\r\n';
+
+/**
+ * Builds the .ics file a customer adds to their calendar. A cancelled booking produces
+ * a cancellation of the same event, and a rescheduled one replaces it.
+ * @param booking - The booking as it is now.
+ */
+export const buildBookingCalendar = (booking: Booking): string =>
+  buildCalendar([buildBookingEvent(booking, 'customer')], {
+    method: EVENT_STATUS[booking.status] === 'CANCELLED' ? 'CANCEL' : 'PUBLISH',
+  });
+
+/**
+ * Builds a staff member's feed of upcoming shifts and appointments. Cancelled bookings stay in
+ * the feed as cancelled events so subscribed calendars drop them.
+ * @param staffId - The staff member's ID.
+ * @param staffName - Shown as the calendar's name.
+ * @param days - How many days ahead to include, starting today.
+ */
+export const buildStaffCalendarFeed = async (staffId: string, staffName: string, days: number = STAFF_FEED_DAYS): Promise<string> => {
+  const today = new Date();
+  const fromDate = toDateString(today);
+  const until = new Date(today.getFullYear(), today.getMonth(), today.getDate() + days - 1);
+  const toDate = toDateString(until);
+
+  const [bookings, weeklyHours, timeOff] = await Promise.all([
+    bookingsRepository.list({ staffId, fromDate, toDate, order: 'schedule' }),
+    fetchWeeklyHours(staffId),
+    fetchTimeOff(staffId, fromDate),
+  ]);
+
+  const shifts: string[][] = [];
+  for (let offset = 0; offset < days; offset++) {
+    const date = toDateString(new Date(today.getFullYear(), today.getMonth(), today.getDate() + offset));
+    const hours = weeklyHours.find(entry => entry.dayOfWeek === getDayOfWeek(date));
+    if (hours?.isWorking && !findTimeOffOn(date, timeOff)) {
+      shifts.push(buildShiftEvent(date, hours));
+    }
+  }
+
+  return buildCalendar(
+    [...shifts, ...bookings.map(booking => buildBookingEvent(booking, 'staff'))],
+    { name: `${staffName} – ${APP_NAME}` }
+  );
+};
+
+// A long random token, so subscription links can't be guessed
+const createFeedToken = (): string =>
+  Array.from(window.crypto.getRandomValues(new Uint8Array(24)), byte => byte.toString(16).padStart(2, '0')).join('');
+
+const feedUrl = (token: string): string => `${STAFF_CALENDAR_FEED_URL}?token=${token}`;
+
+/**
+ * The link a staff member subscribes to in their calendar app. Calendars refresh it on their own,
+ * so moved and cancelled appointments update without exporting again. Made on first use.
+ * @param staffId - The staff member's ID.
+ */
+export const getStaffFeedUrl = async (staffId: string): Promise<string> => {
+  const saved = await calendarFeedsRepository.getToken(staffId);
+  if (saved) return feedUrl(saved);
+
+  const token = createFeedToken();
+  await calendarFeedsRepository.saveToken(staffId, token);
+  return feedUrl(token);
+};
+
+/**
+ * Replaces a staff member's subscription link, e.g. after it was shared by mistake.
+ * Calendars subscribed to the old link stop updating.
+ * @param staffId - The staff member's ID.
+ */
+export const resetStaffFeedUrl = async (staffId: string): Promise<string> => {
+  const token = createFeedToken();
+  await calendarFeedsRepository.saveToken(staffId, token);
+  return feedUrl(token);
+};
+
+/**
+ * Saves calendar content as an .ics file the user can open or import.
+ * @param content - The VCALENDAR text.
+ * @param filename - The file name, without the extension.
+ */
+export const downloadCalendarFile = (content: string, filename: string) => {
+  const url = window.URL.createObjectURL(new Blob([content], { type: 'text/calendar;charset=utf-8' }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `${filename}.ics`;
+  a.click();
+  window.URL.revokeObjectURL(url);
+};
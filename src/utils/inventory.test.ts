@@ -0,0 +1,73 @@
+// src/utils/inventory.test.ts
+import { describe, expect, it, vi } from 'vitest';
+import { STAFF_MARIA_ID } from '../mocks/fixtures';
+import { inventoryRepository } from '@repositories/inventory';
+import { serviceMaterialsRepository } from '@repositories/serviceMaterials';
+import { stockMovementsRepository } from '@repositories/stockMovements';
+import { consumeServiceMaterials, recordStockMovement } from './inventory';
+
+const stockOf = async (id: string) => (await inventoryRepository.getById(id))?.stock;
+
+// Booking 6 is Ben's facial with Maria, which uses one sheet mask
+const facial = { id: '6', serviceId: '1', serviceName: 'Classic Facial' };
+
+describe('recordStockMovement', () => {
+  it('changes the stock and records it in the ledger', async () => {
+    const stockAfter = await recordStockMovement({ itemId: '1', quantity: -2, reason: 'sale', recordedBy: STAFF_MARIA_ID });
+
+    expect(stockAfter).toBe(46);
+    expect(await stockOf('1')).toBe(46);
+    const [latest] = await stockMovementsRepository.list({ itemId: '1' });
+    expect(latest).toMatchObject({ quantity: -2, stockAfter: 46, reason: 'sale' });
+  });
+
+  it('refuses to sell more than is in stock but lets service usage go negative', async () => {
+    await expect(recordStockMovement({ itemId: '4', quantity: -5, reason: 'sale' }))
+      .rejects.toThrow('Only 3 of Hot Wax Beads (1kg) in stock.');
+    expect(await stockOf('4')).toBe(3);
+
+    expect(await recordStockMovement({ itemId: '4', quantity: -5, reason: 'usage' })).toBe(-2);
+  });
+
+  it('starts again from the new stock when someone else changed it first', async () => {
+    const updateStock = inventoryRepository.updateStock;
+    vi.spyOn(inventoryRepository, 'updateStock').mockImplementationOnce(async (id, expected, stock) => {
+      await inventoryRepository.update(id, { stock: expected - 10 });
+      return updateStock(id, expected, stock);
+    });
+
+    expect(await recordStockMovement({ itemId: '1', quantity: -2, reason: 'sale' })).toBe(36);
+    expect(await stockOf('1')).toBe(36);
+  });
+
+  it('puts the stock back when the ledger entry cannot be saved', async () => {
+    vi.spyOn(stockMovementsRepository, 'record').mockRejectedValueOnce(new Error('Failed to record stock movement: offline'));
+
+    await expect(recordStockMovement({ itemId: '2', quantity: 6, reason: 'restock' })).rejects.toThrow('offline');
+    expect(await stockOf('2')).toBe(12);
+  });
+});
+
+describe('consumeServiceMaterials', () => {
+  it('only deducts each item once per booking', async () => {
+    await consumeServiceMaterials(facial, STAFF_MARIA_ID);
+    await consumeServiceMaterials(facial, STAFF_MARIA_ID);
+
+    expect(await stockOf('1')).toBe(47);
+  });
+
+  it('deducts the items a failed run missed when called again', async () => {
+    await serviceMaterialsRepository.replaceForService('1', [{ itemId: '1', quantity: 1 }, { itemId: '5', quantity: 0.5 }]);
+    const record = stockMovementsRepository.record;
+    vi.spyOn(stockMovementsRepository, 'record')
+      .mockImplementationOnce(record)
+      .mockRejectedValueOnce(new Error('Failed to record stock movement: offline'));
+
+    await expect(consumeServiceMaterials(facial, STAFF_MARIA_ID)).rejects.toThrow('offline');
+    expect(await stockOf('5')).toBe(20);
+
+    await consumeServiceMaterials(facial, STAFF_MARIA_ID);
+    expect(await stockOf('1')).toBe(47);
+    expect(await stockOf('5')).toBe(19.5);
+  });
+});
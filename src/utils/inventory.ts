@@ -0,0 +1,110 @@
+// src/utils/inventory.ts
+import { Booking } from '@models/booking';
+import { StockMovementReason } from '@models/inventory';
+import { inventoryRepository } from '@repositories/inventory';
+import { serviceMaterialsRepository } from '@repositories/serviceMaterials';
+import { NewStockMovement, stockMovementsRepository } from '@repositories/stockMovements';
+
+export const STOCK_MOVEMENT_LABELS: Record<StockMovementReason, string> = {
+  sale: 'Sale',
+  usage: 'Service usage',
+  restock: 'Restock',
+  adjustment: 'Adjustment',
+  waste: 'Waste',
+};
+
+// Stock that leaves the shelf; everything else can only come in or be corrected
+const OUTGOING_REASONS: StockMovementReason[] = ['sale', 'usage', 'waste'];
+
+// Quantities can be fractions of a unit, e.g. 0.05 of a bottle of oil
+const roundQuantity = (quantity: number): number => Math.round(quantity * 1000) / 1000;
+
+// How many times to re-read an item whose stock keeps changing before giving up
+const MAX_STOCK_RETRIES = 3;
+
+// Adds a signed quantity to an item's stock, re-reading the item whenever someone else changed it first
+const applyStockChange = async (
+  itemId: string,
+  quantity: number,
+  allowNegative: boolean
+): Promise<number> => {
+  for (let attempt = 0; attempt < MAX_STOCK_RETRIES; attempt++) {
+    const item = await inventoryRepository.getById(itemId);
+    if (!item) {
+      throw new Error('This product no longer exists.');
+    }
+
+    const stockAfter = roundQuantity(item.stock + quantity);
+    if (stockAfter < 0 && !allowNegative) {
+      throw new Error(`Only ${item.stock} of ${item.name} in stock.`);
+    }
+
+    if (await inventoryRepository.updateStock(item.id, item.stock, stockAfter)) return stockAfter;
+  }
+  throw new Error('The stock changed while it was being saved. Please try again.');
+};
+
+/**
+ * Changes an item's stock and records why in the stock ledger.
+ * Sales and waste can't take more than is in stock; service usage can, so a shortfall shows up
+ * as negative stock to be corrected by a count. If the ledger entry can't be saved, the stock
+ * change is undone.
+ * @param movement - The item, signed quantity (negative when stock goes out), reason and note.
+ */
+export const recordStockMovement = async (movement: Omit<NewStockMovement, 'stockAfter'>): Promise<number> => {
+  const quantity = roundQuantity(movement.quantity);
+  if (quantity === 0) {
+    throw new Error('Enter a quantity other than zero.');
+  }
+  if (OUTGOING_REASONS.includes(movement.reason) && quantity > 0) {
+    throw new Error(`A ${STOCK_MOVEMENT_LABELS[movement.reason].toLowerCase()} can only take stock out.`);
+  }
+  if (movement.reason === 'restock' && quantity < 0) {
+    throw new Error('A restock can only add stock.');
+  }
+
+  const stockAfter = await applyStockChange(movement.itemId, quantity, movement.reason === 'usage');
+
+  try {
+    await stockMovementsRepository.record({ ...movement, quantity, stockAfter });
+  } catch (err) {
+    try {
+      await applyStockChange(movement.itemId, -quantity, true);
+    } catch (revertErr) {
+      console.error('❌ Error undoing stock change:', revertErr);
+    }
+    throw err;
+  }
+
+  return stockAfter;
+};
+
+/**
+ * Takes what a completed booking used out of stock, following its service's bill of materials.
+ * Safe to call again, e.g. after a failure part way through: each item's usage for a booking is
+ * only deducted once.
+ * @param booking - The completed booking.
+ * @param recordedBy - The user completing it.
+ */
+export const consumeServiceMaterials = async (
+  booking: Pick<Booking, 'id' | 'serviceId' | 'serviceName'>,
+  recordedBy?: string
+): Promise<void> => {
+  const [materials, existing] = await Promise.all([
+    serviceMaterialsRepository.listForService(booking.serviceId),
+    stockMovementsRepository.list({ bookingId: booking.id }),
+  ]);
+  const used = new Set(existing.filter(movement => movement.reason === 'usage').map(movement => movement.itemId));
+
+  for (const material of materials) {
+    if (used.has(material.itemId)) continue;
+    await recordStockMovement({
+      itemId: material.itemId,
+      quantity: -material.quantity,
+      reason: 'usage',
+      bookingId: booking.id,
+      note: booking.serviceName,
+      recordedBy,
+    });
+  }
+};
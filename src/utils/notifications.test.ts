@@ -0,0 +1,72 @@
+// src/utils/notifications.test.ts
+import { describe, expect, it } from 'vitest';
+import { CUSTOMER_BEN_ID, CUSTOMER_LIZA_ID } from '../mocks/fixtures';
+import {
+  BookingEvent,
+  buildBookingMessage,
+  countUnreadNotifications,
+  fetchNotifications,
+  formatWhen,
+  markAllNotificationsRead,
+  markNotificationRead,
+  notifyBookingEvent,
+  statusToNotificationType,
+} from './notifications';
+
+const event: BookingEvent = {
+  type: 'booking_rescheduled',
+  bookingId: '7',
+  customerId: CUSTOMER_LIZA_ID,
+  serviceName: 'Underarm Waxing',
+  bookingDate: '2026-03-13',
+  bookingTime: '13:00',
+  actor: 'admin',
+};
+
+describe('booking messages', () => {
+  it('tells the customer who made the change', () => {
+    const when = formatWhen('2026-03-13', '13:00');
+
+    expect(buildBookingMessage(event)).toBe(`The salon moved your "Underarm Waxing" to ${when}.`);
+    expect(buildBookingMessage({ ...event, actor: 'customer' }))
+      .toBe(`Your "Underarm Waxing" has been rescheduled to ${when} and is awaiting confirmation.`);
+  });
+
+  it('only notifies for statuses the customer needs to hear about', () => {
+    expect(statusToNotificationType('confirmed')).toBe('booking_confirmed');
+    expect(statusToNotificationType('no_show')).toBe('booking_no_show');
+    expect(statusToNotificationType('in_progress')).toBeNull();
+  });
+});
+
+describe('inbox', () => {
+  it("puts a booking event in the customer's inbox as unread", async () => {
+    const before = await countUnreadNotifications(CUSTOMER_LIZA_ID);
+
+    await notifyBookingEvent(event);
+
+    const [latest] = await fetchNotifications(CUSTOMER_LIZA_ID);
+    expect(latest).toMatchObject({ type: 'booking_rescheduled', bookingId: '7', read: false });
+    expect(await countUnreadNotifications(CUSTOMER_LIZA_ID)).toBe(before + 1);
+  });
+
+  it('marks notifications as read one at a time or all together', async () => {
+    await notifyBookingEvent(event);
+    await notifyBookingEvent({ ...event, type: 'booking_confirmed' });
+
+    const [latest] = await fetchNotifications(CUSTOMER_LIZA_ID);
+    const unread = await countUnreadNotifications(CUSTOMER_LIZA_ID);
+    await markNotificationRead(latest.id);
+    expect(await countUnreadNotifications(CUSTOMER_LIZA_ID)).toBe(unread - 1);
+
+    await markAllNotificationsRead(CUSTOMER_LIZA_ID);
+    expect(await countUnreadNotifications(CUSTOMER_LIZA_ID)).toBe(0);
+  });
+
+  it("keeps each customer's inbox to themselves", async () => {
+    await notifyBookingEvent(event);
+
+    const bens = await fetchNotifications(CUSTOMER_BEN_ID);
+    expect(bens.every(notification => notification.userId === CUSTOMER_BEN_ID)).toBe(true);
+  });
+});
@@ -0,0 +1,144 @@
+// src/utils/notifications.ts
+import { BookingStatus } from '@models/booking';
+import { Notification, NotificationType } from '@models/notification';
+import { UserRole } from '@models/user';
+import { NewNotification, notificationsRepository } from '@repositories/notifications';
+
+/**
+ * Something that happened to a booking that the customer should hear about.
+ */
+export interface BookingEvent {
+  type: NotificationType;
+  bookingId: string;
+  customerId: string;
+  serviceName: string;
+  bookingDate: string; // YYYY-MM-DD
+  bookingTime: string; // HH:MM
+  actor: UserRole; // Who performed the action
+}
+
+/**
+ * Maps a booking status change to the notification it should produce.
+ * @param status - The new status.
+ * @returns The notification type, or null when the customer need not be told.
+ */
+export const statusToNotificationType = (status: BookingStatus): NotificationType | null => {
+  switch (status) {
+    case 'confirmed':
+      return 'booking_confirmed';
+    case 'cancelled':
+      return 'booking_cancelled';
+    case 'completed':
+      return 'booking_completed';
+    case 'no_show':
+      return 'booking_no_show';
+    default:
+      return null;
+  }
+};
+
+/**
+ * Formats a booking's date and time for messages, e.g. "Nov 10, 2025 at 2:30 PM".
+ * @param date - YYYY-MM-DD.
+ * @param time - HH:MM.
+ */
+export const formatWhen = (date: string, time: string): string => {
+  const [year, month, day] = date.split('-').map(part => parseInt(part, 10));
+  const [hours, minutes] = (time || '00:00').split(':').map(part => parseInt(part, 10));
+  const when = new Date(year, month - 1, day, hours || 0, minutes || 0);
+  const datePart = when.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+  const timePart = when.toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' });
+  return `${datePart} at ${timePart}`;
+};
+
+/**
+ * Builds the customer-facing message for a booking event.
+ * @param event - The booking event.
+ */
+export const buildBookingMessage = (event: BookingEvent): string => {
+  const service = `"${event.serviceName}"`;
+  const when = formatWhen(event.bookingDate, event.bookingTime);
+  const byCustomer = event.actor === 'customer';
+
+  switch (event.type) {
+    case 'booking_created':
+      return byCustomer
+        ? `Your booking for ${service} on ${when} has been received and is awaiting confirmation.`
+        : `The salon booked ${service} for you on ${when}.`;
+    case 'booking_confirmed':
+      return `Your ${service} on ${when} is confirmed.`;
+    case 'booking_rescheduled':
+      return byCustomer
+        ? `Your ${service} has been rescheduled to ${when} and is awaiting confirmation.`
+        : `The salon moved your ${service} to ${when}.`;
+    case 'booking_cancelled':
+      return byCustomer
+        ? `You cancelled your ${service} on ${when}.`
+        : `Your ${service} on ${when} was cancelled by the salon.`;
+    case 'booking_completed':
+      return `Your booking for ${service} on ${when} was completed. Thank you for visiting!`;
+    case 'booking_no_show':
+      return `We missed you at your ${service} on ${when}. Please contact us to book a new time.`;
+    case 'booking_reminder':
+      return `Reminder: Your appointment for ${service} is on ${when}.`;
+    case 'waitlist_offer':
+      return `A time opened up for ${service} on ${when}. Claim it from your waitlist before it goes to the next customer.`;
+  }
+};
+
+/**
+ * Stores a notification in a user's inbox.
+ * @param notification - Recipient, type, message and optional booking.
+ */
+export const createNotification = (notification: NewNotification): Promise<void> =>
+  notificationsRepository.create(notification);
+
+/**
+ * Records a notification for the customer of a booking.
+ * Failures are logged rather than thrown so the booking action itself still succeeds.
+ * @param event - The booking event.
+ */
+export const notifyBookingEvent = async (event: BookingEvent): Promise<void> => {
+  try {
+    await createNotification({
+      userId: event.customerId,
+      bookingId: event.bookingId,
+      type: event.type,
+      message: buildBookingMessage(event),
+    });
+  } catch (err) {
+    console.error('❌ Error creating notification:', err);
+  }
+};
+
+/**
+ * Loads a user's notifications, newest first.
+ * @param userId - The recipient's ID.
+ */
+export const fetchNotifications = (userId: string): Promise<Notification[]> =>
+  notificationsRepository.listForUser(userId);
+
+/**
+ * Counts a user's unread notifications.
+ * @param userId - The recipient's ID.
+ */
+export const countUnreadNotifications = async (userId: string): Promise<number> => {
+  try {
+    return await notificationsRepository.countUnread(userId);
+  } catch (err) {
+    console.error('❌ Error counting notifications:', err);
+    return 0;
+  }
+};
+
+/**
+ * Marks one notification as read.
+ * @param id - The notification's ID.
+ */
+export const markNotificationRead = (id: string): Promise<void> => notificationsRepository.markRead(id);
+
+/**
+ * Marks all of a user's notifications as read.
+ * @param userId - The recipient's ID.
+ */
+export const markAllNotificationsRead = (userId: string): Promise<void> => notificationsRepository.markAllRead(userId);
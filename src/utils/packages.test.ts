@@ -0,0 +1,67 @@
+// src/utils/packages.test.ts
+import { describe, expect, it } from 'vitest';
+import { PackageItem } from '@models/package';
+import { CUSTOMER_BEN_ID, CUSTOMER_LIZA_ID } from '../mocks/fixtures';
+import { TEST_TODAY } from '../test/clock';
+import { paymentsRepository } from '@repositories/payments';
+import { sessionCardsRepository } from '@repositories/sessionCards';
+import { addDays } from './helpers';
+import { findRedeemableSessions, getCardExpiry, redeemSession, spreadPackagePrice } from './packages';
+
+const massage = (bookingId: string) =>
+  ({ id: bookingId, customerId: CUSTOMER_LIZA_ID, serviceId: '2', bookingDate: addDays(TEST_TODAY, 3) });
+
+describe('package prices and expiry', () => {
+  it("spreads a bundle's price over its services by their usual prices", () => {
+    const items: PackageItem[] = [
+      { serviceId: '1', servicePrice: 850, sessions: 1 },
+      { serviceId: '2', servicePrice: 1200, sessions: 1 },
+    ];
+
+    expect(spreadPackagePrice(1750, items)).toEqual([725.61, 1024.39]);
+  });
+
+  it('counts validity from the purchase date', () => {
+    expect(getCardExpiry(30)).toBe(addDays(TEST_TODAY, 30));
+    expect(getCardExpiry(undefined)).toBeUndefined();
+  });
+
+  it('only offers sessions for the service that are still valid on the day', async () => {
+    const cards = await sessionCardsRepository.list({ customerId: CUSTOMER_LIZA_ID });
+
+    expect(findRedeemableSessions(cards, '2', TEST_TODAY).map(session => session.item.id)).toEqual(['1']);
+    expect(findRedeemableSessions(cards, '1', TEST_TODAY)).toEqual([]);
+    expect(findRedeemableSessions(cards, '2', addDays(TEST_TODAY, 200))).toEqual([]);
+  });
+});
+
+describe('redeemSession', () => {
+  it('takes a session off the card and records what it was worth', async () => {
+    const redemption = await redeemSession(massage('8'), '1', CUSTOMER_LIZA_ID);
+
+    expect(redemption).toMatchObject({ kind: 'redemption', amount: 960, sessionCardItemId: '1' });
+    expect((await sessionCardsRepository.getItem('1'))?.remaining).toBe(3);
+  });
+
+  it("refuses another customer's card", async () => {
+    await expect(redeemSession({ ...massage('8'), customerId: CUSTOMER_BEN_ID }, '1', CUSTOMER_BEN_ID))
+      .rejects.toThrow('belongs to another customer');
+  });
+
+  it('lets only one of two bookings take the last session', async () => {
+    const item = (await sessionCardsRepository.getItem('1'))!;
+    for (let used = 0; used < item.remaining - 1; used++) {
+      await sessionCardsRepository.takeSession('1', item.remaining - used);
+    }
+
+    const results = await Promise.allSettled([
+      redeemSession(massage('8'), '1', CUSTOMER_LIZA_ID),
+      redeemSession(massage('10'), '1', CUSTOMER_LIZA_ID),
+    ]);
+
+    expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect((await sessionCardsRepository.getItem('1'))?.remaining).toBe(0);
+    const payments = await paymentsRepository.list({ bookingIds: ['8', '10'] });
+    expect(payments.filter(payment => payment.kind === 'redemption')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,245 @@
+// src/utils/packages.ts
+import { Booking } from '@models/booking';
+import { PackageItem, PackageKind, ServicePackage, SessionCard, SessionCardItem } from '@models/package';
+import { Payment, PaymentMethod } from '@models/payment';
+import { paymentsRepository } from '@repositories/payments';
+import { ServicePackageInput, servicePackagesRepository } from '@repositories/servicePackages';
+import { sessionCardsRepository } from '@repositories/sessionCards';
+import { roundAmount, toDateString } from './helpers';
+import { chargePackagePurchase } from './payments';
+
+export const PACKAGE_KIND_LABELS: Record<PackageKind, string> = {
+  bundle: 'Bundle',
+  session_card: 'Session card',
+};
+
+/**
+ * A session that can pay for a booking, and the card it is on.
+ */
+export interface RedeemableSession {
+  card: SessionCard;
+  item: SessionCardItem;
+}
+
+/**
+ * What a package's services would cost booked one by one.
+ * @param items - The package's services, with their usual prices.
+ */
+export const getPackageListPrice = (items: PackageItem[]): number =>
+  roundAmount(items.reduce((sum, item) => sum + (item.servicePrice || 0) * item.sessions, 0));
+
+/**
+ * Lists a package's services, e.g. "5 × Swedish Massage" or "Classic Facial + Swedish Massage".
+ * @param items - The package's services.
+ */
+export const describePackageItems = (items: Pick<PackageItem, 'serviceName' | 'sessions'>[]): string =>
+  items
+    .map(item => `${item.sessions > 1 ? `${item.sessions} × ` : ''}${item.serviceName || 'Deleted service'}`)
+    .join(' + ');
+
+/**
+ * Checks a package before it is saved.
+ * @param pkg - The package's details.
+ * @returns What is wrong with it, or null when it can be saved.
+ */
+export const validatePackage = (pkg: ServicePackageInput): string | null => {
+  if (!pkg.name.trim()) return 'Package name is required';
+  if (!(pkg.price > 0)) return 'Price must be greater than 0';
+  if (pkg.validityDays != null && !(Number.isInteger(pkg.validityDays) && pkg.validityDays > 0)) {
+    return 'Valid for must be a whole number of days greater than 0, or left empty';
+  }
+  if (pkg.items.some(item => !(Number.isInteger(item.sessions) && item.sessions > 0))) {
+    return 'Each service needs a whole number of sessions greater than 0';
+  }
+  if (new Set(pkg.items.map(item => item.serviceId)).size !== pkg.items.length) {
+    return 'Each service can only be listed once in a package';
+  }
+  if (pkg.kind === 'session_card' && (pkg.items.length !== 1 || pkg.items[0].sessions < 2)) {
+    return 'A session card is one service with at least 2 sessions';
+  }
+  if (pkg.kind === 'bundle' && pkg.items.length < 2) {
+    return 'A bundle needs at least 2 different services';
+  }
+  return null;
+};
+
+/**
+ * Adds or updates a package.
+ * @param pkg - The package's details.
+ * @param id - The package's ID, when updating.
+ */
+export const saveServicePackage = async (pkg: ServicePackageInput, id?: string): Promise<void> => {
+  const problem = validatePackage(pkg);
+  if (problem) throw new Error(problem);
+
+  if (id) {
+    await servicePackagesRepository.update(id, pkg);
+  } else {
+    await servicePackagesRepository.create(pkg);
+  }
+};
+
+/**
+ * Deletes a package nobody has bought yet. Sold packages are deactivated instead so their cards keep working.
+ * @param pkg - The package.
+ */
+export const deleteServicePackage = async (pkg: Pick<ServicePackage, 'id' | 'name'>): Promise<void> => {
+  const sold = await sessionCardsRepository.list({ packageId: pkg.id });
+  if (sold.length > 0) {
+    throw new Error(`${pkg.name} has been bought ${sold.length} time${sold.length === 1 ? '' : 's'}, so it can't be deleted. Mark it inactive to stop selling it.`);
+  }
+  await servicePackagesRepository.delete(pkg.id);
+};
+
+/**
+ * Spreads a package's price over its sessions in proportion to the services' usual prices,
+ * so each redemption is worth its share of what the customer paid.
+ * @param price - The package price.
+ * @param items - The package's services, with their usual prices.
+ * @returns What one session of each service is worth, in the same order.
+ */
+export const spreadPackagePrice = (price: number, items: PackageItem[]): number[] => {
+  const listPrice = getPackageListPrice(items);
+  const sessions = items.reduce((sum, item) => sum + item.sessions, 0);
+  return items.map(item => roundAmount(listPrice > 0 ? price * (item.servicePrice || 0) / listPrice : price / sessions));
+};
+
+/**
+ * The last day a card bought today can be booked for.
+ * @param validityDays - How long the package is valid for; missing means it never expires.
+ * @param today - The purchase date.
+ */
+export const getCardExpiry = (validityDays: number | undefined, today: Date = new Date()): string | undefined => {
+  if (!validityDays) return undefined;
+  const expiry = new Date(today);
+  expiry.setDate(expiry.getDate() + validityDays);
+  return toDateString(expiry);
+};
+
+/**
+ * Whether a card can no longer be used for an appointment on a date.
+ * @param card - The card.
+ * @param date - The appointment date (YYYY-MM-DD); today by default.
+ */
+export const isCardExpired = (card: Pick<SessionCard, 'expiresAt'>, date: string = toDateString(new Date())): boolean =>
+  !!card.expiresAt && date > card.expiresAt;
+
+/**
+ * What is left on a card: the sessions still to use, valued at what they were paid for.
+ * @param card - The card.
+ */
+export const getCardBalance = (card: Pick<SessionCard, 'items'>): { sessions: number; value: number } => ({
+  sessions: card.items.reduce((sum, item) => sum + item.remaining, 0),
+  value: roundAmount(card.items.reduce((sum, item) => sum + item.remaining * item.unitValue, 0)),
+});
+
+/**
+ * Sells a package to a customer: records the card and takes card and e-wallet payments through the gateway.
+ * @param pkg - The package.
+ * @param customerId - Who is buying it.
+ * @param method - How they are paying.
+ * @param soldBy - The ID of the user recording the sale.
+ * @returns The bought card.
+ */
+export const buyPackage = async (
+  pkg: ServicePackage,
+  customerId: string,
+  method: PaymentMethod,
+  soldBy: string
+): Promise<SessionCard> => {
+  if (!pkg.isActive) {
+    throw new Error(`${pkg.name} is no longer sold.`);
+  }
+  if (pkg.items.length === 0 || pkg.items.some(item => item.servicePrice == null)) {
+    throw new Error(`${pkg.name} includes a service that is no longer offered. Please contact the salon.`);
+  }
+
+  const unitValues = spreadPackagePrice(pkg.price, pkg.items);
+  const cardId = await sessionCardsRepository.create({
+    packageId: pkg.id,
+    customerId,
+    soldBy,
+    price: pkg.price,
+    paymentMethod: method,
+    expiresAt: getCardExpiry(pkg.validityDays),
+    items: pkg.items.map((item, index) => ({ serviceId: item.serviceId, sessions: item.sessions, unitValue: unitValues[index] })),
+  });
+
+  if (method !== 'cash') {
+    try {
+      const reference = await chargePackagePurchase(cardId, pkg.price, method, pkg.name);
+      await sessionCardsRepository.setReference(cardId, reference);
+    } catch (err: any) {
+      // A card that wasn't paid for can't be used
+      await sessionCardsRepository.delete(cardId);
+      throw new Error(`Your payment could not be processed, so the package was not bought. ${err.message}`);
+    }
+  }
+
+  const card = await sessionCardsRepository.getById(cardId);
+  if (!card) throw new Error('The package was bought but could not be loaded. Please refresh the page.');
+  return card;
+};
+
+/**
+ * Finds the sessions on a customer's cards that can pay for a service on a date, soonest to expire first.
+ * @param cards - The customer's cards.
+ * @param serviceId - The service being booked.
+ * @param date - The appointment date (YYYY-MM-DD).
+ */
+export const findRedeemableSessions = (cards: SessionCard[], serviceId: string, date: string): RedeemableSession[] =>
+  cards
+    .filter(card => !isCardExpired(card, date))
+    .flatMap(card => card.items
+      .filter(item => item.serviceId === serviceId && item.remaining > 0)
+      .map(item => ({ card, item })))
+    .sort((a, b) => (a.card.expiresAt || '9999-12-31').localeCompare(b.card.expiresAt || '9999-12-31'));
+
+/**
+ * Pays for a booking with a session from a customer's card. The session comes off the card now;
+ * it goes back on if the booking is cancelled and refunded.
+ * @param booking - The booking, priced at the session's value.
+ * @param itemId - The card item to use.
+ * @param recordedBy - The ID of the user booking.
+ * @returns The redemption.
+ */
+export const redeemSession = async (
+  booking: Pick<Booking, 'id' | 'customerId' | 'serviceId' | 'bookingDate'>,
+  itemId: string,
+  recordedBy: string
+): Promise<Payment> => {
+  const item = await sessionCardsRepository.getItem(itemId);
+  const card = item ? await sessionCardsRepository.getById(item.cardId) : null;
+  if (!item || !card) {
+    throw new Error('That prepaid package could not be found.');
+  }
+  if (card.customerId !== booking.customerId) {
+    throw new Error('That prepaid package belongs to another customer.');
+  }
+  if (item.serviceId !== booking.serviceId) {
+    throw new Error(`That prepaid package doesn't include ${item.serviceName || 'this service'}.`);
+  }
+  if (isCardExpired(card, booking.bookingDate)) {
+    throw new Error(`${card.packageName || 'That package'} expires on ${card.expiresAt}, before this appointment.`);
+  }
+  if (item.remaining <= 0) {
+    throw new Error(`There are no ${item.serviceName || ''} sessions left on ${card.packageName || 'that package'}.`);
+  }
+
+  if (!(await sessionCardsRepository.takeSession(item.id, item.remaining))) {
+    throw new Error(`That ${item.serviceName || ''} session on ${card.packageName || 'that package'} was just used for another booking. Please try again.`);
+  }
+  try {
+    return await paymentsRepository.record({
+      bookingId: booking.id,
+      kind: 'redemption',
+      method: card.paymentMethod,
+      amount: item.unitValue,
+      sessionCardItemId: item.id,
+      recordedBy,
+    });
+  } catch (err) {
+    await sessionCardsRepository.returnSession(item.id);
+    throw err;
+  }
+};
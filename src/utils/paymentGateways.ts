@@ -0,0 +1,87 @@
+// src/utils/paymentGateways.ts
+import { PaymentMethod } from '@models/payment';
+
+/**
+ * A card or e-wallet charge for one booking, retail sale or prepaid package.
+ */
+export interface ChargeRequest {
+  bookingId?: string;
+  saleId?: string; // Set instead of bookingId for point-of-sale purchases
+  cardId?: string; // Set instead of bookingId for prepaid package purchases
+  amount: number;
+  method: PaymentMethod;
+  description: string;
+}
+
+/**
+ * Returns all or part of an earlier charge.
+ */
+export interface RefundRequest {
+  bookingId: string;
+  amount: number;
+  reference: string; // The original charge's transaction ID
+}
+
+/**
+ * The provider that moves money for card and e-wallet payments.
+ * Both calls resolve to the provider's transaction ID and reject when the provider declines.
+ */
+export interface PaymentGateway {
+  name: string;
+  charge: (request: ChargeRequest) => Promise<string>;
+  refund: (request: RefundRequest) => Promise<string>;
+}
+
+/**
+ * A transaction handled by the local gateway.
+ */
+export interface LocalTransaction {
+  reference: string;
+  type: 'charge' | 'refund';
+  bookingId?: string;
+  saleId?: string;
+  cardId?: string;
+  amount: number;
+}
+
+/**
+ * A stand-in gateway that approves everything and keeps transactions in memory.
+ * Use it in development and testing instead of a real payment provider.
+ */
+export interface LocalPaymentGateway extends PaymentGateway {
+  transactions: LocalTransaction[];
+}
+
+/**
+ * Creates a local stand-in gateway.
+ */
+export const createLocalPaymentGateway = (): LocalPaymentGateway => {
+  const transactions: LocalTransaction[] = [];
+
+  const record = (type: LocalTransaction['type'], request: ChargeRequest | RefundRequest): string => {
+    const { amount, bookingId } = request;
+    const saleId = 'saleId' in request ? request.saleId : undefined;
+    const cardId = 'cardId' in request ? request.cardId : undefined;
+    if (!(amount > 0)) {
+      throw new Error(`Payment ${type} amount must be greater than zero.`);
+    }
+    const reference = `LOCAL-${type.toUpperCase()}-${Date.now().toString(36)}-${transactions.length + 1}`;
+    transactions.push({ reference, type, bookingId, saleId, cardId, amount });
+    const target = saleId ? `sale ${saleId}` : cardId ? `package card ${cardId}` : `booking ${bookingId}`;
+    console.log(`💳 [LOCAL GATEWAY] ${type} of ${amount.toFixed(2)} for ${target}: ${reference}`);
+    return reference;
+  };
+
+  return {
+    name: 'local',
+    transactions,
+    charge: async (request: ChargeRequest) => record('charge', request),
+    refund: async (request: RefundRequest) => {
+      const original = transactions.find(transaction => transaction.reference === request.reference);
+      if (original && request.amount > original.amount) {
+        throw new Error('Refund amount is more than the original charge.');
+      }
+      return record('refund', request);
+    },
+  };
+};
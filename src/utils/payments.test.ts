@@ -0,0 +1,108 @@
+// src/utils/payments.test.ts
+import { describe, expect, it } from 'vitest';
+import { Payment } from '@models/payment';
+import { CUSTOMER_LIZA_ID, STAFF_ANA_ID } from '../mocks/fixtures';
+import { TEST_TODAY } from '../test/clock';
+import { bookingsRepository } from '@repositories/bookings';
+import { paymentsRepository } from '@repositories/payments';
+import { sessionCardsRepository } from '@repositories/sessionCards';
+import { addDays } from './helpers';
+import {
+  calculateDeposit,
+  deleteUnpaidBooking,
+  fetchPaymentSummary,
+  refundBookingPayments,
+  settleBalance,
+  summarizePayments,
+} from './payments';
+
+const payment = (kind: Payment['kind'], amount: number): Payment => ({
+  id: `${kind}-${amount}`,
+  bookingId: '1',
+  kind,
+  method: 'card',
+  amount,
+  createdAt: new Date().toISOString(),
+});
+
+const booking9 = { id: '9', price: 550, serviceName: 'Gel Manicure' };
+
+describe('summarizePayments', () => {
+  it('owes the price less what has been paid', () => {
+    expect(summarizePayments(850, [payment('deposit', 170)])).toEqual({
+      price: 850,
+      paid: 170,
+      refunded: 0,
+      collected: 170,
+      balanceDue: 680,
+    });
+  });
+
+  it('owes a refunded deposit again', () => {
+    const summary = summarizePayments(1200, [payment('deposit', 240), payment('refund', 240)]);
+
+    expect(summary).toMatchObject({ collected: 0, balanceDue: 1200 });
+  });
+
+  it('never owes less than nothing', () => {
+    expect(summarizePayments(350, [payment('payment', 400)]).balanceDue).toBe(0);
+  });
+});
+
+describe('taking payments', () => {
+  it('works out the deposit from the price', () => {
+    expect(calculateDeposit(550)).toBe(110);
+  });
+
+  it('settles only what is left after the deposit', async () => {
+    const settled = await settleBalance(booking9, 'cash', STAFF_ANA_ID);
+
+    expect(settled).toMatchObject({ kind: 'payment', method: 'cash', amount: 440 });
+    expect(await settleBalance(booking9, 'cash', STAFF_ANA_ID)).toBeNull();
+  });
+});
+
+describe('refunds', () => {
+  it('refunds what was paid less what the salon keeps', async () => {
+    await settleBalance(booking9, 'card', STAFF_ANA_ID);
+
+    expect(await refundBookingPayments('9', STAFF_ANA_ID, 110)).toBe(440);
+    expect(await fetchPaymentSummary(booking9)).toMatchObject({ refunded: 440, collected: 110 });
+  });
+
+  it("doesn't refund the same payment twice", async () => {
+    expect(await refundBookingPayments('9', STAFF_ANA_ID)).toBe(110);
+    expect(await refundBookingPayments('9', STAFF_ANA_ID)).toBe(0);
+  });
+
+  it('puts a redeemed session back on its card', async () => {
+    expect(await refundBookingPayments('14', STAFF_ANA_ID)).toBe(0);
+
+    expect((await sessionCardsRepository.getItem('1'))?.remaining).toBe(5);
+    const refunds = (await paymentsRepository.list({ bookingIds: ['14'] })).filter(entry => entry.kind === 'refund');
+    expect(refunds).toEqual([expect.objectContaining({ amount: 960, refundOf: '18', sessionCardItemId: '1' })]);
+  });
+});
+
+describe('deleteUnpaidBooking', () => {
+  it('deletes a booking nothing was paid for', async () => {
+    const id = await bookingsRepository.create({
+      serviceId: '5',
+      customerId: CUSTOMER_LIZA_ID,
+      staffId: STAFF_ANA_ID,
+      bookingDate: addDays(TEST_TODAY, 4),
+      bookingTime: '10:00',
+      totalPrice: 350,
+    });
+
+    await deleteUnpaidBooking(id);
+
+    expect(await bookingsRepository.getById(id)).toBeNull();
+  });
+
+  it('keeps a booking with payments on record', async () => {
+    await expect(deleteUnpaidBooking('4')).rejects.toThrow("This booking has payments on record, so it can't be deleted.");
+
+    expect(await bookingsRepository.getById('4')).not.toBeNull();
+  });
+});
@@ -0,0 +1,276 @@
+// src/utils/payments.ts
+import { Booking } from '@models/booking';
+import { Payment, PaymentKind, PaymentMethod, PaymentSummary } from '@models/payment';
+import { bookingsRepository } from '@repositories/bookings';
+import { paymentsRepository } from '@repositories/payments';
+import { sessionCardsRepository } from '@repositories/sessionCards';
+import { DEPOSIT_RATE } from './constants';
+import { roundAmount } from './helpers';
+import { PaymentGateway, createLocalPaymentGateway } from './paymentGateways';
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: 'Cash',
+  card: 'Card',
+  e_wallet: 'GCash / e-wallet',
+};
+
+export const PAYMENT_KIND_LABELS: Record<PaymentKind, string> = {
+  deposit: 'Deposit',
+  payment: 'Payment',
+  redemption: 'Prepaid session',
+  refund: 'Refund',
+};
+
+// Methods customers can pay a deposit with online (cash is only taken at the salon)
+export const ONLINE_PAYMENT_METHODS: PaymentMethod[] = ['card', 'e_wallet'];
+
+type PayableBooking = Pick<Booking, 'id' | 'price' | 'serviceName'>;
+
+// Card and e-wallet payments go through this gateway until another one is plugged in
+let gateway: PaymentGateway = createLocalPaymentGateway();
+
+/**
+ * Replaces the gateway used for card and e-wallet payments.
+ * @param next - The payment provider to use from now on.
+ */
+export const setPaymentGateway = (next: PaymentGateway) => {
+  gateway = next;
+};
+
+/**
+ * Works out the deposit for a booking.
+ * @param price - The booking's price.
+ */
+export const calculateDeposit = (price: number): number => roundAmount(price * DEPOSIT_RATE);
+
+/**
+ * Totals what has been paid and refunded against a booking.
+ * What is still due is worked out from the net amount the salon holds, so a refunded deposit
+ * on a booking that is later reinstated is owed again.
+ * @param price - The booking's price.
+ * @param payments - The booking's payments and refunds.
+ */
+export const summarizePayments = (price: number, payments: Payment[]): PaymentSummary => {
+  const paid = roundAmount(
+    payments.filter(payment => payment.kind !== 'refund').reduce((sum, payment) => sum + payment.amount, 0)
+  );
+  const refunded = roundAmount(
+    payments.filter(payment => payment.kind === 'refund').reduce((sum, payment) => sum + payment.amount, 0)
+  );
+
+  const collected = roundAmount(paid - refunded);
+
+  return {
+    price,
+    paid,
+    refunded,
+    collected,
+    balanceDue: Math.max(0, roundAmount(price - collected)),
+  };
+};
+
+/**
+ * Loads a booking's payments and totals them.
+ * @param booking - The booking (only its ID and price are used).
+ */
+export const fetchPaymentSummary = async (booking: Pick<Booking, 'id' | 'price'>): Promise<PaymentSummary> =>
+  summarizePayments(booking.price, await paymentsRepository.list({ bookingIds: [booking.id] }));
+
+// Charges card and e-wallet payments through the gateway, then records the payment
+const takePayment = async (
+  booking: PayableBooking,
+  kind: PaymentKind,
+  method: PaymentMethod,
+  amount: number,
+  recordedBy: string
+): Promise<Payment> => {
+  const reference = method === 'cash'
+    ? undefined
+    : await gateway.charge({
+        bookingId: booking.id,
+        amount,
+        method,
+        description: `${PAYMENT_KIND_LABELS[kind]} for ${booking.serviceName}`,
+      });
+
+  return paymentsRepository.record({ bookingId: booking.id, kind, method, amount, reference, recordedBy });
+};
+
+/**
+ * Takes the deposit for a new booking.
+ * @param booking - The booking.
+ * @param method - How the customer is paying.
+ * @param recordedBy - The ID of the user taking the payment.
+ * @returns The payment, or null when no deposit is due.
+ */
+export const payDeposit = async (
+  booking: PayableBooking,
+  method: PaymentMethod,
+  recordedBy: string
+): Promise<Payment | null> => {
+  const amount = calculateDeposit(booking.price);
+  if (amount <= 0) return null;
+  return takePayment(booking, 'deposit', method, amount, recordedBy);
+};
+
+/**
+ * Takes whatever is still owed on a booking.
+ * @param booking - The booking.
+ * @param method - How the customer is paying.
+ * @param recordedBy - The ID of the user taking the payment.
+ * @returns The payment, or null when nothing was owed.
+ */
+export const settleBalance = async (
+  booking: PayableBooking,
+  method: PaymentMethod,
+  recordedBy: string
+): Promise<Payment | null> => {
+  const { balanceDue } = await fetchPaymentSummary(booking);
+  if (balanceDue <= 0) return null;
+  return takePayment(booking, 'payment', method, balanceDue, recordedBy);
+};
+
+/**
+ * Charges a point-of-sale purchase to a card or e-wallet.
+ * @param saleId - The retail sale's ID.
+ * @param amount - The sale total.
+ * @param method - 'card' or 'e_wallet'; cash is taken at the counter.
+ * @returns The gateway's transaction ID.
+ */
+export const chargeRetailSale = (saleId: string, amount: number, method: PaymentMethod): Promise<string> =>
+  gateway.charge({ saleId, amount, method, description: `Retail sale #${saleId}` });
+
+/**
+ * Charges the purchase of a prepaid package to a card or e-wallet.
+ * @param cardId - The bought card's ID.
+ * @param amount - The package price.
+ * @param method - 'card' or 'e_wallet'; cash is taken at the counter.
+ * @param packageName - The package, for the statement description.
+ * @returns The gateway's transaction ID.
+ */
+export const chargePackagePurchase = (cardId: string, amount: number, method: PaymentMethod, packageName: string): Promise<string> =>
+  gateway.charge({ cardId, amount, method, description: `Prepaid package: ${packageName}` });
+
+/**
+ * Charges a late-cancellation fee to the card or e-wallet the customer already paid with.
+ * @param booking - The cancelled booking.
+ * @param amount - The part of the fee not already covered by what was paid.
+ * @param recordedBy - The ID of the user cancelling.
+ * @returns The payment, or null when there is no card or e-wallet payment to charge.
+ */
+export const chargeCancellationFee = async (
+  booking: PayableBooking,
+  amount: number,
+  recordedBy: string
+): Promise<Payment | null> => {
+  if (amount <= 0) return null;
+
+  const payments = await paymentsRepository.list({ bookingIds: [booking.id] });
+  const online = payments.find(payment =>
+    (payment.kind === 'deposit' || payment.kind === 'payment') && ONLINE_PAYMENT_METHODS.includes(payment.method)
+  );
+  if (!online) return null;
+
+  const reference = await gateway.charge({
+    bookingId: booking.id,
+    amount,
+    method: online.method,
+    description: `Late cancellation fee for ${booking.serviceName}`,
+  });
+  return paymentsRepository.record({ bookingId: booking.id, kind: 'payment', method: online.method, amount, reference, recordedBy });
+};
+
+// Puts a redeemed session back on its card and records the refund against the redemption
+const returnSession = async (bookingId: string, redemption: Payment, recordedBy: string): Promise<void> => {
+  if (redemption.sessionCardItemId) {
+    await sessionCardsRepository.returnSession(redemption.sessionCardItemId);
+  }
+
+  await paymentsRepository.record({
+    bookingId,
+    kind: 'refund',
+    method: redemption.method,
+    amount: redemption.amount,
+    refundOf: redemption.id,
+    sessionCardItemId: redemption.sessionCardItemId,
+    recordedBy,
+  });
+};
+
+// Returns part or all of a payment: card and e-wallet through the gateway, cash at the salon
+const refundAmount = async (bookingId: string, payment: Payment, amount: number, recordedBy: string): Promise<void> => {
+  const reference = payment.method === 'cash' || !payment.reference
+    ? undefined
+    : await gateway.refund({ bookingId, amount, reference: payment.reference });
+
+  await paymentsRepository.record({
+    bookingId,
+    kind: 'refund',
+    method: payment.method,
+    amount,
+    reference,
+    refundOf: payment.id,
+    recordedBy,
+  });
+};
+
+/**
+ * Refunds one payment in full, e.g. a balance taken for a status change that then couldn't be saved.
+ * @param payment - The payment to return.
+ * @param recordedBy - The ID of the user issuing the refund.
+ */
+export const refundPayment = (payment: Payment, recordedBy: string): Promise<void> =>
+  refundAmount(payment.bookingId, payment, payment.amount, recordedBy);
+
+/**
+ * Deletes a booking that has never been paid for. Anything with payments on record has to be
+ * cancelled instead, so the money is refunded and the payment history is kept.
+ * @param bookingId - The booking's ID.
+ */
+export const deleteUnpaidBooking = async (bookingId: string): Promise<void> => {
+  const payments = await paymentsRepository.list({ bookingIds: [bookingId] });
+  if (payments.length > 0) {
+    throw new Error(`This booking has payments on record, so it can't be deleted. Cancel it instead to refund the customer.`);
+  }
+  await bookingsRepository.delete(bookingId);
+};
+
+/**
+ * Refunds every payment on a booking that hasn't been refunded yet, less any amount the salon keeps.
+ * Card and e-wallet payments are returned through the gateway; cash is handed back at the salon.
+ * A prepaid session goes back on its card, unless anything is to be kept: then the whole session is kept.
+ * @param bookingId - The booking's ID.
+ * @param recordedBy - The ID of the user issuing the refund.
+ * @param retain - How much to keep, e.g. a forfeited deposit; taken from deposits first.
+ * @returns The total refunded.
+ */
+export const refundBookingPayments = async (bookingId: string, recordedBy: string, retain: number = 0): Promise<number> => {
+  const payments = await paymentsRepository.list({ bookingIds: [bookingId] });
+  const refundedIds = new Set(payments.filter(payment => payment.refundOf).map(payment => payment.refundOf));
+  const outstanding = payments
+    .filter(payment => payment.kind !== 'refund' && !refundedIds.has(payment.id))
+    .sort((a, b) => Number(b.kind === 'deposit') - Number(a.kind === 'deposit'));
+
+  let toKeep = retain;
+  let total = 0;
+  for (const payment of outstanding) {
+    if (payment.kind === 'redemption') {
+      if (toKeep > 0) {
+        toKeep = Math.max(0, roundAmount(toKeep - payment.amount));
+        continue;
+      }
+      await returnSession(bookingId, payment, recordedBy);
+      continue;
+    }
+
+    const kept = Math.min(toKeep, payment.amount);
+    toKeep = roundAmount(toKeep - kept);
+    const amount = roundAmount(payment.amount - kept);
+    if (amount <= 0) continue;
+
+    await refundAmount(bookingId, payment, amount, recordedBy);
+    total = roundAmount(total + amount);
+  }
+
+  return total;
+};
@@ -0,0 +1,31 @@
+// src/utils/purchaseOrders.test.ts
+import { describe, expect, it } from 'vitest';
+import { ADMIN_ID } from '../mocks/fixtures';
+import { inventoryRepository } from '@repositories/inventory';
+import { purchaseOrdersRepository } from '@repositories/purchaseOrders';
+import { receivePurchaseOrder } from './purchaseOrders';
+
+// PO 1 is waiting on the last 6 bottles of massage oil
+const loadOrder = async () => {
+  const [order] = await purchaseOrdersRepository.list();
+  if (!order) throw new Error('PO 1 is missing from the fixtures');
+  return order;
+};
+
+describe('receivePurchaseOrder', () => {
+  it('adds the delivery to stock and closes the order once everything arrived', async () => {
+    const order = await loadOrder();
+
+    expect(await receivePurchaseOrder(order, { '1': 6 }, ADMIN_ID)).toBe('received');
+    expect((await inventoryRepository.getById('2'))?.stock).toBe(18);
+    expect((await loadOrder()).lines[0].quantityReceived).toBe(12);
+  });
+
+  it('refuses to book the same delivery twice from a stale copy of the order', async () => {
+    const order = await loadOrder();
+    await receivePurchaseOrder(order, { '1': 4 }, ADMIN_ID);
+
+    await expect(receivePurchaseOrder(order, { '1': 4 }, ADMIN_ID)).rejects.toThrow('received by someone else');
+    expect((await inventoryRepository.getById('2'))?.stock).toBe(16);
+  });
+});
@@ -0,0 +1,195 @@
+// src/utils/purchaseOrders.ts
+import { InventoryItem, PurchaseOrder, PurchaseOrderStatus } from '@models/inventory';
+import { inventoryRepository } from '@repositories/inventory';
+import { purchaseOrdersRepository } from '@repositories/purchaseOrders';
+import { recordStockMovement } from './inventory';
+import { ExportDocument } from './reportExport';
+
+export const PURCHASE_ORDER_STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  draft: 'Draft',
+  ordered: 'Ordered',
+  partially_received: 'Partially Received',
+  received: 'Received',
+  cancelled: 'Cancelled',
+};
+
+export const PURCHASE_ORDER_STATUS_COLORS: Record<PurchaseOrderStatus, { background: string; color: string }> = {
+  draft: { background: '#f5f5f5', color: '#666' },
+  ordered: { background: '#e3f2fd', color: '#1565c0' },
+  partially_received: { background: '#fff3e0', color: '#f57c00' },
+  received: { background: '#e8f5e8', color: '#2e7d32' },
+  cancelled: { background: '#ffebee', color: '#c62828' },
+};
+
+// Orders still waiting on deliveries
+export const OPEN_PURCHASE_ORDER_STATUSES: PurchaseOrderStatus[] = ['ordered', 'partially_received'];
+
+const roundQuantity = (quantity: number): number => Math.round(quantity * 1000) / 1000;
+
+/**
+ * Whether an item has fallen to its reorder point. Items without one never alert.
+ * @param item - The inventory item.
+ */
+export const isLowStock = (item: InventoryItem): boolean =>
+  item.reorderPoint !== undefined && item.stock <= item.reorderPoint;
+
+/**
+ * Loads the items at or below their reorder point, lowest stock first.
+ */
+export const fetchLowStockItems = async (): Promise<InventoryItem[]> => {
+  const items = await inventoryRepository.getAll();
+  return items.filter(isLowStock).sort((a, b) => a.stock - b.stock);
+};
+
+/**
+ * How many of an item to order: its reorder quantity, or enough to get back to twice the reorder point.
+ * @param item - The inventory item.
+ */
+export const getSuggestedOrderQuantity = (item: InventoryItem): number => {
+  if (item.reorderQuantity && item.reorderQuantity > 0) return item.reorderQuantity;
+  const target = (item.reorderPoint || 0) * 2;
+  return Math.max(Math.ceil(target - item.stock), 1);
+};
+
+/**
+ * Works out an order's total cost, and what has arrived so far.
+ * @param order - The purchase order.
+ */
+export const getPurchaseOrderTotals = (order: PurchaseOrder): { ordered: number; received: number } => ({
+  ordered: order.lines.reduce((sum, line) => sum + line.quantityOrdered * line.unitCost, 0),
+  received: order.lines.reduce((sum, line) => sum + line.quantityReceived * line.unitCost, 0),
+});
+
+/**
+ * Marks a draft order as sent to the supplier.
+ * @param order - The draft purchase order.
+ */
+export const placePurchaseOrder = async (order: PurchaseOrder): Promise<void> => {
+  if (order.status !== 'draft') {
+    throw new Error('Only draft purchase orders can be placed.');
+  }
+  await purchaseOrdersRepository.update(order.id, { status: 'ordered', orderedAt: new Date().toISOString() });
+};
+
+/**
+ * Cancels an order. Anything already received stays in stock.
+ * @param order - The purchase order.
+ */
+export const cancelPurchaseOrder = async (order: PurchaseOrder): Promise<void> => {
+  if (order.status === 'received' || order.status === 'cancelled') {
+    throw new Error(`A ${PURCHASE_ORDER_STATUS_LABELS[order.status].toLowerCase()} purchase order can't be cancelled.`);
+  }
+  await purchaseOrdersRepository.update(order.id, { status: 'cancelled' });
+};
+
+/**
+ * Books a delivery against an order: adds what arrived to stock through the ledger,
+ * updates each product's cost price, and marks the order partially or fully received.
+ * @param order - The purchase order, as currently loaded.
+ * @param quantities - What arrived in this delivery, by line ID.
+ * @param recordedBy - The user receiving the delivery.
+ */
+export const receivePurchaseOrder = async (
+  order: PurchaseOrder,
+  quantities: { [lineId: string]: number },
+  recordedBy?: string
+): Promise<PurchaseOrderStatus> => {
+  if (!OPEN_PURCHASE_ORDER_STATUSES.includes(order.status)) {
+    throw new Error('Only placed purchase orders can be received.');
+  }
+
+  const deliveries = order.lines
+    .map(line => ({ line, quantity: roundQuantity(quantities[line.id] || 0) }))
+    .filter(({ quantity }) => quantity !== 0);
+
+  if (deliveries.length === 0) {
+    throw new Error('Enter how many of at least one item arrived.');
+  }
+
+  for (const { line, quantity } of deliveries) {
+    const outstanding = roundQuantity(line.quantityOrdered - line.quantityReceived);
+    if (quantity < 0 || quantity > outstanding) {
+      throw new Error(`${line.itemName || 'An item'}: enter between 0 and ${outstanding}.`);
+    }
+  }
+
+  for (const { line, quantity } of deliveries) {
+    // Claim the delivery on the line first, so booking the same delivery twice can't add it to stock twice
+    const received = roundQuantity(line.quantityReceived + quantity);
+    if (!(await purchaseOrdersRepository.updateLineReceived(line.id, line.quantityReceived, received))) {
+      throw new Error(`${line.itemName || 'An item'} was received by someone else in the meantime. Reload the order and try again.`);
+    }
+
+    try {
+      await recordStockMovement({
+        itemId: line.itemId,
+        quantity,
+        reason: 'restock',
+        note: `PO #${order.id}${order.supplierName ? ` from ${order.supplierName}` : ''}`,
+        recordedBy,
+      });
+    } catch (err) {
+      try {
+        await purchaseOrdersRepository.updateLineReceived(line.id, received, line.quantityReceived);
+      } catch (revertErr) {
+        console.error('❌ Error undoing purchase order receipt:', revertErr);
+      }
+      throw err;
+    }
+    await inventoryRepository.update(line.itemId, { costPrice: line.unitCost });
+  }
+
+  const fullyReceived = order.lines.every(line =>
+    roundQuantity(line.quantityReceived + (quantities[line.id] || 0)) >= line.quantityOrdered
+  );
+  const status: PurchaseOrderStatus = fullyReceived ? 'received' : 'partially_received';
+  await purchaseOrdersRepository.update(order.id, {
+    status,
+    receivedAt: fullyReceived ? new Date().toISOString() : undefined,
+  });
+
+  return status;
+};
+
+/**
+ * Builds a purchase order as a document to send to the supplier.
+ * @param order - The purchase order.
+ */
+export const buildPurchaseOrderExport = (order: PurchaseOrder): ExportDocument => {
+  const totals = getPurchaseOrderTotals(order);
+  const dates = [
+    `Created ${new Date(order.createdAt).toLocaleDateString()}`,
+    order.orderedAt ? `ordered ${new Date(order.orderedAt).toLocaleDateString()}` : '',
+    order.expectedDate ? `expected ${order.expectedDate}` : '',
+  ].filter(Boolean).join(', ');
+
+  return {
+    title: `Purchase Order #${order.id}`,
+    subtitle: `${order.supplierName || 'Unknown supplier'} · ${PURCHASE_ORDER_STATUS_LABELS[order.status]} · ${dates}`,
+    filename: `purchase-order-${order.id}`,
+    tables: [{
+      name: 'Items',
+      columns: [
+        { header: 'Product', width: 28 },
+        { header: 'Unit', width: 10 },
+        { header: 'Ordered', format: 'number', width: 10 },
+        { header: 'Received', format: 'number', width: 10 },
+        { header: 'Unit Cost', format: 'currency', width: 14 },
+        { header: 'Line Total', format: 'currency', width: 14 },
+      ],
+      rows: order.lines.map(line => [
+        line.itemName || 'Deleted product',
+        line.unit || '',
+        line.quantityOrdered,
+        line.quantityReceived,
+        line.unitCost,
+        line.quantityOrdered * line.unitCost,
+      ]),
+      totals: ['Total', null, null, null, null, totals.ordered],
+    }, ...(order.notes ? [{
+      name: 'Notes',
+      columns: [{ header: 'Notes', width: 60 }],
+      rows: [[order.notes]],
+    }] : [])],
+  };
+};
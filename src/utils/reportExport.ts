@@ -0,0 +1,213 @@
+// src/utils/reportExport.ts
+import { Booking } from '@models/booking';
+import { STATUS_LABELS } from './bookingStatus';
+import { APP_NAME } from './constants';
+import { formatCurrency } from './helpers';
+import { XlsxCell, XlsxCellFormat, buildXlsx } from './xlsx';
+
+export type ExportFormat = XlsxCellFormat;
+
+// A cell can override its column's format, e.g. a currency figure in a summary table
+export type ExportValue = string | number | null | undefined | { value: string | number | null; format: ExportFormat };
+
+export interface ExportColumn {
+  header: string;
+  format?: ExportFormat; // Defaults to 'number' for numbers and 'text' otherwise
+  width?: number; // Spreadsheet column width, in characters
+}
+
+/**
+ * One table of the export: a sheet in the workbook, a section in the PDF.
+ */
+export interface ExportTable {
+  name: string;
+  columns: ExportColumn[];
+  rows: ExportValue[][];
+  totals?: ExportValue[]; // Shown in bold under the rows
+}
+
+export interface ExportDocument {
+  title: string; // e.g. "Performance Report"
+  subtitle?: string; // e.g. the date range
+  filename: string; // Without extension
+  tables: ExportTable[];
+}
+
+const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const unwrap = (value: ExportValue, column?: ExportColumn): { value: string | number | null; format?: ExportFormat } => {
+  if (value !== null && typeof value === 'object') return value;
+  return { value: value === undefined ? null : value, format: column?.format };
+};
+
+const toXlsxCell = (value: ExportValue, column?: ExportColumn, bold?: boolean): XlsxCell => ({ ...unwrap(value, column), bold });
+
+// How a value reads on paper
+const formatForPrint = (value: ExportValue, column?: ExportColumn): string => {
+  const cell = unwrap(value, column);
+  if (cell.value === null || cell.value === '') return '';
+
+  if (typeof cell.value === 'number') {
+    switch (cell.format) {
+      case 'currency':
+        return formatCurrency(cell.value);
+      case 'percent':
+        return `${(cell.value * 100).toFixed(1)}%`;
+      default:
+        return cell.value.toLocaleString();
+    }
+  }
+
+  if (cell.format === 'date') {
+    const [year, month, day] = cell.value.split('-').map(part => parseInt(part, 10));
+    if (year && month && day) return new Date(year, month - 1, day).toLocaleDateString();
+  }
+  return cell.value;
+};
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  window.URL.revokeObjectURL(url);
+};
+
+/**
+ * Builds the table of booking lines used by report and booking exports.
+ * @param name - The sheet name.
+ * @param bookings - The bookings, in the order to list them.
+ * @param collectedByBooking - When given, adds a column with what was collected on each booking.
+ */
+export const buildBookingsTable = (
+  name: string,
+  bookings: Booking[],
+  collectedByBooking?: { [bookingId: string]: number }
+): ExportTable => {
+  const columns: ExportColumn[] = [
+    { header: 'Booking ID', width: 12 },
+    { header: 'Date', format: 'date', width: 12 },
+    { header: 'Time', width: 8 },
+    { header: 'Customer', width: 24 },
+    { header: 'Service', width: 24 },
+    { header: 'Staff', width: 20 },
+    { header: 'Status', width: 12 },
+    { header: 'Price', format: 'currency', width: 14 },
+  ];
+  if (collectedByBooking) columns.push({ header: 'Collected', format: 'currency', width: 14 });
+
+  const rows = bookings.map(booking => {
+    const row: ExportValue[] = [
+      booking.id,
+      booking.bookingDate,
+      booking.bookingTime.substring(0, 5),
+      booking.customerName,
+      booking.serviceName,
+      booking.staffName || 'Unassigned',
+      STATUS_LABELS[booking.status],
+      booking.price,
+    ];
+    if (collectedByBooking) row.push(collectedByBooking[booking.id] || 0);
+    return row;
+  });
+
+  const totals: ExportValue[] = ['Total', null, null, null, null, null, null, bookings.reduce((sum, booking) => sum + booking.price, 0)];
+  if (collectedByBooking) {
+    totals.push(bookings.reduce((sum, booking) => sum + (collectedByBooking[booking.id] || 0), 0));
+  }
+
+  return { name, columns, rows, totals };
+};
+
+/**
+ * Downloads the document as an Excel workbook, one sheet per table.
+ * Numbers, amounts and dates are written as real values so they can be summed and sorted.
+ * @param doc - The tables to export.
+ */
+export const exportToXlsx = (doc: ExportDocument) => {
+  const workbook = buildXlsx(doc.tables.map(table => ({
+    name: table.name,
+    freezeHeader: true,
+    columnWidths: table.columns.map(column => column.width || Math.max(12, column.header.length + 2)),
+    rows: [
+      table.columns.map(column => ({ value: column.header, bold: true })),
+      ...table.rows.map(row => row.map((value, index) => toXlsxCell(value, table.columns[index]))),
+      ...(table.totals ? [table.totals.map((value, index) => toXlsxCell(value, table.columns[index], true))] : []),
+    ],
+  })));
+
+  downloadBlob(new Blob([workbook], { type: XLSX_MIME_TYPE }), `${doc.filename}.xlsx`);
+};
+
+/**
+ * Opens the document as a branded, printable page and brings up the print dialog,
+ * where it can be saved as a PDF.
+ * @param doc - The tables to print.
+ */
+export const exportToPdf = (doc: ExportDocument) => {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) {
+    throw new Error('Your browser blocked the print window. Please allow pop-ups for this site and try again.');
+  }
+
+  const alignment = (column: ExportColumn) =>
+    column.format && column.format !== 'text' && column.format !== 'date' ? ' class="numeric"' : '';
+
+  const tables = doc.tables.map(table => `
+    <h2>${escapeHtml(table.name)}</h2>
+    ${table.rows.length === 0 ? '<p class="empty">Nothing to show.</p>' : `
+    <table>
+      <thead><tr>${table.columns.map(column => `<th${alignment(column)}>${escapeHtml(column.header)}</th>`).join('')}</tr></thead>
+      <tbody>
+        ${table.rows.map(row => `<tr>${row.map((value, index) =>
+          `<td${alignment(table.columns[index] || { header: '' })}>${escapeHtml(formatForPrint(value, table.columns[index]))}</td>`).join('')}</tr>`).join('')}
+      </tbody>
+      ${table.totals ? `<tfoot><tr>${table.totals.map((value, index) =>
+        `<td${alignment(table.columns[index] || { header: '' })}>${escapeHtml(formatForPrint(value, table.columns[index]))}</td>`).join('')}</tr></tfoot>` : ''}
+    </table>`}
+  `).join('');
+
+  printWindow.document.write(`<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <title>${escapeHtml(doc.filename)}</title>
+  <style>
+    body { font-family: 'Montserrat', Arial, sans-serif; color: #222222; margin: 32px; font-size: 12px; }
+    header { border-bottom: 2px solid #b8860b; padding-bottom: 12px; margin-bottom: 24px; }
+    .brand { font-family: 'Playfair Display', Georgia, serif; color: #b8860b; font-size: 14px; letter-spacing: 1px; text-transform: uppercase; }
+    h1 { font-family: 'Playfair Display', Georgia, serif; font-size: 24px; margin: 4px 0; }
+    .subtitle { color: #555555; }
+    h2 { font-family: 'Playfair Display', Georgia, serif; font-size: 16px; margin: 24px 0 8px; }
+    table { width: 100%; border-collapse: collapse; page-break-inside: auto; }
+    tr { page-break-inside: avoid; }
+    th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #e0e0e0; }
+    th { background: #f7f3ea; }
+    tfoot td { font-weight: bold; border-top: 2px solid #222222; }
+    .numeric { text-align: right; }
+    .empty { color: #555555; font-style: italic; }
+    footer { margin-top: 32px; color: #555555; font-size: 10px; text-align: center; }
+  </style>
+</head>
+<body>
+  <header>
+    <div class="brand">${escapeHtml(APP_NAME)}</div>
+    <h1>${escapeHtml(doc.title)}</h1>
+    ${doc.subtitle ? `<div class="subtitle">${escapeHtml(doc.subtitle)}</div>` : ''}
+  </header>
+  ${tables}
+  <footer>Generated on ${escapeHtml(new Date().toLocaleString())} · ${escapeHtml(APP_NAME)}</footer>
+</body>
+</html>`);
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+};
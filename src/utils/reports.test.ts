@@ -0,0 +1,73 @@
+// src/utils/reports.test.ts
+import { describe, expect, it } from 'vitest';
+import { ADMIN_ID } from '../mocks/fixtures';
+import { TEST_TODAY } from '../test/clock';
+import { bookingsRepository } from '@repositories/bookings';
+import { changeBookingStatus } from './bookingStatus';
+import { addDays } from './helpers';
+import { buildReport, compareMetric, getComparisonRange, getPresetRange } from './reports';
+
+const today = TEST_TODAY;
+const lastThirtyDays = { from: addDays(today, -30), to: addDays(today, -1) };
+
+describe('buildReport', () => {
+  it('totals the completed appointments and what was collected for them', async () => {
+    const report = await buildReport(lastThirtyDays);
+
+    expect(report).toMatchObject({
+      bookingsCompleted: 4,
+      customersServed: 2,
+      refundsIssued: 130,
+      packageRedeemed: 960,
+      retailRevenue: 558,
+      serviceRevenue: 3560,
+      totalRevenue: 4118,
+      popularService: { name: 'Swedish Massage', count: 2 },
+    });
+    expect(report.collectedByBooking).toMatchObject({ '1': 850, '2': 1200, '3': 550, '4': 0, '14': 960 });
+    expect(report.bookings).toHaveLength(5);
+  });
+
+  it('leaves out appointments outside the range', async () => {
+    const report = await buildReport({ from: today, to: addDays(today, 7) });
+
+    expect(report.bookingsCompleted).toBe(0);
+    expect(report.bookings.map(booking => booking.id).sort()).toEqual(['5', '6', '7', '8']);
+  });
+
+  it('counts a refund against the appointment it was for', async () => {
+    const booking = await bookingsRepository.getById('8');
+    await changeBookingStatus(booking!, 'cancelled', { id: ADMIN_ID, role: 'admin' });
+
+    const report = await buildReport({ from: addDays(today, 5), to: addDays(today, 5) });
+
+    expect(report.refundsIssued).toBe(130);
+    expect(report.collectedByBooking['8']).toBe(0);
+  });
+
+  it('refuses a range that ends before it starts', async () => {
+    await expect(buildReport({ from: today, to: addDays(today, -1) }))
+      .rejects.toThrow('The start date must be on or before the end date.');
+  });
+});
+
+describe('report ranges', () => {
+  it('compares the month so far with the same days of the month before', () => {
+    const range = getPresetRange('this_month', new Date(2026, 2, 15));
+
+    expect(range).toEqual({ from: '2026-03-01', to: '2026-03-15' });
+    expect(getComparisonRange(range, 'previous_period')).toEqual({ from: '2026-02-01', to: '2026-02-15' });
+  });
+
+  it('compares a whole month with the whole month before', () => {
+    const range = getPresetRange('last_month', new Date(2026, 2, 15));
+
+    expect(range).toEqual({ from: '2026-02-01', to: '2026-02-28' });
+    expect(getComparisonRange(range, 'previous_period')).toEqual({ from: '2026-01-01', to: '2026-01-31' });
+  });
+
+  it('works out the change between two figures', () => {
+    expect(compareMetric(150, 100)).toEqual({ current: 150, previous: 100, change: 50, percent: 50 });
+    expect(compareMetric(10, 0).percent).toBeNull();
+  });
+});
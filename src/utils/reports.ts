@@ -0,0 +1,370 @@
+// src/utils/reports.ts
+import { Booking } from '@models/booking';
+import { PaymentMethod } from '@models/payment';
+import { bookingsRepository } from '@repositories/bookings';
+import { paymentsRepository } from '@repositories/payments';
+import { retailSalesRepository } from '@repositories/retailSales';
+import { sessionCardsRepository } from '@repositories/sessionCards';
+import { addDays, daysBetween, parseDate, roundAmount, toDateString } from './helpers';
+
+export type ReportPreset = 'today' | 'this_week' | 'this_month' | 'last_month' | 'this_year' | 'custom';
+
+export type ComparisonMode = 'none' | 'previous_period' | 'previous_year';
+
+/**
+ * An inclusive range of appointment dates, as YYYY-MM-DD strings.
+ */
+export interface ReportRange {
+  from: string;
+  to: string;
+}
+
+export interface ReportData {
+  range: ReportRange;
+  totalRevenue: number; // Services and retail
+  serviceRevenue: number;
+  retailRevenue: number; // Point-of-sale product sales, after discounts
+  retailSalesCount: number;
+  refundsIssued: number; // Money returned; prepaid sessions put back on their packages aren't counted
+  packageSales: number; // Prepaid packages bought in the period; deferred until their sessions are used
+  packageSalesCount: number;
+  packageRedeemed: number; // Prepaid sessions used for the period's appointments; recognized as service revenue
+  packageExpired: number; // Unused value of packages that expired in the period
+  deferredPackageRevenue: number; // Unused value of packages still valid at the end of the period
+  bookingsCompleted: number;
+  customersServed: number;
+  popularService: { name: string; count: number };
+  revenueByService: { service: string; revenue: number }[];
+  revenueByProduct: { product: string; quantity: number; revenue: number }[];
+  revenueByMethod: { method: PaymentMethod; revenue: number }[];
+  bookings: Booking[]; // Every appointment in the period, whatever its status
+  collectedByBooking: { [bookingId: string]: number };
+}
+
+/**
+ * How one figure moved between two periods.
+ */
+export interface MetricDelta {
+  current: number;
+  previous: number;
+  change: number;
+  percent: number | null; // null when the previous figure was zero
+}
+
+export interface ReportComparison {
+  mode: Exclude<ComparisonMode, 'none'>;
+  previous: ReportData;
+  totalRevenue: MetricDelta;
+  bookingsCompleted: MetricDelta;
+  customersServed: MetricDelta;
+}
+
+export const REPORT_PRESET_LABELS: Record<ReportPreset, string> = {
+  today: 'Today',
+  this_week: 'This Week',
+  this_month: 'This Month',
+  last_month: 'Last Month',
+  this_year: 'This Year',
+  custom: 'Custom Range',
+};
+
+export const COMPARISON_LABELS: Record<ComparisonMode, string> = {
+  none: 'No comparison',
+  previous_period: 'Previous period',
+  previous_year: 'Same period last year',
+};
+
+// Same day in another month, pulled back to the month's last day (31 Mar → 28/29 Feb)
+const shiftMonths = (value: string, months: number): string => {
+  const date = parseDate(value);
+  const day = date.getDate();
+  const target = new Date(date.getFullYear(), date.getMonth() + months, 1);
+  const lastDay = new Date(target.getFullYear(), target.getMonth() + 1, 0).getDate();
+  target.setDate(Math.min(day, lastDay));
+  return toDateString(target);
+};
+
+const endOfMonth = (value: string): string => {
+  const date = parseDate(value);
+  return toDateString(new Date(date.getFullYear(), date.getMonth() + 1, 0));
+};
+
+/**
+ * Works out the dates a preset covers. Current periods run up to today.
+ * @param preset - The preset period (anything but 'custom').
+ * @param today - Defaults to now.
+ */
+export const getPresetRange = (preset: Exclude<ReportPreset, 'custom'>, today: Date = new Date()): ReportRange => {
+  const todayString = toDateString(today);
+
+  switch (preset) {
+    case 'today':
+      return { from: todayString, to: todayString };
+    case 'this_week': {
+      // Weeks start on Monday
+      const sinceMonday = (today.getDay() + 6) % 7;
+      return { from: addDays(todayString, -sinceMonday), to: todayString };
+    }
+    case 'this_month':
+      return { from: toDateString(new Date(today.getFullYear(), today.getMonth(), 1)), to: todayString };
+    case 'last_month':
+      return {
+        from: toDateString(new Date(today.getFullYear(), today.getMonth() - 1, 1)),
+        to: toDateString(new Date(today.getFullYear(), today.getMonth(), 0)),
+      };
+    case 'this_year':
+      return { from: toDateString(new Date(today.getFullYear(), 0, 1)), to: todayString };
+  }
+};
+
+/**
+ * Works out the period to compare a range against.
+ * A range starting on the 1st of a month is compared with the same days of the previous month
+ * (a whole month with the whole previous month); any other range with the same number of days just before it.
+ * @param range - The period being reported on.
+ * @param mode - 'previous_period' or 'previous_year'.
+ */
+export const getComparisonRange = (range: ReportRange, mode: Exclude<ComparisonMode, 'none'>): ReportRange => {
+  if (mode === 'previous_year') {
+    return { from: shiftMonths(range.from, -12), to: shiftMonths(range.to, -12) };
+  }
+
+  const startsOnFirst = range.from.endsWith('-01');
+  const sameMonth = range.from.slice(0, 7) === range.to.slice(0, 7);
+  if (startsOnFirst && sameMonth) {
+    const from = shiftMonths(range.from, -1);
+    const to = range.to === endOfMonth(range.to) ? endOfMonth(from) : shiftMonths(range.to, -1);
+    return { from, to };
+  }
+
+  const length = daysBetween(range.from, range.to) + 1;
+  return { from: addDays(range.from, -length), to: addDays(range.to, -length) };
+};
+
+/**
+ * Lists every date in a range, oldest first.
+ * @param range - Inclusive dates.
+ */
+export const listDatesInRange = (range: ReportRange): string[] => {
+  const dates: string[] = [];
+  for (let date = range.from; date <= range.to; date = addDays(date, 1)) {
+    dates.push(date);
+  }
+  return dates;
+};
+
+/**
+ * Describes a date range for headings, e.g. "1 Oct 2026 – 18 Oct 2026".
+ * @param range - The date range.
+ */
+export const formatReportRange = (range: ReportRange): string => {
+  const options: Intl.DateTimeFormatOptions = { day: 'numeric', month: 'short', year: 'numeric' };
+  const from = parseDate(range.from).toLocaleDateString(undefined, options);
+  if (range.from === range.to) return from;
+  return `${from} – ${parseDate(range.to).toLocaleDateString(undefined, options)}`;
+};
+
+/**
+ * Works out where prepaid packages stand for a range. Money for a package is deferred when it is
+ * bought and recognized as each session is used, by the date of the appointment it paid for.
+ * @param range - Inclusive appointment dates.
+ * @param createdFrom - The start of the range's first day, as an ISO string.
+ * @param createdTo - The end of the range's last day, as an ISO string.
+ * @returns What was sold and expired in the range, and what was still unused at its end.
+ */
+const buildPackageFigures = async (range: ReportRange, createdFrom: string, createdTo: string) => {
+  const cards = await sessionCardsRepository.list({ purchasedTo: createdTo });
+  const itemIds = cards.flatMap(card => card.items.map(item => item.id));
+  const redemptions = itemIds.length > 0
+    ? await paymentsRepository.list({ sessionCardItemIds: itemIds })
+    : [];
+
+  // Sessions used for appointments after the range were still unused at its end
+  const usedLaterByItem: { [itemId: string]: number } = {};
+  redemptions
+    .filter(payment => payment.sessionCardItemId && (payment.bookingDate || '') > range.to)
+    .forEach(payment => {
+      const amount = payment.kind === 'refund' ? -payment.amount : payment.amount;
+      usedLaterByItem[payment.sessionCardItemId!] = (usedLaterByItem[payment.sessionCardItemId!] || 0) + amount;
+    });
+
+  let packageSales = 0;
+  let packageSalesCount = 0;
+  let packageExpired = 0;
+  let deferredPackageRevenue = 0;
+  cards.forEach(card => {
+    if (card.purchasedAt >= createdFrom) {
+      packageSales += card.price;
+      packageSalesCount += 1;
+    }
+
+    const unused = card.items.reduce(
+      (sum, item) => sum + item.remaining * item.unitValue + (usedLaterByItem[item.id] || 0),
+      0
+    );
+    if (card.expiresAt && card.expiresAt <= range.to) {
+      if (card.expiresAt >= range.from) packageExpired += unused;
+    } else {
+      deferredPackageRevenue += unused;
+    }
+  });
+
+  return {
+    packageSales: roundAmount(packageSales),
+    packageSalesCount,
+    packageExpired: roundAmount(packageExpired),
+    deferredPackageRevenue: roundAmount(Math.max(0, deferredPackageRevenue)),
+  };
+};
+
+/**
+ * Builds the report for appointments dated within a range.
+ * Service revenue is what was actually collected for those appointments: deposits, payments and
+ * prepaid sessions used, less refunds. Retail revenue is what point-of-sale purchases made on those days brought in.
+ * Prepaid packages bought in the range are reported separately, as deferred until their sessions are used.
+ * @param range - Inclusive appointment dates.
+ */
+export const buildReport = async (range: ReportRange): Promise<ReportData> => {
+  if (range.from > range.to) {
+    throw new Error('The start date must be on or before the end date.');
+  }
+
+  const bookings = await bookingsRepository.list({ fromDate: range.from, toDate: range.to });
+  const payments = bookings.length > 0
+    ? await paymentsRepository.list({ bookingIds: bookings.map(booking => booking.id) })
+    : [];
+
+  const createdFrom = parseDate(range.from).toISOString();
+  const createdTo = new Date(parseDate(addDays(range.to, 1)).getTime() - 1).toISOString();
+  const retailSales = await retailSalesRepository.list({ createdFrom, createdTo });
+  const packageFigures = await buildPackageFigures(range, createdFrom, createdTo);
+
+  const completed = bookings.filter(booking => booking.status === 'completed');
+
+  const serviceRevenue: { [key: string]: number } = {};
+  const methodRevenue: { [key: string]: number } = {};
+  const collectedByBooking: { [bookingId: string]: number } = {};
+  let refundsIssued = 0;
+  let packageRedeemed = 0;
+
+  payments.forEach(payment => {
+    const amount = payment.kind === 'refund' ? -payment.amount : payment.amount;
+    collectedByBooking[payment.bookingId] = roundAmount((collectedByBooking[payment.bookingId] || 0) + amount);
+    const service = payment.serviceName || 'Unknown Service';
+    serviceRevenue[service] = (serviceRevenue[service] || 0) + amount;
+    methodRevenue[payment.method] = (methodRevenue[payment.method] || 0) + amount;
+    if (payment.sessionCardItemId) {
+      packageRedeemed += amount;
+    } else if (payment.kind === 'refund') {
+      refundsIssued += payment.amount;
+    }
+  });
+
+  const serviceTotal = roundAmount(Object.values(methodRevenue).reduce((sum, revenue) => sum + revenue, 0));
+
+  // Spread each sale's discount over its lines so products add up to the sale totals
+  const productRevenue: { [key: string]: { quantity: number; revenue: number } } = {};
+  let retailRevenue = 0;
+  retailSales.forEach(sale => {
+    retailRevenue += sale.total;
+    methodRevenue[sale.paymentMethod] = (methodRevenue[sale.paymentMethod] || 0) + sale.total;
+    const share = sale.subtotal > 0 ? sale.total / sale.subtotal : 0;
+    sale.lines.forEach(line => {
+      const product = line.productName || 'Deleted product';
+      const totals = productRevenue[product] || { quantity: 0, revenue: 0 };
+      productRevenue[product] = { quantity: totals.quantity + line.quantity, revenue: totals.revenue + line.lineTotal * share };
+    });
+  });
+
+  const revenueByProduct = Object.entries(productRevenue)
+    .map(([product, totals]) => ({ product, quantity: totals.quantity, revenue: roundAmount(totals.revenue) }))
+    .sort((a, b) => b.revenue - a.revenue);
+
+  const revenueByService = Object.entries(serviceRevenue)
+    .filter(([, revenue]) => revenue !== 0)
+    .map(([service, revenue]) => ({ service, revenue: roundAmount(revenue) }))
+    .sort((a, b) => b.revenue - a.revenue);
+
+  const revenueByMethod = Object.entries(methodRevenue)
+    .filter(([, revenue]) => revenue !== 0)
+    .map(([method, revenue]) => ({ method: method as PaymentMethod, revenue: roundAmount(revenue) }))
+    .sort((a, b) => b.revenue - a.revenue);
+
+  // Most popular service among completed appointments
+  const serviceCount: { [key: string]: number } = {};
+  completed.forEach(booking => {
+    serviceCount[booking.serviceName] = (serviceCount[booking.serviceName] || 0) + 1;
+  });
+
+  let popularService = { name: 'No data', count: 0 };
+  if (Object.keys(serviceCount).length > 0) {
+    const [name, count] = Object.entries(serviceCount)
+      .reduce((max, [serviceName, serviceTotal]) => serviceTotal > max[1] ? [serviceName, serviceTotal] : max, ['', 0]);
+    popularService = { name, count };
+  }
+
+  return {
+    range,
+    totalRevenue: roundAmount(serviceTotal + retailRevenue),
+    serviceRevenue: serviceTotal,
+    retailRevenue: roundAmount(retailRevenue),
+    retailSalesCount: retailSales.length,
+    refundsIssued: roundAmount(refundsIssued),
+    ...packageFigures,
+    packageRedeemed: roundAmount(packageRedeemed),
+    bookingsCompleted: completed.length,
+    customersServed: new Set(completed.map(booking => booking.customerId)).size,
+    popularService,
+    revenueByService,
+    revenueByProduct,
+    revenueByMethod,
+    bookings,
+    collectedByBooking,
+  };
+};
+
+/**
+ * Works out the absolute and percentage change between two figures.
+ * @param current - This period's figure.
+ * @param previous - The comparison period's figure.
+ */
+export const compareMetric = (current: number, previous: number): MetricDelta => ({
+  current,
+  previous,
+  change: roundAmount(current - previous),
+  percent: previous === 0 ? null : roundAmount(((current - previous) / previous) * 100),
+});
+
+/**
+ * Builds the comparison figures for a report.
+ * @param current - The report being viewed.
+ * @param mode - What to compare it with.
+ */
+export const buildComparison = async (
+  current: ReportData,
+  mode: Exclude<ComparisonMode, 'none'>
+): Promise<ReportComparison> => {
+  const previous = await buildReport(getComparisonRange(current.range, mode));
+
+  return {
+    mode,
+    previous,
+    totalRevenue: compareMetric(current.totalRevenue, previous.totalRevenue),
+    bookingsCompleted: compareMetric(current.bookingsCompleted, previous.bookingsCompleted),
+    customersServed: compareMetric(current.customersServed, previous.customersServed),
+  };
+};
+
+/**
+ * Describes a change for display, e.g. "+3 (+25.0%)" or "-₱1,200.00 (-10.0%)".
+ * @param delta - The change.
+ * @param formatValue - Formats the absolute change, e.g. as currency.
+ */
+export const formatDelta = (delta: MetricDelta, formatValue: (value: number) => string = String): string => {
+  const sign = delta.change > 0 ? '+' : delta.change < 0 ? '-' : '';
+  const absolute = `${sign}${formatValue(Math.abs(delta.change))}`;
+  if (delta.percent === null) {
+    return delta.current === 0 ? `${absolute} (no change)` : `${absolute} (new)`;
+  }
+  return `${absolute} (${delta.percent > 0 ? '+' : ''}${delta.percent.toFixed(1)}%)`;
+};
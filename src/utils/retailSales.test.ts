@@ -0,0 +1,44 @@
+// src/utils/retailSales.test.ts
+import { describe, expect, it, vi } from 'vitest';
+import { STAFF_ANA_ID } from '../mocks/fixtures';
+import { inventoryRepository } from '@repositories/inventory';
+import { stockMovementsRepository } from '@repositories/stockMovements';
+import { completeRetailSale, toProduct } from './retailSales';
+
+const productFor = async (id: string) => {
+  const item = await inventoryRepository.getById(id);
+  if (!item) throw new Error(`Item ${id} is missing from the fixtures`);
+  return toProduct(item);
+};
+
+const stockOf = async (id: string) => (await inventoryRepository.getById(id))?.stock;
+
+describe('completeRetailSale', () => {
+  it('records the sale and takes the products out of stock', async () => {
+    const sale = await completeRetailSale({
+      cart: [{ product: await productFor('1'), quantity: 2 }, { product: await productFor('5'), quantity: 1 }],
+      paymentMethod: 'cash',
+      soldBy: STAFF_ANA_ID,
+    });
+
+    expect(sale.total).toBe(sale.subtotal);
+    expect(await stockOf('1')).toBe(46);
+    expect(await stockOf('5')).toBe(19);
+  });
+
+  it('sells nothing when a product cannot be taken out of stock', async () => {
+    const record = stockMovementsRepository.record;
+    vi.spyOn(stockMovementsRepository, 'record')
+      .mockImplementationOnce(record)
+      .mockRejectedValueOnce(new Error('Failed to record stock movement: offline'));
+
+    await expect(completeRetailSale({
+      cart: [{ product: await productFor('1'), quantity: 2 }, { product: await productFor('5'), quantity: 1 }],
+      paymentMethod: 'cash',
+      soldBy: STAFF_ANA_ID,
+    })).rejects.toThrow('offline');
+
+    expect(await stockOf('1')).toBe(48);
+    expect(await stockOf('5')).toBe(20);
+  });
+});
@@ -0,0 +1,206 @@
+// src/utils/retailSales.ts
+import { Booking } from '@models/booking';
+import { InventoryItem } from '@models/inventory';
+import { PaymentMethod } from '@models/payment';
+import { CartLine, RetailSale, SaleDiscount } from '@models/retail';
+import { Product } from '@models/service';
+import { inventoryRepository } from '@repositories/inventory';
+import { retailSalesRepository } from '@repositories/retailSales';
+import { recordStockMovement } from './inventory';
+import { PAYMENT_METHOD_LABELS, chargeRetailSale } from './payments';
+import { ExportDocument } from './reportExport';
+import { roundAmount } from './helpers';
+
+export interface CartTotals {
+  subtotal: number;
+  discount: number;
+  total: number;
+}
+
+export interface RetailSaleRequest {
+  cart: CartLine[];
+  discount?: SaleDiscount;
+  paymentMethod: PaymentMethod;
+  booking?: Pick<Booking, 'id' | 'customerId' | 'status'>; // The appointment the products are added to, if any
+  soldBy?: string;
+}
+
+/**
+ * Presents an inventory item as a retail product.
+ * @param item - The inventory item.
+ */
+export const toProduct = (item: InventoryItem): Product => ({
+  id: item.id,
+  name: item.name,
+  description: item.unit !== 'pcs' ? `Sold per ${item.unit}` : undefined,
+  price: item.price,
+  stock: item.stock,
+  category: item.category,
+});
+
+/**
+ * Loads the products that can be sold over the counter: priced inventory items, by name.
+ */
+export const fetchRetailProducts = async (): Promise<Product[]> => {
+  const items = await inventoryRepository.getAll();
+  return items
+    .filter(item => item.price > 0)
+    .map(toProduct)
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+/**
+ * Totals a cart and applies its discount. The discount never takes the total below zero.
+ * @param cart - The products and quantities.
+ * @param discount - An amount or percentage off, if any.
+ */
+export const calculateCartTotals = (cart: CartLine[], discount?: SaleDiscount): CartTotals => {
+  const subtotal = roundAmount(cart.reduce((sum, line) => sum + line.product.price * line.quantity, 0));
+
+  let discountAmount = 0;
+  if (discount && discount.value > 0) {
+    discountAmount = discount.type === 'percent'
+      ? roundAmount(subtotal * Math.min(discount.value, 100) / 100)
+      : roundAmount(discount.value);
+  }
+  discountAmount = Math.min(discountAmount, subtotal);
+
+  return { subtotal, discount: discountAmount, total: roundAmount(subtotal - discountAmount) };
+};
+
+// Puts back what a sale that didn't go through had already taken out of stock
+const returnToStock = async (lines: CartLine[], saleId: string, recordedBy?: string): Promise<void> => {
+  for (const line of lines) {
+    try {
+      await recordStockMovement({
+        itemId: line.product.id,
+        quantity: line.quantity,
+        reason: 'adjustment',
+        note: `Sale #${saleId} cancelled`,
+        recordedBy,
+      });
+    } catch (err) {
+      console.error(`❌ Error returning ${line.product.name} to stock:`, err);
+    }
+  }
+};
+
+/**
+ * Sells the products in a cart: records the sale, takes the products out of stock and takes
+ * card and e-wallet payments through the gateway. Stock is taken before the customer is charged,
+ * so two sales of the last item can't both go through; if either step fails, nothing is sold.
+ * @param request - The cart, discount, payment method and the appointment it belongs to, if any.
+ * @returns The recorded sale.
+ */
+export const completeRetailSale = async (request: RetailSaleRequest): Promise<RetailSale> => {
+  const { cart, discount, paymentMethod, booking, soldBy } = request;
+
+  if (cart.length === 0) {
+    throw new Error('Add at least one product to the sale.');
+  }
+  if (cart.some(line => !Number.isInteger(line.quantity) || line.quantity <= 0)) {
+    throw new Error('Quantities must be whole numbers greater than zero.');
+  }
+  if (booking && booking.status !== 'completed') {
+    throw new Error('Products can only be added to a completed appointment.');
+  }
+  if (discount?.type === 'percent' && discount.value > 100) {
+    throw new Error('A discount cannot be more than 100%.');
+  }
+
+  // Check stock against the latest figures, not what the screen loaded
+  const items = await inventoryRepository.getAll();
+  for (const line of cart) {
+    const item = items.find(candidate => candidate.id === line.product.id);
+    if (!item) {
+      throw new Error(`${line.product.name} is no longer in the inventory.`);
+    }
+    if (item.stock < line.quantity) {
+      throw new Error(`Only ${item.stock} of ${item.name} left in stock.`);
+    }
+  }
+
+  const totals = calculateCartTotals(cart, discount);
+  const saleId = await retailSalesRepository.create({
+    bookingId: booking?.id,
+    customerId: booking?.customerId,
+    soldBy,
+    ...totals,
+    paymentMethod,
+    lines: cart.map(line => ({ itemId: line.product.id, quantity: line.quantity, unitPrice: line.product.price })),
+  });
+
+  // Takes stock out line by line; the stock update refuses to go below zero if another sale got there first
+  const taken: CartLine[] = [];
+  try {
+    for (const line of cart) {
+      await recordStockMovement({
+        itemId: line.product.id,
+        quantity: -line.quantity,
+        reason: 'sale',
+        bookingId: booking?.id,
+        note: `Sale #${saleId}`,
+        recordedBy: soldBy,
+      });
+      taken.push(line);
+    }
+  } catch (err) {
+    await returnToStock(taken, saleId, soldBy);
+    await retailSalesRepository.delete(saleId);
+    throw err;
+  }
+
+  if (paymentMethod !== 'cash' && totals.total > 0) {
+    try {
+      const reference = await chargeRetailSale(saleId, totals.total, paymentMethod);
+      await retailSalesRepository.setReference(saleId, reference);
+    } catch (err: any) {
+      // A declined payment means there was no sale
+      await returnToStock(taken, saleId, soldBy);
+      await retailSalesRepository.delete(saleId);
+      throw new Error(`Payment failed: ${err.message}`);
+    }
+  }
+
+  const sale = await retailSalesRepository.getById(saleId);
+  if (!sale) throw new Error('The sale was recorded but could not be loaded.');
+  return sale;
+};
+
+/**
+ * Builds a printable receipt for a sale.
+ * @param sale - The sale, with its lines.
+ */
+export const buildReceiptDocument = (sale: RetailSale): ExportDocument => ({
+  title: `Receipt #${sale.id}`,
+  subtitle: [
+    new Date(sale.createdAt).toLocaleString(),
+    sale.customerName && `Customer: ${sale.customerName}`,
+    sale.soldByName && `Served by ${sale.soldByName}`,
+  ].filter(Boolean).join(' · '),
+  filename: `receipt-${sale.id}`,
+  tables: [
+    {
+      name: 'Items',
+      columns: [
+        { header: 'Product', width: 28 },
+        { header: 'Qty', format: 'number', width: 8 },
+        { header: 'Unit Price', format: 'currency', width: 14 },
+        { header: 'Amount', format: 'currency', width: 14 },
+      ],
+      rows: sale.lines.map(line => [line.productName || 'Deleted product', line.quantity, line.unitPrice, line.lineTotal]),
+      totals: ['Subtotal', null, null, sale.subtotal],
+    },
+    {
+      name: 'Payment',
+      columns: [{ header: 'Detail', width: 20 }, { header: 'Value', width: 28 }],
+      rows: [
+        ['Subtotal', { value: sale.subtotal, format: 'currency' }],
+        ['Discount', { value: -sale.discount, format: 'currency' }],
+        ['Total', { value: sale.total, format: 'currency' }],
+        ['Paid by', PAYMENT_METHOD_LABELS[sale.paymentMethod]],
+        ...(sale.reference ? [['Reference', sale.reference]] : []),
+      ],
+    },
+  ],
+});
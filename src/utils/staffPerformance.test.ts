@@ -0,0 +1,47 @@
+// src/utils/staffPerformance.test.ts
+import { describe, expect, it } from 'vitest';
+import { CommissionRule } from '@models/staff';
+import { STAFF_ANA_ID, STAFF_MARIA_ID } from '../mocks/fixtures';
+import { TEST_TODAY } from '../test/clock';
+import { addDays } from './helpers';
+import { buildStaffPerformanceReport, findCommissionRate, formatPercent } from './staffPerformance';
+
+const lastTwoWeeks = { from: addDays(TEST_TODAY, -14), to: addDays(TEST_TODAY, -1) };
+
+describe('findCommissionRate', () => {
+  const rules: CommissionRule[] = [
+    { id: '1', staffId: STAFF_ANA_ID, category: 'hair', rate: 0.15 },
+    { id: '2', staffId: STAFF_ANA_ID, rate: 0.12 },
+    { id: '3', category: 'massage', rate: 0.2 },
+  ];
+
+  it('uses the most specific rule', () => {
+    expect(findCommissionRate(rules, STAFF_ANA_ID, 'hair')).toBe(0.15);
+    expect(findCommissionRate(rules, STAFF_ANA_ID, 'massage')).toBe(0.12);
+    expect(findCommissionRate(rules, STAFF_MARIA_ID, 'massage')).toBe(0.2);
+  });
+
+  it('falls back to the default rate', () => {
+    expect(findCommissionRate(rules, STAFF_MARIA_ID, 'facial')).toBe(0.1);
+  });
+});
+
+describe('buildStaffPerformanceReport', () => {
+  it("works out each staff member's revenue, rates and commission", async () => {
+    const report = await buildStaffPerformanceReport(lastTwoWeeks);
+
+    expect(report.map(row => row.staffId)).toEqual([STAFF_ANA_ID, STAFF_MARIA_ID]);
+    expect(report[0]).toMatchObject({ bookingsCompleted: 3, revenue: 2710, averageTicket: 903.33, commission: 271 });
+    expect(report[1]).toMatchObject({ totalBookings: 2, cancellations: 1, cancellationRate: 0.5, revenue: 850, commission: 85 });
+  });
+
+  it('measures booked time against the hours the staff member worked', async () => {
+    const [, maria] = await buildStaffPerformanceReport(lastTwoWeeks);
+
+    expect(maria.bookedMinutes).toBe(60);
+    // No saved hours, so the default nine-hour day applies on each of the 14 days
+    expect(maria.availableMinutes).toBe(14 * 540);
+    expect(maria.utilization).toBeCloseTo(60 / 7560);
+    expect(formatPercent(0.425)).toBe('42.5%');
+  });
+});
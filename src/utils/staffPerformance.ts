@@ -0,0 +1,162 @@
+// src/utils/staffPerformance.ts
+import { Booking, BookingStatus } from '@models/booking';
+import { ServiceCategory } from '@models/service';
+import { CommissionRule } from '@models/staff';
+import { bookingsRepository } from '@repositories/bookings';
+import { commissionRulesRepository } from '@repositories/commissionRules';
+import { paymentsRepository } from '@repositories/payments';
+import { usersRepository } from '@repositories/users';
+import { getWorkingIntervals } from './availability';
+import { DEFAULT_COMMISSION_RATE } from './constants';
+import { roundAmount } from './helpers';
+import { ReportRange, listDatesInRange } from './reports';
+import { fetchTimeOff, fetchWeeklyHours, findTimeOffOn, getDayOfWeek } from './staffSchedule';
+
+/**
+ * One staff member's figures for a report period.
+ */
+export interface StaffPerformance {
+  staffId: string;
+  staffName: string;
+  totalBookings: number; // Every booking in the period, whatever its status
+  bookingsCompleted: number;
+  cancellations: number;
+  noShows: number;
+  revenue: number; // Collected on completed bookings
+  averageTicket: number;
+  cancellationRate: number; // 0–1, of all bookings
+  noShowRate: number; // 0–1, of all bookings
+  bookedMinutes: number;
+  availableMinutes: number;
+  utilization: number; // Booked minutes over available minutes, 0–1 (can exceed 1 when overbooked)
+  commission: number;
+}
+
+// Bookings that took up the staff member's time; a no-show still held the slot
+const TIME_BOOKED_STATUSES: BookingStatus[] = ['pending', 'confirmed', 'in_progress', 'completed', 'no_show'];
+
+const ratio = (part: number, whole: number): number => (whole > 0 ? part / whole : 0);
+
+/**
+ * Finds the commission rate for a staff member's work in a category.
+ * The most specific rule wins: staff member and category, then staff member, then category,
+ * then a rule covering everyone. Without any matching rule the default rate applies.
+ * @param rules - Every commission rule.
+ * @param staffId - The staff member's ID.
+ * @param category - The service's category, if known.
+ */
+export const findCommissionRate = (
+  rules: CommissionRule[],
+  staffId: string,
+  category?: ServiceCategory
+): number => {
+  const candidates = [
+    rules.find(rule => rule.staffId === staffId && rule.category && rule.category === category),
+    rules.find(rule => rule.staffId === staffId && !rule.category),
+    rules.find(rule => !rule.staffId && rule.category && rule.category === category),
+    rules.find(rule => !rule.staffId && !rule.category),
+  ];
+  const match = candidates.find(rule => rule !== undefined);
+  return match ? match.rate : DEFAULT_COMMISSION_RATE;
+};
+
+// Minutes a staff member could take appointments on the given dates, after breaks and time off
+const countAvailableMinutes = async (staffId: string, dates: string[], from: string): Promise<number> => {
+  const [weeklyHours, timeOff] = await Promise.all([fetchWeeklyHours(staffId), fetchTimeOff(staffId, from)]);
+
+  return dates.reduce((total, date) => {
+    if (findTimeOffOn(date, timeOff)) return total;
+    const hours = weeklyHours[getDayOfWeek(date)];
+    return total + getWorkingIntervals(hours).reduce((sum, interval) => sum + interval.end - interval.start, 0);
+  }, 0);
+};
+
+/**
+ * Builds each staff member's performance and commission for appointments dated within a range.
+ * Staff with no bookings in the period are included, so their utilization shows as zero.
+ * @param range - Inclusive appointment dates.
+ */
+export const buildStaffPerformanceReport = async (range: ReportRange): Promise<StaffPerformance[]> => {
+  if (range.from > range.to) {
+    throw new Error('The start date must be on or before the end date.');
+  }
+
+  const [bookings, staffMembers, rules] = await Promise.all([
+    bookingsRepository.list({ fromDate: range.from, toDate: range.to }),
+    usersRepository.getByRoles(['staff']),
+    commissionRulesRepository.getAll(),
+  ]);
+
+  const completed = bookings.filter(booking => booking.status === 'completed' && booking.staffId);
+  const payments = completed.length > 0
+    ? await paymentsRepository.list({ bookingIds: completed.map(booking => booking.id) })
+    : [];
+
+  const collectedByBooking: { [bookingId: string]: number } = {};
+  payments.forEach(payment => {
+    const amount = payment.kind === 'refund' ? -payment.amount : payment.amount;
+    collectedByBooking[payment.bookingId] = (collectedByBooking[payment.bookingId] || 0) + amount;
+  });
+
+  // Everyone on staff, plus anyone else (e.g. an admin) who had bookings assigned
+  const staffNames = new Map<string, string>();
+  staffMembers.forEach(member => staffNames.set(member.id, `${member.firstName} ${member.lastName}`.trim()));
+  bookings.forEach(booking => {
+    if (booking.staffId && !staffNames.has(booking.staffId)) {
+      staffNames.set(booking.staffId, booking.staffName || 'Unknown Staff');
+    }
+  });
+
+  const bookingsByStaff: { [staffId: string]: Booking[] } = {};
+  bookings.forEach(booking => {
+    if (!booking.staffId) return;
+    (bookingsByStaff[booking.staffId] = bookingsByStaff[booking.staffId] || []).push(booking);
+  });
+
+  const dates = listDatesInRange(range);
+
+  const report = await Promise.all(Array.from(staffNames.entries()).map(async ([staffId, staffName]) => {
+    const staffBookings = bookingsByStaff[staffId] || [];
+    const staffCompleted = staffBookings.filter(booking => booking.status === 'completed');
+    const cancellations = staffBookings.filter(booking => booking.status === 'cancelled').length;
+    const noShows = staffBookings.filter(booking => booking.status === 'no_show').length;
+
+    let revenue = 0;
+    let commission = 0;
+    staffCompleted.forEach(booking => {
+      const collected = collectedByBooking[booking.id] || 0;
+      revenue += collected;
+      commission += collected * findCommissionRate(rules, staffId, booking.serviceCategory);
+    });
+
+    const bookedMinutes = staffBookings
+      .filter(booking => TIME_BOOKED_STATUSES.includes(booking.status))
+      .reduce((sum, booking) => sum + booking.durationMinutes, 0);
+    const availableMinutes = await countAvailableMinutes(staffId, dates, range.from);
+
+    return {
+      staffId,
+      staffName,
+      totalBookings: staffBookings.length,
+      bookingsCompleted: staffCompleted.length,
+      cancellations,
+      noShows,
+      revenue: roundAmount(revenue),
+      averageTicket: roundAmount(ratio(revenue, staffCompleted.length)),
+      cancellationRate: ratio(cancellations, staffBookings.length),
+      noShowRate: ratio(noShows, staffBookings.length),
+      bookedMinutes,
+      availableMinutes,
+      utilization: ratio(bookedMinutes, availableMinutes),
+      commission: roundAmount(commission),
+    };
+  }));
+
+  return report.sort((a, b) => b.revenue - a.revenue || a.staffName.localeCompare(b.staffName));
+};
+
+/**
+ * Formats a 0–1 ratio as a percentage, e.g. "42.5%".
+ * @param value - The ratio.
+ */
+export const formatPercent = (value: number): string => `${(value * 100).toFixed(1)}%`;
@@ -0,0 +1,95 @@
+// src/utils/staffSchedule.ts
+import { DayOfWeek, TimeOff, WorkingHours } from '@models/schedule';
+import { staffScheduleRepository } from '@repositories/staffSchedule';
+import { DEFAULT_END_TIME, DEFAULT_START_TIME } from './constants';
+
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/**
+ * Builds the default schedule for one day when nothing has been saved yet.
+ * @param staffId - The staff member's ID.
+ * @param dayOfWeek - 0 (Sunday) to 6 (Saturday).
+ */
+export const defaultWorkingHours = (staffId: string, dayOfWeek: DayOfWeek): WorkingHours => ({
+  staffId,
+  dayOfWeek,
+  isWorking: true,
+  startTime: DEFAULT_START_TIME,
+  endTime: DEFAULT_END_TIME,
+});
+
+/**
+ * Returns the weekday of a YYYY-MM-DD date in local time.
+ * (new Date('YYYY-MM-DD') parses as UTC and can land on the previous day.)
+ * @param date - The date string.
+ */
+export const getDayOfWeek = (date: string): DayOfWeek => {
+  const [year, month, day] = date.split('-').map(part => parseInt(part, 10));
+  return new Date(year, month - 1, day).getDay() as DayOfWeek;
+};
+
+/**
+ * Returns the weekday name ("Monday") of a YYYY-MM-DD date.
+ * @param date - The date string.
+ */
+export const getWeekdayName = (date: string): string => WEEKDAY_NAMES[getDayOfWeek(date)];
+
+/**
+ * Finds the time-off entry (leave or holiday) covering a date, if any.
+ * @param date - The date to check (YYYY-MM-DD).
+ * @param entries - Time-off entries for the staff member, including salon-wide holidays.
+ */
+export const findTimeOffOn = (date: string, entries: TimeOff[]): TimeOff | undefined =>
+  entries.find(entry => entry.startDate <= date && date <= entry.endDate);
+
+/**
+ * Loads a staff member's full week, filling unsaved days with the default hours.
+ * @param staffId - The staff member's ID.
+ * @returns Seven entries ordered Sunday to Saturday.
+ */
+export const fetchWeeklyHours = async (staffId: string): Promise<WorkingHours[]> => {
+  const saved = await staffScheduleRepository.listWorkingHours(staffId);
+  return WEEKDAY_NAMES.map((_, index) => {
+    const day = index as DayOfWeek;
+    return saved.find(hours => hours.dayOfWeek === day) || defaultWorkingHours(staffId, day);
+  });
+};
+
+/**
+ * Loads the working hours for one staff member on one date.
+ * @param staffId - The staff member's ID.
+ * @param date - The date (YYYY-MM-DD).
+ */
+export const fetchWorkingHoursForDate = async (staffId: string, date: string): Promise<WorkingHours> => {
+  const day = getDayOfWeek(date);
+  return (await staffScheduleRepository.getWorkingHours(staffId, day)) || defaultWorkingHours(staffId, day);
+};
+
+/**
+ * Saves a staff member's week, replacing any existing entries for the same days.
+ * @param hours - One entry per day.
+ */
+export const saveWeeklyHours = (hours: WorkingHours[]): Promise<void> =>
+  staffScheduleRepository.saveWorkingHours(hours);
+
+/**
+ * Loads time off for a staff member together with salon-wide holidays.
+ * Without a staff ID, returns every entry.
+ * @param staffId - Optional staff member's ID.
+ * @param fromDate - Optional lower bound; entries ending before it are skipped.
+ */
+export const fetchTimeOff = (staffId?: string, fromDate?: string): Promise<TimeOff[]> =>
+  staffScheduleRepository.listTimeOff(staffId, fromDate);
+
+/**
+ * Records leave for a staff member, or a salon-wide holiday when no staff ID is given.
+ * @param entry - The time-off details.
+ */
+export const addTimeOff = (entry: Omit<TimeOff, 'id'>): Promise<void> =>
+  staffScheduleRepository.addTimeOff(entry);
+
+/**
+ * Removes a time-off entry.
+ * @param id - The entry's ID.
+ */
+export const deleteTimeOff = (id: string): Promise<void> => staffScheduleRepository.deleteTimeOff(id);
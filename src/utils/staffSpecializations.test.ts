@@ -0,0 +1,62 @@
+// src/utils/staffSpecializations.test.ts
+import { describe, expect, it } from 'vitest';
+import { STAFF_ANA_ID, STAFF_MARIA_ID } from '../mocks/fixtures';
+import {
+  fetchSpecializations,
+  filterQualifiedStaff,
+  getSpecializationSelection,
+  isQualifiedFor,
+  saveSpecializations,
+} from './staffSpecializations';
+
+const facial = { id: '1', category: 'facial' as const };
+const massage = { id: '2', category: 'massage' as const };
+const manicure = { id: '3', category: 'nail' as const };
+
+describe('isQualifiedFor', () => {
+  it('matches by category, by single service or by all services', async () => {
+    const specializations = await fetchSpecializations();
+
+    expect(isQualifiedFor(STAFF_ANA_ID, manicure, specializations)).toBe(true);
+    expect(isQualifiedFor(STAFF_ANA_ID, massage, specializations)).toBe(true);
+    expect(isQualifiedFor(STAFF_ANA_ID, facial, specializations)).toBe(false);
+    expect(isQualifiedFor(STAFF_MARIA_ID, facial, specializations)).toBe(true);
+  });
+
+  it("doesn't let anyone book a staff member with nothing recorded", () => {
+    expect(isQualifiedFor('someone-new', facial, [])).toBe(false);
+  });
+
+  it('narrows a staff list to those qualified', async () => {
+    const staff = [{ id: STAFF_MARIA_ID }, { id: STAFF_ANA_ID }];
+    const specializations = await fetchSpecializations();
+
+    expect(filterQualifiedStaff(staff, facial, specializations)).toEqual([{ id: STAFF_MARIA_ID }]);
+    expect(filterQualifiedStaff(staff, undefined, specializations)).toEqual(staff);
+  });
+});
+
+describe('saveSpecializations', () => {
+  it('replaces what a staff member can do', async () => {
+    await saveSpecializations(STAFF_ANA_ID, { allServices: false, categories: ['facial', 'nail'], serviceIds: [] });
+
+    const saved = await fetchSpecializations(STAFF_ANA_ID);
+    expect(getSpecializationSelection(STAFF_ANA_ID, saved)).toEqual({ allServices: false, categories: ['nail', 'facial'], serviceIds: [] });
+    expect(saved.find(spec => spec.category === 'nail')?.id).toBe('1');
+  });
+
+  it('records "all services" explicitly', async () => {
+    await saveSpecializations(STAFF_ANA_ID, { allServices: true, categories: [], serviceIds: [] });
+
+    const saved = await fetchSpecializations(STAFF_ANA_ID);
+    expect(saved).toEqual([expect.objectContaining({ allServices: true })]);
+    expect(isQualifiedFor(STAFF_ANA_ID, facial, saved)).toBe(true);
+  });
+
+  it('refuses to leave a staff member with nothing', async () => {
+    await expect(saveSpecializations(STAFF_ANA_ID, { allServices: false, categories: [], serviceIds: [] }))
+      .rejects.toThrow('Choose at least one category or service, or allow all services.');
+
+    expect(await fetchSpecializations(STAFF_ANA_ID)).toHaveLength(4);
+  });
+});
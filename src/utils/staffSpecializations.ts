@@ -0,0 +1,70 @@
+// src/utils/staffSpecializations.ts
+import { Service } from '@models/service';
+import { SpecializationSelection, StaffSpecialization } from '@models/staff';
+import { staffSpecializationsRepository } from '@repositories/staffSpecializations';
+
+/**
+ * Loads specializations for one staff member, or for everyone when no ID is given.
+ * @param staffId - Optional staff member's ID.
+ */
+export const fetchSpecializations = (staffId?: string): Promise<StaffSpecialization[]> =>
+  staffSpecializationsRepository.list(staffId);
+
+/**
+ * Replaces a staff member's specializations.
+ * @param staffId - The staff member's ID.
+ * @param selection - Every service, or the categories and services the staff member can perform.
+ */
+export const saveSpecializations = async (staffId: string, selection: SpecializationSelection): Promise<void> => {
+  if (!selection.allServices && selection.categories.length === 0 && selection.serviceIds.length === 0) {
+    throw new Error('Choose at least one category or service, or allow all services.');
+  }
+  await staffSpecializationsRepository.replace(staffId, selection);
+};
+
+/**
+ * Reads a staff member's saved specializations back as a selection.
+ * @param staffId - The staff member's ID.
+ * @param specializations - Specializations for all staff.
+ */
+export const getSpecializationSelection = (staffId: string, specializations: StaffSpecialization[]): SpecializationSelection => {
+  const own = specializations.filter(spec => spec.staffId === staffId);
+  return {
+    allServices: own.some(spec => spec.allServices),
+    categories: own.flatMap(spec => (spec.category ? [spec.category] : [])),
+    serviceIds: own.flatMap(spec => (spec.serviceId ? [spec.serviceId] : [])),
+  };
+};
+
+/**
+ * Checks whether a staff member can perform a service.
+ * Only staff marked as doing all services are unrestricted; with nothing recorded, a staff member can't be booked.
+ * @param staffId - The staff member's ID.
+ * @param service - The service (only its ID and category are used).
+ * @param specializations - Specializations for all staff.
+ */
+export const isQualifiedFor = (
+  staffId: string,
+  service: Pick<Service, 'id' | 'category'>,
+  specializations: StaffSpecialization[]
+): boolean => {
+  return specializations.some(spec =>
+    spec.staffId === staffId &&
+    (spec.allServices || spec.category === service.category || spec.serviceId === service.id)
+  );
+};
+
+/**
+ * Narrows a staff list to those qualified for a service.
+ * @param staff - Staff members (anything with an ID).
+ * @param service - The selected service; when missing, everyone is returned.
+ * @param specializations - Specializations for all staff.
+ */
+export const filterQualifiedStaff = <T extends { id: string }>(
+  staff: T[],
+  service: Pick<Service, 'id' | 'category'> | undefined,
+  specializations: StaffSpecialization[]
+): T[] => {
+  if (!service) return staff;
+  return staff.filter(member => isQualifiedFor(member.id, service, specializations));
+};
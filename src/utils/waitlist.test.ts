@@ -0,0 +1,54 @@
+// src/utils/waitlist.test.ts
+import { describe, expect, it, vi } from 'vitest';
+import { CUSTOMER_BEN_ID, STAFF_ANA_ID } from '../mocks/fixtures';
+import { bookingsRepository } from '@repositories/bookings';
+import { waitlistRepository } from '@repositories/waitlist';
+import { TEST_TODAY } from '../test/clock';
+import { StatusActor } from './bookingStatus';
+import { fetchPaymentSummary } from './payments';
+import { claimWaitlistOffer, joinWaitlist, offerSlotToWaitlist } from './waitlist';
+
+const ben: StatusActor = { id: CUSTOMER_BEN_ID, role: 'customer' };
+
+// Ben is waiting for a Swedish massage with anyone today between 15:00 and 17:00 (entry 1)
+const offerAnaAtThree = () => offerSlotToWaitlist({
+  serviceId: '2',
+  date: TEST_TODAY,
+  time: '15:00',
+  staffId: STAFF_ANA_ID,
+  durationMinutes: 90,
+});
+
+describe('joinWaitlist', () => {
+  it('needs the earliest time to be before the latest', async () => {
+    await expect(joinWaitlist({
+      customerId: CUSTOMER_BEN_ID,
+      serviceId: '3',
+      date: TEST_TODAY,
+      windowStart: '14:00',
+      windowEnd: '14:00',
+    })).rejects.toThrow('The earliest time must be before the latest time.');
+  });
+});
+
+describe('claimWaitlistOffer', () => {
+  it('books the offered time and closes the entry', async () => {
+    expect((await offerAnaAtThree())?.id).toBe('1');
+
+    const bookingId = await claimWaitlistOffer('1', ben, 'card');
+
+    expect(await waitlistRepository.getById('1')).toMatchObject({ status: 'booked', bookingId });
+    expect(await bookingsRepository.getById(bookingId)).toMatchObject({ staffId: STAFF_ANA_ID, bookingTime: '15:00', status: 'pending' });
+  });
+
+  it('refunds and cancels the booking when the offer ran out while it was being made', async () => {
+    await offerAnaAtThree();
+    vi.spyOn(waitlistRepository, 'transition').mockResolvedValueOnce(false);
+
+    await expect(claimWaitlistOffer('1', ben, 'card')).rejects.toThrow('Your deposit has been refunded.');
+
+    const [booking] = await bookingsRepository.list({ customerId: CUSTOMER_BEN_ID, fromDate: TEST_TODAY, toDate: TEST_TODAY });
+    expect(booking).toMatchObject({ bookingTime: '15:00', status: 'cancelled' });
+    expect(await fetchPaymentSummary(booking)).toMatchObject({ paid: 240, refunded: 240 });
+  });
+});
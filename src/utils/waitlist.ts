@@ -0,0 +1,307 @@
+// src/utils/waitlist.ts
+import { Booking } from '@models/booking';
+import { Payment, PaymentMethod } from '@models/payment';
+import { WaitlistEntry, WaitlistOffer, WaitlistStatus } from '@models/waitlist';
+import { bookingsRepository } from '@repositories/bookings';
+import { NewWaitlistEntry, waitlistRepository } from '@repositories/waitlist';
+import { checkStaffAvailability, timeToMinutes } from './availability';
+import { StatusActor, logStatusChange } from './bookingStatus';
+import { WAITLIST_HOLD_MINUTES } from './constants';
+import { hasStarted, toAppointmentStart } from './helpers';
+import { createNotification, formatWhen, notifyBookingEvent } from './notifications';
+import { payDeposit, refundPayment } from './payments';
+
+export const WAITLIST_STATUS_LABELS: Record<WaitlistStatus, string> = {
+  waiting: 'Waiting',
+  offered: 'Offer Available',
+  booked: 'Booked',
+  expired: 'Offer Expired',
+  cancelled: 'Left Waitlist',
+};
+
+/**
+ * A time that has opened up on a staff member's calendar.
+ */
+export interface FreedSlot {
+  serviceId: string;
+  date: string; // YYYY-MM-DD
+  time: string; // HH:MM
+  staffId: string;
+  durationMinutes: number;
+}
+
+const isOfferLive = (offer?: WaitlistOffer): boolean =>
+  !!offer && new Date(offer.expiresAt).getTime() > Date.now();
+
+/**
+ * Adds a customer to the waitlist for a service on a day.
+ * @param entry - The service, preferred staff member (or none for anyone), date and time window.
+ * @returns The new entry's ID.
+ */
+export const joinWaitlist = async (entry: NewWaitlistEntry): Promise<string> => {
+  if (!entry.serviceId || !entry.date || !entry.windowStart || !entry.windowEnd) {
+    throw new Error('Please choose a service, a date and the times that suit you.');
+  }
+  if (timeToMinutes(entry.windowStart) >= timeToMinutes(entry.windowEnd)) {
+    throw new Error('The earliest time must be before the latest time.');
+  }
+  if (hasStarted(entry.date, entry.windowEnd)) {
+    throw new Error('That time window has already passed.');
+  }
+
+  const existing = await waitlistRepository.list({
+    customerId: entry.customerId,
+    serviceId: entry.serviceId,
+    date: entry.date,
+    statuses: ['waiting', 'offered'],
+  });
+  if (existing.length > 0) {
+    throw new Error("You're already on the waitlist for this service on that day.");
+  }
+
+  return waitlistRepository.create(entry);
+};
+
+/**
+ * Offers a freed time to the first waiting customer it suits: same service and day, a start inside
+ * their window and, if they named one, the same staff member. The time is held for them for
+ * WAITLIST_HOLD_MINUTES (or until it starts, if sooner).
+ * @param slot - The time that opened up.
+ * @param skipCustomerId - A customer not to offer it to, e.g. the one who just cancelled.
+ * @returns The entry that got the offer, or null when nobody is waiting for it.
+ */
+export const offerSlotToWaitlist = async (slot: FreedSlot, skipCustomerId?: string): Promise<WaitlistEntry | null> => {
+  const start = toAppointmentStart(slot.date, slot.time);
+  if (start <= new Date()) return null;
+
+  const time = slot.time.substring(0, 5);
+  const candidates = (await waitlistRepository.list({ serviceId: slot.serviceId, date: slot.date, statuses: ['waiting'] }))
+    .filter(entry =>
+      entry.customerId !== skipCustomerId &&
+      (!entry.staffId || entry.staffId === slot.staffId) &&
+      entry.windowStart <= time && time <= entry.windowEnd
+    );
+  if (candidates.length === 0) return null;
+
+  // Someone may have booked the time directly in the meantime
+  const { available } = await checkStaffAvailability({
+    staffId: slot.staffId,
+    date: slot.date,
+    time,
+    durationMinutes: slot.durationMinutes,
+  });
+  if (!available) return null;
+
+  const expiresAt = new Date(Math.min(Date.now() + WAITLIST_HOLD_MINUTES * 60 * 1000, start.getTime())).toISOString();
+  const offer: WaitlistOffer = { time, staffId: slot.staffId, expiresAt };
+
+  for (const entry of candidates) {
+    // Another cancellation may have reached this customer first
+    const offered = await waitlistRepository.transition(entry.id, ['waiting'], { status: 'offered', offer });
+    if (!offered) continue;
+
+    try {
+      await createNotification({
+        userId: entry.customerId,
+        type: 'waitlist_offer',
+        message: `A time opened up for "${entry.serviceName}" on ${formatWhen(slot.date, time)}. ` +
+          `We're holding it for you until ${new Date(expiresAt).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}. ` +
+          'Claim it from your waitlist before it goes to the next customer.',
+      });
+    } catch (err) {
+      console.error('❌ Error creating waitlist notification:', err);
+    }
+
+    return { ...entry, status: 'offered', offer };
+  }
+
+  return null;
+};
+
+/**
+ * Offers the time a cancelled booking leaves free to the waitlist, after passing on any holds
+ * that have run out. Failures are logged rather than thrown so the cancellation itself still succeeds.
+ * @param booking - The booking as it was before it was cancelled.
+ * @returns The entry that got the offer, or null.
+ */
+export const offerCancelledBookingSlot = async (booking: Booking): Promise<WaitlistEntry | null> => {
+  if (!booking.staffId) return null;
+
+  await passOnExpiredOffers();
+  try {
+    return await offerSlotToWaitlist(
+      {
+        serviceId: booking.serviceId,
+        date: booking.bookingDate,
+        time: booking.bookingTime,
+        staffId: booking.staffId,
+        durationMinutes: booking.durationMinutes,
+      },
+      booking.customerId
+    );
+  } catch (err) {
+    console.error('❌ Error offering freed slot to the waitlist:', err);
+    return null;
+  }
+};
+
+/**
+ * Expires offers whose hold has run out and passes each time on to the next customer in line.
+ * @returns How many offers expired.
+ */
+export const releaseExpiredOffers = async (): Promise<number> => {
+  const expired = (await waitlistRepository.list({ statuses: ['offered'] }))
+    .filter(entry => !isOfferLive(entry.offer));
+
+  let released = 0;
+  for (const entry of expired) {
+    if (!(await waitlistRepository.transition(entry.id, ['offered'], { status: 'expired' }))) continue;
+    released++;
+
+    await offerSlotToWaitlist({
+      serviceId: entry.serviceId,
+      date: entry.date,
+      time: entry.offer!.time,
+      staffId: entry.offer!.staffId,
+      durationMinutes: entry.durationMinutes,
+    });
+  }
+
+  return released;
+};
+
+/**
+ * Releases expired offers before availability is worked out, so a hold that has run out
+ * doesn't keep blocking its time. Failures are logged rather than thrown.
+ */
+export const passOnExpiredOffers = async (): Promise<void> => {
+  try {
+    await releaseExpiredOffers();
+  } catch (err) {
+    console.error('❌ Error releasing expired waitlist offers:', err);
+  }
+};
+
+/**
+ * Loads a customer's waitlist entries, first passing on any offers that have run out.
+ * @param customerId - The customer's ID.
+ */
+export const fetchCustomerWaitlist = async (customerId: string): Promise<WaitlistEntry[]> => {
+  await passOnExpiredOffers();
+  return waitlistRepository.list({ customerId });
+};
+
+/**
+ * Books the time offered to a waitlisted customer, taking the deposit as a normal booking does.
+ * The entry is only marked booked once the booking and deposit exist; if the offer ran out in the
+ * meantime, the deposit is refunded and the booking cancelled.
+ * @param entryId - The waitlist entry holding the offer.
+ * @param customer - The customer claiming it.
+ * @param depositMethod - How the deposit is paid.
+ * @returns The new booking's ID.
+ */
+export const claimWaitlistOffer = async (
+  entryId: string,
+  customer: StatusActor,
+  depositMethod: PaymentMethod
+): Promise<string> => {
+  const entry = await waitlistRepository.getById(entryId);
+  if (!entry || entry.customerId !== customer.id) {
+    throw new Error('Waitlist entry not found.');
+  }
+  if (entry.status !== 'offered' || !entry.offer) {
+    throw new Error('There is no offer to claim on this waitlist entry.');
+  }
+  if (!isOfferLive(entry.offer)) {
+    throw new Error('Sorry, this offer has expired and the time has gone to the next customer.');
+  }
+  const offer = entry.offer;
+
+  const { available, reason } = await checkStaffAvailability({
+    staffId: offer.staffId,
+    date: entry.date,
+    time: offer.time,
+    durationMinutes: entry.durationMinutes,
+    excludeWaitlistEntryId: entry.id,
+  });
+  if (!available) {
+    throw new Error(`This time is no longer available. ${reason}`);
+  }
+
+  // The entry stays 'offered' while the booking is made, so the time is held until the booking blocks it
+  const bookingId = await bookingsRepository.create({
+    serviceId: entry.serviceId,
+    customerId: entry.customerId,
+    staffId: offer.staffId,
+    staffAutoAssigned: !entry.staffId,
+    bookingDate: entry.date,
+    bookingTime: offer.time,
+    totalPrice: entry.servicePrice,
+    notes: entry.notes,
+  });
+
+  let deposit: Payment | null;
+  try {
+    deposit = await payDeposit({ id: bookingId, price: entry.servicePrice, serviceName: entry.serviceName }, depositMethod, customer.id);
+  } catch (depositErr: any) {
+    await bookingsRepository.delete(bookingId);
+    throw new Error(`Your deposit could not be processed, so the time was not booked. ${depositErr.message}`);
+  }
+
+  // The offer may have expired or been withdrawn while the booking was made
+  if (!(await waitlistRepository.transition(entry.id, ['offered'], { status: 'booked', bookingId }))) {
+    try {
+      if (deposit) await refundPayment(deposit, customer.id);
+      await bookingsRepository.update(bookingId, { status: 'cancelled' });
+    } catch (err) {
+      console.error('❌ Error undoing waitlist booking:', err);
+      throw new Error('This offer is no longer available, and your booking could not be undone. Please contact the salon.');
+    }
+    // The expiry run found the time taken by this booking, so pass it on now it is free again
+    try {
+      await offerSlotToWaitlist({
+        serviceId: entry.serviceId,
+        date: entry.date,
+        time: offer.time,
+        staffId: offer.staffId,
+        durationMinutes: entry.durationMinutes,
+      }, entry.customerId);
+    } catch (err) {
+      console.error('❌ Error offering freed slot to the waitlist:', err);
+    }
+    throw new Error(`This offer is no longer available.${deposit ? ' Your deposit has been refunded.' : ''}`);
+  }
+
+  await logStatusChange(bookingId, undefined, 'pending', customer, 'Booked from the waitlist');
+  await notifyBookingEvent({
+    type: 'booking_created',
+    bookingId,
+    customerId: entry.customerId,
+    serviceName: entry.serviceName,
+    bookingDate: entry.date,
+    bookingTime: offer.time,
+    actor: customer.role,
+  });
+
+  return bookingId;
+};
+
+/**
+ * Takes a customer off the waitlist. An offered time they turn down goes to the next in line.
+ * @param entry - The waitlist entry.
+ */
+export const leaveWaitlist = async (entry: WaitlistEntry): Promise<void> => {
+  if (!(await waitlistRepository.transition(entry.id, ['waiting', 'offered'], { status: 'cancelled' }))) {
+    throw new Error('This waitlist entry has already been closed.');
+  }
+
+  if (entry.status === 'offered' && entry.offer && isOfferLive(entry.offer)) {
+    await offerSlotToWaitlist({
+      serviceId: entry.serviceId,
+      date: entry.date,
+      time: entry.offer.time,
+      staffId: entry.offer.staffId,
+      durationMinutes: entry.durationMinutes,
+    }, entry.customerId);
+  }
+};
@@ -0,0 +1,90 @@
+// src/utils/xlsx.test.ts
+import { crc32 } from 'zlib';
+import { describe, expect, it } from 'vitest';
+import { XlsxSheet, buildXlsx, toSheetName } from './xlsx';
+
+// Reads the files back out of a stored (uncompressed) ZIP through its central directory
+const unzip = (zip: Uint8Array): Map<string, string> => {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const decoder = new TextDecoder();
+  const end = zip.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+
+  const files = new Map<string, string>();
+  let entry = view.getUint32(end + 16, true);
+  for (let index = 0; index < view.getUint16(end + 10, true); index++) {
+    expect(view.getUint32(entry, true)).toBe(0x02014b50);
+    const nameLength = view.getUint16(entry + 28, true);
+    const name = decoder.decode(zip.subarray(entry + 46, entry + 46 + nameLength));
+
+    const local = view.getUint32(entry + 42, true);
+    expect(view.getUint32(local, true)).toBe(0x04034b50);
+    expect(view.getUint16(local + 8, true)).toBe(0);
+    const start = local + 30 + view.getUint16(local + 26, true);
+    const data = zip.subarray(start, start + view.getUint32(local + 18, true));
+    expect(crc32(data)).toBe(view.getUint32(entry + 16, true));
+
+    files.set(name, decoder.decode(data));
+    entry += 46 + nameLength;
+  }
+  return files;
+};
+
+const sales: XlsxSheet = {
+  name: 'Sales: March',
+  freezeHeader: true,
+  columnWidths: [12, 14],
+  rows: [
+    [{ value: 'Date', bold: true }, { value: 'Revenue', bold: true }],
+    [{ value: '2026-03-11', format: 'date' }, { value: 1250.5, format: 'currency' }],
+    [{ value: 'Tom & Jerry <VIP>' }, { value: 0.425, format: 'percent' }],
+  ],
+};
+
+describe('buildXlsx', () => {
+  it('packs the workbook parts into a ZIP that unzips', () => {
+    const files = unzip(buildXlsx([sales, { name: 'Totals', rows: [[{ value: 3 }]] }]));
+
+    expect(Array.from(files.keys())).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'xl/workbook.xml',
+      'xl/_rels/workbook.xml.rels',
+      'xl/styles.xml',
+      'xl/worksheets/sheet1.xml',
+      'xl/worksheets/sheet2.xml',
+    ]);
+    expect(files.get('xl/workbook.xml')).toContain('<sheet name="Sales  March" sheetId="1" r:id="rId1"/>');
+    expect(files.get('xl/_rels/workbook.xml.rels')).toContain('Id="rId3" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles"');
+  });
+
+  it('writes numbers and dates as values and text inline', () => {
+    const sheet = unzip(buildXlsx([sales])).get('xl/worksheets/sheet1.xml');
+
+    expect(sheet).toContain('<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>');
+    expect(sheet).toContain('<col min="2" max="2" width="14" customWidth="1"/>');
+    expect(sheet).toContain('<c r="A1" s="5" t="inlineStr"><is><t xml:space="preserve">Date</t></is></c>');
+    expect(sheet).toContain('<c r="A2" s="4"><v>46092</v></c>');
+    expect(sheet).toContain('<c r="B2" s="2"><v>1250.5</v></c>');
+    expect(sheet).toContain('<t xml:space="preserve">Tom &amp; Jerry &lt;VIP&gt;</t>');
+    expect(sheet).toContain('<c r="B3" s="3"><v>0.425</v></c>');
+  });
+
+  it('shares one style sheet with a style for each format, plain and bold', () => {
+    const styles = unzip(buildXlsx([sales])).get('xl/styles.xml') || '';
+
+    expect(styles).toContain('<numFmt numFmtId="164" formatCode="&quot;₱&quot;#,##0.00"/>');
+    expect(styles.match(/<xf [^>]*xfId="0"/g)).toHaveLength(10);
+  });
+
+  it('refuses an empty workbook or two sheets with the same name', () => {
+    expect(() => buildXlsx([])).toThrow('A workbook needs at least one sheet.');
+    expect(() => buildXlsx([sales, { ...sales, name: 'sales  march' }])).toThrow('Every sheet in a workbook needs a different name.');
+  });
+
+  it('makes names Excel accepts', () => {
+    expect(toSheetName('Staff / Commission [March]')).toBe('Staff   Commission  March');
+    expect(toSheetName('A very long sheet name that goes on and on')).toHaveLength(31);
+    expect(toSheetName('???')).toBe('Sheet');
+  });
+});
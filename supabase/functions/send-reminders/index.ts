@@ -0,0 +1,211 @@
+// supabase/functions/send-reminders/index.ts
+// Sends appointment reminders for confirmed bookings: POST /functions/v1/send-reminders.
+//
+// pg_cron calls it every few minutes with the service role key (see the
+// 20260101000038_reminder_schedule migration), so reminders go out whether or not anyone
+// has the app open. Deploy with JWT verification on:
+//   supabase functions deploy send-reminders
+//
+// Each reminder is claimed in reminder_log before it is sent, so overlapping runs never
+// send the same reminder twice, and a rescheduled booking is reminded again for its new time.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+const APP_NAME = 'Joyce Aesthetic Salon & Spa';
+
+// How long before an appointment reminders go out, in minutes (e.g. REMINDER_OFFSETS="1440,120")
+const REMINDER_OFFSETS = (Deno.env.get('REMINDER_OFFSETS') || '1440,120')
+  .split(',')
+  .map(value => parseInt(value.trim(), 10))
+  .filter(value => !isNaN(value) && value > 0);
+
+// Bookings are stored in the salon's local time; the function itself runs in UTC
+const SALON_TIME_ZONE = Deno.env.get('SALON_TIME_ZONE') || 'Asia/Manila';
+
+// Postgres unique_violation: another run already claimed this reminder
+const UNIQUE_VIOLATION = '23505';
+
+// Keep in step with DEFAULT_CONTACT_PREFERENCES in src/utils/constants.ts
+const DEFAULT_CONTACT_PREFERENCES = { email: true, sms: true };
+
+type ChannelName = 'in_app' | 'email' | 'sms';
+
+interface ReminderMessage {
+  bookingId: string;
+  customerId: string;
+  customerEmail?: string;
+  customerPhone?: string;
+  subject: string;
+  body: string;
+}
+
+interface RunSummary {
+  sent: number;
+  skipped: number; // Already sent, or the customer can't be reached on that channel
+  failed: number;
+}
+
+const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+const joinedRow = (value: any) => (Array.isArray(value) ? value[0] : value) || null;
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+// The salon's wall-clock date and time for an instant
+const salonParts = (instant: Date) => {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone: SALON_TIME_ZONE,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(instant);
+  const part = (type: string) => parseInt(parts.find(entry => entry.type === type)?.value || '0', 10);
+  return { year: part('year'), month: part('month'), day: part('day'), hour: part('hour'), minute: part('minute'), second: part('second') };
+};
+
+const salonDateString = (instant: Date): string => {
+  const { year, month, day } = salonParts(instant);
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+// Turns a booking's local date and time into an instant, using the salon's UTC offset on that day
+const toAppointmentStart = (date: string, time: string): Date => {
+  const [year, month, day] = date.split('-').map(part => parseInt(part, 10));
+  const [hours, minutes] = (time || '00:00').split(':').map(part => parseInt(part, 10));
+  const asUtc = Date.UTC(year, month - 1, day, hours || 0, minutes || 0);
+  const local = salonParts(new Date(asUtc));
+  const offset = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second) - asUtc;
+  return new Date(asUtc - offset);
+};
+
+// Keep in step with formatWhen and the booking_reminder message in src/utils/notifications.ts
+const formatWhen = (start: Date): string => {
+  const datePart = start.toLocaleDateString('en-US', { timeZone: SALON_TIME_ZONE, month: 'short', day: 'numeric', year: 'numeric' });
+  const timePart = start.toLocaleTimeString('en-US', { timeZone: SALON_TIME_ZONE, hour: 'numeric', minute: '2-digit' });
+  return `${datePart} at ${timePart}`;
+};
+
+// Only the closest offset that has passed is due, so a booking made 3 hours before the
+// appointment gets the 2h reminder but not the 24h one
+const dueOffset = (start: Date, now: Date): number | null => {
+  const minutesUntil = (start.getTime() - now.getTime()) / 60000;
+  if (minutesUntil <= 0) return null;
+  const passed = REMINDER_OFFSETS.filter(offset => minutesUntil <= offset);
+  return passed.length > 0 ? Math.min(...passed) : null;
+};
+
+// Leaves out the email address or phone number when the customer opted out of that channel
+const buildReminderMessage = (row: any, start: Date): ReminderMessage => {
+  const customer = joinedRow(row.customers);
+  const service = joinedRow(row.services);
+  const preferences = { ...DEFAULT_CONTACT_PREFERENCES, ...(customer?.contact_preferences || {}) };
+  return {
+    bookingId: String(row.id),
+    customerId: row.customer_id,
+    customerEmail: preferences.email ? customer?.email || undefined : undefined,
+    customerPhone: preferences.sms ? customer?.phone || undefined : undefined,
+    subject: `Appointment reminder from ${APP_NAME}`,
+    body: `Reminder: Your appointment for "${service?.service_name || 'Unknown Service'}" is on ${formatWhen(start)}.`,
+  };
+};
+
+// Stand-in for a real email or SMS provider: logs the message instead of delivering it
+const deliverLocally = async (label: string, to: string, text: string) => {
+  console.log(`📨 [${label}] to ${to}:`, text);
+};
+
+// Sends one reminder. Returns false when the customer can't be reached on this channel.
+const send = async (channel: ChannelName, message: ReminderMessage): Promise<boolean> => {
+  switch (channel) {
+    case 'in_app': {
+      const { error } = await supabase.from('notifications').insert([{
+        user_id: message.customerId,
+        booking_id: message.bookingId,
+        type: 'booking_reminder',
+        message: message.body,
+      }]);
+      if (error) throw new Error(`Failed to create notification: ${error.message}`);
+      return true;
+    }
+    case 'email':
+      if (!message.customerEmail) return false;
+      await deliverLocally('EMAIL', message.customerEmail, `${message.subject} — ${message.body}`);
+      return true;
+    case 'sms':
+      if (!message.customerPhone) return false;
+      await deliverLocally('SMS', message.customerPhone, message.body);
+      return true;
+  }
+};
+
+const CHANNELS: ChannelName[] = ['in_app', 'email', 'sms'];
+
+Deno.serve(async () => {
+  const summary: RunSummary = { sent: 0, skipped: 0, failed: 0 };
+  if (REMINDER_OFFSETS.length === 0) return Response.json(summary);
+
+  const now = new Date();
+  const horizon = new Date(now.getTime() + Math.max(...REMINDER_OFFSETS) * 60000);
+
+  const { data: bookings, error } = await supabase
+    .from('bookings')
+    .select('id, customer_id, booking_date, booking_time, services:service_id (service_name), customers:customer_id (email, phone, contact_preferences)')
+    .eq('status', 'confirmed')
+    .gte('booking_date', salonDateString(now))
+    .lte('booking_date', salonDateString(horizon));
+
+  if (error) {
+    console.error('❌ Error loading bookings for reminders:', error);
+    return new Response('Reminders unavailable', { status: 500 });
+  }
+
+  for (const row of bookings || []) {
+    const start = toAppointmentStart(row.booking_date, row.booking_time);
+    const offsetMinutes = dueOffset(start, now);
+    if (offsetMinutes === null) continue;
+
+    const message = buildReminderMessage(row, start);
+
+    for (const channel of CHANNELS) {
+      const key = {
+        booking_id: row.id,
+        booking_date: row.booking_date,
+        booking_time: row.booking_time.substring(0, 5),
+        channel,
+        offset_minutes: offsetMinutes,
+      };
+
+      const { error: claimError } = await supabase.from('reminder_log').insert([{ ...key, status: 'sending' }]);
+      if (claimError?.code === UNIQUE_VIOLATION) {
+        summary.skipped++;
+        continue;
+      }
+      if (claimError) {
+        console.error(`❌ Error claiming ${channel} reminder for booking ${row.id}:`, claimError);
+        summary.failed++;
+        continue;
+      }
+
+      let sent = false;
+      try {
+        sent = await send(channel, message);
+        if (sent) summary.sent++;
+        else summary.skipped++;
+      } catch (err) {
+        console.error(`❌ Error sending ${channel} reminder for booking ${row.id}:`, err);
+        summary.failed++;
+      }
+
+      // Mark it sent, or free the claim so the next run can try again
+      const { error: logError } = sent
+        ? await supabase.from('reminder_log').update({ status: 'sent', sent_at: new Date().toISOString() }).match(key)
+        : await supabase.from('reminder_log').delete().match({ ...key, status: 'sending' });
+      if (logError) console.error(`❌ Error updating reminder log for booking ${row.id}:`, logError);
+    }
+  }
+
+  return Response.json(summary);
+});
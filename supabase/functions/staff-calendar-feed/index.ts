@@ -0,0 +1,221 @@
+// supabase/functions/staff-calendar-feed/index.ts
+// Serves a staff member's upcoming shifts and appointments as an iCalendar feed that calendar
+// apps subscribe to: GET /functions/v1/staff-calendar-feed?token=<token>.
+//
+// Calendar apps can't send a Supabase session, so the secret token in the link is the only
+// credential. Deploy with JWT verification off:
+//   supabase functions deploy staff-calendar-feed --no-verify-jwt
+//
+// The events match the ones the app builds in src/utils/icalendar.ts (same UIDs, wording and
+// SEQUENCE), so a feed and a downloaded file update the same events.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+const APP_NAME = 'Joyce Aesthetic Salon & Spa';
+const SALON_ADDRESS = '123 Serenity Lane, Wellness City, WC 54321';
+const PRODUCT_ID = `-//${APP_NAME}//Bookings//EN`;
+const UID_DOMAIN = 'bookings.joyce-salon';
+
+// Keep in step with STAFF_FEED_DAYS, DEFAULT_DURATION_MINUTES and the default hours in src/utils/constants.ts
+const FEED_DAYS = 60;
+const DEFAULT_DURATION_MINUTES = 60;
+const DEFAULT_START_TIME = '09:00';
+const DEFAULT_END_TIME = '18:00';
+
+const EVENT_STATUS: Record<string, string> = {
+  pending: 'TENTATIVE',
+  confirmed: 'CONFIRMED',
+  in_progress: 'CONFIRMED',
+  completed: 'CONFIRMED',
+  cancelled: 'CANCELLED',
+  no_show: 'CANCELLED',
+};
+
+const STATUS_LABELS: Record<string, string> = {
+  pending: 'Pending',
+  confirmed: 'Confirmed',
+  in_progress: 'In Progress',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+  no_show: 'No-show',
+};
+
+const encoder = new TextEncoder();
+
+const escapeText = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+// Splits content lines longer than 75 octets (RFC 5545 §3.1)
+const foldLine = (line: string): string => {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  Array.from(line).forEach(char => {
+    const size = encoder.encode(char).length;
+    if (octets + size > 75) {
+      parts.push(current);
+      current = ' ';
+      octets = 1;
+    }
+    current += char;
+    octets += size;
+  });
+  parts.push(current);
+  return parts.join('\r\n');
+};
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+const toDateString = (date: Date): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+const timeToMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(part => parseInt(part, 10));
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+const formatLocalDateTime = (date: string, minutes: number): string => {
+  const [year, month, day] = date.split('-').map(part => parseInt(part, 10));
+  const value = new Date(year, month - 1, day, 0, minutes);
+  return `${value.getFullYear()}${pad(value.getMonth() + 1)}${pad(value.getDate())}T${pad(value.getHours())}${pad(value.getMinutes())}00`;
+};
+
+const formatUtcDateTime = (value: Date): string =>
+  value.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const formatCurrency = (amount: number): string =>
+  new Intl.NumberFormat('en-PH', { style: 'currency', currency: 'PHP' }).format(amount);
+
+const fullName = (user: any): string =>
+  user ? `${user.first_name || ''} ${user.last_name || ''}`.trim() : '';
+
+const joinedRow = (value: any) => (Array.isArray(value) ? value[0] : value) || null;
+
+const buildBookingEvent = (row: any): string[] => {
+  const service = joinedRow(row.services);
+  const customer = joinedRow(row.customers);
+  const start = timeToMinutes(row.booking_time);
+  const end = start + (service?.duration || DEFAULT_DURATION_MINUTES);
+  const lastChange = row.updated_at || row.created_at;
+  const price = row.total_price != null ? parseFloat(row.total_price) : parseFloat(service?.price) || 0;
+
+  const description = [
+    `Customer: ${fullName(customer) || 'Unknown Customer'}${customer?.phone ? ` (${customer.phone})` : ''}`,
+    customer?.allergies && `Allergies: ${customer.allergies}`,
+    `Price: ${formatCurrency(price)}`,
+    `Status: ${STATUS_LABELS[row.status] || row.status}`,
+    row.notes && `Notes: ${row.notes}`,
+  ].filter(Boolean).join('\n');
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:booking-${row.id}@${UID_DOMAIN}`,
+    `SEQUENCE:${row.revision || 0}`,
+    `DTSTAMP:${formatUtcDateTime(new Date())}`,
+    ...(lastChange ? [`LAST-MODIFIED:${formatUtcDateTime(new Date(lastChange))}`] : []),
+    `DTSTART:${formatLocalDateTime(row.booking_date, start)}`,
+    `DTEND:${formatLocalDateTime(row.booking_date, end)}`,
+    `SUMMARY:${escapeText(`${service?.service_name || 'Unknown Service'} – ${fullName(customer) || 'Unknown Customer'}`)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    `LOCATION:${escapeText(SALON_ADDRESS)}`,
+    `STATUS:${EVENT_STATUS[row.status] || 'CONFIRMED'}`,
+    'END:VEVENT',
+  ];
+};
+
+const buildShiftEvent = (staffId: string, date: string, hours: any): string[] => [
+  'BEGIN:VEVENT',
+  `UID:shift-${staffId}-${date}@${UID_DOMAIN}`,
+  `DTSTAMP:${formatUtcDateTime(new Date())}`,
+  `DTSTART:${formatLocalDateTime(date, timeToMinutes(hours.start_time))}`,
+  `DTEND:${formatLocalDateTime(date, timeToMinutes(hours.end_time))}`,
+  `SUMMARY:${escapeText(`Shift at ${APP_NAME}`)}`,
+  ...(hours.break_start && hours.break_end
+    ? [`DESCRIPTION:${escapeText(`Break ${hours.break_start.substring(0, 5)} – ${hours.break_end.substring(0, 5)}`)}`]
+    : []),
+  `LOCATION:${escapeText(SALON_ADDRESS)}`,
+  'TRANSP:TRANSPARENT',
+  'END:VEVENT',
+];
+
+const notFound = () => new Response('Calendar not found', { status: 404 });
+
+Deno.serve(async (request: Request) => {
+  const token = new URL(request.url).searchParams.get('token');
+  if (!token) return notFound();
+
+  // The service role reads past RLS; the token lookup is what limits the feed to one staff member
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+  const { data: feed, error: feedError } = await supabase
+    .from('staff_calendar_feeds')
+    .select('staff_id, users:staff_id (first_name, last_name, role)')
+    .eq('token', token)
+    .maybeSingle();
+
+  const staff = joinedRow(feed?.users);
+  if (feedError || !feed || !staff || !['staff', 'admin'].includes(staff.role)) return notFound();
+
+  const today = new Date();
+  const fromDate = toDateString(today);
+  const toDate = toDateString(new Date(today.getFullYear(), today.getMonth(), today.getDate() + FEED_DAYS - 1));
+
+  const [bookings, hours, timeOff] = await Promise.all([
+    supabase
+      .from('bookings')
+      .select('*, services:service_id (*), customers:customer_id (*)')
+      .eq('staff_id', feed.staff_id)
+      .gte('booking_date', fromDate)
+      .lte('booking_date', toDate)
+      .order('booking_date', { ascending: true })
+      .order('booking_time', { ascending: true }),
+    supabase.from('staff_working_hours').select('*').eq('staff_id', feed.staff_id),
+    supabase
+      .from('staff_time_off')
+      .select('*')
+      .or(`staff_id.eq.${feed.staff_id},staff_id.is.null`)
+      .gte('end_date', fromDate),
+  ]);
+
+  const failed = bookings.error || hours.error || timeOff.error;
+  if (failed) {
+    console.error('❌ Error building calendar feed:', failed);
+    return new Response('Calendar unavailable', { status: 500 });
+  }
+
+  const shifts: string[][] = [];
+  for (let offset = 0; offset < FEED_DAYS; offset++) {
+    const day = new Date(today.getFullYear(), today.getMonth(), today.getDate() + offset);
+    const date = toDateString(day);
+    const saved = (hours.data || []).find(entry => entry.day_of_week === day.getDay());
+    const dayHours = saved || { is_working: true, start_time: DEFAULT_START_TIME, end_time: DEFAULT_END_TIME };
+    const away = (timeOff.data || []).some(entry => entry.start_date <= date && date <= entry.end_date);
+    if (dayHours.is_working && !away) {
+      shifts.push(buildShiftEvent(feed.staff_id, date, dayHours));
+    }
+  }
+
+  const calendar = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${escapeText(PRODUCT_ID)}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(`${fullName(staff) || 'My Schedule'} – ${APP_NAME}`)}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+    ...shifts.flat(),
+    ...(bookings.data || []).flatMap(buildBookingEvent),
+    'END:VCALENDAR',
+  ].map(foldLine).join('\r\n') + '\r\n';
+
+  return new Response(calendar, {
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Cache-Control': 'private, max-age=300',
+    },
+  });
+});
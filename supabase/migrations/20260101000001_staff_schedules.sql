@@ -0,0 +1,34 @@
+-- Staff working hours, breaks and time off, and the weekdays a service is offered on
+
+create table if not exists public.staff_working_hours (
+  id bigint generated by default as identity primary key,
+  staff_id uuid not null references public.users (id) on delete cascade,
+  day_of_week smallint not null check (day_of_week between 0 and 6), -- 0 = Sunday
+  is_working boolean not null default true,
+  start_time time not null default '09:00',
+  end_time time not null default '18:00',
+  break_start time,
+  break_end time,
+  updated_at timestamptz not null default now(),
+  unique (staff_id, day_of_week),
+  check (start_time < end_time),
+  check ((break_start is null) = (break_end is null)),
+  check (break_start is null or (break_start < break_end and break_start >= start_time and break_end <= end_time))
+);
+
+-- A row without a staff member is a salon-wide holiday
+create table if not exists public.staff_time_off (
+  id bigint generated by default as identity primary key,
+  staff_id uuid references public.users (id) on delete cascade,
+  start_date date not null,
+  end_date date not null,
+  type text not null check (type in ('holiday', 'leave')),
+  reason text,
+  created_at timestamptz not null default now(),
+  check (start_date <= end_date)
+);
+
+create index if not exists staff_time_off_staff_dates_idx on public.staff_time_off (staff_id, end_date);
+
+-- Weekday names (e.g. 'Friday'); null means every day
+alter table public.services add column if not exists available_days text[];
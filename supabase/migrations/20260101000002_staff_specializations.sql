@@ -0,0 +1,14 @@
+-- The service categories and individual services each staff member can perform
+
+create table if not exists public.staff_specializations (
+  id bigint generated by default as identity primary key,
+  staff_id uuid not null references public.users (id) on delete cascade,
+  category text check (category in ('facial', 'massage', 'nail', 'hair', 'waxing', 'other')),
+  service_id bigint references public.services (id) on delete cascade,
+  check ((category is null) <> (service_id is null))
+);
+
+create unique index if not exists staff_specializations_category_key
+  on public.staff_specializations (staff_id, category) where category is not null;
+create unique index if not exists staff_specializations_service_key
+  on public.staff_specializations (staff_id, service_id) where service_id is not null;
@@ -0,0 +1,4 @@
+-- Bookings made with "any available staff", and staff photos for the staff picker
+
+alter table public.bookings add column if not exists staff_auto_assigned boolean not null default false;
+alter table public.users add column if not exists avatar_url text;
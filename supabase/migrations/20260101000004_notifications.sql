@@ -0,0 +1,16 @@
+-- In-app booking notifications
+
+create table if not exists public.notifications (
+  id bigint generated by default as identity primary key,
+  user_id uuid not null references public.users (id) on delete cascade,
+  booking_id bigint references public.bookings (id) on delete cascade,
+  type text not null check (type in (
+    'booking_created', 'booking_confirmed', 'booking_rescheduled', 'booking_cancelled',
+    'booking_completed', 'booking_no_show', 'booking_reminder', 'waitlist_offer'
+  )),
+  message text not null,
+  read boolean not null default false,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists notifications_user_created_idx on public.notifications (user_id, created_at desc);
@@ -0,0 +1,12 @@
+-- One row per reminder sent, so each reminder goes out once however many schedulers run
+
+create table if not exists public.reminder_log (
+  id bigint generated by default as identity primary key,
+  booking_id bigint not null references public.bookings (id) on delete cascade,
+  channel text not null check (channel in ('in_app', 'email', 'sms')),
+  offset_minutes integer not null,
+  status text not null default 'sending' check (status in ('sending', 'sent')),
+  sent_at timestamptz,
+  created_at timestamptz not null default now(),
+  unique (booking_id, channel, offset_minutes)
+);
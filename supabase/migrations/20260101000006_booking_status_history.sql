@@ -0,0 +1,20 @@
+-- Every booking status change, who made it and why
+
+alter table public.bookings add column if not exists updated_at timestamptz;
+
+alter table public.bookings drop constraint if exists bookings_status_check;
+alter table public.bookings add constraint bookings_status_check
+  check (status in ('pending', 'confirmed', 'in_progress', 'completed', 'cancelled', 'no_show'));
+
+create table if not exists public.booking_status_history (
+  id bigint generated by default as identity primary key,
+  booking_id bigint not null references public.bookings (id) on delete cascade,
+  from_status text,
+  to_status text not null,
+  changed_by uuid references public.users (id) on delete set null,
+  changed_by_role text not null check (changed_by_role in ('customer', 'staff', 'admin')),
+  note text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists booking_status_history_booking_idx on public.booking_status_history (booking_id, created_at);
@@ -0,0 +1,17 @@
+-- Deposits, balance payments and refunds against bookings
+
+create table if not exists public.payments (
+  id bigint generated by default as identity primary key,
+  booking_id bigint not null references public.bookings (id) on delete restrict,
+  kind text not null check (kind in ('deposit', 'payment', 'refund')),
+  method text not null check (method in ('cash', 'card', 'e_wallet')),
+  amount numeric(10, 2) not null check (amount > 0),
+  reference text, -- The gateway's transaction ID
+  refund_of bigint references public.payments (id) on delete restrict,
+  recorded_by uuid references public.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  check ((kind = 'refund') = (refund_of is not null))
+);
+
+create index if not exists payments_booking_idx on public.payments (booking_id);
+create index if not exists payments_created_idx on public.payments (created_at);
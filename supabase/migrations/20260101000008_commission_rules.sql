@@ -0,0 +1,11 @@
+-- Commission rates by staff member and service category; the most specific rule wins
+
+create table if not exists public.commission_rules (
+  id bigint generated by default as identity primary key,
+  staff_id uuid references public.users (id) on delete cascade,
+  category text check (category in ('facial', 'massage', 'nail', 'hair', 'waxing', 'other')),
+  rate numeric(5, 4) not null check (rate >= 0 and rate <= 1)
+);
+
+create unique index if not exists commission_rules_scope_key
+  on public.commission_rules (coalesce(staff_id::text, ''), coalesce(category, ''));
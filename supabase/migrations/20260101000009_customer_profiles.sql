@@ -0,0 +1,12 @@
+-- Customer contact details, care notes and contact preferences, and the bucket profile photos go in
+
+alter table public.users add column if not exists phone text;
+alter table public.users add column if not exists birthday date;
+alter table public.users add column if not exists allergies text;
+alter table public.users add column if not exists skin_notes text;
+alter table public.users add column if not exists contact_preferences jsonb not null
+  default '{"email": true, "sms": true, "promotions": false}'::jsonb;
+
+insert into storage.buckets (id, name, public)
+values ('avatars', 'avatars', true)
+on conflict (id) do nothing;
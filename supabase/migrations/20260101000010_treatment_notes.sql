@@ -0,0 +1,13 @@
+-- Private notes staff write about a client's treatment
+
+create table if not exists public.treatment_notes (
+  id bigint generated by default as identity primary key,
+  booking_id bigint references public.bookings (id) on delete set null,
+  customer_id uuid not null references public.users (id) on delete cascade,
+  note text not null,
+  products_used text,
+  written_by uuid references public.users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists treatment_notes_customer_idx on public.treatment_notes (customer_id, created_at desc);
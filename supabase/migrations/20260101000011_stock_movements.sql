@@ -0,0 +1,27 @@
+-- What each service uses up, and the ledger of every stock movement
+
+-- Services use fractions of a bottle or bag, so stock is no longer whole units
+alter table public.inventory alter column stock type numeric(12, 3);
+
+-- What one booking of a service uses up
+create table if not exists public.service_materials (
+  id bigint generated by default as identity primary key,
+  service_id bigint not null references public.services (id) on delete cascade,
+  item_id bigint not null references public.inventory (id) on delete cascade,
+  quantity numeric(12, 3) not null check (quantity > 0),
+  unique (service_id, item_id)
+);
+
+create table if not exists public.stock_movements (
+  id bigint generated by default as identity primary key,
+  item_id bigint not null references public.inventory (id) on delete cascade,
+  quantity numeric(12, 3) not null, -- Negative when stock goes out
+  stock_after numeric(12, 3) not null,
+  reason text not null check (reason in ('sale', 'usage', 'restock', 'adjustment', 'waste')),
+  booking_id bigint references public.bookings (id) on delete set null,
+  note text,
+  recorded_by uuid references public.users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists stock_movements_item_created_idx on public.stock_movements (item_id, created_at desc);
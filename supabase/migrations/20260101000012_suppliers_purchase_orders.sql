@@ -0,0 +1,39 @@
+-- Suppliers, units, cost prices and reorder points for stock items, and purchase orders
+
+create table if not exists public.suppliers (
+  id bigint generated by default as identity primary key,
+  name text not null unique,
+  contact_name text,
+  email text,
+  phone text,
+  notes text,
+  created_at timestamptz not null default now()
+);
+
+alter table public.inventory add column if not exists unit text not null default 'pcs';
+alter table public.inventory add column if not exists cost_price numeric(10, 2);
+alter table public.inventory add column if not exists reorder_point numeric(12, 3);
+alter table public.inventory add column if not exists reorder_quantity numeric(12, 3);
+alter table public.inventory add column if not exists supplier_id bigint references public.suppliers (id) on delete set null;
+
+create table if not exists public.purchase_orders (
+  id bigint generated by default as identity primary key,
+  supplier_id bigint not null references public.suppliers (id) on delete restrict,
+  status text not null default 'draft'
+    check (status in ('draft', 'ordered', 'partially_received', 'received', 'cancelled')),
+  expected_date date,
+  notes text,
+  created_by uuid references public.users (id) on delete set null,
+  ordered_at timestamptz,
+  received_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.purchase_order_lines (
+  id bigint generated by default as identity primary key,
+  purchase_order_id bigint not null references public.purchase_orders (id) on delete cascade,
+  item_id bigint not null references public.inventory (id) on delete restrict,
+  quantity_ordered numeric(12, 3) not null check (quantity_ordered > 0),
+  quantity_received numeric(12, 3) not null default 0 check (quantity_received >= 0),
+  unit_cost numeric(10, 2)
+);
@@ -0,0 +1,24 @@
+-- Products sold over the counter
+
+create table if not exists public.retail_sales (
+  id bigint generated by default as identity primary key,
+  booking_id bigint references public.bookings (id) on delete set null,
+  customer_id uuid references public.users (id) on delete set null,
+  sold_by uuid references public.users (id) on delete set null,
+  subtotal numeric(10, 2) not null,
+  discount numeric(10, 2) not null default 0,
+  total numeric(10, 2) not null check (total >= 0),
+  payment_method text not null check (payment_method in ('cash', 'card', 'e_wallet')),
+  reference text, -- The gateway's transaction ID
+  created_at timestamptz not null default now()
+);
+
+create index if not exists retail_sales_created_idx on public.retail_sales (created_at);
+
+create table if not exists public.retail_sale_items (
+  id bigint generated by default as identity primary key,
+  sale_id bigint not null references public.retail_sales (id) on delete cascade,
+  item_id bigint not null references public.inventory (id) on delete restrict,
+  quantity numeric(12, 3) not null check (quantity > 0),
+  unit_price numeric(10, 2) not null
+);
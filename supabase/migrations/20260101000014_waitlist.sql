@@ -0,0 +1,21 @@
+-- Customers waiting for a slot, and the offers held for them when one frees up
+
+create table if not exists public.waitlist_entries (
+  id bigint generated by default as identity primary key,
+  customer_id uuid not null references public.users (id) on delete cascade,
+  service_id bigint not null references public.services (id) on delete cascade,
+  staff_id uuid references public.users (id) on delete set null, -- Null means anyone
+  date date not null,
+  window_start time not null,
+  window_end time not null,
+  notes text,
+  status text not null default 'waiting' check (status in ('waiting', 'offered', 'booked', 'expired', 'cancelled')),
+  offered_time time,
+  offered_staff_id uuid references public.users (id) on delete set null,
+  offer_expires_at timestamptz,
+  booking_id bigint references public.bookings (id) on delete set null,
+  created_at timestamptz not null default now(),
+  check (window_start < window_end)
+);
+
+create index if not exists waitlist_entries_service_date_idx on public.waitlist_entries (service_id, date, status);
@@ -0,0 +1,14 @@
+-- The salon's cancellation and reschedule policy (a single row), and how often each booking was moved
+
+create table if not exists public.booking_policies (
+  id bigint primary key,
+  cancel_notice_hours integer not null default 24 check (cancel_notice_hours >= 0),
+  reschedule_notice_hours integer not null default 24 check (reschedule_notice_hours >= 0),
+  max_reschedules integer check (max_reschedules >= 0), -- Null means no limit
+  late_cancellation_penalty text not null default 'none' check (late_cancellation_penalty in ('none', 'forfeit_deposit', 'fee')),
+  late_cancellation_fee_rate numeric(5, 4) not null default 0 check (late_cancellation_fee_rate between 0 and 1),
+  updated_by uuid references public.users (id) on delete set null,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.bookings add column if not exists reschedule_count integer not null default 0;
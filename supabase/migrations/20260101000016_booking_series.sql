@@ -0,0 +1,18 @@
+-- Recurring appointments; each occurrence is an ordinary booking linked to its series
+
+create table if not exists public.booking_series (
+  id bigint generated by default as identity primary key,
+  customer_id uuid not null references public.users (id) on delete cascade,
+  service_id bigint not null references public.services (id) on delete cascade,
+  frequency text not null check (frequency in ('weekly', 'every_2_weeks', 'every_3_weeks', 'every_4_weeks', 'monthly')),
+  start_date date not null,
+  booking_time time not null,
+  end_date date,
+  occurrence_count integer check (occurrence_count > 0),
+  created_by uuid references public.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  check (end_date is not null or occurrence_count is not null)
+);
+
+alter table public.bookings add column if not exists series_id bigint references public.booking_series (id) on delete set null;
+create index if not exists bookings_series_idx on public.bookings (series_id) where series_id is not null;
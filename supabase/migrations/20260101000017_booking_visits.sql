@@ -0,0 +1,13 @@
+-- Several services booked back to back as one visit
+
+create table if not exists public.booking_visits (
+  id bigint generated by default as identity primary key,
+  customer_id uuid not null references public.users (id) on delete cascade,
+  visit_date date not null,
+  start_time time not null,
+  created_by uuid references public.users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+alter table public.bookings add column if not exists visit_id bigint references public.booking_visits (id) on delete set null;
+create index if not exists bookings_visit_idx on public.bookings (visit_id) where visit_id is not null;
@@ -0,0 +1,50 @@
+-- Bundles and session cards for sale, the cards customers bought and the sessions they redeem
+
+create table if not exists public.service_packages (
+  id bigint generated by default as identity primary key,
+  name text not null,
+  description text,
+  kind text not null check (kind in ('bundle', 'session_card')),
+  price numeric(10, 2) not null check (price > 0),
+  validity_days integer check (validity_days > 0), -- Null means it never expires
+  is_active boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.service_package_items (
+  id bigint generated by default as identity primary key,
+  package_id bigint not null references public.service_packages (id) on delete cascade,
+  service_id bigint not null references public.services (id) on delete restrict,
+  sessions integer not null check (sessions > 0),
+  unique (package_id, service_id)
+);
+
+create table if not exists public.session_cards (
+  id bigint generated by default as identity primary key,
+  package_id bigint not null references public.service_packages (id) on delete restrict,
+  customer_id uuid not null references public.users (id) on delete cascade,
+  sold_by uuid references public.users (id) on delete set null,
+  price numeric(10, 2) not null,
+  payment_method text not null check (payment_method in ('cash', 'card', 'e_wallet')),
+  reference text, -- The gateway's transaction ID
+  expires_at date,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists session_cards_customer_idx on public.session_cards (customer_id);
+
+create table if not exists public.session_card_items (
+  id bigint generated by default as identity primary key,
+  card_id bigint not null references public.session_cards (id) on delete cascade,
+  service_id bigint not null references public.services (id) on delete restrict,
+  sessions integer not null check (sessions > 0),
+  remaining integer not null check (remaining >= 0 and remaining <= sessions),
+  unit_value numeric(10, 2) not null -- What one session is worth of the card's price
+);
+
+-- A redemption pays for a booking with a session; its refund puts the session back
+alter table public.payments drop constraint if exists payments_kind_check;
+alter table public.payments add constraint payments_kind_check
+  check (kind in ('deposit', 'payment', 'redemption', 'refund'));
+alter table public.payments add column if not exists session_card_item_id bigint
+  references public.session_card_items (id) on delete set null;
@@ -0,0 +1,20 @@
+-- Staff who can do every service are marked explicitly; with no specializations at all, a staff member can't be booked
+
+alter table public.staff_specializations add column if not exists all_services boolean not null default false;
+
+alter table public.staff_specializations drop constraint if exists staff_specializations_check;
+alter table public.staff_specializations add constraint staff_specializations_check check (
+  (case when category is not null then 1 else 0 end) +
+  (case when service_id is not null then 1 else 0 end) +
+  (case when all_services then 1 else 0 end) = 1
+);
+
+create unique index if not exists staff_specializations_all_services_key
+  on public.staff_specializations (staff_id) where all_services;
+
+-- Staff without specializations could do everything before, so keep it that way
+insert into public.staff_specializations (staff_id, all_services)
+select users.id, true
+from public.users
+where users.role = 'staff'
+  and not exists (select 1 from public.staff_specializations spec where spec.staff_id = users.id);
@@ -0,0 +1,16 @@
+-- Reminders are logged per appointment time, so a rescheduled booking is reminded again for its new time
+
+alter table public.reminder_log add column if not exists booking_date date;
+alter table public.reminder_log add column if not exists booking_time time;
+
+update public.reminder_log log
+set booking_date = bookings.booking_date, booking_time = bookings.booking_time
+from public.bookings
+where bookings.id = log.booking_id and log.booking_date is null;
+
+alter table public.reminder_log alter column booking_date set not null;
+alter table public.reminder_log alter column booking_time set not null;
+
+alter table public.reminder_log drop constraint if exists reminder_log_booking_id_channel_offset_minutes_key;
+alter table public.reminder_log add constraint reminder_log_reminder_key
+  unique (booking_id, booking_date, booking_time, channel, offset_minutes);
@@ -0,0 +1,47 @@
+-- Treatment notes are private to the salon: only staff and admins can read or write them.
+-- The app talks to Supabase with the anon key, so without these policies any signed-in
+-- customer could query the table directly.
+
+-- Looks up the signed-in user's role. Security definer so the check isn't itself held back by RLS on users.
+create or replace function public.is_staff_or_admin()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.users
+    where id = auth.uid() and role in ('staff', 'admin')
+  );
+$$;
+
+revoke all on function public.is_staff_or_admin() from public;
+grant execute on function public.is_staff_or_admin() to authenticated;
+
+alter table public.treatment_notes enable row level security;
+
+drop policy if exists "Staff and admins read treatment notes" on public.treatment_notes;
+create policy "Staff and admins read treatment notes"
+  on public.treatment_notes for select
+  to authenticated
+  using (public.is_staff_or_admin());
+
+drop policy if exists "Staff and admins write treatment notes" on public.treatment_notes;
+create policy "Staff and admins write treatment notes"
+  on public.treatment_notes for insert
+  to authenticated
+  with check (public.is_staff_or_admin() and written_by = auth.uid());
+
+drop policy if exists "Staff and admins update treatment notes" on public.treatment_notes;
+create policy "Staff and admins update treatment notes"
+  on public.treatment_notes for update
+  to authenticated
+  using (public.is_staff_or_admin())
+  with check (public.is_staff_or_admin());
+
+drop policy if exists "Staff and admins delete treatment notes" on public.treatment_notes;
+create policy "Staff and admins delete treatment notes"
+  on public.treatment_notes for delete
+  to authenticated
+  using (public.is_staff_or_admin());
@@ -0,0 +1,19 @@
+-- A revision number on each booking, raised by one on every update.
+-- Calendar files and feeds use it as the event's SEQUENCE so each change supersedes the last.
+
+alter table public.bookings add column if not exists revision integer not null default 0;
+
+create or replace function public.bump_booking_revision()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.revision := old.revision + 1;
+  return new;
+end;
+$$;
+
+drop trigger if exists bookings_bump_revision on public.bookings;
+create trigger bookings_bump_revision
+  before update on public.bookings
+  for each row execute function public.bump_booking_revision();
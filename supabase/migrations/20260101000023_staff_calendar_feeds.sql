@@ -0,0 +1,18 @@
+-- The secret token in each staff member's calendar subscription link.
+-- The staff-calendar-feed edge function looks the token up with the service role key;
+-- staff can only see and change their own.
+
+create table if not exists public.staff_calendar_feeds (
+  staff_id uuid primary key references public.users (id) on delete cascade,
+  token text not null unique,
+  created_at timestamptz not null default now()
+);
+
+alter table public.staff_calendar_feeds enable row level security;
+
+drop policy if exists "Staff manage their own calendar feed" on public.staff_calendar_feeds;
+create policy "Staff manage their own calendar feed"
+  on public.staff_calendar_feeds for all
+  to authenticated
+  using (staff_id = auth.uid())
+  with check (staff_id = auth.uid());
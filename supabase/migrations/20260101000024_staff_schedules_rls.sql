@@ -0,0 +1,49 @@
+-- Working hours and time off: everyone signed in reads them to see which times can be booked,
+-- and only admins change them (from Staff Schedules).
+
+-- Looks up whether the signed-in user is an admin. Security definer so the check isn't itself held back by RLS on users.
+create or replace function public.is_admin()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.users
+    where id = auth.uid() and role = 'admin'
+  );
+$$;
+
+revoke all on function public.is_admin() from public;
+grant execute on function public.is_admin() to authenticated;
+
+alter table public.staff_working_hours enable row level security;
+
+drop policy if exists "Signed-in users read working hours" on public.staff_working_hours;
+create policy "Signed-in users read working hours"
+  on public.staff_working_hours for select
+  to authenticated
+  using (true);
+
+drop policy if exists "Admins manage working hours" on public.staff_working_hours;
+create policy "Admins manage working hours"
+  on public.staff_working_hours for all
+  to authenticated
+  using (public.is_admin())
+  with check (public.is_admin());
+
+alter table public.staff_time_off enable row level security;
+
+drop policy if exists "Signed-in users read time off" on public.staff_time_off;
+create policy "Signed-in users read time off"
+  on public.staff_time_off for select
+  to authenticated
+  using (true);
+
+drop policy if exists "Admins manage time off" on public.staff_time_off;
+create policy "Admins manage time off"
+  on public.staff_time_off for all
+  to authenticated
+  using (public.is_admin())
+  with check (public.is_admin());
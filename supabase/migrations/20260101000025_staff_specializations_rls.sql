@@ -0,0 +1,17 @@
+-- Specializations decide which staff a customer can pick, so everyone signed in reads them;
+-- only admins change them (from Manage Staff).
+
+alter table public.staff_specializations enable row level security;
+
+drop policy if exists "Signed-in users read specializations" on public.staff_specializations;
+create policy "Signed-in users read specializations"
+  on public.staff_specializations for select
+  to authenticated
+  using (true);
+
+drop policy if exists "Admins manage specializations" on public.staff_specializations;
+create policy "Admins manage specializations"
+  on public.staff_specializations for all
+  to authenticated
+  using (public.is_admin())
+  with check (public.is_admin());
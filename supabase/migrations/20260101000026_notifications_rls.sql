@@ -0,0 +1,23 @@
+-- Each user reads and marks only their own notifications. Customers' own actions notify
+-- themselves; staff and admins notify the customer whose booking they changed.
+
+alter table public.notifications enable row level security;
+
+drop policy if exists "Users read their own notifications" on public.notifications;
+create policy "Users read their own notifications"
+  on public.notifications for select
+  to authenticated
+  using (user_id = auth.uid());
+
+drop policy if exists "Users mark their own notifications read" on public.notifications;
+create policy "Users mark their own notifications read"
+  on public.notifications for update
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+drop policy if exists "Users notify themselves, the salon notifies anyone" on public.notifications;
+create policy "Users notify themselves, the salon notifies anyone"
+  on public.notifications for insert
+  to authenticated
+  with check (user_id = auth.uid() or public.is_staff_or_admin());
@@ -0,0 +1,34 @@
+-- A booking's history is visible to the salon and to the customer whose booking it is.
+-- Each entry is written by the user making the change and is never edited afterwards.
+
+-- Whether the signed-in user may see a booking's records: staff and admins see every booking,
+-- customers their own. Security definer so it doesn't depend on the policies on bookings.
+create or replace function public.can_access_booking(p_booking_id bigint)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.is_staff_or_admin() or exists (
+    select 1 from public.bookings
+    where id = p_booking_id and customer_id = auth.uid()
+  );
+$$;
+
+revoke all on function public.can_access_booking(bigint) from public;
+grant execute on function public.can_access_booking(bigint) to authenticated;
+
+alter table public.booking_status_history enable row level security;
+
+drop policy if exists "Users read the history of bookings they can see" on public.booking_status_history;
+create policy "Users read the history of bookings they can see"
+  on public.booking_status_history for select
+  to authenticated
+  using (public.can_access_booking(booking_id));
+
+drop policy if exists "Users record their own changes" on public.booking_status_history;
+create policy "Users record their own changes"
+  on public.booking_status_history for insert
+  to authenticated
+  with check (changed_by = auth.uid() and public.can_access_booking(booking_id));
@@ -0,0 +1,17 @@
+-- Payments are visible to the salon and to the customer whose booking they are for.
+-- Customers record their own deposits and the refunds of their own cancellations;
+-- nobody edits or deletes a payment once it is recorded.
+
+alter table public.payments enable row level security;
+
+drop policy if exists "Users read payments for bookings they can see" on public.payments;
+create policy "Users read payments for bookings they can see"
+  on public.payments for select
+  to authenticated
+  using (public.can_access_booking(booking_id));
+
+drop policy if exists "Users record payments for bookings they can see" on public.payments;
+create policy "Users record payments for bookings they can see"
+  on public.payments for insert
+  to authenticated
+  with check (recorded_by = auth.uid() and public.can_access_booking(booking_id));
@@ -0,0 +1,16 @@
+-- Commission rates are for the salon only: staff and admins read them, admins change them.
+
+alter table public.commission_rules enable row level security;
+
+drop policy if exists "Staff and admins read commission rules" on public.commission_rules;
+create policy "Staff and admins read commission rules"
+  on public.commission_rules for select
+  to authenticated
+  using (public.is_staff_or_admin());
+
+drop policy if exists "Admins manage commission rules" on public.commission_rules;
+create policy "Admins manage commission rules"
+  on public.commission_rules for all
+  to authenticated
+  using (public.is_admin())
+  with check (public.is_admin());
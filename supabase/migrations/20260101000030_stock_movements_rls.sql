@@ -0,0 +1,32 @@
+-- Service materials and the stock ledger are for the salon only. Staff record usage when they
+-- complete a booking; admins set up which materials each service uses.
+
+alter table public.service_materials enable row level security;
+
+drop policy if exists "Staff and admins read service materials" on public.service_materials;
+create policy "Staff and admins read service materials"
+  on public.service_materials for select
+  to authenticated
+  using (public.is_staff_or_admin());
+
+drop policy if exists "Admins manage service materials" on public.service_materials;
+create policy "Admins manage service materials"
+  on public.service_materials for all
+  to authenticated
+  using (public.is_admin())
+  with check (public.is_admin());
+
+alter table public.stock_movements enable row level security;
+
+drop policy if exists "Staff and admins read stock movements" on public.stock_movements;
+create policy "Staff and admins read stock movements"
+  on public.stock_movements for select
+  to authenticated
+  using (public.is_staff_or_admin());
+
+-- The ledger is append-only
+drop policy if exists "Staff and admins record stock movements" on public.stock_movements;
+create policy "Staff and admins record stock movements"
+  on public.stock_movements for insert
+  to authenticated
+  with check (public.is_staff_or_admin() and recorded_by = auth.uid());
@@ -0,0 +1,28 @@
+-- Suppliers and purchase orders are for the salon only.
+
+alter table public.suppliers enable row level security;
+
+drop policy if exists "Staff and admins manage suppliers" on public.suppliers;
+create policy "Staff and admins manage suppliers"
+  on public.suppliers for all
+  to authenticated
+  using (public.is_staff_or_admin())
+  with check (public.is_staff_or_admin());
+
+alter table public.purchase_orders enable row level security;
+
+drop policy if exists "Staff and admins manage purchase orders" on public.purchase_orders;
+create policy "Staff and admins manage purchase orders"
+  on public.purchase_orders for all
+  to authenticated
+  using (public.is_staff_or_admin())
+  with check (public.is_staff_or_admin());
+
+alter table public.purchase_order_lines enable row level security;
+
+drop policy if exists "Staff and admins manage purchase order lines" on public.purchase_order_lines;
+create policy "Staff and admins manage purchase order lines"
+  on public.purchase_order_lines for all
+  to authenticated
+  using (public.is_staff_or_admin())
+  with check (public.is_staff_or_admin());
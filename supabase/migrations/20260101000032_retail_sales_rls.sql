@@ -0,0 +1,19 @@
+-- Retail sales are rung up at the salon's point of sale, so only staff and admins see or record them.
+
+alter table public.retail_sales enable row level security;
+
+drop policy if exists "Staff and admins manage retail sales" on public.retail_sales;
+create policy "Staff and admins manage retail sales"
+  on public.retail_sales for all
+  to authenticated
+  using (public.is_staff_or_admin())
+  with check (public.is_staff_or_admin());
+
+alter table public.retail_sale_items enable row level security;
+
+drop policy if exists "Staff and admins manage retail sale items" on public.retail_sale_items;
+create policy "Staff and admins manage retail sale items"
+  on public.retail_sale_items for all
+  to authenticated
+  using (public.is_staff_or_admin())
+  with check (public.is_staff_or_admin());
@@ -0,0 +1,16 @@
+-- Customers read the booking policy before they book or cancel; only admins change it.
+
+alter table public.booking_policies enable row level security;
+
+drop policy if exists "Signed-in users read the booking policy" on public.booking_policies;
+create policy "Signed-in users read the booking policy"
+  on public.booking_policies for select
+  to authenticated
+  using (true);
+
+drop policy if exists "Admins manage the booking policy" on public.booking_policies;
+create policy "Admins manage the booking policy"
+  on public.booking_policies for all
+  to authenticated
+  using (public.is_admin())
+  with check (public.is_admin());
@@ -0,0 +1,22 @@
+-- Customers see and set up their own recurring series; staff and admins see all of them.
+
+alter table public.booking_series enable row level security;
+
+drop policy if exists "Users read series they can see" on public.booking_series;
+create policy "Users read series they can see"
+  on public.booking_series for select
+  to authenticated
+  using (customer_id = auth.uid() or public.is_staff_or_admin());
+
+drop policy if exists "Users create series for themselves, the salon for anyone" on public.booking_series;
+create policy "Users create series for themselves, the salon for anyone"
+  on public.booking_series for insert
+  to authenticated
+  with check (customer_id = auth.uid() or public.is_staff_or_admin());
+
+-- A series with no bookings left is removed by whoever set it up
+drop policy if exists "Users remove series they can see" on public.booking_series;
+create policy "Users remove series they can see"
+  on public.booking_series for delete
+  to authenticated
+  using (customer_id = auth.uid() or public.is_staff_or_admin());
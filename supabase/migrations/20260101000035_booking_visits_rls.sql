@@ -0,0 +1,21 @@
+-- Customers see and book their own visits; staff and admins see all of them.
+
+alter table public.booking_visits enable row level security;
+
+drop policy if exists "Users read visits they can see" on public.booking_visits;
+create policy "Users read visits they can see"
+  on public.booking_visits for select
+  to authenticated
+  using (customer_id = auth.uid() or public.is_staff_or_admin());
+
+drop policy if exists "Users book visits for themselves, the salon for anyone" on public.booking_visits;
+create policy "Users book visits for themselves, the salon for anyone"
+  on public.booking_visits for insert
+  to authenticated
+  with check (customer_id = auth.uid() or public.is_staff_or_admin());
+
+drop policy if exists "Users remove visits they can see" on public.booking_visits;
+create policy "Users remove visits they can see"
+  on public.booking_visits for delete
+  to authenticated
+  using (customer_id = auth.uid() or public.is_staff_or_admin());
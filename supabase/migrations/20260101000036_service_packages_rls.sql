@@ -0,0 +1,56 @@
+-- Packages on sale are read by everyone signed in and changed only by admins.
+-- Customers see the cards they bought and use their own sessions; staff and admins see every card.
+
+alter table public.service_packages enable row level security;
+
+drop policy if exists "Signed-in users read packages" on public.service_packages;
+create policy "Signed-in users read packages"
+  on public.service_packages for select
+  to authenticated
+  using (true);
+
+drop policy if exists "Admins manage packages" on public.service_packages;
+create policy "Admins manage packages"
+  on public.service_packages for all
+  to authenticated
+  using (public.is_admin())
+  with check (public.is_admin());
+
+alter table public.service_package_items enable row level security;
+
+drop policy if exists "Signed-in users read package items" on public.service_package_items;
+create policy "Signed-in users read package items"
+  on public.service_package_items for select
+  to authenticated
+  using (true);
+
+drop policy if exists "Admins manage package items" on public.service_package_items;
+create policy "Admins manage package items"
+  on public.service_package_items for all
+  to authenticated
+  using (public.is_admin())
+  with check (public.is_admin());
+
+alter table public.session_cards enable row level security;
+
+drop policy if exists "Users manage cards they can see" on public.session_cards;
+create policy "Users manage cards they can see"
+  on public.session_cards for all
+  to authenticated
+  using (customer_id = auth.uid() or public.is_staff_or_admin())
+  with check (customer_id = auth.uid() or public.is_staff_or_admin());
+
+alter table public.session_card_items enable row level security;
+
+drop policy if exists "Users manage sessions on cards they can see" on public.session_card_items;
+create policy "Users manage sessions on cards they can see"
+  on public.session_card_items for all
+  to authenticated
+  using (exists (
+    select 1 from public.session_cards card
+    where card.id = card_id and (card.customer_id = auth.uid() or public.is_staff_or_admin())
+  ))
+  with check (exists (
+    select 1 from public.session_cards card
+    where card.id = card_id and (card.customer_id = auth.uid() or public.is_staff_or_admin())
+  ));
@@ -0,0 +1,48 @@
+-- Stops two active bookings for the same staff member from overlapping. The app checks
+-- availability before saving, but two customers can pass that check for the same time at once;
+-- this constraint makes the second save fail (exclusion_violation, 23P01) instead of double booking.
+-- Any double bookings already in the table must be resolved before this migration runs.
+
+create extension if not exists btree_gist;
+
+-- Each booking keeps the length of its service, so the booked time doesn't change if the service does
+alter table public.bookings add column if not exists duration_minutes integer;
+
+create or replace function public.set_booking_duration()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'INSERT' or new.service_id is distinct from old.service_id or new.duration_minutes is null then
+    select services.duration into new.duration_minutes
+    from public.services
+    where services.id = new.service_id;
+  end if;
+  new.duration_minutes := coalesce(new.duration_minutes, 60);
+  return new;
+end;
+$$;
+
+drop trigger if exists bookings_set_duration on public.bookings;
+create trigger bookings_set_duration
+  before insert or update on public.bookings
+  for each row execute function public.set_booking_duration();
+
+update public.bookings
+set duration_minutes = coalesce(services.duration, 60)
+from public.services
+where services.id = bookings.service_id and bookings.duration_minutes is null;
+
+update public.bookings set duration_minutes = 60 where duration_minutes is null;
+
+alter table public.bookings alter column duration_minutes set default 60;
+alter table public.bookings alter column duration_minutes set not null;
+
+alter table public.bookings add column if not exists slot tsrange generated always as (
+  tsrange(booking_date + booking_time, booking_date + booking_time + make_interval(mins => duration_minutes))
+) stored;
+
+alter table public.bookings drop constraint if exists bookings_no_overlap;
+alter table public.bookings add constraint bookings_no_overlap
+  exclude using gist (staff_id with =, slot with &&)
+  where (staff_id is not null and status in ('pending', 'confirmed', 'in_progress'));
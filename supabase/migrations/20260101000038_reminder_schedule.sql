@@ -0,0 +1,32 @@
+-- Reminders are sent by the send-reminders edge function, which pg_cron calls every 5 minutes.
+-- Before running this, store the project URL and service role key in Vault:
+--   select vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   select vault.create_secret('<service-role-key>', 'service_role_key');
+
+create extension if not exists pg_cron;
+create extension if not exists pg_net;
+
+select cron.schedule(
+  'send-reminders',
+  '*/5 * * * *',
+  $$
+  select net.http_post(
+    url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url') || '/functions/v1/send-reminders',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
+
+-- Only the edge function writes the log, with the service role. Staff and admins can read it.
+
+alter table public.reminder_log enable row level security;
+
+drop policy if exists "Staff read the reminder log" on public.reminder_log;
+create policy "Staff read the reminder log"
+  on public.reminder_log for select
+  to authenticated
+  using (public.is_staff_or_admin());
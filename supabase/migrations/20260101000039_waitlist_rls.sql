@@ -0,0 +1,33 @@
+-- Customers join, claim and leave their own waitlist entries; staff and admins see and manage all of them.
+-- Open entries (waiting or holding an offer) can be read by anyone signed in: a held time blocks the
+-- calendar for other customers, and a customer who cancels passes the freed time on to the next in line
+-- from their browser. For the same reason anyone signed in may put an open entry on offer or expire it,
+-- but only its customer or the salon can book or close it.
+
+alter table public.waitlist_entries enable row level security;
+
+drop policy if exists "Users read their own and open waitlist entries" on public.waitlist_entries;
+create policy "Users read their own and open waitlist entries"
+  on public.waitlist_entries for select
+  to authenticated
+  using (customer_id = auth.uid() or public.is_staff_or_admin() or status in ('waiting', 'offered'));
+
+drop policy if exists "Users join the waitlist for themselves, the salon for anyone" on public.waitlist_entries;
+create policy "Users join the waitlist for themselves, the salon for anyone"
+  on public.waitlist_entries for insert
+  to authenticated
+  with check (customer_id = auth.uid() or public.is_staff_or_admin());
+
+drop policy if exists "Users update their own waitlist entries" on public.waitlist_entries;
+create policy "Users update their own waitlist entries"
+  on public.waitlist_entries for update
+  to authenticated
+  using (customer_id = auth.uid() or public.is_staff_or_admin())
+  with check (customer_id = auth.uid() or public.is_staff_or_admin());
+
+drop policy if exists "Users pass open waitlist offers on" on public.waitlist_entries;
+create policy "Users pass open waitlist offers on"
+  on public.waitlist_entries for update
+  to authenticated
+  using (status in ('waiting', 'offered'))
+  with check (status in ('offered', 'expired') and booking_id is null);
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react';
 import path from 'path'; // Import path module
@@ -14,7 +15,15 @@ export default defineConfig({
       '@context': path.resolve(__dirname, './src/context'),
       '@utils': path.resolve(__dirname, './src/utils'),
       '@router': path.resolve(__dirname, './src/router'),
+      '@repositories': path.resolve(__dirname, './src/repositories'),
       '@models': path.resolve(__dirname, './src/types'),
     },
   },
+  test: {
+    // Tests run offline against the in-memory mock backend, reset before each test
+    environment: 'node',
+    setupFiles: ['./src/test/setup.ts'],
+    // Keep the app's console logging out of the test output
+    silent: 'passed-only',
+  },
 });
\ No newline at end of file